@@ -0,0 +1,122 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { AttachmentChunk } from '../src/@types/types';
+
+const mockWriteFile = jest.fn(async () => undefined);
+
+jest.mock(
+  'react-native-blob-util',
+  () => ({
+    fs: { dirs: { CacheDir: '/cache' }, writeFile: mockWriteFile, readFile: jest.fn() },
+    android: { actionViewIntent: jest.fn() },
+  }),
+  { virtual: true },
+);
+
+const { createAttachmentAssembler } = require('../src/methods/messageMethods/chatAttachments');
+const { writeAttachmentFile } = require('../src/methods/messageMethods/chatAttachmentFiles');
+const { configureMediasfuLogger } = require('../src/methods/utils/logger/mediasfuLogger');
+
+const chunksOf = (attachmentId: string, data: string, size: number): AttachmentChunk[] => {
+  const total = Math.ceil(data.length / size);
+  return Array.from({ length: total }, (_, index) => ({
+    attachmentId,
+    index,
+    total,
+    data: data.slice(index * size, (index + 1) * size),
+  }));
+};
+
+describe('attachment assembler', () => {
+  beforeEach(() => {
+    configureMediasfuLogger({ level: 'silent' });
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    configureMediasfuLogger(null);
+  });
+
+  it('puts the chunks of an expected attachment back together in any order', () => {
+    const onComplete = jest.fn();
+    const assembler = createAttachmentAssembler({ onComplete });
+
+    assembler.expect('a1');
+    chunksOf('a1', 'data:text/plain;base64,aGVsbG8=', 8).reverse().forEach(assembler.handle);
+
+    expect(onComplete).toHaveBeenCalledWith('a1', 'data:text/plain;base64,aGVsbG8=');
+  });
+
+  it('ignores chunks of attachments no received message announced', () => {
+    const onComplete = jest.fn();
+    const assembler = createAttachmentAssembler({ onComplete });
+
+    chunksOf('a1', 'data:,x', 4).forEach(assembler.handle);
+    assembler.expect('../../etc/passwd');
+    chunksOf('../../etc/passwd', 'data:,x', 4).forEach(assembler.handle);
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('gives up the oldest attachment when too many are received at once', () => {
+    const onComplete = jest.fn();
+    const assembler = createAttachmentAssembler({ onComplete, maxPending: 2 });
+
+    ['a1', 'a2', 'a3'].forEach((attachmentId) => assembler.expect(attachmentId));
+    ['a1', 'a2', 'a3'].forEach((attachmentId) => chunksOf(attachmentId, 'data:,x', 4).forEach(assembler.handle));
+
+    expect(onComplete.mock.calls.map(([attachmentId]) => attachmentId)).toEqual(['a2', 'a3']);
+  });
+
+  it('drops attachments whose chunks stop arriving, or that grow past the size limit', () => {
+    const onComplete = jest.fn();
+    const assembler = createAttachmentAssembler({ onComplete, getMaxSize: () => 3, timeoutMs: 1_000 });
+    const [first, second] = chunksOf('a1', 'data:,ab', 4);
+
+    assembler.expect('a1');
+    assembler.handle(first);
+    jest.advanceTimersByTime(1_000);
+    assembler.handle(second);
+
+    assembler.expect('a2');
+    chunksOf('a2', `data:,${'x'.repeat(300)}`, 100).forEach(assembler.handle);
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('drops an attachment whose chunks disagree on the total', () => {
+    const onComplete = jest.fn();
+    const assembler = createAttachmentAssembler({ onComplete });
+
+    assembler.expect('a1');
+    assembler.handle({ attachmentId: 'a1', index: 0, total: 2, data: 'data:' });
+    assembler.handle({ attachmentId: 'a1', index: 1, total: 3, data: ',x' });
+    assembler.handle({ attachmentId: 'a1', index: 1, total: 2, data: ',x' });
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+});
+
+describe('writeAttachmentFile', () => {
+  beforeEach(() => {
+    mockWriteFile.mockClear();
+  });
+
+  it('writes the attachment to the cache directory with a safe file name', async () => {
+    const path = await writeAttachmentFile({ attachmentId: 'm1-abc', name: 'my notes?.txt', data: 'data:,aGk=' });
+
+    expect(path).toBe('/cache/m1-abc-my_notes_.txt');
+    expect(mockWriteFile).toHaveBeenCalledWith('/cache/m1-abc-my_notes_.txt', 'aGk=', 'base64');
+  });
+
+  it('does not write attachments whose ID could leave the cache directory', async () => {
+    await expect(
+      writeAttachmentFile({ attachmentId: '../../files/db', name: 'x.txt', data: 'data:,aGk=' }),
+    ).resolves.toBeNull();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+});
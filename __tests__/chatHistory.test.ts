@@ -0,0 +1,113 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Message } from '../src/@types/types';
+import { createMemoryStorage } from '../src/methods/utils/storage/mediasfuStorage';
+import {
+  createChatHistory,
+  getMessagePage,
+  mergeMessages,
+  parseMessageTimestamp,
+} from '../src/methods/messageMethods/chatHistory';
+import { createChatOutbox } from '../src/methods/messageMethods/chatOutbox';
+import { configureMediasfuLogger } from '../src/methods/utils/logger/mediasfuLogger';
+
+const createMessage = (id: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  sender: 'alice',
+  receivers: [],
+  message: `Message ${id}`,
+  timestamp: 1700000000000,
+  group: true,
+  ...overrides,
+});
+
+describe('chat history', () => {
+  it('keeps restored history when the room messages load afterwards, and saves both', async () => {
+    const storage = createMemoryStorage();
+    const earlier = createChatHistory({ storage });
+    earlier.save('s1', [createMessage('h1'), createMessage('h2')]);
+    await earlier.flush();
+
+    // the component restores history on join, then replaces the list with the room messages
+    let messages: Message[] = [];
+    const chatHistory = createChatHistory({ storage });
+    const updateMessages = (value: Message[]) => {
+      messages = value;
+      chatHistory.save('s1', value);
+    };
+    const outbox = createChatOutbox({ getMessages: () => messages, updateMessages });
+
+    updateMessages(mergeMessages(await chatHistory.load('s1'), messages));
+    const roomMessages = [createMessage('h2'), createMessage('r1')];
+    updateMessages(mergeMessages(messages, outbox.restore({ roomName: 's1', messages: roomMessages })));
+    await chatHistory.flush();
+
+    expect(messages.map((message) => message.id)).toEqual(['h1', 'h2', 'r1']);
+    expect((await createChatHistory({ storage }).load('s1')).map((message) => message.id)).toEqual(['h1', 'h2', 'r1']);
+  });
+
+  it('leaves undelivered messages out, keeps the latest messages and drops the delivery status', async () => {
+    const storage = createMemoryStorage();
+    const chatHistory = createChatHistory({ storage, maxMessages: 2 });
+
+    chatHistory.save('s1', [
+      createMessage('m1'),
+      createMessage('m2', { deliveryStatus: 'sent' }),
+      createMessage('m3'),
+      createMessage('m4', { deliveryStatus: 'pending' }),
+    ]);
+    await chatHistory.flush();
+
+    expect(await chatHistory.load('s1')).toEqual([createMessage('m2'), createMessage('m3')]);
+    await chatHistory.clear('s1');
+    expect(await chatHistory.load('s1')).toEqual([]);
+  });
+
+  it('treats unreadable history as empty', async () => {
+    const storage = createMemoryStorage({ 'mediasfuChatHistory:s1': '{not json' });
+    configureMediasfuLogger({ level: 'silent' });
+
+    expect(await createChatHistory({ storage }).load('s1')).toEqual([]);
+    configureMediasfuLogger(null);
+  });
+});
+
+describe('mergeMessages', () => {
+  it('keeps one copy of each message, the newer one, with history first', () => {
+    const merged = mergeMessages(
+      [createMessage('h1'), createMessage('m1', { message: 'old copy' }), createMessage('h1')],
+      [createMessage('m1'), createMessage('m2')],
+    );
+
+    expect(merged).toEqual([createMessage('h1'), createMessage('m1'), createMessage('m2')]);
+  });
+
+  it('matches a local copy to the delivered message by client ID', () => {
+    const local = createMessage('unused', { id: undefined, clientId: 'c1', deliveryStatus: 'pending' });
+    const delivered = createMessage('server-1', { clientId: 'c1' });
+
+    expect(mergeMessages([local], [delivered])).toEqual([delivered]);
+  });
+});
+
+describe('message paging and timestamps', () => {
+  it('shows the latest page first and keeps its anchor when older pages are loaded', () => {
+    const messages = ['m1', 'm2', 'm3', 'm4', 'm5'].map((id) => createMessage(id));
+
+    const latest = getMessagePage({ messages, pageSize: 2 });
+    expect(latest.visibleMessages.map((message) => message.id)).toEqual(['m4', 'm5']);
+    expect(latest).toMatchObject({ hasOlder: true, olderFirstId: 'm2' });
+
+    const older = getMessagePage({ messages: [...messages, createMessage('m6')], firstVisibleId: 'm2', pageSize: 2 });
+    expect(older.visibleMessages.map((message) => message.id)).toEqual(['m2', 'm3', 'm4', 'm5', 'm6']);
+  });
+
+  it('reads epoch timestamps and numeric strings, but not locale time strings', () => {
+    expect(parseMessageTimestamp(1700000000000)).toBe(1700000000000);
+    expect(parseMessageTimestamp('1700000000000')).toBe(1700000000000);
+    expect(parseMessageTimestamp('10:42:00')).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Message, Participant } from '../src/@types/types';
+import {
+  countUnreadMentions,
+  findMentions,
+  getMentionQuery,
+  getMentionSuggestions,
+  insertMention,
+  isMentioned,
+  splitMentions,
+} from '../src/methods/messageMethods/chatMentions';
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  sender: 'alice',
+  receivers: [],
+  message: 'Hello',
+  timestamp: 1_000,
+  group: true,
+  ...overrides,
+});
+
+const participant = (name: string, overrides: Partial<Participant> = {}): Participant => ({
+  name,
+  audioID: '',
+  videoID: '',
+  ...overrides,
+});
+
+describe('mention autocomplete', () => {
+  it('finds the mention being typed at the cursor', () => {
+    expect(getMentionQuery('thanks @al')).toEqual({ query: 'al', start: 7 });
+    expect(getMentionQuery('@')).toEqual({ query: '', start: 0 });
+    expect(getMentionQuery('hi @al and more', 6)).toEqual({ query: 'al', start: 3 });
+    expect(getMentionQuery('me@example')).toBeNull();
+    expect(getMentionQuery('@alice done')).toBeNull();
+  });
+
+  it('suggests names starting with the query first, never the member or banned participants', () => {
+    const participants = [
+      participant('malia'),
+      participant('alice'),
+      participant('Alan'),
+      participant('me'),
+      participant('alfred', { isBanned: true }),
+      participant('alice'),
+    ];
+
+    expect(getMentionSuggestions({ participants, query: 'al', member: 'me' })).toEqual(['alice', 'Alan', 'malia']);
+    expect(getMentionSuggestions({ participants, query: 'al', member: 'me', limit: 1 })).toEqual(['alice']);
+    expect(getMentionSuggestions({ participants, query: '', member: 'alice' })).toEqual(['malia', 'Alan', 'me']);
+  });
+
+  it('completes the mention and moves the cursor after it', () => {
+    expect(insertMention({ text: 'hi @al', mention: { query: 'al', start: 3 }, name: 'alice', cursor: 6 })).toEqual({
+      text: 'hi @alice ',
+      cursor: 10,
+    });
+    expect(
+      insertMention({ text: 'hi @al  there', mention: { query: 'al', start: 3 }, name: 'alice', cursor: 6 }),
+    ).toEqual({ text: 'hi @alice there', cursor: 10 });
+  });
+});
+
+describe('findMentions', () => {
+  it('returns each mentioned name once, without the @', () => {
+    expect(findMentions('@alice thanks, and @bob.smith too. @Alice again')).toEqual(['alice', 'bob.smith']);
+  });
+
+  it('ignores e-mail addresses and a trailing dot or dash', () => {
+    expect(findMentions('mail me at me@example.com, thanks @carol-')).toEqual(['carol']);
+    expect(findMentions('')).toEqual([]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('splits the text into plain parts and mentions, in order', () => {
+    expect(splitMentions('hi @alice and @bob!')).toEqual([
+      { text: 'hi ', mention: null },
+      { text: '@alice', mention: 'alice' },
+      { text: ' and ', mention: null },
+      { text: '@bob', mention: 'bob' },
+      { text: '!', mention: null },
+    ]);
+  });
+
+  it('handles mentions at either end and text without mentions', () => {
+    expect(splitMentions('@alice')).toEqual([{ text: '@alice', mention: 'alice' }]);
+    expect(splitMentions('ping @dave.')).toEqual([
+      { text: 'ping ', mention: null },
+      { text: '@dave', mention: 'dave' },
+      { text: '.', mention: null },
+    ]);
+    expect(splitMentions('no mentions')).toEqual([{ text: 'no mentions', mention: null }]);
+    expect(splitMentions('')).toEqual([{ text: '', mention: null }]);
+  });
+});
+
+describe('isMentioned', () => {
+  it('checks the mentions sent with the message, or its text for older clients, ignoring case', () => {
+    expect(isMentioned(createMessage({ mentions: ['Bob'] }), 'bob')).toBe(true);
+    expect(isMentioned(createMessage({ mentions: [], message: 'hi @bob' }), 'bob')).toBe(false);
+    expect(isMentioned(createMessage({ message: 'hi @bob' }), 'bob')).toBe(true);
+  });
+
+  it('ignores own and deleted messages and direct messages to others', () => {
+    expect(isMentioned(createMessage({ sender: 'bob', message: '@bob note to self' }), 'bob')).toBe(false);
+    expect(isMentioned(createMessage({ message: '', mentions: ['bob'], deleted: true }), 'bob')).toBe(false);
+    expect(isMentioned(createMessage({ group: false, receivers: ['carol'], message: '@bob' }), 'bob')).toBe(false);
+    expect(isMentioned(createMessage({ group: false, receivers: ['bob'], message: '@bob' }), 'bob')).toBe(true);
+  });
+});
+
+describe('countUnreadMentions', () => {
+  it('counts mentions sent after the conversation was last read', () => {
+    const messages = [
+      createMessage({ message: '@bob first', timestamp: 1_000 }),
+      createMessage({ message: '@bob second', timestamp: 2_000 }),
+      createMessage({ message: 'no mention', timestamp: 3_000 }),
+      createMessage({ group: false, receivers: ['bob'], message: '@bob direct', timestamp: 1_500 }),
+    ];
+
+    expect(countUnreadMentions({ messages, member: 'bob', readState: {} })).toBe(3);
+    expect(countUnreadMentions({ messages, member: 'bob', readState: { group: 1_000 } })).toBe(2);
+    expect(countUnreadMentions({ messages, member: 'bob', readState: { group: 3_000, 'direct:alice': 1_500 } })).toBe(
+      0,
+    );
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { ChatModerationSettings, CoHostResponsibility, Message, Participant } from '../src/@types/types';
+import {
+  DEFAULT_CHAT_MODERATION,
+  filterBlockedWords,
+  getSlowModeWait,
+  isChatModerationUpdateAllowed,
+  isDeletionAllowed,
+} from '../src/methods/messageMethods/chatModeration';
+
+const participants: Participant[] = [
+  { name: 'host', islevel: '2', audioID: '', videoID: '' },
+  { name: 'cohost', islevel: '1', audioID: '', videoID: '' },
+  { name: 'guest', islevel: '1', audioID: '', videoID: '' },
+];
+
+const chatResponsibility = (value: boolean): CoHostResponsibility[] => [{ name: 'chat', value, dedicated: false }];
+
+const settings: ChatModerationSettings = { ...DEFAULT_CHAT_MODERATION, slowModeSeconds: 10 };
+
+const createMessage = (sender: string, timestamp: number, overrides: Partial<Message> = {}): Message => ({
+  sender,
+  receivers: [],
+  message: 'Hello',
+  timestamp,
+  group: true,
+  ...overrides,
+});
+
+describe('filterBlockedWords', () => {
+  it('masks whole words ignoring case and reports what it found', () => {
+    expect(filterBlockedWords('That is SPAM, pure spam!', ['spam'])).toEqual({
+      text: 'That is ****, pure ****!',
+      matches: ['SPAM', 'spam'],
+    });
+  });
+
+  it('leaves words that only contain a blocked word alone', () => {
+    expect(filterBlockedWords('A classic class', ['ass'])).toEqual({ text: 'A classic class', matches: [] });
+  });
+
+  it('matches phrases and words with regular expression characters literally', () => {
+    expect(filterBlockedWords('Buy now (c++) deals', ['buy now', 'c++'])).toEqual({
+      text: '******* (***) deals',
+      matches: ['Buy now', 'c++'],
+    });
+    expect(filterBlockedWords('abc', ['a.c']).matches).toEqual([]);
+  });
+
+  it('returns the text unchanged without blocked words', () => {
+    expect(filterBlockedWords('Hello', [' ', ''])).toEqual({ text: 'Hello', matches: [] });
+    expect(filterBlockedWords('', ['spam'])).toEqual({ text: '', matches: [] });
+  });
+});
+
+describe('isChatModerationUpdateAllowed', () => {
+  it('applies settings changed by the host', () => {
+    expect(
+      isChatModerationUpdateAllowed({
+        data: { settings, updatedBy: 'host' },
+        participants,
+        coHost: 'cohost',
+        coHostResponsibility: chatResponsibility(false),
+      }),
+    ).toBe(true);
+  });
+
+  it('applies settings changed by the co-host only while the chat responsibility is on', () => {
+    const data = { settings, updatedBy: 'cohost' };
+
+    expect(
+      isChatModerationUpdateAllowed({ data, participants, coHost: 'cohost', coHostResponsibility: chatResponsibility(true) }),
+    ).toBe(true);
+    expect(
+      isChatModerationUpdateAllowed({ data, participants, coHost: 'cohost', coHostResponsibility: chatResponsibility(false) }),
+    ).toBe(false);
+  });
+
+  it('ignores settings from other members and from members not in the room', () => {
+    const options = { participants, coHost: 'cohost', coHostResponsibility: chatResponsibility(true) };
+
+    expect(isChatModerationUpdateAllowed({ ...options, data: { settings, updatedBy: 'guest' } })).toBe(false);
+    expect(isChatModerationUpdateAllowed({ ...options, data: { settings, updatedBy: 'stranger' } })).toBe(false);
+  });
+});
+
+describe('isDeletionAllowed', () => {
+  it('applies deletions by the host or the chat co-host only', () => {
+    const options = { participants, coHost: 'cohost', coHostResponsibility: chatResponsibility(true) };
+
+    expect(isDeletionAllowed({ ...options, data: { messageId: 'm1', deletedBy: 'host' } })).toBe(true);
+    expect(isDeletionAllowed({ ...options, data: { messageId: 'm1', deletedBy: 'cohost' } })).toBe(true);
+    expect(isDeletionAllowed({ ...options, data: { messageId: 'm1', deletedBy: 'guest' } })).toBe(false);
+  });
+});
+
+describe('getSlowModeWait', () => {
+  it('waits out the interval since the member last posted', () => {
+    const messages = [createMessage('alice', 1_000), createMessage('bob', 5_000)];
+
+    expect(getSlowModeWait({ messages, member: 'alice', slowModeSeconds: 10, now: 4_000 })).toBe(7_000);
+    expect(getSlowModeWait({ messages, member: 'alice', slowModeSeconds: 10, now: 12_000 })).toBe(0);
+  });
+
+  it('skips failed messages and does not wait when slow mode is off', () => {
+    const messages = [createMessage('alice', 1_000), createMessage('alice', 3_000, { deliveryStatus: 'failed' })];
+
+    expect(getSlowModeWait({ messages, member: 'alice', slowModeSeconds: 10, now: 4_000 })).toBe(7_000);
+    expect(getSlowModeWait({ messages, member: 'alice', slowModeSeconds: 0, now: 4_000 })).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { Message } from '../src/@types/types';
+import { createChatOutbox } from '../src/methods/messageMethods/chatOutbox';
+
+const createMessage = (message: string, overrides: Partial<Message> = {}): Message => ({
+  sender: 'alice',
+  receivers: [],
+  message,
+  timestamp: '10:00:00',
+  group: true,
+  ...overrides,
+});
+
+const createFakeSocket = (connected = true) => ({ connected, emit: jest.fn() }) as any;
+
+const createOutbox = (initialMessages: Message[] = []) => {
+  let messages = initialMessages;
+  const outbox = createChatOutbox({
+    getMessages: () => messages,
+    updateMessages: (next) => {
+      messages = next;
+    },
+    ackTimeoutMs: 1000,
+    maxAttempts: 2,
+  });
+  return { outbox, getMessages: () => messages };
+};
+
+describe('chat outbox', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shows a queued message as pending and sends it once the socket is back', () => {
+    const { outbox, getMessages } = createOutbox();
+    const offline = createFakeSocket(false);
+
+    const local = outbox.enqueue({ roomName: 's1', messageObject: createMessage('Hi'), socket: offline });
+
+    expect(local.clientId).toBeTruthy();
+    expect(getMessages()).toEqual([expect.objectContaining({ message: 'Hi', deliveryStatus: 'pending' })]);
+    expect(offline.emit).not.toHaveBeenCalled();
+
+    const online = createFakeSocket();
+    outbox.flush({ roomName: 'other', socket: online });
+    expect(online.emit).not.toHaveBeenCalled();
+
+    outbox.flush({ roomName: 's1', socket: online });
+    expect(online.emit).toHaveBeenCalledWith('sendMessage', {
+      messageObject: expect.objectContaining({ message: 'Hi', clientId: local.clientId }),
+      roomName: 's1',
+    });
+  });
+
+  it('replaces the local copy with the server echo and drops repeated echoes', () => {
+    const { outbox, getMessages } = createOutbox();
+    const local = outbox.enqueue({ roomName: 's1', messageObject: createMessage('Hi'), socket: createFakeSocket() });
+    const echo = { ...createMessage('Hi'), id: 'server-1', clientId: local.clientId };
+
+    expect(outbox.acknowledge(echo)).toBe(true);
+    expect(outbox.acknowledge(echo)).toBe(true);
+    expect(getMessages()).toEqual([{ ...echo, deliveryStatus: 'sent' }]);
+    expect(outbox.getEntries()).toHaveLength(0);
+
+    expect(outbox.acknowledge(createMessage('From bob', { sender: 'bob' }))).toBe(false);
+  });
+
+  it('marks a message failed when the echo does not arrive and sends it again on retry', () => {
+    const { outbox, getMessages } = createOutbox();
+    const socket = createFakeSocket();
+    const local = outbox.enqueue({ roomName: 's1', messageObject: createMessage('Hi'), socket });
+
+    jest.advanceTimersByTime(1000);
+    expect(getMessages()[0].deliveryStatus).toBe('failed');
+
+    outbox.retry({ clientId: local.clientId!, socket });
+    expect(getMessages()[0].deliveryStatus).toBe('pending');
+    expect(socket.emit).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the maximum attempts until the message is retried', () => {
+    const { outbox, getMessages } = createOutbox();
+    const socket = createFakeSocket();
+    outbox.enqueue({ roomName: 's1', messageObject: createMessage('Hi'), socket });
+    outbox.flush({ roomName: 's1', socket });
+    jest.advanceTimersByTime(1000);
+
+    outbox.flush({ roomName: 's1', socket });
+
+    expect(socket.emit).toHaveBeenCalledTimes(2);
+    expect(getMessages()[0].deliveryStatus).toBe('failed');
+  });
+
+  it('restores queued and failed messages missing from reloaded room messages', () => {
+    const { outbox } = createOutbox();
+    const offline = createFakeSocket(false);
+    const pending = outbox.enqueue({ roomName: 's1', messageObject: createMessage('Pending'), socket: offline });
+    const delivered = outbox.enqueue({ roomName: 's1', messageObject: createMessage('Delivered'), socket: offline });
+    outbox.enqueue({ roomName: 's2', messageObject: createMessage('Elsewhere'), socket: offline });
+    const roomMessages = [
+      createMessage('From bob', { sender: 'bob', id: 'server-1' }),
+      { ...createMessage('Delivered'), id: 'server-2', clientId: delivered.clientId },
+    ];
+
+    expect(outbox.restore({ roomName: 's1', messages: roomMessages })).toEqual([
+      ...roomMessages,
+      expect.objectContaining({ message: 'Pending', clientId: pending.clientId, deliveryStatus: 'pending' }),
+    ]);
+    expect(outbox.getEntries('s1').map((entry) => entry.clientId)).toEqual([pending.clientId]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import type { Message, TypingEventData } from '../src/@types/types';
+import {
+  countUnreadMessages,
+  createTypingNotifier,
+  createTypingTracker,
+  formatTypingMembers,
+  getMessageThreadKey,
+  getTypingMembers,
+  markMessagesRead,
+  markThreadRead,
+} from '../src/methods/messageMethods/chatPresence';
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  sender: 'alice',
+  receivers: [],
+  message: 'Hello',
+  timestamp: 1_000,
+  group: true,
+  ...overrides,
+});
+
+const typingEvent = (overrides: Partial<TypingEventData> = {}): TypingEventData => ({
+  member: 'alice',
+  group: true,
+  receivers: [],
+  isTyping: true,
+  ...overrides,
+});
+
+describe('read state', () => {
+  const messages = [
+    createMessage({ timestamp: 1_000 }),
+    createMessage({ timestamp: 2_000, sender: 'bob' }),
+    createMessage({ timestamp: 3_000, group: false, receivers: ['me'] }),
+    createMessage({ timestamp: 4_000, sender: 'me', group: false, receivers: ['alice'] }),
+    createMessage({ timestamp: 5_000, deleted: true }),
+    createMessage({ timestamp: 'ten past three' }),
+  ];
+
+  it('keys direct messages by the other participant', () => {
+    expect(getMessageThreadKey(messages[0], 'me')).toBe('group');
+    expect(getMessageThreadKey(messages[2], 'me')).toBe('direct:alice');
+    expect(getMessageThreadKey(messages[3], 'me')).toBe('direct:alice');
+  });
+
+  it('counts messages from others after the last read, leaving out deleted and untimed ones', () => {
+    expect(countUnreadMessages({ messages, member: 'me', readState: {} })).toEqual({ group: 2, 'direct:alice': 1 });
+    expect(countUnreadMessages({ messages, member: 'me', readState: { group: 1_000 } })).toEqual({
+      group: 1,
+      'direct:alice': 1,
+    });
+  });
+
+  it('marks a conversation read up to its latest message and keeps the state when nothing changed', () => {
+    const readState = markThreadRead({ readState: {}, threadKey: 'direct:alice', messages, member: 'me' });
+
+    expect(readState).toEqual({ 'direct:alice': 4_000 });
+    expect(markThreadRead({ readState, threadKey: 'direct:alice', messages, member: 'me' })).toBe(readState);
+  });
+
+  it('marks every conversation with unread messages read', () => {
+    const readState = markMessagesRead({ messages, member: 'me', readState: {} });
+
+    expect(readState).toEqual({ group: 5_000, 'direct:alice': 4_000 });
+    expect(countUnreadMessages({ messages, member: 'me', readState })).toEqual({});
+  });
+});
+
+describe('typing', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('drops a member when their typing events expire or stop, and everyone when cleared', () => {
+    jest.useFakeTimers();
+    const onChange = jest.fn();
+    const tracker = createTypingTracker({ onChange, expiryMs: 1_000 });
+
+    tracker.handle(typingEvent());
+    tracker.handle(typingEvent({ member: 'bob' }));
+    expect(tracker.getTyping().map((data) => data.member)).toEqual(['alice', 'bob']);
+
+    jest.advanceTimersByTime(600);
+    tracker.handle(typingEvent());
+    jest.advanceTimersByTime(600);
+    expect(tracker.getTyping().map((data) => data.member)).toEqual(['alice']);
+
+    tracker.handle(typingEvent({ isTyping: false }));
+    expect(tracker.getTyping()).toEqual([]);
+
+    tracker.handle(typingEvent({ member: 'carol' }));
+    tracker.clear();
+    expect(onChange).toHaveBeenLastCalledWith([]);
+    jest.advanceTimersByTime(2_000);
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('shows group typing in the group chat and direct typing to its receivers or the host', () => {
+    const typing = [
+      typingEvent(),
+      typingEvent({ member: 'bob', group: false, receivers: ['me'] }),
+      typingEvent({ member: 'carol', group: false, receivers: [] }),
+      typingEvent({ member: 'me' }),
+    ];
+
+    expect(getTypingMembers({ typing, group: true, member: 'me', islevel: '1' })).toEqual(['alice']);
+    expect(getTypingMembers({ typing, group: false, member: 'me', islevel: '1' })).toEqual(['bob']);
+    expect(getTypingMembers({ typing, group: false, member: 'me', islevel: '2' })).toEqual(['bob', 'carol']);
+  });
+
+  it('throttles typing events per conversation and sends a stop once', () => {
+    const socket = { connected: true, emit: jest.fn() };
+    const notifier = createTypingNotifier({ intervalMs: 60_000 });
+    const options = { socket: socket as any, roomName: 's1', member: 'me', group: true, receivers: [] as string[] };
+
+    notifier.notify(options);
+    notifier.notify(options);
+    notifier.notify({ ...options, group: false, receivers: ['alice'] });
+    notifier.stop(options);
+    notifier.stop(options);
+
+    expect(socket.emit.mock.calls.map(([, data]: any[]) => [data.group, data.isTyping])).toEqual([
+      [true, true],
+      [false, true],
+      [true, false],
+    ]);
+  });
+
+  it('formats who is typing', () => {
+    expect(formatTypingMembers([])).toBe('');
+    expect(formatTypingMembers(['alice'])).toBe('alice is typing…');
+    expect(formatTypingMembers(['alice', 'bob'])).toBe('alice and bob are typing…');
+    expect(formatTypingMembers(['alice', 'bob', 'carol'])).toBe('3 people are typing…');
+  });
+});
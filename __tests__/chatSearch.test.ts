@@ -0,0 +1,78 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Message } from '../src/@types/types';
+import { getMessageSenders, highlightMatches, searchMessages } from '../src/methods/messageMethods/chatSearch';
+
+const createMessage = (id: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  sender: 'alice',
+  receivers: [],
+  message: 'Hello',
+  timestamp: 1_000,
+  group: true,
+  ...overrides,
+});
+
+const messages = [
+  createMessage('m1', { message: 'The slides are ready' }),
+  createMessage('m2', { sender: 'bob', message: 'Where are the SLIDES?' }),
+  createMessage('m3', { sender: 'bob', group: false, receivers: ['alice'], message: 'Sending slides directly' }),
+  createMessage('m4', { message: '', deleted: true }),
+  createMessage('m5', { sender: 'carol', message: 'Thanks' }),
+];
+
+const ids = (results: Message[]) => results.map((message) => message.id);
+
+describe('searchMessages', () => {
+  it('finds messages containing the query ignoring case, newest first', () => {
+    expect(ids(searchMessages({ messages, query: '  Slides ' }))).toEqual(['m3', 'm2', 'm1']);
+  });
+
+  it('narrows the results to a sender and to group or direct messages', () => {
+    expect(ids(searchMessages({ messages, query: 'slides', sender: 'bob' }))).toEqual(['m3', 'm2']);
+    expect(ids(searchMessages({ messages, query: 'slides', scope: 'group' }))).toEqual(['m2', 'm1']);
+    expect(ids(searchMessages({ messages, query: 'slides', scope: 'direct' }))).toEqual(['m3']);
+  });
+
+  it('lists every message passing the filters for an empty query, but never deleted ones', () => {
+    expect(ids(searchMessages({ messages, query: '' }))).toEqual(['m5', 'm3', 'm2', 'm1']);
+    expect(ids(searchMessages({ messages, query: ' ', sender: 'alice' }))).toEqual(['m1']);
+  });
+});
+
+describe('highlightMatches', () => {
+  it('splits the text around every match, keeping the original case', () => {
+    expect(highlightMatches('Slides, more slides', 'slides')).toEqual([
+      { text: 'Slides', match: true },
+      { text: ', more ', match: false },
+      { text: 'slides', match: true },
+    ]);
+    expect(highlightMatches('See the slides', 'slide')).toEqual([
+      { text: 'See the ', match: false },
+      { text: 'slide', match: true },
+      { text: 's', match: false },
+    ]);
+  });
+
+  it('treats regular expression characters in the query literally', () => {
+    expect(highlightMatches('a.b and axb', 'a.b')).toEqual([
+      { text: 'a.b', match: true },
+      { text: ' and axb', match: false },
+    ]);
+  });
+
+  it('returns the whole text unhighlighted without a query or a match', () => {
+    expect(highlightMatches('Hello', '  ')).toEqual([{ text: 'Hello', match: false }]);
+    expect(highlightMatches('Hello', 'bye')).toEqual([{ text: 'Hello', match: false }]);
+    expect(highlightMatches('', 'hello')).toEqual([{ text: '', match: false }]);
+  });
+});
+
+describe('getMessageSenders', () => {
+  it('lists each sender once, sorted by name', () => {
+    expect(getMessageSenders([...messages].reverse())).toEqual(['alice', 'bob', 'carol']);
+  });
+});
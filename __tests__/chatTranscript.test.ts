@@ -0,0 +1,159 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { Share } from 'react-native';
+import type { CoHostResponsibility, Message } from '../src/@types/types';
+import { MAX_SHARED_TEXT_LENGTH } from '../src/methods/messageMethods/chatAttachments';
+import {
+  exportChatTranscript,
+  formatChatTranscript,
+  getVisibleChatMessages,
+} from '../src/methods/messageMethods/chatTranscript';
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  sender: 'alice',
+  receivers: [],
+  message: 'Hello',
+  timestamp: Date.UTC(2026, 0, 5, 10, 30),
+  group: true,
+  ...overrides,
+});
+
+const chatResponsibility = (value: boolean): CoHostResponsibility[] => [{ name: 'chat', value, dedicated: false }];
+
+const messages = [
+  createMessage({ id: 'm1' }),
+  createMessage({ id: 'm2', sender: 'bob', group: false, receivers: ['carol'], message: 'Just for Carol' }),
+  createMessage({ id: 'm3', sender: 'carol', group: false, receivers: ['me'], message: 'Hi me' }),
+];
+
+describe('getVisibleChatMessages', () => {
+  it('shows members the group chat and their own direct messages', () => {
+    const visible = getVisibleChatMessages({
+      messages,
+      member: 'me',
+      islevel: '1',
+      coHost: 'bob',
+      coHostResponsibility: chatResponsibility(true),
+    });
+
+    expect(visible.map((message) => message.id)).toEqual(['m1', 'm3']);
+  });
+
+  it('shows the host and the chat co-host every direct message', () => {
+    const options = { messages, coHost: 'me', coHostResponsibility: chatResponsibility(true) };
+
+    expect(getVisibleChatMessages({ ...options, member: 'host', islevel: '2' })).toHaveLength(3);
+    expect(getVisibleChatMessages({ ...options, member: 'me', islevel: '1' })).toHaveLength(3);
+    expect(
+      getVisibleChatMessages({ ...options, member: 'me', islevel: '1', coHostResponsibility: chatResponsibility(false) }),
+    ).toHaveLength(2);
+  });
+});
+
+describe('formatChatTranscript', () => {
+  const options = { roomName: 's12345678', member: 'me', exportedAt: Date.UTC(2026, 0, 5, 12) };
+
+  it('groups the text transcript by conversation and shows replies, reactions and deletions', () => {
+    const text = formatChatTranscript({
+      ...options,
+      format: 'text',
+      messages: [
+        createMessage({ reactions: { '👍': ['bob', 'carol'] } }),
+        createMessage({ sender: 'bob', replyTo: { id: 'm1', sender: 'alice', message: 'Hello' }, message: 'Hi' }),
+        createMessage({ sender: 'carol', message: '', deleted: true }),
+        createMessage({ sender: 'bob', group: false, receivers: [], message: 'Question' }),
+      ],
+    });
+
+    expect(text).toContain('Chat transcript: s12345678');
+    expect(text).toContain('== Group messages ==');
+    expect(text).toContain('== Direct messages ==');
+    expect(text).toMatch(/\] alice: Hello\n {4}👍 2\n/);
+    expect(text).toContain('    > alice: Hello\n');
+    expect(text).toContain('carol: This message was deleted');
+    expect(text).toContain('bob -> Host: Question');
+    expect(text.indexOf('Group messages')).toBeLessThan(text.indexOf('Direct messages'));
+  });
+
+  it('says so when there are no messages', () => {
+    expect(formatChatTranscript({ ...options, format: 'text', messages: [] })).toContain('\nNo messages.\n');
+    expect(formatChatTranscript({ ...options, format: 'html', messages: [] })).toContain('<p>No messages.</p>');
+  });
+
+  it('escapes the messages, names and room in the HTML transcript', () => {
+    const html = formatChatTranscript({
+      ...options,
+      roomName: '<room>',
+      format: 'html',
+      messages: [
+        createMessage({
+          sender: '"mallory"',
+          message: '<script>alert(\'x\')</script> & more',
+          replyTo: { id: 'm1', sender: '<b>alice</b>', message: '<img src=x onerror=alert(1)>' },
+        }),
+      ],
+    });
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>alice</b>');
+    expect(html).toContain('&lt;script&gt;alert(&#39;x&#39;)&lt;/script&gt; &amp; more');
+    expect(html).toContain('<b>&quot;mallory&quot;</b>');
+    expect(html).toContain('<title>Chat transcript: &lt;room&gt;</title>');
+  });
+
+  it('archives the messages as JSON', () => {
+    const json = JSON.parse(
+      formatChatTranscript({
+        ...options,
+        format: 'json',
+        messages: [createMessage({ id: 'm1' }), createMessage({ id: 'm2', message: '', deleted: true })],
+      }),
+    );
+
+    expect(json).toMatchObject({ roomName: 's12345678', exportedBy: 'me', exportedAt: '2026-01-05T12:00:00.000Z' });
+    expect(json.messages).toEqual([
+      expect.objectContaining({ id: 'm1', message: 'Hello', timestamp: '2026-01-05T10:30:00.000Z' }),
+      expect.objectContaining({ id: 'm2', message: 'This message was deleted', deleted: true }),
+    ]);
+  });
+});
+
+describe('exportChatTranscript', () => {
+  const options = { roomName: 's12345678', member: 'me', islevel: '2', coHost: '', coHostResponsibility: chatResponsibility(false) };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shares the transcript as text when it cannot be written to a file', async () => {
+    const share = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+
+    await exportChatTranscript({ ...options, messages, format: 'text' });
+
+    expect(share).toHaveBeenCalledWith({
+      title: 'Chat transcript: s12345678',
+      message: expect.stringContaining('Just for Carol'),
+    });
+  });
+
+  it('does not share transcripts too large for another app and alerts instead', async () => {
+    const share = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+    const showAlert = jest.fn();
+
+    await exportChatTranscript({
+      ...options,
+      messages: [createMessage({ message: 'x'.repeat(MAX_SHARED_TEXT_LENGTH) })],
+      format: 'text',
+      showAlert,
+    });
+
+    expect(share).not.toHaveBeenCalled();
+    expect(showAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'danger', message: expect.stringContaining('too large') }),
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { createMemoryStorage } from '../src/methods/utils/storage/mediasfuStorage';
+import { checkLimitsAndMakeRequest } from '../src/methods/utils/checkLimitsAndMakeRequest';
+import { configureMediasfuLogger } from '../src/methods/utils/logger/mediasfuLogger';
+
+const createParameters = (connectSocket: (...args: any[]) => Promise<any>, attempts = '0') => ({
+  storage: createMemoryStorage({ unsuccessfulAttempts: attempts }),
+  showAlert: jest.fn(),
+  onError: jest.fn(),
+  connectSocket,
+  updateIsLoadingModalVisible: jest.fn(),
+  updateSocket: jest.fn(),
+  updateLocalSocket: jest.fn(),
+  updateValidated: jest.fn(),
+  updateApiUserName: jest.fn(),
+  updateApiToken: jest.fn(),
+  updateLink: jest.fn(),
+  updateRoomName: jest.fn(),
+  updateMember: jest.fn(),
+});
+
+const request = (parameters: ReturnType<typeof createParameters>) =>
+  checkLimitsAndMakeRequest({
+    apiUserName: 'standinuser',
+    apiToken: 'token',
+    link: 'https://standin.mediasfu.local',
+    userName: 'alice',
+    parameters: parameters as any,
+  });
+
+describe('checkLimitsAndMakeRequest', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    configureMediasfuLogger({ level: 'silent' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    configureMediasfuLogger(null);
+  });
+
+  it('counts rejected credentials towards the lockout', async () => {
+    const parameters = createParameters(() => Promise.reject(new Error('Invalid credentials')), '9');
+    await request(parameters);
+
+    expect(await parameters.storage.getItem('unsuccessfulAttempts')).toBe('10');
+    expect(parameters.showAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Too many unsuccessful attempts. Please try again later.' }),
+    );
+  });
+
+  it.each([
+    ['a network failure', 'xhr poll error', 'Unable to reach the server. Check your connection and try again.'],
+    ['a timeout', 'Request timed out', 'Unable to reach the server. Check your connection and try again.'],
+    ['an expired token', 'jwt expired', 'Your session has expired. Please sign in again.'],
+    ['an unknown failure', 'Something went wrong', 'Unable to connect. Please try again.'],
+  ])('does not count %s', async (_, reason, message) => {
+    const parameters = createParameters(() => Promise.reject(new Error(reason)), '3');
+    await request(parameters);
+
+    expect(await parameters.storage.getItem('unsuccessfulAttempts')).toBe('3');
+    expect(parameters.showAlert).toHaveBeenCalledWith(expect.objectContaining({ message }));
+    expect(parameters.updateIsLoadingModalVisible).toHaveBeenLastCalledWith(false);
+  });
+
+  it('resets the count and keeps the refreshed token once connected', async () => {
+    const parameters = createParameters(async ({ onTokenChange }: { onTokenChange: (token: string) => void }) => {
+      onTokenChange('fresh-token');
+      return { id: 'socket-1' };
+    }, '4');
+    await request(parameters);
+
+    expect(await parameters.storage.getItem('unsuccessfulAttempts')).toBe('0');
+    expect(parameters.updateApiToken).toHaveBeenCalledWith('fresh-token');
+    expect(parameters.updateValidated).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import type { ConnectionState } from '../src/sockets/SocketManager';
+
+const {
+  connectionStateTransitions,
+  createConnectionStateMachine,
+  watchSocketConnection,
+} = require('../src/sockets/SocketManager');
+
+const states: ConnectionState[] = ['idle', 'connecting', 'connected', 'degraded', 'reconnecting', 'closed'];
+
+const createFakeSocket = () => {
+  const listeners: Record<string, ((...args: any[]) => void)[]> = {};
+  const add = (event: string, listener: (...args: any[]) => void) => {
+    (listeners[event] = listeners[event] ?? []).push(listener);
+  };
+  const remove = (event: string, listener: (...args: any[]) => void) => {
+    listeners[event] = (listeners[event] ?? []).filter((item) => item !== listener);
+  };
+  const fire = (event: string, ...args: any[]) => (listeners[event] ?? []).forEach((listener) => listener(...args));
+  return {
+    listeners,
+    fire,
+    on: add,
+    off: remove,
+    io: { on: add, off: remove },
+  };
+};
+
+describe('connection state machine', () => {
+  describe.each(states)('from %s', (from) => {
+    it.each(states)('to %s follows the transitions table', (to) => {
+      const machine = createConnectionStateMachine({ initialState: from });
+      const allowed = connectionStateTransitions[from].includes(to) && (to !== from || to === 'reconnecting');
+
+      expect(machine.transition(to)).toBe(allowed);
+      expect(machine.getState()).toBe(allowed ? to : from);
+    });
+  });
+
+  it('re-emits reconnecting on every attempt and notifies listeners until they unsubscribe', () => {
+    const onChange = jest.fn();
+    const machine = createConnectionStateMachine({ initialState: 'connected', onChange });
+
+    machine.transition('reconnecting', { reason: 'transport close', attempt: 1 });
+    machine.transition('reconnecting', { reason: 'transport close', attempt: 2 });
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(machine.getLastChange()).toMatchObject({
+      state: 'reconnecting',
+      previousState: 'reconnecting',
+      attempt: 2,
+    });
+
+    const listener = jest.fn();
+    const unsubscribe = machine.subscribe(listener);
+    machine.transition('connected', { reason: 'resumed' });
+    unsubscribe();
+    machine.transition('closed');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ state: 'connected', reason: 'resumed' }));
+  });
+
+  it('reports socket trouble as degraded and recovers once the socket reconnects', () => {
+    const machine = createConnectionStateMachine({ initialState: 'connected' });
+    const socket = createFakeSocket();
+    const stopWatching = watchSocketConnection({ socket, machine });
+
+    socket.fire('reconnect_attempt', 1);
+    expect(machine.getLastChange()).toMatchObject({ state: 'degraded', reason: 'reconnect_attempt', attempt: 1 });
+
+    socket.fire('connect');
+    expect(machine.getState()).toBe('connected');
+
+    stopWatching();
+    socket.fire('connect_error', new Error('timeout'));
+    expect(machine.getState()).toBe('connected');
+  });
+
+  it('does not report a socket that connects before the room is joined as connected', () => {
+    const machine = createConnectionStateMachine();
+    const socket = createFakeSocket();
+    watchSocketConnection({ socket, machine });
+
+    machine.transition('connecting');
+    socket.fire('connect');
+
+    expect(machine.getState()).toBe('connecting');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createStandInServer, StandInServer } from '../jest/mediasfuStandIn';
+
+let mockServer: StandInServer;
+
+jest.mock('socket.io-client', () => ({
+  io: (...args: any[]) => mockServer.io(...args),
+  default: (...args: any[]) => mockServer.io(...args),
+}));
+
+jest.mock('react-native-webrtc', () =>
+  require('../jest/mediasfuStandIn').createFakeWebRTCModule(),
+);
+
+jest.mock('mediasoup-client', () => ({
+  Device: jest.fn(() => require('../jest/mediasfuStandIn').createFakeDevice()),
+}));
+
+const {
+  connectSocket,
+  disconnectSocket,
+  createConnectionStateMachine,
+} = require('../src/sockets/SocketManager');
+const { reconnectSocket, isTransientDisconnect } = require('../src/sockets/reconnectSocket');
+const { joinRoomClient } = require('../src/ProducerClient/producerClientEmits/joinRoomClient');
+const { updateRoomParametersClient } = require('../src/ProducerClient/producerClientEmits/updateRoomParametersClient');
+const { createDeviceClient } = require('../src/ProducerClient/producerClientEmits/createDeviceClient');
+const { personJoined } = require('../src/producers/socketReceiveMethods/personJoined');
+const { meetingEnded } = require('../src/producers/socketReceiveMethods/meetingEnded');
+const { mediaDevices } = require('../src/methods/utils/webrtc/webrtc');
+const { hParams } = require('../src/methods/utils/producer/hParams');
+const { vParams } = require('../src/methods/utils/producer/vParams');
+const { screenParams } = require('../src/methods/utils/producer/screenParams');
+const { aParams } = require('../src/methods/utils/producer/aParams');
+
+const apiUserName = 'standinuser';
+const apiKey = 'a'.repeat(64);
+const link = 'https://standin.mediasfu.local';
+
+const updaterNames = [
+  'updateRtpCapabilities', 'updateRoomRecvIPs', 'updateMeetingRoomParams', 'updateItemPageLimit',
+  'updateAudioOnlyRoom', 'updateAddForBasic', 'updateScreenPageLimit', 'updateVidCons', 'updateFrameRate',
+  'updateAdminPasscode', 'updateEventType', 'updateYouAreCoHost', 'updateAutoWave', 'updateForceFullDisplay',
+  'updateChatSetting', 'updateMeetingDisplayType', 'updateAudioSetting', 'updateVideoSetting',
+  'updateScreenshareSetting', 'updateHParams', 'updateVParams', 'updateScreenParams', 'updateAParams',
+  'updateMainHeightWidth', 'updateTargetResolution', 'updateTargetResolutionHost',
+  'updateRecordingAudioPausesLimit', 'updateRecordingAudioPausesCount', 'updateRecordingAudioSupport',
+  'updateRecordingAudioPeopleLimit', 'updateRecordingAudioParticipantsTimeLimit',
+  'updateRecordingVideoPausesCount', 'updateRecordingVideoPausesLimit', 'updateRecordingVideoSupport',
+  'updateRecordingVideoPeopleLimit', 'updateRecordingVideoParticipantsTimeLimit',
+  'updateRecordingAllParticipantsSupport', 'updateRecordingVideoParticipantsSupport',
+  'updateRecordingAllParticipantsFullRoomSupport', 'updateRecordingVideoParticipantsFullRoomSupport',
+  'updateRecordingPreferredOrientation', 'updateRecordingSupportForOtherOrientation',
+  'updateRecordingMultiFormatsSupport', 'updateRecordingVideoOptions', 'updateRecordingAudioOptions',
+];
+
+// The values and updaters the components hand to updateRoomParametersClient after join_Room
+const createRoomParameters = (data: any, showAlert: (...args: any[]) => void): Record<string, any> => ({
+  rtpCapabilities: null,
+  roomRecvIPs: [],
+  meetingRoomParams: null,
+  itemPageLimit: 4,
+  audioOnlyRoom: false,
+  addForBasic: false,
+  screenPageLimit: 4,
+  shareScreenStarted: false,
+  shared: false,
+  targetOrientation: 'landscape',
+  vidCons: { width: 640, height: 360 },
+  recordingVideoSupport: false,
+  frameRate: 10,
+  adminPasscode: '',
+  eventType: 'conference',
+  youAreCoHost: false,
+  autoWave: true,
+  forceFullDisplay: true,
+  chatSetting: 'allow',
+  meetingDisplayType: 'media',
+  audioSetting: 'allow',
+  videoSetting: 'allow',
+  screenshareSetting: 'allow',
+  hParams,
+  vParams,
+  screenParams,
+  aParams,
+  islevel: '1',
+  showAlert,
+  data,
+  ...Object.fromEntries(updaterNames.map((name) => [name, jest.fn()])),
+});
+
+const join = async () => {
+  const machine = createConnectionStateMachine();
+  const socket = await connectSocket({ apiUserName, apiKey, link, connectionStateMachine: machine });
+  const response = await joinRoomClient({
+    socket,
+    roomName: 's12345678',
+    islevel: '1',
+    member: 'standinuser',
+    sec: 'b'.repeat(64),
+    apiUserName,
+  });
+  return { machine, socket, response };
+};
+
+describe('join flow against the stand-in server', () => {
+  beforeEach(() => {
+    mockServer = createStandInServer({
+      joinResponse: { isHost: false },
+      members: [{ name: 'alice', audioID: '', videoID: '' }],
+    });
+  });
+
+  it('joins, applies the room parameters, handles room notices and leaves', async () => {
+    const { socket, response } = await join();
+
+    expect(response.success).toBe(true);
+    expect((await mockServer.waitFor('joinRoom')).payload.roomName).toBe('s12345678');
+
+    const showAlert = jest.fn();
+    const parameters = createRoomParameters(response, showAlert);
+    await updateRoomParametersClient({ parameters });
+
+    expect(parameters.updateRtpCapabilities).toHaveBeenCalledWith(response.rtpCapabilities);
+    expect(parameters.updateMeetingRoomParams).toHaveBeenCalledWith(response.meetingRoomParams);
+
+    const device = await createDeviceClient({ rtpCapabilities: response.rtpCapabilities });
+    expect(device.loaded).toBe(true);
+
+    const stream = await mediaDevices.getUserMedia({ audio: true, video: true });
+    expect(stream.getTracks().map((track: { kind: string }) => track.kind)).toEqual(['audio', 'video']);
+
+    // Wired up the way connect_Socket registers its socketDefault handlers
+    const updateValidated = jest.fn();
+    socket.on('personJoined', async ({ name }: { name: string }) => {
+      await personJoined({ name, showAlert });
+    });
+    socket.on('meetingEnded', async () => {
+      await meetingEnded({ showAlert, onWeb: true, eventType: 'conference', updateValidated });
+    });
+
+    mockServer.personJoined('bob');
+    await mockServer.flush();
+
+    expect(showAlert).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('bob') }));
+
+    showAlert.mockClear();
+    mockServer.meetingEnded();
+    await mockServer.flush();
+
+    expect(showAlert).toHaveBeenCalledWith(expect.objectContaining({ type: 'danger' }));
+
+    await disconnectSocket({ socket });
+    expect(socket.connected).toBe(false);
+  });
+
+  it('recovers from a transient drop on a fresh socket', async () => {
+    const { socket } = await join();
+    const reasons: string[] = [];
+    socket.on('disconnect', (reason: string) => reasons.push(reason));
+
+    mockServer.drop('transport close');
+    expect(isTransientDisconnect({ reason: reasons[0] })).toBe(true);
+
+    const resumed = await reconnectSocket({
+      apiUserName,
+      apiKey,
+      link,
+      connectSocket,
+      config: { initialDelayMs: 0, jitter: 0 },
+    });
+
+    expect(resumed.id).not.toBe(socket.id);
+    expect(mockServer.sockets.filter((item) => item.connected)).toHaveLength(1);
+  });
+
+  it('reports a rejected connection as closed', async () => {
+    mockServer = createStandInServer({ rejectConnection: 'Invalid credentials' });
+    const machine = createConnectionStateMachine();
+
+    await expect(
+      connectSocket({ apiUserName, apiKey, link, connectionStateMachine: machine }),
+    ).rejects.toBeDefined();
+    expect(machine.getState()).toBe('closed');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  classifyMediasfuErrorMessage,
+  createMediasfuError,
+  emitMediasfuError,
+  isMediasfuError,
+  toMediasfuError,
+  withMediasfuErrorReporting,
+} from '../src/methods/utils/mediasfuError';
+import { createSocketAuthError } from '../src/sockets/socketAuth';
+import { configureMediasfuLogger } from '../src/methods/utils/logger/mediasfuLogger';
+
+describe('classifyMediasfuErrorMessage', () => {
+  it.each([
+    ['Room is full', 'ROOM_FULL'],
+    ['You have been banned from this room', 'BANNED'],
+    ['Too many unsuccessful attempts. Please try again later.', 'RATE_LIMITED'],
+    ['You have reached the recording limit for this room', 'RECORDING_LIMIT'],
+    ['jwt expired', 'TOKEN_EXPIRED'],
+    ['Invalid credentials.', 'INVALID_CREDENTIALS'],
+    ['Failed to connect the producer transport', 'TRANSPORT_FAILED'],
+    ['Request timed out', 'NETWORK'],
+    ['Camera permission was denied.', 'PERMISSION_DENIED'],
+    ['Could not load the react-native-webrtc package', 'NATIVE_MODULE_MISSING'],
+    ['Something else', 'UNKNOWN'],
+  ])('maps "%s" to %s', (message, code) => {
+    expect(classifyMediasfuErrorMessage(message)).toBe(code);
+  });
+});
+
+describe('toMediasfuError', () => {
+  it('maps browser permission errors by name and keeps the original as the cause', () => {
+    const cause = Object.assign(new Error('Permission dismissed'), { name: 'NotAllowedError' });
+    const error = toMediasfuError(cause, { permission: 'camera' });
+
+    expect(error).toMatchObject({ code: 'PERMISSION_DENIED', recoverable: true, details: { permission: 'camera' } });
+    expect(error.cause).toBe(cause);
+  });
+
+  it('returns MediaSFU errors, including socket auth errors, as they are', () => {
+    const authError = createSocketAuthError({ code: 'INVALID_CREDENTIALS', message: 'Rejected' });
+
+    expect(toMediasfuError(authError)).toBe(authError);
+    expect(isMediasfuError(authError, 'INVALID_CREDENTIALS')).toBe(true);
+    expect(isMediasfuError(new Error('plain'))).toBe(false);
+  });
+
+  it('marks banned, invalid credential and missing native module errors as unrecoverable', () => {
+    expect(createMediasfuError({ code: 'BANNED', message: 'Banned' }).recoverable).toBe(false);
+    expect(createMediasfuError({ code: 'NATIVE_MODULE_MISSING', message: 'Missing' }).recoverable).toBe(false);
+    expect(createMediasfuError({ code: 'ROOM_FULL', message: 'Full' }).recoverable).toBe(true);
+  });
+});
+
+describe('emitMediasfuError', () => {
+  it('passes the typed error to onError and survives a throwing handler', () => {
+    configureMediasfuLogger({ level: 'silent' });
+    const onError = jest.fn(() => {
+      throw new Error('handler failed');
+    });
+
+    const error = emitMediasfuError({ onError, error: 'Room is full' });
+
+    expect(error.code).toBe('ROOM_FULL');
+    expect(onError).toHaveBeenCalledWith(error);
+    configureMediasfuLogger(null);
+  });
+});
+
+describe('withMediasfuErrorReporting', () => {
+  it('reports a failure once with the given code and rethrows the typed error', async () => {
+    const onError = jest.fn();
+    const createTransport = withMediasfuErrorReporting({
+      fn: async (option: string) => {
+        throw new Error(`dtls failed for ${option}`);
+      },
+      code: 'TRANSPORT_FAILED',
+      onError,
+      details: { action: 'createSendTransport' },
+    });
+    const connectTransport = withMediasfuErrorReporting({
+      fn: () => createTransport('video'),
+      code: 'TRANSPORT_FAILED',
+      onError,
+    });
+
+    await expect(connectTransport()).rejects.toMatchObject({
+      code: 'TRANSPORT_FAILED',
+      message: 'dtls failed for video',
+      details: { action: 'createSendTransport' },
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes results through without reporting', async () => {
+    const onError = jest.fn();
+    const connect = withMediasfuErrorReporting({ fn: async () => 'connected', code: 'TRANSPORT_FAILED', onError });
+
+    await expect(connect()).resolves.toBe('connected');
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
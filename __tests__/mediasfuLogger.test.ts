@@ -0,0 +1,134 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import type { MediasfuLogRecord } from '../src/methods/utils/logger/mediasfuLogger';
+import {
+  configureMediasfuLogger,
+  createConsoleSink,
+  getMediasfuLogger,
+  redactLogValue,
+} from '../src/methods/utils/logger/mediasfuLogger';
+
+const captureRecords = () => {
+  const records: MediasfuLogRecord[] = [];
+  return { records, sink: (record: MediasfuLogRecord) => records.push(record) };
+};
+
+describe('redactLogValue', () => {
+  it('replaces secret keys at any depth, ignoring case, without touching the original', () => {
+    const credentials = { apiUserName: 'user', APIKEY: 'abc123', nested: [{ secureCode: '42', room: 's1' }] };
+
+    expect(redactLogValue(credentials)).toEqual({
+      apiUserName: 'user',
+      APIKEY: '[REDACTED]',
+      nested: [{ secureCode: '[REDACTED]', room: 's1' }],
+    });
+    expect(credentials.APIKEY).toBe('abc123');
+  });
+
+  it('redacts key/value pairs in query strings, JSON and error messages', () => {
+    expect(redactLogValue('wss://host/socket?apiUserName=user&apiToken=abc123&mode=x')).toBe(
+      'wss://host/socket?apiUserName=user&apiToken=[REDACTED]&mode=x',
+    );
+    expect(redactLogValue('{"token":"abc123","name":"alice"}')).toBe('{"token":"[REDACTED]","name":"alice"}');
+
+    const redacted = redactLogValue(new TypeError('rejected password=hunter2')) as Error;
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.name).toBe('TypeError');
+    expect(redacted.message).toBe('rejected password=[REDACTED]');
+  });
+
+  it('passes other objects through and stops at circular references and the depth limit', () => {
+    class FakeSocket {
+      apiKey = 'abc123';
+    }
+    const socket = new FakeSocket();
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+
+    expect(redactLogValue(socket)).toBe(socket);
+    expect(redactLogValue(circular)).toEqual({ name: 'loop', self: '[Circular]' });
+    expect(redactLogValue({ a: { b: { c: { d: { e: { f: { g: 1 } } } } } } })).toEqual({
+      a: { b: { c: { d: { e: { f: '[Object]' } } } } },
+    });
+  });
+
+  it('uses the keys it is given', () => {
+    expect(redactLogValue({ roomName: 's1', apiKey: 'abc123' }, ['roomName'])).toEqual({
+      roomName: '[REDACTED]',
+      apiKey: 'abc123',
+    });
+  });
+});
+
+describe('MediaSFU logger', () => {
+  afterEach(() => {
+    configureMediasfuLogger(null);
+  });
+
+  it('writes records at or above the level, with per-namespace overrides', () => {
+    const { records, sink } = captureRecords();
+    configureMediasfuLogger({ level: 'error', namespaces: { sockets: 'debug' }, sinks: [sink] });
+
+    getMediasfuLogger('room').warn('dropped');
+    getMediasfuLogger('room').error('kept');
+    getMediasfuLogger('sockets').debug('kept too');
+
+    expect(records.map((record) => [record.namespace, record.level, record.message])).toEqual([
+      ['room', 'error', 'kept'],
+      ['sockets', 'debug', 'kept too'],
+    ]);
+    expect(getMediasfuLogger('room').isEnabled('warn')).toBe(false);
+  });
+
+  it('redacts messages and data, including the configured extra keys', () => {
+    const { records, sink } = captureRecords();
+    configureMediasfuLogger({ level: 'debug', sinks: [sink], redactKeys: ['roomName'] });
+
+    getMediasfuLogger('sockets').info('connecting with apiKey=abc123', { roomName: 's1', apiToken: 'xyz' });
+
+    expect(records[0].message).toBe('connecting with apiKey=[REDACTED]');
+    expect(records[0].data).toEqual([{ roomName: '[REDACTED]', apiToken: '[REDACTED]' }]);
+  });
+
+  it('keeps writing to the other sinks when one throws', () => {
+    const { records, sink } = captureRecords();
+    const failingSink = jest.fn(() => {
+      throw new Error('sink failed');
+    });
+    configureMediasfuLogger({ sinks: [failingSink, sink] });
+
+    expect(() => getMediasfuLogger('ui').error('still logged')).not.toThrow();
+    expect(failingSink).toHaveBeenCalled();
+    expect(records).toHaveLength(1);
+  });
+
+  it('follows later configuration and returns one logger per namespace', () => {
+    const logger = getMediasfuLogger('recording');
+    const { records, sink } = captureRecords();
+    configureMediasfuLogger({ level: 'silent', sinks: [sink] });
+    logger.error('silenced');
+
+    configureMediasfuLogger({ sinks: [sink] });
+    logger.warn('written');
+
+    expect(getMediasfuLogger('recording')).toBe(logger);
+    expect(records.map((record) => record.message)).toEqual(['written']);
+  });
+
+  it('prefixes console output with the namespace and routes it by level', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const consoleSink = createConsoleSink();
+
+    consoleSink({ level: 'error', namespace: 'consumers', message: 'failed', data: [1], timestamp: 0 });
+    consoleSink({ level: 'info', namespace: 'consumers', message: 'ready', data: [], timestamp: 0 });
+
+    expect(error).toHaveBeenCalledWith('[MediaSFU:consumers] failed', 1);
+    expect(log).toHaveBeenCalledWith('[MediaSFU:consumers] ready');
+    error.mockRestore();
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { ChatModerationSettings } from '../src/@types/types';
+import { createStandInServer, StandInServer } from '../jest/mediasfuStandIn';
+
+const { createMediasfuRoomController } = require('../src/controllers/mediasfuRoomController');
+const { createConnectionStateMachine } = require('../src/sockets/SocketManager');
+
+let server: StandInServer;
+
+const createController = async (events = {}, options = {}) => {
+  const controller = createMediasfuRoomController({
+    initialState: { roomName: 's12345678', member: 'alice', islevel: '2' },
+    events,
+    ...options,
+  });
+  controller.bindSocket(server.io() as any);
+  await server.flush();
+  return controller;
+};
+
+describe('headless room controller', () => {
+  beforeEach(() => {
+    server = createStandInServer();
+  });
+
+  it('tracks participants and notifies selected subscribers only', async () => {
+    const controller = await createController();
+    const onParticipants = jest.fn();
+    const onMessages = jest.fn();
+    controller.select((state: any) => state.participants, onParticipants);
+    controller.select((state: any) => state.messages, onMessages);
+
+    server.allMembers({
+      members: [
+        { name: 'alice', audioID: '', videoID: '' },
+        { name: 'mallory', audioID: '', videoID: '', isBanned: true },
+      ],
+    });
+    await server.flush();
+
+    expect(controller.getState().connectionState).toBe('idle');
+    expect(controller.getState().participants.map((participant: { name: string }) => participant.name)).toEqual(['alice']);
+    expect(onParticipants).toHaveBeenCalledTimes(1);
+    expect(onMessages).not.toHaveBeenCalled();
+  });
+
+  it('owns breakout and recording state and raises lifecycle callbacks', async () => {
+    const onBreakoutStarted = jest.fn();
+    const onRecordingStarted = jest.fn();
+    const controller = await createController({ onBreakoutStarted, onRecordingStarted });
+
+    server.breakoutRoomUpdated({ status: 'started', breakoutRooms: [[{ name: 'alice', breakRoom: 0 }]] });
+    server.recordingNotice({ state: 'recording', userRecordingParam: null, pauseCount: 0, timeDone: 0 });
+    await server.flush();
+
+    expect(controller.getState()).toMatchObject({ breakOutRoomStarted: true, recordStarted: true });
+    expect(onBreakoutStarted).toHaveBeenCalled();
+    expect(onRecordingStarted).toHaveBeenCalledTimes(1);
+  });
+
+  it('exposes update setters through getParameters and sends chat messages', async () => {
+    const controller = await createController();
+    controller.getParameters().updateChatSetting('allow');
+    controller.getParameters().updateIsMessagesModalVisible(true);
+    expect(controller.getState().isMessagesModalVisible).toBe(true);
+
+    await controller.sendMessage({ message: 'Hello everyone' });
+    const { payload } = await server.waitFor('sendMessage');
+    expect(payload.messageObject).toMatchObject({ sender: 'alice', message: 'Hello everyone', group: true });
+    controller.destroy();
+  });
+
+  it('queues chat messages while offline, resends them on reconnect and de-duplicates the echo', async () => {
+    const controller = await createController();
+    const socket = controller.getState().socket;
+    server.drop();
+    await server.flush();
+
+    await controller.sendMessage({ message: 'Are you there?' });
+    expect(controller.getState().messages).toEqual([
+      expect.objectContaining({ message: 'Are you there?', deliveryStatus: 'pending' }),
+    ]);
+    expect(server.received.some((entry) => entry.event === 'sendMessage')).toBe(false);
+
+    socket.connect();
+    const { payload } = await server.waitFor('sendMessage');
+    server.receiveMessage(payload.messageObject);
+    server.receiveMessage(payload.messageObject);
+    await server.flush();
+
+    expect(controller.getState().messages).toEqual([
+      expect.objectContaining({ message: 'Are you there?', clientId: payload.messageObject.clientId, deliveryStatus: 'sent' }),
+    ]);
+    controller.destroy();
+  });
+
+  it('only reports connected once the join is acknowledged', async () => {
+    server = createStandInServer({ joinResponse: { success: false, reason: 'Room is full' } });
+    const connectionStateMachine = createConnectionStateMachine({ initialState: 'connecting' });
+    const controller = await createController({}, { connectionStateMachine });
+
+    expect(await controller.joinRoom({ sec: 'b'.repeat(64), apiUserName: 'standinuser' })).toBeNull();
+    expect(connectionStateMachine.getLastChange()).toMatchObject({
+      state: 'closed',
+      previousState: 'connecting',
+      reason: 'Room is full',
+    });
+
+    server = createStandInServer();
+    connectionStateMachine.transition('connecting');
+    const joined = await createController({}, { connectionStateMachine });
+
+    expect((await joined.joinRoom({ sec: 'b'.repeat(64), apiUserName: 'standinuser' })).success).toBe(true);
+    expect(joined.getState().connectionState).toBe('connected');
+    controller.destroy();
+    joined.destroy();
+  });
+
+  it('applies the host slow mode to sent messages and ignores settings from other members', async () => {
+    const showAlert = jest.fn();
+    const controller = await createController(
+      {},
+      {
+        initialState: {
+          roomName: 's12345678',
+          member: 'bob',
+          islevel: '1',
+          chatSetting: 'allow',
+          participants: [
+            { name: 'alice', islevel: '2', audioID: '', videoID: '' },
+            { name: 'bob', islevel: '1', audioID: '', videoID: '' },
+          ],
+        },
+        showAlert,
+      },
+    );
+    const settings: ChatModerationSettings = { blockedWords: [], blockedWordAction: 'mask', slowModeSeconds: 30 };
+
+    server.emit('chatModerationUpdated', { settings: { ...settings, slowModeSeconds: 5 }, updatedBy: 'bob' });
+    await server.flush();
+    expect(controller.getState().chatModeration.slowModeSeconds).toBe(0);
+
+    server.emit('chatModerationUpdated', { settings, updatedBy: 'alice' });
+    await server.flush();
+    expect(controller.getState().chatModeration).toMatchObject({ slowModeSeconds: 30, blockedWords: [] });
+
+    expect(await controller.sendMessage({ message: 'First' })).toBe(true);
+    expect(await controller.sendMessage({ message: 'Second' })).toBe(false);
+    expect(showAlert).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('Slow mode') }));
+    controller.destroy();
+  });
+});
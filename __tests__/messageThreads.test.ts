@@ -0,0 +1,124 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Message } from '../src/@types/types';
+import {
+  applyMessageReaction,
+  countThreadReplies,
+  createReplyReference,
+  getMessageId,
+} from '../src/methods/messageMethods/messageThreads';
+import { applyMessageDeletion } from '../src/methods/messageMethods/chatModeration';
+
+const createMessage = (id: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  sender: 'alice',
+  receivers: [],
+  message: `Message ${id}`,
+  timestamp: 1700000000000,
+  group: true,
+  ...overrides,
+});
+
+describe('applyMessageReaction', () => {
+  it('adds and removes a member per emoji and drops emojis nobody uses', () => {
+    const messages = [createMessage('m1'), createMessage('m2')];
+
+    const liked = applyMessageReaction({ messages, data: { messageId: 'm2', emoji: '👍', member: 'bob', action: 'add' } });
+    const likedTwice = applyMessageReaction({
+      messages: liked,
+      data: { messageId: 'm2', emoji: '👍', member: 'carol', action: 'add' },
+    });
+    expect(likedTwice[1].reactions).toEqual({ '👍': ['bob', 'carol'] });
+    expect(likedTwice[0]).toBe(messages[0]);
+
+    const removed = applyMessageReaction({
+      messages: likedTwice,
+      data: { messageId: 'm2', emoji: '👍', member: 'bob', action: 'remove' },
+    });
+    expect(removed[1].reactions).toEqual({ '👍': ['carol'] });
+
+    const cleared = applyMessageReaction({
+      messages: removed,
+      data: { messageId: 'm2', emoji: '👍', member: 'carol', action: 'remove' },
+    });
+    expect(cleared[1].reactions).toEqual({});
+  });
+
+  it('returns the same list for repeated reactions, unknown members and unknown messages', () => {
+    const messages = [createMessage('m1', { reactions: { '🎉': ['bob'] } })];
+
+    expect(applyMessageReaction({ messages, data: { messageId: 'm1', emoji: '🎉', member: 'bob', action: 'add' } })).toBe(
+      messages,
+    );
+    expect(
+      applyMessageReaction({ messages, data: { messageId: 'm1', emoji: '🎉', member: 'carol', action: 'remove' } }),
+    ).toBe(messages);
+    expect(applyMessageReaction({ messages, data: { messageId: 'nope', emoji: '🎉', member: 'bob', action: 'add' } })).toBe(
+      messages,
+    );
+  });
+
+  it('finds messages from older clients by their fallback id', () => {
+    const legacy = createMessage('unused', { id: undefined, sender: 'dave', timestamp: '10:00:00', message: 'Hi' });
+
+    const updated = applyMessageReaction({
+      messages: [legacy],
+      data: { messageId: getMessageId(legacy), emoji: '👋', member: 'bob', action: 'add' },
+    });
+
+    expect(getMessageId(legacy)).toBe('dave|10:00:00|Hi');
+    expect(updated[0].reactions).toEqual({ '👋': ['bob'] });
+  });
+});
+
+describe('applyMessageDeletion', () => {
+  it('clears the text, reactions, quote and attachment but keeps the message in place', () => {
+    const messages = [
+      createMessage('m1'),
+      createMessage('m2', {
+        reactions: { '👍': ['bob'] },
+        replyTo: { id: 'm1', sender: 'alice', message: 'Message m1' },
+        attachment: { id: 'a1', name: 'photo.jpg', mimeType: 'image/jpeg', size: 10, kind: 'image' },
+      }),
+      createMessage('m3'),
+    ];
+
+    const updated = applyMessageDeletion({ messages, data: { messageId: 'm2', deletedBy: 'host' } });
+
+    expect(updated.map(getMessageId)).toEqual(['m1', 'm2', 'm3']);
+    expect(updated[1]).toEqual({ ...createMessage('m2'), message: '', deleted: true });
+  });
+
+  it('blanks the quote in replies to the deleted message', () => {
+    const messages = [
+      createMessage('m1'),
+      createMessage('m2', { replyTo: { id: 'm1', sender: 'alice', message: 'Message m1' } }),
+    ];
+
+    const updated = applyMessageDeletion({ messages, data: { messageId: 'm1', deletedBy: 'host' } });
+
+    expect(updated[1].replyTo).toEqual({ id: 'm1', sender: 'alice', message: '' });
+  });
+
+  it('returns the same list for unknown or already deleted messages', () => {
+    const messages = [createMessage('m1', { message: '', deleted: true })];
+
+    expect(applyMessageDeletion({ messages, data: { messageId: 'm1', deletedBy: 'host' } })).toBe(messages);
+    expect(applyMessageDeletion({ messages, data: { messageId: 'm9', deletedBy: 'host' } })).toBe(messages);
+  });
+});
+
+describe('thread helpers', () => {
+  it('quotes the start of long messages and counts replies per message', () => {
+    const original = createMessage('m1', { message: 'x'.repeat(200) });
+    const reply = createReplyReference(original, 10);
+
+    expect(reply).toEqual({ id: 'm1', sender: 'alice', message: `${'x'.repeat(9)}…` });
+    expect(
+      countThreadReplies([original, createMessage('m2', { replyTo: reply }), createMessage('m3', { replyTo: reply })]),
+    ).toEqual(new Map([['m1', 2]]));
+  });
+});
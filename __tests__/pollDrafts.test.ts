@@ -0,0 +1,84 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { formatPollSet, parsePollSet, validatePollDraft } from '../src/methods/pollsMethods/pollDrafts';
+
+const yesNo = { question: 'Ready?', type: 'yesNo', options: ['Yes', 'No'] };
+
+describe('parsePollSet', () => {
+  it('reads back an exported poll set', () => {
+    const polls = [
+      { ...yesNo, duration: 30, warnings: [10] },
+      { question: 'Favourite colour?', type: 'multiSelect', options: ['Red', 'Blue', 'Green'], maxSelections: 2 },
+      {
+        question: 'Capital of France?',
+        type: 'custom',
+        options: ['Paris', 'Rome'],
+        quiz: { name: 'Geography', correctOption: 0 },
+      },
+      {
+        question: 'Any feedback?',
+        type: 'openText',
+        options: [] as string[],
+        anonymous: true,
+        resultsVisibility: 'hostsOnly' as const,
+      },
+    ];
+
+    expect(parsePollSet(formatPollSet(polls))).toEqual(polls);
+  });
+
+  it('accepts a bare array and keeps only the fields a poll is launched with', () => {
+    const text = JSON.stringify([{ ...yesNo, id: 'draft-1', name: 'Template', resultsVisibility: 'everyone' }]);
+
+    expect(parsePollSet(text)).toEqual([yesNo]);
+  });
+
+  it('rejects text that is not a poll set', () => {
+    expect(parsePollSet('not json')).toBeNull();
+    expect(parsePollSet('{"version":1,"polls":[]}')).toBeNull();
+    expect(parsePollSet('{"version":1}')).toBeNull();
+    expect(parsePollSet('[null]')).toBeNull();
+  });
+
+  it('rejects the whole set when any poll is malformed or could not be launched', () => {
+    const parseWith = (poll: object) => parsePollSet(JSON.stringify([yesNo, poll]));
+
+    expect(parseWith({ ...yesNo, warnings: ['soon'] })).toBeNull();
+    expect(parseWith({ ...yesNo, duration: -1 })).toBeNull();
+    expect(parseWith({ ...yesNo, resultsVisibility: 'nobody' })).toBeNull();
+    expect(parseWith({ ...yesNo, type: 'slider' })).toBeNull();
+    expect(parseWith({ ...yesNo, question: ' ' })).toBeNull();
+    expect(parseWith({ question: 'Pick one', type: 'custom', options: ['Only'] })).toBeNull();
+    expect(parseWith({ ...yesNo, anonymous: true, quiz: { name: 'Quiz', correctOption: 0 } })).toBeNull();
+    expect(parseWith({ ...yesNo, quiz: { name: 'Quiz', correctOption: 2 } })).toBeNull();
+    expect(
+      parseWith({
+        question: 'Pick',
+        type: 'multiSelect',
+        options: ['A', 'B'],
+        quiz: { name: 'Quiz', correctOption: 0 },
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('validatePollDraft', () => {
+  it('accepts a poll that can be launched', () => {
+    expect(validatePollDraft(yesNo)).toBeNull();
+    expect(validatePollDraft({ ...yesNo, quiz: { name: 'Quiz', correctOption: 1 } })).toBeNull();
+  });
+
+  it('rejects quiz questions on polls that collect several answers or free text', () => {
+    const quiz = { name: 'Quiz', correctOption: 0 };
+
+    expect(validatePollDraft({ question: 'Pick', type: 'multiSelect', options: ['A', 'B'], quiz })).toBe(
+      'Quiz questions need a single-answer poll type.',
+    );
+    expect(validatePollDraft({ question: 'Why?', type: 'openText', options: [], quiz })).toBe(
+      'Quiz questions need a single-answer poll type.',
+    );
+  });
+});
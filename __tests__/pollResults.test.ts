@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Poll, PollResponse } from '../src/@types/types';
+import { MAX_OPEN_TEXT_LENGTH, tallyRankedChoice, validatePollResponse } from '../src/methods/pollsMethods/pollResults';
+
+const createPoll = (overrides: Partial<Poll> = {}): Poll => ({
+  id: 'poll-1',
+  question: 'Which option?',
+  type: 'rankedChoice',
+  options: ['A', 'B', 'C', 'D'],
+  votes: [0, 0, 0, 0],
+  status: 'active',
+  ...overrides,
+});
+
+const ballots = (...rankings: number[][]): Record<string, PollResponse> =>
+  Object.fromEntries(rankings.map((choices, index) => [`voter${index}`, { choices }]));
+
+describe('tallyRankedChoice', () => {
+  it('eliminates the last option each round and transfers its ballots until one has a majority', () => {
+    const result = tallyRankedChoice(createPoll({ responses: ballots([0, 1], [0, 1], [1, 0], [2, 1], [2, 3], [3, 1]) }));
+
+    expect(result.rounds).toEqual([
+      { counts: [2, 1, 2, 1], eliminated: 1 },
+      { counts: [3, 0, 2, 1], eliminated: 3 },
+      { counts: [3, 0, 2, 0], eliminated: null },
+    ]);
+    expect(result.winner).toBe(0);
+    expect(result.ballots).toBe(6);
+  });
+
+  it('breaks ties for last by first preferences, then by option order', () => {
+    const result = tallyRankedChoice(createPoll({ responses: ballots([0], [0], [0], [1], [1], [2, 3], [3]) }));
+
+    // 2 and 3 tie with one first preference each, so the earlier option goes; after the transfer,
+    // 1 and 3 tie on two ballots and 3 goes for having fewer first preferences
+    expect(result.rounds.map((round) => round.eliminated)).toEqual([2, 3, null]);
+    expect(result.winner).toBe(0);
+  });
+
+  it('leaves exhausted ballots out of the majority and reports a tie between the last options', () => {
+    const result = tallyRankedChoice(
+      createPoll({ options: ['A', 'B', 'C'], votes: [0, 0, 0], responses: ballots([0], [0], [1], [1], [2]) }),
+    );
+
+    expect(result.rounds).toEqual([
+      { counts: [2, 2, 1], eliminated: 2 },
+      { counts: [2, 2, 0], eliminated: null },
+    ]);
+    expect(result.winner).toBeNull();
+  });
+
+  it('has no rounds without ballots', () => {
+    expect(tallyRankedChoice(createPoll({ responses: ballots([]) }))).toEqual({ rounds: [], winner: null, ballots: 0 });
+  });
+});
+
+describe('validatePollResponse', () => {
+  it('requires an answer within the length limit on open-text polls', () => {
+    const poll = createPoll({ type: 'openText', options: [], votes: [] });
+
+    expect(validatePollResponse(poll, { text: '   ' })).toBe('Please enter an answer.');
+    expect(validatePollResponse(poll, { text: 'x'.repeat(MAX_OPEN_TEXT_LENGTH + 1) })).toBe(
+      `Answers are limited to ${MAX_OPEN_TEXT_LENGTH} characters.`,
+    );
+    expect(validatePollResponse(poll, { text: 'Sounds good' })).toBeNull();
+  });
+
+  it('rejects empty, repeated and unknown choices', () => {
+    const poll = createPoll();
+
+    expect(validatePollResponse(poll, { choices: [] })).toBe('Please choose an option.');
+    expect(validatePollResponse(poll, { choices: [1, 1] })).toBe('Your vote is not valid.');
+    expect(validatePollResponse(poll, { choices: [4] })).toBe('Your vote is not valid.');
+    expect(validatePollResponse(poll, { choices: [0.5] })).toBe('Your vote is not valid.');
+    expect(validatePollResponse(poll, { choices: [3, 0, 2, 1] })).toBeNull();
+  });
+
+  it('limits the selections of multi-select polls', () => {
+    expect(validatePollResponse(createPoll({ type: 'multiSelect', maxSelections: 2 }), { choices: [0, 1, 2] })).toBe(
+      'Choose up to 2 options.',
+    );
+    expect(validatePollResponse(createPoll({ type: 'multiSelect', maxSelections: 1 }), { choices: [0, 1] })).toBe(
+      'Choose up to 1 option.',
+    );
+    expect(validatePollResponse(createPoll({ type: 'multiSelect' }), { choices: [0, 1, 2, 3] })).toBeNull();
+  });
+});
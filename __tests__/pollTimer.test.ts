@@ -0,0 +1,134 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { Poll } from '../src/@types/types';
+import {
+  createPollTimer,
+  formatPollCountdown,
+  getLocalPollDeadline,
+  getPollTimeRemaining,
+  getPollWarnings,
+  parsePollWarnings,
+} from '../src/methods/pollsMethods/pollTimer';
+
+const NOW = 1_000_000;
+
+const createPoll = (overrides: Partial<Poll> = {}): Poll => ({
+  id: 'poll-1',
+  question: 'Which option?',
+  type: 'custom',
+  options: ['A', 'B'],
+  votes: [0, 0],
+  status: 'active',
+  duration: 60,
+  ...overrides,
+});
+
+describe('getLocalPollDeadline', () => {
+  it('counts the time left reported by the server from now', () => {
+    expect(getLocalPollDeadline({ poll: createPoll(), timeLeft: 30_000, now: NOW })).toBe(NOW + 30_000);
+    expect(getLocalPollDeadline({ poll: createPoll(), timeLeft: -5, now: NOW })).toBe(NOW);
+  });
+
+  it('keeps the known deadline through small delivery delays', () => {
+    const previous = createPoll({ endsAt: NOW + 30_000 });
+
+    expect(getLocalPollDeadline({ poll: createPoll(), timeLeft: 29_500, previous, now: NOW })).toBe(NOW + 30_000);
+    expect(getLocalPollDeadline({ poll: createPoll(), timeLeft: 20_000, previous, now: NOW })).toBe(NOW + 20_000);
+    expect(getLocalPollDeadline({ poll: createPoll(), previous, now: NOW })).toBe(NOW + 30_000);
+  });
+
+  it('starts the countdown of a new poll from now, and ignores deadlines of other polls', () => {
+    const previous = createPoll({ id: 'poll-0', endsAt: NOW + 5_000 });
+
+    expect(getLocalPollDeadline({ poll: createPoll(), previous, started: true, now: NOW })).toBe(NOW + 60_000);
+    expect(getLocalPollDeadline({ poll: createPoll(), previous, now: NOW })).toBeUndefined();
+  });
+
+  it('has no deadline for polls that are closed or untimed', () => {
+    expect(
+      getLocalPollDeadline({ poll: createPoll({ status: 'inactive' }), timeLeft: 5_000, now: NOW }),
+    ).toBeUndefined();
+    expect(getLocalPollDeadline({ poll: createPoll({ duration: 0 }), started: true, now: NOW })).toBeUndefined();
+  });
+});
+
+describe('poll countdown helpers', () => {
+  it('rounds the time left up to whole seconds', () => {
+    expect(getPollTimeRemaining(createPoll({ endsAt: NOW + 1_200 }), NOW)).toBe(2);
+    expect(getPollTimeRemaining(createPoll({ endsAt: NOW - 1_000 }), NOW)).toBe(0);
+    expect(getPollTimeRemaining(createPoll(), NOW)).toBeNull();
+  });
+
+  it('formats the countdown and reads warning thresholds', () => {
+    expect(formatPollCountdown(65)).toBe('1:05');
+    expect(formatPollCountdown(-3)).toBe('0:00');
+    expect(parsePollWarnings('60, 10 abc -5')).toEqual([60, 10]);
+    expect(getPollWarnings(30)).toEqual([10]);
+    expect(getPollWarnings(120, [10, 60, 60, 200, 0])).toEqual([60, 10]);
+  });
+});
+
+describe('createPollTimer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('warns at each threshold and expires the poll once its time is up', () => {
+    const onWarning = jest.fn();
+    const onExpire = jest.fn();
+    const timer = createPollTimer({ onWarning, onExpire });
+    const poll = createPoll({ duration: 120, endsAt: NOW + 120_000 });
+
+    timer.sync(poll);
+    jest.advanceTimersByTime(60_000);
+    expect(onWarning.mock.calls.map(([seconds]) => seconds)).toEqual([60]);
+
+    jest.advanceTimersByTime(50_000);
+    expect(onWarning.mock.calls.map(([seconds]) => seconds)).toEqual([60, 10]);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(10_000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(onExpire).toHaveBeenCalledWith(poll);
+
+    timer.sync(poll);
+    jest.advanceTimersByTime(5_000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips thresholds that had already passed when the poll was first seen', () => {
+    const onWarning = jest.fn();
+    const timer = createPollTimer({ onWarning, onExpire: jest.fn() });
+
+    timer.sync(createPoll({ duration: 120, endsAt: NOW + 30_000 }));
+    jest.advanceTimersByTime(25_000);
+
+    expect(onWarning.mock.calls.map(([seconds]) => seconds)).toEqual([10]);
+    timer.clear();
+  });
+
+  it('stops when the poll closes or is cleared', () => {
+    const onWarning = jest.fn();
+    const onExpire = jest.fn();
+    const timer = createPollTimer({ onWarning, onExpire });
+
+    timer.sync(createPoll({ endsAt: NOW + 30_000 }));
+    timer.sync(createPoll({ status: 'inactive', endsAt: NOW + 30_000 }));
+    jest.advanceTimersByTime(40_000);
+
+    timer.sync(createPoll({ id: 'poll-2', endsAt: NOW + 70_000 }));
+    timer.clear();
+    jest.advanceTimersByTime(40_000);
+
+    expect(onWarning).not.toHaveBeenCalled();
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
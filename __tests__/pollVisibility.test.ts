@@ -0,0 +1,105 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Poll } from '../src/@types/types';
+import {
+  canViewPollResults,
+  getHiddenResultsMessage,
+  getPollVoterKey,
+  redactPollResults,
+  rememberPollVoterToken,
+} from '../src/methods/pollsMethods/pollVisibility';
+
+const createPoll = (overrides: Partial<Poll> = {}): Poll => ({
+  id: 'poll-1',
+  question: 'Which option?',
+  type: 'custom',
+  options: ['A', 'B'],
+  votes: [2, 1],
+  status: 'active',
+  voters: { me: 0, alice: 0, bob: 1 },
+  ...overrides,
+});
+
+describe('canViewPollResults', () => {
+  it('always shows the results to the host and co-hosts', () => {
+    const poll = createPoll({ resultsVisibility: 'hostsOnly' });
+
+    expect(canViewPollResults({ poll, islevel: '2' })).toBe(true);
+    expect(canViewPollResults({ poll, islevel: '1', youAreCoHost: true })).toBe(true);
+  });
+
+  it('shows members the results unless the poll keeps them hidden', () => {
+    expect(canViewPollResults({ poll: createPoll(), islevel: '1' })).toBe(true);
+    expect(canViewPollResults({ poll: createPoll({ resultsVisibility: 'everyone' }), islevel: '1' })).toBe(true);
+    expect(canViewPollResults({ poll: createPoll({ resultsVisibility: 'hostsOnly' }), islevel: '1' })).toBe(false);
+  });
+
+  it('shows members the results of an after-reveal poll once the host reveals them', () => {
+    const poll = createPoll({ resultsVisibility: 'afterReveal', resultsRevealed: false });
+
+    expect(canViewPollResults({ poll, islevel: '1' })).toBe(false);
+    expect(canViewPollResults({ poll: { ...poll, resultsRevealed: true }, islevel: '1' })).toBe(true);
+  });
+
+  it('explains why the results are hidden', () => {
+    expect(getHiddenResultsMessage(createPoll({ resultsVisibility: 'hostsOnly' }))).toContain('host and co-hosts');
+    expect(getHiddenResultsMessage(createPoll({ resultsVisibility: 'afterReveal' }))).toContain('reveals');
+  });
+});
+
+describe('redactPollResults', () => {
+  it('returns polls the member may see as they are', () => {
+    const poll = createPoll({ resultsVisibility: 'hostsOnly' });
+
+    expect(redactPollResults({ poll: createPoll(), member: 'me', islevel: '1' })).toEqual(createPoll());
+    expect(redactPollResults({ poll, member: 'host', islevel: '2' })).toBe(poll);
+  });
+
+  it('zeroes the tally and keeps only the vote of the member', () => {
+    const poll = createPoll({
+      type: 'multiSelect',
+      resultsVisibility: 'hostsOnly',
+      responses: { me: { choices: [0, 1] }, alice: { choices: [0] } },
+      answeredAt: { me: 1_000, alice: 2_000 },
+    });
+
+    expect(redactPollResults({ poll, member: 'me', islevel: '1' })).toEqual({
+      ...poll,
+      votes: [0, 0],
+      voters: { me: 0 },
+      responses: { me: { choices: [0, 1] } },
+      answeredAt: {},
+    });
+    expect(poll.voters).toEqual({ me: 0, alice: 0, bob: 1 });
+  });
+
+  it('keeps no votes for members who have not voted', () => {
+    const poll = createPoll({ resultsVisibility: 'afterReveal', responses: { alice: { text: 'Hi' } } });
+
+    expect(redactPollResults({ poll, member: 'carol', islevel: '1' })).toMatchObject({
+      votes: [0, 0],
+      voters: {},
+      responses: {},
+    });
+  });
+
+  it('finds the vote of the member on anonymous polls by the voter token only', () => {
+    const poll = createPoll({
+      id: 'poll-anonymous',
+      anonymous: true,
+      resultsVisibility: 'hostsOnly',
+      voters: { 'token-1': 1, 'token-2': 0 },
+    });
+
+    expect(getPollVoterKey(poll, 'me')).toBeNull();
+    expect(redactPollResults({ poll, member: 'me', islevel: '1' }).voters).toEqual({});
+
+    rememberPollVoterToken('poll-anonymous', 'token-1');
+
+    expect(getPollVoterKey(poll, 'me')).toBe('token-1');
+    expect(redactPollResults({ poll, member: 'me', islevel: '1' }).voters).toEqual({ 'token-1': 1 });
+  });
+});
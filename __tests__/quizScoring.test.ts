@@ -0,0 +1,93 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Poll } from '../src/@types/types';
+import {
+  buildQuizLeaderboard,
+  DEFAULT_QUIZ_POINTS,
+  getQuizScore,
+} from '../src/methods/pollsMethods/quizScoring';
+
+const createQuestion = (overrides: Partial<Poll> = {}): Poll => ({
+  id: 'poll-1',
+  question: 'What is 2 + 2?',
+  type: 'custom',
+  options: ['3', '4'],
+  votes: [0, 0],
+  status: 'inactive',
+  duration: 10,
+  quiz: { name: 'Maths', correctOption: 1, points: 1000, startedAt: 1000 },
+  voters: {},
+  answeredAt: {},
+  ...overrides,
+});
+
+describe('getQuizScore', () => {
+  it('awards between all and half of the points for a correct answer, by how fast it came', () => {
+    const poll = createQuestion({
+      voters: { alice: 1, bob: 1, carol: 1, dave: 1 },
+      answeredAt: { alice: 1000, bob: 6000, carol: 20000 },
+    });
+
+    expect(getQuizScore(poll, 'alice')).toBe(1000);
+    expect(getQuizScore(poll, 'bob')).toBe(750);
+    expect(getQuizScore(poll, 'carol')).toBe(500);
+    expect(getQuizScore(poll, 'dave')).toBe(500);
+  });
+
+  it('uses the default points and speed window when the question sets none', () => {
+    const poll = createQuestion({
+      duration: undefined,
+      quiz: { name: 'Maths', correctOption: 1, startedAt: 1000 },
+      voters: { alice: 1 },
+      answeredAt: { alice: 16000 },
+    });
+
+    expect(getQuizScore(poll, 'alice')).toBe(Math.round(DEFAULT_QUIZ_POINTS * 0.75));
+  });
+
+  it('scores nothing for wrong answers, no answer, active questions and plain polls', () => {
+    const poll = createQuestion({ voters: { alice: 0, bob: 1 }, answeredAt: { alice: 1000, bob: 1000 } });
+
+    expect(getQuizScore(poll, 'alice')).toBe(0);
+    expect(getQuizScore(poll, 'carol')).toBe(0);
+    expect(getQuizScore({ ...poll, quiz: { name: 'Maths', startedAt: 1000 } }, 'bob')).toBe(0);
+    expect(getQuizScore({ ...poll, quiz: undefined }, 'bob')).toBe(0);
+  });
+});
+
+describe('buildQuizLeaderboard', () => {
+  it('adds up the questions of the quiz and shares ranks between equal scores', () => {
+    const polls = [
+      createQuestion({
+        id: 'poll-1',
+        voters: { alice: 1, bob: 1, dave: 0 },
+        answeredAt: { alice: 1000, bob: 6000, dave: 1000 },
+      }),
+      createQuestion({
+        id: 'poll-2',
+        voters: { bob: 0, carol: 1 },
+        answeredAt: { bob: 1000, carol: 6000 },
+      }),
+      createQuestion({
+        id: 'poll-3',
+        quiz: { name: 'History', correctOption: 1, startedAt: 1000 },
+        voters: { dave: 1 },
+        answeredAt: { dave: 1000 },
+      }),
+    ];
+
+    expect(buildQuizLeaderboard({ polls, quizName: 'Maths' })).toEqual([
+      { member: 'alice', score: 1000, correct: 1, answered: 1, rank: 1 },
+      { member: 'bob', score: 750, correct: 1, answered: 2, rank: 2 },
+      { member: 'carol', score: 750, correct: 1, answered: 1, rank: 2 },
+      { member: 'dave', score: 0, correct: 0, answered: 1, rank: 4 },
+    ]);
+  });
+
+  it('is empty for a quiz without questions', () => {
+    expect(buildQuizLeaderboard({ polls: [createQuestion()], quizName: 'History' })).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @format
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createStandInServer, StandInServer } from '../jest/mediasfuStandIn';
+
+let mockServer: StandInServer;
+
+jest.mock('socket.io-client', () => ({
+  io: (...args: any[]) => mockServer.io(...args),
+  default: (...args: any[]) => mockServer.io(...args),
+}));
+
+const { classifySocketError, createSocketAuthError, watchTokenExpiry } = require('../src/sockets/socketAuth');
+const { connectSocket, disconnectSocket } = require('../src/sockets/SocketManager');
+
+const apiUserName = 'standinuser';
+const link = 'https://standin.mediasfu.local';
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const createFakeSocket = () => {
+  const listeners: Record<string, ((...args: any[]) => void)[]> = {};
+  return {
+    auth: { apiUserName, apiToken: 'stale-token' } as Record<string, string>,
+    io: { opts: { query: { apiUserName, apiToken: 'stale-token' } } },
+    on: (event: string, listener: (...args: any[]) => void) => {
+      (listeners[event] = listeners[event] ?? []).push(listener);
+    },
+    off: (event: string, listener: (...args: any[]) => void) => {
+      listeners[event] = (listeners[event] ?? []).filter((item) => item !== listener);
+    },
+    fire: (event: string, ...args: any[]) => (listeners[event] ?? []).forEach((listener) => listener(...args)),
+  };
+};
+
+describe('classifySocketError', () => {
+  it.each([
+    ['jwt expired', 'TOKEN_EXPIRED'],
+    ['Token is no longer valid', 'TOKEN_EXPIRED'],
+    ['Invalid credentials', 'INVALID_CREDENTIALS'],
+    ['Request failed with status 401', 'INVALID_CREDENTIALS'],
+    ['xhr poll error', 'NETWORK'],
+    ['Request timed out', 'NETWORK'],
+    ['Something went wrong', 'UNKNOWN'],
+  ])('classifies "%s" as %s', (message, code) => {
+    expect(classifySocketError(new Error(message))).toBe(code);
+  });
+
+  it('reads the reason the server attaches to connect_error and keeps the code of a socket auth error', () => {
+    const error = Object.assign(new Error('connect_error'), { data: { reason: 'unauthorized' } });
+
+    expect(classifySocketError(error)).toBe('INVALID_CREDENTIALS');
+    expect(classifySocketError(createSocketAuthError({ code: 'NETWORK', message: 'Invalid' }))).toBe('NETWORK');
+  });
+});
+
+describe('watchTokenExpiry', () => {
+  it('refreshes the token of a socket rejected for an expired token', async () => {
+    const socket = createFakeSocket();
+    const getToken = jest.fn(async () => 'fresh-token');
+    const onTokenExpired = jest.fn();
+    const onTokenChange = jest.fn();
+    const stopWatching = watchTokenExpiry({ socket, apiUserName, link, getToken, onTokenExpired, onTokenChange });
+
+    socket.fire('connect_error', new Error('Invalid credentials'));
+    await flushPromises();
+    expect(getToken).not.toHaveBeenCalled();
+
+    socket.fire('connect_error', new Error('jwt expired'));
+    await flushPromises();
+
+    expect(onTokenExpired).toHaveBeenCalledWith(
+      expect.objectContaining({ apiUserName, link, error: expect.objectContaining({ code: 'TOKEN_EXPIRED' }) }),
+    );
+    expect(socket.auth.apiToken).toBe('fresh-token');
+    expect(socket.io.opts.query.apiToken).toBe('fresh-token');
+    expect(onTokenChange).toHaveBeenCalledWith('fresh-token');
+
+    stopWatching();
+    socket.fire('connect_error', new Error('jwt expired'));
+    await flushPromises();
+    expect(getToken).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('connectSocket with getToken', () => {
+  it('refreshes an expired token once and connects with the new one', async () => {
+    mockServer = createStandInServer({ rejectConnection: 'jwt expired' });
+    const tokens = ['expired-token', 'fresh-token'];
+    const getToken = jest.fn(async () => {
+      const token = tokens.shift()!;
+      if (token === 'fresh-token') {
+        mockServer = createStandInServer();
+      }
+      return token;
+    });
+    const onTokenExpired = jest.fn();
+    const onTokenChange = jest.fn();
+
+    const socket = await connectSocket({ apiUserName, apiKey: '', link, getToken, onTokenExpired, onTokenChange });
+
+    expect(socket.connected).toBe(true);
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(onTokenExpired).toHaveBeenCalledTimes(1);
+    expect(onTokenChange).toHaveBeenCalledWith('fresh-token');
+    await disconnectSocket({ socket });
+  });
+
+  it('rejects wrong credentials without asking for another token', async () => {
+    mockServer = createStandInServer({ rejectConnection: 'Invalid credentials' });
+    const getToken = jest.fn(async () => 'token');
+
+    await expect(connectSocket({ apiUserName, apiKey: '', link, getToken })).rejects.toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+    });
+    expect(getToken).toHaveBeenCalledTimes(1);
+  });
+});
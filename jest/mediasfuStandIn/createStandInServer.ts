@@ -0,0 +1,438 @@
+// In-process stand-in for the MediaSFU signalling server, used by the Jest end-to-end tests.
+import { RtpCapabilities } from 'mediasoup-client/lib/types';
+import {
+  AllMembersData,
+  BreakoutRoomUpdatedData,
+  MeetingRoomParams,
+  Message,
+  Participant,
+  PollUpdatedData,
+  RecordingNoticeData,
+  RecordingParams,
+  ResponseJoinRoom,
+  WhiteboardUpdatedData,
+} from '../../src/@types/types';
+import { ServerToClientEvents } from '../../src/sockets/socketEvents';
+
+type Listener = (...args: any[]) => void;
+type Ack = (response?: any) => void;
+
+export interface StandInSocket {
+  id: string;
+  connected: boolean;
+  disconnected: boolean;
+  uri: string;
+  query: Record<string, any>;
+  io: {
+    opts: Record<string, any>;
+    on: (event: string, listener: Listener) => StandInSocket['io'];
+    off: (event?: string, listener?: Listener) => StandInSocket['io'];
+  };
+  on: (event: string, listener: Listener) => StandInSocket;
+  once: (event: string, listener: Listener) => StandInSocket;
+  off: (event?: string, listener?: Listener) => StandInSocket;
+  emit: (event: string, ...args: any[]) => StandInSocket;
+  connect: () => StandInSocket;
+  disconnect: () => StandInSocket;
+  close: () => StandInSocket;
+}
+
+export interface StandInEmit {
+  socketId: string;
+  event: string;
+  payload: any;
+  timestamp: number;
+}
+
+export interface StandInHandlerContext {
+  socket: StandInSocket;
+  server: StandInServer;
+}
+
+export type StandInHandler = (payload: any, context: StandInHandlerContext) => any;
+
+export interface StandInServerOptions {
+  joinResponse?: Partial<ResponseJoinRoom>;
+  members?: Participant[];
+  connectionSuccess?: Record<string, any>;
+  rejectConnection?: string;
+  handlers?: Record<string, StandInHandler>;
+}
+
+export interface StandInEmitOptions {
+  socketId?: string;
+}
+
+export interface StandInWaitForOptions {
+  timeoutMs?: number;
+  where?: (payload: any) => boolean;
+}
+
+export interface StandInServer {
+  io: (uri?: string, opts?: Record<string, any>) => StandInSocket;
+  sockets: StandInSocket[];
+  received: StandInEmit[];
+  handle: (event: string, handler: StandInHandler) => void;
+  emit: <E extends keyof ServerToClientEvents>(
+    event: E,
+    payload?: Parameters<ServerToClientEvents[E]>[0],
+    options?: StandInEmitOptions,
+  ) => void;
+  waitFor: (event: string, options?: StandInWaitForOptions) => Promise<StandInEmit>;
+  flush: () => Promise<void>;
+  drop: (reason?: string, options?: StandInEmitOptions) => void;
+  close: () => void;
+
+  // MediaSFU notices
+  allMembers: (data?: Partial<AllMembersData>) => void;
+  personJoined: (name: string) => void;
+  receiveMessage: (message: Message) => void;
+  pollUpdated: (data: PollUpdatedData) => void;
+  breakoutRoomUpdated: (data: BreakoutRoomUpdatedData) => void;
+  whiteboardUpdated: (data: WhiteboardUpdatedData) => void;
+  recordingNotice: (data: RecordingNoticeData) => void;
+  meetingEnded: () => void;
+}
+
+export const standInRtpCapabilities: RtpCapabilities = {
+  codecs: [
+    {
+      kind: 'audio',
+      mimeType: 'audio/opus',
+      preferredPayloadType: 100,
+      clockRate: 48000,
+      channels: 2,
+      parameters: {},
+      rtcpFeedback: [],
+    },
+    {
+      kind: 'video',
+      mimeType: 'video/VP8',
+      preferredPayloadType: 101,
+      clockRate: 90000,
+      parameters: {},
+      rtcpFeedback: [],
+    },
+  ],
+  headerExtensions: [],
+};
+
+export const standInMeetingRoomParams: MeetingRoomParams = {
+  itemPageLimit: 4,
+  mediaType: 'video',
+  addCoHost: true,
+  targetOrientation: 'neutral',
+  targetOrientationHost: 'neutral',
+  targetResolution: 'sd',
+  targetResolutionHost: 'sd',
+  type: 'conference',
+  audioSetting: 'allow',
+  videoSetting: 'allow',
+  screenshareSetting: 'allow',
+  chatSetting: 'allow',
+};
+
+export const standInRecordingParams: RecordingParams = {
+  recordingAudioPausesLimit: 0,
+  recordingAudioSupport: false,
+  recordingAudioPeopleLimit: 0,
+  recordingAudioParticipantsTimeLimit: 0,
+  recordingVideoPausesLimit: 0,
+  recordingVideoSupport: false,
+  recordingVideoPeopleLimit: 0,
+  recordingVideoParticipantsTimeLimit: 0,
+  recordingAllParticipantsSupport: false,
+  recordingVideoParticipantsSupport: false,
+  recordingAllParticipantsFullRoomSupport: false,
+  recordingVideoParticipantsFullRoomSupport: false,
+  recordingPreferredOrientation: 'landscape',
+  recordingSupportForOtherOrientation: false,
+  recordingMultiFormatsSupport: false,
+  recordingHLSSupport: false,
+};
+
+const createStandInTransportParams = (id: string) => ({
+  id,
+  iceParameters: { usernameFragment: `${id}-ufrag`, password: `${id}-pwd`, iceLite: true },
+  iceCandidates: [] as object[],
+  dtlsParameters: { role: 'auto', fingerprints: [] as object[] },
+});
+
+// Deliver on the next macrotask so listeners registered right after `io()` still fire.
+const defer = (fn: () => void) => {
+  setTimeout(fn, 0);
+};
+
+const addListener = (map: Map<string, Listener[]>, event: string, listener: Listener) => {
+  map.set(event, [...(map.get(event) ?? []), listener]);
+};
+
+const removeListener = (map: Map<string, Listener[]>, event?: string, listener?: Listener) => {
+  if (!event) {
+    map.clear();
+  } else if (!listener) {
+    map.delete(event);
+  } else {
+    map.set(event, (map.get(event) ?? []).filter((item) => item !== listener));
+  }
+};
+
+const fire = (map: Map<string, Listener[]>, event: string, args: any[]) => {
+  (map.get(event) ?? []).slice().forEach((listener) => listener(...args));
+};
+
+/**
+ * Creates an in-process stand-in for the MediaSFU signalling server.
+ *
+ * `server.io` is a drop-in replacement for socket.io-client's `io()`, so the real
+ * `connectSocket`, `joinRoomClient` and `socketDefault.on(...)` handlers can run against it
+ * once `socket.io-client` is mocked. Client emits are recorded in `server.received` and
+ * answered by the handler registered for the event (its return value is the acknowledgement).
+ *
+ * @param {StandInServerOptions} [options] - The options for the stand-in.
+ * @param {Partial<ResponseJoinRoom>} [options.joinResponse] - Overrides for the `joinRoom` acknowledgement.
+ * @param {Participant[]} [options.members] - Members sent by `server.allMembers()` when none are given.
+ * @param {Record<string, any>} [options.connectionSuccess] - Extra fields for the `connection-success` event.
+ * @param {string} [options.rejectConnection] - Emits `connect_error` with this message instead of connecting.
+ * @param {Record<string, StandInHandler>} [options.handlers] - Handlers for client emits, keyed by event.
+ * @returns {StandInServer} The stand-in server.
+ *
+ * @example
+ * ```typescript
+ * const mockServer = createStandInServer({ joinResponse: { isHost: true } });
+ * jest.mock('socket.io-client', () => ({ io: (...args: any[]) => mockServer.io(...args) }));
+ *
+ * const socket = await connectSocket({ apiUserName, apiKey, link: 'https://standin.local' });
+ * mockServer.personJoined('alice');
+ * ```
+ */
+export const createStandInServer = ({
+  joinResponse = {},
+  members = [],
+  connectionSuccess = {},
+  rejectConnection,
+  handlers = {},
+}: StandInServerOptions = {}): StandInServer => {
+  const sockets: StandInSocket[] = [];
+  const received: StandInEmit[] = [];
+  const handlerMap = new Map<string, StandInHandler>();
+  const waiters: {
+    event: string;
+    where?: (payload: any) => boolean;
+    resolve: (emit: StandInEmit) => void;
+  }[] = [];
+  const deliver = new Map<string, (event: string, args: any[]) => void>();
+  let socketCount = 0;
+
+  const joinRoom: StandInHandler = () => ({
+    rtpCapabilities: standInRtpCapabilities,
+    success: true,
+    roomRecvIPs: ['none'],
+    meetingRoomParams: standInMeetingRoomParams,
+    recordingParams: standInRecordingParams,
+    secureCode: '',
+    recordOnly: false,
+    isHost: false,
+    safeRoom: false,
+    autoStartSafeRoom: false,
+    safeRoomStarted: false,
+    safeRoomEnded: false,
+    ...joinResponse,
+  });
+
+  const defaultHandlers: Record<string, StandInHandler> = {
+    joinRoom,
+    joinConRoom: joinRoom,
+    createWebRtcTransport: (_payload, { socket }) => ({
+      params: createStandInTransportParams(`${socket.id}-transport-${received.length}`),
+    }),
+    'transport-connect': () => ({ success: true }),
+    'transport-produce': (_payload, { socket }) => ({ id: `${socket.id}-producer-${received.length}` }),
+    'transport-recv-connect': () => ({ success: true }),
+    getProducersPipedAlt: () => [],
+    getProducersAlt: () => [],
+  };
+
+  Object.entries({ ...defaultHandlers, ...handlers }).forEach(([event, handler]) => {
+    handlerMap.set(event, handler);
+  });
+
+  const targets = (options: StandInEmitOptions = {}) =>
+    sockets.filter(
+      (socket) => socket.connected && (!options.socketId || socket.id === options.socketId),
+    );
+
+  const server: StandInServer = {
+    sockets,
+    received,
+
+    io: (uri = '', opts = {}) => {
+      socketCount += 1;
+      const listeners = new Map<string, Listener[]>();
+      const managerListeners = new Map<string, Listener[]>();
+
+      const socket: StandInSocket = {
+        id: `standin-${socketCount}`,
+        connected: false,
+        disconnected: true,
+        uri,
+        query: opts.query ?? {},
+        io: {
+          opts,
+          on: (event, listener) => {
+            addListener(managerListeners, event, listener);
+            return socket.io;
+          },
+          off: (event, listener) => {
+            removeListener(managerListeners, event, listener);
+            return socket.io;
+          },
+        },
+        on: (event, listener) => {
+          addListener(listeners, event, listener);
+          return socket;
+        },
+        once: (event, listener) => {
+          const wrapped: Listener = (...args) => {
+            removeListener(listeners, event, wrapped);
+            listener(...args);
+          };
+          addListener(listeners, event, wrapped);
+          return socket;
+        },
+        off: (event, listener) => {
+          removeListener(listeners, event, listener);
+          return socket;
+        },
+        emit: (event, ...args) => {
+          const ack: Ack | undefined =
+            typeof args[args.length - 1] === 'function' ? args.pop() : undefined;
+          const entry: StandInEmit = {
+            socketId: socket.id,
+            event,
+            payload: args[0],
+            timestamp: Date.now(),
+          };
+          received.push(entry);
+
+          defer(() => {
+            waiters
+              .filter((waiter) => waiter.event === event && (!waiter.where || waiter.where(entry.payload)))
+              .forEach((waiter) => {
+                waiters.splice(waiters.indexOf(waiter), 1);
+                waiter.resolve(entry);
+              });
+
+            const handler = handlerMap.get(event);
+            const response = handler ? handler(entry.payload, { socket, server }) : { success: true };
+            ack?.(response);
+          });
+          return socket;
+        },
+        connect: () => {
+          defer(() => {
+            if (rejectConnection) {
+              fire(listeners, 'connect_error', [new Error(rejectConnection)]);
+              return;
+            }
+            socket.connected = true;
+            socket.disconnected = false;
+            fire(listeners, 'connect', []);
+            fire(listeners, 'connection-success', [
+              { socketId: socket.id, mode: 'production', ...connectionSuccess },
+            ]);
+          });
+          return socket;
+        },
+        disconnect: () => {
+          if (socket.connected) {
+            socket.connected = false;
+            socket.disconnected = true;
+            fire(listeners, 'disconnect', ['io client disconnect']);
+          }
+          return socket;
+        },
+        close: () => socket.disconnect(),
+      };
+
+      deliver.set(socket.id, (event, args) => fire(listeners, event, args));
+
+      sockets.push(socket);
+      if (opts.autoConnect !== false) {
+        socket.connect();
+      }
+      return socket;
+    },
+
+    handle: (event, handler) => {
+      handlerMap.set(event, handler);
+    },
+
+    emit: (event, payload, options) => {
+      targets(options).forEach((socket) => {
+        defer(() => deliver.get(socket.id)?.(event, payload === undefined ? [] : [payload]));
+      });
+    },
+
+    waitFor: (event, { timeoutMs = 2000, where } = {}) => {
+      const existing = received.find(
+        (entry) => entry.event === event && (!where || where(entry.payload)),
+      );
+      if (existing) {
+        return Promise.resolve(existing);
+      }
+
+      return new Promise<StandInEmit>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          reject(new Error(`Stand-in server did not receive '${event}' within ${timeoutMs}ms`));
+        }, timeoutMs);
+        waiters.push({
+          event,
+          where,
+          resolve: (entry) => {
+            clearTimeout(timer);
+            resolve(entry);
+          },
+        });
+      });
+    },
+
+    flush: () => new Promise<void>((resolve) => setTimeout(resolve, 0)),
+
+    drop: (reason = 'transport close', options) => {
+      targets(options).forEach((socket) => {
+        socket.connected = false;
+        socket.disconnected = true;
+        deliver.get(socket.id)?.('disconnect', [reason]);
+      });
+    },
+
+    close: () => {
+      targets().forEach((socket) => {
+        socket.connected = false;
+        socket.disconnected = true;
+        deliver.get(socket.id)?.('disconnect', ['io server disconnect']);
+      });
+      waiters.splice(0, waiters.length);
+    },
+
+    allMembers: (data = {}) => {
+      server.emit('allMembers', {
+        members,
+        requests: [],
+        coHost: '',
+        coHostResponsibilities: [],
+        ...data,
+      });
+    },
+    personJoined: (name) => server.emit('personJoined', { name }),
+    receiveMessage: (message) => server.emit('receiveMessage', { message }),
+    pollUpdated: (data) => server.emit('pollUpdated', data),
+    breakoutRoomUpdated: (data) => server.emit('breakoutRoomUpdated', data),
+    whiteboardUpdated: (data) => server.emit('whiteboardUpdated', data),
+    recordingNotice: (data) => server.emit('RecordingNotice', data),
+    meetingEnded: () => server.emit('meetingEnded'),
+  };
+
+  return server;
+};
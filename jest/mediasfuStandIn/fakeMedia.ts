@@ -0,0 +1,280 @@
+// Fake WebRTC media (mediaDevices, MediaStream, mediasoup Device) for the Jest end-to-end tests.
+import { jest } from '@jest/globals';
+
+export interface FakeMediaStreamTrack {
+  id: string;
+  kind: 'audio' | 'video';
+  label: string;
+  enabled: boolean;
+  muted: boolean;
+  readyState: 'live' | 'ended';
+  stop: () => void;
+  clone: () => FakeMediaStreamTrack;
+  getSettings: () => Record<string, any>;
+  getConstraints: () => Record<string, any>;
+  applyConstraints: (constraints?: Record<string, any>) => Promise<void>;
+  addEventListener: (event: string, listener: () => void) => void;
+  removeEventListener: (event: string, listener: () => void) => void;
+  _switchCamera: () => void;
+}
+
+export interface FakeMediaStream {
+  id: string;
+  active: boolean;
+  getTracks: () => FakeMediaStreamTrack[];
+  getAudioTracks: () => FakeMediaStreamTrack[];
+  getVideoTracks: () => FakeMediaStreamTrack[];
+  addTrack: (track: FakeMediaStreamTrack) => void;
+  removeTrack: (track: FakeMediaStreamTrack) => void;
+  clone: () => FakeMediaStream;
+  toURL: () => string;
+  release: () => void;
+}
+
+export interface FakeMediaDeviceInfo {
+  deviceId: string;
+  groupId: string;
+  kind: 'audioinput' | 'audiooutput' | 'videoinput';
+  label: string;
+}
+
+export interface FakeMediaDevicesOptions {
+  devices?: FakeMediaDeviceInfo[];
+  denyPermissions?: boolean;
+}
+
+export interface FakeMediaDevices {
+  getUserMedia: jest.Mock<(constraints?: Record<string, any>) => Promise<FakeMediaStream>>;
+  getDisplayMedia: jest.Mock<(constraints?: Record<string, any>) => Promise<FakeMediaStream>>;
+  enumerateDevices: jest.Mock<() => Promise<FakeMediaDeviceInfo[]>>;
+  addEventListener: jest.Mock;
+  removeEventListener: jest.Mock;
+}
+
+export const defaultFakeDevices: FakeMediaDeviceInfo[] = [
+  { deviceId: 'fake-mic', groupId: 'fake', kind: 'audioinput', label: 'Fake Microphone' },
+  { deviceId: 'fake-speaker', groupId: 'fake', kind: 'audiooutput', label: 'Fake Speaker' },
+  { deviceId: 'fake-front', groupId: 'fake', kind: 'videoinput', label: 'Fake Front Camera' },
+  { deviceId: 'fake-back', groupId: 'fake', kind: 'videoinput', label: 'Fake Back Camera' },
+];
+
+let fakeIdCounter = 0;
+const nextFakeId = (prefix: string) => {
+  fakeIdCounter += 1;
+  return `${prefix}-${fakeIdCounter}`;
+};
+
+/**
+ * Creates a live fake `MediaStreamTrack` of the given kind.
+ *
+ * @param {'audio' | 'video'} kind - The kind of track.
+ * @param {string} [label] - The track label.
+ * @returns {FakeMediaStreamTrack} The fake track.
+ */
+export const createFakeMediaStreamTrack = (
+  kind: 'audio' | 'video',
+  label = `Fake ${kind} track`,
+): FakeMediaStreamTrack => {
+  const track: FakeMediaStreamTrack = {
+    id: nextFakeId(`${kind}-track`),
+    kind,
+    label,
+    enabled: true,
+    muted: false,
+    readyState: 'live',
+    stop: () => {
+      track.readyState = 'ended';
+    },
+    clone: () => createFakeMediaStreamTrack(kind, label),
+    getSettings: () =>
+      kind === 'video'
+        ? { width: 640, height: 480, frameRate: 15, facingMode: 'user' }
+        : { sampleRate: 48000, channelCount: 1 },
+    getConstraints: () => ({}),
+    applyConstraints: async () => {},
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    _switchCamera: () => {},
+  };
+  return track;
+};
+
+/**
+ * Creates a fake `MediaStream` holding the given tracks.
+ *
+ * @param {FakeMediaStreamTrack[]} [tracks] - The initial tracks.
+ * @returns {FakeMediaStream} The fake stream.
+ */
+export const createFakeMediaStream = (tracks: FakeMediaStreamTrack[] = []): FakeMediaStream => {
+  let streamTracks = [...tracks];
+  const id = nextFakeId('stream');
+
+  const stream: FakeMediaStream = {
+    id,
+    get active() {
+      return streamTracks.some((track) => track.readyState === 'live');
+    },
+    getTracks: () => [...streamTracks],
+    getAudioTracks: () => streamTracks.filter((track) => track.kind === 'audio'),
+    getVideoTracks: () => streamTracks.filter((track) => track.kind === 'video'),
+    addTrack: (track) => {
+      if (!streamTracks.includes(track)) {
+        streamTracks.push(track);
+      }
+    },
+    removeTrack: (track) => {
+      streamTracks = streamTracks.filter((item) => item !== track);
+    },
+    clone: () => createFakeMediaStream(streamTracks.map((track) => track.clone())),
+    toURL: () => `fake-stream://${id}`,
+    release: () => streamTracks.forEach((track) => track.stop()),
+  };
+  return stream;
+};
+
+/**
+ * Creates a fake `mediaDevices` whose `getUserMedia` returns live fake tracks for the
+ * requested kinds, and whose calls are Jest mocks for assertions.
+ *
+ * @param {FakeMediaDevicesOptions} [options] - The options for the fake devices.
+ * @param {FakeMediaDeviceInfo[]} [options.devices] - Devices returned by `enumerateDevices`.
+ * @param {boolean} [options.denyPermissions=false] - Rejects `getUserMedia` with a `NotAllowedError`.
+ * @returns {FakeMediaDevices} The fake media devices.
+ */
+export const createFakeMediaDevices = ({
+  devices = defaultFakeDevices,
+  denyPermissions = false,
+}: FakeMediaDevicesOptions = {}): FakeMediaDevices => ({
+  getUserMedia: jest.fn(async (constraints: Record<string, any> = {}) => {
+    if (denyPermissions) {
+      const error = new Error('Permission denied');
+      error.name = 'NotAllowedError';
+      throw error;
+    }
+    const tracks: FakeMediaStreamTrack[] = [];
+    if (constraints.audio) {
+      tracks.push(createFakeMediaStreamTrack('audio'));
+    }
+    if (constraints.video) {
+      tracks.push(createFakeMediaStreamTrack('video'));
+    }
+    return createFakeMediaStream(tracks);
+  }),
+  getDisplayMedia: jest.fn(async () =>
+    createFakeMediaStream([createFakeMediaStreamTrack('video', 'Fake screen')]),
+  ),
+  enumerateDevices: jest.fn(async () => devices),
+  addEventListener: jest.fn(),
+  removeEventListener: jest.fn(),
+});
+
+/**
+ * Creates a replacement for the `react-native-webrtc` module backed by the fakes above.
+ *
+ * @param {FakeMediaDevicesOptions} [options] - The options for the fake devices.
+ * @returns {Object} The module replacement.
+ *
+ * @example
+ * ```typescript
+ * jest.mock('react-native-webrtc', () =>
+ *   require('../jest/mediasfuStandIn').createFakeWebRTCModule(),
+ * );
+ * ```
+ */
+export const createFakeWebRTCModule = (options: FakeMediaDevicesOptions = {}) => ({
+  mediaDevices: createFakeMediaDevices(options),
+  MediaStream: jest.fn((tracks?: FakeMediaStreamTrack[]) => createFakeMediaStream(tracks)),
+  MediaStreamTrack: jest.fn(),
+  RTCView: (): null => null,
+  registerGlobals: jest.fn(),
+});
+
+const createFakeTransport = (direction: 'send' | 'recv', params: Record<string, any> = {}) => {
+  const listeners = new Map<string, ((...args: any[]) => void)[]>();
+  const transport: Record<string, any> = {
+    id: params.id ?? nextFakeId(`${direction}-transport`),
+    direction,
+    closed: false,
+    connectionState: 'new',
+    on: (event: string, listener: (...args: any[]) => void) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+    },
+    produce: jest.fn(async ({ track }: { track: FakeMediaStreamTrack }) => {
+      // mediasoup-client asks the app to signal 'connect' before the first 'produce'
+      if (transport.connectionState === 'new') {
+        transport.connectionState = 'connected';
+        (listeners.get('connect') ?? []).forEach((listener) =>
+          listener({ dtlsParameters: {} }, () => {}, () => {}),
+        );
+      }
+      const id = await new Promise<string>((resolve) => {
+        const produceListeners = listeners.get('produce') ?? [];
+        if (produceListeners.length === 0) {
+          resolve(nextFakeId('producer'));
+        }
+        produceListeners.forEach((listener) =>
+          listener({ kind: track.kind, rtpParameters: {}, appData: {} }, ({ id: producerId }: { id: string }) =>
+            resolve(producerId),
+          () => resolve(nextFakeId('producer'))),
+        );
+      });
+      return {
+        id,
+        kind: track.kind,
+        track,
+        paused: false,
+        closed: false,
+        pause: jest.fn(),
+        resume: jest.fn(),
+        close: jest.fn(),
+        replaceTrack: jest.fn(async () => {}),
+        on: jest.fn(),
+      };
+    }),
+    consume: jest.fn(async ({ id, producerId, kind }: { id: string; producerId: string; kind: 'audio' | 'video' }) => ({
+      id,
+      producerId,
+      kind,
+      track: createFakeMediaStreamTrack(kind),
+      paused: false,
+      closed: false,
+      pause: jest.fn(),
+      resume: jest.fn(),
+      close: jest.fn(),
+      on: jest.fn(),
+    })),
+    close: jest.fn(() => {
+      transport.closed = true;
+      transport.connectionState = 'closed';
+    }),
+  };
+  return transport;
+};
+
+/**
+ * Creates a fake mediasoup-client `Device` that loads any router capabilities and builds fake
+ * transports, so the send/receive paths run without a WebRTC stack.
+ *
+ * @returns {Object} The fake device.
+ *
+ * @example
+ * ```typescript
+ * jest.mock('mediasoup-client', () => ({
+ *   Device: jest.fn(() => require('../jest/mediasfuStandIn').createFakeDevice()),
+ * }));
+ * ```
+ */
+export const createFakeDevice = () => {
+  const device: Record<string, any> = {
+    loaded: false,
+    rtpCapabilities: null,
+    load: jest.fn(async ({ routerRtpCapabilities }: { routerRtpCapabilities: Record<string, any> }) => {
+      device.loaded = true;
+      device.rtpCapabilities = routerRtpCapabilities;
+    }),
+    canProduce: jest.fn(() => true),
+    createSendTransport: jest.fn((params: Record<string, any>) => createFakeTransport('send', params)),
+    createRecvTransport: jest.fn((params: Record<string, any>) => createFakeTransport('recv', params)),
+  };
+  return device;
+};
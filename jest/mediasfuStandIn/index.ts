@@ -0,0 +1,2 @@
+export * from './createStandInServer';
+export * from './fakeMedia';
@@ -105,6 +105,16 @@ export * from './src/methods/settingsMethods/launchSettings';
 export * from './src/methods/requestsMethods/launchRequests';
 export * from './src/methods/participantsMethods/launchParticipants';
 export * from './src/methods/messageMethods/launchMessages';
+export * from './src/methods/messageMethods/chatOutbox';
+export * from './src/methods/messageMethods/messageThreads';
+export * from './src/methods/messageMethods/chatHistory';
+export * from './src/methods/messageMethods/chatModeration';
+export * from './src/methods/messageMethods/chatPresence';
+export * from './src/methods/messageMethods/chatTranscript';
+export * from './src/methods/messageMethods/chatSearch';
+export * from './src/methods/messageMethods/chatMentions';
+export * from './src/methods/messageMethods/chatAttachments';
+export * from './src/methods/messageMethods/pickChatAttachment';
 export * from './src/methods/exitMethods/launchConfirmExit';
 
 // Polls and Background Methods
@@ -121,6 +131,13 @@ export * from './src/methods/whiteboardMethods/launchConfigureWhiteboard';
 
 // Socket and Media Functions
 export * from './src/sockets/SocketManager';
+export * from './src/sockets/socketEvents';
+export * from './src/sockets/socketAuth';
+export * from './src/sockets/reconnectSocket';
+export * from './src/hooks/useMediasfuConnection';
+export * from './src/hooks/usePollDrafts';
+export * from './src/controllers/mediasfuRoomController';
+export * from './src/contexts/MediasfuRoomContext';
 export * from './src/ProducerClient/producerClientEmits/joinRoomClient';
 export * from './src/producers/producerEmits/joinLocalRoom';
 export * from './src/ProducerClient/producerClientEmits/updateRoomParametersClient';
@@ -166,6 +183,8 @@ export * from './src/consumers/changeVids';
 export * from './src/consumers/compareActiveNames';
 export * from './src/consumers/compareScreenStates';
 export * from './src/consumers/createSendTransport';
+export * from './src/consumers/resetMediaTransports';
+export * from './src/consumers/republishMedia';
 export * from './src/consumers/resumeSendTransportAudio';
 export * from './src/consumers/receiveAllPipedTransports';
 export * from './src/consumers/disconnectSendTransportVideo';
@@ -192,6 +211,12 @@ export * from './src/methods/pollsMethods/pollUpdated';
 export * from './src/methods/pollsMethods/handleCreatePoll';
 export * from './src/methods/pollsMethods/handleVotePoll';
 export * from './src/methods/pollsMethods/handleEndPoll';
+export * from './src/methods/pollsMethods/handleRevealPollResults';
+export * from './src/methods/pollsMethods/pollResults';
+export * from './src/methods/pollsMethods/pollTimer';
+export * from './src/methods/pollsMethods/quizScoring';
+export * from './src/methods/pollsMethods/pollDrafts';
+export * from './src/methods/pollsMethods/pollVisibility';
 
 // Breakout Rooms
 export * from './src/methods/breakoutRoomsMethods/breakoutRoomUpdated';
@@ -294,11 +319,15 @@ export * from './src/components/displayComponents/CardVideoDisplay';
 export * from './src/components/displayComponents/MiniCardAudio';
 export * from './src/methods/utils/MiniAudioPlayer/MiniAudioPlayer';
 export * from './src/methods/utils/SoundPlayer';
+export * from './src/methods/utils/roomEvents';
 
 // new utils
 export * from './src/methods/utils/joinRoomOnMediaSFU';
 export * from './src/methods/utils/createRoomOnMediaSFU';
 export * from './src/methods/utils/checkLimitsAndMakeRequest';
+export * from './src/methods/utils/storage/mediasfuStorage';
+export * from './src/methods/utils/mediasfuError';
+export * from './src/methods/utils/logger/mediasfuLogger';
 export * from './src/methods/utils/createResponseJoinRoom';
 
 //initial values
@@ -442,6 +471,7 @@ import { pollUpdated } from './src/methods/pollsMethods/pollUpdated';
 import { handleCreatePoll } from './src/methods/pollsMethods/handleCreatePoll';
 import { handleVotePoll } from './src/methods/pollsMethods/handleVotePoll';
 import { handleEndPoll } from './src/methods/pollsMethods/handleEndPoll';
+import { handleRevealPollResults } from './src/methods/pollsMethods/handleRevealPollResults';
 
 import { breakoutRoomUpdated } from './src/methods/breakoutRoomsMethods/breakoutRoomUpdated';
 
@@ -683,6 +713,7 @@ export {
   handleCreatePoll,
   handleVotePoll,
   handleEndPoll,
+  handleRevealPollResults,
   breakoutRoomUpdated,
   launchPoll,
   launchBreakoutRooms,
@@ -38,6 +38,8 @@ export * from '../consumers/connectSendTransportVideo';
 export * from '../consumers/consumerResume';
 export * from '../consumers/controlMedia';
 export * from '../consumers/createSendTransport';
+export * from '../consumers/resetMediaTransports';
+export * from '../consumers/republishMedia';
 export * from '../consumers/disconnectSendTransportAudio';
 export * from '../consumers/disconnectSendTransportVideo';
 export * from '../consumers/disconnectSendTransportScreen';
@@ -122,6 +124,16 @@ export * from '../methods/menuMethods/launchMenuModal';
 // Message Methods
 export * from '../methods/messageMethods/launchMessages';
 export * from '../methods/messageMethods/sendMessage';
+export * from '../methods/messageMethods/chatOutbox';
+export * from '../methods/messageMethods/messageThreads';
+export * from '../methods/messageMethods/chatHistory';
+export * from '../methods/messageMethods/chatModeration';
+export * from '../methods/messageMethods/chatPresence';
+export * from '../methods/messageMethods/chatTranscript';
+export * from '../methods/messageMethods/chatSearch';
+export * from '../methods/messageMethods/chatMentions';
+export * from '../methods/messageMethods/chatAttachments';
+export * from '../methods/messageMethods/pickChatAttachment';
 
 // Participants Methods
 export * from '../methods/participantsMethods/launchParticipants';
@@ -132,9 +144,15 @@ export * from '../methods/participantsMethods/removeParticipants';
 // Polls Methods
 export * from '../methods/pollsMethods/handleCreatePoll';
 export * from '../methods/pollsMethods/handleEndPoll';
+export * from '../methods/pollsMethods/handleRevealPollResults';
 export * from '../methods/pollsMethods/handleVotePoll';
 export * from '../methods/pollsMethods/launchPoll';
 export * from '../methods/pollsMethods/pollUpdated';
+export * from '../methods/pollsMethods/pollResults';
+export * from '../methods/pollsMethods/pollTimer';
+export * from '../methods/pollsMethods/quizScoring';
+export * from '../methods/pollsMethods/pollDrafts';
+export * from '../methods/pollsMethods/pollVisibility';
 
 // Recording Methods
 export * from '../methods/recordingMethods/checkPauseState';
@@ -226,6 +244,17 @@ export * from '../producers/socketReceiveMethods/updateMediaSettings';
 export * from '../producers/socketReceiveMethods/updatedCoHost';
 export * from '../producers/socketReceiveMethods/userWaiting';
 export * from '../sockets/SocketManager';
+export * from '../sockets/socketEvents';
+export * from '../sockets/socketAuth';
+export * from '../sockets/reconnectSocket';
+export * from '../hooks/useMediasfuConnection';
+export * from '../hooks/usePollDrafts';
+export * from '../methods/utils/roomEvents';
+export * from '../controllers/mediasfuRoomController';
+export * from '../contexts/MediasfuRoomContext';
+export * from '../methods/utils/storage/mediasfuStorage';
+export * from '../methods/utils/mediasfuError';
+export * from '../methods/utils/logger/mediasfuLogger';
 
 // Components
 // export * from '../components/backgroundComponents/BackgroundModal';
@@ -375,12 +404,80 @@ export interface VidCons {
 
 export type Settings = [string, string, string, string];
 
+export type MessageDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface MessageReplyReference {
+  id: string; // ID of the quoted message.
+  sender: string; // Sender of the quoted message.
+  message: string; // Excerpt of the quoted message.
+}
+
+export interface MessageReactionData {
+  messageId: string; // ID of the message reacted to.
+  emoji: string; // The reaction, e.g. '👍'.
+  member: string; // The member who reacted.
+  action: 'add' | 'remove';
+}
+
+export interface MessageDeletedData {
+  messageId: string; // ID of the deleted message.
+  deletedBy: string; // The host or co-host who deleted it.
+}
+
+export interface ChatModerationUpdatedData {
+  settings: ChatModerationSettings;
+  updatedBy: string; // The host or co-host who changed the settings.
+}
+
+export interface ChatModerationSettings {
+  blockedWords: string[]; // Matched as whole words, ignoring case.
+  blockedWordAction: 'mask' | 'block'; // Replace blocked words with asterisks, or refuse to send the message.
+  slowModeSeconds: number; // Minimum time between messages from attendees; 0 turns slow mode off.
+}
+
+export interface TypingEventData {
+  member: string; // The member typing.
+  group: boolean; // Typing in the group chat, or a direct message.
+  receivers: string[]; // Receivers of the direct message; empty for the host.
+  isTyping: boolean; // False once the member stops typing or sends the message.
+}
+
+export interface MessageAttachment {
+  id: string; // ID of the attachment; its data arrives in `attachmentChunk` events with this ID.
+  name: string; // File name.
+  mimeType: string; // E.g. 'image/jpeg'.
+  size: number; // Size of the file in bytes.
+  kind: 'image' | 'file'; // Images are shown as thumbnails.
+}
+
+export interface AttachmentChunk {
+  attachmentId: string; // ID of the attachment.
+  index: number; // Position of the chunk, from 0.
+  total: number; // Number of chunks in the attachment.
+  data: string; // Part of the attachment's data URI.
+}
+
+export type ChatReadState = { [threadKey: string]: number }; // When each conversation was last read, in epoch milliseconds.
+
 export interface Message {
   sender: string;
   receivers: string[];
   message: string;
-  timestamp: string;
+  /**
+   * Epoch milliseconds; older clients send a locale time string. Breaking change: this was a
+   * `string`, so code that formats or compares it as one must handle numbers too. Read it with
+   * `getMessageTime` or `parseMessageTimestamp`.
+   */
+  timestamp: number | string;
   group: boolean;
+  id?: string; // Stable ID of the message; messages sent by older clients may not have one.
+  replyTo?: MessageReplyReference; // The message this one replies to.
+  reactions?: { [emoji: string]: string[] }; // Members who reacted, by emoji.
+  mentions?: string[]; // Members mentioned with `@name`.
+  attachment?: MessageAttachment; // Image or file sent with the message.
+  clientId?: string; // Generated by the sender so the server echo can be matched to the local copy.
+  deliveryStatus?: MessageDeliveryStatus; // Local only; set on messages sent through the chat outbox.
+  deleted?: boolean; // Removed for everyone by the host or a co-host; the text is cleared.
 }
 
 export type MainSpecs = {
@@ -423,14 +520,39 @@ export type RequestPermissionCameraType = () => Promise<string>;
 export type ControlsPosition = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
 export type InfoPosition = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
 
+export interface PollResponse {
+  choices?: number[]; // Multi-select: the chosen options; ranked choice: the options in order of preference.
+  text?: string; // Open-text answer.
+}
+
+export interface PollQuiz {
+  name: string; // The quiz the question belongs to; standings add up every question of the quiz.
+  correctOption?: number; // Kept by the server while the question is active; sent once it has ended.
+  points?: number; // Points for an instant correct answer; defaults to `DEFAULT_QUIZ_POINTS`.
+  startedAt: number; // When the question opened, in milliseconds since the epoch, by the server's clock.
+}
+
+// Who sees a poll's results: everyone, everyone once the host reveals them, or only the host and co-hosts.
+export type PollResultsVisibility = 'everyone' | 'afterReveal' | 'hostsOnly';
+
 export interface Poll {
   id: string;
   question: string;
-  type: string;
+  type: string; // 'trueFalse', 'yesNo', 'custom', 'multiSelect', 'rankedChoice' or 'openText'.
   options: string[];
   votes: number[];
   status: string;
   voters?: Record<string, number>;
+  maxSelections?: number; // Multi-select polls: how many options each voter may pick.
+  responses?: Record<string, PollResponse>; // Multi-select, ranked-choice and open-text answers, by voter.
+  duration?: number; // Timed polls: how long voting stays open, in seconds.
+  endsAt?: number; // Timed polls: when voting closes by this device's clock, in milliseconds since the epoch.
+  warnings?: number[]; // Timed polls: the seconds left at which voters are warned.
+  quiz?: PollQuiz; // Quiz questions: the correct option and scoring.
+  answeredAt?: Record<string, number>; // Quiz questions: when the server received each voter's answer, in milliseconds since the epoch.
+  anonymous?: boolean; // The server records votes under opaque voter tokens instead of the voters' names.
+  resultsVisibility?: PollResultsVisibility; // Defaults to 'everyone'.
+  resultsRevealed?: boolean; // 'afterReveal' polls: whether the host has revealed the results.
   [key: string]: any;
 }
 
@@ -457,6 +579,7 @@ export interface PollUpdatedData {
   polls?: Poll[];
   poll: Poll;
   status: string;
+  timeLeft?: number; // Timed polls: milliseconds left on the active poll when the server sent the update.
 }
 
 export interface BreakoutParticipant {
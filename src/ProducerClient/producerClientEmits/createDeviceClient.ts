@@ -1,4 +1,7 @@
 import { RtpCapabilities, Device } from 'mediasoup-client/lib/types';
+import { getMediasfuLogger } from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('producers');
 
 export interface CreateDeviceClientOptions {
   rtpCapabilities: RtpCapabilities | null;
@@ -48,7 +51,7 @@ export const createDeviceClient = async ({
     return device;
   } catch (error) {
     if (error instanceof Error && error.name === 'UnsupportedError') {
-      console.error('Device creation is not supported by this browser.');
+      logger.error('Device creation is not supported by this browser.');
     }
 
     throw error;
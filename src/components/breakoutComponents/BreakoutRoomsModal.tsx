@@ -21,8 +21,11 @@ import {
 } from '../../@types/types';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
 import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
-import { Socket } from 'socket.io-client';
+import { MediasfuSocket } from '../../sockets/socketEvents';
 import { createThemedPickerSelectStyles, getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
+import { getMediasfuLogger } from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('room');
 
 interface EditRoomModalOptions {
   editRoomModalVisible: boolean;
@@ -53,8 +56,8 @@ interface EditRoomModalOptions {
  *
  * **Session Context:**
  * @property {string} roomName Active room identifier.
- * @property {Socket} socket Primary socket connection.
- * @property {Socket} [localSocket] Optional local socket for mirrored events.
+ * @property {MediasfuSocket} socket Primary socket connection.
+ * @property {MediasfuSocket} [localSocket] Optional local socket for mirrored events.
  * @property {ShowAlert} [showAlert] Alert helper for UI feedback.
  *
  * **Display State:**
@@ -84,8 +87,8 @@ interface EditRoomModalOptions {
 export interface BreakoutRoomsModalParameters {
   participants: Participant[];
   showAlert?: ShowAlert;
-  socket: Socket;
-  localSocket?: Socket;
+  socket: MediasfuSocket;
+  localSocket?: MediasfuSocket;
   itemPageLimit: number;
   meetingDisplayType: string;
   prevMeetingDisplayType: string;
@@ -538,7 +541,7 @@ const BreakoutRoomsModal: React.FC<BreakoutRoomsModalOptions> = ({
             }
           });
         } catch {
-          console.log('Error starting local breakout rooms:');
+          logger.error('Error starting local breakout rooms:');
         }
       }
     }
@@ -571,7 +574,7 @@ const BreakoutRoomsModal: React.FC<BreakoutRoomsModalOptions> = ({
           }
         });
       } catch {
-        console.log('Error stopping local breakout rooms:');
+        logger.error('Error stopping local breakout rooms:');
       }
     }
   };
@@ -9,7 +9,7 @@ import {
   ViewStyle,
 } from 'react-native';
 import FontAwesome from 'react-native-vector-icons/FontAwesome';
-import { Socket } from 'socket.io-client';
+import { MediasfuSocket } from '../../sockets/socketEvents';
 import { generatePageContent, GeneratePageContentOptions, GeneratePageContentParameters } from '../../consumers/generatePageContent';
 import { ShowAlert, BreakoutParticipant } from '../../@types/types';
 
@@ -27,7 +27,7 @@ export interface PaginationParameters extends GeneratePageContentParameters {
   roomName: string;
   islevel: string;
   showAlert?: ShowAlert;
-  socket: Socket;
+  socket: MediasfuSocket;
 
   // Function to get updated parameters
   getUpdatedAllParams: () => PaginationParameters;
@@ -6,16 +6,24 @@ import {
   View,
   Text,
   Pressable,
+  ScrollView,
   StyleSheet,
   Dimensions,
   StyleProp,
+  TextInput,
   ViewStyle,
 } from 'react-native';
 import FontAwesome from 'react-native-vector-icons/FontAwesome';
 import RNPickerSelect from 'react-native-picker-select'; // Install using: npm install react-native-picker-select
 import { Socket } from 'socket.io-client';
-import { ShowAlert } from '../../@types/types';
+import { ChatModerationSettings, ShowAlert } from '../../@types/types';
 import { modifySettings, ModifySettingsOptions } from '../../methods/settingsMethods/modifySettings';
+import {
+  DEFAULT_CHAT_MODERATION,
+  parseBlockedWords,
+  SLOW_MODE_OPTIONS,
+  updateChatModerationSettings,
+} from '../../methods/messageMethods/chatModeration';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
 import { createThemedPickerSelectStyles, getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
 
@@ -67,16 +75,19 @@ export interface EventSettingsModalParameters {
  * @property {string} videoSetting Initial video participant rule.
  * @property {string} screenshareSetting Initial screenshare rule.
  * @property {string} chatSetting Initial chat rule.
+ * @property {ChatModerationSettings} [chatModeration] Current blocked words and slow mode. The chat moderation fields are shown when `updateChatModeration` and `member` are set.
  *
  * **State Updaters:**
  * @property {(setting: string) => void} updateAudioSetting Persists audio rule updates.
  * @property {(setting: string) => void} updateVideoSetting Persists video rule updates.
  * @property {(setting: string) => void} updateScreenshareSetting Persists screenshare rule updates.
  * @property {(setting: string) => void} updateChatSetting Persists chat rule updates.
+ * @property {(settings: ChatModerationSettings) => void} [updateChatModeration] Applies blocked words and slow mode; the new settings are also sent to the room.
  * @property {(isVisible: boolean) => void} updateIsSettingsModalVisible Updates visibility flag from external triggers.
  *
  * **Session Context:**
  * @property {string} roomName Room identifier forwarded to the backend.
+ * @property {string} [member] Name of the local member, sent with chat moderation changes so other members can check who made them.
  * @property {Socket} socket Active socket connection used for updates.
  * @property {ShowAlert} [showAlert] Optional alert helper for in-modal feedback.
  *
@@ -101,8 +112,11 @@ export interface EventSettingsModalOptions {
   updateVideoSetting: (setting: string) => void;
   updateScreenshareSetting: (setting: string) => void;
   updateChatSetting: (setting: string) => void;
+  chatModeration?: ChatModerationSettings | null;
+  updateChatModeration?: (settings: ChatModerationSettings) => void;
   updateIsSettingsModalVisible: (isVisible: boolean) => void;
   roomName: string;
+  member?: string;
   socket: Socket;
   showAlert?: ShowAlert;
   style?: StyleProp<ViewStyle>;
@@ -185,8 +199,11 @@ const EventSettingsModal: React.FC<EventSettingsModalOptions> = ({
   updateVideoSetting,
   updateScreenshareSetting,
   updateChatSetting,
+  chatModeration,
+  updateChatModeration,
   updateIsSettingsModalVisible,
   roomName,
+  member,
   socket,
   showAlert,
   style,
@@ -197,6 +214,9 @@ const EventSettingsModal: React.FC<EventSettingsModalOptions> = ({
   const [videoState, setVideoState] = useState<string>(videoSetting);
   const [screenshareState, setScreenshareState] = useState<string>(screenshareSetting);
   const [chatState, setChatState] = useState<string>(chatSetting);
+  const [blockedWordsText, setBlockedWordsText] = useState<string>('');
+  const [blockedWordAction, setBlockedWordAction] = useState<ChatModerationSettings['blockedWordAction']>('mask');
+  const [slowModeSeconds, setSlowModeSeconds] = useState<number>(0);
 
   const screenWidth = Dimensions.get('window').width;
   let modalWidth = 0.8 * screenWidth;
@@ -210,8 +230,12 @@ const EventSettingsModal: React.FC<EventSettingsModalOptions> = ({
       setVideoState(videoSetting);
       setScreenshareState(screenshareSetting);
       setChatState(chatSetting);
+      const moderation = chatModeration ?? DEFAULT_CHAT_MODERATION;
+      setBlockedWordsText(moderation.blockedWords.join(', '));
+      setBlockedWordAction(moderation.blockedWordAction);
+      setSlowModeSeconds(moderation.slowModeSeconds);
     }
-  }, [isEventSettingsModalVisible, audioSetting, videoSetting, screenshareSetting, chatSetting]);
+  }, [isEventSettingsModalVisible, audioSetting, videoSetting, screenshareSetting, chatSetting, chatModeration]);
 
   /**
    * Handles saving the modified event settings.
@@ -232,6 +256,16 @@ const EventSettingsModal: React.FC<EventSettingsModalOptions> = ({
         socket,
         showAlert,
       });
+      if (updateChatModeration && member) {
+        const settings: ChatModerationSettings = {
+          blockedWords: parseBlockedWords(blockedWordsText),
+          blockedWordAction,
+          slowModeSeconds,
+        };
+        if (JSON.stringify(settings) !== JSON.stringify(chatModeration ?? DEFAULT_CHAT_MODERATION)) {
+          updateChatModerationSettings({ socket, roomName, member, settings, updateChatModeration });
+        }
+      }
       onEventSettingsClose(); // Close modal after saving
     } catch {
       showAlert?.({ message: 'Failed to save settings.', type: 'danger' });
@@ -262,7 +296,7 @@ const EventSettingsModal: React.FC<EventSettingsModalOptions> = ({
       <View style={[styles.hr, { backgroundColor: theme.dividerColor }]} />
 
       {/* Body */}
-      <View style={styles.modalBody}>
+      <ScrollView style={styles.modalBody}>
         {/* User Audio Setting */}
         <View style={styles.formGroup}>
           <Text style={[styles.label, { color: theme.textColor }]}>User Audio:</Text>
@@ -350,7 +384,65 @@ const EventSettingsModal: React.FC<EventSettingsModalOptions> = ({
             useNativeAndroidPickerStyle={false}
           />
         </View>
-      </View>
+
+        {updateChatModeration && member && (
+          <>
+            {/* Separator */}
+            <View style={[styles.sep, { backgroundColor: theme.dividerColor }]} />
+
+            {/* Blocked Words */}
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, { color: theme.textColor }]}>Blocked Words:</Text>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    backgroundColor: theme.inputBackgroundColor,
+                    borderColor: theme.borderColor,
+                    color: theme.inputTextColor,
+                  },
+                ]}
+                placeholder="Comma separated, e.g. spam, scam"
+                placeholderTextColor={theme.placeholderTextColor}
+                value={blockedWordsText}
+                onChangeText={setBlockedWordsText}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <RNPickerSelect
+                onValueChange={(value: ChatModerationSettings['blockedWordAction']) => setBlockedWordAction(value)}
+                items={[
+                  { label: 'Mask blocked words', value: 'mask' },
+                  { label: 'Block the message', value: 'block' },
+                ]}
+                value={blockedWordAction}
+                style={themedPickerSelectStyles}
+                placeholder={{}}
+                useNativeAndroidPickerStyle={false}
+              />
+            </View>
+
+            {/* Separator */}
+            <View style={[styles.sep, { backgroundColor: theme.dividerColor }]} />
+
+            {/* Slow Mode */}
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, { color: theme.textColor }]}>Slow Mode:</Text>
+              <RNPickerSelect
+                onValueChange={(value: number) => setSlowModeSeconds(value)}
+                items={SLOW_MODE_OPTIONS.map((seconds) => ({
+                  label: seconds === 0 ? 'Off' : `One message every ${seconds}s`,
+                  value: seconds,
+                }))}
+                value={slowModeSeconds}
+                style={themedPickerSelectStyles}
+                placeholder={{}}
+                useNativeAndroidPickerStyle={false}
+              />
+            </View>
+          </>
+        )}
+      </ScrollView>
 
       {/* Footer */}
       <View style={styles.modalFooter}>
@@ -463,6 +555,15 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
   },
 
+  textInput: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    fontSize: 14,
+    marginBottom: 6,
+  },
+
   sep: {
     height: 1,
     backgroundColor: '#ffffff',
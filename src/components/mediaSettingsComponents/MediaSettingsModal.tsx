@@ -18,6 +18,9 @@ import { switchVideo, SwitchVideoOptions, SwitchVideoParameters } from '../../me
 import { switchVideoAlt, SwitchVideoAltOptions, SwitchVideoAltParameters } from '../../methods/streamMethods/switchVideoAlt';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
 import { createThemedPickerSelectStyles, getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
+import { getMediasfuLogger } from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('ui');
 
 /**
  * Parameters for media settings state and device management.
@@ -272,7 +275,7 @@ const MediaSettingsModal: React.FC<MediaSettingsModalOptions> = ({
     try {
       await switchCameraOnPress({ parameters });
     } catch (error) {
-      console.error('Failed to switch camera:', error);
+      logger.error('Failed to switch camera:', error);
       // Optionally, implement alert or toast
     }
   };
@@ -287,7 +290,7 @@ const MediaSettingsModal: React.FC<MediaSettingsModalOptions> = ({
       try {
         await switchVideoOnPress({ videoPreference: value, parameters });
       } catch (error) {
-        console.error('Failed to switch video input:', error);
+        logger.error('Failed to switch video input:', error);
         // Optionally, implement alert or toast
       }
     }
@@ -303,7 +306,7 @@ const MediaSettingsModal: React.FC<MediaSettingsModalOptions> = ({
       try {
         await switchAudioOnPress({ audioPreference: value, parameters });
       } catch (error) {
-        console.error('Failed to switch audio input:', error);
+        logger.error('Failed to switch audio input:', error);
         // Optionally, implement alert or toast
       }
     }
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { Text, View, Platform, Dimensions, StatusBar } from 'react-native';
+import { Text, View, Platform, Dimensions, StatusBar, ActivityIndicator } from 'react-native';
 import Orientation from '../../methods/utils/orientation/orientation';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { getStatusBarHeight } from 'react-native-status-bar-height';
@@ -34,6 +34,34 @@ import MiniAudioPlayer from '../../methods/utils/MiniAudioPlayer/MiniAudioPlayer
 
 // import methods for control (samples)
 import { launchMessages } from '../../methods/messageMethods/launchMessages';
+import { createChatOutbox } from '../../methods/messageMethods/chatOutbox';
+import { createChatHistory, mergeMessages } from '../../methods/messageMethods/chatHistory';
+import {
+  applyMessageReaction,
+  sendMessageReaction,
+} from '../../methods/messageMethods/messageThreads';
+import {
+  applyMessageDeletion,
+  DEFAULT_CHAT_MODERATION,
+  deleteMessageForEveryone,
+  fetchChatModerationSettings,
+  isDeletionAllowed,
+  isChatModerationUpdateAllowed,
+} from '../../methods/messageMethods/chatModeration';
+import {
+  countUnreadMessages,
+  createTypingNotifier,
+  createTypingTracker,
+  markMessagesRead,
+  markThreadRead,
+} from '../../methods/messageMethods/chatPresence';
+import { countUnreadMentions } from '../../methods/messageMethods/chatMentions';
+import { getVisibleChatMessages } from '../../methods/messageMethods/chatTranscript';
+import {
+  addAttachmentData,
+  createAttachmentAssembler,
+  getAttachmentSizeLimit,
+} from '../../methods/messageMethods/chatAttachments';
 import { launchConfirmExit } from '../../methods/exitMethods/launchConfirmExit';
 
 // Import the platform-specific WebRTC module (options are for ios, android, web)
@@ -45,7 +73,46 @@ import {
 } from '../../methods/utils/webrtc/webrtc';
 
 // mediasfu functions -- examples
-import { connectSocket, connectLocalSocket } from '../../sockets/SocketManager';
+import {
+  connectSocket,
+  connectLocalSocket,
+  createConnectionStateMachine,
+  watchSocketConnection,
+  stopWatchingTokenExpiry,
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionStateMachine,
+} from '../../sockets/SocketManager';
+import {
+  emitRoomEvent,
+  diffParticipants,
+  MediasfuRoomEvents,
+} from '../../methods/utils/roomEvents';
+import { MediasfuRoomProvider } from '../../contexts/MediasfuRoomContext';
+import {
+  createMediasfuRoomController,
+  MediasfuRoomController,
+} from '../../controllers/mediasfuRoomController';
+import { MediasfuStorage } from '../../methods/utils/storage/mediasfuStorage';
+import { GetTokenType, OnTokenExpiredType } from '../../sockets/socketAuth';
+import {
+  classifyMediasfuErrorMessage,
+  createMediasfuError,
+  emitMediasfuError,
+  MediasfuErrorHandler,
+  withMediasfuErrorReporting,
+} from '../../methods/utils/mediasfuError';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+import {
+  reconnectSocket,
+  isTransientDisconnect,
+  ReconnectionConfig,
+} from '../../sockets/reconnectSocket';
+import { resetMediaTransports } from '../../consumers/resetMediaTransports';
+import {
+  captureActiveMedia,
+  republishMedia,
+} from '../../consumers/republishMedia';
 import { joinRoomClient } from '../../ProducerClient/producerClientEmits/joinRoomClient';
 import { joinLocalRoom } from '../../producers/producerEmits/joinLocalRoom';
 import { updateRoomParametersClient } from '../../ProducerClient/producerClientEmits/updateRoomParametersClient';
@@ -144,6 +211,13 @@ import {
   HParamsType,
   MeetingRoomParams,
   Message,
+  MessageDeletedData,
+  ChatReadState,
+  TypingEventData,
+  AttachmentChunk,
+  MessageReactionData,
+  ChatModerationSettings,
+  ChatModerationUpdatedData,
   Participant,
   Poll,
   ResponseJoinRoom,
@@ -184,6 +258,13 @@ import {
   Transport,
 } from 'mediasoup-client/lib/types';
 import { createResponseJoinRoom } from '../../methods/utils/createResponseJoinRoom';
+import {
+  configureMediasfuLogger,
+  getMediasfuLogger,
+  MediasfuLoggerConfig,
+} from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('room');
 
 export type MediasfuChatOptions = {
   PrejoinPage?: (
@@ -210,6 +291,17 @@ export type MediasfuChatOptions = {
   customComponent?: React.FC<{ parameters: any }>;
   containerStyle?: object;
   uiOverrides?: import('../../@types/types').MediasfuUICustomOverrides;
+  events?: MediasfuRoomEvents;
+  roomController?: MediasfuRoomController;
+  storage?: MediasfuStorage;
+  getToken?: GetTokenType;
+  onTokenExpired?: OnTokenExpiredType;
+  onError?: MediasfuErrorHandler;
+  logging?: MediasfuLoggerConfig;
+  persistChatHistory?: boolean; // Keep each room's chat, direct messages included, in `storage` across restarts and rejoins; defaults to false. Pass a `createEncryptedStorage` storage when enabling it.
+  onConnectionStateChange?: (change: ConnectionStateChange) => void;
+  connectionStateMachine?: ConnectionStateMachine;
+  reconnection?: ReconnectionConfig;
 };
 
 /**
@@ -331,6 +423,17 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
   customComponent,
   containerStyle,
   uiOverrides,
+  reconnection,
+  onConnectionStateChange,
+  connectionStateMachine: providedConnectionStateMachine,
+  events: providedRoomEvents,
+  roomController: providedRoomController,
+  storage,
+  getToken,
+  onTokenExpired,
+  onError,
+  logging,
+  persistChatHistory = false,
 }) => {
   // UI Override Components (Chat uses fewer components than others)
   const MainContainer = React.useMemo(() => withOverride(uiOverrides?.mainContainer, MainContainerComponent), [uiOverrides?.mainContainer]);
@@ -407,7 +510,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
       return response;
     } catch (error) {
       // Handle and log errors during the joinRoom process
-      console.log('error', error);
+      logger.error('error joinRoom', error);
       throw new Error(
         'Failed to join the room. Please check your connection and try again.',
       );
@@ -421,6 +524,70 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
   //validated is true if the user has entered the correct details and checked from the server
   const [validated, setValidated] = useState<boolean>(useLocalUIMode); // Validated state as boolean
 
+  // Reconnection state
+  const isReconnecting = useRef<boolean>(false); // True while the session is being resumed after a network drop
+  const [isReconnectingVisible, setIsReconnectingVisible] = useState<boolean>(false); // Drives the "Reconnecting…" overlay
+  const reconnectAttempt = useRef<number>(0); // Current reconnection attempt, 0 when idle
+  const reconnectionAborted = useRef<boolean>(false); // True once the user has left and retries must stop
+
+  // Connection state
+  const connectionStateMachine = React.useMemo(
+    () => providedConnectionStateMachine ?? createConnectionStateMachine(),
+    [providedConnectionStateMachine],
+  );
+  const [connectionState, setConnectionState] = useState<ConnectionState>(
+    connectionStateMachine.getState(),
+  ); // idle, connecting, connected, degraded, reconnecting or closed
+  const stopWatchingSocket = useRef<(() => void) | null>(null); // Removes the degraded/recovered socket listeners
+
+  // Lifecycle callbacks, read through a ref so socket handlers registered once always see the latest ones
+  const roomEvents = useRef<MediasfuRoomEvents | undefined>(providedRoomEvents);
+  roomEvents.current = providedRoomEvents;
+  const onErrorRef = useRef<MediasfuErrorHandler | undefined>(onError);
+  onErrorRef.current = onError;
+
+  const reportError = (error: unknown, details?: Record<string, unknown>) =>
+    emitMediasfuError({ onError: onErrorRef.current, error, details });
+
+  // Transport failures are reported with their code where they happen
+  const reportTransportFailures = <Args extends unknown[], Result>(
+    fn: (...args: Args) => Promise<Result>,
+    action: string,
+  ) =>
+    withMediasfuErrorReporting({
+      fn,
+      code: 'TRANSPORT_FAILED',
+      onError: (error) => onErrorRef.current?.(error),
+      details: { action },
+    });
+
+  useEffect(() => {
+    if (logging) {
+      configureMediasfuLogger(logging);
+    }
+  }, [logging]);
+
+  // Room state mirrored into a controller for the granular hooks (useParticipants, useMessages...)
+  const roomController = React.useMemo(
+    () => providedRoomController ?? createMediasfuRoomController({ connectionStateMachine }),
+    [providedRoomController, connectionStateMachine],
+  );
+
+  // Tear down only a controller created here; a provided one belongs to the caller
+  useEffect(
+    () => (providedRoomController ? undefined : () => roomController.destroy()),
+    [providedRoomController, roomController],
+  );
+
+  useEffect(() => {
+    setConnectionState(connectionStateMachine.getState());
+    return connectionStateMachine.subscribe((change) => {
+      setConnectionState(change.state);
+      roomController.setState({ connectionState: change.state });
+      onConnectionStateChange?.(change);
+    });
+  }, [connectionStateMachine, onConnectionStateChange, roomController]);
+
   // UseRef hooks with type annotations
   const localUIMode = useRef<boolean>(useLocalUIMode); // Local UI mode (desktop or touch) as boolean
   const socket = useRef<Socket>({} as Socket); // Socket for the media server, type Socket or null
@@ -714,8 +881,25 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
     setValidated(value);
   };
 
+  const updateIsReconnecting = (value: boolean) => {
+    isReconnecting.current = value;
+    setIsReconnectingVisible(value);
+  };
+
+  const updateReconnectAttempt = (value: number) => {
+    reconnectAttempt.current = value;
+  };
+
+  const updateConnectionState = (
+    value: ConnectionState,
+    details?: { reason?: string; attempt?: number },
+  ) => {
+    connectionStateMachine.transition(value, details);
+  };
+
   const updateSocket = (value: Socket) => {
     socket.current = value;
+    roomController.setState({ socket: value });
   };
 
   const updateLocalSocket = (value: Socket | null) => {
@@ -739,7 +923,12 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
   };
 
   const updateRoomName = (value: string) => {
+    const changed = value !== roomName.current;
     roomName.current = value;
+    roomController.setState({ roomName: value });
+    if (changed && value && persistChatHistory) {
+      restoreChatHistory(value);
+    }
   };
 
   const updateMember = (value: string) => {
@@ -748,6 +937,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
       value = value.split('_')[0];
     }
     member.current = value;
+    roomController.setState({ member: value });
   };
 
   const updateAdminPasscode = (value: string) => {
@@ -756,14 +946,17 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateIslevel = (value: string) => {
     islevel.current = value;
+    roomController.setState({ islevel: value });
   };
 
   const updateCoHost = (value: string) => {
     coHost.current = value;
+    roomController.setState({ coHost: value });
   };
 
   const updateCoHostResponsibility = (value: CoHostResponsibility[]) => {
     coHostResponsibility.current = value;
+    roomController.setState({ coHostResponsibility: value });
   };
 
   const updateYouAreCoHost = (value: boolean) => {
@@ -799,12 +992,25 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
         // Do nothing
       }
     }
+    roomController.setState({ eventType: value });
   };
 
   const updateParticipants = (value: Participant[]) => {
+    // an empty list means the room is being reset, not that everyone left
+    const { left } = value.length > 0
+      ? diffParticipants({ previous: participants.current, next: value })
+      : { left: [] as Participant[] };
     participants.current = value;
     filteredParticipants.current = value;
     participantsCounter.current = value.length;
+    left.forEach((participant) =>
+      emitRoomEvent({
+        events: roomEvents.current,
+        event: 'onParticipantLeft',
+        payload: { name: participant.name, participant },
+      }),
+    );
+    roomController.setState({ participants: value });
   };
 
   const updateParticipantsCounter = (value: number) => {
@@ -941,6 +1147,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateParticipantsAll = (value: Participant[]) => {
     participantsAll.current = value;
+    roomController.setState({ participantsAll: value });
   };
 
   const updateConsume_sockets = (value: ConsumeSocket[]) => {
@@ -1045,6 +1252,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateAllVideoStreams = (value: (Participant | Stream)[]) => {
     allVideoStreams.current = value;
+    roomController.setState({ allVideoStreams: value });
   };
 
   const updateNewLimitedStreams = (value: (Participant | Stream)[]) => {
@@ -1057,6 +1265,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateActiveSounds = (value: string[]) => {
     activeSounds.current = value;
+    roomController.setState({ activeSounds: value });
   };
 
   const updateScreenShareIDStream = (value: string) => {
@@ -1089,18 +1298,22 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateRecordStarted = (value: boolean) => {
     recordStarted.current = value;
+    roomController.setState({ recordStarted: value });
   };
 
   const updateRecordResumed = (value: boolean) => {
     recordResumed.current = value;
+    roomController.setState({ recordResumed: value });
   };
 
   const updateRecordPaused = (value: boolean) => {
     recordPaused.current = value;
+    roomController.setState({ recordPaused: value });
   };
 
   const updateRecordStopped = (value: boolean) => {
     recordStopped.current = value;
+    roomController.setState({ recordStopped: value });
   };
 
   const updateAdminRestrictSetting = (value: boolean) => {
@@ -1229,6 +1442,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateScreenAlreadyOn = (value: boolean) => {
     setScreenAlreadyOn(value);
+    roomController.setState({ screenAlreadyOn: value });
   };
 
   const updateChatAlreadyOn = (value: boolean) => {
@@ -1445,6 +1659,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateAllAudioStreams = (value: (Participant | Stream)[]) => {
     allAudioStreams.current = value;
+    roomController.setState({ allAudioStreams: value });
   };
 
   const updateRemoteScreenStream = (value: Stream[]) => {
@@ -1526,6 +1741,10 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
   const videoSetting = useRef<string>('allow'); // User's video setting as string
   const screenshareSetting = useRef<string>('allow'); // User's screenshare setting as string
   const chatSetting = useRef<string>('allow'); // User's chat setting as string
+  const chatModeration = useRef<ChatModerationSettings>(DEFAULT_CHAT_MODERATION); // Blocked words and slow mode of the room
+  const chatReadState = useRef<ChatReadState>({}); // When the local member last read each conversation
+  const [typingMembers, setTypingMembers] = useState<TypingEventData[]>([]); // Members typing in the room
+  const [attachmentData, setAttachmentData] = useState<{ [attachmentId: string]: string }>({}); // Chat attachments as data URIs
 
   // Display settings related variables
   const displayOption = useRef<string>(
@@ -1745,8 +1964,182 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
     useState<boolean>(false); // True if the screenboard modal should be shown
 
   // Update functions
+  const chatHistory = React.useMemo(() => createChatHistory({ storage }), [storage]);
+
   const updateMessages = (value: Message[]) => {
     messages.current = value;
+    roomController.setState({ messages: value });
+    if (persistChatHistory) {
+      chatHistory.save(roomName.current, value);
+    }
+  };
+
+  // updates made outside receiveMessage (outbox status, reactions) re-render the open chat
+  const [messagesRevision, setMessagesRevision] = useState(0);
+  const refreshMessages = (value: Message[]) => {
+    updateMessages(value);
+    setMessagesRevision((revision) => revision + 1);
+  };
+
+  // messages typed while the socket is down are queued here and resent after a reconnect
+  const chatOutbox = React.useMemo(
+    () =>
+      createChatOutbox({
+        getMessages: () => messages.current,
+        updateMessages: refreshMessages,
+      }),
+    [],
+  );
+
+  // earlier messages of the room are merged in once they are read back from storage
+  const restoreChatHistory = async (room: string) => {
+    const history = await chatHistory.load(room);
+    if (history.length > 0 && roomName.current === room) {
+      updateChatReadState(
+        markMessagesRead({ messages: history, member: member.current, readState: chatReadState.current }),
+      );
+      refreshMessages(mergeMessages(history, messages.current));
+    }
+  };
+
+  const reactToMessage = ({ message, emoji }: { message: Message; emoji: string }) => {
+    if (!socket.current) {
+      return;
+    }
+    const data = sendMessageReaction({
+      socket: socket.current,
+      roomName: roomName.current,
+      member: member.current,
+      message,
+      emoji,
+    });
+    refreshMessages(applyMessageReaction({ messages: messages.current, data }));
+  };
+
+  const deleteMessage = ({ message }: { message: Message }) => {
+    if (!socket.current) {
+      return;
+    }
+    const data = deleteMessageForEveryone({
+      socket: socket.current,
+      roomName: roomName.current,
+      message,
+      member: member.current,
+      islevel: islevel.current,
+      coHost: coHost.current,
+      coHostResponsibility: coHostResponsibility.current,
+      showAlert,
+    });
+    if (data) {
+      refreshMessages(applyMessageDeletion({ messages: messages.current, data }));
+    }
+  };
+
+  const updateChatReadState = (value: ChatReadState) => {
+    chatReadState.current = value;
+    roomController.setState({ chatReadState: value });
+    setMessagesRevision((revision) => revision + 1);
+  };
+
+  const markMessageThreadRead = ({ threadKey }: { threadKey: string }) => {
+    const value = markThreadRead({
+      readState: chatReadState.current,
+      threadKey,
+      messages: messages.current,
+      member: member.current,
+    });
+    if (value !== chatReadState.current) {
+      updateChatReadState(value);
+    }
+  };
+
+  // only the messages the member can open in the chat count as unread
+  // counted again only when the messages or the read state change, not on every render
+  const { unreadMessagesCount, unreadMentionsCount } = React.useMemo(() => {
+    const visibleMessages = getVisibleChatMessages({
+      messages: messages.current,
+      member: member.current,
+      islevel: islevel.current,
+      coHost: coHost.current,
+      coHostResponsibility: coHostResponsibility.current,
+    });
+    return {
+      unreadMessagesCount: Object.values(
+        countUnreadMessages({
+          messages: visibleMessages,
+          member: member.current,
+          readState: chatReadState.current,
+        }),
+      ).reduce((total, count) => total + count, 0),
+      // unread mentions of the member are flagged with an `@` on the badge
+      unreadMentionsCount: countUnreadMentions({
+        messages: messages.current,
+        member: member.current,
+        readState: chatReadState.current,
+      }),
+    };
+  }, [messagesRevision, messages.current, chatReadState.current, islevel.current, coHost.current, coHostResponsibility.current]);
+  const unreadMessagesBadge =
+    (unreadMentionsCount > 0 ? '@' : '') +
+    (unreadMessagesCount > 99 ? '99+' : unreadMessagesCount > 0 ? String(unreadMessagesCount) : '');
+
+  // typing events are ephemeral: a member is dropped when their events stop arriving
+  const typingTracker = React.useMemo(
+    () =>
+      createTypingTracker({
+        onChange: (value) => {
+          setTypingMembers(value);
+          roomController.setState({ typingMembers: value });
+        },
+      }),
+    [],
+  );
+  const typingNotifier = React.useMemo(() => createTypingNotifier(), []);
+  React.useEffect(() => () => typingTracker.clear(), [typingTracker]);
+
+  const updateAttachmentData = React.useCallback(
+    (attachmentId: string, data: string) => {
+      setAttachmentData((previous) => {
+        const value = addAttachmentData({ attachmentData: previous, attachmentId, data });
+        roomController.setState({ attachmentData: value });
+        return value;
+      });
+    },
+    [roomController],
+  );
+
+  // attachments arrive in chunks after the message that carries them
+  const attachmentAssembler = React.useMemo(
+    () =>
+      createAttachmentAssembler({
+        onComplete: updateAttachmentData,
+        getMaxSize: () => getAttachmentSizeLimit(roomName.current),
+      }),
+    [updateAttachmentData],
+  );
+
+  const notifyTyping = ({
+    isTyping,
+    ...options
+  }: {
+    group: boolean;
+    receivers: string[];
+    isTyping: boolean;
+  }) => {
+    if (!socket.current) {
+      return;
+    }
+    const typing = {
+      ...options,
+      socket: socket.current,
+      roomName: roomName.current,
+      member: member.current,
+    };
+    if (isTyping) {
+      typingNotifier.notify(typing);
+    } else {
+      typingNotifier.stop(typing);
+    }
   };
 
   const updateStartDirectMessage = (value: boolean) => {
@@ -1759,6 +2152,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateShowMessagesBadge = (value: boolean) => {
     setShowMessagesBadge(value);
+    roomController.setState({ showMessagesBadge: value });
   };
 
   const updateAudioSetting = (value: string) => {
@@ -1775,6 +2169,13 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateChatSetting = (value: string) => {
     chatSetting.current = value;
+    roomController.setState({ chatSetting: value });
+  };
+
+  const updateChatModeration = (value: ChatModerationSettings) => {
+    chatModeration.current = value;
+    roomController.setState({ chatModeration: value });
+    setMessagesRevision((revision) => revision + 1);
   };
 
   const updateDisplayOption = (value: string) => {
@@ -1883,6 +2284,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
     if (value === false) {
       updateShowMessagesBadge(false);
     }
+    roomController.setState({ isMessagesModalVisible: value });
   };
 
   const updateIsConfirmExitModalVisible = (value: boolean) => {
@@ -1986,6 +2388,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateRecordState = (value: string) => {
     setRecordState(value);
+    roomController.setState({ recordState: value });
   };
 
   const updateShowRecordButtons = (value: boolean) => {
@@ -1994,6 +2397,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateRecordingProgressTime = (value: string) => {
     setRecordingProgressTime(value);
+    roomController.setState({ recordingProgressTime: value });
   };
 
   const updateAudioSwitching = (value: boolean) => {
@@ -2007,11 +2411,13 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
   const updateVideoAlreadyOn = (value: boolean) => {
     videoAlreadyOn.current = value;
     setVideoActive(value);
+    roomController.setState({ videoAlreadyOn: value });
   };
 
   const updateAudioAlreadyOn = (value: boolean) => {
     audioAlreadyOn.current = value;
     setMicActive(value);
+    roomController.setState({ audioAlreadyOn: value });
   };
 
   const updateComponentSizes = (sizes: ComponentSizes) => {
@@ -2036,6 +2442,15 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
     if (cameraStatus === RESULTS.GRANTED) {
       setHasCameraPermission(true);
+    } else if (cameraStatus === RESULTS.DENIED || cameraStatus === RESULTS.BLOCKED) {
+      reportError(
+        createMediasfuError({
+          code: 'PERMISSION_DENIED',
+          message: 'Camera permission was denied.',
+          recoverable: cameraStatus === RESULTS.DENIED,
+          details: { permission: 'camera', status: cameraStatus },
+        }),
+      );
     }
 
     return cameraStatus;
@@ -2051,6 +2466,15 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
     if (audioStatus === RESULTS.GRANTED) {
       setHasAudioPermission(true);
+    } else if (audioStatus === RESULTS.DENIED || audioStatus === RESULTS.BLOCKED) {
+      reportError(
+        createMediasfuError({
+          code: 'PERMISSION_DENIED',
+          message: 'Microphone permission was denied.',
+          recoverable: audioStatus === RESULTS.DENIED,
+          details: { permission: 'microphone', status: audioStatus },
+        }),
+      );
     }
 
     return audioStatus;
@@ -2126,14 +2550,17 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updatePolls = (value: Poll[]) => {
     polls.current = value;
+    roomController.setState({ polls: value });
   };
 
   const updatePoll = (value: Poll | null) => {
     poll.current = value;
+    roomController.setState({ poll: value });
   };
 
   const updateIsPollModalVisible = (value: boolean) => {
     setIsPollModalVisible(value);
+    roomController.setState({ isPollModalVisible: value });
   };
 
   // Update functions
@@ -2195,6 +2622,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateBreakoutRooms = (value: BreakoutParticipant[][]) => {
     breakoutRooms.current = value;
+    roomController.setState({ breakoutRooms: value });
   };
 
   const updateCurrentRoomIndex = (value: number) => {
@@ -2207,14 +2635,17 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateBreakOutRoomStarted = (value: boolean) => {
     breakOutRoomStarted.current = value;
+    roomController.setState({ breakOutRoomStarted: value });
   };
 
   const updateBreakOutRoomEnded = (value: boolean) => {
     breakOutRoomEnded.current = value;
+    roomController.setState({ breakOutRoomEnded: value });
   };
 
   const updateHostNewRoom = (value: number) => {
     hostNewRoom.current = value;
+    roomController.setState({ hostNewRoom: value });
   };
 
   const updateLimitedBreakRoom = (value: BreakoutParticipant[]) => {
@@ -2231,6 +2662,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
 
   const updateIsBreakoutRoomsModalVisible = (value: boolean) => {
     setIsBreakoutRoomsModalVisible(value);
+    roomController.setState({ isBreakoutRoomsModalVisible: value });
   };
 
   const updateWhiteboardUsers = (value: WhiteboardUser[]) => {
@@ -2355,10 +2787,10 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
       rePort,
       trigger,
       consumerResume: consumerResumeFn,
-      connectSendTransport,
-      connectSendTransportAudio,
-      connectSendTransportVideo,
-      connectSendTransportScreen,
+      connectSendTransport: reportTransportFailures(connectSendTransport, 'connectSendTransport'),
+      connectSendTransportAudio: reportTransportFailures(connectSendTransportAudio, 'connectSendTransportAudio'),
+      connectSendTransportVideo: reportTransportFailures(connectSendTransportVideo, 'connectSendTransportVideo'),
+      connectSendTransportScreen: reportTransportFailures(connectSendTransportScreen, 'connectSendTransportScreen'),
       processConsumerTransports,
       resumePauseStreams,
       readjust,
@@ -2371,7 +2803,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
       changeVids,
       compareActiveNames,
       compareScreenStates,
-      createSendTransport,
+      createSendTransport: reportTransportFailures(createSendTransport, 'createSendTransport'),
       resumeSendTransportAudio,
       receiveAllPipedTransports,
       disconnectSendTransportVideo,
@@ -2379,7 +2811,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
       disconnectSendTransportScreen,
       getPipedProducersAlt,
       signalNewConsumerTransport,
-      connectRecvTransport,
+      connectRecvTransport: reportTransportFailures(connectRecvTransport, 'connectRecvTransport'),
       reUpdateInter,
       updateParticipantAudioDecibels,
       closeAndResize,
@@ -2794,6 +3226,13 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
       isScreenboardModalVisible: isScreenboardModalVisible,
 
       validated: validated,
+      isReconnecting: isReconnecting.current,
+      reconnectAttempt: reconnectAttempt.current,
+      updateIsReconnecting,
+      updateReconnectAttempt,
+      connectionState: connectionState,
+      connectionStateMachine,
+      updateConnectionState,
 
       device: device.current,
       socket: socket.current,
@@ -3227,7 +3666,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
           {/* Your icon */}
           <FontAwesome5 name="comments" size={24} color="black" />
           {/* Conditionally render a badge */}
-          {showMessagesBadge && (
+          {(showMessagesBadge || unreadMessagesCount > 0) && (
             <View
               style={{
                 position: 'absolute',
@@ -3248,7 +3687,9 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
               >
                 <Text
                   style={{ color: 'white', fontSize: 12, fontWeight: 'bold' }}
-                />
+                >
+                  {unreadMessagesBadge}
+                </Text>
               </View>
             </View>
           )}
@@ -3674,12 +4115,15 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
               updateDevice(device_);
             }
           } catch (error) {
-            console.log('error Device', error);
+            logger.error('error Device', error);
           }
         }
       } catch (error) {
-        console.log('error updateRoomParametersClient', error);
+        logger.error('error updateRoomParametersClient', error);
       }
+
+      // the room is joined: only now does the connection count as connected
+      updateConnectionState('connected', isReconnecting.current ? { reason: 'resumed' } : undefined);
     }
 
     if (data && data.success) {
@@ -3724,8 +4168,19 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
       }
 
       //might be a wrong room name or room is full or other error; check reason in data object if available
+      updateConnectionState('closed', { reason: data?.reason || 'Unable to join the room.' });
       // updateValidated(false);
       try {
+        reportError(
+          createMediasfuError({
+            code:
+              data?.banned || data?.suspended
+                ? 'BANNED'
+                : classifyMediasfuErrorMessage(data?.reason ?? ''),
+            message: data?.reason || 'Unable to join the room.',
+            details: { banned: data?.banned, suspended: data?.suspended, noAdmin: data?.noAdmin },
+          }),
+        );
         if (showAlert) {
           showAlert({ message: data!.reason!, type: 'danger', duration: 3000 });
         }
@@ -3747,7 +4202,7 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
         // Assuming each socket has a disconnect method
         socket[ip].disconnect();
       } catch (error) {
-        console.log(
+        logger.error(
           `Error disconnecting socket with IP: ${Object.keys(socket)[0]}`,
           error,
         );
@@ -3758,6 +4213,14 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
   async function closeAndReset() {
     //close and clean up all sockets, modals,... and reset all states to initial values
 
+    reconnectionAborted.current = true;
+    stopWatchingSocket.current?.();
+    stopWatchingSocket.current = null;
+    if (socket.current) {
+      stopWatchingTokenExpiry({ socket: socket.current });
+    }
+    updateConnectionState('closed');
+
     updateIsMessagesModalVisible(false);
     updateIsParticipantsModalVisible(false);
     updateIsWaitingModalVisible(false);
@@ -3792,6 +4255,86 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
     }, 500);
   }
 
+  async function resumeSession(reason: string): Promise<boolean> {
+    //rejoin the room on a fresh socket after a transient network drop instead of resetting
+    if (
+      reconnection?.enabled === false ||
+      isReconnecting.current ||
+      !isTransientDisconnect({ reason })
+    ) {
+      return false;
+    }
+
+    updateIsReconnecting(true);
+    reconnectionAborted.current = false;
+    stopWatchingSocket.current?.();
+    stopWatchingSocket.current = null;
+    updateConnectionState('reconnecting', { reason });
+    const activeMedia = captureActiveMedia({ parameters: getAllParams() });
+
+    try {
+      // stop socket.io from retrying the dropped socket in parallel
+      stopWatchingTokenExpiry({ socket: socket.current });
+      socket.current.off();
+      socket.current.disconnect();
+    } catch {
+      // the dropped socket may already be closed
+    }
+
+    const newSocket = await reconnectSocket({
+      apiUserName: apiUserName.current,
+      apiToken: apiToken.current,
+      link: link.current,
+      connectSocket,
+      localLink,
+      connectLocalSocket,
+      getToken,
+      onTokenExpired,
+      onTokenChange: updateApiToken,
+      config: reconnection,
+      onAttempt: (attempt) => {
+        updateReconnectAttempt(attempt);
+        updateConnectionState('reconnecting', { reason, attempt });
+      },
+      shouldAbort: () => reconnectionAborted.current,
+    });
+
+    if (!newSocket) {
+      if (!reconnectionAborted.current) {
+        reportError(
+          createMediasfuError({
+            code: 'NETWORK',
+            message: 'Unable to reconnect to the room.',
+            details: { reason },
+          }),
+        );
+      }
+      updateIsReconnecting(false);
+      updateReconnectAttempt(0);
+      return false;
+    }
+
+    try {
+      await resetMediaTransports({
+        parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+      });
+      updateSocket(newSocket);
+      await connect_Socket(apiUserName.current, apiToken.current);
+      chatOutbox.flush({ socket: newSocket, roomName: roomName.current });
+      await republishMedia({
+        activeMedia,
+        parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+      });
+    } catch (error) {
+      logger.error('error resumeSession', error);
+      reportError(error, { reason });
+    }
+
+    updateIsReconnecting(false);
+    updateReconnectAttempt(0);
+    return true;
+  }
+
   async function connect_Socket(
     apiUserName: string,
     token: string,
@@ -3799,15 +4342,25 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
   ): Promise<Socket | null> {
     //connect socket and attach events listeners to socket
     //Refer to https://www.mediasfu.com/documentation for full documentation of each event and its parameters as well uasage
-    const socketDefault = socket.current;
-    const socketAlt =
+    const socketDefault: MediasfuSocket = socket.current;
+    const socketAlt: MediasfuSocket =
       connectMediaSFU && localSocket.current && localSocket.current.id
         ? localSocket.current
         : socketDefault;
 
     if (socketDefault.id) {
       if (!skipSockets) {
-        socketDefault.on('disconnect', async () => {
+        stopWatchingSocket.current?.();
+        stopWatchingSocket.current = watchSocketConnection({
+          socket: socketDefault,
+          machine: connectionStateMachine,
+        });
+
+        socketDefault.on('disconnect', async (reason: string) => {
+          if (await resumeSession(reason)) {
+            return;
+          }
+
           await disconnect({
             showAlert,
             redirectURL: redirectURL.current,
@@ -3928,6 +4481,8 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
         );
 
         socketDefault.on('meetingEnded', async function () {
+          updateConnectionState('closed', { reason: 'meetingEnded' });
+          emitRoomEvent({ events: roomEvents.current, event: 'onMeetingEnded' });
           await meetingEnded({
             showAlert,
             redirectURL: redirectURL.current,
@@ -3967,6 +4522,13 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
         socketDefault.on(
           'receiveMessage',
           async ({ message }: { message: Message }) => {
+            if (chatOutbox.acknowledge(message)) {
+              return;
+            }
+            if (message.attachment) {
+              attachmentAssembler.expect(message.attachment.id);
+            }
+            typingTracker.stopTyping(message.sender);
             await receiveMessage({
               message,
               messages: messages.current,
@@ -3975,12 +4537,57 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
               eventType: eventType.current,
               islevel: islevel.current,
               coHost: coHost.current,
-              updateMessages,
+              updateMessages: refreshMessages,
               updateShowMessagesBadge,
+              chatModeration: chatModeration.current,
+              showAlert,
             });
+            emitRoomEvent({ events: roomEvents.current, event: 'onMessageReceived', payload: { message } });
           },
         );
 
+        socketDefault.on('messageReaction', (data: MessageReactionData) => {
+          refreshMessages(applyMessageReaction({ messages: messages.current, data }));
+        });
+
+        socketDefault.on('messageDeleted', (data: MessageDeletedData) => {
+          if (
+            !isDeletionAllowed({
+              data,
+              participants: participants.current,
+              coHost: coHost.current,
+              coHostResponsibility: coHostResponsibility.current,
+            })
+          ) {
+            return;
+          }
+          refreshMessages(applyMessageDeletion({ messages: messages.current, data }));
+        });
+
+        socketDefault.on('userTyping', (data: TypingEventData) => {
+          if (data.member !== member.current) {
+            typingTracker.handle(data);
+          }
+        });
+
+        socketDefault.on('attachmentChunk', (data: AttachmentChunk) => {
+          attachmentAssembler.handle(data);
+        });
+
+        socketDefault.on('chatModerationUpdated', (data: ChatModerationUpdatedData) => {
+          if (
+            !isChatModerationUpdateAllowed({
+              data,
+              participants: participants.current,
+              coHost: coHost.current,
+              coHostResponsibility: coHostResponsibility.current,
+            })
+          ) {
+            return;
+          }
+          updateChatModeration({ ...DEFAULT_CHAT_MODERATION, ...data.settings });
+        });
+
         socketDefault.on(
           'meetingTimeRemaining',
           async ({ timeRemaining }: { timeRemaining: number }) => {
@@ -4058,7 +4665,20 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
         await receiveRoomMessages({
           socket: socketDefault,
           roomName: roomName.current,
-          updateMessages,
+          // merged with restored history, and with messages still in the outbox that the room
+          // messages do not have yet
+          updateMessages: (roomMessages) =>
+            refreshMessages(
+              mergeMessages(
+                messages.current,
+                chatOutbox.restore({ roomName: roomName.current, messages: roomMessages }),
+              ),
+            ),
+        });
+        fetchChatModerationSettings({
+          socket: socketDefault,
+          roomName: roomName.current,
+          updateChatModeration,
         });
 
         if (!skipSockets) {
@@ -4091,18 +4711,22 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
         apiToken.current,
       );
       updateSocket(_socket!);
+      if (!_socket) {
+        updateConnectionState('closed');
+      }
     };
 
     if (validated) {
       try {
         if (localUIMode.current === false) {
           updateIsLoadingModalVisible(true);
+          updateConnectionState('connecting');
           connectAndAddSocketMethods();
         } else {
           updateIsLoadingModalVisible(false);
         }
       } catch (error) {
-        console.log('error connectAndAddSocketMethods', error);
+        logger.error('error connectAndAddSocketMethods', error);
       }
 
       startMeetingProgressTimer({
@@ -4121,199 +4745,230 @@ const MediasfuChat: React.FC<MediasfuChatOptions> = ({
           }
         }
       } catch {
-        console.log('error updateSourceParameters');
+        logger.error('error updateSourceParameters');
       }
     }
   }, [validated]);
 
   return (
-    <SafeAreaProvider
-      style={{
-        marginTop: Platform.OS === 'ios' ? 0 : getStatusBarHeight(),
-      }}
-    >
-      <StatusBar
-        animated
-        hidden={false}
-        networkActivityIndicatorVisible={true}
-        translucent={true} // Keep this if you want the content to show behind the status bar
-        backgroundColor="rgba(0, 0, 0, 0.2)"
-        barStyle="light-content"
-      />
-
-      {/* MainContainerComponent displays the room and controls */}
-      {/* WelcomePage is for authentication of room credentials */}
-
-      {!validated ? (
-        <PrejoinPage
-          parameters={{
-            imgSrc,
-            showAlert,
-            updateIsLoadingModalVisible,
-            connectSocket,
-            connectLocalSocket,
-            updateSocket,
-            updateLocalSocket,
-            updateValidated,
-            updateApiUserName,
-            updateApiToken,
-            updateLink,
-            updateRoomName,
-            updateMember,
-          }}
-          credentials={credentials}
-          localLink={localLink}
-          connectMediaSFU={connectMediaSFU}
-          returnUI={returnUI}
-          noUIPreJoinOptions={noUIPreJoinOptions}
-          joinMediaSFURoom={joinMediaSFURoom}
-          createMediaSFURoom={createMediaSFURoom}
+    <MediasfuRoomProvider controller={roomController}>
+      <SafeAreaProvider
+        style={{
+          marginTop: Platform.OS === 'ios' ? 0 : getStatusBarHeight(),
+        }}
+      >
+        <StatusBar
+          animated
+          hidden={false}
+          networkActivityIndicatorVisible={true}
+          translucent={true} // Keep this if you want the content to show behind the status bar
+          backgroundColor="rgba(0, 0, 0, 0.2)"
+          barStyle="light-content"
         />
-      ) : customComponent ? (
-        React.createElement(customComponent, { parameters: { ...getAllParams(), ...mediaSFUFunctions() } })
-      ) : returnUI ? (
-        <MainContainer style={containerStyle}>
-          {/* Main aspect component containsa ll but the control buttons (as used for webinar and conference) */}
-          <MainAspect
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            defaultFraction={1 - controlHeight}
-            updateIsWideScreen={updateIsWideScreen}
-            updateIsMediumScreen={updateIsMediumScreen}
-            updateIsSmallScreen={updateIsSmallScreen}
-            showControls={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-            }
-          >
-            {/* MainScreenComponent contains the main grid view and the minor grid view */}
-            <MainScreen
-              doStack={true}
-              mainSize={mainHeightWidth}
-              updateComponentSizes={updateComponentSizes}
+
+        {/* MainContainerComponent displays the room and controls */}
+        {/* WelcomePage is for authentication of room credentials */}
+
+        {!validated ? (
+          <PrejoinPage
+            parameters={{
+              imgSrc,
+              showAlert,
+              updateIsLoadingModalVisible,
+              connectSocket,
+              connectLocalSocket,
+              updateSocket,
+              updateLocalSocket,
+              updateValidated,
+              updateApiUserName,
+              updateApiToken,
+              updateLink,
+              updateRoomName,
+              updateMember,
+              storage,
+              getToken,
+              onTokenExpired,
+              onError: reportError,
+            }}
+            credentials={credentials}
+            localLink={localLink}
+            connectMediaSFU={connectMediaSFU}
+            returnUI={returnUI}
+            noUIPreJoinOptions={noUIPreJoinOptions}
+            joinMediaSFURoom={joinMediaSFURoom}
+            createMediaSFURoom={createMediaSFURoom}
+          />
+        ) : customComponent ? (
+          React.createElement(customComponent, { parameters: { ...getAllParams(), ...mediaSFUFunctions() } })
+        ) : returnUI ? (
+          <MainContainer style={containerStyle}>
+            {/* Main aspect component containsa ll but the control buttons (as used for webinar and conference) */}
+            <MainAspect
+              backgroundColor="rgba(217, 227, 234, 0.99)"
               defaultFraction={1 - controlHeight}
-              componentSizes={componentSizes.current}
+              updateIsWideScreen={updateIsWideScreen}
+              updateIsMediumScreen={updateIsMediumScreen}
+              updateIsSmallScreen={updateIsSmallScreen}
               showControls={
                 eventType.current === 'webinar' ||
                 eventType.current === 'conference'
               }
             >
-              {/* OthergridComponent shows the minor grid view - not used at all in broadcast event type */}
-              {/* OthergridComponent becomes the dominant grid view in conference (the main grid only gets re-introduced during screenshare) and chat event types */}
-              <OtherGrid
-                height={componentSizes.current.otherHeight}
-                width={componentSizes.current.otherWidth}
-                backgroundColor={'rgba(217, 227, 234, 0.99)'}
-                showAspect={mainHeightWidth === 100 ? false : true}
-                timeBackgroundColor={recordState}
-                showTimer={mainHeightWidth === 0 ? true : false}
-                meetingProgressTime={meetingProgressTime}
+              {/* MainScreenComponent contains the main grid view and the minor grid view */}
+              <MainScreen
+                doStack={true}
+                mainSize={mainHeightWidth}
+                updateComponentSizes={updateComponentSizes}
+                defaultFraction={1 - controlHeight}
+                componentSizes={componentSizes.current}
+                showControls={
+                  eventType.current === 'webinar' ||
+                  eventType.current === 'conference'
+                }
               >
-                {/* AudioGrid contains all the audio only streams */}
-                {/* If broadcasting and there are audio only streams (just one), the audio only streams are displayed in the main grid view */}
-                {/* If webinar and you are the host, the audio only streams (just one), are displayed in the main grid view */}
-                <AudioGridComponent
-                  componentsToRender={
-                    audioOnlyStreams.current ? audioOnlyStreams.current : []
-                  }
-                />
-
-                <ControlButtonsTouch
-                  buttons={controlChatButtons}
-                  position={'right'}
-                  location={'bottom'}
-                  direction={'vertical'}
-                  showAspect={eventType.current === 'chat'}
-                />
-
-                <FlexibleGridPrimary
-                  customWidth={gridSizes.current.gridWidth!}
-                  customHeight={gridSizes.current.gridHeight!}
-                  rows={gridRows}
-                  columns={gridCols}
-                  componentsToRender={otherGridStreams[0]}
+                {/* OthergridComponent shows the minor grid view - not used at all in broadcast event type */}
+                {/* OthergridComponent becomes the dominant grid view in conference (the main grid only gets re-introduced during screenshare) and chat event types */}
+                <OtherGrid
+                  height={componentSizes.current.otherHeight}
+                  width={componentSizes.current.otherWidth}
                   backgroundColor={'rgba(217, 227, 234, 0.99)'}
-                />
-              </OtherGrid>
-            </MainScreen>
-          </MainAspect>
-        </MainContainer>
-      ) : (
-        <></>
-      )}
-
-      {returnUI && (
-        <>
-          <MessagesModalComponent
-            backgroundColor={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-                ? '#f5f5f5'
-                : 'rgba(255, 255, 255, 0.25)'
-            }
-            isMessagesModalVisible={isMessagesModalVisible}
-            onMessagesClose={() => updateIsMessagesModalVisible(false)}
-            messages={messages.current}
-            eventType={eventType.current}
-            member={member.current}
-            islevel={islevel.current}
-            coHostResponsibility={coHostResponsibility.current}
-            coHost={coHost.current}
-            startDirectMessage={startDirectMessage.current}
-            directMessageDetails={directMessageDetails.current}
-            updateStartDirectMessage={updateStartDirectMessage}
-            updateDirectMessageDetails={updateDirectMessageDetails}
-            showAlert={showAlert}
-            roomName={roomName.current}
-            socket={socket.current}
-            chatSetting={chatSetting.current}
-          />
-
-          <ConfirmExitModalComponent
-            backgroundColor="rgba(181, 233, 229, 0.97)"
-            isConfirmExitModalVisible={isConfirmExitModalVisible}
-            onConfirmExitClose={() => updateIsConfirmExitModalVisible(false)}
-            member={member.current}
-            roomName={roomName.current}
-            socket={socket.current}
-            islevel={islevel.current}
-          />
-
-          <ConfirmHereModalComponent
-            backgroundColor="rgba(181, 233, 229, 0.97)"
-            isConfirmHereModalVisible={isConfirmHereModalVisible}
-            onConfirmHereClose={() => updateIsConfirmHereModalVisible(false)}
-            member={member.current}
-            roomName={roomName.current}
-            socket={socket.current}
-          />
-
-          <ShareEventModalComponent
-            isShareEventModalVisible={isShareEventModalVisible}
-            onShareEventClose={() => updateIsShareEventModalVisible(false)}
-            roomName={roomName.current}
-            islevel={islevel.current}
-            adminPasscode={adminPasscode.current}
-            eventType={eventType.current}
-            localLink={localLink}
-          />
-
-          <AlertComponentOverride
-            visible={alertVisible}
-            message={alertMessage}
-            type={alertType}
-            duration={alertDuration}
-            onHide={() => setAlertVisible(false)}
-            textColor={'#ffffff'}
-          />
-
-          <LoadingModalComponent
-            isVisible={isLoadingModalVisible}
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            displayColor="black"
-          />
-        </>
-      )}
-    </SafeAreaProvider>
+                  showAspect={mainHeightWidth === 100 ? false : true}
+                  timeBackgroundColor={recordState}
+                  showTimer={mainHeightWidth === 0 ? true : false}
+                  meetingProgressTime={meetingProgressTime}
+                >
+                  {/* AudioGrid contains all the audio only streams */}
+                  {/* If broadcasting and there are audio only streams (just one), the audio only streams are displayed in the main grid view */}
+                  {/* If webinar and you are the host, the audio only streams (just one), are displayed in the main grid view */}
+                  <AudioGridComponent
+                    componentsToRender={
+                      audioOnlyStreams.current ? audioOnlyStreams.current : []
+                    }
+                  />
+
+                  <ControlButtonsTouch
+                    buttons={controlChatButtons}
+                    position={'right'}
+                    location={'bottom'}
+                    direction={'vertical'}
+                    showAspect={eventType.current === 'chat'}
+                  />
+
+                  <FlexibleGridPrimary
+                    customWidth={gridSizes.current.gridWidth!}
+                    customHeight={gridSizes.current.gridHeight!}
+                    rows={gridRows}
+                    columns={gridCols}
+                    componentsToRender={otherGridStreams[0]}
+                    backgroundColor={'rgba(217, 227, 234, 0.99)'}
+                  />
+                </OtherGrid>
+              </MainScreen>
+            </MainAspect>
+          </MainContainer>
+        ) : (
+          <></>
+        )}
+
+        {returnUI && (
+          <>
+            <MessagesModalComponent
+              backgroundColor={
+                eventType.current === 'webinar' ||
+                eventType.current === 'conference'
+                  ? '#f5f5f5'
+                  : 'rgba(255, 255, 255, 0.25)'
+              }
+              isMessagesModalVisible={isMessagesModalVisible}
+              onMessagesClose={() => updateIsMessagesModalVisible(false)}
+              messages={messages.current}
+              chatOutbox={chatOutbox}
+              onReactToMessage={reactToMessage}
+              onDeleteMessage={deleteMessage}
+              chatModeration={chatModeration.current}
+              readState={chatReadState.current}
+              onMarkThreadRead={markMessageThreadRead}
+              typingMembers={typingMembers}
+              onTyping={notifyTyping}
+              participants={participants.current}
+              attachmentData={attachmentData}
+              updateAttachmentData={updateAttachmentData}
+              eventType={eventType.current}
+              member={member.current}
+              islevel={islevel.current}
+              coHostResponsibility={coHostResponsibility.current}
+              coHost={coHost.current}
+              startDirectMessage={startDirectMessage.current}
+              directMessageDetails={directMessageDetails.current}
+              updateStartDirectMessage={updateStartDirectMessage}
+              updateDirectMessageDetails={updateDirectMessageDetails}
+              showAlert={showAlert}
+              roomName={roomName.current}
+              socket={socket.current}
+              chatSetting={chatSetting.current}
+            />
+
+            <ConfirmExitModalComponent
+              backgroundColor="rgba(181, 233, 229, 0.97)"
+              isConfirmExitModalVisible={isConfirmExitModalVisible}
+              onConfirmExitClose={() => updateIsConfirmExitModalVisible(false)}
+              member={member.current}
+              roomName={roomName.current}
+              socket={socket.current}
+              islevel={islevel.current}
+            />
+
+            <ConfirmHereModalComponent
+              backgroundColor="rgba(181, 233, 229, 0.97)"
+              isConfirmHereModalVisible={isConfirmHereModalVisible}
+              onConfirmHereClose={() => updateIsConfirmHereModalVisible(false)}
+              member={member.current}
+              roomName={roomName.current}
+              socket={socket.current}
+            />
+
+            <ShareEventModalComponent
+              isShareEventModalVisible={isShareEventModalVisible}
+              onShareEventClose={() => updateIsShareEventModalVisible(false)}
+              roomName={roomName.current}
+              islevel={islevel.current}
+              adminPasscode={adminPasscode.current}
+              eventType={eventType.current}
+              localLink={localLink}
+            />
+
+            <AlertComponentOverride
+              visible={alertVisible}
+              message={alertMessage}
+              type={alertType}
+              duration={alertDuration}
+              onHide={() => setAlertVisible(false)}
+              textColor={'#ffffff'}
+            />
+
+            <LoadingModalComponent
+              isVisible={isLoadingModalVisible}
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              displayColor="black"
+            />
+
+            <LoadingModalComponent
+              isVisible={isReconnectingVisible && !isLoadingModalVisible}
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              displayColor="black"
+              renderContent={() => (
+                <>
+                  <ActivityIndicator size="large" color="black" />
+                  <Text style={{ color: 'black', marginTop: 10, fontSize: 16, textAlign: 'center' }}>
+                    Reconnecting…
+                  </Text>
+                </>
+              )}
+            />
+          </>
+        )}
+      </SafeAreaProvider>
+    </MediasfuRoomProvider>
   );
 };
 
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { Text, View, Pressable, Platform, Dimensions, StatusBar, StyleSheet } from 'react-native';
+import { Text, View, Pressable, Platform, Dimensions, StatusBar, StyleSheet, ActivityIndicator } from 'react-native';
 import Orientation from '../../methods/utils/orientation/orientation';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { getStatusBarHeight } from 'react-native-status-bar-height';
@@ -82,6 +82,35 @@ import { launchSettings } from '../../methods/settingsMethods/launchSettings';
 import { launchRequests } from '../../methods/requestsMethods/launchRequests';
 import { launchParticipants } from '../../methods/participantsMethods/launchParticipants';
 import { launchMessages } from '../../methods/messageMethods/launchMessages';
+import { createChatOutbox } from '../../methods/messageMethods/chatOutbox';
+import { createChatHistory, mergeMessages } from '../../methods/messageMethods/chatHistory';
+import {
+  applyMessageReaction,
+  sendMessageReaction,
+} from '../../methods/messageMethods/messageThreads';
+import {
+  applyMessageDeletion,
+  DEFAULT_CHAT_MODERATION,
+  deleteMessageForEveryone,
+  fetchChatModerationSettings,
+  isDeletionAllowed,
+  isChatModerationUpdateAllowed,
+} from '../../methods/messageMethods/chatModeration';
+import {
+  countUnreadMessages,
+  createTypingNotifier,
+  createTypingTracker,
+  markMessagesRead,
+  markThreadRead,
+} from '../../methods/messageMethods/chatPresence';
+import { countUnreadMentions } from '../../methods/messageMethods/chatMentions';
+import { getVisibleChatMessages } from '../../methods/messageMethods/chatTranscript';
+import {
+  addAttachmentData,
+  createAttachmentAssembler,
+  getAttachmentSizeLimit,
+} from '../../methods/messageMethods/chatAttachments';
+import { createPollTimer } from '../../methods/pollsMethods/pollTimer';
 import { launchPanelists } from '../../methods/panelistsMethods/launchPanelists';
 import { launchPermissions } from '../../methods/permissionsMethods/launchPermissions';
 import { launchConfirmExit } from '../../methods/exitMethods/launchConfirmExit';
@@ -100,7 +129,47 @@ import {
 } from '../../methods/utils/webrtc/webrtc';
 
 // mediasfu functions -- examples
-import { connectSocket, connectLocalSocket } from '../../sockets/SocketManager';
+import {
+  connectSocket,
+  connectLocalSocket,
+  createConnectionStateMachine,
+  watchSocketConnection,
+  stopWatchingTokenExpiry,
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionStateMachine,
+} from '../../sockets/SocketManager';
+import {
+  emitRoomEvent,
+  diffParticipants,
+  MediasfuRoomEvents,
+} from '../../methods/utils/roomEvents';
+import { MediasfuRoomProvider } from '../../contexts/MediasfuRoomContext';
+import {
+  createMediasfuRoomController,
+  MediasfuRoomController,
+} from '../../controllers/mediasfuRoomController';
+import { MediasfuStorage } from '../../methods/utils/storage/mediasfuStorage';
+import { GetTokenType, OnTokenExpiredType } from '../../sockets/socketAuth';
+import {
+  classifyMediasfuErrorMessage,
+  createMediasfuError,
+  emitMediasfuError,
+  MediasfuErrorHandler,
+  withMediasfuErrorReporting,
+} from '../../methods/utils/mediasfuError';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+import {
+  reconnectSocket,
+  isTransientDisconnect,
+  RECORDING_SOCKET_EVENTS,
+  ReconnectionConfig,
+} from '../../sockets/reconnectSocket';
+import { resetMediaTransports } from '../../consumers/resetMediaTransports';
+import {
+  captureActiveMedia,
+  republishMedia,
+} from '../../consumers/republishMedia';
 import { joinRoomClient } from '../../ProducerClient/producerClientEmits/joinRoomClient';
 import { joinLocalRoom } from '../../producers/producerEmits/joinLocalRoom';
 import { updateRoomParametersClient } from '../../ProducerClient/producerClientEmits/updateRoomParametersClient';
@@ -213,10 +282,17 @@ import {
   addedAsPanelist,
   removedFromPanelists,
   controlMedia as controlPanelistMedia,
+  AddedAsPanelistData,
+  ControlMediaData,
+  PanelistFocusChangedData,
+  PanelistsUpdatedData,
+  RemovedFromPanelistsData,
 } from '../../producers/socketReceiveMethods/panelistReceiveMethods';
 import {
   permissionUpdated,
   permissionConfigUpdated,
+  PermissionConfigUpdatedData,
+  PermissionUpdatedData,
 } from '../../producers/socketReceiveMethods/permissionReceiveMethods';
 
 import { captureCanvasStream } from '../../methods/whiteboardMethods/captureCanvasStream';
@@ -240,10 +316,17 @@ import {
   translationSubscribed,
   translationTranscript,
   translationUnsubscribed,
+  TranslationChannelsAvailableData,
+  TranslationErrorData,
   TranslationMemberStateData,
+  TranslationProducerClosedData,
   TranslationProducerMap,
+  TranslationProducerReadyData,
   TranslationRoomConfig,
+  TranslationSpeakerOutputChangedData,
+  TranslationSubscribedData,
   TranslationTranscriptData,
+  TranslationUnsubscribedData,
 } from '../../producers/socketReceiveMethods/translationReceiveMethods';
 import {
   pruneExpiredSubtitles,
@@ -262,6 +345,13 @@ import {
   HParamsType,
   MeetingRoomParams,
   Message,
+  MessageDeletedData,
+  ChatReadState,
+  TypingEventData,
+  AttachmentChunk,
+  MessageReactionData,
+  ChatModerationSettings,
+  ChatModerationUpdatedData,
   Participant,
   Poll,
   ResponseJoinRoom,
@@ -311,6 +401,13 @@ import {
   Transport,
 } from 'mediasoup-client/lib/types';
 import { createResponseJoinRoom } from '../../methods/utils/createResponseJoinRoom';
+import {
+  configureMediasfuLogger,
+  getMediasfuLogger,
+  MediasfuLoggerConfig,
+} from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('room');
 
 type NativeSidebarContent =
   | 'none'
@@ -361,6 +458,17 @@ export type MediasfuGenericOptions = {
   containerStyle?: object; // React Native ViewStyle
   useModernUI?: boolean;
   uiOverrides?: import('../../@types/types').MediasfuUICustomOverrides;
+  events?: MediasfuRoomEvents;
+  roomController?: MediasfuRoomController;
+  storage?: MediasfuStorage;
+  getToken?: GetTokenType;
+  onTokenExpired?: OnTokenExpiredType;
+  onError?: MediasfuErrorHandler;
+  logging?: MediasfuLoggerConfig;
+  persistChatHistory?: boolean; // Keep each room's chat, direct messages included, in `storage` across restarts and rejoins; defaults to false. Pass a `createEncryptedStorage` storage when enabling it.
+  onConnectionStateChange?: (change: ConnectionStateChange) => void;
+  connectionStateMachine?: ConnectionStateMachine;
+  reconnection?: ReconnectionConfig;
 };
 
 /**
@@ -484,6 +592,17 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   containerStyle,
   useModernUI = true,
   uiOverrides: providedUIOverrides,
+  reconnection,
+  onConnectionStateChange,
+  connectionStateMachine: providedConnectionStateMachine,
+  events: providedRoomEvents,
+  roomController: providedRoomController,
+  storage,
+  getToken,
+  onTokenExpired,
+  onError,
+  logging,
+  persistChatHistory = false,
 }) => {
   const [isDarkMode, setIsDarkMode] = useState<boolean>(true);
   const updateIsDarkMode = (value: boolean) => setIsDarkMode(value);
@@ -788,7 +907,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       return response;
     } catch (error) {
       // Handle and log errors during the joinRoom process
-      console.log('error', error);
+      logger.error('error joinRoom', error);
       throw new Error(
         'Failed to join the room. Please check your connection and try again.',
       );
@@ -802,6 +921,71 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   //validated is true if the user has entered the correct details and checked from the server
   const [validated, setValidated] = useState<boolean>(useLocalUIMode); // Validated state as boolean
 
+  // Reconnection state
+  const isReconnecting = useRef<boolean>(false); // True while the session is being resumed after a network drop
+  const [isReconnectingVisible, setIsReconnectingVisible] = useState<boolean>(false); // Drives the "Reconnecting…" overlay
+  const reconnectAttempt = useRef<number>(0); // Current reconnection attempt, 0 when idle
+  const reconnectionAborted = useRef<boolean>(false); // True once the user has left and retries must stop
+
+  // Connection state
+  const connectionStateMachine = React.useMemo(
+    () => providedConnectionStateMachine ?? createConnectionStateMachine(),
+    [providedConnectionStateMachine],
+  );
+  const [connectionState, setConnectionState] = useState<ConnectionState>(
+    connectionStateMachine.getState(),
+  ); // idle, connecting, connected, degraded, reconnecting or closed
+  const stopWatchingSocket = useRef<(() => void) | null>(null); // Removes the degraded/recovered socket listeners
+
+  // Lifecycle callbacks, read through a ref so socket handlers registered once always see the latest ones
+  const roomEvents = useRef<MediasfuRoomEvents | undefined>(providedRoomEvents);
+  roomEvents.current = providedRoomEvents;
+  const onErrorRef = useRef<MediasfuErrorHandler | undefined>(onError);
+  onErrorRef.current = onError;
+
+  const reportError = (error: unknown, details?: Record<string, unknown>) =>
+    emitMediasfuError({ onError: onErrorRef.current, error, details });
+
+  // Transport failures are reported with their code where they happen
+  const reportTransportFailures = <Args extends unknown[], Result>(
+    fn: (...args: Args) => Promise<Result>,
+    action: string,
+  ) =>
+    withMediasfuErrorReporting({
+      fn,
+      code: 'TRANSPORT_FAILED',
+      onError: (error) => onErrorRef.current?.(error),
+      details: { action },
+    });
+
+  useEffect(() => {
+    if (logging) {
+      configureMediasfuLogger(logging);
+    }
+  }, [logging]);
+
+  // Room state mirrored into a controller for the granular hooks (useParticipants, useMessages...)
+  const roomController = React.useMemo(
+    () => providedRoomController ?? createMediasfuRoomController({ connectionStateMachine }),
+    [providedRoomController, connectionStateMachine],
+  );
+
+  // Tear down only a controller created here; a provided one belongs to the caller
+  useEffect(
+    () => (providedRoomController ? undefined : () => roomController.destroy()),
+    [providedRoomController, roomController],
+  );
+  const lastRecordingNoticeState = useRef<string>(''); // Last RecordingNotice state, used to report recording starts once
+
+  useEffect(() => {
+    setConnectionState(connectionStateMachine.getState());
+    return connectionStateMachine.subscribe((change) => {
+      setConnectionState(change.state);
+      roomController.setState({ connectionState: change.state });
+      onConnectionStateChange?.(change);
+    });
+  }, [connectionStateMachine, onConnectionStateChange, roomController]);
+
   // UseRef hooks with type annotations
   const localUIMode = useRef<boolean>(useLocalUIMode); // Local UI mode (desktop or touch) as boolean
   const socket = useRef<Socket>({} as Socket); // Socket for the media server, type Socket or null
@@ -1107,8 +1291,25 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
     setValidated(value);
   };
 
+  const updateIsReconnecting = (value: boolean) => {
+    isReconnecting.current = value;
+    setIsReconnectingVisible(value);
+  };
+
+  const updateReconnectAttempt = (value: number) => {
+    reconnectAttempt.current = value;
+  };
+
+  const updateConnectionState = (
+    value: ConnectionState,
+    details?: { reason?: string; attempt?: number },
+  ) => {
+    connectionStateMachine.transition(value, details);
+  };
+
   const updateSocket = (value: Socket) => {
     socket.current = value;
+    roomController.setState({ socket: value });
   };
 
   const updateLocalSocket = (value: Socket | null) => {
@@ -1132,7 +1333,12 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   };
 
   const updateRoomName = (value: string) => {
+    const changed = value !== roomName.current;
     roomName.current = value;
+    roomController.setState({ roomName: value });
+    if (changed && value && persistChatHistory) {
+      restoreChatHistory(value);
+    }
   };
 
   const updateMember = (value: string) => {
@@ -1141,6 +1347,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       value = value.split('_')[0];
     }
     member.current = value;
+    roomController.setState({ member: value });
   };
 
   const updateAdminPasscode = (value: string) => {
@@ -1149,14 +1356,17 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateIslevel = (value: string) => {
     islevel.current = value;
+    roomController.setState({ islevel: value });
   };
 
   const updateCoHost = (value: string) => {
     coHost.current = value;
+    roomController.setState({ coHost: value });
   };
 
   const updateCoHostResponsibility = (value: CoHostResponsibility[]) => {
     coHostResponsibility.current = value;
+    roomController.setState({ coHostResponsibility: value });
   };
 
   const updateYouAreCoHost = (value: boolean) => {
@@ -1192,12 +1402,25 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
         // Do nothing
       }
     }
+    roomController.setState({ eventType: value });
   };
 
   const updateParticipants = (value: Participant[]) => {
+    // an empty list means the room is being reset, not that everyone left
+    const { left } = value.length > 0
+      ? diffParticipants({ previous: participants.current, next: value })
+      : { left: [] as Participant[] };
     participants.current = value;
     filteredParticipants.current = value;
     participantsCounter.current = value.length;
+    left.forEach((participant) =>
+      emitRoomEvent({
+        events: roomEvents.current,
+        event: 'onParticipantLeft',
+        payload: { name: participant.name, participant },
+      }),
+    );
+    roomController.setState({ participants: value });
   };
 
   const updateParticipantsCounter = (value: number) => {
@@ -1334,6 +1557,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateParticipantsAll = (value: Participant[]) => {
     participantsAll.current = value;
+    roomController.setState({ participantsAll: value });
   };
 
   const updateConsume_sockets = (value: ConsumeSocket[]) => {
@@ -1439,6 +1663,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateAllVideoStreams = (value: (Participant | Stream)[]) => {
     allVideoStreams.current = value;
+    roomController.setState({ allVideoStreams: value });
   };
 
   const updateNewLimitedStreams = (value: (Participant | Stream)[]) => {
@@ -1451,6 +1676,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateActiveSounds = (value: string[]) => {
     activeSounds.current = value;
+    roomController.setState({ activeSounds: value });
   };
 
   const updateScreenShareIDStream = (value: string) => {
@@ -1483,18 +1709,22 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateRecordStarted = (value: boolean) => {
     recordStarted.current = value;
+    roomController.setState({ recordStarted: value });
   };
 
   const updateRecordResumed = (value: boolean) => {
     recordResumed.current = value;
+    roomController.setState({ recordResumed: value });
   };
 
   const updateRecordPaused = (value: boolean) => {
     recordPaused.current = value;
+    roomController.setState({ recordPaused: value });
   };
 
   const updateRecordStopped = (value: boolean) => {
     recordStopped.current = value;
+    roomController.setState({ recordStopped: value });
   };
 
   const updateAdminRestrictSetting = (value: boolean) => {
@@ -1623,6 +1853,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateScreenAlreadyOn = (value: boolean) => {
     setScreenAlreadyOn(value);
+    roomController.setState({ screenAlreadyOn: value });
   };
 
   const updateChatAlreadyOn = (value: boolean) => {
@@ -1839,6 +2070,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateAllAudioStreams = (value: (Participant | Stream)[]) => {
     allAudioStreams.current = value;
+    roomController.setState({ allAudioStreams: value });
   };
 
   const updateRemoteScreenStream = (value: Stream[]) => {
@@ -1943,6 +2175,10 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   const videoSetting = useRef<string>('allow'); // User's video setting as string
   const screenshareSetting = useRef<string>('allow'); // User's screenshare setting as string
   const chatSetting = useRef<string>('allow'); // User's chat setting as string
+  const chatModeration = useRef<ChatModerationSettings>(DEFAULT_CHAT_MODERATION); // Blocked words and slow mode of the room
+  const chatReadState = useRef<ChatReadState>({}); // When the local member last read each conversation
+  const [typingMembers, setTypingMembers] = useState<TypingEventData[]>([]); // Members typing in the room
+  const [attachmentData, setAttachmentData] = useState<{ [attachmentId: string]: string }>({}); // Chat attachments as data URIs
 
   // Display settings related variables
   const displayOption = useRef<string>(
@@ -2243,8 +2479,204 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
     useState<boolean>(false); // True if the screenboard modal should be shown
 
   // Update functions
+  const chatHistory = React.useMemo(() => createChatHistory({ storage }), [storage]);
+
   const updateMessages = (value: Message[]) => {
     messages.current = value;
+    roomController.setState({ messages: value });
+    if (persistChatHistory) {
+      chatHistory.save(roomName.current, value);
+    }
+  };
+
+  // updates made outside receiveMessage (outbox status, reactions) re-render the open chat
+  const [messagesRevision, setMessagesRevision] = useState(0);
+  const refreshMessages = (value: Message[]) => {
+    updateMessages(value);
+    setMessagesRevision((revision) => revision + 1);
+  };
+
+  // messages typed while the socket is down are queued here and resent after a reconnect
+  const chatOutbox = React.useMemo(
+    () =>
+      createChatOutbox({
+        getMessages: () => messages.current,
+        updateMessages: refreshMessages,
+      }),
+    [],
+  );
+
+  // earlier messages of the room are merged in once they are read back from storage
+  const restoreChatHistory = async (room: string) => {
+    const history = await chatHistory.load(room);
+    if (history.length > 0 && roomName.current === room) {
+      updateChatReadState(
+        markMessagesRead({ messages: history, member: member.current, readState: chatReadState.current }),
+      );
+      refreshMessages(mergeMessages(history, messages.current));
+    }
+  };
+
+  const reactToMessage = ({ message, emoji }: { message: Message; emoji: string }) => {
+    if (!socket.current) {
+      return;
+    }
+    const data = sendMessageReaction({
+      socket: socket.current,
+      roomName: roomName.current,
+      member: member.current,
+      message,
+      emoji,
+    });
+    refreshMessages(applyMessageReaction({ messages: messages.current, data }));
+  };
+
+  const deleteMessage = ({ message }: { message: Message }) => {
+    if (!socket.current) {
+      return;
+    }
+    const data = deleteMessageForEveryone({
+      socket: socket.current,
+      roomName: roomName.current,
+      message,
+      member: member.current,
+      islevel: islevel.current,
+      coHost: coHost.current,
+      coHostResponsibility: coHostResponsibility.current,
+      showAlert,
+    });
+    if (data) {
+      refreshMessages(applyMessageDeletion({ messages: messages.current, data }));
+    }
+  };
+
+  const updateChatReadState = (value: ChatReadState) => {
+    chatReadState.current = value;
+    roomController.setState({ chatReadState: value });
+    setMessagesRevision((revision) => revision + 1);
+  };
+
+  const markMessageThreadRead = ({ threadKey }: { threadKey: string }) => {
+    const value = markThreadRead({
+      readState: chatReadState.current,
+      threadKey,
+      messages: messages.current,
+      member: member.current,
+    });
+    if (value !== chatReadState.current) {
+      updateChatReadState(value);
+    }
+  };
+
+  // only the messages the member can open in the chat count as unread
+  // counted again only when the messages or the read state change, not on every render
+  const { unreadMessagesCount, unreadMentionsCount } = React.useMemo(() => {
+    const visibleMessages = getVisibleChatMessages({
+      messages: messages.current,
+      member: member.current,
+      islevel: islevel.current,
+      coHost: coHost.current,
+      coHostResponsibility: coHostResponsibility.current,
+    });
+    return {
+      unreadMessagesCount: Object.values(
+        countUnreadMessages({
+          messages: visibleMessages,
+          member: member.current,
+          readState: chatReadState.current,
+        }),
+      ).reduce((total, count) => total + count, 0),
+      // unread mentions of the member are flagged with an `@` on the badge
+      unreadMentionsCount: countUnreadMentions({
+        messages: messages.current,
+        member: member.current,
+        readState: chatReadState.current,
+      }),
+    };
+  }, [messagesRevision, messages.current, chatReadState.current, islevel.current, coHost.current, coHostResponsibility.current]);
+  const unreadMessagesBadge =
+    (unreadMentionsCount > 0 ? '@' : '') +
+    (unreadMessagesCount > 99 ? '99+' : unreadMessagesCount > 0 ? String(unreadMessagesCount) : '');
+
+  // typing events are ephemeral: a member is dropped when their events stop arriving
+  const typingTracker = React.useMemo(
+    () =>
+      createTypingTracker({
+        onChange: (value) => {
+          setTypingMembers(value);
+          roomController.setState({ typingMembers: value });
+        },
+      }),
+    [],
+  );
+  const typingNotifier = React.useMemo(() => createTypingNotifier(), []);
+  React.useEffect(() => () => typingTracker.clear(), [typingTracker]);
+
+  const updateAttachmentData = React.useCallback(
+    (attachmentId: string, data: string) => {
+      setAttachmentData((previous) => {
+        const value = addAttachmentData({ attachmentData: previous, attachmentId, data });
+        roomController.setState({ attachmentData: value });
+        return value;
+      });
+    },
+    [roomController],
+  );
+
+  // attachments arrive in chunks after the message that carries them
+  const attachmentAssembler = React.useMemo(
+    () =>
+      createAttachmentAssembler({
+        onComplete: updateAttachmentData,
+        getMaxSize: () => getAttachmentSizeLimit(roomName.current),
+      }),
+    [updateAttachmentData],
+  );
+
+  // timed polls warn voters before they close, and the host ends them when time is up
+  const pollTimer = React.useMemo(
+    () =>
+      createPollTimer({
+        onWarning: (secondsLeft) =>
+          showAlert({ message: `The poll closes in ${secondsLeft} seconds`, type: 'success' }),
+        onExpire: (expiredPoll) => {
+          if (islevel.current === '2') {
+            handleEndPoll({
+              pollId: expiredPoll.id,
+              socket: socket.current,
+              showAlert,
+              roomName: roomName.current,
+              updateIsPollModalVisible: updatePollSurfaceVisibility,
+            });
+          }
+        },
+      }),
+    [],
+  );
+  React.useEffect(() => () => pollTimer.clear(), [pollTimer]);
+
+  const notifyTyping = ({
+    isTyping,
+    ...options
+  }: {
+    group: boolean;
+    receivers: string[];
+    isTyping: boolean;
+  }) => {
+    if (!socket.current) {
+      return;
+    }
+    const typing = {
+      ...options,
+      socket: socket.current,
+      roomName: roomName.current,
+      member: member.current,
+    };
+    if (isTyping) {
+      typingNotifier.notify(typing);
+    } else {
+      typingNotifier.stop(typing);
+    }
   };
 
   const updateStartDirectMessage = (value: boolean) => {
@@ -2257,6 +2689,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateShowMessagesBadge = (value: boolean) => {
     setShowMessagesBadge(value);
+    roomController.setState({ showMessagesBadge: value });
   };
 
   const updateAudioSetting = (value: string) => {
@@ -2273,6 +2706,13 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateChatSetting = (value: string) => {
     chatSetting.current = value;
+    roomController.setState({ chatSetting: value });
+  };
+
+  const updateChatModeration = (value: ChatModerationSettings) => {
+    chatModeration.current = value;
+    roomController.setState({ chatModeration: value });
+    setMessagesRevision((revision) => revision + 1);
   };
 
   const updateDisplayOption = (value: string) => {
@@ -2433,6 +2873,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
     if (value === false) {
       updateShowMessagesBadge(false);
     }
+    roomController.setState({ isMessagesModalVisible: value });
   };
 
   const updateIsPanelistsModalVisible = (value: boolean) => {
@@ -2722,6 +3163,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateRecordState = (value: string) => {
     setRecordState(value);
+    roomController.setState({ recordState: value });
   };
 
   const updateShowRecordButtons = (value: boolean) => {
@@ -2730,6 +3172,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateRecordingProgressTime = (value: string) => {
     setRecordingProgressTime(value);
+    roomController.setState({ recordingProgressTime: value });
   };
 
   const updateAudioSwitching = (value: boolean) => {
@@ -2743,11 +3186,13 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   const updateVideoAlreadyOn = (value: boolean) => {
     videoAlreadyOn.current = value;
     setVideoActive(value);
+    roomController.setState({ videoAlreadyOn: value });
   };
 
   const updateAudioAlreadyOn = (value: boolean) => {
     audioAlreadyOn.current = value;
     setMicActive(value);
+    roomController.setState({ audioAlreadyOn: value });
   };
 
   const updateComponentSizes = (sizes: ComponentSizes) => {
@@ -2921,7 +3366,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       },
       (response: { success: boolean; error?: string }) => {
         if (!response?.success) {
-          console.warn(
+          logger.warn(
             `[Translation] Failed to sync listener preference: ${response?.error}`,
           );
         }
@@ -2990,7 +3435,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       },
       (response: { success: boolean; error?: string }) => {
         if (!response?.success) {
-          console.warn(
+          logger.warn(
             `[Translation] Failed to sync global preference: ${response?.error}`,
           );
         }
@@ -3058,6 +3503,15 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
     if (cameraStatus === RESULTS.GRANTED) {
       setHasCameraPermission(true);
+    } else if (cameraStatus === RESULTS.DENIED || cameraStatus === RESULTS.BLOCKED) {
+      reportError(
+        createMediasfuError({
+          code: 'PERMISSION_DENIED',
+          message: 'Camera permission was denied.',
+          recoverable: cameraStatus === RESULTS.DENIED,
+          details: { permission: 'camera', status: cameraStatus },
+        }),
+      );
     }
 
     return cameraStatus;
@@ -3073,6 +3527,15 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
     if (audioStatus === RESULTS.GRANTED) {
       setHasAudioPermission(true);
+    } else if (audioStatus === RESULTS.DENIED || audioStatus === RESULTS.BLOCKED) {
+      reportError(
+        createMediasfuError({
+          code: 'PERMISSION_DENIED',
+          message: 'Microphone permission was denied.',
+          recoverable: audioStatus === RESULTS.DENIED,
+          details: { permission: 'microphone', status: audioStatus },
+        }),
+      );
     }
 
     return audioStatus;
@@ -3149,15 +3612,18 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   const updatePolls = (value: Poll[]) => {
     polls.current = value;
     setPollUiVersion((previous) => previous + 1);
+    roomController.setState({ polls: value });
   };
 
   const updatePoll = (value: Poll | null) => {
     poll.current = value;
     setPollUiVersion((previous) => previous + 1);
+    roomController.setState({ poll: value });
   };
 
   const updateIsPollModalVisible = (value: boolean) => {
     setIsPollModalVisible(value);
+    roomController.setState({ isPollModalVisible: value });
   };
 
   // Update functions
@@ -3223,6 +3689,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateBreakoutRooms = (value: BreakoutParticipant[][]) => {
     breakoutRooms.current = value;
+    roomController.setState({ breakoutRooms: value });
   };
 
   const updateCurrentRoomIndex = (value: number) => {
@@ -3235,14 +3702,17 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateBreakOutRoomStarted = (value: boolean) => {
     breakOutRoomStarted.current = value;
+    roomController.setState({ breakOutRoomStarted: value });
   };
 
   const updateBreakOutRoomEnded = (value: boolean) => {
     breakOutRoomEnded.current = value;
+    roomController.setState({ breakOutRoomEnded: value });
   };
 
   const updateHostNewRoom = (value: number) => {
     hostNewRoom.current = value;
+    roomController.setState({ hostNewRoom: value });
   };
 
   const updateLimitedBreakRoom = (value: BreakoutParticipant[]) => {
@@ -3259,6 +3729,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
 
   const updateIsBreakoutRoomsModalVisible = (value: boolean) => {
     setIsBreakoutRoomsModalVisible(value);
+    roomController.setState({ isBreakoutRoomsModalVisible: value });
   };
 
   const updateWhiteboardUsers = (value: WhiteboardUser[]) => {
@@ -3385,10 +3856,10 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       rePort,
       trigger,
       consumerResume: consumerResumeFn,
-      connectSendTransport,
-      connectSendTransportAudio,
-      connectSendTransportVideo,
-      connectSendTransportScreen,
+      connectSendTransport: reportTransportFailures(connectSendTransport, 'connectSendTransport'),
+      connectSendTransportAudio: reportTransportFailures(connectSendTransportAudio, 'connectSendTransportAudio'),
+      connectSendTransportVideo: reportTransportFailures(connectSendTransportVideo, 'connectSendTransportVideo'),
+      connectSendTransportScreen: reportTransportFailures(connectSendTransportScreen, 'connectSendTransportScreen'),
       processConsumerTransports,
       resumePauseStreams,
       readjust,
@@ -3401,7 +3872,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       changeVids,
       compareActiveNames,
       compareScreenStates,
-      createSendTransport,
+      createSendTransport: reportTransportFailures(createSendTransport, 'createSendTransport'),
       resumeSendTransportAudio,
       receiveAllPipedTransports,
       disconnectSendTransportVideo,
@@ -3409,7 +3880,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       disconnectSendTransportScreen,
       getPipedProducersAlt,
       signalNewConsumerTransport,
-      connectRecvTransport,
+      connectRecvTransport: reportTransportFailures(connectRecvTransport, 'connectRecvTransport'),
       reUpdateInter,
       updateParticipantAudioDecibels,
       closeAndResize,
@@ -3867,6 +4338,13 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       isScreenboardModalVisible: isScreenboardModalVisible,
 
       validated: validated,
+      isReconnecting: isReconnecting.current,
+      reconnectAttempt: reconnectAttempt.current,
+      updateIsReconnecting,
+      updateReconnectAttempt,
+      connectionState: connectionState,
+      connectionStateMachine,
+      updateConnectionState,
 
       device: device.current,
       socket: socket.current,
@@ -4303,6 +4781,27 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
     setAlertVisible(true);
   };
 
+  // The recording methods only surface their limits as alerts; report those as typed errors too
+  const showRecordingAlert: typeof showAlert = (alert) => {
+    showAlert(alert);
+    if (alert.type === 'danger') {
+      reportError(
+        createMediasfuError({
+          code: 'RECORDING_LIMIT',
+          message: alert.message,
+          details: { source: 'recording' },
+        }),
+      );
+    }
+  };
+
+  const getRecordingParams = () => ({
+    ...getAllParams(),
+    ...mediaSFUFunctions(),
+    showAlert: showRecordingAlert,
+    getUpdatedAllParams: () => ({ ...getUpdatedAllParams(), showAlert: showRecordingAlert }),
+  });
+
   const closeSidebarManagedModals = () => {
     updateIsMenuModalVisible(false);
     updateIsParticipantsModalVisible(false);
@@ -4715,7 +5214,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       active: recordPaused.current === false,
       onPress: () => {
         updateRecording({
-          parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+          parameters: getRecordingParams(),
         });
       },
       activeColor: neutralControlIconColor,
@@ -4729,7 +5228,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       active: false,
       onPress: () => {
         stopRecording({
-          parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+          parameters: getRecordingParams(),
         });
       },
       activeColor: 'green',
@@ -4765,7 +5264,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       // name: 'Status',
       icon: 'dot-circle',
       active: false,
-      onPress: () => console.log('Status pressed'),
+      onPress: () => logger.debug('Status pressed'),
       activeColor: neutralControlIconColor,
       inActiveColor: recordPaused.current === false ? 'red' : 'yellow',
       show: true,
@@ -4847,7 +5346,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       ),
       show: showRecordButtons && islevel.current === '2',
       action: () => {
-        console.log('record buttons pressed');
+        logger.debug('record buttons pressed');
       },
     },
     {
@@ -5077,7 +5576,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           {/* Your icon */}
           <FontAwesome5 name="comments" size={24} color={isDarkMode ? 'white' : 'black'} />
           {/* Conditionally render a badge */}
-          {showMessagesBadge && (
+          {(showMessagesBadge || unreadMessagesCount > 0) && (
             <View
               style={{
                 position: 'absolute',
@@ -5098,7 +5597,9 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
               >
                 <Text
                   style={{ color: 'white', fontSize: 12, fontWeight: 'bold' }}
-                />
+                >
+                  {unreadMessagesBadge}
+                </Text>
               </View>
             </View>
           )}
@@ -5184,7 +5685,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       // name: 'End Call',
       icon: 'phone',
       active: endCallActive,
-      onPress: () => console.log('End Call pressed'), // not in use
+      onPress: () => logger.debug('End Call pressed'), // not in use
       activeColor: 'transparent',
       inActiveColor: 'transparent',
       backgroundColor: { default: 'transparent' },
@@ -5221,7 +5722,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           {/* Your icon */}
           <FontAwesome5 name="comments" size={24} color={isDarkMode ? 'white' : 'black'} />
           {/* Conditionally render a badge */}
-          {showMessagesBadge && (
+          {(showMessagesBadge || unreadMessagesCount > 0) && (
             <View
               style={{
                 position: 'absolute',
@@ -5242,7 +5743,9 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
               >
                 <Text
                   style={{ color: 'white', fontSize: 12, fontWeight: 'bold' }}
-                />
+                >
+                  {unreadMessagesBadge}
+                </Text>
               </View>
             </View>
           )}
@@ -5500,7 +6003,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           {/* Your icon */}
           <FontAwesome5 name="comments" size={24} color={isDarkMode ? 'white' : 'black'} />
           {/* Conditionally render a badge */}
-          {showMessagesBadge && (
+          {(showMessagesBadge || unreadMessagesCount > 0) && (
             <View
               style={{
                 position: 'absolute',
@@ -5522,7 +6025,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
                 <Text
                   style={{ color: 'white', fontSize: 8, fontWeight: 'bold' }}
                 >
-                  *
+                  {unreadMessagesBadge || '*'}
                 </Text>
               </View>
             </View>
@@ -5754,6 +6257,17 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
             isMessagesModalVisible={isMessagesModalVisible}
             onMessagesClose={closeSidebar}
             messages={messages.current}
+            chatOutbox={chatOutbox}
+            onReactToMessage={reactToMessage}
+            onDeleteMessage={deleteMessage}
+            chatModeration={chatModeration.current}
+            readState={chatReadState.current}
+            onMarkThreadRead={markMessageThreadRead}
+            typingMembers={typingMembers}
+            onTyping={notifyTyping}
+            participants={participants.current}
+            attachmentData={attachmentData}
+            updateAttachmentData={updateAttachmentData}
             eventType={eventType.current}
             member={member.current}
             islevel={islevel.current}
@@ -5869,7 +6383,10 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
             updateVideoSetting={updateVideoSetting}
             updateScreenshareSetting={updateScreenshareSetting}
             updateChatSetting={updateChatSetting}
+            chatModeration={chatModeration.current}
+            updateChatModeration={updateChatModeration}
             roomName={roomName.current}
+            member={member.current}
             socket={socket.current}
           />
         );
@@ -5882,10 +6399,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
             onClose={closeSidebar}
             startRecording={startRecording}
             confirmRecording={confirmRecording}
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
+            parameters={getRecordingParams()}
           />
         );
       case 'polls':
@@ -5896,11 +6410,13 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
             onClose={closeSidebar}
             member={member.current}
             islevel={islevel.current}
+            youAreCoHost={youAreCoHost.current}
             polls={polls.current}
             poll={poll.current}
             socket={socket.current}
             roomName={roomName.current}
             showAlert={showAlert}
+            storage={storage}
             updateIsPollModalVisible={updatePollSurfaceVisibility}
             handleCreatePoll={handleCreatePoll}
             handleEndPoll={handleEndPoll}
@@ -6532,12 +7048,15 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
               updateDevice(device_);
             }
           } catch (error) {
-            console.log('error Device', error);
+            logger.error('error Device', error);
           }
         }
       } catch (error) {
-        console.log('error updateRoomParametersClient', error);
+        logger.error('error updateRoomParametersClient', error);
       }
+
+      // the room is joined: only now does the connection count as connected
+      updateConnectionState('connected', isReconnecting.current ? { reason: 'resumed' } : undefined);
     }
 
     if (data && data.success) {
@@ -6579,6 +7098,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
         // join local room only
         if (!roomData.current) {
           updateIsLoadingModalVisible(false);
+          updateConnectionState('closed', { reason: data?.reason || 'Unable to complete room setup.' });
           showAlert?.({
             message: data?.reason || 'Unable to complete room setup.',
             type: 'danger',
@@ -6592,8 +7112,19 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
       }
 
       //might be a wrong room name or room is full or other error; check reason in data object if available
+      updateConnectionState('closed', { reason: data?.reason || 'Unable to join the room.' });
       // updateValidated(false);
       try {
+        reportError(
+          createMediasfuError({
+            code:
+              data?.banned || data?.suspended
+                ? 'BANNED'
+                : classifyMediasfuErrorMessage(data?.reason ?? ''),
+            message: data?.reason || 'Unable to join the room.',
+            details: { banned: data?.banned, suspended: data?.suspended, noAdmin: data?.noAdmin },
+          }),
+        );
         if (showAlert) {
           showAlert({ message: data!.reason!, type: 'danger', duration: 3000 });
         }
@@ -6615,7 +7146,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
         // Assuming each socket has a disconnect method
         socket[ip].disconnect();
       } catch (error) {
-        console.log(
+        logger.error(
           `Error disconnecting socket with IP: ${Object.keys(socket)[0]}`,
           error,
         );
@@ -6626,6 +7157,14 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   async function closeAndReset() {
     //close and clean up all sockets, modals,... and reset all states to initial values
 
+    reconnectionAborted.current = true;
+    stopWatchingSocket.current?.();
+    stopWatchingSocket.current = null;
+    if (socket.current) {
+      stopWatchingTokenExpiry({ socket: socket.current });
+    }
+    updateConnectionState('closed');
+
     updateIsMessagesModalVisible(false);
     updateIsPanelistsModalVisible(false);
     updateIsPermissionsModalVisible(false);
@@ -6682,6 +7221,90 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
     }, 500);
   }
 
+  async function resumeSession(reason: string): Promise<boolean> {
+    //rejoin the room on a fresh socket after a transient network drop instead of resetting
+    if (
+      reconnection?.enabled === false ||
+      isReconnecting.current ||
+      !isTransientDisconnect({ reason })
+    ) {
+      return false;
+    }
+
+    updateIsReconnecting(true);
+    reconnectionAborted.current = false;
+    stopWatchingSocket.current?.();
+    stopWatchingSocket.current = null;
+    updateConnectionState('reconnecting', { reason });
+    const activeMedia = captureActiveMedia({ parameters: getAllParams() });
+
+    try {
+      // stop socket.io from retrying the dropped socket in parallel
+      stopWatchingTokenExpiry({ socket: socket.current });
+      socket.current.off();
+      socket.current.disconnect();
+      // connect_Socket registers the recording handlers on a separate MediaSFU socket again
+      if (localSocket.current && localSocket.current !== socket.current) {
+        RECORDING_SOCKET_EVENTS.forEach((event) => localSocket.current!.off(event));
+      }
+    } catch {
+      // the dropped socket may already be closed
+    }
+
+    const newSocket = await reconnectSocket({
+      apiUserName: apiUserName.current,
+      apiToken: apiToken.current,
+      link: link.current,
+      connectSocket,
+      localLink,
+      connectLocalSocket,
+      getToken,
+      onTokenExpired,
+      onTokenChange: updateApiToken,
+      config: reconnection,
+      onAttempt: (attempt) => {
+        updateReconnectAttempt(attempt);
+        updateConnectionState('reconnecting', { reason, attempt });
+      },
+      shouldAbort: () => reconnectionAborted.current,
+    });
+
+    if (!newSocket) {
+      if (!reconnectionAborted.current) {
+        reportError(
+          createMediasfuError({
+            code: 'NETWORK',
+            message: 'Unable to reconnect to the room.',
+            details: { reason },
+          }),
+        );
+      }
+      updateIsReconnecting(false);
+      updateReconnectAttempt(0);
+      return false;
+    }
+
+    try {
+      await resetMediaTransports({
+        parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+      });
+      updateSocket(newSocket);
+      await connect_Socket(apiUserName.current, apiToken.current);
+      chatOutbox.flush({ socket: newSocket, roomName: roomName.current });
+      await republishMedia({
+        activeMedia,
+        parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+      });
+    } catch (error) {
+      logger.error('error resumeSession', error);
+      reportError(error, { reason });
+    }
+
+    updateIsReconnecting(false);
+    updateReconnectAttempt(0);
+    return true;
+  }
+
   async function connect_Socket(
     apiUserName: string,
     token: string,
@@ -6689,15 +7312,25 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   ): Promise<Socket | null> {
     //connect socket and attach events listeners to socket
     //Refer to https://www.mediasfu.com/documentation for full documentation of each event and its parameters as well uasage
-    const socketDefault = socket.current;
-    const socketAlt =
+    const socketDefault: MediasfuSocket = socket.current;
+    const socketAlt: MediasfuSocket =
       connectMediaSFU && localSocket.current && localSocket.current.id
         ? localSocket.current
         : socketDefault;
 
     if (socketDefault.id) {
       if (!skipSockets) {
-        socketDefault.on('disconnect', async () => {
+        stopWatchingSocket.current?.();
+        stopWatchingSocket.current = watchSocketConnection({
+          socket: socketDefault,
+          machine: connectionStateMachine,
+        });
+
+        socketDefault.on('disconnect', async (reason: string) => {
+          if (await resumeSession(reason)) {
+            return;
+          }
+
           await disconnect({
             showAlert,
             redirectURL: redirectURL.current,
@@ -6781,6 +7414,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
             name,
             showAlert,
           });
+          emitRoomEvent({ events: roomEvents.current, event: 'onParticipantJoined', payload: { name } });
         });
 
         socketDefault.on(
@@ -6869,14 +7503,14 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           },
         );
 
-        socketDefault.on('panelistsUpdated', async (data: any) => {
+        socketDefault.on('panelistsUpdated', async (data: PanelistsUpdatedData) => {
           await panelistsUpdated({
             data,
             updatePanelists,
           });
         });
 
-        socketDefault.on('panelistFocusChanged', async (data: any) => {
+        socketDefault.on('panelistFocusChanged', async (data: PanelistFocusChangedData) => {
           await panelistFocusChanged({
             data,
             updatePanelistsFocused,
@@ -6895,15 +7529,15 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           });
         });
 
-        socketDefault.on('addedAsPanelist', async (data: any) => {
+        socketDefault.on('addedAsPanelist', async (data: AddedAsPanelistData) => {
           await addedAsPanelist({ data, showAlert });
         });
 
-        socketDefault.on('removedFromPanelists', async (data: any) => {
+        socketDefault.on('removedFromPanelists', async (data: RemovedFromPanelistsData) => {
           await removedFromPanelists({ data, showAlert });
         });
 
-        socketDefault.on('controlMedia', async (data: any) => {
+        socketDefault.on('controlMedia', async (data: ControlMediaData) => {
           await controlPanelistMedia({
             data,
             showAlert,
@@ -6918,7 +7552,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           });
         });
 
-        socketDefault.on('permissionUpdated', async (data: any) => {
+        socketDefault.on('permissionUpdated', async (data: PermissionUpdatedData) => {
           await permissionUpdated({
             data,
             showAlert,
@@ -6926,7 +7560,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           });
         });
 
-        socketDefault.on('permissionConfigUpdated', async (data: any) => {
+        socketDefault.on('permissionConfigUpdated', async (data: PermissionConfigUpdatedData) => {
           await permissionConfigUpdated({
             data,
             updatePermissionConfig,
@@ -6971,7 +7605,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           },
         );
 
-        socketDefault.on('translation:subscribed', async (data: any) => {
+        socketDefault.on('translation:subscribed', async (data: TranslationSubscribedData) => {
           await translationSubscribed({
             data,
             updateListenPreferences,
@@ -6991,7 +7625,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           });
         });
 
-        socketDefault.on('translation:unsubscribed', async (data: any) => {
+        socketDefault.on('translation:unsubscribed', async (data: TranslationUnsubscribedData) => {
           const translationSwitchParams = getTranslationSwitchParams();
 
           await translationUnsubscribed({
@@ -7016,7 +7650,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           });
         });
 
-        socketDefault.on('translation:producerReady', async (data: any) => {
+        socketDefault.on('translation:producerReady', async (data: TranslationProducerReadyData) => {
           const translationSwitchParams = getTranslationSwitchParams();
 
           await translationProducerReady({
@@ -7032,7 +7666,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           });
         });
 
-        socketDefault.on('translation:producerClosed', async (data: any) => {
+        socketDefault.on('translation:producerClosed', async (data: TranslationProducerClosedData) => {
           const translationSwitchParams = getTranslationSwitchParams();
 
           await translationProducerClosed({
@@ -7074,35 +7708,35 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           });
         });
 
-        socketDefault.on('translation:channelsAvailable', async (data: any) => {
+        socketDefault.on('translation:channelsAvailable', async (data: TranslationChannelsAvailableData) => {
           await translationChannelsAvailable({
             data,
             updateAvailableTranslationChannels,
           });
         });
 
-        socketDefault.on('translation:memberState', async (data: any) => {
+        socketDefault.on('translation:memberState', async (data: TranslationMemberStateData) => {
           await translationMemberState({
             data,
             updateParticipantTranslationState,
           });
         });
 
-        socketDefault.on('translation:error', async (data: any) => {
+        socketDefault.on('translation:error', async (data: TranslationErrorData) => {
           await translationError({
             data,
             showAlert,
           });
         });
 
-        socketDefault.on('translation:transcript', async (data: any) => {
+        socketDefault.on('translation:transcript', async (data: TranslationTranscriptData) => {
           await translationTranscript({
             data,
             updateTranscripts,
           });
         });
 
-        socketDefault.on('translation:speakerOutputChanged', async (data: any) => {
+        socketDefault.on('translation:speakerOutputChanged', async (data: TranslationSpeakerOutputChangedData) => {
           const translationSwitchParams = getTranslationSwitchParams();
 
           await translationSpeakerOutputChanged({
@@ -7260,6 +7894,8 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
         );
 
         socketDefault.on('meetingEnded', async function () {
+          updateConnectionState('closed', { reason: 'meetingEnded' });
+          emitRoomEvent({ events: roomEvents.current, event: 'onMeetingEnded' });
           await meetingEnded({
             showAlert,
             redirectURL: redirectURL.current,
@@ -7299,6 +7935,13 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
         socketDefault.on(
           'receiveMessage',
           async ({ message }: { message: Message }) => {
+            if (chatOutbox.acknowledge(message)) {
+              return;
+            }
+            if (message.attachment) {
+              attachmentAssembler.expect(message.attachment.id);
+            }
+            typingTracker.stopTyping(message.sender);
             await receiveMessage({
               message,
               messages: messages.current,
@@ -7307,12 +7950,57 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
               eventType: eventType.current,
               islevel: islevel.current,
               coHost: coHost.current,
-              updateMessages,
+              updateMessages: refreshMessages,
               updateShowMessagesBadge,
+              chatModeration: chatModeration.current,
+              showAlert,
             });
+            emitRoomEvent({ events: roomEvents.current, event: 'onMessageReceived', payload: { message } });
           },
         );
 
+        socketDefault.on('messageReaction', (data: MessageReactionData) => {
+          refreshMessages(applyMessageReaction({ messages: messages.current, data }));
+        });
+
+        socketDefault.on('messageDeleted', (data: MessageDeletedData) => {
+          if (
+            !isDeletionAllowed({
+              data,
+              participants: participants.current,
+              coHost: coHost.current,
+              coHostResponsibility: coHostResponsibility.current,
+            })
+          ) {
+            return;
+          }
+          refreshMessages(applyMessageDeletion({ messages: messages.current, data }));
+        });
+
+        socketDefault.on('userTyping', (data: TypingEventData) => {
+          if (data.member !== member.current) {
+            typingTracker.handle(data);
+          }
+        });
+
+        socketDefault.on('attachmentChunk', (data: AttachmentChunk) => {
+          attachmentAssembler.handle(data);
+        });
+
+        socketDefault.on('chatModerationUpdated', (data: ChatModerationUpdatedData) => {
+          if (
+            !isChatModerationUpdateAllowed({
+              data,
+              participants: participants.current,
+              coHost: coHost.current,
+              coHostResponsibility: coHostResponsibility.current,
+            })
+          ) {
+            return;
+          }
+          updateChatModeration({ ...DEFAULT_CHAT_MODERATION, ...data.settings });
+        });
+
         socketDefault.on(
           'meetingTimeRemaining',
           async ({ timeRemaining }: { timeRemaining: number }) => {
@@ -7378,6 +8066,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
               poll: poll.current!,
               member: member.current,
               islevel: islevel.current,
+              youAreCoHost: youAreCoHost.current,
               showAlert,
               updatePolls,
               updatePoll,
@@ -7386,6 +8075,14 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           } catch {
             // Handle error
           }
+          pollTimer.sync(data.status === 'ended' ? null : poll.current);
+
+          emitRoomEvent({ events: roomEvents.current, event: 'onPollUpdated', payload: data });
+          if (data.status === 'started') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onPollStarted', payload: { poll: data.poll } });
+          } else if (data.status === 'ended') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onPollEnded', payload: { poll: data.poll } });
+          }
         });
 
         socketDefault.on(
@@ -7402,21 +8099,20 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
             } catch {
               //console.log('error breakoutRoomUpdated', error);
             }
+
+            emitRoomEvent({ events: roomEvents.current, event: 'onBreakoutRoomsUpdated', payload: data });
+            if (data.status === 'started') {
+              emitRoomEvent({ events: roomEvents.current, event: 'onBreakoutStarted', payload: data });
+            } else if (data.status === 'ended') {
+              emitRoomEvent({ events: roomEvents.current, event: 'onBreakoutEnded', payload: data });
+            }
           },
         );
       }
 
       if (skipSockets) {
         // try remove all listeners related to recoding on  socketDefault and socketAlt
-        const events = [
-          'roomRecordParams',
-          'startRecords',
-          'reInitiateRecording',
-          'RecordingNotice',
-          'timeLeftRecording',
-          'stoppedRecording',
-        ];
-        events.forEach((event) => {
+        RECORDING_SOCKET_EVENTS.forEach((event) => {
           socketDefault.off(event);
           socketAlt.off(event);
         });
@@ -7462,6 +8158,14 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
               ...mediaSFUFunctions(),
             },
           });
+
+          emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStateChanged', payload: { state } });
+          if (state === 'recording' && lastRecordingNoticeState.current !== 'recording') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStarted' });
+          } else if (state === 'stop') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStopped', payload: {} });
+          }
+          lastRecordingNoticeState.current = state;
         },
       );
 
@@ -7483,6 +8187,12 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
             reason,
             showAlert,
           });
+
+          emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStateChanged', payload: { state, reason } });
+          if (lastRecordingNoticeState.current !== 'stop') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStopped', payload: { reason } });
+          }
+          lastRecordingNoticeState.current = 'stop';
         },
       );
 
@@ -7531,7 +8241,20 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
         await receiveRoomMessages({
           socket: socketDefault,
           roomName: roomName.current,
-          updateMessages,
+          // merged with restored history, and with messages still in the outbox that the room
+          // messages do not have yet
+          updateMessages: (roomMessages) =>
+            refreshMessages(
+              mergeMessages(
+                messages.current,
+                chatOutbox.restore({ roomName: roomName.current, messages: roomMessages }),
+              ),
+            ),
+        });
+        fetchChatModerationSettings({
+          socket: socketDefault,
+          roomName: roomName.current,
+          updateChatModeration,
         });
 
         if (!skipSockets) {
@@ -7566,18 +8289,22 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
         apiToken.current,
       );
       updateSocket(_socket!);
+      if (!_socket) {
+        updateConnectionState('closed');
+      }
     };
 
     if (validated) {
       try {
         if (localUIMode.current === false) {
           updateIsLoadingModalVisible(true);
+          updateConnectionState('connecting');
           connectAndAddSocketMethods();
         } else {
           updateIsLoadingModalVisible(false);
         }
       } catch (error) {
-        console.log('error connectAndAddSocketMethods', error);
+        logger.error('error connectAndAddSocketMethods', error);
       }
 
       startMeetingProgressTimer({
@@ -7596,7 +8323,7 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
           }
         }
       } catch {
-        console.log('error updateSourceParameters');
+        logger.error('error updateSourceParameters');
       }
     }
   }, [validated]);
@@ -7610,653 +8337,686 @@ const MediasfuGeneric: React.FC<MediasfuGenericOptions> = ({
   const effectiveMainHeightWidth = screenFlowActive ? 84 : mainHeightWidth;
 
   return (
-    <SafeAreaProvider
-      style={{
-        marginTop: Platform.OS === 'ios' ? 0 : getStatusBarHeight(),
-      }}
-    >
-      <StatusBar
-        animated
-        hidden={false}
-        networkActivityIndicatorVisible={true}
-        translucent={true} // Keep this if you want the content to show behind the status bar
-        backgroundColor="rgba(0, 0, 0, 0.2)"
-        barStyle="light-content"
-      />
+    <MediasfuRoomProvider controller={roomController}>
+      <SafeAreaProvider
+        style={{
+          marginTop: Platform.OS === 'ios' ? 0 : getStatusBarHeight(),
+        }}
+      >
+        <StatusBar
+          animated
+          hidden={false}
+          networkActivityIndicatorVisible={true}
+          translucent={true} // Keep this if you want the content to show behind the status bar
+          backgroundColor="rgba(0, 0, 0, 0.2)"
+          barStyle="light-content"
+        />
 
-      {/* MainContainerComponent displays the room and controls */}
-      {/* WelcomePage is for authentication of room credentials */}
+        {/* MainContainerComponent displays the room and controls */}
+        {/* WelcomePage is for authentication of room credentials */}
 
-      {!validated ? (
-        <PrejoinPage
-          parameters={{
-            imgSrc,
-            showAlert,
-            updateIsLoadingModalVisible,
-            connectSocket,
-            connectLocalSocket,
-            updateSocket,
-            updateLocalSocket,
-            updateValidated,
-            updateApiUserName,
-            updateApiToken,
-            updateLink,
-            updateRoomName,
-            updateMember,
-          }}
-          credentials={credentials}
-          localLink={localLink}
-          connectMediaSFU={connectMediaSFU}
-          returnUI={returnUI}
-          noUIPreJoinOptions={noUIPreJoinOptions}
-          autoProceedPreJoin={autoProceedPreJoin}
-          joinMediaSFURoom={joinMediaSFURoom}
-          createMediaSFURoom={createMediaSFURoom}
-        />
-      ) : customComponent ? (
-        React.createElement(customComponent, { parameters: { ...getAllParams(), ...mediaSFUFunctions() } })
-      ) : returnUI ? (
-        <MainContainer style={containerStyle}>
-          {/* Main aspect component containsa ll but the control buttons (as used for webinar and conference) */}
-          <MainAspect
-            backgroundColor={themedSurfaceColor}
-            containerWidthFraction={1}
-            defaultFraction={1 - controlHeight}
-            updateIsWideScreen={updateIsWideScreen}
-            updateIsMediumScreen={updateIsMediumScreen}
-            updateIsSmallScreen={updateIsSmallScreen}
-            showControls={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-            }
-            renderContent={renderAttachedSidebarContent}
-          >
-            {/* MainScreenComponent contains the main grid view and the minor grid view */}
-            <LiveSubtitleProvider
-              liveSubtitles={liveSubtitles}
-              showSubtitlesOnCards={showSubtitlesOnCards.current}
+        {!validated ? (
+          <PrejoinPage
+            parameters={{
+              imgSrc,
+              showAlert,
+              updateIsLoadingModalVisible,
+              connectSocket,
+              connectLocalSocket,
+              updateSocket,
+              updateLocalSocket,
+              updateValidated,
+              updateApiUserName,
+              updateApiToken,
+              updateLink,
+              updateRoomName,
+              updateMember,
+              storage,
+              getToken,
+              onTokenExpired,
+              onError: reportError,
+            }}
+            credentials={credentials}
+            localLink={localLink}
+            connectMediaSFU={connectMediaSFU}
+            returnUI={returnUI}
+            noUIPreJoinOptions={noUIPreJoinOptions}
+            autoProceedPreJoin={autoProceedPreJoin}
+            joinMediaSFURoom={joinMediaSFURoom}
+            createMediaSFURoom={createMediaSFURoom}
+          />
+        ) : customComponent ? (
+          React.createElement(customComponent, { parameters: { ...getAllParams(), ...mediaSFUFunctions() } })
+        ) : returnUI ? (
+          <MainContainer style={containerStyle}>
+            {/* Main aspect component containsa ll but the control buttons (as used for webinar and conference) */}
+            <MainAspect
+              backgroundColor={themedSurfaceColor}
+              containerWidthFraction={1}
+              defaultFraction={1 - controlHeight}
+              updateIsWideScreen={updateIsWideScreen}
+              updateIsMediumScreen={updateIsMediumScreen}
+              updateIsSmallScreen={updateIsSmallScreen}
+              showControls={
+                eventType.current === 'webinar' ||
+                eventType.current === 'conference'
+              }
+              renderContent={renderAttachedSidebarContent}
             >
-              <MainScreen
-                doStack={true}
-                mainSize={effectiveMainHeightWidth}
-                containerWidthFraction={mainContentWidthFraction}
-                updateComponentSizes={updateComponentSizes}
-                defaultFraction={1 - controlHeight}
-                componentSizes={componentSizes.current}
-                showControls={
-                  eventType.current === 'webinar' ||
-                  eventType.current === 'conference'
-                }
-              >
-              {/* MainGridComponent shows the main grid view - not used at all in chat event type  and conference event type when screenshare is not active*/}
-              {/* MainGridComponent becomes the dominant grid view in broadcast and webinar event types */}
-              {/* MainGridComponent becomes the dominant grid view in conference event type when screenshare is active */}
-
-              <MainGrid
-                height={componentSizes.current.mainHeight}
-                width={componentSizes.current.mainWidth}
-                backgroundColor={themedSurfaceColor}
-                showAspect={effectiveMainHeightWidth > 0 ? true : false}
-                timeBackgroundColor={recordState}
-                meetingProgressTime={meetingProgressTime}
-                timerComponent={MeetingProgressTimerComponent}
+              {/* MainScreenComponent contains the main grid view and the minor grid view */}
+              <LiveSubtitleProvider
+                liveSubtitles={liveSubtitles}
+                showSubtitlesOnCards={showSubtitlesOnCards.current}
               >
-                <FlexibleVideoComponent
-                  customWidth={componentSizes.current.mainWidth}
-                  customHeight={componentSizes.current.mainHeight}
-                  backgroundColor={themedSurfaceColor}
-                  rows={1}
-                  columns={1}
-                  Screenboard={
-                    shared.current ? (
-                      <ScreenboardComponent
-                        parameters={{
-                          ...getAllParams(),
-                          ...mediaSFUFunctions(),
-                        }}
-                      />
-                    ) : null
-                  }
-                  componentsToRender={
-                    mainGridStream.current ? mainGridStream.current : []
+                <MainScreen
+                  doStack={true}
+                  mainSize={effectiveMainHeightWidth}
+                  containerWidthFraction={mainContentWidthFraction}
+                  updateComponentSizes={updateComponentSizes}
+                  defaultFraction={1 - controlHeight}
+                  componentSizes={componentSizes.current}
+                  showControls={
+                    eventType.current === 'webinar' ||
+                    eventType.current === 'conference'
                   }
-                  showAspect={
-                    mainGridStream.current.length > 0 &&
-                    !screenFlowActive
-                  }
-                />
-
-                <WhiteboardComponent
-                  customWidth={componentSizes.current.mainWidth}
-                  customHeight={componentSizes.current.mainHeight}
-                  isVisible={whiteboardActive}
-                  onWhiteboardClose={() => updateIsWhiteboardModalVisible(false)}
-                  showAspect={whiteboardStarted.current && !whiteboardEnded.current}
-                  parameters={{
-                    ...getAllParams(),
-                    ...mediaSFUFunctions(),
-                  }}
-                />
+                >
+                {/* MainGridComponent shows the main grid view - not used at all in chat event type  and conference event type when screenshare is not active*/}
+                {/* MainGridComponent becomes the dominant grid view in broadcast and webinar event types */}
+                {/* MainGridComponent becomes the dominant grid view in conference event type when screenshare is active */}
 
-                <ControlButtonsTouch
-                  buttons={controlBroadcastButtons}
-                  position={'right'}
-                  location={'bottom'}
-                  direction={'vertical'}
-                  showAspect={eventType.current === 'broadcast'}
-                />
+                <MainGrid
+                  height={componentSizes.current.mainHeight}
+                  width={componentSizes.current.mainWidth}
+                  backgroundColor={themedSurfaceColor}
+                  showAspect={effectiveMainHeightWidth > 0 ? true : false}
+                  timeBackgroundColor={recordState}
+                  meetingProgressTime={meetingProgressTime}
+                  timerComponent={MeetingProgressTimerComponent}
+                >
+                  <FlexibleVideoComponent
+                    customWidth={componentSizes.current.mainWidth}
+                    customHeight={componentSizes.current.mainHeight}
+                    backgroundColor={themedSurfaceColor}
+                    rows={1}
+                    columns={1}
+                    Screenboard={
+                      shared.current ? (
+                        <ScreenboardComponent
+                          parameters={{
+                            ...getAllParams(),
+                            ...mediaSFUFunctions(),
+                          }}
+                        />
+                      ) : null
+                    }
+                    componentsToRender={
+                      mainGridStream.current ? mainGridStream.current : []
+                    }
+                    showAspect={
+                      mainGridStream.current.length > 0 &&
+                      !screenFlowActive
+                    }
+                  />
 
-                {/* Button to launch recording modal */}
-                <ControlButtonsTouch
-                  buttons={recordButton}
-                  direction={'horizontal'}
-                  showAspect={
-                    eventType.current === 'broadcast' &&
-                    !showRecordButtons &&
-                    islevel.current === '2'
-                  }
-                  location="bottom"
-                  position="middle"
-                />
+                  <WhiteboardComponent
+                    customWidth={componentSizes.current.mainWidth}
+                    customHeight={componentSizes.current.mainHeight}
+                    isVisible={whiteboardActive}
+                    onWhiteboardClose={() => updateIsWhiteboardModalVisible(false)}
+                    showAspect={whiteboardStarted.current && !whiteboardEnded.current}
+                    parameters={{
+                      ...getAllParams(),
+                      ...mediaSFUFunctions(),
+                    }}
+                  />
 
-                {/* Buttons to control recording */}
-                <ControlButtonsTouch
-                  buttons={recordButtons}
-                  direction={'horizontal'}
-                  showAspect={
-                    eventType.current === 'broadcast' &&
-                    showRecordButtons &&
-                    islevel.current === '2'
-                  }
-                  location="bottom"
-                  position="middle"
-                />
+                  <ControlButtonsTouch
+                    buttons={controlBroadcastButtons}
+                    position={'right'}
+                    location={'bottom'}
+                    direction={'vertical'}
+                    showAspect={eventType.current === 'broadcast'}
+                  />
 
-                <ParticipantsCounterBadge
-                  participantsCount={participantsCounter.current}
-                  position="bottomLeft"
-                  showBadge={effectiveMainHeightWidth > 0}
-                  isDarkMode={isDarkMode}
-                />
-              </MainGrid>
-
-              {/* OthergridComponent shows the minor grid view - not used at all in broadcast event type */}
-              {/* OthergridComponent becomes the dominant grid view in conference (the main grid only gets re-introduced during screenshare) and chat event types */}
-              <OtherGrid
-                height={componentSizes.current.otherHeight}
-                width={componentSizes.current.otherWidth}
-                backgroundColor={themedSurfaceColor}
-                showAspect={effectiveMainHeightWidth === 100 ? false : true}
-                timeBackgroundColor={recordState}
-                showTimer={effectiveMainHeightWidth === 0 ? true : false}
-                meetingProgressTime={meetingProgressTime}
-                timerComponent={MeetingProgressTimerComponent}
-              >
-                {/* Pagination is only used in conference and webinar event types */}
-                <View
-                  style={{
-                    width:
-                      paginationDirection.current === 'horizontal'
-                        ? componentSizes.current.otherWidth
-                        : paginationHeightWidth.current,
-                    height:
-                      paginationDirection.current === 'horizontal'
-                        ? paginationHeightWidth.current
-                        : componentSizes.current.otherHeight,
-                    padding: 0,
-                    margin: 0,
-                    display: doPaginate.current ? 'flex' : 'none',
-                    flexDirection:
-                      paginationDirection.current === 'horizontal'
-                        ? 'row'
-                        : 'column',
-                    justifyContent: 'center',
-                    alignItems: 'center',
-                  }}
-                >
-                  {/* Render Pagination component */}
-                  <PaginationComponent
-                    totalPages={numberPages}
-                    currentUserPage={currentUserPage.current}
-                    showAspect={doPaginate.current}
-                    paginationHeight={paginationHeightWidth.current}
-                    direction={paginationDirection.current!}
-                    parameters={{ ...getAllParams(), ...mediaSFUFunctions() }}
+                  {/* Button to launch recording modal */}
+                  <ControlButtonsTouch
+                    buttons={recordButton}
+                    direction={'horizontal'}
+                    showAspect={
+                      eventType.current === 'broadcast' &&
+                      !showRecordButtons &&
+                      islevel.current === '2'
+                    }
+                    location="bottom"
+                    position="middle"
                   />
-                </View>
-
-                {/* AudioGrid contains all the audio only streams */}
-                {/* If broadcasting and there are audio only streams (just one), the audio only streams are displayed in the main grid view */}
-                {/* If webinar and you are the host, the audio only streams (just one), are displayed in the main grid view */}
-                <AudioGridComponent
-                  componentsToRender={
-                    [
-                      ...(audioOnlyStreams.current || []),
-                      ...(translationStreams || []),
-                    ]
-                  }
-                />
 
-                <ControlButtonsTouch
-                  buttons={controlChatButtons}
-                  position={'right'}
-                  location={'bottom'}
-                  direction={'vertical'}
-                  showAspect={eventType.current === 'chat'}
-                />
+                  {/* Buttons to control recording */}
+                  <ControlButtonsTouch
+                    buttons={recordButtons}
+                    direction={'horizontal'}
+                    showAspect={
+                      eventType.current === 'broadcast' &&
+                      showRecordButtons &&
+                      islevel.current === '2'
+                    }
+                    location="bottom"
+                    position="middle"
+                  />
 
-                <FlexibleGridPrimary
-                  customWidth={gridSizes.current.gridWidth!}
-                  customHeight={gridSizes.current.gridHeight!}
-                  rows={gridRows}
-                  columns={gridCols}
-                  componentsToRender={otherGridStreams[0]}
-                  backgroundColor={themedSurfaceColor}
-                />
+                  <ParticipantsCounterBadge
+                    participantsCount={participantsCounter.current}
+                    position="bottomLeft"
+                    showBadge={effectiveMainHeightWidth > 0}
+                    isDarkMode={isDarkMode}
+                  />
+                </MainGrid>
 
-                <FlexibleGridAlt
-                  customWidth={gridSizes.current.altGridWidth!}
-                  customHeight={gridSizes.current.altGridHeight!}
-                  rows={altGridRows}
-                  columns={altGridCols}
-                  componentsToRender={otherGridStreams[1]}
+                {/* OthergridComponent shows the minor grid view - not used at all in broadcast event type */}
+                {/* OthergridComponent becomes the dominant grid view in conference (the main grid only gets re-introduced during screenshare) and chat event types */}
+                <OtherGrid
+                  height={componentSizes.current.otherHeight}
+                  width={componentSizes.current.otherWidth}
                   backgroundColor={themedSurfaceColor}
-                />
-
-                <ParticipantsCounterBadge
-                  participantsCount={participantsCounter.current}
-                  position="topRight"
-                  showBadge={effectiveMainHeightWidth === 0}
-                  isDarkMode={isDarkMode}
-                />
-              </OtherGrid>
-              </MainScreen>
-            </LiveSubtitleProvider>
-          </MainAspect>
-
-          {/* SubAspectComponent is used for webinar and conference events only to display fixed control buttons */}
-          <SubAspect
-            backgroundColor={themedSurfaceColor}
-            containerWidthFraction={1}
-            showControls={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-            }
-            defaultFractionSub={controlHeight}
-          >
-            <View
-              onLayout={handleControlStripLayout}
-              style={nativeSidebarStyles.controlStripMeasureHost}
-            >
-              <ControlButtons
-                buttons={controlButtons}
-                buttonColor={isDarkMode ? 'white' : 'black'} // Set the background color for buttons
-                buttonBackgroundColor={{
-                  default: 'transparent',
-                  pressed: 'transparent',
-                }} // Set background color options
-                alignment="space-between"
-                vertical={false}
-                buttonsContainerStyle={{
-                  marginTop: 2,
-                  marginBottom: 2,
-                  backgroundColor: 'transparent',
-                }} // Set styles for the buttons container
-              />
-            </View>
-          </SubAspect>
-        </MainContainer>
-      ) : (
-        <></>
-      )}
+                  showAspect={effectiveMainHeightWidth === 100 ? false : true}
+                  timeBackgroundColor={recordState}
+                  showTimer={effectiveMainHeightWidth === 0 ? true : false}
+                  meetingProgressTime={meetingProgressTime}
+                  timerComponent={MeetingProgressTimerComponent}
+                >
+                  {/* Pagination is only used in conference and webinar event types */}
+                  <View
+                    style={{
+                      width:
+                        paginationDirection.current === 'horizontal'
+                          ? componentSizes.current.otherWidth
+                          : paginationHeightWidth.current,
+                      height:
+                        paginationDirection.current === 'horizontal'
+                          ? paginationHeightWidth.current
+                          : componentSizes.current.otherHeight,
+                      padding: 0,
+                      margin: 0,
+                      display: doPaginate.current ? 'flex' : 'none',
+                      flexDirection:
+                        paginationDirection.current === 'horizontal'
+                          ? 'row'
+                          : 'column',
+                      justifyContent: 'center',
+                      alignItems: 'center',
+                    }}
+                  >
+                    {/* Render Pagination component */}
+                    <PaginationComponent
+                      totalPages={numberPages}
+                      currentUserPage={currentUserPage.current}
+                      showAspect={doPaginate.current}
+                      paginationHeight={paginationHeightWidth.current}
+                      direction={paginationDirection.current!}
+                      parameters={{ ...getAllParams(), ...mediaSFUFunctions() }}
+                    />
+                  </View>
+
+                  {/* AudioGrid contains all the audio only streams */}
+                  {/* If broadcasting and there are audio only streams (just one), the audio only streams are displayed in the main grid view */}
+                  {/* If webinar and you are the host, the audio only streams (just one), are displayed in the main grid view */}
+                  <AudioGridComponent
+                    componentsToRender={
+                      [
+                        ...(audioOnlyStreams.current || []),
+                        ...(translationStreams || []),
+                      ]
+                    }
+                  />
 
-      {returnUI && (
-        <>
-          <MenuModalComponent
-            backgroundColor={themedMenuColor}
-            isVisible={!shouldUseSidebar && isMenuModalVisible}
-            onClose={() => updateIsMenuModalVisible(false)}
-            customButtons={customMenuButtons}
-            roomName={roomName.current}
-            adminPasscode={adminPasscode.current}
-            islevel={islevel.current}
-            eventType={eventType.current}
-            localLink={localLink}
-          />
+                  <ControlButtonsTouch
+                    buttons={controlChatButtons}
+                    position={'right'}
+                    location={'bottom'}
+                    direction={'vertical'}
+                    showAspect={eventType.current === 'chat'}
+                  />
 
-          <EventSettingsModalComponent
-            backgroundColor={themedSurfaceColor}
-            isEventSettingsModalVisible={!shouldUseSidebar && isSettingsModalVisible}
-            updateIsSettingsModalVisible={updateIsSettingsModalVisible}
-            onEventSettingsClose={() => updateIsSettingsModalVisible(false)}
-            audioSetting={audioSetting.current}
-            videoSetting={videoSetting.current}
-            screenshareSetting={screenshareSetting.current}
-            chatSetting={chatSetting.current}
-            updateAudioSetting={updateAudioSetting}
-            updateVideoSetting={updateVideoSetting}
-            updateScreenshareSetting={updateScreenshareSetting}
-            updateChatSetting={updateChatSetting}
-            roomName={roomName.current}
-            socket={socket.current}
-          />
+                  <FlexibleGridPrimary
+                    customWidth={gridSizes.current.gridWidth!}
+                    customHeight={gridSizes.current.gridHeight!}
+                    rows={gridRows}
+                    columns={gridCols}
+                    componentsToRender={otherGridStreams[0]}
+                    backgroundColor={themedSurfaceColor}
+                  />
 
-          <RequestsModalComponent
-            backgroundColor={themedSurfaceColor}
-            isRequestsModalVisible={!shouldUseSidebar && isRequestsModalVisible}
-            onRequestClose={() => updateIsRequestsModalVisible(false)}
-            requestCounter={requestCounter.current}
-            onRequestFilterChange={onRequestFilterChange}
-            updateRequestList={updateRequestList}
-            requestList={filteredRequestList.current}
-            roomName={roomName.current}
-            socket={socket.current}
-            parameters={{
-              updateRequestCounter: updateRequestCounter,
-              updateRequestFilter: updateRequestFilter,
-              updateRequestList: updateRequestList,
-              getUpdatedAllParams,
-            }}
-          />
+                  <FlexibleGridAlt
+                    customWidth={gridSizes.current.altGridWidth!}
+                    customHeight={gridSizes.current.altGridHeight!}
+                    rows={altGridRows}
+                    columns={altGridCols}
+                    componentsToRender={otherGridStreams[1]}
+                    backgroundColor={themedSurfaceColor}
+                  />
 
-          <WaitingRoomModalComponent
-            backgroundColor={themedSurfaceColor}
-            isWaitingModalVisible={!shouldUseSidebar && isWaitingModalVisible}
-            onWaitingRoomClose={() => updateIsWaitingModalVisible(false)}
-            waitingRoomCounter={waitingRoomCounter.current}
-            onWaitingRoomFilterChange={onWaitingRoomFilterChange}
-            waitingRoomList={filteredWaitingRoomList.current}
-            updateWaitingList={updateWaitingRoomList}
-            roomName={roomName.current}
-            socket={socket.current}
-            parameters={{
-              filteredWaitingRoomList: filteredWaitingRoomList.current,
-              getUpdatedAllParams,
-            }}
-          />
+                  <ParticipantsCounterBadge
+                    participantsCount={participantsCounter.current}
+                    position="topRight"
+                    showBadge={effectiveMainHeightWidth === 0}
+                    isDarkMode={isDarkMode}
+                  />
+                </OtherGrid>
+                </MainScreen>
+              </LiveSubtitleProvider>
+            </MainAspect>
+
+            {/* SubAspectComponent is used for webinar and conference events only to display fixed control buttons */}
+            <SubAspect
+              backgroundColor={themedSurfaceColor}
+              containerWidthFraction={1}
+              showControls={
+                eventType.current === 'webinar' ||
+                eventType.current === 'conference'
+              }
+              defaultFractionSub={controlHeight}
+            >
+              <View
+                onLayout={handleControlStripLayout}
+                style={nativeSidebarStyles.controlStripMeasureHost}
+              >
+                <ControlButtons
+                  buttons={controlButtons}
+                  buttonColor={isDarkMode ? 'white' : 'black'} // Set the background color for buttons
+                  buttonBackgroundColor={{
+                    default: 'transparent',
+                    pressed: 'transparent',
+                  }} // Set background color options
+                  alignment="space-between"
+                  vertical={false}
+                  buttonsContainerStyle={{
+                    marginTop: 2,
+                    marginBottom: 2,
+                    backgroundColor: 'transparent',
+                  }} // Set styles for the buttons container
+                />
+              </View>
+            </SubAspect>
+          </MainContainer>
+        ) : (
+          <></>
+        )}
 
-          <CoHostModalComponent
-            backgroundColor={themedSurfaceColor}
-            isCoHostModalVisible={!shouldUseSidebar && isCoHostModalVisible}
-            updateIsCoHostModalVisible={updateIsCoHostModalVisible}
-            onCoHostClose={() => updateIsCoHostModalVisible(false)}
-            coHostResponsibility={coHostResponsibility.current}
-            participants={participants.current}
-            currentCohost={coHost.current}
-            roomName={roomName.current}
-            showAlert={showAlert}
-            updateCoHostResponsibility={updateCoHostResponsibility}
-            updateCoHost={updateCoHost}
-            socket={socket.current}
-          />
+        {returnUI && (
+          <>
+            <MenuModalComponent
+              backgroundColor={themedMenuColor}
+              isVisible={!shouldUseSidebar && isMenuModalVisible}
+              onClose={() => updateIsMenuModalVisible(false)}
+              customButtons={customMenuButtons}
+              roomName={roomName.current}
+              adminPasscode={adminPasscode.current}
+              islevel={islevel.current}
+              eventType={eventType.current}
+              localLink={localLink}
+            />
 
-          <MediaSettingsModalComponent
-            backgroundColor={themedMenuColor}
-            isMediaSettingsModalVisible={!shouldUseSidebar && isMediaSettingsModalVisible}
-            onMediaSettingsClose={() =>
-              updateIsMediaSettingsModalVisible(false)
-            }
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <EventSettingsModalComponent
+              backgroundColor={themedSurfaceColor}
+              isEventSettingsModalVisible={!shouldUseSidebar && isSettingsModalVisible}
+              updateIsSettingsModalVisible={updateIsSettingsModalVisible}
+              onEventSettingsClose={() => updateIsSettingsModalVisible(false)}
+              audioSetting={audioSetting.current}
+              videoSetting={videoSetting.current}
+              screenshareSetting={screenshareSetting.current}
+              chatSetting={chatSetting.current}
+              updateAudioSetting={updateAudioSetting}
+              updateVideoSetting={updateVideoSetting}
+              updateScreenshareSetting={updateScreenshareSetting}
+              updateChatSetting={updateChatSetting}
+              chatModeration={chatModeration.current}
+              updateChatModeration={updateChatModeration}
+              roomName={roomName.current}
+              member={member.current}
+              socket={socket.current}
+            />
 
-          <ParticipantsModalComponent
-            backgroundColor={themedSurfaceColor}
-            isParticipantsModalVisible={!shouldUseSidebar && isParticipantsModalVisible}
-            onParticipantsClose={() => updateIsParticipantsModalVisible(false)}
-            participantsCounter={participantsCounter.current}
-            onParticipantsFilterChange={onParticipantsFilterChange}
-            parameters={{
-              updateParticipants: updateParticipants,
-              updateIsParticipantsModalVisible:
-                updateIsParticipantsModalVisible,
+            <RequestsModalComponent
+              backgroundColor={themedSurfaceColor}
+              isRequestsModalVisible={!shouldUseSidebar && isRequestsModalVisible}
+              onRequestClose={() => updateIsRequestsModalVisible(false)}
+              requestCounter={requestCounter.current}
+              onRequestFilterChange={onRequestFilterChange}
+              updateRequestList={updateRequestList}
+              requestList={filteredRequestList.current}
+              roomName={roomName.current}
+              socket={socket.current}
+              parameters={{
+                updateRequestCounter: updateRequestCounter,
+                updateRequestFilter: updateRequestFilter,
+                updateRequestList: updateRequestList,
+                getUpdatedAllParams,
+              }}
+            />
 
-              updateDirectMessageDetails,
-              updateStartDirectMessage,
-              updateIsMessagesModalVisible,
+            <WaitingRoomModalComponent
+              backgroundColor={themedSurfaceColor}
+              isWaitingModalVisible={!shouldUseSidebar && isWaitingModalVisible}
+              onWaitingRoomClose={() => updateIsWaitingModalVisible(false)}
+              waitingRoomCounter={waitingRoomCounter.current}
+              onWaitingRoomFilterChange={onWaitingRoomFilterChange}
+              waitingRoomList={filteredWaitingRoomList.current}
+              updateWaitingList={updateWaitingRoomList}
+              roomName={roomName.current}
+              socket={socket.current}
+              parameters={{
+                filteredWaitingRoomList: filteredWaitingRoomList.current,
+                getUpdatedAllParams,
+              }}
+            />
 
-              showAlert: showAlert,
+            <CoHostModalComponent
+              backgroundColor={themedSurfaceColor}
+              isCoHostModalVisible={!shouldUseSidebar && isCoHostModalVisible}
+              updateIsCoHostModalVisible={updateIsCoHostModalVisible}
+              onCoHostClose={() => updateIsCoHostModalVisible(false)}
+              coHostResponsibility={coHostResponsibility.current}
+              participants={participants.current}
+              currentCohost={coHost.current}
+              roomName={roomName.current}
+              showAlert={showAlert}
+              updateCoHostResponsibility={updateCoHostResponsibility}
+              updateCoHost={updateCoHost}
+              socket={socket.current}
+            />
 
-              filteredParticipants: filteredParticipants.current,
-              participants: filteredParticipants.current,
-              roomName: roomName.current,
-              islevel: islevel.current,
-              member: member.current,
-              coHostResponsibility: coHostResponsibility.current,
-              coHost: coHost.current,
-              eventType: eventType.current,
+            <MediaSettingsModalComponent
+              backgroundColor={themedMenuColor}
+              isMediaSettingsModalVisible={!shouldUseSidebar && isMediaSettingsModalVisible}
+              onMediaSettingsClose={() =>
+                updateIsMediaSettingsModalVisible(false)
+              }
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-              startDirectMessage: startDirectMessage.current,
-              directMessageDetails: directMessageDetails.current,
-              socket: socket.current,
+            <ParticipantsModalComponent
+              backgroundColor={themedSurfaceColor}
+              isParticipantsModalVisible={!shouldUseSidebar && isParticipantsModalVisible}
+              onParticipantsClose={() => updateIsParticipantsModalVisible(false)}
+              participantsCounter={participantsCounter.current}
+              onParticipantsFilterChange={onParticipantsFilterChange}
+              parameters={{
+                updateParticipants: updateParticipants,
+                updateIsParticipantsModalVisible:
+                  updateIsParticipantsModalVisible,
+
+                updateDirectMessageDetails,
+                updateStartDirectMessage,
+                updateIsMessagesModalVisible,
+
+                showAlert: showAlert,
+
+                filteredParticipants: filteredParticipants.current,
+                participants: filteredParticipants.current,
+                roomName: roomName.current,
+                islevel: islevel.current,
+                member: member.current,
+                coHostResponsibility: coHostResponsibility.current,
+                coHost: coHost.current,
+                eventType: eventType.current,
+
+                startDirectMessage: startDirectMessage.current,
+                directMessageDetails: directMessageDetails.current,
+                socket: socket.current,
+
+                getUpdatedAllParams: getAllParams,
+              }}
+            />
 
-              getUpdatedAllParams: getAllParams,
-            }}
-          />
+            <PanelistsModalComponent
+              isPanelistsModalVisible={!shouldUseSidebar && isPanelistsModalVisible}
+              onPanelistsClose={() => updateIsPanelistsModalVisible(false)}
+              parameters={{
+                participants: participants.current,
+                panelists: panelists.current,
+                member: member.current,
+                islevel: islevel.current,
+                socket: socket.current,
+                roomName: roomName.current,
+                showAlert,
+                itemPageLimit: itemPageLimit.current,
+                panelistsFocused: panelistsFocused.current,
+                updatePanelists,
+                updatePanelistsFocused,
+                getUpdatedAllParams: getAllParams as any,
+              }}
+            />
 
-          <PanelistsModalComponent
-            isPanelistsModalVisible={!shouldUseSidebar && isPanelistsModalVisible}
-            onPanelistsClose={() => updateIsPanelistsModalVisible(false)}
-            parameters={{
-              participants: participants.current,
-              panelists: panelists.current,
-              member: member.current,
-              islevel: islevel.current,
-              socket: socket.current,
-              roomName: roomName.current,
-              showAlert,
-              itemPageLimit: itemPageLimit.current,
-              panelistsFocused: panelistsFocused.current,
-              updatePanelists,
-              updatePanelistsFocused,
-              getUpdatedAllParams: getAllParams as any,
-            }}
-          />
+            <PermissionsModalComponent
+              isPermissionsModalVisible={!shouldUseSidebar && isPermissionsModalVisible}
+              onPermissionsClose={() => updateIsPermissionsModalVisible(false)}
+              parameters={{
+                participants: participants.current,
+                member: member.current,
+                islevel: islevel.current,
+                socket: socket.current,
+                roomName: roomName.current,
+                showAlert,
+                coHostResponsibility: coHostResponsibility.current,
+                updateCoHostResponsibility,
+                getUpdatedAllParams: getAllParams as any,
+              }}
+            />
 
-          <PermissionsModalComponent
-            isPermissionsModalVisible={!shouldUseSidebar && isPermissionsModalVisible}
-            onPermissionsClose={() => updateIsPermissionsModalVisible(false)}
-            parameters={{
-              participants: participants.current,
-              member: member.current,
-              islevel: islevel.current,
-              socket: socket.current,
-              roomName: roomName.current,
-              showAlert,
-              coHostResponsibility: coHostResponsibility.current,
-              updateCoHostResponsibility,
-              getUpdatedAllParams: getAllParams as any,
-            }}
-          />
+            <DisplaySettingsModalComponent
+              backgroundColor={themedSurfaceColor}
+              isDisplaySettingsModalVisible={!shouldUseSidebar && isDisplaySettingsModalVisible}
+              onDisplaySettingsClose={() =>
+                updateIsDisplaySettingsModalVisible(false)
+              }
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-          <DisplaySettingsModalComponent
-            backgroundColor={themedSurfaceColor}
-            isDisplaySettingsModalVisible={!shouldUseSidebar && isDisplaySettingsModalVisible}
-            onDisplaySettingsClose={() =>
-              updateIsDisplaySettingsModalVisible(false)
-            }
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <RecordingModalComponent
+              backgroundColor={themedSurfaceColor}
+              isRecordingModalVisible={!shouldUseSidebar && isRecordingModalVisible}
+              onClose={() => updateIsRecordingModalVisible(false)}
+              startRecording={startRecording}
+              confirmRecording={confirmRecording}
+              parameters={getRecordingParams()}
+            />
 
-          <RecordingModalComponent
-            backgroundColor={themedSurfaceColor}
-            isRecordingModalVisible={!shouldUseSidebar && isRecordingModalVisible}
-            onClose={() => updateIsRecordingModalVisible(false)}
-            startRecording={startRecording}
-            confirmRecording={confirmRecording}
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <MessagesModalComponent
+              backgroundColor={
+                eventType.current === 'webinar' ||
+                eventType.current === 'conference'
+                  ? '#f5f5f5'
+                  : 'rgba(255, 255, 255, 0.25)'
+              }
+              isMessagesModalVisible={!shouldUseSidebar && isMessagesModalVisible}
+              onMessagesClose={() => updateIsMessagesModalVisible(false)}
+              messages={messages.current}
+              chatOutbox={chatOutbox}
+              onReactToMessage={reactToMessage}
+              onDeleteMessage={deleteMessage}
+              chatModeration={chatModeration.current}
+              readState={chatReadState.current}
+              onMarkThreadRead={markMessageThreadRead}
+              typingMembers={typingMembers}
+              onTyping={notifyTyping}
+              participants={participants.current}
+              attachmentData={attachmentData}
+              updateAttachmentData={updateAttachmentData}
+              eventType={eventType.current}
+              member={member.current}
+              islevel={islevel.current}
+              coHostResponsibility={coHostResponsibility.current}
+              coHost={coHost.current}
+              startDirectMessage={startDirectMessage.current}
+              directMessageDetails={directMessageDetails.current}
+              updateStartDirectMessage={updateStartDirectMessage}
+              updateDirectMessageDetails={updateDirectMessageDetails}
+              showAlert={showAlert}
+              roomName={roomName.current}
+              socket={socket.current}
+              chatSetting={chatSetting.current}
+            />
 
-          <MessagesModalComponent
-            backgroundColor={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-                ? '#f5f5f5'
-                : 'rgba(255, 255, 255, 0.25)'
-            }
-            isMessagesModalVisible={!shouldUseSidebar && isMessagesModalVisible}
-            onMessagesClose={() => updateIsMessagesModalVisible(false)}
-            messages={messages.current}
-            eventType={eventType.current}
-            member={member.current}
-            islevel={islevel.current}
-            coHostResponsibility={coHostResponsibility.current}
-            coHost={coHost.current}
-            startDirectMessage={startDirectMessage.current}
-            directMessageDetails={directMessageDetails.current}
-            updateStartDirectMessage={updateStartDirectMessage}
-            updateDirectMessageDetails={updateDirectMessageDetails}
-            showAlert={showAlert}
-            roomName={roomName.current}
-            socket={socket.current}
-            chatSetting={chatSetting.current}
-          />
+            <ConfirmExitModalComponent
+              backgroundColor={themedMenuColor}
+              isConfirmExitModalVisible={isConfirmExitModalVisible}
+              onConfirmExitClose={() => updateIsConfirmExitModalVisible(false)}
+              member={member.current}
+              roomName={roomName.current}
+              socket={socket.current}
+              islevel={islevel.current}
+            />
 
-          <ConfirmExitModalComponent
-            backgroundColor={themedMenuColor}
-            isConfirmExitModalVisible={isConfirmExitModalVisible}
-            onConfirmExitClose={() => updateIsConfirmExitModalVisible(false)}
-            member={member.current}
-            roomName={roomName.current}
-            socket={socket.current}
-            islevel={islevel.current}
-          />
+            <ConfirmHereModalComponent
+              backgroundColor={themedMenuColor}
+              isConfirmHereModalVisible={isConfirmHereModalVisible}
+              onConfirmHereClose={() => updateIsConfirmHereModalVisible(false)}
+              member={member.current}
+              roomName={roomName.current}
+              socket={socket.current}
+            />
 
-          <ConfirmHereModalComponent
-            backgroundColor={themedMenuColor}
-            isConfirmHereModalVisible={isConfirmHereModalVisible}
-            onConfirmHereClose={() => updateIsConfirmHereModalVisible(false)}
-            member={member.current}
-            roomName={roomName.current}
-            socket={socket.current}
-          />
+            <ShareEventModalComponent
+              isShareEventModalVisible={!shouldUseSidebar && isShareEventModalVisible}
+              onShareEventClose={() => updateIsShareEventModalVisible(false)}
+              roomName={roomName.current}
+              islevel={islevel.current}
+              adminPasscode={adminPasscode.current}
+              eventType={eventType.current}
+              localLink={localLink}
+            />
 
-          <ShareEventModalComponent
-            isShareEventModalVisible={!shouldUseSidebar && isShareEventModalVisible}
-            onShareEventClose={() => updateIsShareEventModalVisible(false)}
-            roomName={roomName.current}
-            islevel={islevel.current}
-            adminPasscode={adminPasscode.current}
-            eventType={eventType.current}
-            localLink={localLink}
-          />
+            <PollModalComponent
+              isPollModalVisible={!shouldUseSidebar && isPollModalVisible}
+              onClose={() => updatePollSurfaceVisibility(false)}
+              member={member.current}
+              islevel={islevel.current}
+              youAreCoHost={youAreCoHost.current}
+              polls={polls.current}
+              poll={poll.current}
+              socket={socket.current}
+              roomName={roomName.current}
+              showAlert={showAlert}
+              storage={storage}
+              updateIsPollModalVisible={updatePollSurfaceVisibility}
+              handleCreatePoll={handleCreatePoll}
+              handleEndPoll={handleEndPoll}
+              handleVotePoll={handleVotePoll}
+            />
 
-          <PollModalComponent
-            isPollModalVisible={!shouldUseSidebar && isPollModalVisible}
-            onClose={() => updatePollSurfaceVisibility(false)}
-            member={member.current}
-            islevel={islevel.current}
-            polls={polls.current}
-            poll={poll.current}
-            socket={socket.current}
-            roomName={roomName.current}
-            showAlert={showAlert}
-            updateIsPollModalVisible={updatePollSurfaceVisibility}
-            handleCreatePoll={handleCreatePoll}
-            handleEndPoll={handleEndPoll}
-            handleVotePoll={handleVotePoll}
-          />
+            <BackgroundModalComponent
+              isBackgroundModalVisible={!shouldUseSidebar && isBackgroundModalVisible}
+              onBackgroundClose={() => updateIsBackgroundModalVisible(false)}
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-          <BackgroundModalComponent
-            isBackgroundModalVisible={!shouldUseSidebar && isBackgroundModalVisible}
-            onBackgroundClose={() => updateIsBackgroundModalVisible(false)}
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <TranslationSettingsModalComponent
+              isTranslationSettingsModalVisible={
+                !shouldUseSidebar && isTranslationSettingsModalVisible
+              }
+              onTranslationSettingsClose={() =>
+                updateIsTranslationSettingsModalVisible(false)
+              }
+              backgroundColor={themedSurfaceColor}
+              translationConfig={translationConfig.current}
+              member={member.current}
+              participants={participants.current}
+              audioProducerId={audioProducer.current?.id ?? localAudioProducer.current?.id ?? null}
+              mySpokenLanguage={mySpokenLanguage.current}
+              mySpokenLanguageEnabled={mySpokenLanguageEnabled.current}
+              myDefaultOutputLanguage={myDefaultOutputLanguage.current}
+              myDefaultListenLanguage={listenerTranslationPreferences.current.globalLanguage}
+              listenPreferences={new Map(
+                Array.from(listenerTranslationPreferences.current.perSpeaker.entries())
+                  .filter(([, preference]) => Boolean(preference.language) && !preference.wantOriginal)
+                  .map(([speakerId, preference]) => [speakerId, preference.language as string])
+              )}
+              updateMySpokenLanguage={updateMySpokenLanguage}
+              updateMySpokenLanguageEnabled={updateMySpokenLanguageEnabled}
+              updateMyDefaultOutputLanguage={updateMyDefaultOutputLanguage}
+              applyGlobalListenLanguage={setListenerGlobalPreference}
+              applySpeakerListenPreference={setListenerPreferenceForSpeaker}
+              clearSpeakerListenPreference={clearListenerPreferenceForSpeaker}
+              showSubtitlesOnCards={showSubtitlesOnCards.current}
+              updateShowSubtitlesOnCards={updateShowSubtitlesOnCards}
+              roomName={roomName.current}
+              socket={socket.current}
+              showAlert={showAlert}
+            />
 
-          <TranslationSettingsModalComponent
-            isTranslationSettingsModalVisible={
-              !shouldUseSidebar && isTranslationSettingsModalVisible
-            }
-            onTranslationSettingsClose={() =>
-              updateIsTranslationSettingsModalVisible(false)
-            }
-            backgroundColor={themedSurfaceColor}
-            translationConfig={translationConfig.current}
-            member={member.current}
-            participants={participants.current}
-            audioProducerId={audioProducer.current?.id ?? localAudioProducer.current?.id ?? null}
-            mySpokenLanguage={mySpokenLanguage.current}
-            mySpokenLanguageEnabled={mySpokenLanguageEnabled.current}
-            myDefaultOutputLanguage={myDefaultOutputLanguage.current}
-            myDefaultListenLanguage={listenerTranslationPreferences.current.globalLanguage}
-            listenPreferences={new Map(
-              Array.from(listenerTranslationPreferences.current.perSpeaker.entries())
-                .filter(([, preference]) => Boolean(preference.language) && !preference.wantOriginal)
-                .map(([speakerId, preference]) => [speakerId, preference.language as string])
-            )}
-            updateMySpokenLanguage={updateMySpokenLanguage}
-            updateMySpokenLanguageEnabled={updateMySpokenLanguageEnabled}
-            updateMyDefaultOutputLanguage={updateMyDefaultOutputLanguage}
-            applyGlobalListenLanguage={setListenerGlobalPreference}
-            applySpeakerListenPreference={setListenerPreferenceForSpeaker}
-            clearSpeakerListenPreference={clearListenerPreferenceForSpeaker}
-            showSubtitlesOnCards={showSubtitlesOnCards.current}
-            updateShowSubtitlesOnCards={updateShowSubtitlesOnCards}
-            roomName={roomName.current}
-            socket={socket.current}
-            showAlert={showAlert}
-          />
+            <BreakoutRoomsModalComponent
+              backgroundColor={themedSurfaceColor}
+              isVisible={!shouldUseSidebar && isBreakoutRoomsModalVisible}
+              onBreakoutRoomsClose={() =>
+                updateIsBreakoutRoomsModalVisible(false)
+              }
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-          <BreakoutRoomsModalComponent
-            backgroundColor={themedSurfaceColor}
-            isVisible={!shouldUseSidebar && isBreakoutRoomsModalVisible}
-            onBreakoutRoomsClose={() =>
-              updateIsBreakoutRoomsModalVisible(false)
-            }
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <ConfigureWhiteboardModalComponent
+              isConfigureWhiteboardModalVisible={!shouldUseSidebar && isConfigureWhiteboardModalVisible}
+              onConfigureWhiteboardClose={() =>
+                updateIsConfigureWhiteboardModalVisible(false)
+              }
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-          <ConfigureWhiteboardModalComponent
-            isConfigureWhiteboardModalVisible={!shouldUseSidebar && isConfigureWhiteboardModalVisible}
-            onConfigureWhiteboardClose={() =>
-              updateIsConfigureWhiteboardModalVisible(false)
-            }
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <ScreenboardModalComponent
+              isScreenboardModalVisible={!shouldUseSidebar && isScreenboardModalVisible}
+              onScreenboardClose={() => updateIsScreenboardModalVisible(false)}
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-          <ScreenboardModalComponent
-            isScreenboardModalVisible={!shouldUseSidebar && isScreenboardModalVisible}
-            onScreenboardClose={() => updateIsScreenboardModalVisible(false)}
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <AlertComponentOverride
+              visible={alertVisible}
+              message={alertMessage}
+              type={alertType}
+              duration={alertDuration}
+              onHide={() => setAlertVisible(false)}
+              textColor={'#ffffff'}
+            />
 
-          <AlertComponentOverride
-            visible={alertVisible}
-            message={alertMessage}
-            type={alertType}
-            duration={alertDuration}
-            onHide={() => setAlertVisible(false)}
-            textColor={'#ffffff'}
-          />
+            <LoadingModalComponent
+              isVisible={isLoadingModalVisible}
+              backgroundColor={themedSurfaceColor}
+              displayColor="black"
+            />
 
-          <LoadingModalComponent
-            isVisible={isLoadingModalVisible}
-            backgroundColor={themedSurfaceColor}
-            displayColor="black"
-          />
-        </>
-      )}
-    </SafeAreaProvider>
+            <LoadingModalComponent
+              isVisible={isReconnectingVisible && !isLoadingModalVisible}
+              backgroundColor={themedSurfaceColor}
+              displayColor="black"
+              renderContent={() => (
+                <>
+                  <ActivityIndicator size="large" color="black" />
+                  <Text style={{ color: 'black', marginTop: 10, fontSize: 16, textAlign: 'center' }}>
+                    Reconnecting…
+                  </Text>
+                </>
+              )}
+            />
+          </>
+        )}
+      </SafeAreaProvider>
+    </MediasfuRoomProvider>
   );
 };
 
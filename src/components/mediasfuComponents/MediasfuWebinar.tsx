@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { Text, View, Platform, Dimensions, StatusBar } from 'react-native';
+import { Text, View, Platform, Dimensions, StatusBar, ActivityIndicator } from 'react-native';
 import Orientation from '../../methods/utils/orientation/orientation';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { getStatusBarHeight } from 'react-native-status-bar-height';
@@ -64,6 +64,35 @@ import { launchSettings } from '../../methods/settingsMethods/launchSettings';
 import { launchRequests } from '../../methods/requestsMethods/launchRequests';
 import { launchParticipants } from '../../methods/participantsMethods/launchParticipants';
 import { launchMessages } from '../../methods/messageMethods/launchMessages';
+import { createChatOutbox } from '../../methods/messageMethods/chatOutbox';
+import { createChatHistory, mergeMessages } from '../../methods/messageMethods/chatHistory';
+import {
+  applyMessageReaction,
+  sendMessageReaction,
+} from '../../methods/messageMethods/messageThreads';
+import {
+  applyMessageDeletion,
+  DEFAULT_CHAT_MODERATION,
+  deleteMessageForEveryone,
+  fetchChatModerationSettings,
+  isDeletionAllowed,
+  isChatModerationUpdateAllowed,
+} from '../../methods/messageMethods/chatModeration';
+import {
+  countUnreadMessages,
+  createTypingNotifier,
+  createTypingTracker,
+  markMessagesRead,
+  markThreadRead,
+} from '../../methods/messageMethods/chatPresence';
+import { countUnreadMentions } from '../../methods/messageMethods/chatMentions';
+import { getVisibleChatMessages } from '../../methods/messageMethods/chatTranscript';
+import {
+  addAttachmentData,
+  createAttachmentAssembler,
+  getAttachmentSizeLimit,
+} from '../../methods/messageMethods/chatAttachments';
+import { createPollTimer } from '../../methods/pollsMethods/pollTimer';
 import { launchConfirmExit } from '../../methods/exitMethods/launchConfirmExit';
 
 import { launchPoll } from '../../methods/pollsMethods/launchPoll';
@@ -78,7 +107,47 @@ import {
 } from '../../methods/utils/webrtc/webrtc';
 
 // mediasfu functions -- examples
-import { connectSocket, connectLocalSocket } from '../../sockets/SocketManager';
+import {
+  connectSocket,
+  connectLocalSocket,
+  createConnectionStateMachine,
+  watchSocketConnection,
+  stopWatchingTokenExpiry,
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionStateMachine,
+} from '../../sockets/SocketManager';
+import {
+  emitRoomEvent,
+  diffParticipants,
+  MediasfuRoomEvents,
+} from '../../methods/utils/roomEvents';
+import { MediasfuRoomProvider } from '../../contexts/MediasfuRoomContext';
+import {
+  createMediasfuRoomController,
+  MediasfuRoomController,
+} from '../../controllers/mediasfuRoomController';
+import { MediasfuStorage } from '../../methods/utils/storage/mediasfuStorage';
+import { GetTokenType, OnTokenExpiredType } from '../../sockets/socketAuth';
+import {
+  classifyMediasfuErrorMessage,
+  createMediasfuError,
+  emitMediasfuError,
+  MediasfuErrorHandler,
+  withMediasfuErrorReporting,
+} from '../../methods/utils/mediasfuError';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+import {
+  reconnectSocket,
+  isTransientDisconnect,
+  RECORDING_SOCKET_EVENTS,
+  ReconnectionConfig,
+} from '../../sockets/reconnectSocket';
+import { resetMediaTransports } from '../../consumers/resetMediaTransports';
+import {
+  captureActiveMedia,
+  republishMedia,
+} from '../../consumers/republishMedia';
 import { joinRoomClient } from '../../ProducerClient/producerClientEmits/joinRoomClient';
 import { joinLocalRoom } from '../../producers/producerEmits/joinLocalRoom';
 import { updateRoomParametersClient } from '../../ProducerClient/producerClientEmits/updateRoomParametersClient';
@@ -201,6 +270,13 @@ import {
   HParamsType,
   MeetingRoomParams,
   Message,
+  MessageDeletedData,
+  ChatReadState,
+  TypingEventData,
+  AttachmentChunk,
+  MessageReactionData,
+  ChatModerationSettings,
+  ChatModerationUpdatedData,
   Participant,
   Poll,
   ResponseJoinRoom,
@@ -249,6 +325,13 @@ import {
   Transport,
 } from 'mediasoup-client/lib/types';
 import { createResponseJoinRoom } from '../../methods/utils/createResponseJoinRoom';
+import {
+  configureMediasfuLogger,
+  getMediasfuLogger,
+  MediasfuLoggerConfig,
+} from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('room');
 
 export type MediasfuWebinarOptions = {
   PrejoinPage?: (
@@ -275,6 +358,17 @@ export type MediasfuWebinarOptions = {
   customComponent?: React.FC<{ parameters: any }>;
   containerStyle?: object;
   uiOverrides?: import('../../@types/types').MediasfuUICustomOverrides;
+  events?: MediasfuRoomEvents;
+  roomController?: MediasfuRoomController;
+  storage?: MediasfuStorage;
+  getToken?: GetTokenType;
+  onTokenExpired?: OnTokenExpiredType;
+  onError?: MediasfuErrorHandler;
+  logging?: MediasfuLoggerConfig;
+  persistChatHistory?: boolean; // Keep each room's chat, direct messages included, in `storage` across restarts and rejoins; defaults to false. Pass a `createEncryptedStorage` storage when enabling it.
+  onConnectionStateChange?: (change: ConnectionStateChange) => void;
+  connectionStateMachine?: ConnectionStateMachine;
+  reconnection?: ReconnectionConfig;
 };
 
 /**
@@ -390,6 +484,17 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
   customComponent,
   containerStyle,
   uiOverrides,
+  reconnection,
+  onConnectionStateChange,
+  connectionStateMachine: providedConnectionStateMachine,
+  events: providedRoomEvents,
+  roomController: providedRoomController,
+  storage,
+  getToken,
+  onTokenExpired,
+  onError,
+  logging,
+  persistChatHistory = false,
 }) => {
   // UI Override Components
   const MainContainer = React.useMemo(() => withOverride(uiOverrides?.mainContainer, MainContainerComponent), [uiOverrides?.mainContainer]);
@@ -474,7 +579,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       return response;
     } catch (error) {
       // Handle and log errors during the joinRoom process
-      console.log('error', error);
+      logger.error('error joinRoom', error);
       throw new Error(
         'Failed to join the room. Please check your connection and try again.',
       );
@@ -488,6 +593,71 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
   //validated is true if the user has entered the correct details and checked from the server
   const [validated, setValidated] = useState<boolean>(useLocalUIMode); // Validated state as boolean
 
+  // Reconnection state
+  const isReconnecting = useRef<boolean>(false); // True while the session is being resumed after a network drop
+  const [isReconnectingVisible, setIsReconnectingVisible] = useState<boolean>(false); // Drives the "Reconnecting…" overlay
+  const reconnectAttempt = useRef<number>(0); // Current reconnection attempt, 0 when idle
+  const reconnectionAborted = useRef<boolean>(false); // True once the user has left and retries must stop
+
+  // Connection state
+  const connectionStateMachine = React.useMemo(
+    () => providedConnectionStateMachine ?? createConnectionStateMachine(),
+    [providedConnectionStateMachine],
+  );
+  const [connectionState, setConnectionState] = useState<ConnectionState>(
+    connectionStateMachine.getState(),
+  ); // idle, connecting, connected, degraded, reconnecting or closed
+  const stopWatchingSocket = useRef<(() => void) | null>(null); // Removes the degraded/recovered socket listeners
+
+  // Lifecycle callbacks, read through a ref so socket handlers registered once always see the latest ones
+  const roomEvents = useRef<MediasfuRoomEvents | undefined>(providedRoomEvents);
+  roomEvents.current = providedRoomEvents;
+  const onErrorRef = useRef<MediasfuErrorHandler | undefined>(onError);
+  onErrorRef.current = onError;
+
+  const reportError = (error: unknown, details?: Record<string, unknown>) =>
+    emitMediasfuError({ onError: onErrorRef.current, error, details });
+
+  // Transport failures are reported with their code where they happen
+  const reportTransportFailures = <Args extends unknown[], Result>(
+    fn: (...args: Args) => Promise<Result>,
+    action: string,
+  ) =>
+    withMediasfuErrorReporting({
+      fn,
+      code: 'TRANSPORT_FAILED',
+      onError: (error) => onErrorRef.current?.(error),
+      details: { action },
+    });
+
+  useEffect(() => {
+    if (logging) {
+      configureMediasfuLogger(logging);
+    }
+  }, [logging]);
+
+  // Room state mirrored into a controller for the granular hooks (useParticipants, useMessages...)
+  const roomController = React.useMemo(
+    () => providedRoomController ?? createMediasfuRoomController({ connectionStateMachine }),
+    [providedRoomController, connectionStateMachine],
+  );
+
+  // Tear down only a controller created here; a provided one belongs to the caller
+  useEffect(
+    () => (providedRoomController ? undefined : () => roomController.destroy()),
+    [providedRoomController, roomController],
+  );
+  const lastRecordingNoticeState = useRef<string>(''); // Last RecordingNotice state, used to report recording starts once
+
+  useEffect(() => {
+    setConnectionState(connectionStateMachine.getState());
+    return connectionStateMachine.subscribe((change) => {
+      setConnectionState(change.state);
+      roomController.setState({ connectionState: change.state });
+      onConnectionStateChange?.(change);
+    });
+  }, [connectionStateMachine, onConnectionStateChange, roomController]);
+
   // UseRef hooks with type annotations
   const localUIMode = useRef<boolean>(useLocalUIMode); // Local UI mode (desktop or touch) as boolean
   const socket = useRef<Socket>({} as Socket); // Socket for the media server, type Socket or null
@@ -789,8 +959,25 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
     setValidated(value);
   };
 
+  const updateIsReconnecting = (value: boolean) => {
+    isReconnecting.current = value;
+    setIsReconnectingVisible(value);
+  };
+
+  const updateReconnectAttempt = (value: number) => {
+    reconnectAttempt.current = value;
+  };
+
+  const updateConnectionState = (
+    value: ConnectionState,
+    details?: { reason?: string; attempt?: number },
+  ) => {
+    connectionStateMachine.transition(value, details);
+  };
+
   const updateSocket = (value: Socket) => {
     socket.current = value;
+    roomController.setState({ socket: value });
   };
 
   const updateLocalSocket = (value: Socket | null) => {
@@ -814,7 +1001,12 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
   };
 
   const updateRoomName = (value: string) => {
+    const changed = value !== roomName.current;
     roomName.current = value;
+    roomController.setState({ roomName: value });
+    if (changed && value && persistChatHistory) {
+      restoreChatHistory(value);
+    }
   };
 
   const updateMember = (value: string) => {
@@ -823,6 +1015,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       value = value.split('_')[0];
     }
     member.current = value;
+    roomController.setState({ member: value });
   };
 
   const updateAdminPasscode = (value: string) => {
@@ -831,14 +1024,17 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateIslevel = (value: string) => {
     islevel.current = value;
+    roomController.setState({ islevel: value });
   };
 
   const updateCoHost = (value: string) => {
     coHost.current = value;
+    roomController.setState({ coHost: value });
   };
 
   const updateCoHostResponsibility = (value: CoHostResponsibility[]) => {
     coHostResponsibility.current = value;
+    roomController.setState({ coHostResponsibility: value });
   };
 
   const updateYouAreCoHost = (value: boolean) => {
@@ -874,12 +1070,25 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
         // Do nothing
       }
     }
+    roomController.setState({ eventType: value });
   };
 
   const updateParticipants = (value: Participant[]) => {
+    // an empty list means the room is being reset, not that everyone left
+    const { left } = value.length > 0
+      ? diffParticipants({ previous: participants.current, next: value })
+      : { left: [] as Participant[] };
     participants.current = value;
     filteredParticipants.current = value;
     participantsCounter.current = value.length;
+    left.forEach((participant) =>
+      emitRoomEvent({
+        events: roomEvents.current,
+        event: 'onParticipantLeft',
+        payload: { name: participant.name, participant },
+      }),
+    );
+    roomController.setState({ participants: value });
   };
 
   const updateParticipantsCounter = (value: number) => {
@@ -1016,6 +1225,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateParticipantsAll = (value: Participant[]) => {
     participantsAll.current = value;
+    roomController.setState({ participantsAll: value });
   };
 
   const updateConsume_sockets = (value: ConsumeSocket[]) => {
@@ -1121,6 +1331,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateAllVideoStreams = (value: (Participant | Stream)[]) => {
     allVideoStreams.current = value;
+    roomController.setState({ allVideoStreams: value });
   };
 
   const updateNewLimitedStreams = (value: (Participant | Stream)[]) => {
@@ -1133,6 +1344,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateActiveSounds = (value: string[]) => {
     activeSounds.current = value;
+    roomController.setState({ activeSounds: value });
   };
 
   const updateScreenShareIDStream = (value: string) => {
@@ -1165,18 +1377,22 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateRecordStarted = (value: boolean) => {
     recordStarted.current = value;
+    roomController.setState({ recordStarted: value });
   };
 
   const updateRecordResumed = (value: boolean) => {
     recordResumed.current = value;
+    roomController.setState({ recordResumed: value });
   };
 
   const updateRecordPaused = (value: boolean) => {
     recordPaused.current = value;
+    roomController.setState({ recordPaused: value });
   };
 
   const updateRecordStopped = (value: boolean) => {
     recordStopped.current = value;
+    roomController.setState({ recordStopped: value });
   };
 
   const updateAdminRestrictSetting = (value: boolean) => {
@@ -1305,6 +1521,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateScreenAlreadyOn = (value: boolean) => {
     setScreenAlreadyOn(value);
+    roomController.setState({ screenAlreadyOn: value });
   };
 
   const updateChatAlreadyOn = (value: boolean) => {
@@ -1521,6 +1738,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateAllAudioStreams = (value: (Participant | Stream)[]) => {
     allAudioStreams.current = value;
+    roomController.setState({ allAudioStreams: value });
   };
 
   const updateRemoteScreenStream = (value: Stream[]) => {
@@ -1602,6 +1820,10 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
   const videoSetting = useRef<string>('allow'); // User's video setting as string
   const screenshareSetting = useRef<string>('allow'); // User's screenshare setting as string
   const chatSetting = useRef<string>('allow'); // User's chat setting as string
+  const chatModeration = useRef<ChatModerationSettings>(DEFAULT_CHAT_MODERATION); // Blocked words and slow mode of the room
+  const chatReadState = useRef<ChatReadState>({}); // When the local member last read each conversation
+  const [typingMembers, setTypingMembers] = useState<TypingEventData[]>([]); // Members typing in the room
+  const [attachmentData, setAttachmentData] = useState<{ [attachmentId: string]: string }>({}); // Chat attachments as data URIs
 
   // Display settings related variables
   const displayOption = useRef<string>(
@@ -1825,8 +2047,204 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
     useState<boolean>(false); // True if the screenboard modal should be shown
 
   // Update functions
+  const chatHistory = React.useMemo(() => createChatHistory({ storage }), [storage]);
+
   const updateMessages = (value: Message[]) => {
     messages.current = value;
+    roomController.setState({ messages: value });
+    if (persistChatHistory) {
+      chatHistory.save(roomName.current, value);
+    }
+  };
+
+  // updates made outside receiveMessage (outbox status, reactions) re-render the open chat
+  const [messagesRevision, setMessagesRevision] = useState(0);
+  const refreshMessages = (value: Message[]) => {
+    updateMessages(value);
+    setMessagesRevision((revision) => revision + 1);
+  };
+
+  // messages typed while the socket is down are queued here and resent after a reconnect
+  const chatOutbox = React.useMemo(
+    () =>
+      createChatOutbox({
+        getMessages: () => messages.current,
+        updateMessages: refreshMessages,
+      }),
+    [],
+  );
+
+  // earlier messages of the room are merged in once they are read back from storage
+  const restoreChatHistory = async (room: string) => {
+    const history = await chatHistory.load(room);
+    if (history.length > 0 && roomName.current === room) {
+      updateChatReadState(
+        markMessagesRead({ messages: history, member: member.current, readState: chatReadState.current }),
+      );
+      refreshMessages(mergeMessages(history, messages.current));
+    }
+  };
+
+  const reactToMessage = ({ message, emoji }: { message: Message; emoji: string }) => {
+    if (!socket.current) {
+      return;
+    }
+    const data = sendMessageReaction({
+      socket: socket.current,
+      roomName: roomName.current,
+      member: member.current,
+      message,
+      emoji,
+    });
+    refreshMessages(applyMessageReaction({ messages: messages.current, data }));
+  };
+
+  const deleteMessage = ({ message }: { message: Message }) => {
+    if (!socket.current) {
+      return;
+    }
+    const data = deleteMessageForEveryone({
+      socket: socket.current,
+      roomName: roomName.current,
+      message,
+      member: member.current,
+      islevel: islevel.current,
+      coHost: coHost.current,
+      coHostResponsibility: coHostResponsibility.current,
+      showAlert,
+    });
+    if (data) {
+      refreshMessages(applyMessageDeletion({ messages: messages.current, data }));
+    }
+  };
+
+  const updateChatReadState = (value: ChatReadState) => {
+    chatReadState.current = value;
+    roomController.setState({ chatReadState: value });
+    setMessagesRevision((revision) => revision + 1);
+  };
+
+  const markMessageThreadRead = ({ threadKey }: { threadKey: string }) => {
+    const value = markThreadRead({
+      readState: chatReadState.current,
+      threadKey,
+      messages: messages.current,
+      member: member.current,
+    });
+    if (value !== chatReadState.current) {
+      updateChatReadState(value);
+    }
+  };
+
+  // only the messages the member can open in the chat count as unread
+  // counted again only when the messages or the read state change, not on every render
+  const { unreadMessagesCount, unreadMentionsCount } = React.useMemo(() => {
+    const visibleMessages = getVisibleChatMessages({
+      messages: messages.current,
+      member: member.current,
+      islevel: islevel.current,
+      coHost: coHost.current,
+      coHostResponsibility: coHostResponsibility.current,
+    });
+    return {
+      unreadMessagesCount: Object.values(
+        countUnreadMessages({
+          messages: visibleMessages,
+          member: member.current,
+          readState: chatReadState.current,
+        }),
+      ).reduce((total, count) => total + count, 0),
+      // unread mentions of the member are flagged with an `@` on the badge
+      unreadMentionsCount: countUnreadMentions({
+        messages: messages.current,
+        member: member.current,
+        readState: chatReadState.current,
+      }),
+    };
+  }, [messagesRevision, messages.current, chatReadState.current, islevel.current, coHost.current, coHostResponsibility.current]);
+  const unreadMessagesBadge =
+    (unreadMentionsCount > 0 ? '@' : '') +
+    (unreadMessagesCount > 99 ? '99+' : unreadMessagesCount > 0 ? String(unreadMessagesCount) : '');
+
+  // typing events are ephemeral: a member is dropped when their events stop arriving
+  const typingTracker = React.useMemo(
+    () =>
+      createTypingTracker({
+        onChange: (value) => {
+          setTypingMembers(value);
+          roomController.setState({ typingMembers: value });
+        },
+      }),
+    [],
+  );
+  const typingNotifier = React.useMemo(() => createTypingNotifier(), []);
+  React.useEffect(() => () => typingTracker.clear(), [typingTracker]);
+
+  const updateAttachmentData = React.useCallback(
+    (attachmentId: string, data: string) => {
+      setAttachmentData((previous) => {
+        const value = addAttachmentData({ attachmentData: previous, attachmentId, data });
+        roomController.setState({ attachmentData: value });
+        return value;
+      });
+    },
+    [roomController],
+  );
+
+  // attachments arrive in chunks after the message that carries them
+  const attachmentAssembler = React.useMemo(
+    () =>
+      createAttachmentAssembler({
+        onComplete: updateAttachmentData,
+        getMaxSize: () => getAttachmentSizeLimit(roomName.current),
+      }),
+    [updateAttachmentData],
+  );
+
+  // timed polls warn voters before they close, and the host ends them when time is up
+  const pollTimer = React.useMemo(
+    () =>
+      createPollTimer({
+        onWarning: (secondsLeft) =>
+          showAlert({ message: `The poll closes in ${secondsLeft} seconds`, type: 'success' }),
+        onExpire: (expiredPoll) => {
+          if (islevel.current === '2') {
+            handleEndPoll({
+              pollId: expiredPoll.id,
+              socket: socket.current,
+              showAlert,
+              roomName: roomName.current,
+              updateIsPollModalVisible: updateIsPollModalVisible,
+            });
+          }
+        },
+      }),
+    [],
+  );
+  React.useEffect(() => () => pollTimer.clear(), [pollTimer]);
+
+  const notifyTyping = ({
+    isTyping,
+    ...options
+  }: {
+    group: boolean;
+    receivers: string[];
+    isTyping: boolean;
+  }) => {
+    if (!socket.current) {
+      return;
+    }
+    const typing = {
+      ...options,
+      socket: socket.current,
+      roomName: roomName.current,
+      member: member.current,
+    };
+    if (isTyping) {
+      typingNotifier.notify(typing);
+    } else {
+      typingNotifier.stop(typing);
+    }
   };
 
   const updateStartDirectMessage = (value: boolean) => {
@@ -1839,6 +2257,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateShowMessagesBadge = (value: boolean) => {
     setShowMessagesBadge(value);
+    roomController.setState({ showMessagesBadge: value });
   };
 
   const updateAudioSetting = (value: string) => {
@@ -1855,6 +2274,13 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateChatSetting = (value: string) => {
     chatSetting.current = value;
+    roomController.setState({ chatSetting: value });
+  };
+
+  const updateChatModeration = (value: ChatModerationSettings) => {
+    chatModeration.current = value;
+    roomController.setState({ chatModeration: value });
+    setMessagesRevision((revision) => revision + 1);
   };
 
   const updateDisplayOption = (value: string) => {
@@ -2010,6 +2436,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
     if (value === false) {
       updateShowMessagesBadge(false);
     }
+    roomController.setState({ isMessagesModalVisible: value });
   };
 
   const updateIsConfirmExitModalVisible = (value: boolean) => {
@@ -2113,6 +2540,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateRecordState = (value: string) => {
     setRecordState(value);
+    roomController.setState({ recordState: value });
   };
 
   const updateShowRecordButtons = (value: boolean) => {
@@ -2121,6 +2549,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateRecordingProgressTime = (value: string) => {
     setRecordingProgressTime(value);
+    roomController.setState({ recordingProgressTime: value });
   };
 
   const updateAudioSwitching = (value: boolean) => {
@@ -2134,11 +2563,13 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
   const updateVideoAlreadyOn = (value: boolean) => {
     videoAlreadyOn.current = value;
     setVideoActive(value);
+    roomController.setState({ videoAlreadyOn: value });
   };
 
   const updateAudioAlreadyOn = (value: boolean) => {
     audioAlreadyOn.current = value;
     setMicActive(value);
+    roomController.setState({ audioAlreadyOn: value });
   };
 
   const updateComponentSizes = (sizes: ComponentSizes) => {
@@ -2163,6 +2594,15 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
     if (cameraStatus === RESULTS.GRANTED) {
       setHasCameraPermission(true);
+    } else if (cameraStatus === RESULTS.DENIED || cameraStatus === RESULTS.BLOCKED) {
+      reportError(
+        createMediasfuError({
+          code: 'PERMISSION_DENIED',
+          message: 'Camera permission was denied.',
+          recoverable: cameraStatus === RESULTS.DENIED,
+          details: { permission: 'camera', status: cameraStatus },
+        }),
+      );
     }
 
     return cameraStatus;
@@ -2178,6 +2618,15 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
     if (audioStatus === RESULTS.GRANTED) {
       setHasAudioPermission(true);
+    } else if (audioStatus === RESULTS.DENIED || audioStatus === RESULTS.BLOCKED) {
+      reportError(
+        createMediasfuError({
+          code: 'PERMISSION_DENIED',
+          message: 'Microphone permission was denied.',
+          recoverable: audioStatus === RESULTS.DENIED,
+          details: { permission: 'microphone', status: audioStatus },
+        }),
+      );
     }
 
     return audioStatus;
@@ -2253,14 +2702,17 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updatePolls = (value: Poll[]) => {
     polls.current = value;
+    roomController.setState({ polls: value });
   };
 
   const updatePoll = (value: Poll | null) => {
     poll.current = value;
+    roomController.setState({ poll: value });
   };
 
   const updateIsPollModalVisible = (value: boolean) => {
     setIsPollModalVisible(value);
+    roomController.setState({ isPollModalVisible: value });
   };
 
   // Update functions
@@ -2322,6 +2774,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateBreakoutRooms = (value: BreakoutParticipant[][]) => {
     breakoutRooms.current = value;
+    roomController.setState({ breakoutRooms: value });
   };
 
   const updateCurrentRoomIndex = (value: number) => {
@@ -2334,14 +2787,17 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateBreakOutRoomStarted = (value: boolean) => {
     breakOutRoomStarted.current = value;
+    roomController.setState({ breakOutRoomStarted: value });
   };
 
   const updateBreakOutRoomEnded = (value: boolean) => {
     breakOutRoomEnded.current = value;
+    roomController.setState({ breakOutRoomEnded: value });
   };
 
   const updateHostNewRoom = (value: number) => {
     hostNewRoom.current = value;
+    roomController.setState({ hostNewRoom: value });
   };
 
   const updateLimitedBreakRoom = (value: BreakoutParticipant[]) => {
@@ -2358,6 +2814,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
 
   const updateIsBreakoutRoomsModalVisible = (value: boolean) => {
     setIsBreakoutRoomsModalVisible(value);
+    roomController.setState({ isBreakoutRoomsModalVisible: value });
   };
 
   const updateWhiteboardUsers = (value: WhiteboardUser[]) => {
@@ -2482,10 +2939,10 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       rePort,
       trigger,
       consumerResume: consumerResumeFn,
-      connectSendTransport,
-      connectSendTransportAudio,
-      connectSendTransportVideo,
-      connectSendTransportScreen,
+      connectSendTransport: reportTransportFailures(connectSendTransport, 'connectSendTransport'),
+      connectSendTransportAudio: reportTransportFailures(connectSendTransportAudio, 'connectSendTransportAudio'),
+      connectSendTransportVideo: reportTransportFailures(connectSendTransportVideo, 'connectSendTransportVideo'),
+      connectSendTransportScreen: reportTransportFailures(connectSendTransportScreen, 'connectSendTransportScreen'),
       processConsumerTransports,
       resumePauseStreams,
       readjust,
@@ -2498,7 +2955,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       changeVids,
       compareActiveNames,
       compareScreenStates,
-      createSendTransport,
+      createSendTransport: reportTransportFailures(createSendTransport, 'createSendTransport'),
       resumeSendTransportAudio,
       receiveAllPipedTransports,
       disconnectSendTransportVideo,
@@ -2506,7 +2963,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       disconnectSendTransportScreen,
       getPipedProducersAlt,
       signalNewConsumerTransport,
-      connectRecvTransport,
+      connectRecvTransport: reportTransportFailures(connectRecvTransport, 'connectRecvTransport'),
       reUpdateInter,
       updateParticipantAudioDecibels,
       closeAndResize,
@@ -2924,6 +3381,13 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       isScreenboardModalVisible: isScreenboardModalVisible,
 
       validated: validated,
+      isReconnecting: isReconnecting.current,
+      reconnectAttempt: reconnectAttempt.current,
+      updateIsReconnecting,
+      updateReconnectAttempt,
+      connectionState: connectionState,
+      connectionStateMachine,
+      updateConnectionState,
 
       device: device.current,
       socket: socket.current,
@@ -3326,6 +3790,27 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
     setAlertVisible(true);
   };
 
+  // The recording methods only surface their limits as alerts; report those as typed errors too
+  const showRecordingAlert: typeof showAlert = (alert) => {
+    showAlert(alert);
+    if (alert.type === 'danger') {
+      reportError(
+        createMediasfuError({
+          code: 'RECORDING_LIMIT',
+          message: alert.message,
+          details: { source: 'recording' },
+        }),
+      );
+    }
+  };
+
+  const getRecordingParams = () => ({
+    ...getAllParams(),
+    ...mediaSFUFunctions(),
+    showAlert: showRecordingAlert,
+    getUpdatedAllParams: () => ({ ...getUpdatedAllParams(), showAlert: showRecordingAlert }),
+  });
+
   //state variables for the control buttons
   const [micActive, setMicActive] = useState(
     audioAlreadyOn.current ? audioAlreadyOn.current : false,
@@ -3349,7 +3834,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       active: recordPaused.current === false,
       onPress: () => {
         updateRecording({
-          parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+          parameters: getRecordingParams(),
         });
       },
       activeColor: 'black',
@@ -3363,7 +3848,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       active: false,
       onPress: () => {
         stopRecording({
-          parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+          parameters: getRecordingParams(),
         });
       },
       activeColor: 'green',
@@ -3399,7 +3884,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       // name: 'Status',
       icon: 'dot-circle',
       active: false,
-      onPress: () => console.log('Status pressed'),
+      onPress: () => logger.debug('Status pressed'),
       activeColor: 'black',
       inActiveColor: recordPaused.current === false ? 'red' : 'yellow',
       show: true,
@@ -3468,7 +3953,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       ),
       show: showRecordButtons && islevel.current === '2',
       action: () => {
-        console.log('record buttons pressed');
+        logger.debug('record buttons pressed');
       },
     },
     {
@@ -3721,7 +4206,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
           {/* Your icon */}
           <FontAwesome5 name="comments" size={24} color="black" />
           {/* Conditionally render a badge */}
-          {showMessagesBadge && (
+          {(showMessagesBadge || unreadMessagesCount > 0) && (
             <View
               style={{
                 position: 'absolute',
@@ -3743,7 +4228,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
                 <Text
                   style={{ color: 'white', fontSize: 8, fontWeight: 'bold' }}
                 >
-                  *
+                  {unreadMessagesBadge || '*'}
                 </Text>
               </View>
             </View>
@@ -4106,12 +4591,15 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
               updateDevice(device_);
             }
           } catch (error) {
-            console.log('error Device', error);
+            logger.error('error Device', error);
           }
         }
       } catch (error) {
-        console.log('error updateRoomParametersClient', error);
+        logger.error('error updateRoomParametersClient', error);
       }
+
+      // the room is joined: only now does the connection count as connected
+      updateConnectionState('connected', isReconnecting.current ? { reason: 'resumed' } : undefined);
     }
 
     if (data && data.success) {
@@ -4156,8 +4644,19 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
       }
 
       //might be a wrong room name or room is full or other error; check reason in data object if available
+      updateConnectionState('closed', { reason: data?.reason || 'Unable to join the room.' });
       // updateValidated(false);
       try {
+        reportError(
+          createMediasfuError({
+            code:
+              data?.banned || data?.suspended
+                ? 'BANNED'
+                : classifyMediasfuErrorMessage(data?.reason ?? ''),
+            message: data?.reason || 'Unable to join the room.',
+            details: { banned: data?.banned, suspended: data?.suspended, noAdmin: data?.noAdmin },
+          }),
+        );
         if (showAlert) {
           showAlert({ message: data!.reason!, type: 'danger', duration: 3000 });
         }
@@ -4179,7 +4678,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
         // Assuming each socket has a disconnect method
         socket[ip].disconnect();
       } catch (error) {
-        console.log(
+        logger.error(
           `Error disconnecting socket with IP: ${Object.keys(socket)[0]}`,
           error,
         );
@@ -4190,6 +4689,14 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
   async function closeAndReset() {
     //close and clean up all sockets, modals,... and reset all states to initial values
 
+    reconnectionAborted.current = true;
+    stopWatchingSocket.current?.();
+    stopWatchingSocket.current = null;
+    if (socket.current) {
+      stopWatchingTokenExpiry({ socket: socket.current });
+    }
+    updateConnectionState('closed');
+
     updateIsMessagesModalVisible(false);
     updateIsParticipantsModalVisible(false);
     updateIsWaitingModalVisible(false);
@@ -4224,6 +4731,90 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
     }, 500);
   }
 
+  async function resumeSession(reason: string): Promise<boolean> {
+    //rejoin the room on a fresh socket after a transient network drop instead of resetting
+    if (
+      reconnection?.enabled === false ||
+      isReconnecting.current ||
+      !isTransientDisconnect({ reason })
+    ) {
+      return false;
+    }
+
+    updateIsReconnecting(true);
+    reconnectionAborted.current = false;
+    stopWatchingSocket.current?.();
+    stopWatchingSocket.current = null;
+    updateConnectionState('reconnecting', { reason });
+    const activeMedia = captureActiveMedia({ parameters: getAllParams() });
+
+    try {
+      // stop socket.io from retrying the dropped socket in parallel
+      stopWatchingTokenExpiry({ socket: socket.current });
+      socket.current.off();
+      socket.current.disconnect();
+      // connect_Socket registers the recording handlers on a separate MediaSFU socket again
+      if (localSocket.current && localSocket.current !== socket.current) {
+        RECORDING_SOCKET_EVENTS.forEach((event) => localSocket.current!.off(event));
+      }
+    } catch {
+      // the dropped socket may already be closed
+    }
+
+    const newSocket = await reconnectSocket({
+      apiUserName: apiUserName.current,
+      apiToken: apiToken.current,
+      link: link.current,
+      connectSocket,
+      localLink,
+      connectLocalSocket,
+      getToken,
+      onTokenExpired,
+      onTokenChange: updateApiToken,
+      config: reconnection,
+      onAttempt: (attempt) => {
+        updateReconnectAttempt(attempt);
+        updateConnectionState('reconnecting', { reason, attempt });
+      },
+      shouldAbort: () => reconnectionAborted.current,
+    });
+
+    if (!newSocket) {
+      if (!reconnectionAborted.current) {
+        reportError(
+          createMediasfuError({
+            code: 'NETWORK',
+            message: 'Unable to reconnect to the room.',
+            details: { reason },
+          }),
+        );
+      }
+      updateIsReconnecting(false);
+      updateReconnectAttempt(0);
+      return false;
+    }
+
+    try {
+      await resetMediaTransports({
+        parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+      });
+      updateSocket(newSocket);
+      await connect_Socket(apiUserName.current, apiToken.current);
+      chatOutbox.flush({ socket: newSocket, roomName: roomName.current });
+      await republishMedia({
+        activeMedia,
+        parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+      });
+    } catch (error) {
+      logger.error('error resumeSession', error);
+      reportError(error, { reason });
+    }
+
+    updateIsReconnecting(false);
+    updateReconnectAttempt(0);
+    return true;
+  }
+
   async function connect_Socket(
     apiUserName: string,
     token: string,
@@ -4231,15 +4822,25 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
   ): Promise<Socket | null> {
     //connect socket and attach events listeners to socket
     //Refer to https://www.mediasfu.com/documentation for full documentation of each event and its parameters as well uasage
-    const socketDefault = socket.current;
-    const socketAlt =
+    const socketDefault: MediasfuSocket = socket.current;
+    const socketAlt: MediasfuSocket =
       connectMediaSFU && localSocket.current && localSocket.current.id
         ? localSocket.current
         : socketDefault;
 
     if (socketDefault.id) {
       if (!skipSockets) {
-        socketDefault.on('disconnect', async () => {
+        stopWatchingSocket.current?.();
+        stopWatchingSocket.current = watchSocketConnection({
+          socket: socketDefault,
+          machine: connectionStateMachine,
+        });
+
+        socketDefault.on('disconnect', async (reason: string) => {
+          if (await resumeSession(reason)) {
+            return;
+          }
+
           await disconnect({
             showAlert,
             redirectURL: redirectURL.current,
@@ -4323,6 +4924,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
             name,
             showAlert,
           });
+          emitRoomEvent({ events: roomEvents.current, event: 'onParticipantJoined', payload: { name } });
         });
 
         socketDefault.on(
@@ -4476,6 +5078,8 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
         );
 
         socketDefault.on('meetingEnded', async function () {
+          updateConnectionState('closed', { reason: 'meetingEnded' });
+          emitRoomEvent({ events: roomEvents.current, event: 'onMeetingEnded' });
           await meetingEnded({
             showAlert,
             redirectURL: redirectURL.current,
@@ -4515,6 +5119,13 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
         socketDefault.on(
           'receiveMessage',
           async ({ message }: { message: Message }) => {
+            if (chatOutbox.acknowledge(message)) {
+              return;
+            }
+            if (message.attachment) {
+              attachmentAssembler.expect(message.attachment.id);
+            }
+            typingTracker.stopTyping(message.sender);
             await receiveMessage({
               message,
               messages: messages.current,
@@ -4523,12 +5134,57 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
               eventType: eventType.current,
               islevel: islevel.current,
               coHost: coHost.current,
-              updateMessages,
+              updateMessages: refreshMessages,
               updateShowMessagesBadge,
+              chatModeration: chatModeration.current,
+              showAlert,
             });
+            emitRoomEvent({ events: roomEvents.current, event: 'onMessageReceived', payload: { message } });
           },
         );
 
+        socketDefault.on('messageReaction', (data: MessageReactionData) => {
+          refreshMessages(applyMessageReaction({ messages: messages.current, data }));
+        });
+
+        socketDefault.on('messageDeleted', (data: MessageDeletedData) => {
+          if (
+            !isDeletionAllowed({
+              data,
+              participants: participants.current,
+              coHost: coHost.current,
+              coHostResponsibility: coHostResponsibility.current,
+            })
+          ) {
+            return;
+          }
+          refreshMessages(applyMessageDeletion({ messages: messages.current, data }));
+        });
+
+        socketDefault.on('userTyping', (data: TypingEventData) => {
+          if (data.member !== member.current) {
+            typingTracker.handle(data);
+          }
+        });
+
+        socketDefault.on('attachmentChunk', (data: AttachmentChunk) => {
+          attachmentAssembler.handle(data);
+        });
+
+        socketDefault.on('chatModerationUpdated', (data: ChatModerationUpdatedData) => {
+          if (
+            !isChatModerationUpdateAllowed({
+              data,
+              participants: participants.current,
+              coHost: coHost.current,
+              coHostResponsibility: coHostResponsibility.current,
+            })
+          ) {
+            return;
+          }
+          updateChatModeration({ ...DEFAULT_CHAT_MODERATION, ...data.settings });
+        });
+
         socketDefault.on(
           'meetingTimeRemaining',
           async ({ timeRemaining }: { timeRemaining: number }) => {
@@ -4594,6 +5250,7 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
               poll: poll.current!,
               member: member.current,
               islevel: islevel.current,
+              youAreCoHost: youAreCoHost.current,
               showAlert,
               updatePolls,
               updatePoll,
@@ -4602,6 +5259,14 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
           } catch {
             // Handle error
           }
+          pollTimer.sync(data.status === 'ended' ? null : poll.current);
+
+          emitRoomEvent({ events: roomEvents.current, event: 'onPollUpdated', payload: data });
+          if (data.status === 'started') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onPollStarted', payload: { poll: data.poll } });
+          } else if (data.status === 'ended') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onPollEnded', payload: { poll: data.poll } });
+          }
         });
 
         socketDefault.on(
@@ -4618,21 +5283,20 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
             } catch {
               //console.log('error breakoutRoomUpdated', error);
             }
+
+            emitRoomEvent({ events: roomEvents.current, event: 'onBreakoutRoomsUpdated', payload: data });
+            if (data.status === 'started') {
+              emitRoomEvent({ events: roomEvents.current, event: 'onBreakoutStarted', payload: data });
+            } else if (data.status === 'ended') {
+              emitRoomEvent({ events: roomEvents.current, event: 'onBreakoutEnded', payload: data });
+            }
           },
         );
       }
 
       if (skipSockets) {
         // try remove all listeners related to recoding on  socketDefault and socketAlt
-        const events = [
-          'roomRecordParams',
-          'startRecords',
-          'reInitiateRecording',
-          'RecordingNotice',
-          'timeLeftRecording',
-          'stoppedRecording',
-        ];
-        events.forEach((event) => {
+        RECORDING_SOCKET_EVENTS.forEach((event) => {
           socketDefault.off(event);
           socketAlt.off(event);
         });
@@ -4678,6 +5342,14 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
               ...mediaSFUFunctions(),
             },
           });
+
+          emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStateChanged', payload: { state } });
+          if (state === 'recording' && lastRecordingNoticeState.current !== 'recording') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStarted' });
+          } else if (state === 'stop') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStopped', payload: {} });
+          }
+          lastRecordingNoticeState.current = state;
         },
       );
 
@@ -4699,6 +5371,12 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
             reason,
             showAlert,
           });
+
+          emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStateChanged', payload: { state, reason } });
+          if (lastRecordingNoticeState.current !== 'stop') {
+            emitRoomEvent({ events: roomEvents.current, event: 'onRecordingStopped', payload: { reason } });
+          }
+          lastRecordingNoticeState.current = 'stop';
         },
       );
 
@@ -4747,7 +5425,20 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
         await receiveRoomMessages({
           socket: socketDefault,
           roomName: roomName.current,
-          updateMessages,
+          // merged with restored history, and with messages still in the outbox that the room
+          // messages do not have yet
+          updateMessages: (roomMessages) =>
+            refreshMessages(
+              mergeMessages(
+                messages.current,
+                chatOutbox.restore({ roomName: roomName.current, messages: roomMessages }),
+              ),
+            ),
+        });
+        fetchChatModerationSettings({
+          socket: socketDefault,
+          roomName: roomName.current,
+          updateChatModeration,
         });
 
         if (!skipSockets) {
@@ -4780,18 +5471,22 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
         apiToken.current,
       );
       updateSocket(_socket!);
+      if (!_socket) {
+        updateConnectionState('closed');
+      }
     };
 
     if (validated) {
       try {
         if (localUIMode.current === false) {
           updateIsLoadingModalVisible(true);
+          updateConnectionState('connecting');
           connectAndAddSocketMethods();
         } else {
           updateIsLoadingModalVisible(false);
         }
       } catch (error) {
-        console.log('error connectAndAddSocketMethods', error);
+        logger.error('error connectAndAddSocketMethods', error);
       }
 
       startMeetingProgressTimer({
@@ -4810,473 +5505,506 @@ const MediasfuWebinar: React.FC<MediasfuWebinarOptions> = ({
           }
         }
       } catch {
-        console.log('error updateSourceParameters');
+        logger.error('error updateSourceParameters');
       }
     }
   }, [validated]);
 
   return (
-    <SafeAreaProvider
-      style={{
-        marginTop: Platform.OS === 'ios' ? 0 : getStatusBarHeight(),
-      }}
-    >
-      <StatusBar
-        animated
-        hidden={false}
-        networkActivityIndicatorVisible={true}
-        translucent={true} // Keep this if you want the content to show behind the status bar
-        backgroundColor="rgba(0, 0, 0, 0.2)"
-        barStyle="light-content"
-      />
-
-      {/* MainContainerComponent displays the room and controls */}
-      {/* WelcomePage is for authentication of room credentials */}
-
-      {!validated ? (
-        <PrejoinPage
-          parameters={{
-            imgSrc,
-            showAlert,
-            updateIsLoadingModalVisible,
-            connectSocket,
-            connectLocalSocket,
-            updateSocket,
-            updateLocalSocket,
-            updateValidated,
-            updateApiUserName,
-            updateApiToken,
-            updateLink,
-            updateRoomName,
-            updateMember,
-          }}
-          credentials={credentials}
-          localLink={localLink}
-          connectMediaSFU={connectMediaSFU}
-          returnUI={returnUI}
-          noUIPreJoinOptions={noUIPreJoinOptions}
-          joinMediaSFURoom={joinMediaSFURoom}
-          createMediaSFURoom={createMediaSFURoom}
+    <MediasfuRoomProvider controller={roomController}>
+      <SafeAreaProvider
+        style={{
+          marginTop: Platform.OS === 'ios' ? 0 : getStatusBarHeight(),
+        }}
+      >
+        <StatusBar
+          animated
+          hidden={false}
+          networkActivityIndicatorVisible={true}
+          translucent={true} // Keep this if you want the content to show behind the status bar
+          backgroundColor="rgba(0, 0, 0, 0.2)"
+          barStyle="light-content"
         />
-      ) : customComponent ? (
-        React.createElement(customComponent, { parameters: { ...getAllParams(), ...mediaSFUFunctions() } })
-      ) : returnUI ? (
-        <MainContainer style={containerStyle}>
-          {/* Main aspect component containsa ll but the control buttons (as used for webinar and conference) */}
-          <MainAspect
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            defaultFraction={1 - controlHeight}
-            updateIsWideScreen={updateIsWideScreen}
-            updateIsMediumScreen={updateIsMediumScreen}
-            updateIsSmallScreen={updateIsSmallScreen}
-            showControls={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-            }
-          >
-            {/* MainScreenComponent contains the main grid view and the minor grid view */}
-            <MainScreen
-              doStack={true}
-              mainSize={mainHeightWidth}
-              updateComponentSizes={updateComponentSizes}
+
+        {/* MainContainerComponent displays the room and controls */}
+        {/* WelcomePage is for authentication of room credentials */}
+
+        {!validated ? (
+          <PrejoinPage
+            parameters={{
+              imgSrc,
+              showAlert,
+              updateIsLoadingModalVisible,
+              connectSocket,
+              connectLocalSocket,
+              updateSocket,
+              updateLocalSocket,
+              updateValidated,
+              updateApiUserName,
+              updateApiToken,
+              updateLink,
+              updateRoomName,
+              updateMember,
+              storage,
+              getToken,
+              onTokenExpired,
+              onError: reportError,
+            }}
+            credentials={credentials}
+            localLink={localLink}
+            connectMediaSFU={connectMediaSFU}
+            returnUI={returnUI}
+            noUIPreJoinOptions={noUIPreJoinOptions}
+            joinMediaSFURoom={joinMediaSFURoom}
+            createMediaSFURoom={createMediaSFURoom}
+          />
+        ) : customComponent ? (
+          React.createElement(customComponent, { parameters: { ...getAllParams(), ...mediaSFUFunctions() } })
+        ) : returnUI ? (
+          <MainContainer style={containerStyle}>
+            {/* Main aspect component containsa ll but the control buttons (as used for webinar and conference) */}
+            <MainAspect
+              backgroundColor="rgba(217, 227, 234, 0.99)"
               defaultFraction={1 - controlHeight}
-              componentSizes={componentSizes.current}
+              updateIsWideScreen={updateIsWideScreen}
+              updateIsMediumScreen={updateIsMediumScreen}
+              updateIsSmallScreen={updateIsSmallScreen}
               showControls={
                 eventType.current === 'webinar' ||
                 eventType.current === 'conference'
               }
             >
-              {/* MainGridComponent shows the main grid view - not used at all in chat event type  and conference event type when screenshare is not active*/}
-              {/* MainGridComponent becomes the dominant grid view in broadcast and webinar event types */}
-              {/* MainGridComponent becomes the dominant grid view in conference event type when screenshare is active */}
-
-              <MainGrid
-                height={componentSizes.current.mainHeight}
-                width={componentSizes.current.mainWidth}
-                backgroundColor="rgba(217, 227, 234, 0.99)"
-                showAspect={mainHeightWidth > 0 ? true : false}
-                timeBackgroundColor={recordState}
-                meetingProgressTime={meetingProgressTime}
+              {/* MainScreenComponent contains the main grid view and the minor grid view */}
+              <MainScreen
+                doStack={true}
+                mainSize={mainHeightWidth}
+                updateComponentSizes={updateComponentSizes}
+                defaultFraction={1 - controlHeight}
+                componentSizes={componentSizes.current}
+                showControls={
+                  eventType.current === 'webinar' ||
+                  eventType.current === 'conference'
+                }
               >
-                <FlexibleVideoComponent
-                  customWidth={componentSizes.current.mainWidth}
-                  customHeight={componentSizes.current.mainHeight}
-                  rows={1}
-                  columns={1}
-                  componentsToRender={
-                    mainGridStream.current ? mainGridStream.current : []
-                  }
-                  showAspect={
-                    mainGridStream.current.length > 0 &&
-                    !(whiteboardStarted.current && !whiteboardEnded.current)
-                  }
-                />
-              </MainGrid>
-
-              {/* OthergridComponent shows the minor grid view - not used at all in broadcast event type */}
-              {/* OthergridComponent becomes the dominant grid view in conference (the main grid only gets re-introduced during screenshare) and chat event types */}
-              <OtherGrid
-                height={componentSizes.current.otherHeight}
-                width={componentSizes.current.otherWidth}
-                backgroundColor={'rgba(217, 227, 234, 0.99)'}
-                showAspect={mainHeightWidth === 100 ? false : true}
-                timeBackgroundColor={recordState}
-                showTimer={mainHeightWidth === 0 ? true : false}
-                meetingProgressTime={meetingProgressTime}
-              >
-                {/* Pagination is only used in conference and webinar event types */}
-                <View
-                  style={{
-                    width:
-                      paginationDirection.current === 'horizontal'
-                        ? componentSizes.current.otherWidth
-                        : paginationHeightWidth.current,
-                    height:
-                      paginationDirection.current === 'horizontal'
-                        ? paginationHeightWidth.current
-                        : componentSizes.current.otherHeight,
-                    padding: 0,
-                    margin: 0,
-                    display: doPaginate.current ? 'flex' : 'none',
-                    flexDirection:
-                      paginationDirection.current === 'horizontal'
-                        ? 'row'
-                        : 'column',
-                    justifyContent: 'center',
-                    alignItems: 'center',
-                  }}
+                {/* MainGridComponent shows the main grid view - not used at all in chat event type  and conference event type when screenshare is not active*/}
+                {/* MainGridComponent becomes the dominant grid view in broadcast and webinar event types */}
+                {/* MainGridComponent becomes the dominant grid view in conference event type when screenshare is active */}
+
+                <MainGrid
+                  height={componentSizes.current.mainHeight}
+                  width={componentSizes.current.mainWidth}
+                  backgroundColor="rgba(217, 227, 234, 0.99)"
+                  showAspect={mainHeightWidth > 0 ? true : false}
+                  timeBackgroundColor={recordState}
+                  meetingProgressTime={meetingProgressTime}
                 >
-                  {/* Render Pagination component */}
-                  <PaginationComponent
-                    totalPages={numberPages}
-                    currentUserPage={currentUserPage.current}
-                    showAspect={doPaginate.current}
-                    paginationHeight={paginationHeightWidth.current}
-                    direction={paginationDirection.current!}
-                    parameters={{ ...getAllParams(), ...mediaSFUFunctions() }}
+                  <FlexibleVideoComponent
+                    customWidth={componentSizes.current.mainWidth}
+                    customHeight={componentSizes.current.mainHeight}
+                    rows={1}
+                    columns={1}
+                    componentsToRender={
+                      mainGridStream.current ? mainGridStream.current : []
+                    }
+                    showAspect={
+                      mainGridStream.current.length > 0 &&
+                      !(whiteboardStarted.current && !whiteboardEnded.current)
+                    }
                   />
-                </View>
-
-                {/* AudioGrid contains all the audio only streams */}
-                {/* If broadcasting and there are audio only streams (just one), the audio only streams are displayed in the main grid view */}
-                {/* If webinar and you are the host, the audio only streams (just one), are displayed in the main grid view */}
-                <AudioGridComponent
-                  componentsToRender={
-                    audioOnlyStreams.current ? audioOnlyStreams.current : []
-                  }
-                />
-
-                <FlexibleGridPrimary
-                  customWidth={gridSizes.current.gridWidth!}
-                  customHeight={gridSizes.current.gridHeight!}
-                  rows={gridRows}
-                  columns={gridCols}
-                  componentsToRender={otherGridStreams[0]}
-                  backgroundColor={'rgba(217, 227, 234, 0.99)'}
-                />
-
-                <FlexibleGridPrimary
-                  customWidth={gridSizes.current.altGridWidth!}
-                  customHeight={gridSizes.current.altGridHeight!}
-                  rows={altGridRows}
-                  columns={altGridCols}
-                  componentsToRender={otherGridStreams[1]}
-                  backgroundColor={'rgba(217, 227, 234, 0.99)'}
-                />
-              </OtherGrid>
-            </MainScreen>
-          </MainAspect>
-
-          {/* SubAspectComponent is used for webinar and conference events only to display fixed control buttons */}
-          <SubAspect
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            showControls={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-            }
-            defaultFractionSub={controlHeight}
-          >
-            <ControlButtons
-              buttons={controlButtons}
-              buttonColor="black" // Set the background color for buttons
-              buttonBackgroundColor={{
-                default: 'transparent',
-                pressed: 'transparent',
-              }} // Set background color options
-              alignment="space-between"
-              vertical={false}
-              buttonsContainerStyle={{
-                marginTop: 2,
-                marginBottom: 2,
-                backgroundColor: 'transparent',
-              }} // Set styles for the buttons container
-            />
-          </SubAspect>
-        </MainContainer>
-      ) : (
-        <></>
-      )}
-
-      {returnUI && (
-        <>
-          <MenuModalComponent
-            backgroundColor="rgba(181, 233, 229, 0.97)"
-            isVisible={isMenuModalVisible}
-            onClose={() => updateIsMenuModalVisible(false)}
-            customButtons={customMenuButtons}
-            roomName={roomName.current}
-            adminPasscode={adminPasscode.current}
-            islevel={islevel.current}
-            eventType={eventType.current}
-            localLink={localLink}
-          />
+                </MainGrid>
 
-          <EventSettingsModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isEventSettingsModalVisible={isSettingsModalVisible}
-            updateIsSettingsModalVisible={updateIsSettingsModalVisible}
-            onEventSettingsClose={() => updateIsSettingsModalVisible(false)}
-            audioSetting={audioSetting.current}
-            videoSetting={videoSetting.current}
-            screenshareSetting={screenshareSetting.current}
-            chatSetting={chatSetting.current}
-            updateAudioSetting={updateAudioSetting}
-            updateVideoSetting={updateVideoSetting}
-            updateScreenshareSetting={updateScreenshareSetting}
-            updateChatSetting={updateChatSetting}
-            roomName={roomName.current}
-            socket={socket.current}
-          />
+                {/* OthergridComponent shows the minor grid view - not used at all in broadcast event type */}
+                {/* OthergridComponent becomes the dominant grid view in conference (the main grid only gets re-introduced during screenshare) and chat event types */}
+                <OtherGrid
+                  height={componentSizes.current.otherHeight}
+                  width={componentSizes.current.otherWidth}
+                  backgroundColor={'rgba(217, 227, 234, 0.99)'}
+                  showAspect={mainHeightWidth === 100 ? false : true}
+                  timeBackgroundColor={recordState}
+                  showTimer={mainHeightWidth === 0 ? true : false}
+                  meetingProgressTime={meetingProgressTime}
+                >
+                  {/* Pagination is only used in conference and webinar event types */}
+                  <View
+                    style={{
+                      width:
+                        paginationDirection.current === 'horizontal'
+                          ? componentSizes.current.otherWidth
+                          : paginationHeightWidth.current,
+                      height:
+                        paginationDirection.current === 'horizontal'
+                          ? paginationHeightWidth.current
+                          : componentSizes.current.otherHeight,
+                      padding: 0,
+                      margin: 0,
+                      display: doPaginate.current ? 'flex' : 'none',
+                      flexDirection:
+                        paginationDirection.current === 'horizontal'
+                          ? 'row'
+                          : 'column',
+                      justifyContent: 'center',
+                      alignItems: 'center',
+                    }}
+                  >
+                    {/* Render Pagination component */}
+                    <PaginationComponent
+                      totalPages={numberPages}
+                      currentUserPage={currentUserPage.current}
+                      showAspect={doPaginate.current}
+                      paginationHeight={paginationHeightWidth.current}
+                      direction={paginationDirection.current!}
+                      parameters={{ ...getAllParams(), ...mediaSFUFunctions() }}
+                    />
+                  </View>
+
+                  {/* AudioGrid contains all the audio only streams */}
+                  {/* If broadcasting and there are audio only streams (just one), the audio only streams are displayed in the main grid view */}
+                  {/* If webinar and you are the host, the audio only streams (just one), are displayed in the main grid view */}
+                  <AudioGridComponent
+                    componentsToRender={
+                      audioOnlyStreams.current ? audioOnlyStreams.current : []
+                    }
+                  />
 
-          <RequestsModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isRequestsModalVisible={isRequestsModalVisible}
-            onRequestClose={() => updateIsRequestsModalVisible(false)}
-            requestCounter={requestCounter.current}
-            onRequestFilterChange={onRequestFilterChange}
-            updateRequestList={updateRequestList}
-            requestList={filteredRequestList.current}
-            roomName={roomName.current}
-            socket={socket.current}
-            parameters={{
-              updateRequestCounter: updateRequestCounter,
-              updateRequestFilter: updateRequestFilter,
-              updateRequestList: updateRequestList,
-              getUpdatedAllParams,
-            }}
-          />
+                  <FlexibleGridPrimary
+                    customWidth={gridSizes.current.gridWidth!}
+                    customHeight={gridSizes.current.gridHeight!}
+                    rows={gridRows}
+                    columns={gridCols}
+                    componentsToRender={otherGridStreams[0]}
+                    backgroundColor={'rgba(217, 227, 234, 0.99)'}
+                  />
 
-          <WaitingRoomModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isWaitingModalVisible={isWaitingModalVisible}
-            onWaitingRoomClose={() => updateIsWaitingModalVisible(false)}
-            waitingRoomCounter={waitingRoomCounter.current}
-            onWaitingRoomFilterChange={onWaitingRoomFilterChange}
-            waitingRoomList={filteredWaitingRoomList.current}
-            updateWaitingList={updateWaitingRoomList}
-            roomName={roomName.current}
-            socket={socket.current}
-            parameters={{
-              filteredWaitingRoomList: filteredWaitingRoomList.current,
-              getUpdatedAllParams,
-            }}
-          />
+                  <FlexibleGridPrimary
+                    customWidth={gridSizes.current.altGridWidth!}
+                    customHeight={gridSizes.current.altGridHeight!}
+                    rows={altGridRows}
+                    columns={altGridCols}
+                    componentsToRender={otherGridStreams[1]}
+                    backgroundColor={'rgba(217, 227, 234, 0.99)'}
+                  />
+                </OtherGrid>
+              </MainScreen>
+            </MainAspect>
 
-          <CoHostModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isCoHostModalVisible={isCoHostModalVisible}
-            updateIsCoHostModalVisible={updateIsCoHostModalVisible}
-            onCoHostClose={() => updateIsCoHostModalVisible(false)}
-            coHostResponsibility={coHostResponsibility.current}
-            participants={participants.current}
-            currentCohost={coHost.current}
-            roomName={roomName.current}
-            showAlert={showAlert}
-            updateCoHostResponsibility={updateCoHostResponsibility}
-            updateCoHost={updateCoHost}
-            socket={socket.current}
-          />
+            {/* SubAspectComponent is used for webinar and conference events only to display fixed control buttons */}
+            <SubAspect
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              showControls={
+                eventType.current === 'webinar' ||
+                eventType.current === 'conference'
+              }
+              defaultFractionSub={controlHeight}
+            >
+              <ControlButtons
+                buttons={controlButtons}
+                buttonColor="black" // Set the background color for buttons
+                buttonBackgroundColor={{
+                  default: 'transparent',
+                  pressed: 'transparent',
+                }} // Set background color options
+                alignment="space-between"
+                vertical={false}
+                buttonsContainerStyle={{
+                  marginTop: 2,
+                  marginBottom: 2,
+                  backgroundColor: 'transparent',
+                }} // Set styles for the buttons container
+              />
+            </SubAspect>
+          </MainContainer>
+        ) : (
+          <></>
+        )}
+
+        {returnUI && (
+          <>
+            <MenuModalComponent
+              backgroundColor="rgba(181, 233, 229, 0.97)"
+              isVisible={isMenuModalVisible}
+              onClose={() => updateIsMenuModalVisible(false)}
+              customButtons={customMenuButtons}
+              roomName={roomName.current}
+              adminPasscode={adminPasscode.current}
+              islevel={islevel.current}
+              eventType={eventType.current}
+              localLink={localLink}
+            />
 
-          <MediaSettingsModalComponent
-            backgroundColor="rgba(181, 233, 229, 0.97)"
-            isMediaSettingsModalVisible={isMediaSettingsModalVisible}
-            onMediaSettingsClose={() =>
-              updateIsMediaSettingsModalVisible(false)
-            }
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <EventSettingsModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isEventSettingsModalVisible={isSettingsModalVisible}
+              updateIsSettingsModalVisible={updateIsSettingsModalVisible}
+              onEventSettingsClose={() => updateIsSettingsModalVisible(false)}
+              audioSetting={audioSetting.current}
+              videoSetting={videoSetting.current}
+              screenshareSetting={screenshareSetting.current}
+              chatSetting={chatSetting.current}
+              updateAudioSetting={updateAudioSetting}
+              updateVideoSetting={updateVideoSetting}
+              updateScreenshareSetting={updateScreenshareSetting}
+              updateChatSetting={updateChatSetting}
+              chatModeration={chatModeration.current}
+              updateChatModeration={updateChatModeration}
+              roomName={roomName.current}
+              member={member.current}
+              socket={socket.current}
+            />
 
-          <ParticipantsModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isParticipantsModalVisible={isParticipantsModalVisible}
-            onParticipantsClose={() => updateIsParticipantsModalVisible(false)}
-            participantsCounter={participantsCounter.current}
-            onParticipantsFilterChange={onParticipantsFilterChange}
-            parameters={{
-              updateParticipants: updateParticipants,
-              updateIsParticipantsModalVisible:
-                updateIsParticipantsModalVisible,
+            <RequestsModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isRequestsModalVisible={isRequestsModalVisible}
+              onRequestClose={() => updateIsRequestsModalVisible(false)}
+              requestCounter={requestCounter.current}
+              onRequestFilterChange={onRequestFilterChange}
+              updateRequestList={updateRequestList}
+              requestList={filteredRequestList.current}
+              roomName={roomName.current}
+              socket={socket.current}
+              parameters={{
+                updateRequestCounter: updateRequestCounter,
+                updateRequestFilter: updateRequestFilter,
+                updateRequestList: updateRequestList,
+                getUpdatedAllParams,
+              }}
+            />
 
-              updateDirectMessageDetails,
-              updateStartDirectMessage,
-              updateIsMessagesModalVisible,
+            <WaitingRoomModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isWaitingModalVisible={isWaitingModalVisible}
+              onWaitingRoomClose={() => updateIsWaitingModalVisible(false)}
+              waitingRoomCounter={waitingRoomCounter.current}
+              onWaitingRoomFilterChange={onWaitingRoomFilterChange}
+              waitingRoomList={filteredWaitingRoomList.current}
+              updateWaitingList={updateWaitingRoomList}
+              roomName={roomName.current}
+              socket={socket.current}
+              parameters={{
+                filteredWaitingRoomList: filteredWaitingRoomList.current,
+                getUpdatedAllParams,
+              }}
+            />
 
-              showAlert: showAlert,
+            <CoHostModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isCoHostModalVisible={isCoHostModalVisible}
+              updateIsCoHostModalVisible={updateIsCoHostModalVisible}
+              onCoHostClose={() => updateIsCoHostModalVisible(false)}
+              coHostResponsibility={coHostResponsibility.current}
+              participants={participants.current}
+              currentCohost={coHost.current}
+              roomName={roomName.current}
+              showAlert={showAlert}
+              updateCoHostResponsibility={updateCoHostResponsibility}
+              updateCoHost={updateCoHost}
+              socket={socket.current}
+            />
 
-              filteredParticipants: filteredParticipants.current,
-              participants: filteredParticipants.current,
-              roomName: roomName.current,
-              islevel: islevel.current,
-              member: member.current,
-              coHostResponsibility: coHostResponsibility.current,
-              coHost: coHost.current,
-              eventType: eventType.current,
+            <MediaSettingsModalComponent
+              backgroundColor="rgba(181, 233, 229, 0.97)"
+              isMediaSettingsModalVisible={isMediaSettingsModalVisible}
+              onMediaSettingsClose={() =>
+                updateIsMediaSettingsModalVisible(false)
+              }
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-              startDirectMessage: startDirectMessage.current,
-              directMessageDetails: directMessageDetails.current,
-              socket: socket.current,
+            <ParticipantsModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isParticipantsModalVisible={isParticipantsModalVisible}
+              onParticipantsClose={() => updateIsParticipantsModalVisible(false)}
+              participantsCounter={participantsCounter.current}
+              onParticipantsFilterChange={onParticipantsFilterChange}
+              parameters={{
+                updateParticipants: updateParticipants,
+                updateIsParticipantsModalVisible:
+                  updateIsParticipantsModalVisible,
+
+                updateDirectMessageDetails,
+                updateStartDirectMessage,
+                updateIsMessagesModalVisible,
+
+                showAlert: showAlert,
+
+                filteredParticipants: filteredParticipants.current,
+                participants: filteredParticipants.current,
+                roomName: roomName.current,
+                islevel: islevel.current,
+                member: member.current,
+                coHostResponsibility: coHostResponsibility.current,
+                coHost: coHost.current,
+                eventType: eventType.current,
+
+                startDirectMessage: startDirectMessage.current,
+                directMessageDetails: directMessageDetails.current,
+                socket: socket.current,
+
+                getUpdatedAllParams: getAllParams,
+              }}
+            />
 
-              getUpdatedAllParams: getAllParams,
-            }}
-          />
+            <DisplaySettingsModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isDisplaySettingsModalVisible={isDisplaySettingsModalVisible}
+              onDisplaySettingsClose={() =>
+                updateIsDisplaySettingsModalVisible(false)
+              }
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-          <DisplaySettingsModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isDisplaySettingsModalVisible={isDisplaySettingsModalVisible}
-            onDisplaySettingsClose={() =>
-              updateIsDisplaySettingsModalVisible(false)
-            }
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <RecordingModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isRecordingModalVisible={isRecordingModalVisible}
+              onClose={() => updateIsRecordingModalVisible(false)}
+              startRecording={startRecording}
+              confirmRecording={confirmRecording}
+              parameters={getRecordingParams()}
+            />
 
-          <RecordingModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isRecordingModalVisible={isRecordingModalVisible}
-            onClose={() => updateIsRecordingModalVisible(false)}
-            startRecording={startRecording}
-            confirmRecording={confirmRecording}
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            <MessagesModalComponent
+              backgroundColor={
+                eventType.current === 'webinar' ||
+                eventType.current === 'conference'
+                  ? '#f5f5f5'
+                  : 'rgba(255, 255, 255, 0.25)'
+              }
+              isMessagesModalVisible={isMessagesModalVisible}
+              onMessagesClose={() => updateIsMessagesModalVisible(false)}
+              messages={messages.current}
+              chatOutbox={chatOutbox}
+              onReactToMessage={reactToMessage}
+              onDeleteMessage={deleteMessage}
+              chatModeration={chatModeration.current}
+              readState={chatReadState.current}
+              onMarkThreadRead={markMessageThreadRead}
+              typingMembers={typingMembers}
+              onTyping={notifyTyping}
+              participants={participants.current}
+              attachmentData={attachmentData}
+              updateAttachmentData={updateAttachmentData}
+              eventType={eventType.current}
+              member={member.current}
+              islevel={islevel.current}
+              coHostResponsibility={coHostResponsibility.current}
+              coHost={coHost.current}
+              startDirectMessage={startDirectMessage.current}
+              directMessageDetails={directMessageDetails.current}
+              updateStartDirectMessage={updateStartDirectMessage}
+              updateDirectMessageDetails={updateDirectMessageDetails}
+              showAlert={showAlert}
+              roomName={roomName.current}
+              socket={socket.current}
+              chatSetting={chatSetting.current}
+            />
 
-          <MessagesModalComponent
-            backgroundColor={
-              eventType.current === 'webinar' ||
-              eventType.current === 'conference'
-                ? '#f5f5f5'
-                : 'rgba(255, 255, 255, 0.25)'
-            }
-            isMessagesModalVisible={isMessagesModalVisible}
-            onMessagesClose={() => updateIsMessagesModalVisible(false)}
-            messages={messages.current}
-            eventType={eventType.current}
-            member={member.current}
-            islevel={islevel.current}
-            coHostResponsibility={coHostResponsibility.current}
-            coHost={coHost.current}
-            startDirectMessage={startDirectMessage.current}
-            directMessageDetails={directMessageDetails.current}
-            updateStartDirectMessage={updateStartDirectMessage}
-            updateDirectMessageDetails={updateDirectMessageDetails}
-            showAlert={showAlert}
-            roomName={roomName.current}
-            socket={socket.current}
-            chatSetting={chatSetting.current}
-          />
+            <ConfirmExitModalComponent
+              backgroundColor="rgba(181, 233, 229, 0.97)"
+              isConfirmExitModalVisible={isConfirmExitModalVisible}
+              onConfirmExitClose={() => updateIsConfirmExitModalVisible(false)}
+              member={member.current}
+              roomName={roomName.current}
+              socket={socket.current}
+              islevel={islevel.current}
+            />
 
-          <ConfirmExitModalComponent
-            backgroundColor="rgba(181, 233, 229, 0.97)"
-            isConfirmExitModalVisible={isConfirmExitModalVisible}
-            onConfirmExitClose={() => updateIsConfirmExitModalVisible(false)}
-            member={member.current}
-            roomName={roomName.current}
-            socket={socket.current}
-            islevel={islevel.current}
-          />
+            <ConfirmHereModalComponent
+              backgroundColor="rgba(181, 233, 229, 0.97)"
+              isConfirmHereModalVisible={isConfirmHereModalVisible}
+              onConfirmHereClose={() => updateIsConfirmHereModalVisible(false)}
+              member={member.current}
+              roomName={roomName.current}
+              socket={socket.current}
+            />
 
-          <ConfirmHereModalComponent
-            backgroundColor="rgba(181, 233, 229, 0.97)"
-            isConfirmHereModalVisible={isConfirmHereModalVisible}
-            onConfirmHereClose={() => updateIsConfirmHereModalVisible(false)}
-            member={member.current}
-            roomName={roomName.current}
-            socket={socket.current}
-          />
+            <ShareEventModalComponent
+              isShareEventModalVisible={isShareEventModalVisible}
+              onShareEventClose={() => updateIsShareEventModalVisible(false)}
+              roomName={roomName.current}
+              islevel={islevel.current}
+              adminPasscode={adminPasscode.current}
+              eventType={eventType.current}
+              localLink={localLink}
+            />
 
-          <ShareEventModalComponent
-            isShareEventModalVisible={isShareEventModalVisible}
-            onShareEventClose={() => updateIsShareEventModalVisible(false)}
-            roomName={roomName.current}
-            islevel={islevel.current}
-            adminPasscode={adminPasscode.current}
-            eventType={eventType.current}
-            localLink={localLink}
-          />
+            <PollModalComponent
+              isPollModalVisible={isPollModalVisible}
+              onClose={() => setIsPollModalVisible(false)}
+              member={member.current}
+              islevel={islevel.current}
+              youAreCoHost={youAreCoHost.current}
+              polls={polls.current}
+              poll={poll.current}
+              socket={socket.current}
+              roomName={roomName.current}
+              showAlert={showAlert}
+              storage={storage}
+              updateIsPollModalVisible={setIsPollModalVisible}
+              handleCreatePoll={handleCreatePoll}
+              handleEndPoll={handleEndPoll}
+              handleVotePoll={handleVotePoll}
+            />
 
-          <PollModalComponent
-            isPollModalVisible={isPollModalVisible}
-            onClose={() => setIsPollModalVisible(false)}
-            member={member.current}
-            islevel={islevel.current}
-            polls={polls.current}
-            poll={poll.current}
-            socket={socket.current}
-            roomName={roomName.current}
-            showAlert={showAlert}
-            updateIsPollModalVisible={setIsPollModalVisible}
-            handleCreatePoll={handleCreatePoll}
-            handleEndPoll={handleEndPoll}
-            handleVotePoll={handleVotePoll}
-          />
+            {/* not implemented yet  for React Native */}
+            {/* <BackgroundModal
+        /> */}
 
-          {/* not implemented yet  for React Native */}
-          {/* <BackgroundModal
-      /> */}
+            <BreakoutRoomsModalComponent
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              isVisible={isBreakoutRoomsModalVisible}
+              onBreakoutRoomsClose={() =>
+                updateIsBreakoutRoomsModalVisible(false)
+              }
+              parameters={{
+                ...getAllParams(),
+                ...mediaSFUFunctions(),
+              }}
+            />
 
-          <BreakoutRoomsModalComponent
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            isVisible={isBreakoutRoomsModalVisible}
-            onBreakoutRoomsClose={() =>
-              updateIsBreakoutRoomsModalVisible(false)
-            }
-            parameters={{
-              ...getAllParams(),
-              ...mediaSFUFunctions(),
-            }}
-          />
+            {/* not implemented yet  for React Native */}
+            {/* <ConfigureWhiteboardModal
+        />
 
-          {/* not implemented yet  for React Native */}
-          {/* <ConfigureWhiteboardModal
-      />
+        <ScreenboardModal
+        /> */}
 
-      <ScreenboardModal
-      /> */}
+            <AlertComponentOverride
+              visible={alertVisible}
+              message={alertMessage}
+              type={alertType}
+              duration={alertDuration}
+              onHide={() => setAlertVisible(false)}
+              textColor={'#ffffff'}
+            />
 
-          <AlertComponentOverride
-            visible={alertVisible}
-            message={alertMessage}
-            type={alertType}
-            duration={alertDuration}
-            onHide={() => setAlertVisible(false)}
-            textColor={'#ffffff'}
-          />
+            <LoadingModalComponent
+              isVisible={isLoadingModalVisible}
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              displayColor="black"
+            />
 
-          <LoadingModalComponent
-            isVisible={isLoadingModalVisible}
-            backgroundColor="rgba(217, 227, 234, 0.99)"
-            displayColor="black"
-          />
-        </>
-      )}
-    </SafeAreaProvider>
+            <LoadingModalComponent
+              isVisible={isReconnectingVisible && !isLoadingModalVisible}
+              backgroundColor="rgba(217, 227, 234, 0.99)"
+              displayColor="black"
+              renderContent={() => (
+                <>
+                  <ActivityIndicator size="large" color="black" />
+                  <Text style={{ color: 'black', marginTop: 10, fontSize: 16, textAlign: 'center' }}>
+                    Reconnecting…
+                  </Text>
+                </>
+              )}
+            />
+          </>
+        )}
+      </SafeAreaProvider>
+    </MediasfuRoomProvider>
   );
 };
 
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -6,14 +6,49 @@ import {
   Pressable,
   ScrollView,
   StyleSheet,
+  Image,
 } from 'react-native';
 import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
 import { Socket } from 'socket.io-client';
 import { SendMessageOptions } from '../../methods/messageMethods/sendMessage';
+import { ChatOutbox } from '../../methods/messageMethods/chatOutbox';
 import {
+  countThreadReplies,
+  createReplyReference,
+  DEFAULT_MESSAGE_REACTIONS,
+  getMessageId,
+} from '../../methods/messageMethods/messageThreads';
+import {
+  formatMessageDay,
+  formatMessageTime,
+  getMessagePage,
+  getMessageTime,
+  isSameMessageDay,
+} from '../../methods/messageMethods/chatHistory';
+import { canModerateChat } from '../../methods/messageMethods/chatModeration';
+import { formatTypingMembers } from '../../methods/messageMethods/chatPresence';
+import {
+  getMentionQuery,
+  getMentionSuggestions,
+  insertMention,
+  splitMentions,
+} from '../../methods/messageMethods/chatMentions';
+import {
+  formatAttachmentSize,
+  getAttachmentStatus,
+  PickedAttachment,
+  shareAttachment,
+} from '../../methods/messageMethods/chatAttachments';
+import {
+  PickChatAttachmentOptions,
+  pickChatAttachment,
+} from '../../methods/messageMethods/pickChatAttachment';
+import {
+  ChatModerationSettings,
   CoHostResponsibility,
   EventType,
   Message,
+  MessageAttachment,
   Participant,
   ShowAlert,
 } from '../../@types/types';
@@ -46,7 +81,70 @@ export interface MessagePanelOptions {
   /**
    * Function to handle sending messages.
    */
-  onSendMessagePress: (options: SendMessageOptions) => Promise<void>;
+  onSendMessagePress: (options: SendMessageOptions) => Promise<boolean | void>;
+
+  /**
+   * Outbox that queues messages while the connection drops. When set, messages show their
+   * delivery state and failed messages can be tapped to retry.
+   */
+  chatOutbox?: ChatOutbox;
+
+  /**
+   * Function to toggle the user's reaction on a message. Reactions are hidden when not set.
+   */
+  onReactToMessage?: (options: { message: Message; emoji: string }) => void;
+
+  /**
+   * Function to delete a message for everyone. Shown to the host and to a co-host with the
+   * `chat` responsibility when set.
+   */
+  onDeleteMessage?: (options: { message: Message }) => void;
+
+  /**
+   * The room's blocked words and slow mode, applied when sending.
+   */
+  chatModeration?: ChatModerationSettings | null;
+
+  /**
+   * Number of messages shown at first and loaded each time the user scrolls to the top.
+   * @default 30
+   */
+  pageSize?: number;
+
+  /**
+   * Names of the members typing in this conversation.
+   */
+  typingMembers?: string[];
+
+  /**
+   * Function called as the user types, so others see the typing indicator.
+   */
+  onTyping?: (options: { group: boolean; receivers: string[]; isTyping: boolean }) => void;
+
+  /**
+   * Participants of the room, suggested while typing `@name` in the group chat.
+   */
+  participants?: Participant[];
+
+  /**
+   * Data of the attachments sent and received so far, as data URIs by attachment ID.
+   */
+  attachmentData?: { [attachmentId: string]: string };
+
+  /**
+   * Function to keep the data of an attachment the user sends. The attach button is shown when set.
+   */
+  updateAttachmentData?: (attachmentId: string, data: string) => void;
+
+  /**
+   * Function to choose an attachment. Defaults to picking an image from the device.
+   */
+  onPickAttachment?: (options: PickChatAttachmentOptions) => Promise<PickedAttachment | null>;
+
+  /**
+   * Message to scroll to and highlight, e.g. a search result. Pass a new object to jump again.
+   */
+  jumpToMessage?: { messageId: string } | null;
 
   /**
    * Background color of the message panel.
@@ -140,8 +238,8 @@ export interface MessagePanelOptions {
  *
  * function App() {
  *   const messages = [
- *     { sender: 'Alice', message: 'Hello!', timestamp: '10:00', receivers: [], group: true },
- *     { sender: 'Bob', message: 'Hi Alice!', timestamp: '10:01', receivers: [], group: true },
+ *     { sender: 'Alice', message: 'Hello!', timestamp: Date.now() - 60000, receivers: [], group: true },
+ *     { sender: 'Bob', message: 'Hi Alice!', timestamp: Date.now(), receivers: [], group: true },
  *   ];
  *
  *   const handleSendMessage = async (options) => {
@@ -183,6 +281,18 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
   type,
   username,
   onSendMessagePress,
+  chatOutbox,
+  onReactToMessage,
+  onDeleteMessage,
+  chatModeration,
+  pageSize = 30,
+  typingMembers = [],
+  onTyping,
+  participants = [],
+  attachmentData = {},
+  updateAttachmentData,
+  onPickAttachment = pickChatAttachment,
+  jumpToMessage,
   backgroundColor = '#f5f5f5',
   focusedInput,
   showAlert,
@@ -219,8 +329,33 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
     username: string;
   } | null>(null);
   const [senderId, setSenderId] = useState<string | null>(null);
+  const [replyTarget, setReplyTarget] = useState<Message | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const replyCounts = useMemo(() => countThreadReplies(messages), [messages]);
+  const canDeleteMessages =
+    !!onDeleteMessage && canModerateChat({ member, islevel, coHost, coHostResponsibility });
+  const slowModeSeconds = chatModeration?.slowModeSeconds ?? 0;
+  const scrollRef = useRef<ScrollView | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const [firstVisibleId, setFirstVisibleId] = useState<string | null>(null);
+  const { visibleMessages, hasOlder, olderFirstId } = useMemo(
+    () => getMessagePage({ messages, firstVisibleId, pageSize }),
+    [messages, firstVisibleId, pageSize],
+  );
   const [directMessageText, setDirectMessageText] = useState<string>('');
   const [groupMessageText, setGroupMessageText] = useState<string>('');
+  const [cursor, setCursor] = useState(0);
+  const [pendingAttachment, setPendingAttachment] = useState<PickedAttachment | null>(null);
+  const mentionQuery =
+    type === 'group' && participants.length > 0
+      ? getMentionQuery(groupMessageText, Math.min(cursor, groupMessageText.length))
+      : null;
+  const mentionSuggestions = mentionQuery
+    ? getMentionSuggestions({ participants, query: mentionQuery.query, member })
+    : [];
+  const messageOffsets = useRef<{ [messageId: string]: number }>({});
+  const pendingJumpRef = useRef<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   /**
    * Handles changes in the message input field.
@@ -232,6 +367,40 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
     } else {
       setGroupMessageText(text);
     }
+    notifyTyping(text.length > 0);
+  };
+
+  /**
+   * Completes the `@name` being typed with the chosen participant.
+   * @param {string} name - The participant's name.
+   */
+  const handleMentionSelect = (name: string) => {
+    if (!mentionQuery) {
+      return;
+    }
+    const next = insertMention({
+      text: groupMessageText,
+      mention: mentionQuery,
+      name,
+      cursor: Math.min(cursor, groupMessageText.length),
+    });
+    setGroupMessageText(next.text);
+    setCursor(next.cursor);
+  };
+
+  const handleAttachPress = async () => {
+    const picked = await onPickAttachment({ roomName, showAlert });
+    if (picked) {
+      setPendingAttachment(picked);
+    }
+  };
+
+  const notifyTyping = (isTyping: boolean) => {
+    onTyping?.({
+      group: type === 'group',
+      receivers: type === 'direct' && senderId ? [senderId] : [],
+      isTyping,
+    });
   };
 
   const getDirectReceiverLabel = (receivers?: string[]) => {
@@ -247,18 +416,23 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
   };
 
   /**
-   * Opens the reply input field for a specific sender.
-   * @param {string} senderId - The username of the message sender.
+   * Quotes a message in the next reply. Replies to direct messages also go to their sender.
+   * @param {Message} message - The message being replied to.
    */
 
-  const openReplyInput = (senderId: string) => {
+  const openReplyInput = (message: Message) => {
+    setReplyTarget(message);
+    if (message.group) {
+      return;
+    }
+
     const replyInfoContainer = {
       text: 'Replying to: ',
-      username: senderId,
+      username: message.sender,
     };
 
     setReplyInfo(replyInfoContainer);
-    setSenderId(senderId);
+    setSenderId(message.sender);
   };
 
   /**
@@ -267,7 +441,7 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
   const handleSendButton = async () => {
     const message = type === 'direct' ? directMessageText : groupMessageText;
 
-    if (!message) {
+    if (!message && !pendingAttachment) {
       showAlert?.({
         message: 'Please enter a message',
         type: 'danger',
@@ -285,7 +459,7 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
       return;
     }
 
-    if (message.trim() === '') {
+    if (message.trim() === '' && !pendingAttachment) {
       showAlert?.({
         message: 'Message is not valid.',
         type: 'danger',
@@ -304,7 +478,7 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
     }
 
     try {
-      await onSendMessagePress({
+      const sent = await onSendMessagePress({
         message,
         receivers: type === 'direct' && senderId ? [senderId] : [],
         group: type === 'group',
@@ -318,7 +492,20 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
         roomName,
         socket,
         chatSetting,
+        outbox: chatOutbox,
+        replyTo: replyTarget ? createReplyReference(replyTarget) : undefined,
+        chatModeration,
+        messages,
+        attachment: pendingAttachment?.attachment,
+        attachmentData: pendingAttachment?.data,
+        updateAttachmentData,
       });
+      // keep what was typed when the message was refused (slow mode, blocked words, ...)
+      if (sent === false) {
+        return;
+      }
+      notifyTyping(false);
+      setPendingAttachment(null);
 
       if (type === 'direct') {
         setDirectMessageText('');
@@ -334,6 +521,7 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
         setReplyInfo(null);
         setSenderId(null);
       }
+      setReplyTarget(null);
 
       if (focusedInput) {
         updateDirectMessageDetails(null);
@@ -348,6 +536,147 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
     }
   };
 
+  const renderAttachment = (attachment: MessageAttachment) => {
+    const data = attachmentData[attachment.id];
+    return (
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel={`Share ${attachment.name}`}
+        onPress={() => shareAttachment({ attachment, data, showAlert })}
+        style={styles.attachment}
+      >
+        {attachment.kind === 'image' && data ? (
+          <Image source={{ uri: data }} style={styles.attachmentThumbnail} resizeMode="cover" />
+        ) : (
+          <View style={[styles.attachmentFile, { borderColor: theme.borderColor }]}>
+            <FontAwesome5
+              name={attachment.kind === 'image' ? 'image' : 'file'}
+              size={16}
+              color={theme.iconColor}
+            />
+            <View style={styles.attachmentInfo}>
+              <Text style={[styles.attachmentName, { color: theme.textColor }]} numberOfLines={1}>
+                {attachment.name}
+              </Text>
+              <Text style={[styles.attachmentMeta, { color: theme.mutedTextColor }]}>
+                {getAttachmentStatus({ attachment, data })}
+              </Text>
+            </View>
+            {data && <FontAwesome5 name="share-alt" size={12} color={theme.iconColor} />}
+          </View>
+        )}
+      </Pressable>
+    );
+  };
+
+  const renderDeliveryStatus = (message: Message) => {
+    if (!message.deliveryStatus || message.sender !== username) {
+      return null;
+    }
+
+    if (message.deliveryStatus === 'failed') {
+      return (
+        <Pressable
+          style={styles.deliveryStatus}
+          accessibilityRole="button"
+          accessibilityLabel="Message not sent. Tap to retry"
+          onPress={() => chatOutbox?.retry({ clientId: message.clientId!, socket })}
+        >
+          <FontAwesome5 name="exclamation-circle" size={10} color={theme.dangerColor} />
+          <Text style={[styles.deliveryStatusText, { color: theme.dangerColor }]}>Retry</Text>
+        </Pressable>
+      );
+    }
+
+    return (
+      <View style={styles.deliveryStatus} accessibilityLabel={message.deliveryStatus === 'sent' ? 'Sent' : 'Sending'}>
+        <FontAwesome5
+          name={message.deliveryStatus === 'sent' ? 'check' : 'clock'}
+          size={9}
+          color={theme.mutedTextColor}
+        />
+      </View>
+    );
+  };
+
+  const loadOlderMessages = () => {
+    if (hasOlder) {
+      setFirstVisibleId(olderFirstId);
+    }
+  };
+
+  // follow the conversation when a new message arrives, but not when older pages are loaded
+  const handleContentSizeChange = () => {
+    const lastMessage = messages[messages.length - 1];
+    const lastMessageId = lastMessage ? getMessageId(lastMessage) : null;
+    if (lastMessageId !== lastMessageIdRef.current) {
+      lastMessageIdRef.current = lastMessageId;
+      if (!pendingJumpRef.current) {
+        scrollRef.current?.scrollToEnd({ animated: false });
+      }
+    }
+  };
+
+  const scrollToPendingJump = () => {
+    const messageId = pendingJumpRef.current;
+    if (messageId && messageOffsets.current[messageId] !== undefined) {
+      pendingJumpRef.current = null;
+      scrollRef.current?.scrollTo({ y: Math.max(0, messageOffsets.current[messageId] - 20), animated: true });
+    }
+  };
+
+  // search results jump here: the page is widened to include the message, then scrolled to it
+  const handledJumpRef = useRef<{ messageId: string } | null>(null);
+  useEffect(() => {
+    const messageId = jumpToMessage?.messageId;
+    if (!jumpToMessage || !messageId || handledJumpRef.current === jumpToMessage) {
+      return;
+    }
+    handledJumpRef.current = jumpToMessage;
+    if (!messages.some((message) => getMessageId(message) === messageId)) {
+      return;
+    }
+
+    pendingJumpRef.current = messageId;
+    setHighlightedId(messageId);
+    if (!visibleMessages.some((message) => getMessageId(message) === messageId)) {
+      setFirstVisibleId(messageId);
+    } else {
+      scrollToPendingJump();
+    }
+  });
+
+  useEffect(() => {
+    if (!highlightedId) {
+      return undefined;
+    }
+    const timer = setTimeout(() => setHighlightedId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const renderDaySeparator = (message: Message, index: number) => {
+    const time = getMessageTime(message);
+    if (time === null) {
+      return null;
+    }
+
+    const previous = visibleMessages[index - 1];
+    const previousTime = previous ? getMessageTime(previous) : null;
+    if (previousTime !== null && isSameMessageDay(previousTime, time)) {
+      return null;
+    }
+
+    return (
+      <View style={styles.daySeparator} accessibilityRole="header">
+        <View style={[styles.daySeparatorLine, { backgroundColor: theme.borderColor }]} />
+        <Text style={[styles.daySeparatorText, { color: theme.mutedTextColor }]}>
+          {formatMessageDay(time)}
+        </Text>
+        <View style={[styles.daySeparatorLine, { backgroundColor: theme.borderColor }]} />
+      </View>
+    );
+  };
+
   useEffect(() => {
     if (startDirectMessage && directMessageDetails && focusedInput) {
       inputRef.current?.focus();
@@ -367,9 +696,42 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
 
   return (
     <View style={[styles.container, { backgroundColor }]}>
-      <ScrollView style={styles.messagesContainer}>
-      {messages.map((message, index) => (
-        <View key={index} style={styles.messageWrapper}>
+      <ScrollView
+        ref={scrollRef}
+        style={styles.messagesContainer}
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+        onContentSizeChange={handleContentSizeChange}
+        onScroll={(event) => {
+          if (event.nativeEvent.contentOffset.y < 40) {
+            loadOlderMessages();
+          }
+        }}
+        scrollEventThrottle={200}
+      >
+      {hasOlder && (
+        <Pressable
+          style={styles.loadOlderButton}
+          accessibilityRole="button"
+          onPress={loadOlderMessages}
+        >
+          <Text style={[styles.loadOlderText, { color: theme.accentColor }]}>Load earlier messages</Text>
+        </Pressable>
+      )}
+      {visibleMessages.map((message, index) => (
+        <View
+          key={getMessageId(message)}
+          style={[
+            styles.messageWrapper,
+            highlightedId === getMessageId(message) && { backgroundColor: theme.accentColor },
+          ]}
+          onLayout={(event) => {
+            messageOffsets.current[getMessageId(message)] = event.nativeEvent.layout.y;
+            if (pendingJumpRef.current === getMessageId(message)) {
+              scrollToPendingJump();
+            }
+          }}
+        >
+          {renderDaySeparator(message, index)}
           <View
             style={[
               styles.messageContainer,
@@ -387,15 +749,42 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
               <Text style={[styles.senderText, { color: theme.textColor }]}>
                 {message.sender === username ? '' : message.sender}
               </Text>
-              <Text style={[styles.timestampText, { color: theme.mutedTextColor }]}>{message.timestamp}</Text>
-              {message.sender !== username && !message.group && (
+              <Text style={[styles.timestampText, { color: theme.mutedTextColor }]}>{formatMessageTime(message.timestamp)}</Text>
+              {renderDeliveryStatus(message)}
+              {!message.deleted && (message.group || message.sender !== username) && (
                 <Pressable
                   style={styles.replyButton}
-                  onPress={() => openReplyInput(message.sender)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Reply to ${message.sender}`}
+                  onPress={() => openReplyInput(message)}
                 >
                   <FontAwesome5 name="reply" size={12} color={theme.iconColor} />
                 </Pressable>
               )}
+              {onReactToMessage && !message.deleted && (
+                <Pressable
+                  style={styles.replyButton}
+                  accessibilityRole="button"
+                  accessibilityLabel="React to message"
+                  onPress={() =>
+                    setReactionPickerFor((current) =>
+                      current === getMessageId(message) ? null : getMessageId(message),
+                    )
+                  }
+                >
+                  <FontAwesome5 name="smile" size={12} color={theme.iconColor} />
+                </Pressable>
+              )}
+              {canDeleteMessages && !message.deleted && (
+                <Pressable
+                  style={styles.replyButton}
+                  accessibilityRole="button"
+                  accessibilityLabel="Delete message for everyone"
+                  onPress={() => onDeleteMessage?.({ message })}
+                >
+                  <FontAwesome5 name="trash" size={11} color={theme.dangerColor} />
+                </Pressable>
+              )}
             </View>
             <View
               style={[
@@ -405,8 +794,92 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
                 { backgroundColor: message.sender === member ? selfBubbleColor : otherBubbleColor },
               ]}
             >
-              <Text style={[styles.messageText, { color: theme.textColor }]}>{message.message}</Text>
+              {message.replyTo && (
+                <View style={[styles.quote, { borderLeftColor: theme.accentColor }]}>
+                  <Text style={[styles.quoteSender, { color: theme.textColor }]}>
+                    {message.replyTo.sender}
+                  </Text>
+                  <Text style={[styles.quoteText, { color: theme.mutedTextColor }]} numberOfLines={2}>
+                    {message.replyTo.message || 'Deleted message'}
+                  </Text>
+                </View>
+              )}
+              {message.deleted ? (
+                <Text style={[styles.messageText, styles.deletedText, { color: theme.mutedTextColor }]}>
+                  This message was deleted
+                </Text>
+              ) : (
+                <>
+                  {message.attachment && renderAttachment(message.attachment)}
+                  {message.message !== '' || !message.attachment ? (
+                    <Text style={[styles.messageText, { color: theme.textColor }]}>
+                      {splitMentions(message.message).map((segment, index) =>
+                        segment.mention ? (
+                          <Text
+                            key={index}
+                            style={[
+                              styles.mentionText,
+                              { color: theme.accentColor },
+                              segment.mention.toLowerCase() === member.toLowerCase() && styles.mentionSelf,
+                            ]}
+                          >
+                            {segment.text}
+                          </Text>
+                        ) : (
+                          segment.text
+                        ),
+                      )}
+                    </Text>
+                  ) : null}
+                </>
+              )}
             </View>
+            {(Object.keys(message.reactions ?? {}).length > 0 || replyCounts.has(getMessageId(message))) && (
+              <View style={styles.reactionsRow}>
+                {Object.entries(message.reactions ?? {}).map(([emoji, reactors]) => (
+                  <Pressable
+                    key={emoji}
+                    disabled={!onReactToMessage}
+                    onPress={() => onReactToMessage?.({ message, emoji })}
+                    accessibilityLabel={`${emoji} ${reactors.length}`}
+                    style={[
+                      styles.reactionChip,
+                      {
+                        borderColor: reactors.includes(member) ? theme.accentColor : theme.borderColor,
+                      },
+                    ]}
+                  >
+                    <Text style={[styles.reactionText, { color: theme.textColor }]}>
+                      {emoji} {reactors.length}
+                    </Text>
+                  </Pressable>
+                ))}
+                {replyCounts.has(getMessageId(message)) && (
+                  <Text style={[styles.threadText, { color: theme.mutedTextColor }]}>
+                    {replyCounts.get(getMessageId(message))}{' '}
+                    {replyCounts.get(getMessageId(message)) === 1 ? 'reply' : 'replies'}
+                  </Text>
+                )}
+              </View>
+            )}
+            {onReactToMessage && reactionPickerFor === getMessageId(message) && (
+              <View style={[styles.reactionPicker, { backgroundColor: theme.rowBackgroundColor }]}>
+                {DEFAULT_MESSAGE_REACTIONS.map((emoji) => (
+                  <Pressable
+                    key={emoji}
+                    style={styles.reactionOption}
+                    accessibilityRole="button"
+                    accessibilityLabel={`React with ${emoji}`}
+                    onPress={() => {
+                      onReactToMessage({ message, emoji });
+                      setReactionPickerFor(null);
+                    }}
+                  >
+                    <Text style={styles.reactionOptionText}>{emoji}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
           </View>
         </View>
       ))}
@@ -420,8 +893,97 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
       )}
       </ScrollView>
 
+      {/* Quoted Reply */}
+      {replyTarget && (
+        <View style={[styles.replyPreview, { borderLeftColor: theme.accentColor, backgroundColor: theme.rowBackgroundColor }]}>
+          <View style={styles.replyPreviewText}>
+            <Text style={[styles.quoteSender, { color: theme.textColor }]}>
+              Replying to {replyTarget.sender}
+            </Text>
+            <Text style={[styles.quoteText, { color: theme.mutedTextColor }]} numberOfLines={1}>
+              {replyTarget.message}
+            </Text>
+          </View>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Cancel reply"
+            onPress={() => setReplyTarget(null)}
+            style={styles.replyButton}
+          >
+            <FontAwesome5 name="times" size={12} color={theme.iconColor} />
+          </Pressable>
+        </View>
+      )}
+
+      {typingMembers.length > 0 && (
+        <Text
+          style={[styles.typingText, { color: theme.mutedTextColor }]}
+          accessibilityLiveRegion="polite"
+        >
+          {formatTypingMembers(typingMembers)}
+        </Text>
+      )}
+
+      {slowModeSeconds > 0 && !canModerateChat({ member, islevel, coHost, coHostResponsibility }) && (
+        <Text style={[styles.slowModeText, { color: theme.mutedTextColor }]}>
+          Slow mode is on: one message every {slowModeSeconds}s
+        </Text>
+      )}
+
+      {mentionSuggestions.length > 0 && (
+        <View style={styles.mentionRow}>
+          {mentionSuggestions.map((name) => (
+            <Pressable
+              key={name}
+              accessibilityRole="button"
+              accessibilityLabel={`Mention ${name}`}
+              onPress={() => handleMentionSelect(name)}
+              style={[styles.mentionChip, { borderColor: theme.borderColor }]}
+            >
+              <Text style={[styles.mentionChipText, { color: theme.textColor }]}>@{name}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {pendingAttachment && (
+        <View style={[styles.pendingAttachment, { borderColor: theme.borderColor }]}>
+          {pendingAttachment.attachment.kind === 'image' ? (
+            <Image source={{ uri: pendingAttachment.data }} style={styles.pendingThumbnail} />
+          ) : (
+            <FontAwesome5 name="file" size={16} color={theme.iconColor} />
+          )}
+          <View style={styles.attachmentInfo}>
+            <Text style={[styles.attachmentName, { color: theme.textColor }]} numberOfLines={1}>
+              {pendingAttachment.attachment.name}
+            </Text>
+            <Text style={[styles.attachmentMeta, { color: theme.mutedTextColor }]}>
+              {formatAttachmentSize(pendingAttachment.attachment.size)}
+            </Text>
+          </View>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Remove attachment"
+            onPress={() => setPendingAttachment(null)}
+            style={styles.replyButton}
+          >
+            <FontAwesome5 name="times" size={12} color={theme.iconColor} />
+          </Pressable>
+        </View>
+      )}
+
       {/* Input Area */}
       <View style={[styles.inputContainer, { borderColor: theme.dividerColor }]}>
+        {updateAttachmentData && (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Attach an image"
+            onPress={handleAttachPress}
+            style={styles.attachButton}
+          >
+            <FontAwesome5 name="paperclip" size={16} color={theme.iconColor} />
+          </Pressable>
+        )}
         <TextInput
           ref={
             focusedInput && startDirectMessage && directMessageDetails
@@ -452,6 +1014,7 @@ const MessagePanel: React.FC<MessagePanelOptions> = ({
           maxLength={350}
           multiline
           onChangeText={handleTextInputChange}
+          onSelectionChange={(event) => setCursor(event.nativeEvent.selection.end)}
           value={type === 'direct' ? directMessageText : groupMessageText}
           placeholderTextColor={theme.placeholderTextColor}
         />
@@ -479,6 +1042,29 @@ const styles = StyleSheet.create({
   },
   messageWrapper: {
     marginBottom: 5,
+    borderRadius: 6,
+  },
+  loadOlderButton: {
+    alignSelf: 'center',
+    paddingVertical: 6,
+  },
+  loadOlderText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  daySeparator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  daySeparatorLine: {
+    flex: 1,
+    height: StyleSheet.hairlineWidth,
+  },
+  daySeparatorText: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginHorizontal: 8,
   },
   messageContainer: {
     maxWidth: 200,
@@ -516,6 +1102,15 @@ const styles = StyleSheet.create({
     fontSize: 8,
     color: '#999999',
   },
+  deliveryStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 4,
+  },
+  deliveryStatusText: {
+    fontSize: 8,
+    marginLeft: 2,
+  },
   replyButton: {
     padding: 2,
     marginLeft: 5,
@@ -530,6 +1125,140 @@ const styles = StyleSheet.create({
     fontSize: 12,
     maxWidth: 300,
   },
+  deletedText: {
+    fontStyle: 'italic',
+  },
+  mentionText: {
+    fontWeight: 'bold',
+  },
+  attachment: {
+    marginBottom: 4,
+  },
+  attachmentThumbnail: {
+    width: 160,
+    height: 120,
+    borderRadius: 6,
+  },
+  attachmentFile: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 6,
+    padding: 6,
+    maxWidth: 220,
+  },
+  attachmentInfo: {
+    flexShrink: 1,
+    marginHorizontal: 6,
+  },
+  attachmentName: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  attachmentMeta: {
+    fontSize: 10,
+  },
+  pendingAttachment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 6,
+    padding: 4,
+    marginBottom: 4,
+  },
+  pendingThumbnail: {
+    width: 36,
+    height: 36,
+    borderRadius: 4,
+  },
+  attachButton: {
+    padding: 8,
+  },
+  mentionSelf: {
+    backgroundColor: 'rgba(250, 204, 21, 0.35)',
+  },
+  mentionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  mentionChip: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginRight: 4,
+    marginBottom: 4,
+  },
+  mentionChipText: {
+    fontSize: 12,
+  },
+  slowModeText: {
+    fontSize: 11,
+    marginBottom: 4,
+  },
+  typingText: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: 6,
+    marginBottom: 4,
+  },
+  quoteSender: {
+    fontWeight: 'bold',
+    fontSize: 9,
+  },
+  quoteText: {
+    fontSize: 10,
+  },
+  reactionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: 3,
+  },
+  reactionChip: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    marginRight: 3,
+    marginBottom: 2,
+  },
+  reactionText: {
+    fontSize: 10,
+  },
+  threadText: {
+    fontSize: 9,
+    marginLeft: 2,
+  },
+  reactionPicker: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    paddingHorizontal: 4,
+    marginTop: 3,
+  },
+  reactionOption: {
+    padding: 4,
+  },
+  reactionOptionText: {
+    fontSize: 16,
+  },
+  replyPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderLeftWidth: 3,
+    borderRadius: 5,
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    marginBottom: 4,
+  },
+  replyPreviewText: {
+    flex: 1,
+  },
   replyInfoContainer: {
     flexDirection: 'row',
     alignItems: 'center',
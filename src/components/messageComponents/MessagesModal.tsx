@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import {
   Modal,
   View,
@@ -6,7 +6,9 @@ import {
   Pressable,
   StyleSheet,
   Dimensions,
+  ScrollView,
   StyleProp,
+  TextInput,
   ViewStyle,
 } from 'react-native';
 import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
@@ -14,12 +16,37 @@ import { Socket } from 'socket.io-client';
 import MessagePanel from './MessagePanel';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
 import { sendMessage, SendMessageOptions } from '../../methods/messageMethods/sendMessage';
+import { ChatOutbox } from '../../methods/messageMethods/chatOutbox';
+import { sendMessageReaction } from '../../methods/messageMethods/messageThreads';
+import { deleteMessageForEveryone } from '../../methods/messageMethods/chatModeration';
 import {
+  countUnreadMessages,
+  getTypingMembers,
+  GROUP_THREAD_KEY,
+} from '../../methods/messageMethods/chatPresence';
+import {
+  CHAT_TRANSCRIPT_FORMATS,
+  ChatTranscriptFormat,
+  exportChatTranscript,
+  getVisibleChatMessages,
+} from '../../methods/messageMethods/chatTranscript';
+import {
+  ChatSearchScope,
+  getMessageSenders,
+  highlightMatches,
+  searchMessages,
+} from '../../methods/messageMethods/chatSearch';
+import { formatMessageTime } from '../../methods/messageMethods/chatHistory';
+import { getMessageId } from '../../methods/messageMethods/messageThreads';
+import {
+  ChatModerationSettings,
+  ChatReadState,
   CoHostResponsibility,
   EventType,
   Message,
   Participant,
   ShowAlert,
+  TypingEventData,
 } from '../../@types/types';
 import { getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
 
@@ -36,8 +63,21 @@ import { getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
  * @property {() => void} onMessagesClose Invoked when the modal should close.
  *
  * **Messaging:**
- * @property {(options: SendMessageOptions) => Promise<void>} [onSendMessagePress=sendMessage] Handler triggered when sending a message.
+ * @property {(options: SendMessageOptions) => Promise<boolean | void>} [onSendMessagePress=sendMessage] Handler triggered when sending a message; resolving to `false` keeps the typed message.
  * @property {Message[]} messages Collection of messages to render within the panel.
+ * @property {(options: { message: Message; emoji: string }) => void} [onReactToMessage] Handler triggered when a reaction is toggled. Defaults to sending it to the room.
+ * @property {(options: { message: Message }) => void} [onDeleteMessage] Handler triggered when the host or chat co-host deletes a message. Defaults to deleting it for everyone in the room.
+ * @property {ChatModerationSettings} [chatModeration] The room's blocked words and slow mode, applied when sending.
+ * @property {number} [pageSize=30] Number of messages shown at first and loaded each time the user scrolls to the top.
+ * @property {ChatOutbox} [chatOutbox] Queues outgoing messages while the connection drops and tracks their delivery state.
+ * @property {ChatReadState} [readState] When each conversation was last read; unread counts are shown on the tabs.
+ * @property {(options: { threadKey: string }) => void} [onMarkThreadRead] Invoked when the conversations of the open tab are read.
+ * @property {TypingEventData[]} [typingMembers] Members typing in the room, shown above the input of their conversation.
+ * @property {(options: { group: boolean; receivers: string[]; isTyping: boolean }) => void} [onTyping] Invoked as the user types.
+ * @property {Participant[]} [participants] Participants suggested while typing `@name` in the group chat.
+ * @property {{ [attachmentId: string]: string }} [attachmentData] Data of the attachments sent and received, as data URIs.
+ * @property {(attachmentId: string, data: string) => void} [updateAttachmentData] Keeps sent attachments; enables the attach button.
+ * @property {(options: { format: ChatTranscriptFormat }) => Promise<void>} [onExportTranscript] Handler for the export action. Defaults to sharing a transcript of the visible messages.
  *
  * **Appearance:**
  * @property {'topRight' | 'topLeft' | 'bottomRight' | 'bottomLeft'} [position='topRight'] Preferred anchor position.
@@ -73,8 +113,21 @@ import { getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
 export interface MessagesModalOptions {
   isMessagesModalVisible: boolean;
   onMessagesClose: () => void;
-  onSendMessagePress?: (options: SendMessageOptions) => Promise<void>;
+  onSendMessagePress?: (options: SendMessageOptions) => Promise<boolean | void>;
   messages: Message[];
+  chatOutbox?: ChatOutbox;
+  onReactToMessage?: (options: { message: Message; emoji: string }) => void;
+  onDeleteMessage?: (options: { message: Message }) => void;
+  chatModeration?: ChatModerationSettings | null;
+  pageSize?: number;
+  readState?: ChatReadState;
+  onMarkThreadRead?: (options: { threadKey: string }) => void;
+  typingMembers?: TypingEventData[];
+  onTyping?: (options: { group: boolean; receivers: string[]; isTyping: boolean }) => void;
+  participants?: Participant[];
+  attachmentData?: { [attachmentId: string]: string };
+  updateAttachmentData?: (attachmentId: string, data: string) => void;
+  onExportTranscript?: (options: { format: ChatTranscriptFormat }) => Promise<void>;
   position?: 'topRight' | 'topLeft' | 'bottomRight' | 'bottomLeft';
   backgroundColor?: string;
   isDarkMode?: boolean;
@@ -178,6 +231,19 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
   onMessagesClose,
   onSendMessagePress = sendMessage,
   messages,
+  chatOutbox,
+  onReactToMessage,
+  onDeleteMessage,
+  chatModeration,
+  pageSize,
+  readState,
+  onMarkThreadRead,
+  typingMembers = [],
+  onTyping,
+  participants,
+  attachmentData,
+  updateAttachmentData,
+  onExportTranscript,
   position = 'topRight',
   backgroundColor = '#f5f5f5',
   isDarkMode,
@@ -212,12 +278,19 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
   );
   const [focusedInput, setFocusedInput] = useState<boolean>(false);
   const [reRender, setReRender] = useState<boolean>(false);
+  const [exportMenuVisible, setExportMenuVisible] = useState<boolean>(false);
+  const [searchVisible, setSearchVisible] = useState<boolean>(false);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [searchScope, setSearchScope] = useState<ChatSearchScope>('all');
+  const [searchSender, setSearchSender] = useState<string | null>(null);
+  const [jumpToMessage, setJumpToMessage] = useState<{ messageId: string } | null>(null);
 
   /**
    * Switches the active tab to 'direct'.
    */
   const switchToDirectTab = () => {
     activeTab.current = 'direct';
+    setJumpToMessage(null);
     setReRender(!reRender);
   };
 
@@ -226,6 +299,7 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
    */
   const switchToGroupTab = () => {
     activeTab.current = 'group';
+    setJumpToMessage(null);
     setReRender(!reRender);
   };
 
@@ -275,6 +349,113 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
     // Force re-render when reRender state changes
   }, [reRender]);
 
+  const unreadCounts = useMemo(
+    () =>
+      countUnreadMessages({
+        messages: [...directMessages, ...groupMessages],
+        member,
+        readState: readState ?? {},
+      }),
+    [directMessages, groupMessages, member, readState],
+  );
+  const groupUnreadCount = unreadCounts[GROUP_THREAD_KEY] ?? 0;
+  const directUnreadCount = Object.keys(unreadCounts)
+    .filter((threadKey) => threadKey !== GROUP_THREAD_KEY)
+    .reduce((total, threadKey) => total + unreadCounts[threadKey], 0);
+
+  // the conversations of the open tab are read as soon as their messages are on screen
+  useEffect(() => {
+    if (!isMessagesModalVisible || !onMarkThreadRead) {
+      return;
+    }
+    Object.keys(unreadCounts)
+      .filter((threadKey) => (threadKey === GROUP_THREAD_KEY) === (activeTab.current === 'group'))
+      .forEach((threadKey) => onMarkThreadRead({ threadKey }));
+  }, [isMessagesModalVisible, onMarkThreadRead, unreadCounts, reRender]);
+
+  const groupTypingMembers = getTypingMembers({ typing: typingMembers, group: true, member, islevel });
+  const directTypingMembers = getTypingMembers({ typing: typingMembers, group: false, member, islevel });
+
+  const renderUnreadCount = (count: number) =>
+    count > 0 ? (
+      <View style={[styles.unreadBadge, { backgroundColor: theme.dangerColor }]}>
+        <Text style={styles.unreadBadgeText}>{count > 99 ? '99+' : count}</Text>
+      </View>
+    ) : null;
+
+  const reactToMessage =
+    onReactToMessage ??
+    (({ message, emoji }: { message: Message; emoji: string }) => {
+      sendMessageReaction({ socket, roomName, member, message, emoji });
+    });
+
+  const deleteMessage =
+    onDeleteMessage ??
+    (({ message }: { message: Message }) => {
+      deleteMessageForEveryone({
+        socket,
+        roomName,
+        message,
+        member,
+        islevel,
+        coHost,
+        coHostResponsibility,
+        showAlert,
+      });
+    });
+
+  const exportTranscript = async (format: ChatTranscriptFormat) => {
+    setExportMenuVisible(false);
+    if (onExportTranscript) {
+      await onExportTranscript({ format });
+      return;
+    }
+    await exportChatTranscript({
+      messages,
+      format,
+      roomName,
+      member,
+      islevel,
+      coHost,
+      coHostResponsibility,
+      showAlert,
+    });
+  };
+
+  const hasDirectTab = eventType === 'webinar' || eventType === 'conference';
+  const searchableMessages = useMemo(
+    () =>
+      getVisibleChatMessages({ messages, member, islevel, coHost, coHostResponsibility }).filter(
+        (message) => hasDirectTab || message.group,
+      ),
+    [coHost, coHostResponsibility, hasDirectTab, islevel, member, messages],
+  );
+  const searchSenders = useMemo(() => getMessageSenders(searchableMessages), [searchableMessages]);
+  const searchResults = useMemo(
+    () =>
+      searchQuery.trim() || searchSender
+        ? searchMessages({
+            messages: searchableMessages,
+            query: searchQuery,
+            sender: searchSender,
+            scope: searchScope,
+          })
+        : [],
+    [searchQuery, searchScope, searchSender, searchableMessages],
+  );
+
+  const toggleSearch = () => {
+    setSearchVisible(!searchVisible);
+    setExportMenuVisible(false);
+  };
+
+  // shows the message in its conversation, scrolled into view and highlighted
+  const openSearchResult = (message: Message) => {
+    activeTab.current = message.group ? 'group' : 'direct';
+    setSearchVisible(false);
+    setJumpToMessage({ messageId: getMessageId(message) });
+  };
+
   const dimensions = { width: modalWidth, height: 0 };
   const theme = getModalBodyTheme(isDarkMode);
   const shouldUseModernTheme = typeof isDarkMode === 'boolean';
@@ -302,6 +483,7 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
               >
                 Direct
               </Text>
+              {activeTab.current !== 'direct' && renderUnreadCount(directUnreadCount)}
             </Pressable>
             <Pressable
               onPress={switchToGroupTab}
@@ -320,19 +502,157 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
               >
                 Group
               </Text>
+              {activeTab.current !== 'group' && renderUnreadCount(groupUnreadCount)}
             </Pressable>
           </View>
         ) : null}
 
-        {/* Close Button */}
-        <Pressable onPress={onMessagesClose} style={styles.closeButton}>
-          <FontAwesome5 name="times" size={24} color={theme.iconColor} />
-        </Pressable>
+        <View style={styles.headerActions}>
+          <Pressable
+            onPress={toggleSearch}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel={searchVisible ? 'Close search' : 'Search messages'}
+          >
+            <FontAwesome5 name="search" size={18} color={searchVisible ? activeTabColor : theme.iconColor} />
+          </Pressable>
+
+          <Pressable
+            onPress={() => setExportMenuVisible(!exportMenuVisible)}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel="Export chat transcript"
+          >
+            <FontAwesome5 name="file-export" size={20} color={theme.iconColor} />
+          </Pressable>
+
+          {/* Close Button */}
+          <Pressable onPress={onMessagesClose} style={styles.closeButton}>
+            <FontAwesome5 name="times" size={24} color={theme.iconColor} />
+          </Pressable>
+        </View>
       </View>
 
+      {exportMenuVisible && (
+        <View style={styles.exportMenu}>
+          <Text style={[styles.exportMenuLabel, { color: theme.textColor }]}>Export as</Text>
+          {CHAT_TRANSCRIPT_FORMATS.map(({ format, label }) => (
+            <Pressable
+              key={format}
+              onPress={() => exportTranscript(format)}
+              style={[styles.exportOption, { borderColor: theme.borderColor }]}
+              accessibilityRole="button"
+              accessibilityLabel={`Export chat transcript as ${label}`}
+            >
+              <Text style={[styles.exportOptionText, { color: theme.textColor }]}>{label}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
       <View style={[styles.separator, { backgroundColor: theme.dividerColor }]} />
 
-      <View style={styles.modalBody}>
+      {searchVisible && (
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={[
+              styles.searchInput,
+              {
+                backgroundColor: theme.inputBackgroundColor,
+                borderColor: theme.borderColor,
+                color: theme.inputTextColor,
+              },
+            ]}
+            placeholder="Search messages"
+            placeholderTextColor={theme.placeholderTextColor}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoFocus
+            autoCorrect={false}
+            returnKeyType="search"
+            accessibilityLabel="Search messages"
+          />
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.searchFilters}>
+            {hasDirectTab &&
+              (['all', 'group', 'direct'] as ChatSearchScope[]).map((scope) => (
+                <Pressable
+                  key={scope}
+                  onPress={() => setSearchScope(scope)}
+                  style={[
+                    styles.searchChip,
+                    { borderColor: theme.borderColor },
+                    searchScope === scope && { backgroundColor: activeTabColor, borderColor: activeTabColor },
+                  ]}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: searchScope === scope }}
+                >
+                  <Text style={[styles.searchChipText, { color: searchScope === scope ? theme.buttonTextColor : theme.textColor }]}>
+                    {scope === 'all' ? 'All' : scope === 'group' ? 'Group' : 'Direct'}
+                  </Text>
+                </Pressable>
+              ))}
+            {[null, ...searchSenders].map((sender) => (
+              <Pressable
+                key={sender ?? 'anyone'}
+                onPress={() => setSearchSender(sender)}
+                style={[
+                  styles.searchChip,
+                  { borderColor: theme.borderColor },
+                  searchSender === sender && { backgroundColor: activeTabColor, borderColor: activeTabColor },
+                ]}
+                accessibilityRole="button"
+                accessibilityState={{ selected: searchSender === sender }}
+              >
+                <Text style={[styles.searchChipText, { color: searchSender === sender ? theme.buttonTextColor : theme.textColor }]}>
+                  {sender ?? 'Anyone'}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {searchVisible ? (
+        <ScrollView style={styles.modalBody} keyboardShouldPersistTaps="handled">
+          {searchResults.length === 0 ? (
+            <Text style={[styles.searchEmptyText, { color: theme.mutedTextColor }]}>
+              {searchQuery.trim() || searchSender ? 'No messages found' : 'Type to search the chat'}
+            </Text>
+          ) : (
+            <Text style={[styles.searchEmptyText, { color: theme.mutedTextColor }]}>
+              {searchResults.length === 1 ? '1 message' : `${searchResults.length} messages`}
+            </Text>
+          )}
+          {searchResults.map((message) => (
+            <Pressable
+              key={getMessageId(message)}
+              onPress={() => openSearchResult(message)}
+              style={[styles.searchResult, { borderColor: theme.dividerColor }]}
+              accessibilityRole="button"
+              accessibilityLabel={`Show message from ${message.sender} in the chat`}
+            >
+              <Text style={[styles.searchResultMeta, { color: theme.mutedTextColor }]}>
+                {message.sender}
+                {hasDirectTab ? (message.group ? ' · Group' : ' · Direct') : ''}
+                {' · '}
+                {formatMessageTime(message.timestamp)}
+              </Text>
+              <Text style={[styles.searchResultText, { color: theme.textColor }]} numberOfLines={3}>
+                {highlightMatches(message.message, searchQuery).map((segment, index) => (
+                  <Text
+                    key={index}
+                    style={segment.match ? [styles.searchMatch, { backgroundColor: activeTabColor }] : null}
+                  >
+                    {segment.text}
+                  </Text>
+                ))}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      ) : null}
+
+      <View style={[styles.modalBody, searchVisible && styles.hidden]}>
         {activeTab.current === 'direct'
           && (eventType === 'webinar' || eventType === 'conference') && (
             <MessagePanel
@@ -340,6 +660,16 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
               messagesLength={messages.length}
               type="direct"
               onSendMessagePress={onSendMessagePress}
+              chatOutbox={chatOutbox}
+              onReactToMessage={reactToMessage}
+              pageSize={pageSize}
+              typingMembers={directTypingMembers}
+              onTyping={onTyping}
+              attachmentData={attachmentData}
+              updateAttachmentData={updateAttachmentData}
+              jumpToMessage={jumpToMessage}
+              onDeleteMessage={deleteMessage}
+              chatModeration={chatModeration}
               username={member}
               backgroundColor={backgroundColor}
               isDarkMode={isDarkMode}
@@ -366,6 +696,17 @@ const MessagesModal: React.FC<MessagesModalOptions> = ({
             messagesLength={messages.length}
             type="group"
             onSendMessagePress={onSendMessagePress}
+            chatOutbox={chatOutbox}
+            onReactToMessage={reactToMessage}
+            pageSize={pageSize}
+            typingMembers={groupTypingMembers}
+            onTyping={onTyping}
+            participants={participants}
+            attachmentData={attachmentData}
+            updateAttachmentData={updateAttachmentData}
+            jumpToMessage={jumpToMessage}
+            onDeleteMessage={deleteMessage}
+            chatModeration={chatModeration}
             username={member}
             backgroundColor={backgroundColor}
             isDarkMode={isDarkMode}
@@ -451,11 +792,27 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
   },
   tab: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: 15,
     paddingVertical: 5,
     marginVertical: 10,
     borderRadius: 4,
   },
+  unreadBadge: {
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    marginLeft: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeText: {
+    color: '#ffffff',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
   activeTab: {
     // Additional styles for active tab if needed
   },
@@ -477,7 +834,80 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 5,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+  },
+  searchContainer: {
+    marginBottom: 5,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+  },
+  searchFilters: {
+    flexGrow: 0,
+    marginTop: 6,
+  },
+  searchChip: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    marginRight: 6,
+  },
+  searchChipText: {
+    fontSize: 12,
+  },
+  searchEmptyText: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  searchResult: {
+    borderBottomWidth: 1,
+    paddingVertical: 8,
+  },
+  searchResultMeta: {
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  searchResultText: {
+    fontSize: 13,
+  },
+  searchMatch: {
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  exportMenu: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 5,
+  },
+  exportMenuLabel: {
+    fontSize: 12,
+    marginRight: 6,
+  },
+  exportOption: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+  },
+  exportOptionText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   modalBody: {
     flex: 1,
   },
+  hidden: {
+    display: 'none',
+  },
 });
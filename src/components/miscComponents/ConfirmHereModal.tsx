@@ -12,7 +12,7 @@ import {
   StyleProp,
   ViewStyle,
 } from 'react-native';
-import { Socket } from 'socket.io-client';
+import { MediasfuSocket } from '../../sockets/socketEvents';
 import { getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
 
 /**
@@ -26,8 +26,8 @@ import { getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
  *
  * **Countdown Behaviour:**
  * @property {number} [countdownDuration=120] Seconds before the user is automatically disconnected.
- * @property {Socket} socket Primary socket used to emit `disconnectUser` events.
- * @property {Socket} [localSocket] Optional secondary socket mirror for local transports.
+ * @property {MediasfuSocket} socket Primary socket used to emit `disconnectUser` events.
+ * @property {MediasfuSocket} [localSocket] Optional secondary socket mirror for local transports.
  * @property {string} roomName Active room identifier attached to disconnect events.
  * @property {string} member Member identifier associated with the confirmation prompt.
  *
@@ -47,8 +47,8 @@ export interface ConfirmHereModalOptions {
   backgroundColor?: string;
   isDarkMode?: boolean;
   countdownDuration?: number;
-  socket: Socket;
-  localSocket?: Socket;
+  socket: MediasfuSocket;
+  localSocket?: MediasfuSocket;
   roomName: string;
   member: string;
   style?: StyleProp<ViewStyle>;
@@ -122,8 +122,8 @@ function startCountdown({
   duration: number;
   onConfirm: () => void;
   onUpdateCounter: (counter: number) => void;
-  socket: Socket;
-  localSocket?: Socket;
+  socket: MediasfuSocket;
+  localSocket?: MediasfuSocket;
   roomName: string;
   member: string;
 }) {
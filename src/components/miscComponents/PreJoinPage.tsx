@@ -29,7 +29,9 @@ import { checkLimitsAndMakeRequest } from '../../methods/utils/checkLimitsAndMak
 import { createRoomOnMediaSFU } from '../../methods/utils/createRoomOnMediaSFU';
 import { CreateRoomOnMediaSFUType, JoinRoomOnMediaSFUType, joinRoomOnMediaSFU } from '../../methods/utils/joinRoomOnMediaSFU';
 import { validateAlphanumeric } from '../../methods/utils/validateAlphanumeric';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MediasfuStorage, resolveMediasfuStorage } from '../../methods/utils/storage/mediasfuStorage';
+import { GetTokenType, OnTokenExpiredType } from '../../sockets/socketAuth';
+import { MediasfuErrorHandler } from '../../methods/utils/mediasfuError';
 /**
  * Interface defining the parameters for joining a local event room.
  */
@@ -156,6 +158,27 @@ export interface PreJoinPageParameters {
    * Function to update the member name in the parent state.
    */
   updateMember: (member: string) => void;
+
+  /**
+   * Storage for rate-limit counters and pending room requests. Defaults to `getDefaultMediasfuStorage()`,
+   * the AsyncStorage adapter unless replaced with `setDefaultMediasfuStorage`.
+   */
+  storage?: MediasfuStorage;
+
+  /**
+   * Returns a fresh API token before connecting and whenever the current one expires.
+   */
+  getToken?: GetTokenType;
+
+  /**
+   * Called whenever the API token is found to be expired.
+   */
+  onTokenExpired?: OnTokenExpiredType;
+
+  /**
+   * Receives typed errors (rate limiting, rejected credentials, connection failures).
+   */
+  onError?: MediasfuErrorHandler;
 }
 
 /**
@@ -342,7 +365,9 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
     updateLink,
     updateRoomName,
     updateMember,
+    storage: providedStorage,
   } = parameters;
+  const storage = resolveMediasfuStorage(providedStorage);
 
   const validateDisplayName = async (displayName: string) => {
     const isValidDisplayName =
@@ -467,7 +492,7 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
 
         // Check pending status to prevent duplicate requests
         try {
-          const pendingRequest = await AsyncStorage.getItem(pendingKey);
+          const pendingRequest = await storage.getItem(pendingKey);
           if (pendingRequest) {
             const pendingData = JSON.parse(pendingRequest);
             const timeSincePending = Date.now() - (pendingData?.timestamp ?? 0);
@@ -478,16 +503,16 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
               return;
             } else {
               // Stale lock, clear it
-              await AsyncStorage.removeItem(pendingKey).catch(() => {});
+              await storage.removeItem(pendingKey).catch(() => {});
             }
           }
         } catch {
-          // Ignore AsyncStorage read/JSON errors
+          // Ignore storage read/JSON errors
         }
 
         // Mark request as pending
         try {
-          await AsyncStorage.setItem(
+          await storage.setItem(
             pendingKey,
             JSON.stringify({
               timestamp: Date.now(),
@@ -502,10 +527,10 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
 
           // Auto-clear the pending flag after timeout to avoid stale locks
           setTimeout(() => {
-            AsyncStorage.removeItem(pendingKey).catch(() => {});
+            storage.removeItem(pendingKey).catch(() => {});
           }, PENDING_TIMEOUT);
         } catch {
-          // Ignore AsyncStorage write errors
+          // Ignore storage write errors
         }
         payload.recordOnly = true; // allow production to mediasfu only; no consumption
         try {
@@ -518,7 +543,7 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
 
           // Clear pending status on completion
           try {
-            await AsyncStorage.removeItem(pendingKey);
+            await storage.removeItem(pendingKey);
           } catch {
             /* ignore */
           }
@@ -544,7 +569,7 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
         } catch (error) {
           // Clear pending status on error
           try {
-            await AsyncStorage.removeItem(pendingKey);
+            await storage.removeItem(pendingKey);
           } catch {
             /* ignore */
           }
@@ -571,7 +596,7 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
 
       // Check pending status to prevent duplicate requests
       try {
-        const pendingRequest = await AsyncStorage.getItem(pendingKey);
+        const pendingRequest = await storage.getItem(pendingKey);
         if (pendingRequest) {
           const pendingData = JSON.parse(pendingRequest);
           const timeSincePending = Date.now() - (pendingData?.timestamp ?? 0);
@@ -582,16 +607,16 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
             return;
           } else {
             // Stale lock, clear it
-            await AsyncStorage.removeItem(pendingKey).catch(() => {});
+            await storage.removeItem(pendingKey).catch(() => {});
           }
         }
       } catch {
-        // Ignore AsyncStorage read/JSON errors
+        // Ignore storage read/JSON errors
       }
 
       // Mark request as pending
       try {
-        await AsyncStorage.setItem(
+        await storage.setItem(
           pendingKey,
           JSON.stringify({
             timestamp: Date.now(),
@@ -606,10 +631,10 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
 
         // Auto-clear the pending flag after timeout to avoid stale locks
         setTimeout(() => {
-          AsyncStorage.removeItem(pendingKey).catch(() => {});
+          storage.removeItem(pendingKey).catch(() => {});
         }, PENDING_TIMEOUT);
       } catch {
-        // Ignore AsyncStorage write errors
+        // Ignore storage write errors
       }
 
       try {
@@ -622,7 +647,7 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
 
         // Clear pending status on completion
         try {
-          await AsyncStorage.removeItem(pendingKey);
+          await storage.removeItem(pendingKey);
         } catch {
           /* ignore */
         }
@@ -631,7 +656,7 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
       } catch (error) {
         // Clear pending status on error
         try {
-          await AsyncStorage.removeItem(pendingKey);
+          await storage.removeItem(pendingKey);
         } catch {
           /* ignore */
         }
@@ -796,6 +821,7 @@ const PreJoinPage: React.FC<PreJoinPageOptions> = ({
       apiUserName: apiUserName,
       apiKey: apiKey,
       localLink: localLink,
+      pendingRequestStorage: storage,
     });
     if (response.success && response.data && 'roomName' in response.data) {
       await checkLimitsAndMakeRequest({
@@ -15,14 +15,33 @@ import {
 // import {RNCamera} from 'react-native-camera'; // Updated import for camera
 // import Icon from 'react-native-vector-icons/FontAwesome5'; // Updated import for icons
 import Orientation from '../../methods/utils/orientation/orientation';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {MediasfuStorage, resolveMediasfuStorage} from '../../methods/utils/storage/mediasfuStorage';
+import {
+  classifySocketError,
+  GetTokenType,
+  OnTokenExpiredType,
+  SocketAuthErrorCode,
+} from '../../sockets/socketAuth';
+import {createMediasfuError, emitMediasfuError, MediasfuErrorHandler} from '../../methods/utils/mediasfuError';
 import {Socket} from 'socket.io-client';
 import {ConnectSocketType} from '../../sockets/SocketManager';
 import {ShowAlert} from '../../@types/types';
+import { getMediasfuLogger } from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('sockets');
+
 // import {request, PERMISSIONS, RESULTS} from 'react-native-permissions';
 
 const MAX_ATTEMPTS = 10; // Maximum number of unsuccessful attempts before rate limiting
 const RATE_LIMIT_DURATION = 3 * 60 * 60 * 1000; // 3 hours in milliseconds
+const CONNECTION_ERROR_MESSAGES: Record<
+  Exclude<SocketAuthErrorCode, 'INVALID_CREDENTIALS'>,
+  string
+> = {
+  TOKEN_EXPIRED: 'Your session has expired. Please sign in again.',
+  NETWORK: 'Unable to reach the server. Check your connection and try again.',
+  UNKNOWN: 'Unable to connect. Please try again.',
+};
 
 /**
  * Interface defining the parameters for the WelcomePage component.
@@ -83,6 +102,27 @@ export interface WelcomePageParameters {
    * Function to update the member name in the parent state.
    */
   updateMember: (userName: string) => void;
+
+  /**
+   * Storage for rate-limit counters and pending room requests. Defaults to `getDefaultMediasfuStorage()`,
+   * the AsyncStorage adapter unless replaced with `setDefaultMediasfuStorage`.
+   */
+  storage?: MediasfuStorage;
+
+  /**
+   * Returns a fresh API token before connecting and whenever the current one expires.
+   */
+  getToken?: GetTokenType;
+
+  /**
+   * Called whenever the API token is found to be expired.
+   */
+  onTokenExpired?: OnTokenExpiredType;
+
+  /**
+   * Receives typed errors (rate limiting, rejected credentials, connection failures).
+   */
+  onError?: MediasfuErrorHandler;
 }
 
 /**
@@ -162,7 +202,12 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
     updateLink,
     updateRoomName,
     updateMember,
+    storage: providedStorage,
+    getToken,
+    onTokenExpired,
+    onError,
   } = parameters;
+  const storage = resolveMediasfuStorage(providedStorage);
 
   /**
    * Requests camera permissions for QR Code Scanner.
@@ -204,23 +249,31 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
     const TIMEOUT_DURATION = 10000; // 10 seconds
 
     try {
-      // Retrieve unsuccessful attempts and last request timestamp from AsyncStorage
+      // Retrieve unsuccessful attempts and last request timestamp from storage
       let unsuccessfulAttempts = parseInt(
-        (await AsyncStorage.getItem('unsuccessfulAttempts')) || '0',
+        (await storage.getItem('unsuccessfulAttempts')) || '0',
        10);
       const lastRequestTimestamp = parseInt(
-        (await AsyncStorage.getItem('lastRequestTimestamp')) || '0',
+        (await storage.getItem('lastRequestTimestamp')) || '0',
        10);
 
       // Check if user has exceeded maximum attempts
       if (unsuccessfulAttempts >= MAX_ATTEMPTS) {
         if (Date.now() - lastRequestTimestamp < RATE_LIMIT_DURATION) {
+          emitMediasfuError({
+            onError,
+            error: createMediasfuError({
+              code: 'RATE_LIMITED',
+              message: 'Too many unsuccessful attempts. Please try again later.',
+              details: {retryAfterMs: RATE_LIMIT_DURATION},
+            }),
+          });
           showAlert?.({
             message: 'Too many unsuccessful attempts. Please try again later.',
             type: 'danger',
             duration: 3000,
           });
-          await AsyncStorage.setItem(
+          await storage.setItem(
             'lastRequestTimestamp',
             Date.now().toString(),
           );
@@ -228,11 +281,11 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
         }
         // Reset unsuccessful attempts after rate limit duration
         unsuccessfulAttempts = 0;
-        await AsyncStorage.setItem(
+        await storage.setItem(
           'unsuccessfulAttempts',
           unsuccessfulAttempts.toString(),
         );
-        await AsyncStorage.setItem(
+        await storage.setItem(
           'lastRequestTimestamp',
           Date.now().toString(),
         );
@@ -241,12 +294,22 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
       // Show loading modal
       updateIsLoadingModalVisible(true);
 
-      // Attempt to connect to socket with a timeout
+      // Attempt to connect to socket with a timeout; getToken may replace apiToken while connecting
+      let usedToken = apiToken;
+      let connected = false;
       const socketPromise = connectSocket({
         apiUserName,
         apiKey,
         apiToken,
         link,
+        getToken,
+        onTokenExpired,
+        onTokenChange: (token) => {
+          usedToken = token;
+          if (connected) {
+            updateApiToken(token);
+          }
+        },
       });
       const timeoutPromise = new Promise<never>((_, reject) =>
         setTimeout(
@@ -259,12 +322,13 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
 
       if (socket && socket.id) {
         // Successful connection
+        connected = true;
         unsuccessfulAttempts = 0;
-        await AsyncStorage.setItem(
+        await storage.setItem(
           'unsuccessfulAttempts',
           unsuccessfulAttempts.toString(),
         );
-        await AsyncStorage.setItem(
+        await storage.setItem(
           'lastRequestTimestamp',
           Date.now().toString(),
         );
@@ -272,7 +336,7 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
         // Update parent state with socket and user details
         updateSocket(socket);
         updateApiUserName(apiUserName);
-        updateApiToken(apiToken);
+        updateApiToken(usedToken);
         updateLink(link);
         updateRoomName(apiUserName);
         updateMember(userName);
@@ -280,11 +344,11 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
       } else {
         // Unsuccessful connection
         unsuccessfulAttempts += 1;
-        await AsyncStorage.setItem(
+        await storage.setItem(
           'unsuccessfulAttempts',
           unsuccessfulAttempts.toString(),
         );
-        await AsyncStorage.setItem(
+        await storage.setItem(
           'lastRequestTimestamp',
           Date.now().toString(),
         );
@@ -306,23 +370,39 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
       }
     } catch (error) {
       // Handle errors during connection
-      console.error('Error connecting to socket:', error);
-      showAlert?.({
-        message: 'Unable to connect. Check your credentials and try again.',
-        type: 'danger',
-        duration: 3000,
-      });
+      logger.error('Error connecting to socket:', error);
+      emitMediasfuError({onError, error});
+
+      // Only rejected credentials count towards the lockout, not an expired token or a network failure
+      const code = classifySocketError(error);
+      if (code !== 'INVALID_CREDENTIALS') {
+        showAlert?.({
+          message: CONNECTION_ERROR_MESSAGES[code],
+          type: 'danger',
+          duration: 3000,
+        });
+        updateIsLoadingModalVisible(false);
+        return;
+      }
 
       // Increment unsuccessful attempts
       let unsuccessfulAttempts = parseInt(
-        (await AsyncStorage.getItem('unsuccessfulAttempts')) || '0',
+        (await storage.getItem('unsuccessfulAttempts')) || '0',
        10);
       unsuccessfulAttempts += 1;
-      await AsyncStorage.setItem(
+      await storage.setItem(
         'unsuccessfulAttempts',
         unsuccessfulAttempts.toString(),
       );
-      await AsyncStorage.setItem('lastRequestTimestamp', Date.now().toString());
+      await storage.setItem('lastRequestTimestamp', Date.now().toString());
+      showAlert?.({
+        message:
+          unsuccessfulAttempts >= MAX_ATTEMPTS
+            ? 'Too many unsuccessful attempts. Please try again later.'
+            : 'Invalid credentials.',
+        type: 'danger',
+        duration: 3000,
+      });
       updateIsLoadingModalVisible(false);
     }
   };
@@ -532,7 +612,7 @@ const WelcomePage: React.FC<WelcomePageOptions> = ({parameters}) => {
             });
           }
         } catch (error) {
-          console.error('Error processing scanned data:', error);
+          logger.error('Error processing scanned data:', error);
           showAlert?.({
             message: 'An error occurred while processing scanned data.',
             type: 'danger',
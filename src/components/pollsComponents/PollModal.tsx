@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Dimensions,
   Modal,
@@ -15,11 +15,50 @@ import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
 import RNPickerSelect from 'react-native-picker-select';
 import { Socket } from 'socket.io-client';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
+import {
+  getPollOptionsForType,
+  MAX_OPEN_TEXT_LENGTH,
+  POLL_TYPES,
+  summarizeOpenText,
+  tallyRankedChoice,
+} from '../../methods/pollsMethods/pollResults';
+import {
+  DEFAULT_POLL_WARNINGS,
+  formatPollCountdown,
+  getPollTimeRemaining,
+  parsePollWarnings,
+  POLL_DURATIONS,
+} from '../../methods/pollsMethods/pollTimer';
+import {
+  buildQuizLeaderboard,
+  exportQuizStandings,
+  getQuizName,
+} from '../../methods/pollsMethods/quizScoring';
+import {
+  exportPollSet,
+  parsePollSet,
+  PollDraftContent,
+  toPollDraftContent,
+  validatePollDraft,
+} from '../../methods/pollsMethods/pollDrafts';
+import {
+  canViewPollResults,
+  getHiddenResultsMessage,
+  getPollVoterKey,
+  POLL_RESULTS_VISIBILITY,
+} from '../../methods/pollsMethods/pollVisibility';
+import {
+  handleRevealPollResults as defaultHandleRevealPollResults,
+  HandleRevealPollResultsType,
+} from '../../methods/pollsMethods/handleRevealPollResults';
+import { usePollDrafts } from '../../hooks/usePollDrafts';
+import { MediasfuStorage } from '../../methods/utils/storage/mediasfuStorage';
 import {
   HandleCreatePollType,
   HandleEndPollType,
   HandleVotePollType,
   Poll,
+  PollResultsVisibility,
   ShowAlert,
 } from '../../@types/types';
 
@@ -39,15 +78,18 @@ import {
  * @property {HandleCreatePollType} handleCreatePoll Handler that persists a new poll (host/co-host only).
  * @property {HandleEndPollType} handleEndPoll Handler that terminates the active poll (host/co-host only).
  * @property {HandleVotePollType} handleVotePoll Handler that records the participant's vote selection.
+ * @property {HandleRevealPollResultsType} [handleRevealPollResults] Handler that reveals results hidden until the host reveals them (host only).
  *
  * **User Context:**
  * @property {string} member Identifier for the current participant submitting votes.
  * @property {string} islevel Permission level (`'0'` participant, `'1'` co-host, `'2'` host) driving available actions.
+ * @property {boolean} [youAreCoHost] Whether the participant is a co-host, who sees results kept to the hosts.
  *
  * **Session Context:**
  * @property {Socket} socket Active socket.io connection for real-time poll updates.
  * @property {string} roomName Room identifier associated with poll events.
  * @property {ShowAlert} [showAlert] Optional alert helper for surfacing poll feedback.
+ * @property {MediasfuStorage} [storage] Where the host's draft polls and templates are kept; the default MediaSFU storage when not set.
  *
  * **Customization:**
  * @property {'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight' | 'center'} [position='topRight'] Modal anchoring position.
@@ -68,15 +110,18 @@ export interface PollModalOptions {
   isDarkMode?: boolean;
   member: string;
   islevel: string;
+  youAreCoHost?: boolean;
   polls: Poll[];
   poll: Poll | null;
   socket: Socket;
   roomName: string;
   showAlert?: ShowAlert;
+  storage?: MediasfuStorage;
   updateIsPollModalVisible: (isVisible: boolean) => void;
   handleCreatePoll: HandleCreatePollType;
   handleEndPoll: HandleEndPollType;
   handleVotePoll: HandleVotePollType;
+  handleRevealPollResults?: HandleRevealPollResultsType;
   style?: StyleProp<ViewStyle>;
   renderContent?: (options: {
     defaultContent: JSX.Element;
@@ -100,8 +145,17 @@ export type PollModalType = (options: PollModalOptions) => JSX.Element;
  *
  * **Key Features:**
  * - Guided poll creation with multiple choice support (host/co-host only).
+ * - Multi-select (pick up to N), ranked-choice and open-text polls.
  * - Participant voting with per-user selection highlighting.
- * - Real-time tally and percentage breakdown of each option.
+ * - Real-time tally and percentage breakdown of each option, instant-runoff rounds for
+ *   ranked-choice polls and a word cloud of open-text answers.
+ * - Optional time limit with a countdown for voters; voting closes when time is up.
+ * - Quiz questions with a correct answer, speed-weighted points, a live leaderboard and
+ *   a standings export (host only).
+ * - Draft polls queued per room and launched one tap at a time, reusable templates, and
+ *   import/export of poll sets as JSON (host only).
+ * - Anonymous voting, and results shown to everyone, only once the host reveals them, or only to
+ *   the host and co-hosts.
  * - Previous poll archive including ended/archived questions.
  * - Configurable modal positioning for disparate layout needs.
  * - Optional custom styling via `style` prop or render overrides.
@@ -193,15 +247,18 @@ const PollModal: React.FC<PollModalOptions> = ({
   isDarkMode,
   member,
   islevel,
+  youAreCoHost,
   polls,
   poll,
   socket,
   roomName,
   showAlert,
+  storage,
   updateIsPollModalVisible,
   handleCreatePoll,
   handleEndPoll,
   handleVotePoll,
+  handleRevealPollResults = defaultHandleRevealPollResults,
   style,
   renderContent,
   renderContainer,
@@ -210,7 +267,25 @@ const PollModal: React.FC<PollModalOptions> = ({
     question: '',
     type: '',
     options: [] as string[],
+    maxSelections: undefined as number | undefined,
+    duration: 0,
+    anonymous: false,
+    resultsVisibility: 'everyone' as PollResultsVisibility,
+  });
+  const [warningsText, setWarningsText] = useState(DEFAULT_POLL_WARNINGS.join(', '));
+  const [selectedChoices, setSelectedChoices] = useState<number[]>([]);
+  const [textAnswer, setTextAnswer] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [isQuiz, setIsQuiz] = useState(false);
+  const [quizName, setQuizName] = useState('');
+  const [correctOption, setCorrectOption] = useState(-1);
+  const [pollSetText, setPollSetText] = useState('');
+  const { drafts, templates, addDrafts, removeDraft, addTemplate, removeTemplate } = usePollDrafts({
+    storage,
+    roomName,
+    enabled: isPollModalVisible && islevel === '2',
   });
+  const launchingDraftId = useRef<string | null>(null);
 
   const modalWidth = useMemo(() => {
     const screenWidth = Dimensions.get('window').width;
@@ -249,6 +324,25 @@ const PollModal: React.FC<PollModalOptions> = ({
     }
   }, [isPollModalVisible, polls, poll, islevel]);
 
+  useEffect(() => {
+    setSelectedChoices([]);
+    setTextAnswer('');
+  }, [poll?.id]);
+
+  // tick the countdown while a timed poll is open
+  const timedPollActive = isPollModalVisible && poll?.status === 'active' && typeof poll?.endsAt === 'number';
+  useEffect(() => {
+    if (!timedPollActive) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timedPollActive]);
+
+  const secondsLeft = getPollTimeRemaining(poll, now);
+  const votingClosed = secondsLeft === 0;
+
   const calculatePercentage = (votes: number[], optionIndex: number): string => {
     const totalVotes = votes.reduce((acc, current) => acc + current, 0);
     return totalVotes > 0
@@ -257,24 +351,9 @@ const PollModal: React.FC<PollModalOptions> = ({
   };
 
   const handlePollTypeChange = (type: string) => {
-    let options: string[] = [];
-
-    switch (type) {
-      case 'trueFalse':
-        options = ['True', 'False'];
-        break;
-      case 'yesNo':
-        options = ['Yes', 'No'];
-        break;
-      case 'custom':
-        options = [''];
-        break;
-      default:
-        options = [];
-        break;
-    }
-
-    setNewPoll((prevState) => ({ ...prevState, type, options }));
+    const options = getPollOptionsForType(type);
+    setCorrectOption(-1);
+    setNewPoll((prevState) => ({ ...prevState, type, options, maxSelections: undefined }));
   };
 
   const addCustomOption = () => {
@@ -313,6 +392,8 @@ const PollModal: React.FC<PollModalOptions> = ({
           </View>
         );
       case 'custom':
+      case 'multiSelect':
+      case 'rankedChoice':
         return (
           <View style={styles.formGroup}>
             {newPoll.options.map((option, index) => (
@@ -338,6 +419,33 @@ const PollModal: React.FC<PollModalOptions> = ({
             >
               <Text style={styles.buttonText}>Add Option</Text>
             </Pressable>
+            {newPoll.type === 'multiSelect' && (
+              <View style={styles.maxSelectionsRow}>
+                <Text style={[styles.label, { color: textColor }] as any}>Max selections</Text>
+                <TextInput
+                  style={[styles.maxSelectionsInput, { color: textColor, borderColor: inputBorderColor, backgroundColor: inputBackgroundColor }] as any}
+                  keyboardType="number-pad"
+                  placeholder={`${Math.max(newPoll.options.length, 1)}`}
+                  placeholderTextColor={mutedTextColor}
+                  value={newPoll.maxSelections ? `${newPoll.maxSelections}` : ''}
+                  onChangeText={(value) => {
+                    const parsed = parseInt(value, 10);
+                    setNewPoll((prevState) => ({
+                      ...prevState,
+                      maxSelections: parsed > 0 ? parsed : undefined,
+                    }));
+                  }}
+                />
+              </View>
+            )}
+          </View>
+        );
+      case 'openText':
+        return (
+          <View style={styles.formGroup}>
+            <Text style={[styles.noteText, { color: mutedTextColor }] as any}>
+              {`Participants answer in their own words (up to ${MAX_OPEN_TEXT_LENGTH} characters).`}
+            </Text>
           </View>
         );
       default:
@@ -345,19 +453,138 @@ const PollModal: React.FC<PollModalOptions> = ({
     }
   };
 
+  const toggleChoice = (index: number) => {
+    if (!poll) {
+      return;
+    }
+    setSelectedChoices((prevState) => {
+      if (prevState.includes(index)) {
+        return prevState.filter((choice) => choice !== index);
+      }
+      if (poll.type === 'multiSelect' && prevState.length >= (poll.maxSelections ?? poll.options.length)) {
+        return prevState;
+      }
+      return [...prevState, index];
+    });
+  };
+
+  const submitResponse = () => {
+    if (!poll) {
+      return;
+    }
+    handleVotePoll({
+      pollId: poll.id,
+      optionIndex: selectedChoices[0] ?? -1,
+      poll,
+      response: poll.type === 'openText' ? { text: textAnswer } : { choices: selectedChoices },
+      socket,
+      showAlert,
+      member,
+      roomName,
+      updateIsPollModalVisible,
+    });
+  };
+
+  const renderSubmitButton = (label: string, disabled: boolean) => (
+    <Pressable
+      style={[styles.button, styles.buttonPrimary, (disabled || votingClosed) && styles.buttonDisabled]}
+      onPress={submitResponse}
+      disabled={disabled || votingClosed}
+    >
+      <Text style={styles.buttonText}>{label}</Text>
+    </Pressable>
+  );
+
   const renderCurrentPollOptions = () => {
     if (!poll) {
       return null;
     }
 
+    const voterKey = getPollVoterKey(poll, member);
+    const previousResponse = voterKey ? poll.responses?.[voterKey] : undefined;
+    const previousVote = voterKey ? poll.voters?.[voterKey] : undefined;
+    if (poll.type === 'openText') {
+      return (
+        <View style={styles.formGroup}>
+          {previousResponse?.text ? (
+            <Text style={[styles.noteText, { color: mutedTextColor }] as any}>
+              {`Your answer: ${previousResponse.text}`}
+            </Text>
+          ) : null}
+          <TextInput
+            style={[styles.textarea, { color: textColor, borderColor: inputBorderColor, backgroundColor: inputBackgroundColor }] as any}
+            multiline
+            maxLength={MAX_OPEN_TEXT_LENGTH}
+            placeholder="Type your answer"
+            placeholderTextColor={mutedTextColor}
+            value={textAnswer}
+            onChangeText={setTextAnswer}
+          />
+          {renderSubmitButton('Submit Answer', !textAnswer.trim())}
+        </View>
+      );
+    }
+
+    if (poll.type === 'multiSelect' || poll.type === 'rankedChoice') {
+      const ranked = poll.type === 'rankedChoice';
+      const submitted = previousResponse?.choices ?? [];
+      return (
+        <View style={styles.formGroup}>
+          <Text style={[styles.noteText, { color: mutedTextColor }] as any}>
+            {ranked
+              ? 'Tap the options in order of preference.'
+              : `Choose up to ${poll.maxSelections ?? poll.options.length}.`}
+          </Text>
+          {poll.options.map((option, index) => {
+            const position = selectedChoices.indexOf(index);
+            const selected = position !== -1;
+            return (
+              <Pressable
+                key={index}
+                style={styles.formCheck}
+                onPress={() => toggleChoice(index)}
+                disabled={votingClosed}
+              >
+                <View
+                  style={[
+                    ranked ? styles.radioButton : styles.checkbox,
+                    { borderColor: controlColor },
+                    selected && { backgroundColor: controlColor },
+                  ]}
+                >
+                  {selected &&
+                    (ranked ? (
+                      <Text style={styles.rankText}>{position + 1}</Text>
+                    ) : (
+                      <FontAwesome5 name="check" size={10} color="#fff" />
+                    ))}
+                </View>
+                <Text style={[styles.formCheckLabel, { color: textColor }] as any}>
+                  {submitted.includes(index) ? `${option} (your vote)` : option}
+                </Text>
+              </Pressable>
+            );
+          })}
+          {ranked && selectedChoices.length > 0 && (
+            <Pressable onPress={() => setSelectedChoices([])}>
+              <Text style={[styles.linkText, { color: controlColor }] as any}>Clear ranking</Text>
+            </Pressable>
+          )}
+          {renderSubmitButton(ranked ? 'Submit Ranking' : 'Submit Vote', selectedChoices.length === 0)}
+        </View>
+      );
+    }
+
     return poll.options.map((option, index) => (
       <Pressable
         key={index}
         style={styles.formCheck}
+        disabled={votingClosed}
         onPress={() =>
           handleVotePoll({
             pollId: poll.id,
             optionIndex: index,
+            poll,
             socket,
             showAlert,
             member,
@@ -370,10 +597,10 @@ const PollModal: React.FC<PollModalOptions> = ({
           style={[
             styles.radioButton,
             { borderColor: controlColor },
-            poll.voters && poll.voters[member] === index && [styles.radioButtonSelected, { borderColor: controlColor, backgroundColor: controlColor }],
+            previousVote === index && [styles.radioButtonSelected, { borderColor: controlColor, backgroundColor: controlColor }],
           ]}
         >
-          {poll.voters && poll.voters[member] === index && (
+          {previousVote === index && (
             <View style={styles.radioButtonIcon} />
           )}
         </View>
@@ -382,35 +609,353 @@ const PollModal: React.FC<PollModalOptions> = ({
     ));
   };
 
+  const renderPollResults = (target: Poll) => {
+    if (!canViewPollResults({ poll: target, islevel, youAreCoHost })) {
+      return (
+        <Text style={[styles.noteText, { color: mutedTextColor }] as any}>{getHiddenResultsMessage(target)}</Text>
+      );
+    }
+
+    const respondents = Object.keys(target.responses ?? {}).length;
+
+    if (target.type === 'openText') {
+      const words = summarizeOpenText(target);
+      const highest = words[0]?.count ?? 1;
+      return (
+        <View>
+          <Text style={[styles.statusText, { color: textColor }] as any}>
+            {`${respondents} answer${respondents === 1 ? '' : 's'}`}
+          </Text>
+          <View style={styles.wordCloud}>
+            {words.map(({ word, count }) => (
+              <Text
+                key={word}
+                style={[styles.wordCloudWord, { color: controlColor, fontSize: 12 + Math.round((count / highest) * 12) }] as any}
+              >
+                {word}
+              </Text>
+            ))}
+          </View>
+        </View>
+      );
+    }
+
+    if (target.type === 'rankedChoice') {
+      const { rounds, winner } = tallyRankedChoice(target);
+      return (
+        <View>
+          {rounds.map((round, roundIndex) => (
+            <Text key={roundIndex} style={[styles.statusText, { color: textColor }] as any}>
+              {`Round ${roundIndex + 1}: ${target.options
+                .map((option, index) => `${option} ${round.counts[index]}`)
+                .join(', ')}${round.eliminated !== null ? ` (${target.options[round.eliminated]} eliminated)` : ''}`}
+            </Text>
+          ))}
+          <Text style={[styles.statusText, styles.winnerText, { color: textColor }] as any}>
+            {rounds.length === 0
+              ? 'No ballots yet'
+              : winner !== null
+                ? `Winner: ${target.options[winner]}`
+                : 'No winner: the remaining options are tied'}
+          </Text>
+        </View>
+      );
+    }
+
+    // the server only sends the correct answer once the question has ended
+    const showCorrect = target.quiz?.correctOption !== undefined;
+    return target.options.map((option, index) => (
+      <Text
+        key={index}
+        style={[
+          styles.statusText,
+          { color: textColor },
+          showCorrect && target.quiz?.correctOption === index && styles.correctText,
+        ] as any}
+      >
+        {showCorrect && target.quiz?.correctOption === index ? '✓ ' : ''}
+        {target.type === 'multiSelect'
+          ? `${option}: ${target.votes[index] ?? 0} votes (${
+              respondents > 0 ? (((target.votes[index] ?? 0) / respondents) * 100).toFixed(2) : '0.00'
+            }% of voters)`
+          : `${option}: ${target.votes[index]} votes (${calculatePercentage(target.votes, index)}%)`}
+      </Text>
+    ));
+  };
+
   const renderPollStatus = () => {
     if (!poll) {
       return null;
     }
 
-    return (
-      <View style={styles.pollStatus}>
-        {poll.votes.map((vote, index) => (
-          <Text key={index} style={[styles.statusText, { color: textColor }] as any}>
-            {`${poll.options[index]}: ${vote} votes (${calculatePercentage(
-              poll.votes,
-              index,
-            )}%)`}
-          </Text>
-        ))}
-      </View>
-    );
+    return <View style={styles.pollStatus}>{renderPollResults(poll)}</View>;
   };
 
+  const renderRevealButton = (target: Poll) =>
+    islevel === '2' && target.resultsVisibility === 'afterReveal' && !target.resultsRevealed ? (
+      <Pressable
+        style={[styles.button, styles.buttonPrimary]}
+        onPress={() => handleRevealPollResults({ pollId: target.id, socket, showAlert, roomName })}
+      >
+        <Text style={styles.buttonText}>Reveal Results</Text>
+      </Pressable>
+    ) : null;
+
   const handleSubmitPoll = () => {
     handleCreatePoll({
-      poll: newPoll,
+      poll: getComposedPoll(),
       socket,
       showAlert,
       roomName,
       updateIsPollModalVisible,
     });
 
-    setNewPoll({ question: '', type: '', options: [] });
+    setNewPoll((prevState) => ({ ...prevState, question: '', type: '', options: [], maxSelections: undefined, duration: 0 }));
+    setCorrectOption(-1);
+  };
+
+  const getComposedPoll = (): PollDraftContent => ({
+    ...newPoll,
+    warnings: parsePollWarnings(warningsText),
+    quiz: isQuiz && canBeQuiz ? { name: quizName, correctOption } : undefined,
+  });
+
+  const loadIntoComposer = (draft: PollDraftContent) => {
+    setNewPoll({
+      question: draft.question,
+      type: draft.type,
+      options: draft.options,
+      maxSelections: draft.maxSelections,
+      duration: draft.duration ?? 0,
+      anonymous: !!draft.anonymous,
+      resultsVisibility: draft.resultsVisibility ?? 'everyone',
+    });
+    setWarningsText((draft.warnings ?? DEFAULT_POLL_WARNINGS).join(', '));
+    setIsQuiz(!!draft.quiz);
+    setQuizName(draft.quiz?.name ?? '');
+    setCorrectOption(draft.quiz?.correctOption ?? -1);
+  };
+
+  const saveComposedPoll = (asTemplate: boolean) => {
+    const composed = getComposedPoll();
+    const error = validatePollDraft(composed);
+    if (error) {
+      showAlert?.({ message: error, type: 'danger' });
+      return;
+    }
+
+    if (asTemplate) {
+      addTemplate(composed);
+      showAlert?.({ message: 'Poll saved as a template', type: 'success' });
+    } else {
+      addDrafts([composed]);
+      showAlert?.({ message: 'Poll added to the queue', type: 'success' });
+      setNewPoll((prevState) => ({ ...prevState, question: '', type: '', options: [], maxSelections: undefined, duration: 0 }));
+      setCorrectOption(-1);
+    }
+  };
+
+  const launchNextDraft = async () => {
+    if (poll && poll.status === 'active') {
+      showAlert?.({ message: 'End the current poll before launching the next one.', type: 'danger' });
+      return;
+    }
+    const [next] = drafts;
+    if (!next || launchingDraftId.current) {
+      return;
+    }
+    const error = validatePollDraft(next);
+    if (error) {
+      showAlert?.({ message: error, type: 'danger' });
+      return;
+    }
+
+    // the draft stays queued until the server has created the poll
+    launchingDraftId.current = next.id;
+    try {
+      const created = await handleCreatePoll({
+        poll: toPollDraftContent(next),
+        socket,
+        showAlert,
+        roomName,
+        updateIsPollModalVisible,
+      });
+      if (created) {
+        removeDraft(next.id);
+      }
+    } finally {
+      launchingDraftId.current = null;
+    }
+  };
+
+  const importPollSet = () => {
+    const imported = parsePollSet(pollSetText);
+    if (!imported) {
+      showAlert?.({ message: 'That is not a valid poll set.', type: 'danger' });
+      return;
+    }
+    addDrafts(imported);
+    setPollSetText('');
+    showAlert?.({
+      message: `Added ${imported.length} poll${imported.length === 1 ? '' : 's'} to the queue`,
+      type: 'success',
+    });
+  };
+
+  const renderDrafts = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionHeader, { color: textColor }] as any}>Queued Polls</Text>
+      {drafts.length === 0 && (
+        <Text style={[styles.noPollText, { color: mutedTextColor }] as any}>No polls queued</Text>
+      )}
+      {drafts.map((draft, index) => (
+        <View key={draft.id} style={styles.draftRow}>
+          <Text numberOfLines={2} style={[styles.statusText, styles.draftText, { color: textColor }] as any}>
+            {`${index + 1}. ${draft.question}`}
+          </Text>
+          <Pressable
+            onPress={() => {
+              loadIntoComposer(draft);
+              removeDraft(draft.id);
+            }}
+            style={[styles.smallButton, styles.buttonPrimary]}
+          >
+            <Text style={styles.smallButtonText}>Edit</Text>
+          </Pressable>
+          <Pressable onPress={() => removeDraft(draft.id)} style={[styles.smallButton, styles.buttonDanger]}>
+            <Text style={styles.smallButtonText}>Remove</Text>
+          </Pressable>
+        </View>
+      ))}
+      {drafts.length > 0 && (
+        <Pressable style={[styles.button, styles.buttonPrimary]} onPress={launchNextDraft}>
+          <Text style={styles.buttonText}>Launch Next Poll</Text>
+        </Pressable>
+      )}
+
+      <Text style={[styles.label, styles.draftsLabel, { color: textColor }] as any}>Templates</Text>
+      {templates.length === 0 && (
+        <Text style={[styles.noteText, { color: mutedTextColor }] as any}>No templates saved</Text>
+      )}
+      {templates.map((template) => (
+        <View key={template.id} style={styles.draftRow}>
+          <Text numberOfLines={2} style={[styles.statusText, styles.draftText, { color: textColor }] as any}>
+            {template.name}
+          </Text>
+          <Pressable onPress={() => loadIntoComposer(template)} style={[styles.smallButton, styles.buttonPrimary]}>
+            <Text style={styles.smallButtonText}>Use</Text>
+          </Pressable>
+          <Pressable onPress={() => removeTemplate(template.id)} style={[styles.smallButton, styles.buttonDanger]}>
+            <Text style={styles.smallButtonText}>Remove</Text>
+          </Pressable>
+        </View>
+      ))}
+
+      <Text style={[styles.label, styles.draftsLabel, { color: textColor }] as any}>Import / Export</Text>
+      <TextInput
+        style={[styles.textarea, { color: textColor, borderColor: inputBorderColor, backgroundColor: inputBackgroundColor }] as any}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        placeholder="Paste a poll set (JSON)"
+        placeholderTextColor={mutedTextColor}
+        value={pollSetText}
+        onChangeText={setPollSetText}
+      />
+      <Pressable
+        style={[styles.button, styles.buttonPrimary, !pollSetText.trim() && styles.buttonDisabled]}
+        onPress={importPollSet}
+        disabled={!pollSetText.trim()}
+      >
+        <Text style={styles.buttonText}>Import Polls</Text>
+      </Pressable>
+      <Pressable
+        style={[styles.button, styles.buttonPrimary, drafts.length === 0 && styles.buttonDisabled]}
+        onPress={() => exportPollSet({ polls: drafts, roomName, showAlert })}
+        disabled={drafts.length === 0}
+      >
+        <Text style={styles.buttonText}>Export Queue</Text>
+      </Pressable>
+    </View>
+  );
+
+  const canBeQuiz = ['trueFalse', 'yesNo', 'custom'].includes(newPoll.type) && !newPoll.anonymous;
+  const currentQuizName = getQuizName(polls, poll);
+  const standings = currentQuizName ? buildQuizLeaderboard({ polls, quizName: currentQuizName }) : [];
+
+  const renderQuizFields = () => (
+    <View style={styles.formGroup}>
+      <Pressable style={styles.formCheck} onPress={() => setIsQuiz((value) => !value)}>
+        <View style={[styles.checkbox, { borderColor: controlColor }, isQuiz && { backgroundColor: controlColor }]}>
+          {isQuiz && <FontAwesome5 name="check" size={10} color="#fff" />}
+        </View>
+        <Text style={[styles.formCheckLabel, { color: textColor }] as any}>Quiz question</Text>
+      </Pressable>
+      {isQuiz && (
+        <>
+          <Text style={[styles.label, { color: textColor }] as any}>Quiz name</Text>
+          <TextInput
+            style={[styles.warningsInput, { color: textColor, borderColor: inputBorderColor, backgroundColor: inputBackgroundColor }] as any}
+            placeholder="Quiz"
+            placeholderTextColor={mutedTextColor}
+            value={quizName}
+            onChangeText={setQuizName}
+          />
+          <Text style={[styles.label, styles.warningsLabel, { color: textColor }] as any}>Correct answer</Text>
+          <RNPickerSelect
+            onValueChange={(value) => setCorrectOption(typeof value === 'number' ? value : -1)}
+            items={newPoll.options.map((option, index) => ({
+              label: option.trim() || `Option ${index + 1}`,
+              value: index,
+            }))}
+            placeholder={{ label: 'Select the correct answer', value: -1 }}
+            value={correctOption}
+            useNativeAndroidPickerStyle={false}
+            style={pickerTheme}
+          />
+        </>
+      )}
+    </View>
+  );
+
+  const renderLeaderboard = () => {
+    if (!currentQuizName) {
+      return null;
+    }
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionHeader, { color: textColor }] as any}>{`Leaderboard: ${currentQuizName}`}</Text>
+        {standings.length === 0 && (
+          <Text style={[styles.noPollText, { color: mutedTextColor }] as any}>No answers yet</Text>
+        )}
+        {standings.slice(0, 10).map((standing) => (
+          <View key={standing.member} style={styles.standingRow}>
+            <Text
+              style={[
+                styles.statusText,
+                styles.standingName,
+                { color: textColor },
+                standing.member === member && styles.winnerText,
+              ] as any}
+            >
+              {`${standing.rank}. ${standing.member}`}
+            </Text>
+            <Text style={[styles.statusText, { color: textColor }] as any}>
+              {`${standing.score} pts (${standing.correct}/${standing.answered})`}
+            </Text>
+          </View>
+        ))}
+        {islevel === '2' && standings.length > 0 && (
+          <Pressable
+            style={[styles.button, styles.buttonPrimary]}
+            onPress={() => exportQuizStandings({ polls, quizName: currentQuizName, roomName, showAlert })}
+          >
+            <Text style={styles.buttonText}>Export Standings</Text>
+          </Pressable>
+        )}
+      </View>
+    );
   };
 
   const defaultContent = (
@@ -448,14 +993,8 @@ const PollModal: React.FC<PollModalOptions> = ({
                       value={existingPoll.question}
                     />
                     <Text style={[styles.pollLabel, { color: textColor }] as any}>Results</Text>
-                    {existingPoll.options.map((option, optionIndex) => (
-                      <Text key={optionIndex} style={[styles.statusText, { color: textColor }] as any}>
-                        {`${option}: ${existingPoll.votes[optionIndex]} votes (${calculatePercentage(
-                          existingPoll.votes,
-                          optionIndex,
-                        )}%)`}
-                      </Text>
-                    ))}
+                    {renderPollResults(existingPoll)}
+                    {renderRevealButton(existingPoll)}
                     {existingPoll.status === 'active' && (
                       <Pressable
                         style={[styles.button, styles.buttonDanger]}
@@ -499,11 +1038,7 @@ const PollModal: React.FC<PollModalOptions> = ({
                 <Text style={[styles.label, { color: textColor }] as any}>Type</Text>
                 <RNPickerSelect
                   onValueChange={handlePollTypeChange}
-                  items={[
-                    { label: 'True/False', value: 'trueFalse' },
-                    { label: 'Yes/No', value: 'yesNo' },
-                    { label: 'Custom', value: 'custom' },
-                  ]}
+                  items={POLL_TYPES}
                   placeholder={{ label: 'Select poll type', value: '' }}
                   value={newPoll.type}
                   useNativeAndroidPickerStyle={false}
@@ -513,16 +1048,93 @@ const PollModal: React.FC<PollModalOptions> = ({
 
               {renderPollOptions()}
 
+              {canBeQuiz && renderQuizFields()}
+
+              <View style={styles.formGroup}>
+                <Text style={[styles.label, { color: textColor }] as any}>Time limit</Text>
+                <RNPickerSelect
+                  onValueChange={(value) =>
+                    setNewPoll((prevState) => ({ ...prevState, duration: Number(value) || 0 }))
+                  }
+                  items={POLL_DURATIONS}
+                  placeholder={{}}
+                  value={newPoll.duration}
+                  useNativeAndroidPickerStyle={false}
+                  style={pickerTheme}
+                />
+                {newPoll.duration > 0 && (
+                  <>
+                    <Text style={[styles.label, styles.warningsLabel, { color: textColor }] as any}>
+                      Warn at (seconds left)
+                    </Text>
+                    <TextInput
+                      style={[styles.warningsInput, { color: textColor, borderColor: inputBorderColor, backgroundColor: inputBackgroundColor }] as any}
+                      placeholder="60, 10"
+                      placeholderTextColor={mutedTextColor}
+                      value={warningsText}
+                      onChangeText={setWarningsText}
+                    />
+                  </>
+                )}
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={[styles.label, { color: textColor }] as any}>Results visible to</Text>
+                <RNPickerSelect
+                  onValueChange={(value) =>
+                    setNewPoll((prevState) => ({ ...prevState, resultsVisibility: value || 'everyone' }))
+                  }
+                  items={POLL_RESULTS_VISIBILITY}
+                  placeholder={{}}
+                  value={newPoll.resultsVisibility}
+                  useNativeAndroidPickerStyle={false}
+                  style={pickerTheme}
+                />
+                <Pressable
+                  style={[styles.formCheck, styles.anonymousCheck]}
+                  onPress={() => setNewPoll((prevState) => ({ ...prevState, anonymous: !prevState.anonymous }))}
+                >
+                  <View
+                    style={[
+                      styles.checkbox,
+                      { borderColor: controlColor },
+                      newPoll.anonymous && { backgroundColor: controlColor },
+                    ]}
+                  >
+                    {newPoll.anonymous && <FontAwesome5 name="check" size={10} color="#fff" />}
+                  </View>
+                  <Text style={[styles.formCheckLabel, { color: textColor }] as any}>Anonymous voting</Text>
+                </Pressable>
+              </View>
+
               <Pressable
                 style={[styles.button, styles.buttonPrimary]}
                 onPress={handleSubmitPoll}
-                disabled={!newPoll.question || newPoll.options.length === 0}
+                disabled={!newPoll.question || (newPoll.type !== 'openText' && newPoll.options.length === 0)}
               >
                 <Text style={styles.buttonText}>Create Poll</Text>
               </Pressable>
+              <View style={styles.draftButtons}>
+                <Pressable
+                  style={[styles.button, styles.buttonPrimary, styles.draftButton]}
+                  onPress={() => saveComposedPoll(false)}
+                >
+                  <Text style={styles.buttonText}>Save as Draft</Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.button, styles.buttonPrimary, styles.draftButton]}
+                  onPress={() => saveComposedPoll(true)}
+                >
+                  <Text style={styles.buttonText}>Save as Template</Text>
+                </Pressable>
+              </View>
             </View>
 
             <View style={[styles.separator, { backgroundColor: borderColor }] as any} />
+
+            {renderDrafts()}
+
+            <View style={[styles.separator, { backgroundColor: borderColor }] as any} />
           </>
         )}
 
@@ -537,9 +1149,30 @@ const PollModal: React.FC<PollModalOptions> = ({
                 editable={false}
                 value={poll.question}
               />
+              {secondsLeft !== null && (
+                <Text
+                  style={[
+                    styles.countdownText,
+                    { color: secondsLeft <= 10 ? '#dc3545' : textColor },
+                  ] as any}
+                >
+                  {votingClosed ? 'Voting closed' : `Time left: ${formatPollCountdown(secondsLeft)}`}
+                </Text>
+              )}
+              {poll.anonymous && (
+                <Text style={[styles.noteText, { color: mutedTextColor }] as any}>
+                  Anonymous poll: votes are recorded without names.
+                </Text>
+              )}
+              {poll.quiz && islevel !== '2' && (
+                <Text style={[styles.noteText, { color: mutedTextColor }] as any}>
+                  Quiz question: the faster you answer correctly, the more points you score.
+                </Text>
+              )}
               <Text style={[styles.pollLabel, { color: textColor }] as any}>Options</Text>
               {renderCurrentPollOptions()}
               {renderPollStatus()}
+              {renderRevealButton(poll)}
               {islevel === '2' && (
                 <Pressable
                   style={[styles.button, styles.buttonDanger]}
@@ -561,6 +1194,8 @@ const PollModal: React.FC<PollModalOptions> = ({
             <Text style={[styles.noPollText, { color: mutedTextColor }] as any}>No active poll available.</Text>
           )}
         </View>
+
+        {renderLeaderboard()}
       </ScrollView>
     </>
   );
@@ -728,6 +1363,9 @@ const styles = StyleSheet.create({
   buttonDanger: {
     backgroundColor: '#dc3545',
   },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
   buttonText: {
     color: '#fff',
     fontWeight: '600',
@@ -748,6 +1386,21 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginRight: 10,
   },
+  checkbox: {
+    height: 20,
+    width: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#000',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  rankText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
   radioButtonSelected: {
     borderColor: '#000',
     backgroundColor: '#000',
@@ -770,6 +1423,96 @@ const styles = StyleSheet.create({
     color: 'black',
     marginBottom: 4,
   },
+  winnerText: {
+    fontWeight: '700',
+  },
+  correctText: {
+    color: '#198754',
+    fontWeight: '700',
+  },
+  anonymousCheck: {
+    marginTop: 12,
+  },
+  draftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  } as any,
+  draftText: {
+    flex: 1,
+  },
+  draftsLabel: {
+    marginTop: 12,
+  },
+  draftButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  } as any,
+  draftButton: {
+    flex: 1,
+  },
+  standingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  standingName: {
+    flex: 1,
+    marginRight: 8,
+  },
+  countdownText: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  warningsLabel: {
+    marginTop: 10,
+  },
+  warningsInput: {
+    borderWidth: 1,
+    borderColor: 'gray',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 16,
+  },
+  noteText: {
+    fontSize: 14,
+    color: 'gray',
+    marginBottom: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  maxSelectionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  maxSelectionsInput: {
+    width: 64,
+    borderWidth: 1,
+    borderColor: 'gray',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  wordCloud: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  wordCloudWord: {
+    fontWeight: '600',
+    marginRight: 10,
+    marginBottom: 4,
+  },
 });
 
 const pickerSelectStyles = StyleSheet.create({
@@ -11,7 +11,7 @@ import {
   ViewStyle,
 } from 'react-native';
 import RNPickerSelect from 'react-native-picker-select';
-import type { Socket } from 'socket.io-client';
+import type { MediasfuSocket } from '../../sockets/socketEvents';
 import { getLanguageName, getCommonLanguages } from 'mediasfu-shared';
 import type {
   LanguageEntry,
@@ -24,6 +24,9 @@ import {
   getModalBodyTheme,
 } from '../../components_modern/core/modalBodyTheme';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
+import { getMediasfuLogger } from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('ui');
 
 type PickerItem = {
   label: string;
@@ -62,7 +65,7 @@ interface TranslationSettingsModalProps {
   showSubtitlesOnCards?: boolean;
   updateShowSubtitlesOnCards?: (value: boolean) => void;
   roomName?: string;
-  socket?: Socket | null;
+  socket?: MediasfuSocket | null;
   showAlert?: ShowAlert;
 }
 
@@ -356,7 +359,7 @@ const TranslationSettingsModal: React.FC<TranslationSettingsModalProps> = ({
       });
       onTranslationSettingsClose?.();
     } catch (error) {
-      console.error('Failed to save translation settings', error);
+      logger.error('Failed to save translation settings', error);
       showAlert?.({
         message: 'Failed to save translation settings',
         type: 'danger',
@@ -10,6 +10,9 @@ import {
 import { handleStartWhiteboard as sharedHandleStartWhiteboard, handleStopWhiteboard as sharedHandleStopWhiteboard } from 'mediasfu-shared';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
 import { getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
+import { getMediasfuLogger } from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('whiteboard');
 
 const ConfigureWhiteboardModal = (props: any) => {
   const {
@@ -145,7 +148,7 @@ const ConfigureWhiteboardModal = (props: any) => {
           await rePort?.({ restart: true, parameters });
         }
       } catch (error) {
-        console.error('Error in whiteboardUpdated listener:', error);
+        logger.error('Error in whiteboardUpdated listener:', error);
       }
     };
 
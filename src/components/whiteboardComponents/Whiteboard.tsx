@@ -21,6 +21,9 @@ import ColorPicker, {
 } from 'reanimated-color-picker';
 import RNPickerSelect from 'react-native-picker-select';
 import { createThemedPickerSelectStyles, getModalBodyTheme } from '../../components_modern/core/modalBodyTheme';
+import { getMediasfuLogger } from '../../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('whiteboard');
 
 const EMPTY_BOARD_ITEMS: any[] = [];
 
@@ -601,7 +604,7 @@ const Whiteboard = (props: any) => {
           await onScreenChanges?.({ changed: true, parameters });
         }
       } catch (error) {
-        console.error('Error in whiteboardUpdated:', error);
+        logger.error('Error in whiteboardUpdated:', error);
       }
     };
 
@@ -6,6 +6,7 @@ import {
 	ScrollView,
 	StyleSheet,
 	Text,
+	TextInput,
 	View,
 	useWindowDimensions,
 } from 'react-native';
@@ -13,6 +14,13 @@ import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
 import RNPickerSelect from 'react-native-picker-select';
 import type { EventSettingsModalOptions } from '../../components/eventSettingsComponents/EventSettingsModal';
 import { modifySettings } from '../../methods/settingsMethods/modifySettings';
+import {
+	DEFAULT_CHAT_MODERATION,
+	parseBlockedWords,
+	SLOW_MODE_OPTIONS,
+	updateChatModerationSettings,
+} from '../../methods/messageMethods/chatModeration';
+import type { ChatModerationSettings } from '../../@types/types';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
 import {
 	getModernColors,
@@ -39,6 +47,16 @@ const chatOptions = [
 	{ label: 'Allow', value: 'allow' },
 ];
 
+const blockedWordActionOptions = [
+	{ label: 'Mask blocked words', value: 'mask' },
+	{ label: 'Block the message', value: 'block' },
+];
+
+const slowModeOptions = SLOW_MODE_OPTIONS.map((seconds) => ({
+	label: seconds === 0 ? 'Off' : `One message every ${seconds}s`,
+	value: String(seconds),
+}));
+
 export const ModernEventSettingsModal: React.FC<ModernEventSettingsModalProps> = ({
 	isEventSettingsModalVisible,
 	onEventSettingsClose,
@@ -54,8 +72,11 @@ export const ModernEventSettingsModal: React.FC<ModernEventSettingsModalProps> =
 	updateVideoSetting,
 	updateScreenshareSetting,
 	updateChatSetting,
+	chatModeration,
+	updateChatModeration,
 	updateIsSettingsModalVisible,
 	roomName,
+	member,
 	socket,
 	showAlert,
 	style,
@@ -78,6 +99,9 @@ export const ModernEventSettingsModal: React.FC<ModernEventSettingsModalProps> =
 	const [videoState, setVideoState] = useState(videoSetting);
 	const [screenshareState, setScreenshareState] = useState(screenshareSetting);
 	const [chatState, setChatState] = useState(chatSetting);
+	const [blockedWordsText, setBlockedWordsText] = useState('');
+	const [blockedWordAction, setBlockedWordAction] = useState<ChatModerationSettings['blockedWordAction']>('mask');
+	const [slowModeSeconds, setSlowModeSeconds] = useState(0);
 
 	useEffect(() => {
 		if (!isEventSettingsModalVisible) {
@@ -88,7 +112,11 @@ export const ModernEventSettingsModal: React.FC<ModernEventSettingsModalProps> =
 		setVideoState(videoSetting);
 		setScreenshareState(screenshareSetting);
 		setChatState(chatSetting);
-	}, [isEventSettingsModalVisible, audioSetting, videoSetting, screenshareSetting, chatSetting]);
+		const moderation = chatModeration ?? DEFAULT_CHAT_MODERATION;
+		setBlockedWordsText(moderation.blockedWords.join(', '));
+		setBlockedWordAction(moderation.blockedWordAction);
+		setSlowModeSeconds(moderation.slowModeSeconds);
+	}, [isEventSettingsModalVisible, audioSetting, videoSetting, screenshareSetting, chatSetting, chatModeration]);
 
 	if (!isEmbedded && !isEventSettingsModalVisible) {
 		return null;
@@ -110,6 +138,16 @@ export const ModernEventSettingsModal: React.FC<ModernEventSettingsModalProps> =
 				socket,
 				showAlert,
 			});
+			if (updateChatModeration && member) {
+				const settings: ChatModerationSettings = {
+					blockedWords: parseBlockedWords(blockedWordsText),
+					blockedWordAction,
+					slowModeSeconds,
+				};
+				if (JSON.stringify(settings) !== JSON.stringify(chatModeration ?? DEFAULT_CHAT_MODERATION)) {
+					updateChatModerationSettings({ socket, roomName, member, settings, updateChatModeration });
+				}
+			}
 			onEventSettingsClose();
 		} catch {
 			showAlert?.({ message: 'Failed to save settings.', type: 'danger' });
@@ -189,6 +227,42 @@ export const ModernEventSettingsModal: React.FC<ModernEventSettingsModalProps> =
 						}, chatOptions)}
 					</View>
 				</View>
+				{updateChatModeration && member ? (
+					<View style={[styles.panel, styles.panelSpacing, { backgroundColor: colors.surfaceStrong, borderColor: colors.border }]}> 
+						<Text style={[styles.panelEyebrow, { color: colors.textMuted }]}>Chat moderation</Text>
+						<Text style={[styles.panelTitle, { color: colors.text }]}>Keep the chat on topic</Text>
+						<Text style={[styles.panelBodyText, { color: colors.textMuted }]}>The host and co-hosts with chat permission can also delete messages for everyone from the chat.</Text>
+						<View style={styles.fieldStack}>
+							<View style={[styles.fieldCard, { borderColor: colors.border, backgroundColor: colors.surfaceStrong }]}> 
+								<Text style={[styles.fieldTitle, { color: colors.text }]}>Blocked words</Text>
+								<Text style={[styles.fieldDescription, { color: colors.textMuted }]}>Separate words with commas. Whole words are matched, ignoring case.</Text>
+								<TextInput
+									value={blockedWordsText}
+									onChangeText={setBlockedWordsText}
+									placeholder="e.g. spam, scam"
+									placeholderTextColor={colors.textMuted}
+									autoCapitalize="none"
+									autoCorrect={false}
+									style={[
+										styles.textInput,
+										{ borderColor: colors.border, backgroundColor: colors.surface, color: colors.text },
+									]}
+								/>
+								<RNPickerSelect
+									onValueChange={(value: ChatModerationSettings['blockedWordAction']) => setBlockedWordAction(value)}
+									items={blockedWordActionOptions}
+									value={blockedWordAction}
+									style={pickerTheme}
+									placeholder={{}}
+									useNativeAndroidPickerStyle={false}
+								/>
+							</View>
+							{renderField('Slow mode', 'Limit how often attendees can post. The host and chat co-hosts are not limited.', String(slowModeSeconds), (value) => {
+								setSlowModeSeconds(Number(value) || 0);
+							}, slowModeOptions)}
+						</View>
+					</View>
+				) : null}
 			</ScrollView>
 
 			<View style={[styles.footer, { borderTopColor: colors.border }]}> 
@@ -328,6 +402,17 @@ const styles = StyleSheet.create({
 		borderRadius: 18,
 		padding: 16,
 	},
+	panelSpacing: {
+		marginTop: 14,
+	},
+	textInput: {
+		borderWidth: 1,
+		borderRadius: 10,
+		paddingHorizontal: 12,
+		paddingVertical: 8,
+		fontSize: 14,
+		marginBottom: 10,
+	},
 	panelEyebrow: {
 		fontSize: 11,
 		fontWeight: '700',
@@ -1,5 +1,6 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+	Image,
 	Modal,
 	Platform,
 	Pressable,
@@ -12,8 +13,54 @@ import {
 } from 'react-native';
 import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
 import type { MessagesModalOptions } from '../../components/messageComponents/MessagesModal';
-import type { Message } from '../../@types/types';
+import type { Message, MessageAttachment } from '../../@types/types';
 import { sendMessage } from '../../methods/messageMethods/sendMessage';
+import {
+	countThreadReplies,
+	createReplyReference,
+	DEFAULT_MESSAGE_REACTIONS,
+	getMessageId,
+	sendMessageReaction,
+} from '../../methods/messageMethods/messageThreads';
+import {
+	formatMessageDay,
+	formatMessageTime,
+	getMessagePage,
+	getMessageTime,
+	isSameMessageDay,
+} from '../../methods/messageMethods/chatHistory';
+import { canModerateChat, deleteMessageForEveryone } from '../../methods/messageMethods/chatModeration';
+import {
+	countUnreadMessages,
+	formatTypingMembers,
+	getTypingMembers,
+	GROUP_THREAD_KEY,
+} from '../../methods/messageMethods/chatPresence';
+import {
+	CHAT_TRANSCRIPT_FORMATS,
+	ChatTranscriptFormat,
+	exportChatTranscript,
+	getVisibleChatMessages,
+} from '../../methods/messageMethods/chatTranscript';
+import {
+	ChatSearchScope,
+	getMessageSenders,
+	highlightMatches,
+	searchMessages,
+} from '../../methods/messageMethods/chatSearch';
+import {
+	getMentionQuery,
+	getMentionSuggestions,
+	insertMention,
+	splitMentions,
+} from '../../methods/messageMethods/chatMentions';
+import {
+	formatAttachmentSize,
+	getAttachmentStatus,
+	PickedAttachment,
+	shareAttachment,
+} from '../../methods/messageMethods/chatAttachments';
+import { pickChatAttachment } from '../../methods/messageMethods/pickChatAttachment';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
 import {
 	getModernColors,
@@ -42,6 +89,19 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 	onMessagesClose,
 	onSendMessagePress = sendMessage,
 	messages,
+	chatOutbox,
+	onReactToMessage,
+	onDeleteMessage,
+	chatModeration,
+	pageSize = 30,
+	readState,
+	onMarkThreadRead,
+	typingMembers = [],
+	onTyping,
+	participants = [],
+	attachmentData = {},
+	updateAttachmentData,
+	onExportTranscript,
 	position = 'topRight',
 	backgroundColor,
 	isDarkMode,
@@ -84,7 +144,17 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 	const [groupMessageText, setGroupMessageText] = useState('');
 	const [replyInfo, setReplyInfo] = useState<ReplyInfo | null>(null);
 	const [senderId, setSenderId] = useState<string | null>(null);
+	const [replyTarget, setReplyTarget] = useState<Message | null>(null);
+	const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
 	const [focusedInput, setFocusedInput] = useState(false);
+	const [exportMenuVisible, setExportMenuVisible] = useState(false);
+	const [searchVisible, setSearchVisible] = useState(false);
+	const [searchQuery, setSearchQuery] = useState('');
+	const [searchScope, setSearchScope] = useState<ChatSearchScope>('all');
+	const [searchSender, setSearchSender] = useState<string | null>(null);
+	const [highlightedId, setHighlightedId] = useState<string | null>(null);
+	const messageOffsets = useRef<{ [messageId: string]: number }>({});
+	const pendingJumpRef = useRef<string | null>(null);
 
 	const inputRef = useRef<TextInput | null>(null);
 	const scrollViewRef = useRef<ScrollView | null>(null);
@@ -136,11 +206,189 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 
 	const groupMessages = useMemo(() => messages.filter((message) => message.group), [messages]);
 
+	const unreadCounts = useMemo(
+		() =>
+			countUnreadMessages({
+				messages: [...directMessages, ...groupMessages],
+				member,
+				readState: readState ?? {},
+			}),
+		[directMessages, groupMessages, member, readState],
+	);
+	const groupUnreadCount = unreadCounts[GROUP_THREAD_KEY] ?? 0;
+	const directUnreadCount = Object.keys(unreadCounts)
+		.filter((threadKey) => threadKey !== GROUP_THREAD_KEY)
+		.reduce((total, threadKey) => total + unreadCounts[threadKey], 0);
+
+	// the conversations of the open tab are read as soon as their messages are on screen
+	useEffect(() => {
+		if ((!isMessagesModalVisible && !isEmbedded) || !onMarkThreadRead) {
+			return;
+		}
+		Object.keys(unreadCounts)
+			.filter((threadKey) => (threadKey === GROUP_THREAD_KEY) === (activeTab === 'group'))
+			.forEach((threadKey) => onMarkThreadRead({ threadKey }));
+	}, [activeTab, isEmbedded, isMessagesModalVisible, onMarkThreadRead, unreadCounts]);
+
+	const typingText = formatTypingMembers(
+		getTypingMembers({ typing: typingMembers, group: activeTab === 'group', member, islevel }),
+	);
+
+	const notifyTyping = useCallback(
+		(isTyping: boolean) => {
+			onTyping?.({
+				group: activeTab === 'group',
+				receivers: activeTab === 'direct' && senderId ? [senderId] : [],
+				isTyping,
+			});
+		},
+		[activeTab, onTyping, senderId],
+	);
+	const replyCounts = useMemo(() => countThreadReplies(messages), [messages]);
+
+	const reactToMessage = useCallback(
+		({ message, emoji }: { message: Message; emoji: string }) => {
+			if (onReactToMessage) {
+				onReactToMessage({ message, emoji });
+				return;
+			}
+
+			sendMessageReaction({ socket, roomName, member, message, emoji });
+		},
+		[member, onReactToMessage, roomName, socket],
+	);
+
+	const isModerator = canModerateChat({ member, islevel, coHost, coHostResponsibility });
+	const slowModeSeconds = chatModeration?.slowModeSeconds ?? 0;
+
+	const deleteMessage = useCallback(
+		(message: Message) => {
+			if (onDeleteMessage) {
+				onDeleteMessage({ message });
+				return;
+			}
+
+			deleteMessageForEveryone({
+				socket,
+				roomName,
+				message,
+				member,
+				islevel,
+				coHost,
+				coHostResponsibility,
+				showAlert,
+			});
+		},
+		[coHost, coHostResponsibility, islevel, member, onDeleteMessage, roomName, showAlert, socket],
+	);
+
 	const currentMessages = activeTab === 'direct' ? directMessages : groupMessages;
+	const lastMessageIdRef = useRef<string | null>(null);
+	const [firstVisibleId, setFirstVisibleId] = useState<string | null>(null);
+	const { visibleMessages, hasOlder, olderFirstId } = useMemo(
+		() => getMessagePage({ messages: currentMessages, firstVisibleId, pageSize }),
+		[currentMessages, firstVisibleId, pageSize],
+	);
+
+	const loadOlderMessages = useCallback(() => {
+		if (hasOlder) {
+			setFirstVisibleId(olderFirstId);
+		}
+	}, [hasOlder, olderFirstId]);
+
+	// follow the conversation when a new message arrives, but not when older pages are loaded
+	const handleContentSizeChange = useCallback(() => {
+		const lastMessage = currentMessages[currentMessages.length - 1];
+		const lastMessageId = lastMessage ? getMessageId(lastMessage) : null;
+		if (lastMessageId !== lastMessageIdRef.current) {
+			lastMessageIdRef.current = lastMessageId;
+			if (!pendingJumpRef.current) {
+				scrollViewRef.current?.scrollToEnd({ animated: true });
+			}
+		}
+	}, [currentMessages]);
+
+	const searchableMessages = useMemo(
+		() =>
+			getVisibleChatMessages({ messages, member, islevel, coHost, coHostResponsibility }).filter(
+				(message) => showDirectTab || message.group,
+			),
+		[coHost, coHostResponsibility, islevel, member, messages, showDirectTab],
+	);
+	const searchSenders = useMemo(() => getMessageSenders(searchableMessages), [searchableMessages]);
+	const searchResults = useMemo(
+		() =>
+			searchQuery.trim() || searchSender
+				? searchMessages({ messages: searchableMessages, query: searchQuery, sender: searchSender, scope: searchScope })
+				: [],
+		[searchQuery, searchScope, searchSender, searchableMessages],
+	);
+
+	const scrollToPendingJump = useCallback(() => {
+		const messageId = pendingJumpRef.current;
+		if (messageId && messageOffsets.current[messageId] !== undefined) {
+			pendingJumpRef.current = null;
+			scrollViewRef.current?.scrollTo({ y: Math.max(0, messageOffsets.current[messageId] - 24), animated: true });
+		}
+	}, []);
+
+	// shows a search result in its conversation, scrolled into view and highlighted
+	const openSearchResult = useCallback(
+		(message: Message) => {
+			const tab = message.group || !showDirectTab ? 'group' : 'direct';
+			const tabMessages = tab === 'group' ? groupMessages : directMessages;
+			const messageId = getMessageId(message);
+			const index = tabMessages.findIndex((item) => getMessageId(item) === messageId);
+			const lastMessage = tabMessages[tabMessages.length - 1];
+
+			pendingJumpRef.current = messageId;
+			lastMessageIdRef.current = lastMessage ? getMessageId(lastMessage) : null;
+			setActiveTab(tab);
+			setReplyTarget(null);
+			setFirstVisibleId(index >= 0 && index < tabMessages.length - pageSize ? messageId : null);
+			setHighlightedId(messageId);
+			setSearchVisible(false);
+		},
+		[directMessages, groupMessages, pageSize, showDirectTab],
+	);
+
+	useEffect(() => {
+		scrollToPendingJump();
+	}, [highlightedId, scrollToPendingJump, visibleMessages]);
+
+	useEffect(() => {
+		if (!highlightedId) {
+			return undefined;
+		}
+		const timer = setTimeout(() => setHighlightedId(null), 2500);
+		return () => clearTimeout(timer);
+	}, [highlightedId]);
+
+	const renderDaySeparator = (message: Message, index: number) => {
+		const time = getMessageTime(message);
+		if (time === null) {
+			return null;
+		}
+
+		const previous = visibleMessages[index - 1];
+		const previousTime = previous ? getMessageTime(previous) : null;
+		if (previousTime !== null && isSameMessageDay(previousTime, time)) {
+			return null;
+		}
+
+		return (
+			<View style={styles.daySeparator} accessibilityRole="header">
+				<View style={[styles.daySeparatorLine, { backgroundColor: colors.border }]} />
+				<Text style={[styles.daySeparatorText, { color: colors.textMuted }]}>{formatMessageDay(time)}</Text>
+				<View style={[styles.daySeparatorLine, { backgroundColor: colors.border }]} />
+			</View>
+		);
+	};
 	const currentMessageText = activeTab === 'direct' ? directMessageText : groupMessageText;
 
 	const setCurrentMessageText = useCallback(
 		(value: string) => {
+			notifyTyping(value.length > 0);
 			if (activeTab === 'direct') {
 				setDirectMessageText(value);
 				return;
@@ -148,9 +396,71 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 
 			setGroupMessageText(value);
 		},
-		[activeTab],
+		[activeTab, notifyTyping],
 	);
 
+	const [cursor, setCursor] = useState(0);
+	const [pendingAttachment, setPendingAttachment] = useState<PickedAttachment | null>(null);
+	const canSend = currentMessageText.trim() !== '' || !!pendingAttachment;
+
+	const renderAttachment = (attachment: MessageAttachment, isMine: boolean) => {
+		const data = attachmentData[attachment.id];
+		const textColor = isMine ? colors.invertedText : colors.text;
+		return (
+			<Pressable
+				accessibilityRole="button"
+				accessibilityLabel={`Share ${attachment.name}`}
+				onPress={() => shareAttachment({ attachment, data, showAlert })}
+				style={styles.attachment}
+			>
+				{attachment.kind === 'image' && data ? (
+					<Image source={{ uri: data }} style={styles.attachmentThumbnail} resizeMode="cover" />
+				) : (
+					<View style={[styles.attachmentFile, { borderColor: isMine ? 'rgba(255,255,255,0.4)' : colors.border }]}>
+						<FontAwesome5 name={attachment.kind === 'image' ? 'image' : 'file'} size={16} color={textColor} />
+						<View style={styles.attachmentInfo}>
+							<Text numberOfLines={1} style={[styles.attachmentName, { color: textColor }]}>
+								{attachment.name}
+							</Text>
+							<Text style={[styles.attachmentMeta, { color: isMine ? 'rgba(255,255,255,0.82)' : colors.textMuted }]}>
+								{getAttachmentStatus({ attachment, data })}
+							</Text>
+						</View>
+						{data ? <FontAwesome5 name="share-alt" size={12} color={textColor} /> : null}
+					</View>
+				)}
+			</Pressable>
+		);
+	};
+
+	const attachFile = async () => {
+		const picked = await pickChatAttachment({ roomName, showAlert });
+		if (picked) {
+			setPendingAttachment(picked);
+		}
+	};
+	const mentionQuery =
+		activeTab === 'group' && participants.length > 0
+			? getMentionQuery(groupMessageText, Math.min(cursor, groupMessageText.length))
+			: null;
+	const mentionSuggestions = mentionQuery
+		? getMentionSuggestions({ participants, query: mentionQuery.query, member })
+		: [];
+
+	const selectMention = (name: string) => {
+		if (!mentionQuery) {
+			return;
+		}
+		const next = insertMention({
+			text: groupMessageText,
+			mention: mentionQuery,
+			name,
+			cursor: Math.min(cursor, groupMessageText.length),
+		});
+		setGroupMessageText(next.text);
+		setCursor(next.cursor);
+	};
+
 	const switchToDirect = useCallback(() => {
 		if (!showDirectTab) {
 			return;
@@ -158,15 +468,27 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 
 		setActiveTab('direct');
 		setFocusedInput(true);
+		setReplyTarget(null);
+		setFirstVisibleId(null);
+		lastMessageIdRef.current = null;
 	}, [showDirectTab]);
 
 	const switchToGroup = useCallback(() => {
 		setActiveTab('group');
 		setFocusedInput(false);
+		setReplyTarget(null);
+		setFirstVisibleId(null);
+		lastMessageIdRef.current = null;
 	}, []);
 
 	const openReplyInput = useCallback(
-		(nextSenderId: string) => {
+		(message: Message) => {
+			setReplyTarget(message);
+			if (message.group) {
+				return;
+			}
+
+			const nextSenderId = message.sender;
 			setActiveTab('direct');
 			setFocusedInput(true);
 			setReplyInfo({ text: 'Replying to:', username: nextSenderId });
@@ -188,7 +510,7 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 	const handleSend = useCallback(async () => {
 		const message = currentMessageText;
 
-		if (!message) {
+		if (!message && !pendingAttachment) {
 			showAlert?.({
 				message: 'Please enter a message',
 				type: 'danger',
@@ -206,7 +528,7 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 			return;
 		}
 
-		if (message.trim() === '') {
+		if (message.trim() === '' && !pendingAttachment) {
 			showAlert?.({
 				message: 'Message is not valid.',
 				type: 'danger',
@@ -225,7 +547,7 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 		}
 
 		try {
-			await onSendMessagePress({
+			const sent = await onSendMessagePress({
 				message,
 				receivers: activeTab === 'direct' && senderId ? [senderId] : [],
 				group: activeTab === 'group',
@@ -239,7 +561,21 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 				roomName,
 				socket,
 				chatSetting,
+				outbox: chatOutbox,
+				replyTo: replyTarget ? createReplyReference(replyTarget) : undefined,
+				chatModeration,
+				messages,
+				attachment: pendingAttachment?.attachment,
+				attachmentData: pendingAttachment?.data,
+				updateAttachmentData,
 			});
+			// keep what was typed when the message was refused (slow mode, blocked words, ...)
+			if (sent === false) {
+				return;
+			}
+			notifyTyping(false);
+			setReplyTarget(null);
+			setPendingAttachment(null);
 
 			if (activeTab === 'direct') {
 				setDirectMessageText('');
@@ -256,19 +592,25 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 		}
 	}, [
 		activeTab,
+		chatModeration,
+		chatOutbox,
 		chatSetting,
 		coHost,
 		coHostResponsibility,
 		currentMessageText,
 		islevel,
 		member,
-		messages.length,
+		messages,
+		notifyTyping,
 		onSendMessagePress,
+		pendingAttachment,
+		replyTarget,
 		resetDirectMessageState,
 		roomName,
 		senderId,
 		showAlert,
 		socket,
+		updateAttachmentData,
 	]);
 
 	const getPlaceholder = useCallback(() => {
@@ -291,6 +633,27 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 		return eventType === 'chat' ? 'Send a message' : 'Send a message to everyone';
 	}, [activeTab, directMessageDetails, eventType, islevel, senderId]);
 
+	const exportTranscript = useCallback(
+		async (format: ChatTranscriptFormat) => {
+			setExportMenuVisible(false);
+			if (onExportTranscript) {
+				await onExportTranscript({ format });
+				return;
+			}
+			await exportChatTranscript({
+				messages,
+				format,
+				roomName,
+				member,
+				islevel,
+				coHost,
+				coHostResponsibility,
+				showAlert,
+			});
+		},
+		[coHost, coHostResponsibility, islevel, member, messages, onExportTranscript, roomName, showAlert],
+	);
+
 	const showSelectRecipientNotice = activeTab === 'direct' && !senderId && islevel === '2';
 	const showPrivacyNotice = activeTab === 'direct' && islevel !== '2';
 
@@ -306,23 +669,189 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 						<Text style={[styles.subtitleText, { color: colors.textMuted }]}>Room chat and direct replies</Text>
 					</View>
 				</View>
-				<Pressable
-					accessibilityRole="button"
-					accessibilityLabel="Close messages"
-					onPress={onMessagesClose}
-					style={({ pressed }) => [
-						styles.iconButton,
-						{
-							borderColor: colors.border,
-							backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
-						},
-					]}
-				>
-					<FontAwesome5 name="times" size={14} color={colors.textMuted} />
-				</Pressable>
+				<View style={styles.headerActions}>
+					<Pressable
+						accessibilityRole="button"
+						accessibilityLabel={searchVisible ? 'Close search' : 'Search messages'}
+						accessibilityState={{ expanded: searchVisible }}
+						onPress={() => {
+							setSearchVisible((visible) => !visible);
+							setExportMenuVisible(false);
+						}}
+						style={({ pressed }) => [
+							styles.iconButton,
+							{
+								borderColor: searchVisible ? colors.accent : colors.border,
+								backgroundColor: pressed || searchVisible ? colors.accentSoft : colors.surfaceStrong,
+							},
+						]}
+					>
+						<FontAwesome5 name="search" size={13} color={searchVisible ? colors.accent : colors.textMuted} />
+					</Pressable>
+					<Pressable
+						accessibilityRole="button"
+						accessibilityLabel="Export chat transcript"
+						accessibilityState={{ expanded: exportMenuVisible }}
+						onPress={() => setExportMenuVisible((visible) => !visible)}
+						style={({ pressed }) => [
+							styles.iconButton,
+							{
+								borderColor: exportMenuVisible ? colors.accent : colors.border,
+								backgroundColor: pressed || exportMenuVisible ? colors.accentSoft : colors.surfaceStrong,
+							},
+						]}
+					>
+						<FontAwesome5 name="file-export" size={13} color={exportMenuVisible ? colors.accent : colors.textMuted} />
+					</Pressable>
+					<Pressable
+						accessibilityRole="button"
+						accessibilityLabel="Close messages"
+						onPress={onMessagesClose}
+						style={({ pressed }) => [
+							styles.iconButton,
+							{
+								borderColor: colors.border,
+								backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
+							},
+						]}
+					>
+						<FontAwesome5 name="times" size={14} color={colors.textMuted} />
+					</Pressable>
+				</View>
 			</View>
 
-			{showDirectTab ? (
+			{exportMenuVisible ? (
+				<View style={[styles.exportMenu, { borderBottomColor: colors.border }]}>
+					<Text style={[styles.exportMenuLabel, { color: colors.textMuted }]}>Export transcript</Text>
+					{CHAT_TRANSCRIPT_FORMATS.map(({ format, label }) => (
+						<Pressable
+							key={format}
+							accessibilityRole="button"
+							accessibilityLabel={`Export chat transcript as ${label}`}
+							onPress={() => exportTranscript(format)}
+							style={({ pressed }) => [
+								styles.exportOption,
+								{
+									borderColor: colors.border,
+									backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
+								},
+							]}
+						>
+							<Text style={[styles.exportOptionText, { color: colors.text }]}>{label}</Text>
+						</Pressable>
+					))}
+				</View>
+			) : null}
+
+			{searchVisible ? (
+				<View style={styles.searchPanel}>
+					<View style={[styles.searchInputRow, { backgroundColor: colors.surfaceStrong, borderColor: colors.border }]}>
+						<FontAwesome5 name="search" size={12} color={colors.textMuted} />
+						<TextInput
+							autoFocus
+							autoCorrect={false}
+							accessibilityLabel="Search messages"
+							onChangeText={setSearchQuery}
+							placeholder="Search messages"
+							placeholderTextColor={colors.textMuted}
+							returnKeyType="search"
+							style={[styles.searchInput, { color: colors.text }]}
+							value={searchQuery}
+						/>
+						{searchQuery ? (
+							<Pressable accessibilityRole="button" accessibilityLabel="Clear search" onPress={() => setSearchQuery('')}>
+								<FontAwesome5 name="times-circle" size={13} color={colors.textMuted} />
+							</Pressable>
+						) : null}
+					</View>
+					<ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.searchFilters} contentContainerStyle={styles.searchFiltersContent}>
+						{(showDirectTab ? (['all', 'group', 'direct'] as ChatSearchScope[]) : []).map((scope) => (
+							<Pressable
+								key={scope}
+								accessibilityRole="button"
+								accessibilityState={{ selected: searchScope === scope }}
+								onPress={() => setSearchScope(scope)}
+								style={[
+									styles.searchChip,
+									{
+										borderColor: searchScope === scope ? colors.accent : colors.border,
+										backgroundColor: searchScope === scope ? colors.accent : colors.surfaceStrong,
+									},
+								]}
+							>
+								<Text style={[styles.searchChipText, { color: searchScope === scope ? colors.invertedText : colors.text }]}>
+									{scope === 'all' ? 'All' : scope === 'group' ? 'Group' : 'Direct'}
+								</Text>
+							</Pressable>
+						))}
+						{[null, ...searchSenders].map((sender) => (
+							<Pressable
+								key={sender ?? 'anyone'}
+								accessibilityRole="button"
+								accessibilityState={{ selected: searchSender === sender }}
+								onPress={() => setSearchSender(sender)}
+								style={[
+									styles.searchChip,
+									{
+										borderColor: searchSender === sender ? colors.accent : colors.border,
+										backgroundColor: searchSender === sender ? colors.accentSoft : colors.surfaceStrong,
+									},
+								]}
+							>
+								<Text style={[styles.searchChipText, { color: searchSender === sender ? colors.accent : colors.text }]}>
+									{sender ?? 'Anyone'}
+								</Text>
+							</Pressable>
+						))}
+					</ScrollView>
+					<ScrollView style={styles.searchResults} keyboardShouldPersistTaps="handled">
+						<Text style={[styles.searchSummary, { color: colors.textMuted }]}>
+							{!searchQuery.trim() && !searchSender
+								? 'Type to search the chat'
+								: searchResults.length === 0
+								? 'No messages found'
+								: searchResults.length === 1
+								? '1 message'
+								: `${searchResults.length} messages`}
+						</Text>
+						{searchResults.map((message) => (
+							<Pressable
+								key={getMessageId(message)}
+								accessibilityRole="button"
+								accessibilityLabel={`Show message from ${message.sender} in the chat`}
+								onPress={() => openSearchResult(message)}
+								style={({ pressed }) => [
+									styles.searchResult,
+									{
+										borderColor: colors.border,
+										backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
+									},
+								]}
+							>
+								<View style={styles.searchResultMeta}>
+									<Text style={[styles.searchResultSender, { color: colors.text }]}>{message.sender}</Text>
+									{showDirectTab ? (
+										<Text style={[styles.searchResultTag, { color: colors.textMuted }]}>{message.group ? 'Group' : 'Direct'}</Text>
+									) : null}
+									<Text style={[styles.searchResultTag, { color: colors.textMuted }]}>{formatMessageTime(message.timestamp)}</Text>
+								</View>
+								<Text style={[styles.searchResultText, { color: colors.text }]} numberOfLines={3}>
+									{highlightMatches(message.message, searchQuery).map((segment, index) => (
+										<Text
+											key={index}
+											style={segment.match ? [styles.searchMatch, { backgroundColor: colors.warning, color: colors.text }] : null}
+										>
+											{segment.text}
+										</Text>
+									))}
+								</Text>
+							</Pressable>
+						))}
+					</ScrollView>
+				</View>
+			) : null}
+
+			{showDirectTab && !searchVisible ? (
 				<View style={[styles.tabsContainer, { backgroundColor: colors.surfaceMuted, borderColor: colors.border }]}> 
 					<Pressable
 						accessibilityRole="button"
@@ -342,7 +871,16 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 					>
 						<FontAwesome5 name="user" size={12} color={activeTab === 'direct' ? colors.invertedText : colors.textMuted} />
 						<Text style={[styles.tabText, { color: activeTab === 'direct' ? colors.invertedText : colors.textMuted }]}>Direct</Text>
-						{directMessages.length > 0 ? (
+						{activeTab !== 'direct' && directUnreadCount > 0 ? (
+							<View
+								accessibilityLabel={`${directUnreadCount} unread`}
+								style={[styles.tabBadge, { backgroundColor: colors.danger }]}
+							>
+								<Text style={[styles.tabBadgeText, { color: colors.invertedText }]}>
+									{directUnreadCount > 99 ? '99+' : directUnreadCount}
+								</Text>
+							</View>
+						) : directMessages.length > 0 ? (
 							<View
 								style={[
 									styles.tabBadge,
@@ -375,7 +913,16 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 					>
 						<FontAwesome5 name="users" size={12} color={activeTab === 'group' ? colors.invertedText : colors.textMuted} />
 						<Text style={[styles.tabText, { color: activeTab === 'group' ? colors.invertedText : colors.textMuted }]}>Group</Text>
-						{groupMessages.length > 0 ? (
+						{activeTab !== 'group' && groupUnreadCount > 0 ? (
+							<View
+								accessibilityLabel={`${groupUnreadCount} unread`}
+								style={[styles.tabBadge, { backgroundColor: colors.danger }]}
+							>
+								<Text style={[styles.tabBadgeText, { color: colors.invertedText }]}>
+									{groupUnreadCount > 99 ? '99+' : groupUnreadCount}
+								</Text>
+							</View>
+						) : groupMessages.length > 0 ? (
 							<View
 								style={[
 									styles.tabBadge,
@@ -393,7 +940,7 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 				</View>
 			) : null}
 
-			<View style={styles.body}>
+			<View style={[styles.body, searchVisible ? styles.hidden : null]}>
 				{showSelectRecipientNotice ? (
 					<View
 						style={[
@@ -455,12 +1002,26 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 						<ScrollView
 							ref={scrollViewRef}
 							contentContainerStyle={styles.messagesList}
-							onContentSizeChange={() => {
-								scrollViewRef.current?.scrollToEnd({ animated: true });
+							maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+							onContentSizeChange={handleContentSizeChange}
+							onScroll={(event) => {
+								if (event.nativeEvent.contentOffset.y < 40) {
+									loadOlderMessages();
+								}
 							}}
+							scrollEventThrottle={200}
 							showsVerticalScrollIndicator={false}
 						>
-							{currentMessages.map((message: Message, index: number) => {
+							{hasOlder ? (
+								<Pressable
+									accessibilityRole="button"
+									onPress={loadOlderMessages}
+									style={styles.loadOlderButton}
+								>
+									<Text style={[styles.loadOlderText, { color: colors.accent }]}>Load earlier messages</Text>
+								</Pressable>
+							) : null}
+							{visibleMessages.map((message: Message, index: number) => {
 								const isMine = message.sender === member;
 								const directReceiverLabel = isMine && !message.group
 									? message.receivers
@@ -472,89 +1033,265 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 								const metaTextColor = isMine ? 'rgba(255,255,255,0.82)' : colors.textMuted;
 								const timestampBadgeBackgroundColor = isMine ? 'rgba(255,255,255,0.16)' : colors.surfaceStrong;
 								const timestampTextColor = isMine ? 'rgba(255,255,255,0.78)' : colors.textMuted;
+								const messageId = getMessageId(message);
+								const reactionEntries = Object.entries(message.reactions ?? {});
+								const replyCount = replyCounts.get(messageId) ?? 0;
 
 								return (
-									<View
-										key={`${message.sender}-${message.timestamp}-${index}`}
-										style={[
-											styles.messageBubble,
-											isMine ? styles.messageBubbleMine : styles.messageBubbleOther,
-											{
-												alignSelf: isMine ? 'flex-end' : 'flex-start',
-												backgroundColor: isMine ? colors.accent : colors.surfaceMuted,
-												borderColor: isMine ? colors.accent : colors.border,
-											},
-										]}
-									>
-										<View style={styles.messageMetaRow}>
-											<View style={styles.messageMetaTextRow}>
-												{directReceiverLabel ? (
+									<React.Fragment key={messageId}>
+										{renderDaySeparator(message, index)}
+										<View
+											onLayout={(event) => {
+												messageOffsets.current[messageId] = event.nativeEvent.layout.y;
+												if (pendingJumpRef.current === messageId) {
+													scrollToPendingJump();
+												}
+											}}
+											style={[
+												styles.messageBubble,
+												isMine ? styles.messageBubbleMine : styles.messageBubbleOther,
+												{
+													alignSelf: isMine ? 'flex-end' : 'flex-start',
+													backgroundColor: isMine ? colors.accent : colors.surfaceMuted,
+													borderColor: isMine ? colors.accent : colors.border,
+												},
+												highlightedId === messageId ? { borderColor: colors.warning, borderWidth: 2 } : null,
+											]}
+										>
+											<View style={styles.messageMetaRow}>
+												<View style={styles.messageMetaTextRow}>
+													{directReceiverLabel ? (
+														<View
+															style={[
+																styles.messageMetaBadge,
+																{
+																	backgroundColor: metaBadgeBackgroundColor,
+																	borderColor: metaBadgeBorderColor,
+																},
+															]}
+														>
+															<Text style={[styles.receiverText, { color: metaTextColor }]}> 
+																To {directReceiverLabel}
+															</Text>
+														</View>
+													) : null}
+													{!isMine ? (
+														<View
+															style={[
+																styles.messageMetaBadge,
+																styles.senderBadge,
+																{
+																	backgroundColor: colors.surfaceStrong,
+																	borderColor: colors.border,
+																},
+															]}
+														>
+															<Text style={[styles.senderText, { color: colors.text }]}>{message.sender}</Text>
+														</View>
+													) : null}
+												</View>
+												<View style={styles.messageMetaActions}>
 													<View
 														style={[
-															styles.messageMetaBadge,
+															styles.timestampBadge,
 															{
-																backgroundColor: metaBadgeBackgroundColor,
+																backgroundColor: timestampBadgeBackgroundColor,
 																borderColor: metaBadgeBorderColor,
 															},
 														]}
 													>
-														<Text style={[styles.receiverText, { color: metaTextColor }]}> 
-															To {directReceiverLabel}
+														<FontAwesome5 name="clock" size={9} color={timestampTextColor} />
+														<Text style={[styles.timestampText, { color: timestampTextColor }]}> 
+															{formatMessageTime(message.timestamp)}
 														</Text>
+														{isMine && message.deliveryStatus && message.deliveryStatus !== 'failed' ? (
+															<FontAwesome5
+																name={message.deliveryStatus === 'sent' ? 'check' : 'hourglass-half'}
+																size={9}
+																color={timestampTextColor}
+																accessibilityLabel={message.deliveryStatus === 'sent' ? 'Sent' : 'Sending'}
+															/>
+														) : null}
 													</View>
-												) : null}
-												{!isMine ? (
-													<View
-														style={[
-															styles.messageMetaBadge,
-															styles.senderBadge,
-															{
-																backgroundColor: colors.surfaceStrong,
-																borderColor: colors.border,
-															},
-														]}
-													>
-														<Text style={[styles.senderText, { color: colors.text }]}>{message.sender}</Text>
-													</View>
-												) : null}
+													{isMine && message.deliveryStatus === 'failed' ? (
+														<Pressable
+															accessibilityRole="button"
+															accessibilityLabel="Message not sent. Tap to retry"
+															onPress={() => chatOutbox?.retry({ clientId: message.clientId!, socket })}
+															style={({ pressed }) => [
+																styles.replyButton,
+																{
+																	backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
+																	borderColor: colors.danger,
+																},
+															]}
+														>
+															<FontAwesome5 name="redo" size={11} color={colors.danger} />
+														</Pressable>
+													) : null}
+													{!message.deleted && (message.group || !isMine) ? (
+														<Pressable
+															accessibilityRole="button"
+															accessibilityLabel={`Reply to ${message.sender}`}
+															onPress={() => openReplyInput(message)}
+															style={({ pressed }) => [
+																styles.replyButton,
+																{
+																	backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
+																	borderColor: colors.border,
+																},
+															]}
+														>
+															<FontAwesome5 name="reply" size={11} color={colors.textMuted} />
+														</Pressable>
+													) : null}
+													{!message.deleted ? (
+														<Pressable
+															accessibilityRole="button"
+															accessibilityLabel="React to message"
+															onPress={() =>
+																setReactionPickerFor((current) =>
+																	current === messageId ? null : messageId,
+																)
+															}
+															style={({ pressed }) => [
+																styles.replyButton,
+																{
+																	backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
+																	borderColor: colors.border,
+																},
+															]}
+														>
+															<FontAwesome5 name="smile" size={11} color={colors.textMuted} />
+														</Pressable>
+													) : null}
+													{isModerator && !message.deleted ? (
+														<Pressable
+															accessibilityRole="button"
+															accessibilityLabel="Delete message for everyone"
+															onPress={() => deleteMessage(message)}
+															style={({ pressed }) => [
+																styles.replyButton,
+																{
+																	backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
+																	borderColor: colors.border,
+																},
+															]}
+														>
+															<FontAwesome5 name="trash" size={11} color={colors.danger} />
+														</Pressable>
+													) : null}
+												</View>
 											</View>
-											<View style={styles.messageMetaActions}>
+											{message.replyTo ? (
 												<View
 													style={[
-														styles.timestampBadge,
+														styles.quoteBlock,
 														{
-															backgroundColor: timestampBadgeBackgroundColor,
-															borderColor: metaBadgeBorderColor,
+															borderLeftColor: isMine ? colors.invertedText : colors.accent,
+															backgroundColor: isMine ? 'rgba(255,255,255,0.12)' : colors.surfaceStrong,
 														},
 													]}
 												>
-													<FontAwesome5 name="clock" size={9} color={timestampTextColor} />
-													<Text style={[styles.timestampText, { color: timestampTextColor }]}> 
-														{message.timestamp}
+													<Text style={[styles.quoteSender, { color: isMine ? colors.invertedText : colors.accent }]}>
+														{message.replyTo.sender}
 													</Text>
-												</View>
-												{!isMine && !message.group ? (
-													<Pressable
-														accessibilityRole="button"
-														accessibilityLabel={`Reply to ${message.sender}`}
-														onPress={() => openReplyInput(message.sender)}
-														style={({ pressed }) => [
-															styles.replyButton,
-															{
-																backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong,
-																borderColor: colors.border,
-															},
-														]}
+													<Text
+														numberOfLines={2}
+														style={[styles.quoteText, { color: isMine ? 'rgba(255,255,255,0.82)' : colors.textMuted }]}
 													>
-														<FontAwesome5 name="reply" size={11} color={colors.textMuted} />
-													</Pressable>
-												) : null}
-											</View>
+														{message.replyTo.message || 'Deleted message'}
+													</Text>
+												</View>
+											) : null}
+											{message.deleted ? (
+												<Text style={[styles.messageText, styles.deletedText, { color: metaTextColor }]}>
+													This message was deleted
+												</Text>
+											) : (
+												<>
+													{message.attachment ? renderAttachment(message.attachment, isMine) : null}
+													{message.message !== '' || !message.attachment ? (
+														<Text style={[styles.messageText, { color: isMine ? colors.invertedText : colors.text }]}>
+															{splitMentions(message.message).map((segment, index) =>
+																segment.mention ? (
+																	<Text
+																		key={index}
+																		style={[
+																			styles.mentionText,
+																			{ color: isMine ? colors.invertedText : colors.accent },
+																			segment.mention.toLowerCase() === member.toLowerCase() && {
+																				backgroundColor: colors.warning,
+																				color: colors.invertedText,
+																			},
+																		]}
+																	>
+																		{segment.text}
+																	</Text>
+																) : (
+																	segment.text
+																),
+															)}
+														</Text>
+													) : null}
+												</>
+											)}
+											{reactionEntries.length > 0 || replyCount > 0 ? (
+												<View style={styles.reactionsRow}>
+													{reactionEntries.map(([emoji, reactors]) => {
+														const reacted = reactors.includes(member);
+														return (
+															<Pressable
+																key={emoji}
+																accessibilityRole="button"
+																accessibilityLabel={`${emoji} ${reactors.length}${reacted ? ', including you' : ''}`}
+																onPress={() => reactToMessage({ message, emoji })}
+																style={[
+																	styles.reactionChip,
+																	{
+																		backgroundColor: metaBadgeBackgroundColor,
+																		borderColor: reacted ? (isMine ? colors.invertedText : colors.accent) : metaBadgeBorderColor,
+																	},
+																]}
+															>
+																<Text style={[styles.reactionText, { color: isMine ? colors.invertedText : colors.text }]}>
+																	{emoji} {reactors.length}
+																</Text>
+															</Pressable>
+														);
+													})}
+													{replyCount > 0 ? (
+														<Text style={[styles.threadText, { color: metaTextColor }]}>
+															{replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+														</Text>
+													) : null}
+												</View>
+											) : null}
+											{reactionPickerFor === messageId ? (
+												<View
+													style={[
+														styles.reactionPicker,
+														{ backgroundColor: colors.surfaceStrong, borderColor: colors.border },
+													]}
+												>
+													{DEFAULT_MESSAGE_REACTIONS.map((emoji) => (
+														<Pressable
+															key={emoji}
+															accessibilityRole="button"
+															accessibilityLabel={`React with ${emoji}`}
+															onPress={() => {
+																reactToMessage({ message, emoji });
+																setReactionPickerFor(null);
+															}}
+															style={styles.reactionOption}
+														>
+															<Text style={styles.reactionOptionText}>{emoji}</Text>
+														</Pressable>
+													))}
+												</View>
+											) : null}
 										</View>
-										<Text style={[styles.messageText, { color: isMine ? colors.invertedText : colors.text }]}>
-											{message.message}
-										</Text>
-									</View>
+									</React.Fragment>
 								);
 							})}
 						</ScrollView>
@@ -562,6 +1299,35 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 				</View>
 
 				<View style={[styles.inputSection, { borderTopColor: colors.border }]}> 
+					{replyTarget ? (
+						<View
+							style={[
+								styles.replyBanner,
+								{
+									backgroundColor: colors.surfaceMuted,
+									borderColor: colors.border,
+								},
+							]}
+						>
+							<View style={styles.replyTargetText}>
+								<Text style={[styles.quoteSender, { color: colors.accent }]}>Replying to {replyTarget.sender}</Text>
+								<Text numberOfLines={1} style={[styles.quoteText, { color: colors.textMuted }]}>
+									{replyTarget.message}
+								</Text>
+							</View>
+							<Pressable
+								accessibilityRole="button"
+								accessibilityLabel="Cancel reply"
+								onPress={() => setReplyTarget(null)}
+								style={({ pressed }) => [
+									styles.replyBannerDismiss,
+									{ backgroundColor: pressed ? colors.accentSoft : 'transparent' },
+								]}
+							>
+								<FontAwesome5 name="times" size={11} color={colors.textMuted} />
+							</Pressable>
+						</View>
+					) : null}
 					{replyInfo ? (
 						<View
 							style={[
@@ -591,12 +1357,89 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 						</View>
 					) : null}
 
+					{typingText ? (
+						<Text style={[styles.typingText, { color: colors.textMuted }]} accessibilityLiveRegion="polite">
+							{typingText}
+						</Text>
+					) : null}
+
+					{slowModeSeconds > 0 && !isModerator ? (
+						<Text style={[styles.slowModeText, { color: colors.textMuted }]}>
+							Slow mode is on: one message every {slowModeSeconds}s
+						</Text>
+					) : null}
+
+					{mentionSuggestions.length > 0 ? (
+						<View style={styles.mentionRow}>
+							{mentionSuggestions.map((name) => (
+								<Pressable
+									key={name}
+									accessibilityRole="button"
+									accessibilityLabel={`Mention ${name}`}
+									onPress={() => selectMention(name)}
+									style={({ pressed }) => [
+										styles.mentionChip,
+										{
+											backgroundColor: pressed ? colors.accentSoft : colors.surfaceMuted,
+											borderColor: colors.border,
+										},
+									]}
+								>
+									<Text style={[styles.mentionChipText, { color: colors.text }]}>@{name}</Text>
+								</Pressable>
+							))}
+						</View>
+					) : null}
+
+					{pendingAttachment ? (
+						<View style={[styles.pendingAttachment, { backgroundColor: colors.surfaceMuted, borderColor: colors.border }]}>
+							{pendingAttachment.attachment.kind === 'image' ? (
+								<Image source={{ uri: pendingAttachment.data }} style={styles.pendingThumbnail} />
+							) : (
+								<FontAwesome5 name="file" size={16} color={colors.textMuted} />
+							)}
+							<View style={styles.attachmentInfo}>
+								<Text numberOfLines={1} style={[styles.attachmentName, { color: colors.text }]}>
+									{pendingAttachment.attachment.name}
+								</Text>
+								<Text style={[styles.attachmentMeta, { color: colors.textMuted }]}>
+									{formatAttachmentSize(pendingAttachment.attachment.size)}
+								</Text>
+							</View>
+							<Pressable
+								accessibilityRole="button"
+								accessibilityLabel="Remove attachment"
+								onPress={() => setPendingAttachment(null)}
+								style={({ pressed }) => [
+									styles.replyBannerDismiss,
+									{ backgroundColor: pressed ? colors.accentSoft : 'transparent' },
+								]}
+							>
+								<FontAwesome5 name="times" size={11} color={colors.textMuted} />
+							</Pressable>
+						</View>
+					) : null}
+
 					<View style={styles.inputRow}>
+						{updateAttachmentData ? (
+							<Pressable
+								accessibilityRole="button"
+								accessibilityLabel="Attach an image"
+								onPress={attachFile}
+								style={({ pressed }) => [
+									styles.attachButton,
+									{ backgroundColor: pressed ? colors.accentSoft : colors.surfaceMuted, borderColor: colors.border },
+								]}
+							>
+								<FontAwesome5 name="paperclip" size={14} color={colors.text} />
+							</Pressable>
+						) : null}
 						<TextInput
 							ref={inputRef}
 							multiline
 							maxLength={350}
 							onChangeText={setCurrentMessageText}
+							onSelectionChange={(event) => setCursor(event.nativeEvent.selection.end)}
 							placeholder={getPlaceholder()}
 							placeholderTextColor={colors.textMuted}
 							style={[
@@ -613,17 +1456,17 @@ export const ModernMessagesModal: React.FC<ModernMessagesModalProps> = ({
 						<Pressable
 							accessibilityRole="button"
 							accessibilityLabel={activeTab === 'direct' && senderId ? `Send to ${senderId}` : 'Send message'}
-							disabled={!currentMessageText.trim()}
+							disabled={!canSend}
 							onPress={handleSend}
 							style={({ pressed }) => [
 								styles.sendButton,
 								{
-									backgroundColor: !currentMessageText.trim()
+									backgroundColor: !canSend
 										? colors.surfaceMuted
 										: pressed
 										? colors.accentAlt
 										: colors.accent,
-									opacity: !currentMessageText.trim() ? 0.62 : 1,
+									opacity: !canSend ? 0.62 : 1,
 								},
 							]}
 						>
@@ -737,6 +1580,109 @@ const styles = StyleSheet.create({
 		fontSize: 12,
 		marginTop: 2,
 	},
+	hidden: {
+		display: 'none',
+	},
+	searchPanel: {
+		flex: 1,
+		minHeight: 0,
+		paddingHorizontal: 20,
+		paddingTop: 14,
+	},
+	searchInputRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		borderWidth: 1,
+		borderRadius: 999,
+		paddingHorizontal: 14,
+		gap: 8,
+	},
+	searchInput: {
+		flex: 1,
+		fontSize: 14,
+		paddingVertical: Platform.OS === 'ios' ? 10 : 6,
+	},
+	searchFilters: {
+		flexGrow: 0,
+		marginTop: 10,
+	},
+	searchFiltersContent: {
+		gap: 8,
+	},
+	searchChip: {
+		borderWidth: 1,
+		borderRadius: 999,
+		paddingHorizontal: 12,
+		paddingVertical: 5,
+	},
+	searchChipText: {
+		fontSize: 12,
+		fontWeight: '600',
+	},
+	searchResults: {
+		flex: 1,
+		marginTop: 10,
+	},
+	searchSummary: {
+		fontSize: 12,
+		marginBottom: 8,
+	},
+	searchResult: {
+		borderWidth: 1,
+		borderRadius: 14,
+		paddingHorizontal: 12,
+		paddingVertical: 10,
+		marginBottom: 8,
+	},
+	searchResultMeta: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		marginBottom: 4,
+	},
+	searchResultSender: {
+		fontSize: 12,
+		fontWeight: '700',
+	},
+	searchResultTag: {
+		fontSize: 11,
+	},
+	searchResultText: {
+		fontSize: 14,
+		lineHeight: 20,
+	},
+	searchMatch: {
+		fontWeight: '700',
+	},
+	headerActions: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+	},
+	exportMenu: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		flexWrap: 'wrap',
+		gap: 8,
+		borderBottomWidth: 1,
+		paddingHorizontal: 20,
+		paddingVertical: 10,
+	},
+	exportMenuLabel: {
+		fontSize: 12,
+		fontWeight: '600',
+		marginRight: 4,
+	},
+	exportOption: {
+		borderWidth: 1,
+		borderRadius: 999,
+		paddingHorizontal: 14,
+		paddingVertical: 6,
+	},
+	exportOptionText: {
+		fontSize: 12,
+		fontWeight: '700',
+	},
 	iconButton: {
 		width: 38,
 		height: 38,
@@ -928,6 +1874,160 @@ const styles = StyleSheet.create({
 		fontSize: 14,
 		lineHeight: 21,
 	},
+	deletedText: {
+		fontStyle: 'italic',
+	},
+	mentionText: {
+		fontWeight: '700',
+	},
+	mentionRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		gap: 6,
+		marginBottom: 6,
+	},
+	mentionChip: {
+		borderWidth: 1,
+		borderRadius: 999,
+		paddingHorizontal: 10,
+		paddingVertical: 4,
+	},
+	mentionChipText: {
+		fontSize: 12,
+		fontWeight: '600',
+	},
+	attachment: {
+		marginBottom: 6,
+	},
+	attachmentThumbnail: {
+		width: 200,
+		height: 150,
+		borderRadius: 12,
+	},
+	attachmentFile: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		borderWidth: 1,
+		borderRadius: 12,
+		paddingHorizontal: 10,
+		paddingVertical: 8,
+		maxWidth: 240,
+	},
+	attachmentInfo: {
+		flexShrink: 1,
+		marginHorizontal: 8,
+	},
+	attachmentName: {
+		fontSize: 13,
+		fontWeight: '600',
+	},
+	attachmentMeta: {
+		fontSize: 11,
+	},
+	pendingAttachment: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		borderWidth: 1,
+		borderRadius: 12,
+		padding: 6,
+		marginBottom: 6,
+	},
+	pendingThumbnail: {
+		width: 40,
+		height: 40,
+		borderRadius: 8,
+	},
+	attachButton: {
+		width: 40,
+		height: 40,
+		borderRadius: 20,
+		borderWidth: 1,
+		alignItems: 'center',
+		justifyContent: 'center',
+		marginRight: 8,
+	},
+	slowModeText: {
+		fontSize: 11,
+		marginBottom: 6,
+	},
+	typingText: {
+		fontSize: 11,
+		fontStyle: 'italic',
+		marginBottom: 6,
+	},
+	quoteBlock: {
+		borderLeftWidth: 3,
+		borderRadius: 8,
+		paddingHorizontal: 8,
+		paddingVertical: 5,
+		marginBottom: 6,
+	},
+	quoteSender: {
+		fontSize: 11,
+		fontWeight: '700',
+	},
+	quoteText: {
+		fontSize: 12,
+	},
+	reactionsRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		alignItems: 'center',
+		gap: 4,
+		marginTop: 6,
+	},
+	reactionChip: {
+		borderWidth: 1,
+		borderRadius: 999,
+		paddingHorizontal: 7,
+		paddingVertical: 2,
+	},
+	reactionText: {
+		fontSize: 12,
+	},
+	threadText: {
+		fontSize: 11,
+		fontWeight: '600',
+	},
+	reactionPicker: {
+		flexDirection: 'row',
+		alignSelf: 'flex-start',
+		borderWidth: 1,
+		borderRadius: 999,
+		paddingHorizontal: 4,
+		marginTop: 6,
+	},
+	reactionOption: {
+		padding: 5,
+	},
+	reactionOptionText: {
+		fontSize: 18,
+	},
+	replyTargetText: {
+		flex: 1,
+	},
+	loadOlderButton: {
+		alignSelf: 'center',
+		paddingVertical: 6,
+	},
+	loadOlderText: {
+		fontSize: 12,
+		fontWeight: '600',
+	},
+	daySeparator: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginVertical: 6,
+	},
+	daySeparatorLine: {
+		flex: 1,
+		height: StyleSheet.hairlineWidth,
+	},
+	daySeparatorText: {
+		fontSize: 11,
+		fontWeight: '600',
+		marginHorizontal: 8,
+	},
 	inputSection: {
 		flexShrink: 0,
 		paddingTop: 14,
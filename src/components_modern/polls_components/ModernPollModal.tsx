@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
 	Modal,
 	Platform,
@@ -13,7 +13,43 @@ import {
 import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
 import RNPickerSelect from 'react-native-picker-select';
 import type { PollModalOptions } from '../../components/pollsComponents/PollModal';
+import type { Poll, PollResultsVisibility } from '../../@types/types';
 import { getModalPosition } from '../../methods/utils/getModalPosition';
+import {
+	getPollOptionsForType,
+	isResponsePoll,
+	MAX_OPEN_TEXT_LENGTH,
+	POLL_TYPES,
+	summarizeOpenText,
+	tallyRankedChoice,
+} from '../../methods/pollsMethods/pollResults';
+import {
+	DEFAULT_POLL_WARNINGS,
+	formatPollCountdown,
+	getPollTimeRemaining,
+	parsePollWarnings,
+	POLL_DURATIONS,
+} from '../../methods/pollsMethods/pollTimer';
+import {
+	buildQuizLeaderboard,
+	exportQuizStandings,
+	getQuizName,
+} from '../../methods/pollsMethods/quizScoring';
+import {
+	exportPollSet,
+	parsePollSet,
+	PollDraftContent,
+	toPollDraftContent,
+	validatePollDraft,
+} from '../../methods/pollsMethods/pollDrafts';
+import {
+	canViewPollResults,
+	getHiddenResultsMessage,
+	getPollVoterKey,
+	POLL_RESULTS_VISIBILITY,
+} from '../../methods/pollsMethods/pollVisibility';
+import { handleRevealPollResults as defaultHandleRevealPollResults } from '../../methods/pollsMethods/handleRevealPollResults';
+import { usePollDrafts } from '../../hooks/usePollDrafts';
 import {
 	getModernColors,
 	getModernModalCardStyle,
@@ -36,15 +72,18 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 	isDarkMode,
 	member,
 	islevel,
+	youAreCoHost,
 	polls,
 	poll,
 	socket,
 	roomName,
 	showAlert,
+	storage,
 	updateIsPollModalVisible,
 	handleCreatePoll,
 	handleEndPoll,
 	handleVotePoll,
+	handleRevealPollResults = defaultHandleRevealPollResults,
 	style,
 	renderContent,
 	renderContainer,
@@ -61,11 +100,33 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 	const modalHeight = Math.min(Math.max(windowHeight * 0.78, 520), 820);
 	const dimensions = { width: modalWidth, height: modalHeight };
 
-	const [newPoll, setNewPoll] = useState<{ question: string; type: string; options: string[] }>({
+	const [newPoll, setNewPoll] = useState<{
+		question: string;
+		type: string;
+		options: string[];
+		maxSelections?: number;
+		duration?: number;
+		anonymous?: boolean;
+		resultsVisibility?: PollResultsVisibility;
+	}>({
 		question: '',
 		type: '',
 		options: [],
 	});
+	const [warningsText, setWarningsText] = useState(DEFAULT_POLL_WARNINGS.join(', '));
+	const [selectedChoices, setSelectedChoices] = useState<number[]>([]);
+	const [textAnswer, setTextAnswer] = useState('');
+	const [now, setNow] = useState(Date.now());
+	const [isQuiz, setIsQuiz] = useState(false);
+	const [quizName, setQuizName] = useState('');
+	const [correctOption, setCorrectOption] = useState(-1);
+	const [pollSetText, setPollSetText] = useState('');
+	const { drafts, templates, addDrafts, removeDraft, addTemplate, removeTemplate } = usePollDrafts({
+		storage,
+		roomName,
+		enabled: (isEmbedded || isPollModalVisible) && islevel === '2',
+	});
+	const launchingDraftId = useRef<string | null>(null);
 
 	useEffect(() => {
 		if (!isPollModalVisible) {
@@ -85,6 +146,22 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 		}
 	}, [isPollModalVisible, islevel, poll, polls]);
 
+	useEffect(() => {
+		setSelectedChoices([]);
+		setTextAnswer('');
+	}, [poll?.id]);
+
+	// tick the countdown while a timed poll is open
+	const timedPollActive = (isEmbedded || isPollModalVisible) && poll?.status === 'active' && typeof poll?.endsAt === 'number';
+	useEffect(() => {
+		if (!timedPollActive) {
+			return;
+		}
+		setNow(Date.now());
+		const interval = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(interval);
+	}, [timedPollActive]);
+
 	if (!isEmbedded && !isPollModalVisible) {
 		return null;
 	}
@@ -95,22 +172,8 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 	};
 
 	const handlePollTypeChange = (type: string) => {
-		let options: string[] = [];
-
-		switch (type) {
-			case 'trueFalse':
-				options = ['True', 'False'];
-				break;
-			case 'yesNo':
-				options = ['Yes', 'No'];
-				break;
-			case 'custom':
-			default:
-				options = [];
-				break;
-		}
-
-		setNewPoll({ ...newPoll, type, options });
+		setCorrectOption(-1);
+		setNewPoll({ ...newPoll, type, options: getPollOptionsForType(type), maxSelections: undefined });
 	};
 
 	const renderCreateOptions = () => {
@@ -123,8 +186,16 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 			));
 		}
 
-		if (newPoll.type === 'custom') {
-			return [...Array(5)].map((_, index) => {
+		if (newPoll.type === 'openText') {
+			return (
+				<Text style={[styles.optionMeta, { color: colors.textMuted }]}>
+					{`Participants answer in their own words (up to ${MAX_OPEN_TEXT_LENGTH} characters).`}
+				</Text>
+			);
+		}
+
+		if (newPoll.type === 'custom' || newPoll.type === 'multiSelect' || newPoll.type === 'rankedChoice') {
+			const optionInputs = [...Array(5)].map((_, index) => {
 				const value = newPoll.options[index] ?? '';
 				return (
 					<TextInput
@@ -149,22 +220,273 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 					/>
 				);
 			});
+
+			if (newPoll.type !== 'multiSelect') {
+				return optionInputs;
+			}
+
+			return (
+				<>
+					{optionInputs}
+					<View style={styles.maxSelectionsRow}>
+						<Text style={[styles.optionTitle, { color: colors.text }]}>Max selections</Text>
+						<TextInput
+							style={[
+								styles.input,
+								styles.maxSelectionsInput,
+								{
+									color: modalTheme.inputTextColor,
+									borderColor: modalTheme.borderColor,
+									backgroundColor: modalTheme.inputBackgroundColor,
+								},
+							]}
+							keyboardType="number-pad"
+							placeholder={`${Math.max(newPoll.options.filter((option) => option.trim()).length, 1)}`}
+							placeholderTextColor={modalTheme.placeholderTextColor}
+							value={newPoll.maxSelections ? `${newPoll.maxSelections}` : ''}
+							onChangeText={(text) => {
+								const parsed = parseInt(text, 10);
+								setNewPoll({ ...newPoll, maxSelections: parsed > 0 ? parsed : undefined });
+							}}
+						/>
+					</View>
+				</>
+			);
 		}
 
 		return null;
 	};
 
-	const renderCurrentPollOptions = () => poll?.options.map((option, index) => {
-		const selected = !!poll.voters && poll.voters[member] === index;
+	const toggleChoice = (target: Poll, index: number) => {
+		setSelectedChoices((previous) => {
+			if (previous.includes(index)) {
+				return previous.filter((choice) => choice !== index);
+			}
+			if (target.type === 'multiSelect' && previous.length >= (target.maxSelections ?? target.options.length)) {
+				return previous;
+			}
+			return [...previous, index];
+		});
+	};
+
+	const submitResponse = (target: Poll) => {
+		void handleVotePoll({
+			pollId: target.id,
+			optionIndex: selectedChoices[0] ?? -1,
+			poll: target,
+			response: target.type === 'openText' ? { text: textAnswer } : { choices: selectedChoices },
+			socket,
+			showAlert,
+			member,
+			roomName,
+			updateIsPollModalVisible,
+		});
+	};
+
+	const secondsLeft = getPollTimeRemaining(poll, now);
+	const votingClosed = secondsLeft === 0;
+
+	const renderSubmitButton = (target: Poll, label: string, disabled: boolean) => (
+		<Pressable
+			accessibilityRole="button"
+			accessibilityLabel={label}
+			disabled={disabled || votingClosed}
+			onPress={() => submitResponse(target)}
+			style={({ pressed }) => [
+				styles.primaryButton,
+				{
+					backgroundColor: pressed ? colors.accentAlt : colors.accent,
+					borderColor: pressed ? colors.accentAlt : colors.accent,
+					opacity: disabled || votingClosed ? 0.5 : 1,
+				},
+			]}
+		>
+			<Text style={[styles.primaryButtonText, { color: colors.invertedText }]}>{label}</Text>
+		</Pressable>
+	);
+
+	const renderResponseOptions = (target: Poll) => {
+		const voterKey = getPollVoterKey(target, member);
+		const previousResponse = voterKey ? target.responses?.[voterKey] : undefined;
+
+		if (target.type === 'openText') {
+			return (
+				<>
+					{previousResponse?.text ? (
+						<Text style={[styles.optionMeta, { color: colors.textMuted }]}>{`Your answer: ${previousResponse.text}`}</Text>
+					) : null}
+					<TextInput
+						style={[
+							styles.textArea,
+							{
+								color: modalTheme.inputTextColor,
+								borderColor: modalTheme.borderColor,
+								backgroundColor: modalTheme.inputBackgroundColor,
+							},
+						]}
+						multiline
+						maxLength={MAX_OPEN_TEXT_LENGTH}
+						value={textAnswer}
+						onChangeText={setTextAnswer}
+						placeholder="Type your answer"
+						placeholderTextColor={modalTheme.placeholderTextColor}
+					/>
+					{renderSubmitButton(target, 'Submit Answer', !textAnswer.trim())}
+				</>
+			);
+		}
+
+		const ranked = target.type === 'rankedChoice';
+		const submitted = previousResponse?.choices ?? [];
+		return (
+			<>
+				<Text style={[styles.optionMeta, { color: colors.textMuted }]}>
+					{ranked
+						? 'Tap the options in order of preference.'
+						: `Choose up to ${target.maxSelections ?? target.options.length}.`}
+				</Text>
+				{target.options.map((option, index) => {
+					const rank = selectedChoices.indexOf(index);
+					const selected = rank !== -1;
+					return (
+						<Pressable
+							key={`${option}-${index}`}
+							accessibilityRole={ranked ? 'button' : 'checkbox'}
+							accessibilityLabel={ranked ? `Rank ${option}` : `Select ${option}`}
+							accessibilityState={ranked ? undefined : { checked: selected }}
+							disabled={votingClosed}
+							onPress={() => toggleChoice(target, index)}
+							style={[
+								styles.voteOption,
+								{
+									borderColor: selected ? colors.borderStrong : colors.border,
+									backgroundColor: selected ? colors.accentSoft : colors.surfaceStrong,
+								},
+							]}
+						>
+							<View
+								style={[
+									ranked ? styles.radioOuter : styles.checkboxOuter,
+									{
+										borderColor: selected ? colors.accent : colors.border,
+										backgroundColor: selected ? colors.accent : 'transparent',
+									},
+								]}
+							>
+								{selected ? (
+									ranked ? (
+										<Text style={[styles.rankText, { color: colors.invertedText }]}>{rank + 1}</Text>
+									) : (
+										<FontAwesome5 name="check" size={10} color={colors.invertedText} />
+									)
+								) : null}
+							</View>
+							<View style={styles.voteOptionCopy}>
+								<Text style={[styles.optionTitle, { color: colors.text }]}>{option}</Text>
+								{submitted.includes(index) ? (
+									<Text style={[styles.optionMeta, { color: colors.textMuted }]}>Your vote</Text>
+								) : null}
+							</View>
+						</Pressable>
+					);
+				})}
+				{ranked && selectedChoices.length > 0 ? (
+					<Pressable accessibilityRole="button" onPress={() => setSelectedChoices([])}>
+						<Text style={[styles.linkText, { color: colors.accent }]}>Clear ranking</Text>
+					</Pressable>
+				) : null}
+				{renderSubmitButton(target, ranked ? 'Submit Ranking' : 'Submit Vote', selectedChoices.length === 0)}
+			</>
+		);
+	};
+
+	const renderPollResults = (target: Poll) => {
+		if (!canViewPollResults({ poll: target, islevel, youAreCoHost })) {
+			return (
+				<Text style={[styles.optionMeta, { color: colors.textMuted }]}>{getHiddenResultsMessage(target)}</Text>
+			);
+		}
+
+		const respondents = Object.keys(target.responses ?? {}).length;
+
+		if (target.type === 'openText') {
+			const words = summarizeOpenText(target);
+			const highest = words[0]?.count ?? 1;
+			return (
+				<>
+					<Text style={[styles.optionMeta, { color: colors.textMuted }]}>
+						{`${respondents} answer${respondents === 1 ? '' : 's'}`}
+					</Text>
+					<View style={styles.wordCloud}>
+						{words.map(({ word, count }) => (
+							<View key={word} style={[styles.wordChip, { backgroundColor: colors.accentSoft }]}>
+								<Text style={[styles.wordChipText, { color: colors.accent, fontSize: 11 + Math.round((count / highest) * 9) }]}>
+									{word}
+								</Text>
+							</View>
+						))}
+					</View>
+				</>
+			);
+		}
+
+		if (target.type === 'rankedChoice') {
+			const { rounds, winner } = tallyRankedChoice(target);
+			return (
+				<>
+					{rounds.map((round, roundIndex) => (
+						<Text key={`${target.id}-round-${roundIndex}`} style={[styles.optionMeta, { color: colors.textMuted }]}>
+							{`Round ${roundIndex + 1}: ${target.options
+								.map((option, index) => `${option} ${round.counts[index]}`)
+								.join(', ')}${round.eliminated !== null ? ` (${target.options[round.eliminated]} eliminated)` : ''}`}
+						</Text>
+					))}
+					<Text style={[styles.optionTitle, { color: colors.text }]}>
+						{rounds.length === 0
+							? 'No ballots yet'
+							: winner !== null
+								? `Winner: ${target.options[winner]}`
+								: 'No winner: the remaining options are tied'}
+					</Text>
+				</>
+			);
+		}
+
+		// the server only sends the correct answer once the question has ended
+		const showCorrect = target.quiz?.correctOption !== undefined;
+		return target.options.map((option, optionIndex) => (
+			<Text
+				key={`${target.id}-${optionIndex}`}
+				style={[
+					styles.optionMeta,
+					{ color: colors.textMuted },
+					showCorrect && target.quiz?.correctOption === optionIndex ? [styles.correctText, { color: colors.accent }] : null,
+				]}
+			>
+				{showCorrect && target.quiz?.correctOption === optionIndex ? '✓ ' : ''}
+				{target.type === 'multiSelect'
+					? `${option}: ${target.votes[optionIndex] ?? 0} votes (${
+						respondents > 0 ? (((target.votes[optionIndex] ?? 0) / respondents) * 100).toFixed(2) : '0.00'
+					}% of voters)`
+					: `${option}: ${target.votes[optionIndex]} votes (${calculatePercentage(target.votes, optionIndex)}%)`}
+			</Text>
+		));
+	};
+
+	const renderCurrentPollOptions = () => (poll && isResponsePoll(poll) ? renderResponseOptions(poll) : poll?.options.map((option, index) => {
+		const voterKey = getPollVoterKey(poll, member);
+		const selected = !!voterKey && poll.voters?.[voterKey] === index;
 
 		return (
 			<Pressable
 				key={`${option}-${index}`}
 				accessibilityRole="button"
 				accessibilityLabel={`Vote for ${option}`}
+				disabled={votingClosed}
 				onPress={() => void handleVotePoll({
 					pollId: poll.id,
 					optionIndex: index,
+					poll,
 					socket,
 					showAlert,
 					member,
@@ -187,8 +509,199 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 				</View>
 			</Pressable>
 		);
+	}));
+
+	const canBeQuiz = ['trueFalse', 'yesNo', 'custom'].includes(newPoll.type) && !newPoll.anonymous;
+	const currentQuizName = getQuizName(polls, poll);
+	const standings = currentQuizName ? buildQuizLeaderboard({ polls, quizName: currentQuizName }) : [];
+
+	const getComposedPoll = (): PollDraftContent => ({
+		...newPoll,
+		warnings: parsePollWarnings(warningsText),
+		quiz: isQuiz && canBeQuiz ? { name: quizName, correctOption } : undefined,
 	});
 
+	const loadIntoComposer = (draft: PollDraftContent) => {
+		setNewPoll({
+			question: draft.question,
+			type: draft.type,
+			options: draft.options,
+			maxSelections: draft.maxSelections,
+			duration: draft.duration,
+			anonymous: draft.anonymous,
+			resultsVisibility: draft.resultsVisibility,
+		});
+		setWarningsText((draft.warnings ?? DEFAULT_POLL_WARNINGS).join(', '));
+		setIsQuiz(!!draft.quiz);
+		setQuizName(draft.quiz?.name ?? '');
+		setCorrectOption(draft.quiz?.correctOption ?? -1);
+	};
+
+	const saveComposedPoll = (asTemplate: boolean) => {
+		const composed = getComposedPoll();
+		const error = validatePollDraft(composed);
+		if (error) {
+			showAlert?.({ message: error, type: 'danger' });
+			return;
+		}
+
+		if (asTemplate) {
+			addTemplate(composed);
+			showAlert?.({ message: 'Poll saved as a template', type: 'success' });
+		} else {
+			addDrafts([composed]);
+			showAlert?.({ message: 'Poll added to the queue', type: 'success' });
+			setNewPoll({ question: '', type: '', options: [] });
+			setCorrectOption(-1);
+		}
+	};
+
+	const launchNextDraft = async () => {
+		if (poll?.status === 'active') {
+			showAlert?.({ message: 'End the current poll before launching the next one.', type: 'danger' });
+			return;
+		}
+		const [next] = drafts;
+		if (!next || launchingDraftId.current) {
+			return;
+		}
+		const error = validatePollDraft(next);
+		if (error) {
+			showAlert?.({ message: error, type: 'danger' });
+			return;
+		}
+
+		// the draft stays queued until the server has created the poll
+		launchingDraftId.current = next.id;
+		try {
+			const created = await handleCreatePoll({
+				poll: toPollDraftContent(next),
+				socket,
+				roomName,
+				showAlert,
+				updateIsPollModalVisible,
+			});
+			if (created) {
+				removeDraft(next.id);
+			}
+		} finally {
+			launchingDraftId.current = null;
+		}
+	};
+
+	const importPollSet = () => {
+		const imported = parsePollSet(pollSetText);
+		if (!imported) {
+			showAlert?.({ message: 'That is not a valid poll set.', type: 'danger' });
+			return;
+		}
+		addDrafts(imported);
+		setPollSetText('');
+		showAlert?.({
+			message: `Added ${imported.length} poll${imported.length === 1 ? '' : 's'} to the queue`,
+			type: 'success',
+		});
+	};
+
+	const renderDraftRow = (
+		key: string,
+		label: string,
+		action: { label: string; icon: string; onPress: () => void },
+		onRemove: () => void,
+	) => (
+		<View key={key} style={[styles.staticOptionRow, { borderColor: colors.border, backgroundColor: colors.surfaceMuted }]}>
+			<Text numberOfLines={2} style={[styles.optionTitle, styles.draftText, { color: colors.text }]}>{label}</Text>
+			<Pressable
+				accessibilityRole="button"
+				accessibilityLabel={`${action.label} ${label}`}
+				onPress={action.onPress}
+				style={({ pressed }) => [
+					styles.iconButton,
+					{ borderColor: colors.border, backgroundColor: pressed ? colors.accentSoft : colors.surfaceStrong },
+				]}
+			>
+				<FontAwesome5 name={action.icon} size={12} color={colors.accent} />
+			</Pressable>
+			<Pressable
+				accessibilityRole="button"
+				accessibilityLabel={`Remove ${label}`}
+				onPress={onRemove}
+				style={({ pressed }) => [
+					styles.iconButton,
+					{ borderColor: colors.border, backgroundColor: pressed ? 'rgba(239, 68, 68, 0.18)' : colors.surfaceStrong },
+				]}
+			>
+				<FontAwesome5 name="trash" size={12} color={colors.danger} />
+			</Pressable>
+		</View>
+	);
+
+	const renderRevealButton = (target: Poll) =>
+		islevel === '2' && target.resultsVisibility === 'afterReveal' && !target.resultsRevealed ? (
+			<Pressable
+				accessibilityRole="button"
+				accessibilityLabel={`Reveal results of ${target.question}`}
+				onPress={() => void handleRevealPollResults({ pollId: target.id, socket, showAlert, roomName })}
+				style={({ pressed }) => [
+					styles.ghostButton,
+					{ borderColor: colors.accent, backgroundColor: pressed ? colors.accentSoft : 'transparent' },
+				]}
+			>
+				<Text style={[styles.ghostButtonText, { color: colors.accent }]}>Reveal Results</Text>
+			</Pressable>
+		) : null;
+
+	const renderQuizFields = () => (
+		<>
+			<Pressable
+				accessibilityRole="checkbox"
+				accessibilityState={{ checked: isQuiz }}
+				onPress={() => setIsQuiz(!isQuiz)}
+				style={styles.quizToggle}
+			>
+				<View
+					style={[
+						styles.checkboxOuter,
+						{ borderColor: isQuiz ? colors.accent : colors.border, backgroundColor: isQuiz ? colors.accent : 'transparent' },
+					]}
+				>
+					{isQuiz ? <FontAwesome5 name="check" size={10} color={colors.invertedText} /> : null}
+				</View>
+				<Text style={[styles.optionTitle, { color: colors.text }]}>Quiz question</Text>
+			</Pressable>
+			{isQuiz ? (
+				<>
+					<TextInput
+						style={[
+							styles.input,
+							{
+								color: modalTheme.inputTextColor,
+								borderColor: modalTheme.borderColor,
+								backgroundColor: modalTheme.inputBackgroundColor,
+							},
+						]}
+						placeholder="Quiz name"
+						placeholderTextColor={modalTheme.placeholderTextColor}
+						value={quizName}
+						onChangeText={setQuizName}
+					/>
+					<Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Correct answer</Text>
+					<RNPickerSelect
+						onValueChange={(value) => setCorrectOption(typeof value === 'number' ? value : -1)}
+						items={Array.from(newPoll.options, (option, index) => ({
+							label: (option ?? '').trim(),
+							value: index,
+						})).filter((item) => item.label)}
+						placeholder={{ label: 'Select the correct answer', value: -1 }}
+						style={pickerTheme}
+						value={correctOption}
+						useNativeAndroidPickerStyle={false}
+					/>
+				</>
+			) : null}
+		</>
+	);
+
 	const contentBody = (
 		<View style={styles.contentShell}>
 			<View style={[styles.header, { borderBottomColor: colors.border }]}> 
@@ -233,11 +746,8 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 								return (
 									<View key={polled.id ?? index} style={[styles.pollCard, { borderColor: colors.border, backgroundColor: colors.surfaceMuted }]}> 
 										<Text style={[styles.pollQuestion, { color: colors.text }]}>{polled.question}</Text>
-										{polled.options.map((option, optionIndex) => (
-											<Text key={`${polled.id}-${optionIndex}`} style={[styles.optionMeta, { color: colors.textMuted }]}> 
-												{`${option}: ${polled.votes[optionIndex]} votes (${calculatePercentage(polled.votes, optionIndex)}%)`}
-											</Text>
-										))}
+										{renderPollResults(polled)}
+										{renderRevealButton(polled)}
 										{polled.status === 'active' ? (
 											<Pressable
 												accessibilityRole="button"
@@ -289,22 +799,76 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 						/>
 						<RNPickerSelect
 							onValueChange={handlePollTypeChange}
-							items={[
-								{ label: 'True / False', value: 'trueFalse' },
-								{ label: 'Yes / No', value: 'yesNo' },
-								{ label: 'Custom', value: 'custom' },
-							]}
+							items={POLL_TYPES}
 							placeholder={{ label: 'Choose answer type', value: '' }}
 							style={pickerTheme}
 							value={newPoll.type}
 							useNativeAndroidPickerStyle={false}
 						/>
 						<View style={styles.createOptions}>{renderCreateOptions()}</View>
+						<Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Time limit</Text>
+						<RNPickerSelect
+							onValueChange={(value) => setNewPoll({ ...newPoll, duration: Number(value) || 0 })}
+							items={POLL_DURATIONS}
+							placeholder={{}}
+							style={pickerTheme}
+							value={newPoll.duration ?? 0}
+							useNativeAndroidPickerStyle={false}
+						/>
+						{(newPoll.duration ?? 0) > 0 ? (
+							<>
+								<Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Warn at (seconds left)</Text>
+								<TextInput
+									style={[
+										styles.input,
+										styles.warningsInput,
+										{
+											color: modalTheme.inputTextColor,
+											borderColor: modalTheme.borderColor,
+											backgroundColor: modalTheme.inputBackgroundColor,
+										},
+									]}
+									placeholder="60, 10"
+									placeholderTextColor={modalTheme.placeholderTextColor}
+									value={warningsText}
+									onChangeText={setWarningsText}
+								/>
+							</>
+						) : null}
+						<Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Results visible to</Text>
+						<RNPickerSelect
+							onValueChange={(value) => setNewPoll({ ...newPoll, resultsVisibility: value || 'everyone' })}
+							items={POLL_RESULTS_VISIBILITY}
+							placeholder={{}}
+							style={pickerTheme}
+							value={newPoll.resultsVisibility ?? 'everyone'}
+							useNativeAndroidPickerStyle={false}
+						/>
+						<Pressable
+							accessibilityRole="checkbox"
+							accessibilityState={{ checked: !!newPoll.anonymous }}
+							onPress={() => setNewPoll({ ...newPoll, anonymous: !newPoll.anonymous })}
+							style={styles.quizToggle}
+						>
+							<View
+								style={[
+									styles.checkboxOuter,
+									{
+										borderColor: newPoll.anonymous ? colors.accent : colors.border,
+										backgroundColor: newPoll.anonymous ? colors.accent : 'transparent',
+									},
+								]}
+							>
+								{newPoll.anonymous ? <FontAwesome5 name="check" size={10} color={colors.invertedText} /> : null}
+							</View>
+							<Text style={[styles.optionTitle, { color: colors.text }]}>Anonymous voting</Text>
+						</Pressable>
+						{canBeQuiz ? renderQuizFields() : null}
 						<Pressable
 							accessibilityRole="button"
 							accessibilityLabel="Create poll"
 							onPress={() => void handleCreatePoll({
-								poll: newPoll,
+								poll: getComposedPoll(),
 								socket,
 								roomName,
 								showAlert,
@@ -320,6 +884,138 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 						>
 							<Text style={[styles.primaryButtonText, { color: colors.invertedText }]}>Create Poll</Text>
 						</Pressable>
+						<View style={styles.draftButtons}>
+							{[
+								{ label: 'Save as Draft', asTemplate: false },
+								{ label: 'Save as Template', asTemplate: true },
+							].map(({ label, asTemplate }) => (
+								<Pressable
+									key={label}
+									accessibilityRole="button"
+									accessibilityLabel={label}
+									onPress={() => saveComposedPoll(asTemplate)}
+									style={({ pressed }) => [
+										styles.ghostButton,
+										styles.draftButton,
+										{ borderColor: colors.accent, backgroundColor: pressed ? colors.accentSoft : 'transparent' },
+									]}
+								>
+									<Text style={[styles.ghostButtonText, { color: colors.accent }]}>{label}</Text>
+								</Pressable>
+							))}
+						</View>
+					</View>
+				) : null}
+
+				{islevel === '2' ? (
+					<View style={[styles.panel, { backgroundColor: colors.surfaceStrong, borderColor: colors.border }]}>
+						<Text style={[styles.panelEyebrow, { color: colors.textMuted }]}>Queue</Text>
+						<Text style={[styles.panelTitle, { color: colors.text }]}>Prepared polls</Text>
+						{drafts.length === 0 ? (
+							<Text style={[styles.emptyStateText, { color: colors.textMuted }]}>No polls queued.</Text>
+						) : (
+							drafts.map((draft, index) =>
+								renderDraftRow(
+									draft.id,
+									`${index + 1}. ${draft.question}`,
+									{
+										label: 'Edit',
+										icon: 'pen',
+										onPress: () => {
+											loadIntoComposer(draft);
+											removeDraft(draft.id);
+										},
+									},
+									() => removeDraft(draft.id),
+								),
+							)
+						)}
+						{drafts.length > 0 ? (
+							<Pressable
+								accessibilityRole="button"
+								accessibilityLabel="Launch next poll"
+								onPress={launchNextDraft}
+								style={({ pressed }) => [
+									styles.primaryButton,
+									{
+										backgroundColor: pressed ? colors.accentAlt : colors.accent,
+										borderColor: pressed ? colors.accentAlt : colors.accent,
+									},
+								]}
+							>
+								<Text style={[styles.primaryButtonText, { color: colors.invertedText }]}>Launch Next Poll</Text>
+							</Pressable>
+						) : null}
+
+						<Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Templates</Text>
+						{templates.length === 0 ? (
+							<Text style={[styles.emptyStateText, { color: colors.textMuted }]}>No templates saved.</Text>
+						) : (
+							templates.map((template) =>
+								renderDraftRow(
+									template.id,
+									template.name,
+									{ label: 'Use', icon: 'file-import', onPress: () => loadIntoComposer(template) },
+									() => removeTemplate(template.id),
+								),
+							)
+						)}
+
+						<Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Import / Export</Text>
+						<TextInput
+							style={[
+								styles.textArea,
+								styles.pollSetInput,
+								{
+									color: modalTheme.inputTextColor,
+									borderColor: modalTheme.borderColor,
+									backgroundColor: modalTheme.inputBackgroundColor,
+								},
+							]}
+							multiline
+							autoCapitalize="none"
+							autoCorrect={false}
+							value={pollSetText}
+							onChangeText={setPollSetText}
+							placeholder="Paste a poll set (JSON)"
+							placeholderTextColor={modalTheme.placeholderTextColor}
+						/>
+						<View style={styles.draftButtons}>
+							<Pressable
+								accessibilityRole="button"
+								accessibilityLabel="Import polls"
+								disabled={!pollSetText.trim()}
+								onPress={importPollSet}
+								style={({ pressed }) => [
+									styles.ghostButton,
+									styles.draftButton,
+									{
+										borderColor: colors.accent,
+										backgroundColor: pressed ? colors.accentSoft : 'transparent',
+										opacity: pollSetText.trim() ? 1 : 0.5,
+									},
+								]}
+							>
+								<Text style={[styles.ghostButtonText, { color: colors.accent }]}>Import Polls</Text>
+							</Pressable>
+							<Pressable
+								accessibilityRole="button"
+								accessibilityLabel="Export queued polls"
+								disabled={drafts.length === 0}
+								onPress={() => void exportPollSet({ polls: drafts, roomName, showAlert })}
+								style={({ pressed }) => [
+									styles.ghostButton,
+									styles.draftButton,
+									{
+										borderColor: colors.accent,
+										backgroundColor: pressed ? colors.accentSoft : 'transparent',
+										opacity: drafts.length > 0 ? 1 : 0.5,
+									},
+								]}
+							>
+								<Text style={[styles.ghostButtonText, { color: colors.accent }]}>Export Queue</Text>
+							</Pressable>
+						</View>
 					</View>
 				) : null}
 
@@ -330,8 +1026,17 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 							<Text style={[styles.panelTitle, { color: colors.text }]}>Current poll</Text>
 						</View>
 						{poll?.status === 'active' ? (
-							<View style={[styles.badge, { backgroundColor: colors.accentSoft }]}> 
-								<Text style={[styles.badgeText, { color: colors.accent }]}>Active</Text>
+							<View
+								style={[
+									styles.badge,
+									{ backgroundColor: secondsLeft !== null && secondsLeft <= 10 ? 'rgba(239, 68, 68, 0.12)' : colors.accentSoft },
+								]}
+							>
+								<Text
+									style={[styles.badgeText, { color: secondsLeft !== null && secondsLeft <= 10 ? colors.danger : colors.accent }]}
+								>
+									{secondsLeft === null ? 'Active' : votingClosed ? 'Closed' : formatPollCountdown(secondsLeft)}
+								</Text>
 							</View>
 						) : null}
 					</View>
@@ -340,8 +1045,19 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 						<>
 							<View style={[styles.questionCard, { backgroundColor: colors.surfaceMuted, borderColor: colors.border }]}> 
 								<Text style={[styles.pollQuestion, { color: colors.text }]}>{poll.question}</Text>
+								{poll.anonymous ? (
+									<Text style={[styles.optionMeta, { color: colors.textMuted }]}>
+										Anonymous poll: votes are recorded without names.
+									</Text>
+								) : null}
+								{poll.quiz && islevel !== '2' ? (
+									<Text style={[styles.optionMeta, { color: colors.textMuted }]}>
+										Quiz question: the faster you answer correctly, the more points you score.
+									</Text>
+								) : null}
 							</View>
 							<View style={styles.voteOptions}>{renderCurrentPollOptions()}</View>
+							{renderRevealButton(poll)}
 							{islevel === '2' ? (
 								<Pressable
 									accessibilityRole="button"
@@ -369,6 +1085,51 @@ export const ModernPollModal: React.FC<ModernPollModalProps> = ({
 						<Text style={[styles.emptyStateText, { color: colors.textMuted }]}>No active poll.</Text>
 					)}
 				</View>
+
+				{currentQuizName ? (
+					<View style={[styles.panel, { backgroundColor: colors.surfaceStrong, borderColor: colors.border }]}>
+						<Text style={[styles.panelEyebrow, { color: colors.textMuted }]}>Leaderboard</Text>
+						<Text style={[styles.panelTitle, { color: colors.text }]}>{currentQuizName}</Text>
+						{standings.length === 0 ? (
+							<Text style={[styles.emptyStateText, { color: colors.textMuted }]}>No answers yet.</Text>
+						) : (
+							standings.slice(0, 10).map((standing) => (
+								<View
+									key={standing.member}
+									style={[
+										styles.standingRow,
+										{
+											borderColor: colors.border,
+											backgroundColor: standing.member === member ? colors.accentSoft : colors.surfaceMuted,
+										},
+									]}
+								>
+									<Text style={[styles.standingRank, { color: colors.accent }]}>{standing.rank}</Text>
+									<Text numberOfLines={1} style={[styles.standingName, { color: colors.text }]}>{standing.member}</Text>
+									<Text style={[styles.optionMeta, { color: colors.textMuted }]}>
+										{`${standing.score} pts · ${standing.correct}/${standing.answered}`}
+									</Text>
+								</View>
+							))
+						)}
+						{islevel === '2' && standings.length > 0 ? (
+							<Pressable
+								accessibilityRole="button"
+								accessibilityLabel="Export quiz standings"
+								onPress={() => void exportQuizStandings({ polls, quizName: currentQuizName, roomName, showAlert })}
+								style={({ pressed }) => [
+									styles.ghostButton,
+									{
+										borderColor: colors.accent,
+										backgroundColor: pressed ? colors.accentSoft : 'transparent',
+									},
+								]}
+							>
+								<Text style={[styles.ghostButtonText, { color: colors.accent }]}>Export Standings</Text>
+							</Pressable>
+						) : null}
+					</View>
+				) : null}
 			</ScrollView>
 		</View>
 	);
@@ -581,6 +1342,44 @@ const styles = StyleSheet.create({
 		justifyContent: 'space-between',
 		gap: 12,
 	} as any,
+	correctText: {
+		fontWeight: '800',
+	},
+	quizToggle: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 10,
+		marginTop: 14,
+	} as any,
+	standingRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 10,
+		borderWidth: 1,
+		borderRadius: 12,
+		paddingHorizontal: 12,
+		paddingVertical: 10,
+		marginTop: 8,
+	} as any,
+	standingRank: {
+		width: 22,
+		fontSize: 14,
+		fontWeight: '800',
+	},
+	standingName: {
+		flex: 1,
+		fontSize: 14,
+		fontWeight: '700',
+	},
+	fieldLabel: {
+		fontSize: 12,
+		fontWeight: '700',
+		marginTop: 14,
+		marginBottom: 6,
+	},
+	warningsInput: {
+		marginTop: 0,
+	},
 	badge: {
 		paddingHorizontal: 10,
 		paddingVertical: 6,
@@ -617,6 +1416,18 @@ const styles = StyleSheet.create({
 		alignItems: 'center',
 		justifyContent: 'center',
 	},
+	checkboxOuter: {
+		width: 20,
+		height: 20,
+		borderRadius: 5,
+		borderWidth: 1,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	rankText: {
+		fontSize: 11,
+		fontWeight: '800',
+	},
 	radioInner: {
 		width: 10,
 		height: 10,
@@ -626,6 +1437,50 @@ const styles = StyleSheet.create({
 		flex: 1,
 		gap: 2,
 	} as any,
+	linkText: {
+		fontSize: 13,
+		fontWeight: '700',
+	},
+	maxSelectionsRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		gap: 12,
+		marginTop: 10,
+	} as any,
+	maxSelectionsInput: {
+		width: 72,
+		marginTop: 0,
+		textAlign: 'center',
+	},
+	wordCloud: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		alignItems: 'center',
+		gap: 6,
+	} as any,
+	wordChip: {
+		borderRadius: 999,
+		paddingHorizontal: 10,
+		paddingVertical: 4,
+	},
+	wordChipText: {
+		fontWeight: '700',
+	},
+	draftText: {
+		flex: 1,
+	},
+	draftButtons: {
+		flexDirection: 'row',
+		gap: 10,
+	} as any,
+	draftButton: {
+		flex: 1,
+	},
+	pollSetInput: {
+		minHeight: 80,
+		marginBottom: 0,
+	},
 	ghostButton: {
 		minHeight: 42,
 		borderRadius: 12,
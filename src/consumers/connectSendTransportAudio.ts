@@ -1,5 +1,8 @@
 import { connectSendTransportAudio as sharedConnectSendTransportAudio } from 'mediasfu-shared';
 import { Transport, Producer, ProducerOptions } from 'mediasoup-client/lib/types';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('consumers');
 
 export interface ConnectSendTransportAudioParameters {
   audioProducer: Producer | null;
@@ -46,7 +49,7 @@ const connectLocalSendTransportAudio = async ({
       updateLocalProducerTransport?.(localProducerTransport);
     }
   } catch (error) {
-    console.error('Error connecting local audio transport:', error);
+    logger.error('Error connecting local audio transport:', error);
     throw error; // Re-throw to let the parent handle it
   }
 };
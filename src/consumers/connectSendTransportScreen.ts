@@ -3,6 +3,9 @@ import {
   Transport, Producer, Device, ProducerOptions,
 } from 'mediasoup-client/lib/types';
 import { MediaStream } from '../@types/types';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('consumers');
 
 export interface ConnectSendTransportScreenParameters {
   screenProducer: Producer | null;
@@ -62,7 +65,7 @@ const connectLocalSendTransportScreen = async ({
       updateLocalProducerTransport?.(localProducerTransport);
     }
   } catch (error) {
-    console.error('Error connecting local screen transport:', error);
+    logger.error('Error connecting local screen transport:', error);
     throw error; // Re-throw to propagate the error
   }
 };
@@ -2,6 +2,9 @@ import { connectSendTransportVideo as sharedConnectSendTransportVideo } from 'me
 import {
   Device, Producer, ProducerOptions, Transport,
 } from 'mediasoup-client/lib/types';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('consumers');
 
 export interface ConnectSendTransportVideoParameters {
   videoProducer: Producer | null;
@@ -49,7 +52,7 @@ const connectLocalSendTransportVideo = async ({
       updateLocalProducerTransport?.(localProducerTransport);
     }
   } catch (error) {
-    console.error('Error connecting local video transport:', error);
+    logger.error('Error connecting local video transport:', error);
     throw error; // Re-throw to propagate the error
   }
 };
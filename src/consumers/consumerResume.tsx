@@ -25,6 +25,9 @@ import {
   RTCView,
 } from '../methods/utils/webrtc/webrtc';
 import { Consumer } from 'mediasoup-client/lib/types';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('consumers');
 
 
 export interface ConsumerResumeParameters
@@ -661,7 +664,7 @@ export const consumerResume = async ({
       }
     }
   } catch (error) {
-    console.log('consumerResume error', error);
+    logger.error('consumerResume error', error);
     // throw error;
   }
 };
@@ -5,6 +5,9 @@ import {
   ConnectSendTransportParameters,
   ConnectSendTransportType,
 } from '../@types/types';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('consumers');
 
 export interface CreateSendTransportParameters extends ConnectSendTransportParameters {
   islevel: string;
@@ -64,7 +67,7 @@ const createLocalSendTransport = async ({
       { consumer: false, islevel },
       async ({ params }: { params: any }) => {
         if (params && params.error) {
-          console.error('Error in local createWebRtcTransport:', params.error);
+          logger.error('Error in local createWebRtcTransport:', params.error);
           return;
         }
 
@@ -114,7 +117,7 @@ const createLocalSendTransport = async ({
 
         localProducerTransport.on('connectionstatechange', (state: string) => {
           if (state === 'failed') {
-            console.error('Local transport connection failed.');
+            logger.error('Local transport connection failed.');
             if (localProducerTransport) {
               localProducerTransport.close();
             }
@@ -134,7 +137,7 @@ const createLocalSendTransport = async ({
       },
     );
   } catch (error) {
-    console.error('Error creating local send transport:', error);
+    logger.error('Error creating local send transport:', error);
   }
 };
 
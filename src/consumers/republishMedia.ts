@@ -0,0 +1,110 @@
+import {
+  ConnectSendTransportType,
+  CreateSendTransportParameters,
+  CreateSendTransportType,
+  SleepType,
+} from '../@types/types';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('consumers');
+
+export interface ActiveMediaSnapshot {
+  audio: boolean;
+  video: boolean;
+  screen: boolean;
+}
+
+export interface RepublishMediaParameters extends CreateSendTransportParameters {
+  audioAlreadyOn: boolean;
+  videoAlreadyOn: boolean;
+  shared: boolean;
+  transportCreated: boolean;
+
+  // mediasfu functions
+  createSendTransport: CreateSendTransportType;
+  connectSendTransport: ConnectSendTransportType;
+  sleep: SleepType;
+  getUpdatedAllParams: () => RepublishMediaParameters;
+  [key: string]: any;
+}
+
+export interface CaptureActiveMediaOptions {
+  parameters: Pick<RepublishMediaParameters, 'audioAlreadyOn' | 'videoAlreadyOn' | 'shared'>;
+}
+
+export interface RepublishMediaOptions {
+  activeMedia: ActiveMediaSnapshot;
+  parameters: RepublishMediaParameters;
+  transportTimeoutMs?: number;
+}
+
+// Export the type definition for the function
+export type CaptureActiveMediaType = (options: CaptureActiveMediaOptions) => ActiveMediaSnapshot;
+export type RepublishMediaType = (options: RepublishMediaOptions) => Promise<void>;
+
+/**
+ * Records which local media (mic, camera, screen) is currently being published.
+ *
+ * @param {CaptureActiveMediaOptions} options - The options for capturing the snapshot.
+ * @param {Object} options.parameters - The current media flags.
+ * @returns {ActiveMediaSnapshot} The active media snapshot.
+ *
+ * @example
+ * ```typescript
+ * const activeMedia = captureActiveMedia({ parameters: getAllParams() });
+ * ```
+ */
+export const captureActiveMedia = ({ parameters }: CaptureActiveMediaOptions): ActiveMediaSnapshot => ({
+  audio: !!parameters.audioAlreadyOn,
+  video: !!parameters.videoAlreadyOn,
+  screen: !!parameters.shared,
+});
+
+/**
+ * Recreates the send transport and produces every track captured in `activeMedia` again.
+ *
+ * The first kind creates the transport; the remaining kinds are connected once the
+ * transport reports as created.
+ *
+ * @param {RepublishMediaOptions} options - The options for republishing.
+ * @param {ActiveMediaSnapshot} options.activeMedia - The media that was live before the drop.
+ * @param {RepublishMediaParameters} options.parameters - The media state and mediasfu functions.
+ * @param {number} [options.transportTimeoutMs=5000] - Maximum wait for the send transport to be created.
+ * @returns {Promise<void>} A promise that resolves once all producers have been requested.
+ *
+ * @example
+ * ```typescript
+ * await republishMedia({
+ *   activeMedia: { audio: true, video: true, screen: false },
+ *   parameters: { ...getAllParams(), ...mediaSFUFunctions() },
+ * });
+ * ```
+ */
+export const republishMedia = async ({
+  activeMedia,
+  parameters,
+  transportTimeoutMs = 5000,
+}: RepublishMediaOptions): Promise<void> => {
+  const options = (['audio', 'video', 'screen'] as const).filter((kind) => activeMedia[kind]);
+
+  for (const option of options) {
+    let updatedParameters = parameters.getUpdatedAllParams();
+
+    try {
+      if (!updatedParameters.transportCreated) {
+        await updatedParameters.createSendTransport({ option, parameters: updatedParameters });
+
+        // the transport is created inside a socket acknowledgement, wait for it to land
+        let waited = 0;
+        while (!parameters.getUpdatedAllParams().transportCreated && waited < transportTimeoutMs) {
+          await updatedParameters.sleep({ ms: 100 });
+          waited += 100;
+        }
+      } else {
+        await updatedParameters.connectSendTransport({ option, parameters: updatedParameters });
+      }
+    } catch (error) {
+      logger.error(`Error republishing ${option}:`, error);
+    }
+  }
+};
@@ -0,0 +1,129 @@
+import { Producer, Transport } from 'mediasoup-client/lib/types';
+import { ConsumeSocket, Transport as TransportType } from '../@types/types';
+
+export interface ResetMediaTransportsParameters {
+  producerTransport: Transport | null;
+  localProducerTransport?: Transport | null;
+  audioProducer: Producer | null;
+  videoProducer: Producer | null;
+  screenProducer: Producer | null;
+  localAudioProducer?: Producer | null;
+  localVideoProducer?: Producer | null;
+  localScreenProducer?: Producer | null;
+  consumerTransports: TransportType[];
+  consume_sockets: ConsumeSocket[];
+  updateProducerTransport: (transport: Transport | null) => void;
+  updateLocalProducerTransport?: (transport: Transport | null) => void;
+  updateAudioProducer: (producer: Producer | null) => void;
+  updateVideoProducer: (producer: Producer | null) => void;
+  updateScreenProducer: (producer: Producer | null) => void;
+  updateLocalAudioProducer?: (producer: Producer | null) => void;
+  updateLocalVideoProducer?: (producer: Producer | null) => void;
+  updateLocalScreenProducer?: (producer: Producer | null) => void;
+  updateTransportCreated: (created: boolean) => void;
+  updateLocalTransportCreated?: (created: boolean) => void;
+  updateTransportCreatedAudio: (created: boolean) => void;
+  updateTransportCreatedVideo: (created: boolean) => void;
+  updateTransportCreatedScreen: (created: boolean) => void;
+  updateConsumerTransports: (transports: TransportType[]) => void;
+  updateConsumingTransports: (transportIds: string[]) => void;
+  updateConsume_sockets: (sockets: ConsumeSocket[]) => void;
+
+  // mediasfu functions
+  getUpdatedAllParams: () => ResetMediaTransportsParameters;
+  [key: string]: any;
+}
+
+export interface ResetMediaTransportsOptions {
+  parameters: ResetMediaTransportsParameters;
+}
+
+// Export the type definition for the function
+export type ResetMediaTransportsType = (options: ResetMediaTransportsOptions) => Promise<void>;
+
+const safelyClose = (closable?: { close: () => void } | null) => {
+  try {
+    closable?.close();
+  } catch {
+    // already closed
+  }
+};
+
+/**
+ * Tears down every producer, send transport, consumer transport and consume socket
+ * left over from a dropped connection so that the session can be rebuilt on a new socket.
+ *
+ * Local media tracks are left untouched so they can be republished after rejoining.
+ *
+ * @param {ResetMediaTransportsOptions} options - The options for resetting the transports.
+ * @param {ResetMediaTransportsParameters} options.parameters - The current media state and update functions.
+ * @returns {Promise<void>} A promise that resolves once the state has been cleared.
+ *
+ * @example
+ * ```typescript
+ * await resetMediaTransports({
+ *   parameters: {
+ *     ...getAllParams(),
+ *     ...mediaSFUFunctions(),
+ *   },
+ * });
+ * ```
+ */
+export const resetMediaTransports = async ({
+  parameters,
+}: ResetMediaTransportsOptions): Promise<void> => {
+  const {
+    producerTransport,
+    localProducerTransport,
+    audioProducer,
+    videoProducer,
+    screenProducer,
+    localAudioProducer,
+    localVideoProducer,
+    localScreenProducer,
+    consumerTransports,
+    consume_sockets,
+  } = parameters.getUpdatedAllParams();
+
+  [
+    audioProducer,
+    videoProducer,
+    screenProducer,
+    localAudioProducer,
+    localVideoProducer,
+    localScreenProducer,
+  ].forEach(safelyClose);
+  safelyClose(producerTransport);
+  safelyClose(localProducerTransport);
+
+  for (const transport of consumerTransports) {
+    safelyClose(transport.consumer);
+    safelyClose(transport.consumerTransport);
+  }
+
+  for (const consumeSocket of consume_sockets) {
+    try {
+      const ip = Object.keys(consumeSocket)[0];
+      consumeSocket[ip].disconnect();
+    } catch {
+      // socket already gone
+    }
+  }
+
+  parameters.updateAudioProducer(null);
+  parameters.updateVideoProducer(null);
+  parameters.updateScreenProducer(null);
+  parameters.updateLocalAudioProducer?.(null);
+  parameters.updateLocalVideoProducer?.(null);
+  parameters.updateLocalScreenProducer?.(null);
+  parameters.updateProducerTransport(null);
+  parameters.updateLocalProducerTransport?.(null);
+  parameters.updateTransportCreated(false);
+  parameters.updateLocalTransportCreated?.(false);
+  parameters.updateTransportCreatedAudio(false);
+  parameters.updateTransportCreatedVideo(false);
+  parameters.updateTransportCreatedScreen(false);
+  parameters.updateConsumerTransports([]);
+  parameters.updateConsumingTransports([]);
+  parameters.updateConsume_sockets([]);
+};
@@ -0,0 +1,179 @@
+import React, { createContext, useContext, useRef, useSyncExternalStore } from 'react';
+import {
+  BreakoutParticipant,
+  Message,
+  Participant,
+  Poll,
+} from '../@types/types';
+import {
+  initialMediasfuRoomState,
+  MediasfuRoomController,
+  MediasfuRoomState,
+} from '../controllers/mediasfuRoomController';
+
+export interface MediasfuRoomProviderProps {
+  controller: MediasfuRoomController;
+  children: React.ReactNode;
+}
+
+export interface MediasfuPollsValue {
+  polls: Poll[];
+  poll: Poll | null;
+  isPollModalVisible: boolean;
+}
+
+export interface MediasfuBreakoutRoomsValue {
+  breakoutRooms: BreakoutParticipant[][];
+  breakOutRoomStarted: boolean;
+  breakOutRoomEnded: boolean;
+  hostNewRoom: number;
+}
+
+export interface MediasfuRecordingStateValue {
+  recordStarted: boolean;
+  recordPaused: boolean;
+  recordResumed: boolean;
+  recordStopped: boolean;
+  recordState: string;
+  recordingProgressTime: string;
+}
+
+export interface MediasfuActiveSpeakerValue {
+  activeSpeaker: string | null;
+  activeSounds: string[];
+}
+
+const MediasfuRoomContext = createContext<MediasfuRoomController | null>(null);
+
+/**
+ * Makes a room controller available to the hooks below. The Mediasfu components render this
+ * provider around their UI (and around `customComponent`), so the hooks work anywhere inside them.
+ */
+export const MediasfuRoomProvider: React.FC<MediasfuRoomProviderProps> = ({
+  controller,
+  children,
+}) => {
+  return (
+    <MediasfuRoomContext.Provider value={controller}>
+      {children}
+    </MediasfuRoomContext.Provider>
+  );
+};
+
+export const useMediasfuRoomController = (): MediasfuRoomController | null => {
+  return useContext(MediasfuRoomContext);
+};
+
+/**
+ * Shallow comparison for selectors that return arrays or plain objects.
+ */
+export const shallowEqual = <T,>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  const keysA = Object.keys(a) as (keyof T)[];
+  const keysB = Object.keys(b) as (keyof T)[];
+  return keysA.length === keysB.length && keysA.every((key) => Object.is(a[key], b[key]));
+};
+
+const noopSubscribe = () => () => {};
+
+/**
+ * Reads a slice of the room state and re-renders only when that slice changes.
+ *
+ * @param {Function} selector - Picks the slice from the room state.
+ * @param {Function} [isEqual=Object.is] - Decides whether two slices are the same.
+ * @param {MediasfuRoomController} [controller] - Controller to read from instead of the provider's.
+ * @returns {T} The selected slice, or the slice of the initial state outside a provider.
+ *
+ * @example
+ * ```tsx
+ * const unreadBadge = useMediasfuRoomSelector((state) => state.showMessagesBadge);
+ * ```
+ */
+export const useMediasfuRoomSelector = <T,>(
+  selector: (state: MediasfuRoomState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+  controller?: MediasfuRoomController | null,
+): T => {
+  const contextController = useContext(MediasfuRoomContext);
+  const source = controller ?? contextController;
+  const cache = useRef<{ value: T } | null>(null);
+
+  const getSnapshot = (): T => {
+    const value = selector(source ? source.getState() : initialMediasfuRoomState);
+    if (cache.current && isEqual(cache.current.value, value)) {
+      return cache.current.value;
+    }
+    cache.current = { value };
+    return value;
+  };
+
+  return useSyncExternalStore(source ? source.subscribe : noopSubscribe, getSnapshot, getSnapshot);
+};
+
+export const useParticipants = (controller?: MediasfuRoomController | null): Participant[] => {
+  return useMediasfuRoomSelector((state) => state.participants, Object.is, controller);
+};
+
+export const useMessages = (controller?: MediasfuRoomController | null): Message[] => {
+  return useMediasfuRoomSelector((state) => state.messages, Object.is, controller);
+};
+
+export const usePolls = (controller?: MediasfuRoomController | null): MediasfuPollsValue => {
+  return useMediasfuRoomSelector(
+    (state) => ({
+      polls: state.polls,
+      poll: state.poll,
+      isPollModalVisible: state.isPollModalVisible,
+    }),
+    shallowEqual,
+    controller,
+  );
+};
+
+export const useBreakoutRooms = (controller?: MediasfuRoomController | null): MediasfuBreakoutRoomsValue => {
+  return useMediasfuRoomSelector(
+    (state) => ({
+      breakoutRooms: state.breakoutRooms,
+      breakOutRoomStarted: state.breakOutRoomStarted,
+      breakOutRoomEnded: state.breakOutRoomEnded,
+      hostNewRoom: state.hostNewRoom,
+    }),
+    shallowEqual,
+    controller,
+  );
+};
+
+export const useRecordingState = (controller?: MediasfuRoomController | null): MediasfuRecordingStateValue => {
+  return useMediasfuRoomSelector(
+    (state) => ({
+      recordStarted: state.recordStarted,
+      recordPaused: state.recordPaused,
+      recordResumed: state.recordResumed,
+      recordStopped: state.recordStopped,
+      recordState: state.recordState,
+      recordingProgressTime: state.recordingProgressTime,
+    }),
+    shallowEqual,
+    controller,
+  );
+};
+
+/**
+ * Follows who is speaking. `activeSpeaker` is the first participant in `activeSounds`, the list
+ * the room keeps of participants currently above the audio level threshold.
+ */
+export const useActiveSpeaker = (controller?: MediasfuRoomController | null): MediasfuActiveSpeakerValue => {
+  const activeSounds = useMediasfuRoomSelector((state) => state.activeSounds, shallowEqual, controller);
+  return {
+    activeSpeaker: activeSounds.length > 0 ? activeSounds[0] : null,
+    activeSounds,
+  };
+};
+
+export default MediasfuRoomContext;
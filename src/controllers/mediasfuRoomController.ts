@@ -0,0 +1,733 @@
+// Headless room controller: owns room state and actions without rendering any UI.
+import { Socket } from 'socket.io-client';
+import {
+  BreakoutParticipant,
+  BreakoutRoomUpdatedData,
+  ChatModerationSettings,
+  ChatReadState,
+  CoHostResponsibility,
+  EventType,
+  Message,
+  Participant,
+  Poll,
+  PollResponse,
+  PollUpdatedData,
+  ResponseJoinRoom,
+  ShowAlert,
+  Stream,
+  TypingEventData,
+} from '../@types/types';
+import {
+  ConnectionState,
+  ConnectionStateMachine,
+  createConnectionStateMachine,
+  watchSocketConnection,
+} from '../sockets/SocketManager';
+import { MediasfuSocket, ServerToClientEvents } from '../sockets/socketEvents';
+import { emitRoomEvent, MediasfuRoomEvents } from '../methods/utils/roomEvents';
+import { sendMessage } from '../methods/messageMethods/sendMessage';
+import { ChatOutbox, createChatOutbox } from '../methods/messageMethods/chatOutbox';
+import {
+  applyMessageReaction,
+  createReplyReference,
+  sendMessageReaction,
+} from '../methods/messageMethods/messageThreads';
+import {
+  applyMessageDeletion,
+  DEFAULT_CHAT_MODERATION,
+  isDeletionAllowed,
+  isChatModerationUpdateAllowed,
+} from '../methods/messageMethods/chatModeration';
+import {
+  createTypingNotifier,
+  createTypingTracker,
+  markThreadRead,
+} from '../methods/messageMethods/chatPresence';
+import { ChatTranscriptFormat, exportChatTranscript } from '../methods/messageMethods/chatTranscript';
+import {
+  addAttachmentData,
+  createAttachmentAssembler,
+  getAttachmentSizeLimit,
+  PickedAttachment,
+} from '../methods/messageMethods/chatAttachments';
+import { launchMessages } from '../methods/messageMethods/launchMessages';
+import { handleCreatePoll, HandleCreatePollOptions } from '../methods/pollsMethods/handleCreatePoll';
+import { handleVotePoll } from '../methods/pollsMethods/handleVotePoll';
+import { handleEndPoll } from '../methods/pollsMethods/handleEndPoll';
+import { handleRevealPollResults } from '../methods/pollsMethods/handleRevealPollResults';
+import { createPollTimer } from '../methods/pollsMethods/pollTimer';
+import { launchPoll } from '../methods/pollsMethods/launchPoll';
+import { pollUpdated } from '../methods/pollsMethods/pollUpdated';
+import { launchBreakoutRooms } from '../methods/breakoutRoomsMethods/launchBreakoutRooms';
+import { joinRoomClient } from '../ProducerClient/producerClientEmits/joinRoomClient';
+import { clickAudio, ClickAudioParameters } from '../methods/streamMethods/clickAudio';
+import { clickVideo, ClickVideoParameters } from '../methods/streamMethods/clickVideo';
+import { clickScreenShare, ClickScreenShareParameters } from '../methods/streamMethods/clickScreenShare';
+import { receiveMessage } from '../producers/socketReceiveMethods/receiveMessage';
+import { personJoined } from '../producers/socketReceiveMethods/personJoined';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('room');
+
+export interface MediasfuRoomState {
+  // session
+  roomName: string;
+  member: string;
+  islevel: string;
+  coHost: string;
+  coHostResponsibility: CoHostResponsibility[];
+  eventType: EventType;
+  chatSetting: string;
+  socket: MediasfuSocket | null;
+  connectionState: ConnectionState;
+
+  // participants and streams
+  participants: Participant[];
+  participantsAll: Participant[];
+  allVideoStreams: (Participant | Stream)[];
+  allAudioStreams: (Participant | Stream)[];
+  activeSounds: string[];
+  audioAlreadyOn: boolean;
+  videoAlreadyOn: boolean;
+  screenAlreadyOn: boolean;
+
+  // chat
+  messages: Message[];
+  showMessagesBadge: boolean;
+  isMessagesModalVisible: boolean;
+  chatReadState: ChatReadState; // When the local member last read each conversation.
+  typingMembers: TypingEventData[];
+  attachmentData: { [attachmentId: string]: string }; // Chat attachments sent and received, as data URIs.
+  chatModeration: ChatModerationSettings; // Blocked words and slow mode of the room.
+
+  // polls
+  polls: Poll[];
+  poll: Poll | null;
+  isPollModalVisible: boolean;
+
+  // recording
+  recordStarted: boolean;
+  recordPaused: boolean;
+  recordResumed: boolean;
+  recordStopped: boolean;
+  recordState: string;
+  recordingProgressTime: string;
+
+  // breakout rooms
+  breakoutRooms: BreakoutParticipant[][];
+  breakOutRoomStarted: boolean;
+  breakOutRoomEnded: boolean;
+  hostNewRoom: number;
+  isBreakoutRoomsModalVisible: boolean;
+
+  // anything else the media methods read (device, transports, producers...)
+  [key: string]: any;
+}
+
+export type MediasfuRoomStateListener = (state: MediasfuRoomState, previousState: MediasfuRoomState) => void;
+
+export type MediasfuRoomStateUpdate =
+  | Partial<MediasfuRoomState>
+  | ((state: MediasfuRoomState) => Partial<MediasfuRoomState>);
+
+// The state with an `update<Key>` setter for every key, in the shape the media methods read.
+export type MediasfuRoomParameters = ClickAudioParameters &
+  ClickVideoParameters &
+  ClickScreenShareParameters & { [key: string]: any };
+
+export interface CreateMediasfuRoomControllerOptions {
+  initialState?: Partial<MediasfuRoomState>;
+  functions?: { [key: string]: any };
+  events?: MediasfuRoomEvents;
+  showAlert?: ShowAlert;
+  connectionStateMachine?: ConnectionStateMachine;
+}
+
+export interface MediasfuRoomController {
+  // state and subscriptions
+  getState: () => MediasfuRoomState;
+  setState: (update: MediasfuRoomStateUpdate) => void;
+  subscribe: (listener: MediasfuRoomStateListener) => () => void;
+  select: <T>(
+    selector: (state: MediasfuRoomState) => T,
+    listener: (value: T, previousValue: T) => void,
+    isEqual?: (a: T, b: T) => boolean,
+  ) => () => void;
+  getParameters: () => MediasfuRoomParameters;
+  syncParameters: (parameters: { [key: string]: any }) => void;
+  connectionStateMachine: ConnectionStateMachine;
+  chatOutbox: ChatOutbox;
+
+  // socket
+  bindSocket: (socket: MediasfuSocket) => () => void;
+  unbindSocket: () => void;
+
+  // actions
+  joinRoom: (options: { sec: string; apiUserName: string }) => Promise<ResponseJoinRoom | null>;
+  clickAudio: () => Promise<void>;
+  clickVideo: () => Promise<void>;
+  clickScreenShare: () => Promise<void>;
+  sendMessage: (options: {
+    message: string;
+    receivers?: string[];
+    group?: boolean;
+    replyTo?: Message;
+    attachment?: PickedAttachment;
+  }) => Promise<boolean>;
+  reactToMessage: (options: { message: Message; emoji: string }) => void;
+  markThreadRead: (options: { threadKey: string }) => void;
+  notifyTyping: (options: { group: boolean; receivers: string[]; isTyping: boolean }) => void;
+  exportChatTranscript: (options: { format: ChatTranscriptFormat }) => Promise<void>;
+  launchMessages: () => void;
+  handleCreatePoll: (options: { poll: HandleCreatePollOptions['poll'] }) => Promise<boolean>;
+  handleVotePoll: (options: { pollId: string; optionIndex: number; response?: PollResponse }) => Promise<void>;
+  handleEndPoll: (options: { pollId: string }) => Promise<void>;
+  handleRevealPollResults: (options: { pollId: string }) => Promise<void>;
+  launchPoll: () => void;
+  launchBreakoutRooms: () => void;
+  destroy: () => void;
+}
+
+// Export the type definition for the function
+export type CreateMediasfuRoomControllerType = (options?: CreateMediasfuRoomControllerOptions) => MediasfuRoomController;
+
+export const initialMediasfuRoomState: MediasfuRoomState = {
+  roomName: '',
+  member: '',
+  islevel: '1',
+  coHost: 'No coHost',
+  coHostResponsibility: [],
+  eventType: 'conference',
+  chatSetting: 'allow',
+  socket: null,
+  connectionState: 'idle',
+
+  participants: [],
+  participantsAll: [],
+  allVideoStreams: [],
+  allAudioStreams: [],
+  activeSounds: [],
+  audioAlreadyOn: false,
+  videoAlreadyOn: false,
+  screenAlreadyOn: false,
+
+  messages: [],
+  showMessagesBadge: false,
+  isMessagesModalVisible: false,
+  chatReadState: {},
+  typingMembers: [],
+  attachmentData: {},
+  chatModeration: DEFAULT_CHAT_MODERATION,
+
+  polls: [],
+  poll: null,
+  isPollModalVisible: false,
+
+  recordStarted: false,
+  recordPaused: false,
+  recordResumed: false,
+  recordStopped: false,
+  recordState: 'green',
+  recordingProgressTime: '00:00:00',
+
+  breakoutRooms: [],
+  breakOutRoomStarted: false,
+  breakOutRoomEnded: false,
+  hostNewRoom: -1,
+  isBreakoutRoomsModalVisible: false,
+};
+
+const updaterName = (key: string) => `update${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+
+/**
+ * Creates a headless room controller that owns the room state (participants, streams, messages,
+ * polls, recording, breakout rooms), exposes the room actions and lets any UI, or a unit test,
+ * subscribe to changes without rendering React Native.
+ *
+ * `getParameters()` returns the state together with an `update<Key>` setter for every key and
+ * `getUpdatedAllParams`, the same shape the Mediasfu components pass to the media methods, so
+ * every method in this package can be driven from the controller. Media actions
+ * (`clickAudio`, `clickVideo`, `clickScreenShare`) also need the device, transports and media
+ * helpers; provide them through `initialState`, `setState` or `functions`.
+ *
+ * After `bindSocket`, `joinRoom` joins the room on the bound socket; the connection state only
+ * moves to `connected` once the server acknowledges the join.
+ *
+ * The controller can also mirror a mounted Mediasfu component: pass
+ * `updateSourceParameters={controller.syncParameters}` and the component pushes its state in.
+ *
+ * @param {CreateMediasfuRoomControllerOptions} [options] - The options for the controller.
+ * @param {Partial<MediasfuRoomState>} [options.initialState] - Initial values merged over the defaults.
+ * @param {Object} [options.functions] - Extra functions merged into `getParameters()`.
+ * @param {MediasfuRoomEvents} [options.events] - Lifecycle callbacks raised by the socket handlers.
+ * @param {ShowAlert} [options.showAlert] - Function to show alert messages.
+ * @param {ConnectionStateMachine} [options.connectionStateMachine] - Machine to report the connection state to.
+ * @returns {MediasfuRoomController} The room controller.
+ *
+ * @example
+ * ```typescript
+ * const controller = createMediasfuRoomController({
+ *   initialState: { roomName: 's12345678', member: 'alice', islevel: '1' },
+ * });
+ * controller.select((state) => state.messages, (messages) => render(messages));
+ * controller.bindSocket(socket);
+ * await controller.joinRoom({ sec, apiUserName });
+ * await controller.sendMessage({ message: 'Hello everyone' });
+ * ```
+ */
+export const createMediasfuRoomController: CreateMediasfuRoomControllerType = ({
+  initialState = {},
+  functions = {},
+  events,
+  showAlert,
+  connectionStateMachine = createConnectionStateMachine(),
+} = {}) => {
+  let state: MediasfuRoomState = { ...initialMediasfuRoomState, ...initialState };
+  const listeners = new Set<MediasfuRoomStateListener>();
+  let unbindCurrentSocket: (() => void) | null = null;
+
+  const getState = () => state;
+
+  const setState = (update: MediasfuRoomStateUpdate) => {
+    const changes = typeof update === 'function' ? update(state) : update;
+    const changed = Object.keys(changes).some((key) => !Object.is(state[key], changes[key]));
+    if (!changed) {
+      return;
+    }
+
+    const previousState = state;
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => {
+      try {
+        listener(state, previousState);
+      } catch (error) {
+        logger.error('error room state listener', error);
+      }
+    });
+  };
+
+  const subscribe = (listener: MediasfuRoomStateListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const select: MediasfuRoomController['select'] = (selector, listener, isEqual = Object.is) =>
+    subscribe((next, previous) => {
+      const value = selector(next);
+      const previousValue = selector(previous);
+      if (!isEqual(value, previousValue)) {
+        listener(value, previousValue);
+      }
+    });
+
+  const getParameters = (): MediasfuRoomParameters => {
+    const parameters: { [key: string]: any } = { ...functions, ...state, showAlert };
+    Object.keys(state).forEach((key) => {
+      parameters[updaterName(key)] = (value: any) => setState({ [key]: value });
+    });
+    parameters.getUpdatedAllParams = getParameters;
+    // the keys are only known at runtime: whatever the media methods need must be in the state or functions
+    return parameters as MediasfuRoomParameters;
+  };
+
+  const syncParameters = (parameters: { [key: string]: any }) => {
+    const changes: Partial<MediasfuRoomState> = {};
+    Object.keys(parameters).forEach((key) => {
+      if (typeof parameters[key] !== 'function') {
+        changes[key] = parameters[key];
+      }
+    });
+    setState(changes);
+  };
+
+  const chatOutbox = createChatOutbox({
+    getMessages: () => state.messages,
+    updateMessages: (messages) => setState({ messages }),
+  });
+
+  const typingTracker = createTypingTracker({
+    onChange: (typingMembers) => setState({ typingMembers }),
+  });
+  const typingNotifier = createTypingNotifier();
+  const updateAttachmentData = (attachmentId: string, data: string) =>
+    setState({ attachmentData: addAttachmentData({ attachmentData: state.attachmentData, attachmentId, data }) });
+  const attachmentAssembler = createAttachmentAssembler({
+    onComplete: updateAttachmentData,
+    getMaxSize: () => getAttachmentSizeLimit(state.roomName),
+  });
+  const pollTimer = createPollTimer({
+    onWarning: (secondsLeft) =>
+      showAlert?.({ message: `The poll closes in ${secondsLeft} seconds`, type: 'success' }),
+    onExpire: (expiredPoll) => {
+      if (state.islevel === '2' && state.socket) {
+        handleEndPoll({
+          pollId: expiredPoll.id,
+          socket: state.socket,
+          showAlert,
+          roomName: state.roomName,
+          updateIsPollModalVisible: getParameters().updateIsPollModalVisible,
+        });
+      }
+    },
+  });
+
+  const unsubscribeConnectionState = connectionStateMachine.subscribe(({ state: connectionState }) => {
+    setState({ connectionState });
+  });
+
+  const unbindSocket = () => {
+    if (unbindCurrentSocket) {
+      unbindCurrentSocket();
+      unbindCurrentSocket = null;
+    }
+  };
+
+  const bindSocket = (socket: MediasfuSocket) => {
+    unbindSocket();
+    setState({ socket });
+
+    const handlers: { [E in keyof ServerToClientEvents]?: ServerToClientEvents[E] } = {
+      allMembers: ({ members, coHost, coHostResponsibilities }) => {
+        const participants = members.filter((participant) => !participant.isBanned);
+        setState({
+          participants,
+          participantsAll: participants,
+          coHost: coHost ?? state.coHost,
+          coHostResponsibility: coHostResponsibilities ?? state.coHostResponsibility,
+        });
+      },
+      allMembersRest: ({ members, coHost, coHostResponsibilities }) => {
+        const participants = members.filter((participant) => !participant.isBanned);
+        setState({
+          participants,
+          participantsAll: participants,
+          coHost: coHost ?? state.coHost,
+          coHostResponsibility: coHostResponsibilities ?? state.coHostResponsibility,
+        });
+      },
+      personJoined: async ({ name }) => {
+        await personJoined({ name, showAlert });
+        emitRoomEvent({ events, event: 'onParticipantJoined', payload: { name } });
+      },
+      receiveMessage: async ({ message }) => {
+        if (chatOutbox.acknowledge(message)) {
+          return;
+        }
+        if (message.attachment) {
+          attachmentAssembler.expect(message.attachment.id);
+        }
+        typingTracker.stopTyping(message.sender);
+        const parameters = getParameters();
+        await receiveMessage({
+          message,
+          messages: state.messages,
+          participantsAll: state.participantsAll,
+          member: state.member,
+          eventType: state.eventType,
+          islevel: state.islevel,
+          coHost: state.coHost,
+          updateMessages: parameters.updateMessages,
+          updateShowMessagesBadge: parameters.updateShowMessagesBadge,
+          chatModeration: state.chatModeration,
+          showAlert,
+        });
+        emitRoomEvent({ events, event: 'onMessageReceived', payload: { message } });
+      },
+      messageReaction: (data) => {
+        setState({ messages: applyMessageReaction({ messages: state.messages, data }) });
+      },
+      messageDeleted: (data) => {
+        const { participants, coHost, coHostResponsibility } = state;
+        if (isDeletionAllowed({ data, participants, coHost, coHostResponsibility })) {
+          setState({ messages: applyMessageDeletion({ messages: state.messages, data }) });
+        }
+      },
+      userTyping: (data) => {
+        if (data.member !== state.member) {
+          typingTracker.handle(data);
+        }
+      },
+      attachmentChunk: (data) => attachmentAssembler.handle(data),
+      chatModerationUpdated: (data) => {
+        const { participants, coHost, coHostResponsibility } = state;
+        if (isChatModerationUpdateAllowed({ data, participants, coHost, coHostResponsibility })) {
+          setState({ chatModeration: { ...DEFAULT_CHAT_MODERATION, ...data.settings } });
+        }
+      },
+      pollUpdated: async (data: PollUpdatedData) => {
+        const parameters = getParameters();
+        await pollUpdated({
+          data,
+          polls: state.polls,
+          poll: state.poll,
+          member: state.member,
+          islevel: state.islevel,
+          youAreCoHost: state.coHost === state.member,
+          showAlert,
+          updatePolls: parameters.updatePolls,
+          updatePoll: parameters.updatePoll,
+          updateIsPollModalVisible: parameters.updateIsPollModalVisible,
+        });
+        pollTimer.sync(data.status === 'ended' ? null : state.poll);
+
+        emitRoomEvent({ events, event: 'onPollUpdated', payload: data });
+        if (data.status === 'started') {
+          emitRoomEvent({ events, event: 'onPollStarted', payload: { poll: data.poll } });
+        } else if (data.status === 'ended') {
+          emitRoomEvent({ events, event: 'onPollEnded', payload: { poll: data.poll } });
+        }
+      },
+      breakoutRoomUpdated: (data: BreakoutRoomUpdatedData) => {
+        if (data.forHost) {
+          setState({ hostNewRoom: data.newRoom ?? -1 });
+        } else if (data.status === 'ended') {
+          setState({ breakoutRooms: [], breakOutRoomStarted: false, breakOutRoomEnded: true });
+        } else {
+          setState({
+            breakoutRooms: data.breakoutRooms ?? state.breakoutRooms,
+            breakOutRoomStarted: true,
+            breakOutRoomEnded: false,
+          });
+        }
+        if (data.members) {
+          setState({ participantsAll: data.members });
+        }
+
+        emitRoomEvent({ events, event: 'onBreakoutRoomsUpdated', payload: data });
+        if (data.status === 'started') {
+          emitRoomEvent({ events, event: 'onBreakoutStarted', payload: data });
+        } else if (data.status === 'ended') {
+          emitRoomEvent({ events, event: 'onBreakoutEnded', payload: data });
+        }
+      },
+      RecordingNotice: ({ state: recordingState }) => {
+        const wasRecording = state.recordStarted && !state.recordPaused && !state.recordStopped;
+        if (recordingState === 'recording') {
+          setState({
+            recordStarted: true,
+            recordResumed: state.recordPaused,
+            recordPaused: false,
+            recordStopped: false,
+          });
+        } else if (recordingState === 'pause') {
+          setState({ recordStarted: true, recordPaused: true, recordResumed: false });
+        } else if (recordingState === 'stop') {
+          setState({ recordPaused: false, recordResumed: false, recordStopped: true });
+        }
+
+        emitRoomEvent({ events, event: 'onRecordingStateChanged', payload: { state: recordingState } });
+        if (recordingState === 'recording' && !wasRecording) {
+          emitRoomEvent({ events, event: 'onRecordingStarted' });
+        } else if (recordingState === 'stop') {
+          emitRoomEvent({ events, event: 'onRecordingStopped', payload: {} });
+        }
+      },
+      stoppedRecording: ({ state: recordingState, reason }) => {
+        setState({ recordPaused: false, recordResumed: false, recordStopped: true });
+        emitRoomEvent({ events, event: 'onRecordingStateChanged', payload: { state: recordingState, reason } });
+        emitRoomEvent({ events, event: 'onRecordingStopped', payload: { reason } });
+      },
+      meetingEnded: () => {
+        connectionStateMachine.transition('closed', { reason: 'meetingEnded' });
+        emitRoomEvent({ events, event: 'onMeetingEnded' });
+      },
+    };
+
+    // the handlers are checked against their events above; socket.io cannot match a listener to an
+    // event name only known at runtime, so they are bound through the untyped socket
+    const untypedSocket: Socket = socket;
+    const eventNames = Object.keys(handlers) as (keyof ServerToClientEvents)[];
+    eventNames.forEach((event) => {
+      const handler = handlers[event];
+      if (handler) {
+        untypedSocket.on<string>(event, handler);
+      }
+    });
+    // the connection only counts as `connected` once `joinRoom` is acknowledged
+    const onConnect = () => {
+      chatOutbox.flush({ socket, roomName: state.roomName });
+    };
+    socket.on('connect', onConnect);
+    const stopWatching = watchSocketConnection({ socket, machine: connectionStateMachine });
+    if (socket.connected) {
+      onConnect();
+    }
+
+    unbindCurrentSocket = () => {
+      eventNames.forEach((event) => {
+        untypedSocket.off<string>(event, handlers[event]);
+      });
+      socket.off('connect', onConnect);
+      stopWatching();
+    };
+    return unbindSocket;
+  };
+
+  return {
+    getState,
+    setState,
+    subscribe,
+    select,
+    getParameters,
+    syncParameters,
+    connectionStateMachine,
+    chatOutbox,
+
+    bindSocket,
+    unbindSocket,
+
+    joinRoom: async ({ sec, apiUserName }) => {
+      let response: ResponseJoinRoom | null = null;
+      try {
+        response = await joinRoomClient({
+          socket: state.socket!,
+          roomName: state.roomName,
+          islevel: state.islevel,
+          member: state.member,
+          sec,
+          apiUserName,
+        });
+      } catch (error) {
+        logger.error('error joinRoom', error);
+      }
+
+      if (!response?.success) {
+        connectionStateMachine.transition('closed', { reason: response?.reason || 'Unable to join the room.' });
+        return null;
+      }
+      connectionStateMachine.transition('connected');
+      return response;
+    },
+    clickAudio: () => clickAudio({ parameters: getParameters() }),
+    clickVideo: () => clickVideo({ parameters: getParameters() }),
+    clickScreenShare: () => clickScreenShare({ parameters: getParameters() }),
+    sendMessage: ({ message, receivers = [], group = true, replyTo, attachment }) =>
+      sendMessage({
+        message,
+        receivers,
+        group,
+        messagesLength: state.messages.length,
+        member: state.member,
+        sender: state.member,
+        islevel: state.islevel,
+        showAlert,
+        coHostResponsibility: state.coHostResponsibility,
+        coHost: state.coHost,
+        chatSetting: state.chatSetting,
+        roomName: state.roomName,
+        socket: state.socket!,
+        outbox: chatOutbox,
+        replyTo: replyTo ? createReplyReference(replyTo) : undefined,
+        chatModeration: state.chatModeration,
+        messages: state.messages,
+        attachment: attachment?.attachment,
+        attachmentData: attachment?.data,
+        updateAttachmentData,
+      }),
+    reactToMessage: ({ message, emoji }) => {
+      if (!state.socket) {
+        return;
+      }
+      const data = sendMessageReaction({
+        socket: state.socket,
+        roomName: state.roomName,
+        member: state.member,
+        message,
+        emoji,
+      });
+      setState({ messages: applyMessageReaction({ messages: state.messages, data }) });
+    },
+    markThreadRead: ({ threadKey }) =>
+      setState({
+        chatReadState: markThreadRead({
+          readState: state.chatReadState,
+          threadKey,
+          messages: state.messages,
+          member: state.member,
+        }),
+      }),
+    notifyTyping: ({ isTyping, ...options }) => {
+      if (!state.socket) {
+        return;
+      }
+      const typing = { ...options, socket: state.socket, roomName: state.roomName, member: state.member };
+      if (isTyping) {
+        typingNotifier.notify(typing);
+      } else {
+        typingNotifier.stop(typing);
+      }
+    },
+    exportChatTranscript: ({ format }) =>
+      exportChatTranscript({
+        messages: state.messages,
+        format,
+        roomName: state.roomName,
+        member: state.member,
+        islevel: state.islevel,
+        coHost: state.coHost,
+        coHostResponsibility: state.coHostResponsibility,
+        showAlert,
+      }),
+    launchMessages: () =>
+      launchMessages({
+        updateIsMessagesModalVisible: getParameters().updateIsMessagesModalVisible,
+        isMessagesModalVisible: state.isMessagesModalVisible,
+      }),
+    handleCreatePoll: ({ poll }) =>
+      handleCreatePoll({
+        poll,
+        socket: state.socket!,
+        roomName: state.roomName,
+        showAlert,
+        updateIsPollModalVisible: getParameters().updateIsPollModalVisible,
+      }),
+    handleVotePoll: ({ pollId, optionIndex, response }) =>
+      handleVotePoll({
+        pollId,
+        optionIndex,
+        poll: state.poll?.id === pollId ? state.poll : state.polls.find((item) => item.id === pollId),
+        response,
+        socket: state.socket!,
+        showAlert,
+        member: state.member,
+        roomName: state.roomName,
+        updateIsPollModalVisible: getParameters().updateIsPollModalVisible,
+      }),
+    handleEndPoll: ({ pollId }) =>
+      handleEndPoll({
+        pollId,
+        socket: state.socket!,
+        showAlert,
+        roomName: state.roomName,
+        updateIsPollModalVisible: getParameters().updateIsPollModalVisible,
+      }),
+    handleRevealPollResults: ({ pollId }) =>
+      handleRevealPollResults({
+        pollId,
+        socket: state.socket!,
+        showAlert,
+        roomName: state.roomName,
+      }),
+    launchPoll: () =>
+      launchPoll({
+        updateIsPollModalVisible: getParameters().updateIsPollModalVisible,
+        isPollModalVisible: state.isPollModalVisible,
+      }),
+    launchBreakoutRooms: () =>
+      launchBreakoutRooms({
+        updateIsBreakoutRoomsModalVisible: getParameters().updateIsBreakoutRoomsModalVisible,
+        isBreakoutRoomsModalVisible: state.isBreakoutRoomsModalVisible,
+      }),
+    destroy: () => {
+      unbindSocket();
+      unsubscribeConnectionState();
+      chatOutbox.clear();
+      typingTracker.clear();
+      attachmentAssembler.clear();
+      pollTimer.clear();
+      listeners.clear();
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import {
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionStateMachine,
+} from '../sockets/SocketManager';
+
+export interface MediasfuConnectionValue {
+  state: ConnectionState;
+  lastChange: ConnectionStateChange | null;
+  attempt: number;
+  isConnected: boolean;
+  isReconnecting: boolean;
+  isClosed: boolean;
+}
+
+export type UseMediasfuConnectionType = (
+  machine?: ConnectionStateMachine | null,
+) => MediasfuConnectionValue;
+
+/**
+ * Subscribes a component to a connection state machine and re-renders it on every transition.
+ *
+ * Pass the machine given to the `connectionStateMachine` prop of a Mediasfu component (or
+ * `parameters.connectionStateMachine` inside a custom component) to render banners, retry
+ * indicators or analytics from the same state the room uses.
+ *
+ * @param {ConnectionStateMachine | null} [machine] - The machine to follow.
+ * @returns {MediasfuConnectionValue} The current connection state and derived flags.
+ *
+ * @example
+ * ```tsx
+ * const machine = useMemo(() => createConnectionStateMachine(), []);
+ * const { state, attempt, isReconnecting } = useMediasfuConnection(machine);
+ *
+ * return (
+ *   <>
+ *     {isReconnecting && <Text>Reconnecting (attempt {attempt})…</Text>}
+ *     <MediasfuGeneric connectionStateMachine={machine} />
+ *   </>
+ * );
+ * ```
+ */
+export const useMediasfuConnection: UseMediasfuConnectionType = (machine) => {
+  const [lastChange, setLastChange] = useState<ConnectionStateChange | null>(
+    machine ? machine.getLastChange() : null,
+  );
+
+  useEffect(() => {
+    if (!machine) {
+      return undefined;
+    }
+    setLastChange(machine.getLastChange());
+    return machine.subscribe(setLastChange);
+  }, [machine]);
+
+  const state: ConnectionState = lastChange?.state ?? machine?.getState() ?? 'idle';
+
+  return {
+    state,
+    lastChange,
+    attempt: state === 'reconnecting' ? lastChange?.attempt ?? 0 : 0,
+    isConnected: state === 'connected' || state === 'degraded',
+    isReconnecting: state === 'reconnecting',
+    isClosed: state === 'closed',
+  };
+};
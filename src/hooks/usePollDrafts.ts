@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MediasfuStorage } from '../methods/utils/storage/mediasfuStorage';
+import {
+  createPollDraftId,
+  createPollDraftStore,
+  PollDraft,
+  PollDraftContent,
+  PollTemplate,
+  toPollDraftContent,
+} from '../methods/pollsMethods/pollDrafts';
+
+export interface UsePollDraftsOptions {
+  storage?: MediasfuStorage | null;
+  roomName: string;
+  enabled?: boolean;
+}
+
+export interface PollDraftsValue {
+  drafts: PollDraft[];
+  templates: PollTemplate[];
+  addDrafts: (polls: PollDraftContent[]) => void;
+  removeDraft: (id: string) => void;
+  addTemplate: (poll: PollDraftContent) => void;
+  removeTemplate: (id: string) => void;
+}
+
+export type UsePollDraftsType = (options: UsePollDraftsOptions) => PollDraftsValue;
+
+/**
+ * Keeps the queue of draft polls of a room and the saved poll templates, reading them from
+ * storage when enabled and writing every change back.
+ *
+ * @param {UsePollDraftsOptions} options - The options for the drafts.
+ * @param {MediasfuStorage} [options.storage] - Where the polls are kept; the default MediaSFU storage when not set.
+ * @param {string} options.roomName - The room whose queue is used.
+ * @param {boolean} [options.enabled=true] - Whether to read the polls; pass `false` for members who cannot launch polls.
+ * @returns {PollDraftsValue} The drafts, the templates and the functions that change them.
+ *
+ * @example
+ * ```tsx
+ * const { drafts, removeDraft } = usePollDrafts({ storage, roomName, enabled: islevel === '2' });
+ *
+ * const launchNext = async () => {
+ *   const [next] = drafts;
+ *   if (!next) {
+ *     return;
+ *   }
+ *   const poll = toPollDraftContent(next);
+ *   // the draft stays queued until the server has created the poll
+ *   if (await handleCreatePoll({ poll, socket, roomName, showAlert, updateIsPollModalVisible })) {
+ *     removeDraft(next.id);
+ *   }
+ * };
+ * ```
+ */
+export const usePollDrafts: UsePollDraftsType = ({ storage, roomName, enabled = true }) => {
+  const store = useMemo(() => createPollDraftStore({ storage }), [storage]);
+  const [drafts, setDrafts] = useState<PollDraft[]>([]);
+  const [templates, setTemplates] = useState<PollTemplate[]>([]);
+  const draftsRef = useRef<PollDraft[]>([]);
+  const templatesRef = useRef<PollTemplate[]>([]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let cancelled = false;
+    Promise.all([store.loadDrafts(roomName), store.loadTemplates()]).then(([storedDrafts, storedTemplates]) => {
+      if (!cancelled) {
+        draftsRef.current = storedDrafts;
+        templatesRef.current = storedTemplates;
+        setDrafts(storedDrafts);
+        setTemplates(storedTemplates);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [store, roomName, enabled]);
+
+  const updateDrafts = useCallback(
+    (value: PollDraft[]) => {
+      draftsRef.current = value;
+      setDrafts(value);
+      store.saveDrafts(roomName, value);
+    },
+    [store, roomName],
+  );
+
+  const updateTemplates = useCallback(
+    (value: PollTemplate[]) => {
+      templatesRef.current = value;
+      setTemplates(value);
+      store.saveTemplates(value);
+    },
+    [store],
+  );
+
+  const addDrafts = useCallback<PollDraftsValue['addDrafts']>(
+    (polls) =>
+      updateDrafts([
+        ...draftsRef.current,
+        ...polls.map((poll) => ({ ...toPollDraftContent(poll), id: createPollDraftId() })),
+      ]),
+    [updateDrafts],
+  );
+
+  const removeDraft = useCallback<PollDraftsValue['removeDraft']>(
+    (id) => updateDrafts(draftsRef.current.filter((draft) => draft.id !== id)),
+    [updateDrafts],
+  );
+
+  const addTemplate = useCallback<PollDraftsValue['addTemplate']>(
+    (poll) =>
+      updateTemplates([
+        ...templatesRef.current,
+        { ...toPollDraftContent(poll), id: createPollDraftId(), name: poll.question.trim() },
+      ]),
+    [updateTemplates],
+  );
+
+  const removeTemplate = useCallback<PollDraftsValue['removeTemplate']>(
+    (id) => updateTemplates(templatesRef.current.filter((template) => template.id !== id)),
+    [updateTemplates],
+  );
+
+  return { drafts, templates, addDrafts, removeDraft, addTemplate, removeTemplate };
+};
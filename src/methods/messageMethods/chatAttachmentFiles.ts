@@ -0,0 +1,200 @@
+// Optional file support for the chat: picking any file, and writing received files and transcripts to disk.
+import { getMediasfuLogger } from '../utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('messages');
+
+interface PickedDocument {
+  uri: string;
+  name: string | null;
+  type: string | null;
+  size: number | null;
+}
+
+interface DocumentPickerModule {
+  pick: (options?: { allowMultiSelection?: boolean }) => Promise<PickedDocument[]>;
+}
+
+interface BlobUtilModule {
+  fs: {
+    dirs: { CacheDir: string };
+    readFile: (path: string, encoding: 'base64') => Promise<string>;
+    writeFile: (path: string, data: string, encoding: 'base64' | 'utf8') => Promise<unknown>;
+  };
+  android: {
+    actionViewIntent: (path: string, mime: string) => Promise<unknown>;
+  };
+}
+
+export interface ChatFile {
+  name: string;
+  mimeType: string;
+  size: number;
+  readBase64: () => Promise<string>;
+}
+
+export interface WriteAttachmentFileOptions {
+  attachmentId: string;
+  name: string;
+  data: string;
+}
+
+export interface WriteTextFileOptions {
+  name: string;
+  text: string;
+}
+
+// Export the type definition for the function
+export type IsChatFilePickingAvailableType = () => boolean;
+export type PickChatFileType = () => Promise<ChatFile | null>;
+export type IsValidAttachmentIdType = (attachmentId: string) => boolean;
+export type WriteAttachmentFileType = (options: WriteAttachmentFileOptions) => Promise<string | null>;
+export type WriteTextFileType = (options: WriteTextFileOptions) => Promise<string | null>;
+export type OpenAttachmentFileType = (path: string, mimeType: string) => Promise<boolean>;
+
+// Both packages are optional peer dependencies: without them chat attachments are limited to
+// images, and received files are shared as data URIs.
+const loadDocumentPicker = (): DocumentPickerModule | null => {
+  try {
+    return require('@react-native-documents/picker') as DocumentPickerModule;
+  } catch {
+    return null;
+  }
+};
+
+const loadBlobUtil = (): BlobUtilModule | null => {
+  try {
+    const blobUtil = require('react-native-blob-util');
+    return (blobUtil?.default ?? blobUtil) as BlobUtilModule;
+  } catch {
+    return null;
+  }
+};
+
+const toPath = (uri: string) => (uri.startsWith('file://') ? decodeURIComponent(uri.slice('file://'.length)) : uri);
+
+/**
+ * Checks that an attachment ID, which comes from another member, is safe to use in a file name:
+ * only letters, digits, `_` and `-`, as made by `generateClientMessageId`.
+ *
+ * @param {string} attachmentId - The ID of the attachment.
+ * @returns {boolean} Whether the ID may be used.
+ */
+export const isValidAttachmentId: IsValidAttachmentIdType = (attachmentId) =>
+  typeof attachmentId === 'string' && /^[\w-]{1,64}$/.test(attachmentId);
+
+/**
+ * Checks whether files other than images can be attached, which needs `@react-native-documents/picker`
+ * and `react-native-blob-util`.
+ *
+ * @returns {boolean} Whether `pickChatFile` can be used.
+ */
+export const isChatFilePickingAvailable: IsChatFilePickingAvailableType = () =>
+  !!loadDocumentPicker() && !!loadBlobUtil();
+
+/**
+ * Lets the user choose any file from the device. The file is only read once `readBase64` is
+ * called, so its size can be checked first.
+ *
+ * @returns {Promise<ChatFile | null>} The file, or `null` when the user cancels or file picking is not available.
+ *
+ * @example
+ * ```typescript
+ * const file = await pickChatFile();
+ * if (file && !checkAttachmentSize({ size: file.size, roomName })) {
+ *   const base64 = await file.readBase64();
+ * }
+ * ```
+ */
+export const pickChatFile: PickChatFileType = async () => {
+  const picker = loadDocumentPicker();
+  const blobUtil = loadBlobUtil();
+  if (!picker || !blobUtil) {
+    return null;
+  }
+
+  try {
+    const [document] = await picker.pick({ allowMultiSelection: false });
+    if (!document) {
+      return null;
+    }
+    return {
+      name: document.name || `file-${Date.now()}`,
+      mimeType: document.type || 'application/octet-stream',
+      size: document.size ?? 0,
+      readBase64: () => blobUtil.fs.readFile(toPath(document.uri), 'base64'),
+    };
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'OPERATION_CANCELED') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Writes an attachment to the app's cache directory, so it can be handed to other apps as a
+ * file instead of a data URI.
+ *
+ * @param {WriteAttachmentFileOptions} options - The attachment to write.
+ * @param {string} options.attachmentId - The ID of the attachment, which keeps file names apart.
+ * @param {string} options.name - The file name.
+ * @param {string} options.data - The file as a data URI.
+ * @returns {Promise<string | null>} The path of the file, or `null` when files cannot be written or the ID is not valid.
+ */
+export const writeAttachmentFile: WriteAttachmentFileType = async ({ attachmentId, name, data }) => {
+  const blobUtil = loadBlobUtil();
+  const base64 = data.slice(data.indexOf(',') + 1);
+  if (!blobUtil || !base64 || !isValidAttachmentId(attachmentId)) {
+    return null;
+  }
+
+  const path = `${blobUtil.fs.dirs.CacheDir}/${attachmentId}-${name.replace(/[^\w.-]/g, '_')}`;
+  try {
+    await blobUtil.fs.writeFile(path, base64, 'base64');
+    return path;
+  } catch (error) {
+    logger.error('error writing chat attachment', error);
+    return null;
+  }
+};
+
+/**
+ * Writes text, such as a chat transcript, to the app's cache directory, so it can be handed to
+ * other apps as a file.
+ *
+ * @param {WriteTextFileOptions} options - The file to write.
+ * @param {string} options.name - The file name.
+ * @param {string} options.text - The contents of the file.
+ * @returns {Promise<string | null>} The path of the file, or `null` when files cannot be written.
+ */
+export const writeTextFile: WriteTextFileType = async ({ name, text }) => {
+  const blobUtil = loadBlobUtil();
+  if (!blobUtil) {
+    return null;
+  }
+
+  const path = `${blobUtil.fs.dirs.CacheDir}/${name.replace(/[^\w.-]/g, '_')}`;
+  try {
+    await blobUtil.fs.writeFile(path, text, 'utf8');
+    return path;
+  } catch (error) {
+    logger.error('error writing chat file', error);
+    return null;
+  }
+};
+
+/**
+ * Opens a file written by `writeAttachmentFile` or `writeTextFile` in another app (Android).
+ *
+ * @param {string} path - The path of the file.
+ * @param {string} mimeType - The type of the file.
+ * @returns {Promise<boolean>} Whether the file was handed to another app.
+ */
+export const openAttachmentFile: OpenAttachmentFileType = async (path, mimeType) => {
+  const blobUtil = loadBlobUtil();
+  if (!blobUtil) {
+    return false;
+  }
+  await blobUtil.android.actionViewIntent(path, mimeType);
+  return true;
+};
@@ -0,0 +1,371 @@
+import { Platform, Share } from 'react-native';
+import { AttachmentChunk, MessageAttachment, ShowAlert } from '../../@types/types';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+import { getMediasfuLogger } from '../utils/logger/mediasfuLogger';
+import { isValidAttachmentId, openAttachmentFile, writeAttachmentFile } from './chatAttachmentFiles';
+
+const logger = getMediasfuLogger('messages');
+
+const MEGABYTE = 1024 * 1024;
+
+// Characters of the data URI sent in each `sendAttachmentChunk` event.
+export const ATTACHMENT_CHUNK_SIZE = 64 * 1024;
+
+// Characters of attachment data URIs kept for the session; the oldest attachments are released first.
+export const MAX_ATTACHMENT_DATA_LENGTH = 48 * MEGABYTE;
+
+// Attachments received at the same time; the oldest is given up when another one is announced.
+export const MAX_PENDING_ATTACHMENTS = 8;
+
+// Android passes shared text through a Binder transaction of about 1 MB, so larger data URIs are
+// only shared as files.
+export const MAX_SHARED_TEXT_LENGTH = 256 * 1024;
+
+export interface PickedAttachment {
+  attachment: MessageAttachment;
+  data: string; // The file as a data URI.
+}
+
+export interface SendAttachmentChunksOptions {
+  socket: MediasfuSocket;
+  roomName: string;
+  attachmentId: string;
+  data: string;
+  group: boolean;
+  receivers: string[];
+  chunkSize?: number;
+}
+
+export interface CreateAttachmentAssemblerOptions {
+  onComplete: (attachmentId: string, data: string) => void;
+  getMaxSize?: () => number;
+  timeoutMs?: number;
+  maxPending?: number;
+}
+
+export interface AddAttachmentDataOptions {
+  attachmentData: { [attachmentId: string]: string };
+  attachmentId: string;
+  data: string;
+  maxLength?: number;
+}
+
+export interface AttachmentAssembler {
+  expect: (attachmentId: string) => void; // Accepts the chunks of an attachment announced by a received message.
+  handle: (chunk: AttachmentChunk) => void;
+  clear: () => void;
+}
+
+export interface ShareAttachmentOptions {
+  attachment: MessageAttachment;
+  data?: string;
+  showAlert?: ShowAlert;
+}
+
+// Export the type definition for the function
+export type GetAttachmentSizeLimitType = (roomName: string) => number;
+export type CheckAttachmentSizeType = (options: { size: number; roomName: string }) => string | null;
+export type FormatAttachmentSizeType = (bytes: number) => string;
+export type GetAttachmentStatusType = (options: { attachment: MessageAttachment; data?: string }) => string;
+export type AddAttachmentDataType = (options: AddAttachmentDataOptions) => { [attachmentId: string]: string };
+export type SendAttachmentChunksType = (options: SendAttachmentChunksOptions) => number;
+export type CreateAttachmentAssemblerType = (options: CreateAttachmentAssemblerOptions) => AttachmentAssembler;
+export type ShareAttachmentType = (options: ShareAttachmentOptions) => Promise<void>;
+
+/**
+ * Returns the largest attachment allowed in a room. Rooms are tiered by the first letter of
+ * their name, the same way `sendMessage` caps the number of messages.
+ *
+ * @param {string} roomName - The name of the room.
+ * @returns {number} The limit in bytes: 1 MB for `d` rooms, 5 MB for `s` rooms and 20 MB for `p` rooms.
+ *
+ * @example
+ * ```typescript
+ * getAttachmentSizeLimit('s123'); // 5242880
+ * ```
+ */
+export const getAttachmentSizeLimit: GetAttachmentSizeLimitType = (roomName) => {
+  if (roomName.startsWith('p')) {
+    return 20 * MEGABYTE;
+  }
+  if (roomName.startsWith('s')) {
+    return 5 * MEGABYTE;
+  }
+  return MEGABYTE;
+};
+
+/**
+ * Formats a file size for display, e.g. `'1.5 MB'`.
+ *
+ * @param {number} bytes - The size in bytes.
+ * @returns {string} The formatted size.
+ */
+export const formatAttachmentSize: FormatAttachmentSizeType = (bytes) => {
+  if (bytes >= MEGABYTE) {
+    return `${(bytes / MEGABYTE).toFixed(1).replace(/\.0$/, '')} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${bytes} B`;
+};
+
+/**
+ * Describes an attachment in the chat: its size once received, or why it cannot be opened.
+ *
+ * @param {Object} options - The attachment and its data URI, if any.
+ * @returns {string} The size, `'Receiving…'`, or `'No longer available'` for attachments released by `addAttachmentData`.
+ */
+export const getAttachmentStatus: GetAttachmentStatusType = ({ attachment, data }) => {
+  if (data) {
+    return formatAttachmentSize(attachment.size);
+  }
+  return data === '' ? 'No longer available' : 'Receiving…';
+};
+
+/**
+ * Checks an attachment against the size limit of the room.
+ *
+ * @param {Object} options - The size of the attachment and the name of the room.
+ * @returns {string | null} The message to show when the attachment is too large, or `null`.
+ */
+export const checkAttachmentSize: CheckAttachmentSizeType = ({ size, roomName }) => {
+  const limit = getAttachmentSizeLimit(roomName);
+  return size > limit ? `Attachments in this room are limited to ${formatAttachmentSize(limit)}.` : null;
+};
+
+// The length of the data URI of a file of `size` bytes, with room for the `data:<type>;base64,` header.
+const getMaxDataUriLength = (size: number) => Math.ceil(size / 3) * 4 + 256;
+
+/**
+ * Keeps the data URI of an attachment for the session. Once the kept data passes `maxLength`,
+ * the oldest attachments are released: their entries are emptied, so they show as no longer
+ * available rather than still receiving.
+ *
+ * @param {AddAttachmentDataOptions} options - The options for keeping the attachment.
+ * @param {Object} options.attachmentData - The data URIs kept so far, by attachment ID, oldest first.
+ * @param {string} options.attachmentId - The ID of the attachment.
+ * @param {string} options.data - The attachment as a data URI.
+ * @param {number} [options.maxLength=MAX_ATTACHMENT_DATA_LENGTH] - Characters of data to keep at most.
+ * @returns {Object} The data URIs to keep.
+ *
+ * @example
+ * ```typescript
+ * setAttachmentData((previous) => addAttachmentData({ attachmentData: previous, attachmentId, data }));
+ * ```
+ */
+export const addAttachmentData: AddAttachmentDataType = ({
+  attachmentData,
+  attachmentId,
+  data,
+  maxLength = MAX_ATTACHMENT_DATA_LENGTH,
+}) => {
+  const next = { ...attachmentData };
+  delete next[attachmentId];
+  next[attachmentId] = data;
+
+  let total = Object.values(next).reduce((sum, value) => sum + value.length, 0);
+  for (const id of Object.keys(next)) {
+    if (total <= maxLength || id === attachmentId) {
+      break;
+    }
+    total -= next[id].length;
+    next[id] = '';
+  }
+  return next;
+};
+
+/**
+ * Sends an attachment to the room in chunks, so large files stay under the socket's message
+ * size. Send the chunks after the message that carries the attachment, which tells receivers to
+ * expect them.
+ *
+ * @param {SendAttachmentChunksOptions} options - The options for sending the attachment.
+ * @param {MediasfuSocket} options.socket - The socket to send on.
+ * @param {string} options.roomName - The name of the room.
+ * @param {string} options.attachmentId - The ID of the attachment.
+ * @param {string} options.data - The file as a data URI.
+ * @param {boolean} options.group - Sent to the group chat, or as a direct message.
+ * @param {string[]} options.receivers - Receivers of the direct message.
+ * @param {number} [options.chunkSize=ATTACHMENT_CHUNK_SIZE] - Characters per chunk.
+ * @returns {number} The number of chunks sent.
+ */
+export const sendAttachmentChunks: SendAttachmentChunksType = ({
+  socket,
+  roomName,
+  attachmentId,
+  data,
+  group,
+  receivers,
+  chunkSize = ATTACHMENT_CHUNK_SIZE,
+}) => {
+  const total = Math.max(1, Math.ceil(data.length / chunkSize));
+  for (let index = 0; index < total; index += 1) {
+    socket.emit('sendAttachmentChunk', {
+      roomName,
+      group,
+      receivers,
+      attachmentId,
+      index,
+      total,
+      data: data.slice(index * chunkSize, (index + 1) * chunkSize),
+    });
+  }
+  return total;
+};
+
+/**
+ * Puts received attachments back together from their `attachmentChunk` events. Only chunks of
+ * attachments announced with `expect`, by a received message, are kept, and at most `maxPending`
+ * attachments are received at a time. Attachments whose chunks stop arriving are dropped after
+ * `timeoutMs`, and so are attachments whose data grows past the size limit, whatever number of
+ * chunks the sender announced.
+ *
+ * @param {CreateAttachmentAssemblerOptions} options - The options for the assembler.
+ * @param {Function} options.onComplete - Called with the attachment ID and data URI once every chunk arrived.
+ * @param {Function} [options.getMaxSize] - Returns the largest attachment accepted, in bytes (see `getAttachmentSizeLimit`).
+ * @param {number} [options.timeoutMs=60000] - How long to wait for the next chunk.
+ * @param {number} [options.maxPending=MAX_PENDING_ATTACHMENTS] - Attachments received at the same time.
+ * @returns {AttachmentAssembler} The assembler.
+ *
+ * @example
+ * ```typescript
+ * const assembler = createAttachmentAssembler({
+ *   onComplete: updateAttachmentData,
+ *   getMaxSize: () => getAttachmentSizeLimit(roomName),
+ * });
+ * socket.on('receiveMessage', ({ message }) => message.attachment && assembler.expect(message.attachment.id));
+ * socket.on('attachmentChunk', assembler.handle);
+ * ```
+ */
+export const createAttachmentAssembler: CreateAttachmentAssemblerType = ({
+  onComplete,
+  getMaxSize,
+  timeoutMs = 60000,
+  maxPending = MAX_PENDING_ATTACHMENTS,
+}) => {
+  // `total` is set by the first chunk
+  const pending = new Map<
+    string,
+    { chunks: Map<number, string>; total: number | null; length: number; timer?: ReturnType<typeof setTimeout> }
+  >();
+
+  const drop = (attachmentId: string) => {
+    const entry = pending.get(attachmentId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      pending.delete(attachmentId);
+    }
+  };
+
+  const waitForChunk = (attachmentId: string) => {
+    const entry = pending.get(attachmentId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      entry.timer = setTimeout(() => drop(attachmentId), timeoutMs);
+    }
+  };
+
+  const expect: AttachmentAssembler['expect'] = (attachmentId) => {
+    if (!isValidAttachmentId(attachmentId) || pending.has(attachmentId)) {
+      return;
+    }
+    for (const oldest of Array.from(pending.keys()).slice(0, Math.max(0, pending.size - maxPending + 1))) {
+      logger.warn('dropping chat attachment, too many are being received', { attachmentId: oldest });
+      drop(oldest);
+    }
+    pending.set(attachmentId, { chunks: new Map<number, string>(), total: null, length: 0 });
+    waitForChunk(attachmentId);
+  };
+
+  const handle: AttachmentAssembler['handle'] = (chunk) => {
+    const entry = chunk?.attachmentId ? pending.get(chunk.attachmentId) : undefined;
+    if (
+      !entry ||
+      !Number.isInteger(chunk.total) ||
+      !(chunk.total > 0) ||
+      chunk.index < 0 ||
+      chunk.index >= chunk.total ||
+      typeof chunk.data !== 'string'
+    ) {
+      return;
+    }
+
+    entry.total = entry.total ?? chunk.total;
+    if (chunk.total !== entry.total) {
+      drop(chunk.attachmentId);
+      return;
+    }
+    if (!entry.chunks.has(chunk.index)) {
+      entry.chunks.set(chunk.index, chunk.data);
+      entry.length += chunk.data.length;
+    }
+
+    const maxSize = getMaxSize?.();
+    if (maxSize !== undefined && entry.length > getMaxDataUriLength(maxSize)) {
+      logger.warn('dropping chat attachment over the size limit', { attachmentId: chunk.attachmentId });
+      drop(chunk.attachmentId);
+      return;
+    }
+
+    if (entry.chunks.size === entry.total) {
+      drop(chunk.attachmentId);
+      const parts: string[] = [];
+      for (let index = 0; index < entry.total; index += 1) {
+        parts.push(entry.chunks.get(index)!);
+      }
+      onComplete(chunk.attachmentId, parts.join(''));
+      return;
+    }
+    waitForChunk(chunk.attachmentId);
+  };
+
+  const clear = () => {
+    Array.from(pending.keys()).forEach(drop);
+  };
+
+  return { expect, handle, clear };
+};
+
+/**
+ * Hands a received attachment to another app, to save or open it. The attachment is written to
+ * a temporary file when `react-native-blob-util` is installed: iOS shares the file, and Android
+ * opens it in another app. Without it, iOS shares the data URI and Android only shares small
+ * attachments, as text.
+ *
+ * @param {ShareAttachmentOptions} options - The options for sharing the attachment.
+ * @param {MessageAttachment} options.attachment - The attachment.
+ * @param {string} [options.data] - The file as a data URI; attachments still being received, or released, cannot be shared.
+ * @param {ShowAlert} [options.showAlert] - Function to show alert messages.
+ * @returns {Promise<void>} A promise that resolves once the share sheet is closed.
+ */
+export const shareAttachment: ShareAttachmentType = async ({ attachment, data, showAlert }) => {
+  if (!data) {
+    showAlert?.({
+      message: data === '' ? 'The attachment is no longer available.' : 'The attachment is still downloading.',
+      type: 'danger',
+      duration: 3000,
+    });
+    return;
+  }
+
+  try {
+    const path = await writeAttachmentFile({ attachmentId: attachment.id, name: attachment.name, data });
+    if (Platform.OS === 'ios') {
+      await Share.share({ title: attachment.name, url: path ? `file://${path}` : data });
+      return;
+    }
+    if (path) {
+      await openAttachmentFile(path, attachment.mimeType);
+      return;
+    }
+    if (data.length > MAX_SHARED_TEXT_LENGTH) {
+      showAlert?.({ message: 'This attachment is too large to share on this device.', type: 'danger', duration: 3000 });
+      return;
+    }
+    await Share.share({ title: attachment.name, message: data });
+  } catch (error) {
+    logger.error('error sharing chat attachment', error);
+    showAlert?.({ message: 'Unable to share the attachment.', type: 'danger', duration: 3000 });
+  }
+};
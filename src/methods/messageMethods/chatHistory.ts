@@ -0,0 +1,274 @@
+import { Message } from '../../@types/types';
+import { MediasfuStorage, resolveMediasfuStorage } from '../utils/storage/mediasfuStorage';
+import { getMediasfuLogger } from '../utils/logger/mediasfuLogger';
+import { getMessageId } from './messageThreads';
+
+const logger = getMediasfuLogger('messages');
+
+export interface CreateChatHistoryOptions {
+  storage?: MediasfuStorage | null;
+  maxMessages?: number;
+  saveDelayMs?: number;
+  keyPrefix?: string;
+}
+
+export interface ChatHistory {
+  load: (roomName: string) => Promise<Message[]>;
+  save: (roomName: string, messages: Message[]) => void;
+  flush: () => Promise<void>;
+  clear: (roomName: string) => Promise<void>;
+}
+
+export interface GetMessagePageOptions {
+  messages: Message[];
+  firstVisibleId?: string | null;
+  pageSize: number;
+}
+
+export interface MessagePage {
+  visibleMessages: Message[];
+  hasOlder: boolean;
+  olderFirstId: string | null; // Pass as `firstVisibleId` to show the previous page as well.
+}
+
+// Export the type definition for the function
+export type CreateChatHistoryType = (options?: CreateChatHistoryOptions) => ChatHistory;
+export type ParseMessageTimestampType = (timestamp: Message['timestamp']) => number | null;
+export type GetMessageTimeType = (message: Message) => number | null;
+export type FormatMessageTimeType = (timestamp: Message['timestamp']) => string;
+export type FormatMessageDayType = (time: number, now?: number) => string;
+export type MergeMessagesType = (older: Message[], newer: Message[]) => Message[];
+export type GetMessagePageType = (options: GetMessagePageOptions) => MessagePage;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads a message timestamp as epoch milliseconds, or `null` for the locale time strings older
+ * clients send.
+ *
+ * @param {number | string} timestamp - The message timestamp.
+ * @returns {number | null} The send time.
+ */
+export const parseMessageTimestamp: ParseMessageTimestampType = (timestamp) => {
+  if (typeof timestamp === 'number') {
+    return Number.isFinite(timestamp) ? timestamp : null;
+  }
+  return /^\d{12,}$/.test(timestamp) ? Number(timestamp) : null;
+};
+
+/**
+ * Returns the time a message was sent in epoch milliseconds, or `null` for messages from older
+ * clients, which only carry a locale time string.
+ *
+ * @param {Message} message - The message.
+ * @returns {number | null} The send time.
+ */
+export const getMessageTime: GetMessageTimeType = (message) => parseMessageTimestamp(message.timestamp);
+
+/**
+ * Formats a message timestamp for display, e.g. `10:42`. Locale time strings from older clients
+ * are returned as they are.
+ *
+ * @param {number | string} timestamp - The message timestamp.
+ * @returns {string} The time to show next to the message.
+ */
+export const formatMessageTime: FormatMessageTimeType = (timestamp) => {
+  const time = parseMessageTimestamp(timestamp);
+  if (time === null) {
+    return String(timestamp);
+  }
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Formats the day shown in the separator above the first message of each day.
+ *
+ * @param {number} time - A time on the day, in epoch milliseconds.
+ * @param {number} [now=Date.now()] - The current time.
+ * @returns {string} `'Today'`, `'Yesterday'` or the localized date.
+ *
+ * @example
+ * ```typescript
+ * formatMessageDay(Date.now()); // 'Today'
+ * ```
+ */
+export const formatMessageDay: FormatMessageDayType = (time, now = Date.now()) => {
+  const days = Math.round((startOfDay(now) - startOfDay(time)) / DAY_MS);
+  if (days === 0) {
+    return 'Today';
+  }
+  if (days === 1) {
+    return 'Yesterday';
+  }
+  return new Date(time).toLocaleDateString([], {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    ...(days > 300 ? { year: 'numeric' } : {}),
+  });
+};
+
+/**
+ * Returns whether two times fall on the same calendar day.
+ */
+export const isSameMessageDay = (first: number, second: number): boolean =>
+  startOfDay(first) === startOfDay(second);
+
+/**
+ * Merges restored history with the messages received in this session. Messages in both lists,
+ * matched by ID or by the client ID of a message sent from this device, are kept once with the
+ * copy from `newer`; history that is not in `newer` goes first.
+ *
+ * @param {Message[]} older - The restored messages.
+ * @param {Message[]} newer - The messages already in the room.
+ * @returns {Message[]} The merged messages, oldest first.
+ *
+ * @example
+ * ```typescript
+ * updateMessages(mergeMessages(await chatHistory.load(roomName), messages));
+ * ```
+ */
+export const mergeMessages: MergeMessagesType = (older, newer) => {
+  const newerIds = new Set(newer.map(getMessageId));
+  const newerClientIds = new Set(newer.map((message) => message.clientId).filter(Boolean));
+  const seen = new Set<string>();
+  const restored = older.filter((message) => {
+    const id = getMessageId(message);
+    if (newerIds.has(id) || newerClientIds.has(message.clientId) || seen.has(id)) {
+      return false;
+    }
+    seen.add(id);
+    return true;
+  });
+  return restored.length > 0 ? [...restored, ...newer] : newer;
+};
+
+/**
+ * Returns the messages to render when only the latest page is shown at first. The window is
+ * anchored on its first message, so messages that arrive later are always included and the
+ * page does not shift while older messages are being read.
+ *
+ * @param {GetMessagePageOptions} options - The options for the page.
+ * @param {Message[]} options.messages - All messages, oldest first.
+ * @param {string | null} [options.firstVisibleId] - The ID of the oldest message shown; the latest page when not set.
+ * @param {number} options.pageSize - How many messages a page holds.
+ * @returns {MessagePage} The messages to show and where the previous page starts.
+ *
+ * @example
+ * ```typescript
+ * const { visibleMessages, hasOlder, olderFirstId } = getMessagePage({ messages, firstVisibleId, pageSize: 30 });
+ * const loadOlder = () => setFirstVisibleId(olderFirstId);
+ * ```
+ */
+export const getMessagePage: GetMessagePageType = ({ messages, firstVisibleId, pageSize }) => {
+  const anchorIndex = firstVisibleId
+    ? messages.findIndex((message) => getMessageId(message) === firstVisibleId)
+    : -1;
+  const start = anchorIndex >= 0 ? anchorIndex : Math.max(0, messages.length - pageSize);
+  const olderStart = Math.max(0, start - pageSize);
+
+  return {
+    visibleMessages: start > 0 ? messages.slice(start) : messages,
+    hasOlder: start > 0,
+    olderFirstId: start > 0 ? getMessageId(messages[olderStart]) : null,
+  };
+};
+
+/**
+ * Creates a per-room chat history backed by `MediasfuStorage`, so messages survive app restarts
+ * and rejoins. Saves are batched, only the latest `maxMessages` are kept, and messages that
+ * were never delivered are left out.
+ *
+ * @param {CreateChatHistoryOptions} [options] - The options for the history.
+ * @param {MediasfuStorage} [options.storage] - Where to keep the messages; the default MediaSFU storage when not set.
+ * @param {number} [options.maxMessages=200] - How many messages to keep per room.
+ * @param {number} [options.saveDelayMs=500] - How long to batch changes before writing them.
+ * @param {string} [options.keyPrefix='mediasfuChatHistory:'] - Prefix of the storage keys.
+ * @returns {ChatHistory} The chat history.
+ *
+ * @example
+ * ```typescript
+ * const chatHistory = createChatHistory({ storage });
+ *
+ * const updateMessages = (value: Message[]) => {
+ *   setMessages(value);
+ *   chatHistory.save(roomName, value);
+ * };
+ *
+ * updateMessages(mergeMessages(await chatHistory.load(roomName), messages));
+ * ```
+ */
+export const createChatHistory: CreateChatHistoryType = ({
+  storage,
+  maxMessages = 200,
+  saveDelayMs = 500,
+  keyPrefix = 'mediasfuChatHistory:',
+} = {}) => {
+  const pending = new Map<string, Message[]>();
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const keyFor = (roomName: string) => `${keyPrefix}${roomName}`;
+
+  const flush: ChatHistory['flush'] = async () => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+
+    const entries = Array.from(pending.entries());
+    pending.clear();
+    await Promise.all(
+      entries.map(async ([roomName, messages]) => {
+        const stored = messages
+          .filter((message) => !message.deliveryStatus || message.deliveryStatus === 'sent')
+          .slice(-maxMessages)
+          .map(({ deliveryStatus: _deliveryStatus, ...message }) => message);
+        try {
+          await resolveMediasfuStorage(storage).setItem(keyFor(roomName), JSON.stringify(stored));
+        } catch (error) {
+          logger.error('error saving chat history', error);
+        }
+      }),
+    );
+  };
+
+  const save: ChatHistory['save'] = (roomName, messages) => {
+    if (!roomName) {
+      return;
+    }
+    pending.set(roomName, messages);
+    if (!saveTimer) {
+      saveTimer = setTimeout(() => {
+        saveTimer = null;
+        flush();
+      }, saveDelayMs);
+    }
+  };
+
+  const load: ChatHistory['load'] = async (roomName) => {
+    if (!roomName) {
+      return [];
+    }
+    try {
+      const stored = await resolveMediasfuStorage(storage).getItem(keyFor(roomName));
+      const messages = stored ? JSON.parse(stored) : [];
+      return Array.isArray(messages) ? messages : [];
+    } catch (error) {
+      logger.error('error loading chat history', error);
+      return [];
+    }
+  };
+
+  const clear: ChatHistory['clear'] = async (roomName) => {
+    pending.delete(roomName);
+    await resolveMediasfuStorage(storage).removeItem(keyFor(roomName));
+  };
+
+  return { load, save, flush, clear };
+};
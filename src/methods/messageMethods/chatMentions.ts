@@ -0,0 +1,205 @@
+import { ChatReadState, Message, Participant } from '../../@types/types';
+import { getMessageTime } from './chatHistory';
+import { getMessageThreadKey } from './chatPresence';
+
+export interface MentionQuery {
+  query: string; // The name typed so far, without the `@`.
+  start: number; // Index of the `@` in the text.
+}
+
+export interface GetMentionSuggestionsOptions {
+  participants: Participant[];
+  query: string;
+  member: string;
+  limit?: number;
+}
+
+export interface InsertMentionOptions {
+  text: string;
+  mention: MentionQuery;
+  name: string;
+  cursor: number;
+}
+
+export interface MentionSegment {
+  text: string;
+  mention: string | null; // The mentioned name, or `null` for plain text.
+}
+
+export interface CountUnreadMentionsOptions {
+  messages: Message[];
+  member: string;
+  readState: ChatReadState;
+}
+
+// Export the type definition for the function
+export type GetMentionQueryType = (text: string, cursor?: number) => MentionQuery | null;
+export type GetMentionSuggestionsType = (options: GetMentionSuggestionsOptions) => string[];
+export type InsertMentionType = (options: InsertMentionOptions) => { text: string; cursor: number };
+export type FindMentionsType = (text: string) => string[];
+export type IsMentionedType = (message: Message, member: string) => boolean;
+export type SplitMentionsType = (text: string) => MentionSegment[];
+export type CountUnreadMentionsType = (options: CountUnreadMentionsOptions) => number;
+
+// `@name` at the start of the text or after whitespace; names are letters, digits, `_`, `.` and `-`,
+// without a trailing `.` or `-`, so `thanks @alice.` mentions `alice`
+const MENTION_PATTERN = /(^|\s)@(\w(?:[\w.-]*\w)?)/g;
+
+const sameName = (first: string, second: string) => first.toLowerCase() === second.toLowerCase();
+
+/**
+ * Returns the mention being typed at the cursor, for the autocomplete.
+ *
+ * @param {string} text - The text in the message input.
+ * @param {number} [cursor=text.length] - The cursor position.
+ * @returns {MentionQuery | null} The partial name after the `@`, or `null` when no mention is being typed.
+ *
+ * @example
+ * ```typescript
+ * getMentionQuery('thanks @al'); // { query: 'al', start: 7 }
+ * ```
+ */
+export const getMentionQuery: GetMentionQueryType = (text, cursor = text.length) => {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, cursor));
+  if (!match) {
+    return null;
+  }
+  return { query: match[2], start: cursor - match[2].length - 1 };
+};
+
+/**
+ * Returns the participants whose names match the mention being typed: names starting with the
+ * query first, then names containing it.
+ *
+ * @param {GetMentionSuggestionsOptions} options - The options for the suggestions.
+ * @param {Participant[]} options.participants - The participants of the room.
+ * @param {string} options.query - The partial name typed after the `@`.
+ * @param {string} options.member - The local member, who is never suggested.
+ * @param {number} [options.limit=5] - How many names to return.
+ * @returns {string[]} The suggested names.
+ */
+export const getMentionSuggestions: GetMentionSuggestionsType = ({
+  participants,
+  query,
+  member,
+  limit = 5,
+}) => {
+  const needle = query.toLowerCase();
+  const names = Array.from(
+    new Set(
+      participants
+        .filter((participant) => participant.name && participant.name !== member && !participant.isBanned)
+        .map((participant) => participant.name),
+    ),
+  );
+
+  const startsWith = names.filter((name) => name.toLowerCase().startsWith(needle));
+  const contains = names.filter(
+    (name) => !name.toLowerCase().startsWith(needle) && name.toLowerCase().includes(needle),
+  );
+  return [...startsWith, ...contains].slice(0, limit);
+};
+
+/**
+ * Completes the mention being typed with the chosen name.
+ *
+ * @param {InsertMentionOptions} options - The options for the completion.
+ * @param {string} options.text - The text in the message input.
+ * @param {MentionQuery} options.mention - The mention being typed.
+ * @param {string} options.name - The chosen name.
+ * @param {number} options.cursor - The cursor position.
+ * @returns {{ text: string; cursor: number }} The new text and the cursor position after the mention.
+ *
+ * @example
+ * ```typescript
+ * insertMention({ text: 'hi @al', mention: { query: 'al', start: 3 }, name: 'alice', cursor: 6 });
+ * // { text: 'hi @alice ', cursor: 10 }
+ * ```
+ */
+export const insertMention: InsertMentionType = ({ text, mention, name, cursor }) => {
+  const before = `${text.slice(0, mention.start)}@${name} `;
+  const after = text.slice(cursor).replace(/^\s+/, '');
+  return { text: `${before}${after}`, cursor: before.length };
+};
+
+/**
+ * Returns the names mentioned in a message.
+ *
+ * @param {string} text - The message text.
+ * @returns {string[]} The distinct names, without the `@`.
+ */
+export const findMentions: FindMentionsType = (text) => {
+  const names: string[] = [];
+  Array.from((text ?? '').matchAll(MENTION_PATTERN)).forEach((match) => {
+    if (!names.some((existing) => sameName(existing, match[2]))) {
+      names.push(match[2]);
+    }
+  });
+  return names;
+};
+
+/**
+ * Checks whether a message from someone else mentions the member. Only group messages and direct
+ * messages to the member count, so a host who sees every direct message is not alerted for
+ * mentions in conversations they are not part of. Mentions are read from `message.mentions`, or
+ * from the text for messages sent by older clients.
+ *
+ * @param {Message} message - The message.
+ * @param {string} member - The member.
+ * @returns {boolean} Whether the member is mentioned.
+ */
+export const isMentioned: IsMentionedType = (message, member) => {
+  if (!member || !message || message.sender === member || message.deleted) {
+    return false;
+  }
+  if (!message.group && !(message.receivers ?? []).includes(member)) {
+    return false;
+  }
+  const mentions = message.mentions ?? findMentions(message.message);
+  return mentions.some((name) => sameName(name, member));
+};
+
+/**
+ * Splits a message into plain text and mentions, for rendering the mentions highlighted.
+ *
+ * @param {string} text - The message text.
+ * @returns {MentionSegment[]} The parts of the text, in order.
+ *
+ * @example
+ * ```typescript
+ * splitMentions('hi @alice!');
+ * // [{ text: 'hi ', mention: null }, { text: '@alice', mention: 'alice' }, { text: '!', mention: null }]
+ * ```
+ */
+export const splitMentions: SplitMentionsType = (text) => {
+  const segments: MentionSegment[] = [];
+  let start = 0;
+  Array.from(text.matchAll(MENTION_PATTERN)).forEach((match) => {
+    const index = (match.index ?? 0) + match[1].length;
+    if (index > start) {
+      segments.push({ text: text.slice(start, index), mention: null });
+    }
+    segments.push({ text: `@${match[2]}`, mention: match[2] });
+    start = index + match[2].length + 1;
+  });
+  if (start < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(start), mention: null });
+  }
+  return segments;
+};
+
+/**
+ * Counts the unread messages that mention the member, for the badge on the chat button.
+ *
+ * @param {CountUnreadMentionsOptions} options - The messages, the member and when each conversation was last read.
+ * @returns {number} The number of unread mentions.
+ */
+export const countUnreadMentions: CountUnreadMentionsType = ({ messages, member, readState }) =>
+  messages.filter((message) => {
+    const time = getMessageTime(message);
+    return (
+      time !== null &&
+      time > (readState[getMessageThreadKey(message, member)] ?? 0) &&
+      isMentioned(message, member)
+    );
+  }).length;
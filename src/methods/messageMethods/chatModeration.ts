@@ -0,0 +1,393 @@
+import {
+  ChatModerationSettings,
+  ChatModerationUpdatedData,
+  CoHostResponsibility,
+  Message,
+  MessageDeletedData,
+  Participant,
+  ShowAlert,
+} from '../../@types/types';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+import { getMessageId } from './messageThreads';
+import { getMessageTime } from './chatHistory';
+
+export interface CanModerateChatOptions {
+  member: string;
+  islevel: string;
+  coHost: string;
+  coHostResponsibility: CoHostResponsibility[];
+}
+
+export interface FilterBlockedWordsResult {
+  text: string;
+  matches: string[];
+}
+
+export interface GetSlowModeWaitOptions {
+  messages: Message[];
+  member: string;
+  slowModeSeconds: number;
+  now?: number;
+}
+
+export interface DeleteMessageForEveryoneOptions extends CanModerateChatOptions {
+  socket: MediasfuSocket;
+  roomName: string;
+  message: Message;
+  showAlert?: ShowAlert;
+}
+
+export interface IsDeletionAllowedOptions {
+  data: MessageDeletedData;
+  participants: Participant[];
+  coHost: string;
+  coHostResponsibility: CoHostResponsibility[];
+}
+
+export interface IsChatModerationUpdateAllowedOptions {
+  data: ChatModerationUpdatedData;
+  participants: Participant[];
+  coHost: string;
+  coHostResponsibility: CoHostResponsibility[];
+}
+
+export interface ApplyMessageDeletionOptions {
+  messages: Message[];
+  data: MessageDeletedData;
+}
+
+export interface UpdateChatModerationOptions {
+  socket: MediasfuSocket;
+  roomName: string;
+  member: string;
+  settings: ChatModerationSettings;
+  updateChatModeration: (settings: ChatModerationSettings) => void;
+}
+
+export interface FetchChatModerationOptions {
+  socket: MediasfuSocket;
+  roomName: string;
+  updateChatModeration: (settings: ChatModerationSettings) => void;
+}
+
+// Export the type definition for the function
+export type CanModerateChatType = (options: CanModerateChatOptions) => boolean;
+export type FilterBlockedWordsType = (text: string, blockedWords: string[]) => FilterBlockedWordsResult;
+export type ModerateIncomingMessageType = (message: Message, settings?: ChatModerationSettings | null) => Message;
+export type GetSlowModeWaitType = (options: GetSlowModeWaitOptions) => number;
+export type DeleteMessageForEveryoneType = (options: DeleteMessageForEveryoneOptions) => MessageDeletedData | null;
+export type IsDeletionAllowedType = (options: IsDeletionAllowedOptions) => boolean;
+export type IsChatModerationUpdateAllowedType = (options: IsChatModerationUpdateAllowedOptions) => boolean;
+export type ApplyMessageDeletionType = (options: ApplyMessageDeletionOptions) => Message[];
+export type UpdateChatModerationType = (options: UpdateChatModerationOptions) => void;
+export type FetchChatModerationType = (options: FetchChatModerationOptions) => void;
+export type ParseBlockedWordsType = (value: string) => string[];
+
+export const DEFAULT_CHAT_MODERATION: ChatModerationSettings = {
+  blockedWords: [],
+  blockedWordAction: 'mask',
+  slowModeSeconds: 0,
+};
+
+export const SLOW_MODE_OPTIONS = [0, 5, 10, 30, 60, 120];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Checks whether a member may moderate the chat: the host, or the co-host when the
+ * `chat` co-host responsibility is on.
+ *
+ * @param {CanModerateChatOptions} options - The member and the room's co-host settings.
+ * @returns {boolean} Whether the member may delete messages and change the moderation settings.
+ */
+export const canModerateChat: CanModerateChatType = ({
+  member,
+  islevel,
+  coHost,
+  coHostResponsibility,
+}) => {
+  if (islevel === '2') {
+    return true;
+  }
+  const chatValue = coHostResponsibility?.find((item) => item.name === 'chat')?.value ?? false;
+  return coHost === member && chatValue === true;
+};
+
+/**
+ * Splits the blocked words typed by the host (separated by commas or new lines).
+ *
+ * @param {string} value - The typed words.
+ * @returns {string[]} The distinct, trimmed words.
+ */
+export const parseBlockedWords: ParseBlockedWordsType = (value) =>
+  Array.from(
+    new Set(
+      value
+        .split(/[,\n]/)
+        .map((word) => word.trim())
+        .filter((word) => word.length > 0),
+    ),
+  );
+
+/**
+ * Replaces blocked words in a message with asterisks. Words are matched whole and ignoring case,
+ * so blocking `ass` leaves `class` alone.
+ *
+ * @param {string} text - The message text.
+ * @param {string[]} blockedWords - The blocked words.
+ * @returns {FilterBlockedWordsResult} The masked text and the blocked words that were found.
+ *
+ * @example
+ * ```typescript
+ * filterBlockedWords('That is SPAM', ['spam']); // { text: 'That is ****', matches: ['SPAM'] }
+ * ```
+ */
+export const filterBlockedWords: FilterBlockedWordsType = (text, blockedWords) => {
+  const words = blockedWords.map((word) => word.trim()).filter((word) => word.length > 0);
+  if (!text || words.length === 0) {
+    return { text, matches: [] };
+  }
+
+  const matches: string[] = [];
+  const pattern = new RegExp(`(^|[^\\w])(${words.map(escapeRegExp).join('|')})(?=$|[^\\w])`, 'gi');
+  const masked = text.replace(pattern, (_match, prefix: string, word: string) => {
+    matches.push(word);
+    return `${prefix}${'*'.repeat(word.length)}`;
+  });
+  return { text: masked, matches };
+};
+
+/**
+ * Masks blocked words in a received message. Messages from clients that do not filter what
+ * they send are masked here too.
+ *
+ * @param {Message} message - The received message.
+ * @param {ChatModerationSettings | null} [settings] - The room's moderation settings.
+ * @returns {Message} The message to show.
+ */
+export const moderateIncomingMessage: ModerateIncomingMessageType = (message, settings) => {
+  if (!settings?.blockedWords.length || !message?.message) {
+    return message;
+  }
+  const { text, matches } = filterBlockedWords(message.message, settings.blockedWords);
+  return matches.length > 0 ? { ...message, message: text } : message;
+};
+
+/**
+ * Returns how long a member must wait before posting again while slow mode is on.
+ *
+ * @param {GetSlowModeWaitOptions} options - The options for the check.
+ * @param {Message[]} options.messages - The messages in the room.
+ * @param {string} options.member - The member about to post.
+ * @param {number} options.slowModeSeconds - The slow mode interval; 0 when off.
+ * @param {number} [options.now=Date.now()] - The current time.
+ * @returns {number} The wait in milliseconds, or 0 when the member may post.
+ *
+ * @example
+ * ```typescript
+ * const waitMs = getSlowModeWait({ messages, member, slowModeSeconds: 10 });
+ * ```
+ */
+export const getSlowModeWait: GetSlowModeWaitType = ({
+  messages,
+  member,
+  slowModeSeconds,
+  now = Date.now(),
+}) => {
+  if (!slowModeSeconds || slowModeSeconds <= 0) {
+    return 0;
+  }
+
+  for (let index = messages.length - 1; index >= 0; index -= 1) {
+    const message = messages[index];
+    if (message.sender !== member || message.deliveryStatus === 'failed') {
+      continue;
+    }
+    const time = getMessageTime(message);
+    if (time === null) {
+      return 0;
+    }
+    return Math.max(0, time + slowModeSeconds * 1000 - now);
+  }
+  return 0;
+};
+
+/**
+ * Deletes a message for everyone in the room. Only the host, or a co-host with the `chat`
+ * responsibility, may do this; the server relays the deletion to the room as `messageDeleted`.
+ *
+ * @param {DeleteMessageForEveryoneOptions} options - The options for the deletion.
+ * @param {MediasfuSocket} options.socket - The socket instance for communication.
+ * @param {string} options.roomName - The name of the room.
+ * @param {Message} options.message - The message to delete.
+ * @param {string} options.member - The member deleting the message.
+ * @param {string} options.islevel - The level of the member.
+ * @param {string} options.coHost - The co-host of the room.
+ * @param {CoHostResponsibility[]} options.coHostResponsibility - The co-host responsibilities.
+ * @param {ShowAlert} [options.showAlert] - Function to show alert messages.
+ * @returns {MessageDeletedData | null} The deletion that was sent, for applying locally, or `null` when not allowed.
+ *
+ * @example
+ * ```typescript
+ * const data = deleteMessageForEveryone({ socket, roomName, message, member, islevel, coHost, coHostResponsibility });
+ * if (data) {
+ *   updateMessages(applyMessageDeletion({ messages, data }));
+ * }
+ * ```
+ */
+export const deleteMessageForEveryone: DeleteMessageForEveryoneType = ({
+  socket,
+  roomName,
+  message,
+  showAlert,
+  ...permission
+}) => {
+  if (!canModerateChat(permission)) {
+    showAlert?.({
+      message: 'You are not allowed to delete messages in this room',
+      type: 'danger',
+      duration: 3000,
+    });
+    return null;
+  }
+
+  const data: MessageDeletedData = {
+    messageId: getMessageId(message),
+    deletedBy: permission.member,
+  };
+  socket.emit('deleteMessage', { ...data, roomName });
+  return data;
+};
+
+/**
+ * Checks a `messageDeleted` event against the room's roles, so only deletions by the host, or by
+ * the co-host while the `chat` responsibility is on, are applied.
+ *
+ * @param {IsDeletionAllowedOptions} options - The deletion and the room's roles.
+ * @returns {boolean} Whether the member who deleted the message may moderate the chat.
+ *
+ * @example
+ * ```typescript
+ * if (isDeletionAllowed({ data, participants, coHost, coHostResponsibility })) {
+ *   updateMessages(applyMessageDeletion({ messages, data }));
+ * }
+ * ```
+ */
+export const isDeletionAllowed: IsDeletionAllowedType = ({ data, participants, coHost, coHostResponsibility }) =>
+  canModerateChat({
+    member: data.deletedBy,
+    islevel: participants.find((participant) => participant.name === data.deletedBy)?.islevel ?? '0',
+    coHost,
+    coHostResponsibility,
+  });
+
+/**
+ * Checks a `chatModerationUpdated` event against the room's roles, so only settings changed by the
+ * host, or by the co-host while the `chat` responsibility is on, are applied.
+ *
+ * @param {IsChatModerationUpdateAllowedOptions} options - The update and the room's roles.
+ * @returns {boolean} Whether the member who changed the settings may moderate the chat.
+ *
+ * @example
+ * ```typescript
+ * if (isChatModerationUpdateAllowed({ data, participants, coHost, coHostResponsibility })) {
+ *   updateChatModeration({ ...DEFAULT_CHAT_MODERATION, ...data.settings });
+ * }
+ * ```
+ */
+export const isChatModerationUpdateAllowed: IsChatModerationUpdateAllowedType = ({
+  data,
+  participants,
+  coHost,
+  coHostResponsibility,
+}) =>
+  canModerateChat({
+    member: data.updatedBy,
+    islevel: participants.find((participant) => participant.name === data.updatedBy)?.islevel ?? '0',
+    coHost,
+    coHostResponsibility,
+  });
+
+/**
+ * Marks a message as deleted. Its text, reactions, quote and attachment are cleared so nothing of it stays
+ * on screen, while replies to it keep their place.
+ *
+ * @param {ApplyMessageDeletionOptions} options - The options for applying the deletion.
+ * @param {Message[]} options.messages - The current messages.
+ * @param {MessageDeletedData} options.data - The deletion.
+ * @returns {Message[]} The updated messages, or the same array when nothing changed.
+ */
+export const applyMessageDeletion: ApplyMessageDeletionType = ({ messages, data }) => {
+  const index = messages.findIndex((message) => getMessageId(message) === data.messageId);
+  if (index === -1 || messages[index].deleted) {
+    return messages;
+  }
+
+  const deleted: Message = { ...messages[index], message: '', deleted: true };
+  delete deleted.reactions;
+  delete deleted.replyTo;
+  delete deleted.attachment;
+
+  const nextMessages = messages.map((item) =>
+    item.replyTo?.id === data.messageId
+      ? { ...item, replyTo: { ...item.replyTo, message: '' } }
+      : item,
+  );
+  nextMessages[index] = deleted;
+  return nextMessages;
+};
+
+/**
+ * Changes the room's blocked words and slow mode from the event settings. The server relays the
+ * new settings to the room as `chatModerationUpdated`.
+ *
+ * @param {UpdateChatModerationOptions} options - The options for the update.
+ * @param {MediasfuSocket} options.socket - The socket instance for communication.
+ * @param {string} options.roomName - The name of the room.
+ * @param {string} options.member - The host or co-host changing the settings, sent as `updatedBy`.
+ * @param {ChatModerationSettings} options.settings - The new settings.
+ * @param {Function} options.updateChatModeration - Applies the settings locally.
+ *
+ * @example
+ * ```typescript
+ * updateChatModerationSettings({
+ *   socket,
+ *   roomName,
+ *   member,
+ *   updateChatModeration,
+ *   settings: { blockedWords: ['spam'], blockedWordAction: 'mask', slowModeSeconds: 10 },
+ * });
+ * ```
+ */
+export const updateChatModerationSettings: UpdateChatModerationType = ({
+  socket,
+  roomName,
+  member,
+  settings,
+  updateChatModeration,
+}) => {
+  updateChatModeration(settings);
+  socket.emit('updateChatModeration', { roomName, settings, updatedBy: member });
+};
+
+/**
+ * Fetches the room's blocked words and slow mode when joining. `chatModerationUpdated` only reports
+ * later changes, so members who join after the host changed the settings would otherwise keep the defaults.
+ *
+ * @param {FetchChatModerationOptions} options - The options for the request.
+ * @param {MediasfuSocket} options.socket - The socket instance for communication.
+ * @param {string} options.roomName - The name of the room.
+ * @param {Function} options.updateChatModeration - Applies the settings once the server answers.
+ *
+ * @example
+ * ```typescript
+ * fetchChatModerationSettings({ socket, roomName, updateChatModeration });
+ * ```
+ */
+export const fetchChatModerationSettings: FetchChatModerationType = ({ socket, roomName, updateChatModeration }) => {
+  socket.emit('getChatModeration', { roomName }, (response) => {
+    if (response?.success && response.settings) {
+      updateChatModeration({ ...DEFAULT_CHAT_MODERATION, ...response.settings });
+    }
+  });
+};
@@ -0,0 +1,251 @@
+import { Message, MessageDeliveryStatus } from '../../@types/types';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+
+export interface ChatOutboxEntry {
+  clientId: string;
+  roomName: string;
+  messageObject: Message;
+  status: Exclude<MessageDeliveryStatus, 'sent'>;
+  attempts: number;
+}
+
+export interface CreateChatOutboxOptions {
+  getMessages: () => Message[];
+  updateMessages: (messages: Message[]) => void;
+  ackTimeoutMs?: number;
+  maxAttempts?: number;
+}
+
+export interface ChatOutboxEnqueueOptions {
+  roomName: string;
+  messageObject: Message;
+  socket?: MediasfuSocket | null;
+}
+
+export interface ChatOutboxFlushOptions {
+  roomName: string;
+  socket?: MediasfuSocket | null;
+}
+
+export interface ChatOutboxRestoreOptions {
+  roomName: string;
+  messages: Message[];
+}
+
+export interface ChatOutboxRetryOptions {
+  clientId: string;
+  socket?: MediasfuSocket | null;
+}
+
+export interface ChatOutbox {
+  enqueue: (options: ChatOutboxEnqueueOptions) => Message;
+  flush: (options: ChatOutboxFlushOptions) => void;
+  retry: (options: ChatOutboxRetryOptions) => void;
+  restore: (options: ChatOutboxRestoreOptions) => Message[];
+  acknowledge: (message: Message) => boolean;
+  getEntries: (roomName?: string) => ChatOutboxEntry[];
+  clear: (roomName?: string) => void;
+}
+
+// Export the type definition for the function
+export type CreateChatOutboxType = (options: CreateChatOutboxOptions) => ChatOutbox;
+export type GenerateClientMessageIdType = () => string;
+
+/**
+ * Generates an ID for a message before it is sent, so the server echo can be matched to it.
+ */
+export const generateClientMessageId: GenerateClientMessageIdType = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Creates a per-room outbox for chat messages.
+ *
+ * Queued messages are added to the message list straight away as `pending`. They are emitted
+ * while the socket is connected and kept for the next `flush` (after a reconnect) otherwise. The
+ * server echo of a message replaces the local copy and marks it `sent`; a message that is not
+ * echoed within `ackTimeoutMs`, or that runs out of attempts, is marked `failed` and can be
+ * retried with `retry`. When the message list is replaced, e.g. by the room messages loaded after
+ * a reconnect, `restore` adds the queued and failed messages back.
+ *
+ * @param {CreateChatOutboxOptions} options - The options for the outbox.
+ * @param {Function} options.getMessages - Returns the current message list.
+ * @param {Function} options.updateMessages - Replaces the message list.
+ * @param {number} [options.ackTimeoutMs=10000] - How long to wait for the server echo.
+ * @param {number} [options.maxAttempts=3] - How many times `flush` sends a message before giving up.
+ * @returns {ChatOutbox} The outbox.
+ *
+ * @example
+ * ```typescript
+ * const outbox = createChatOutbox({
+ *   getMessages: () => messages.current,
+ *   updateMessages,
+ * });
+ *
+ * socket.on('receiveMessage', async ({ message }) => {
+ *   if (!outbox.acknowledge(message)) {
+ *     await receiveMessage({ message, ... });
+ *   }
+ * });
+ * ```
+ */
+export const createChatOutbox: CreateChatOutboxType = ({
+  getMessages,
+  updateMessages,
+  ackTimeoutMs = 10000,
+  maxAttempts = 3,
+}) => {
+  const entries = new Map<string, ChatOutboxEntry>();
+  const ackTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const setDeliveryStatus = (clientId: string, deliveryStatus: MessageDeliveryStatus) => {
+    const messages = getMessages();
+    if (!messages.some((message) => message.clientId === clientId)) {
+      return;
+    }
+    updateMessages(
+      messages.map((message) =>
+        message.clientId === clientId ? { ...message, deliveryStatus } : message,
+      ),
+    );
+  };
+
+  const clearAckTimer = (clientId: string) => {
+    const timer = ackTimers.get(clientId);
+    if (timer) {
+      clearTimeout(timer);
+      ackTimers.delete(clientId);
+    }
+  };
+
+  const markFailed = (entry: ChatOutboxEntry) => {
+    clearAckTimer(entry.clientId);
+    entry.status = 'failed';
+    setDeliveryStatus(entry.clientId, 'failed');
+  };
+
+  const send = (entry: ChatOutboxEntry, socket?: MediasfuSocket | null) => {
+    if (!socket?.connected) {
+      return;
+    }
+
+    entry.attempts += 1;
+    entry.status = 'pending';
+    setDeliveryStatus(entry.clientId, 'pending');
+    try {
+      socket.emit('sendMessage', {
+        messageObject: entry.messageObject,
+        roomName: entry.roomName,
+      });
+    } catch {
+      markFailed(entry);
+      return;
+    }
+
+    clearAckTimer(entry.clientId);
+    ackTimers.set(
+      entry.clientId,
+      setTimeout(() => {
+        ackTimers.delete(entry.clientId);
+        if (entries.get(entry.clientId) === entry) {
+          markFailed(entry);
+        }
+      }, ackTimeoutMs),
+    );
+  };
+
+  const enqueue: ChatOutbox['enqueue'] = ({ roomName, messageObject, socket }) => {
+    const clientId = messageObject.clientId ?? generateClientMessageId();
+    const entry: ChatOutboxEntry = {
+      clientId,
+      roomName,
+      messageObject: { ...messageObject, clientId },
+      status: 'pending',
+      attempts: 0,
+    };
+    entries.set(clientId, entry);
+
+    const localMessage: Message = { ...entry.messageObject, deliveryStatus: 'pending' };
+    updateMessages([...getMessages(), localMessage]);
+    send(entry, socket);
+    return localMessage;
+  };
+
+  const flush: ChatOutbox['flush'] = ({ roomName, socket }) => {
+    entries.forEach((entry) => {
+      if (entry.roomName !== roomName) {
+        return;
+      }
+      if (entry.attempts >= maxAttempts) {
+        if (entry.status !== 'failed' && !ackTimers.has(entry.clientId)) {
+          markFailed(entry);
+        }
+        return;
+      }
+      send(entry, socket);
+    });
+  };
+
+  const retry: ChatOutbox['retry'] = ({ clientId, socket }) => {
+    const entry = entries.get(clientId);
+    if (!entry) {
+      return;
+    }
+    entry.attempts = 0;
+    if (socket?.connected) {
+      send(entry, socket);
+    } else {
+      entry.status = 'pending';
+      setDeliveryStatus(clientId, 'pending');
+    }
+  };
+
+  const restore: ChatOutbox['restore'] = ({ roomName, messages }) => {
+    const clientIds = new Set(messages.map((message) => message.clientId).filter(Boolean));
+    const missing: Message[] = [];
+    getEntries(roomName).forEach((entry) => {
+      // a message the server already has was delivered and only its echo was lost
+      if (clientIds.has(entry.clientId)) {
+        clearAckTimer(entry.clientId);
+        entries.delete(entry.clientId);
+        return;
+      }
+      missing.push({ ...entry.messageObject, deliveryStatus: entry.status });
+    });
+    return missing.length > 0 ? [...messages, ...missing] : messages;
+  };
+
+  const acknowledge: ChatOutbox['acknowledge'] = (message) => {
+    const clientId = message?.clientId;
+    if (!clientId) {
+      return false;
+    }
+
+    clearAckTimer(clientId);
+    entries.delete(clientId);
+
+    // the echo replaces the local copy, and repeated echoes of a resent message are dropped
+    const messages = getMessages();
+    const index = messages.findIndex((item) => item.clientId === clientId);
+    if (index === -1) {
+      return false;
+    }
+    if (messages[index].deliveryStatus !== 'sent') {
+      const nextMessages = [...messages];
+      nextMessages[index] = { ...message, deliveryStatus: 'sent' };
+      updateMessages(nextMessages);
+    }
+    return true;
+  };
+
+  const getEntries: ChatOutbox['getEntries'] = (roomName) =>
+    Array.from(entries.values()).filter((entry) => !roomName || entry.roomName === roomName);
+
+  const clear: ChatOutbox['clear'] = (roomName) => {
+    getEntries(roomName).forEach((entry) => {
+      clearAckTimer(entry.clientId);
+      entries.delete(entry.clientId);
+    });
+  };
+
+  return { enqueue, flush, retry, restore, acknowledge, getEntries, clear };
+};
@@ -0,0 +1,298 @@
+import { ChatReadState, Message, TypingEventData } from '../../@types/types';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+import { getMessageTime } from './chatHistory';
+
+export const GROUP_THREAD_KEY = 'group';
+
+export interface CountUnreadMessagesOptions {
+  messages: Message[];
+  member: string;
+  readState: ChatReadState;
+}
+
+export interface MarkThreadReadOptions {
+  readState: ChatReadState;
+  threadKey: string;
+  messages: Message[];
+  member: string;
+}
+
+export interface GetTypingMembersOptions {
+  typing: TypingEventData[];
+  group: boolean;
+  member: string;
+  islevel: string;
+}
+
+export interface CreateTypingTrackerOptions {
+  onChange: (typing: TypingEventData[]) => void;
+  expiryMs?: number;
+}
+
+export interface TypingTracker {
+  handle: (data: TypingEventData) => void;
+  stopTyping: (member: string) => void; // A member who sends a message is no longer typing.
+  getTyping: () => TypingEventData[];
+  clear: () => void;
+}
+
+export interface TypingNotifierOptions {
+  socket: MediasfuSocket;
+  roomName: string;
+  member: string;
+  group: boolean;
+  receivers: string[];
+}
+
+export interface TypingNotifier {
+  notify: (options: TypingNotifierOptions) => void;
+  stop: (options: TypingNotifierOptions) => void;
+}
+
+// Export the type definition for the function
+export type GetMessageThreadKeyType = (message: Message, member: string) => string;
+export type CountUnreadMessagesType = (options: CountUnreadMessagesOptions) => Record<string, number>;
+export type MarkThreadReadType = (options: MarkThreadReadOptions) => ChatReadState;
+export type MarkMessagesReadType = (options: CountUnreadMessagesOptions) => ChatReadState;
+export type GetTypingMembersType = (options: GetTypingMembersOptions) => string[];
+export type CreateTypingTrackerType = (options: CreateTypingTrackerOptions) => TypingTracker;
+export type CreateTypingNotifierType = (options?: { intervalMs?: number }) => TypingNotifier;
+export type FormatTypingMembersType = (names: string[]) => string;
+
+/**
+ * Returns the conversation a message belongs to: `'group'` for group messages, or
+ * `direct:<name>` for direct messages, named after the other participant.
+ *
+ * @param {Message} message - The message.
+ * @param {string} member - The local member.
+ * @returns {string} The thread key.
+ *
+ * @example
+ * ```typescript
+ * getMessageThreadKey({ sender: 'alice', receivers: ['bob'], group: false, ... }, 'bob'); // 'direct:alice'
+ * ```
+ */
+export const getMessageThreadKey: GetMessageThreadKeyType = (message, member) => {
+  if (message.group) {
+    return GROUP_THREAD_KEY;
+  }
+  const peer = message.sender === member ? message.receivers?.[0] : message.sender;
+  return `direct:${peer ?? ''}`;
+};
+
+const isUnreadCandidate = (message: Message, member: string) =>
+  message.sender !== member && !message.deleted;
+
+/**
+ * Counts the unread messages of each conversation. Messages are read when they were sent no
+ * later than the conversation's entry in `readState`; the member's own messages and messages
+ * without a send time are never unread.
+ *
+ * @param {CountUnreadMessagesOptions} options - The options for counting.
+ * @param {Message[]} options.messages - The messages in the room.
+ * @param {string} options.member - The local member.
+ * @param {ChatReadState} options.readState - When each conversation was last read.
+ * @returns {Record<string, number>} Unread messages by thread key; conversations without unread messages are left out.
+ *
+ * @example
+ * ```typescript
+ * const unread = countUnreadMessages({ messages, member, readState });
+ * const total = Object.values(unread).reduce((sum, count) => sum + count, 0);
+ * ```
+ */
+export const countUnreadMessages: CountUnreadMessagesType = ({ messages, member, readState }) => {
+  const counts: Record<string, number> = {};
+  messages.forEach((message) => {
+    if (!isUnreadCandidate(message, member)) {
+      return;
+    }
+    const time = getMessageTime(message);
+    const threadKey = getMessageThreadKey(message, member);
+    if (time !== null && time > (readState[threadKey] ?? 0)) {
+      counts[threadKey] = (counts[threadKey] ?? 0) + 1;
+    }
+  });
+  return counts;
+};
+
+/**
+ * Marks a conversation as read up to its latest message.
+ *
+ * @param {MarkThreadReadOptions} options - The options for marking the conversation.
+ * @param {ChatReadState} options.readState - The current read state.
+ * @param {string} options.threadKey - The conversation to mark.
+ * @param {Message[]} options.messages - The messages in the room.
+ * @param {string} options.member - The local member.
+ * @returns {ChatReadState} The new read state, or the same object when nothing changed.
+ */
+export const markThreadRead: MarkThreadReadType = ({ readState, threadKey, messages, member }) => {
+  let latest = readState[threadKey] ?? 0;
+  messages.forEach((message) => {
+    const time = getMessageTime(message);
+    if (time !== null && time > latest && getMessageThreadKey(message, member) === threadKey) {
+      latest = time;
+    }
+  });
+  return latest === (readState[threadKey] ?? 0) ? readState : { ...readState, [threadKey]: latest };
+};
+
+/**
+ * Marks every conversation of the given messages as read up to its latest message, e.g. the
+ * history restored when rejoining a room, which was already seen in an earlier session.
+ *
+ * @param {CountUnreadMessagesOptions} options - The messages, the local member and the current read state.
+ * @returns {ChatReadState} The new read state, or the same object when nothing changed.
+ */
+export const markMessagesRead: MarkMessagesReadType = ({ messages, member, readState }) =>
+  Object.keys(countUnreadMessages({ messages, member, readState })).reduce(
+    (nextReadState, threadKey) => markThreadRead({ readState: nextReadState, threadKey, messages, member }),
+    readState,
+  );
+
+/**
+ * Returns who is typing in the group chat, or to the local member directly. Direct typing
+ * events without receivers are meant for the host.
+ *
+ * @param {GetTypingMembersOptions} options - The options for the lookup.
+ * @returns {string[]} The names of the members typing.
+ */
+export const getTypingMembers: GetTypingMembersType = ({ typing, group, member, islevel }) =>
+  typing
+    .filter((data) => data.member !== member && data.group === group)
+    .filter(
+      (data) =>
+        group ||
+        data.receivers.includes(member) ||
+        (data.receivers.length === 0 && islevel === '2'),
+    )
+    .map((data) => data.member);
+
+/**
+ * Tracks who is typing from the `userTyping` events of the room. Typing events are ephemeral:
+ * a member who stops sending them is dropped after `expiryMs`.
+ *
+ * @param {CreateTypingTrackerOptions} options - The options for the tracker.
+ * @param {Function} options.onChange - Called with everyone typing whenever that changes.
+ * @param {number} [options.expiryMs=6000] - How long a typing event lasts.
+ * @returns {TypingTracker} The tracker.
+ *
+ * @example
+ * ```typescript
+ * const tracker = createTypingTracker({ onChange: setTyping });
+ * socket.on('userTyping', tracker.handle);
+ * ```
+ */
+export const createTypingTracker: CreateTypingTrackerType = ({ onChange, expiryMs = 6000 }) => {
+  const typing = new Map<string, { data: TypingEventData; timer: ReturnType<typeof setTimeout> }>();
+
+  const getTyping = () => Array.from(typing.values()).map((entry) => entry.data);
+
+  const remove = (member: string) => {
+    const entry = typing.get(member);
+    if (!entry) {
+      return false;
+    }
+    clearTimeout(entry.timer);
+    typing.delete(member);
+    return true;
+  };
+
+  const stopTyping: TypingTracker['stopTyping'] = (member) => {
+    if (remove(member)) {
+      onChange(getTyping());
+    }
+  };
+
+  const handle: TypingTracker['handle'] = (data) => {
+    if (!data?.member) {
+      return;
+    }
+    if (!data.isTyping) {
+      stopTyping(data.member);
+      return;
+    }
+
+    remove(data.member);
+    typing.set(data.member, {
+      data,
+      timer: setTimeout(() => stopTyping(data.member), expiryMs),
+    });
+    onChange(getTyping());
+  };
+
+  const clear = () => {
+    Array.from(typing.keys()).forEach(remove);
+    onChange([]);
+  };
+
+  return { handle, stopTyping, getTyping, clear };
+};
+
+/**
+ * Sends the local member's typing state to the room. `notify` is throttled to one event per
+ * `intervalMs`, which keeps remote indicators alive while typing continues.
+ *
+ * @param {Object} [options] - The options for the notifier.
+ * @param {number} [options.intervalMs=3000] - The least time between typing events.
+ * @returns {TypingNotifier} The notifier.
+ *
+ * @example
+ * ```typescript
+ * const notifier = createTypingNotifier();
+ * const onChangeText = (text: string) =>
+ *   text ? notifier.notify({ socket, roomName, member, group: true, receivers: [] })
+ *        : notifier.stop({ socket, roomName, member, group: true, receivers: [] });
+ * ```
+ */
+export const createTypingNotifier: CreateTypingNotifierType = ({ intervalMs = 3000 } = {}) => {
+  let lastSentAt = 0;
+  let lastKey: string | null = null;
+
+  const emit = ({ socket, roomName, member, group, receivers }: TypingNotifierOptions, isTyping: boolean) => {
+    if (!socket?.connected) {
+      return;
+    }
+    socket.emit('typing', { roomName, member, group, receivers, isTyping });
+  };
+
+  const notify: TypingNotifier['notify'] = (options) => {
+    const key = `${options.group}|${options.receivers.join(',')}`;
+    const now = Date.now();
+    if (key === lastKey && now - lastSentAt < intervalMs) {
+      return;
+    }
+    lastKey = key;
+    lastSentAt = now;
+    emit(options, true);
+  };
+
+  const stop: TypingNotifier['stop'] = (options) => {
+    if (lastKey === null) {
+      return;
+    }
+    lastKey = null;
+    lastSentAt = 0;
+    emit(options, false);
+  };
+
+  return { notify, stop };
+};
+
+/**
+ * Formats the typing indicator shown above the message input.
+ *
+ * @param {string[]} names - The members typing.
+ * @returns {string} E.g. `'alice is typing…'`, or an empty string when nobody is typing.
+ */
+export const formatTypingMembers: FormatTypingMembersType = (names) => {
+  if (names.length === 0) {
+    return '';
+  }
+  if (names.length === 1) {
+    return `${names[0]} is typing…`;
+  }
+  if (names.length === 2) {
+    return `${names[0]} and ${names[1]} are typing…`;
+  }
+  return `${names.length} people are typing…`;
+};
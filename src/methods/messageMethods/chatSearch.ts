@@ -0,0 +1,110 @@
+import { Message } from '../../@types/types';
+
+export type ChatSearchScope = 'all' | 'group' | 'direct';
+
+export interface SearchMessagesOptions {
+  messages: Message[];
+  query: string;
+  sender?: string | null;
+  scope?: ChatSearchScope;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Export the type definition for the function
+export type SearchMessagesType = (options: SearchMessagesOptions) => Message[];
+export type HighlightMatchesType = (text: string, query: string) => HighlightSegment[];
+export type GetMessageSendersType = (messages: Message[]) => string[];
+
+const normalize = (value: string) => value.toLocaleLowerCase();
+
+/**
+ * Finds the messages that contain the query, ignoring case, optionally narrowed to one sender
+ * and to group or direct messages. Deleted messages are never found.
+ *
+ * @param {SearchMessagesOptions} options - The options for the search.
+ * @param {Message[]} options.messages - The messages to search, oldest first.
+ * @param {string} options.query - The text to look for; an empty query matches every message that passes the filters.
+ * @param {string | null} [options.sender] - Only messages from this member.
+ * @param {ChatSearchScope} [options.scope='all'] - `'group'`, `'direct'` or `'all'` messages.
+ * @returns {Message[]} The matching messages, newest first.
+ *
+ * @example
+ * ```typescript
+ * const results = searchMessages({ messages, query: 'slides', scope: 'group' });
+ * ```
+ */
+export const searchMessages: SearchMessagesType = ({ messages, query, sender, scope = 'all' }) => {
+  const needle = normalize(query.trim());
+  const results: Message[] = [];
+
+  for (let index = messages.length - 1; index >= 0; index -= 1) {
+    const message = messages[index];
+    if (message.deleted) {
+      continue;
+    }
+    if ((scope === 'group' && !message.group) || (scope === 'direct' && message.group)) {
+      continue;
+    }
+    if (sender && message.sender !== sender) {
+      continue;
+    }
+    if (needle && !normalize(message.message).includes(needle)) {
+      continue;
+    }
+    results.push(message);
+  }
+  return results;
+};
+
+/**
+ * Splits a message into the parts that match the query and the parts in between, for rendering
+ * the matches highlighted.
+ *
+ * @param {string} text - The message text.
+ * @param {string} query - The search query.
+ * @returns {HighlightSegment[]} The parts of the text, in order.
+ *
+ * @example
+ * ```typescript
+ * highlightMatches('See the slides', 'slide');
+ * // [{ text: 'See the ', match: false }, { text: 'slide', match: true }, { text: 's', match: false }]
+ * ```
+ */
+export const highlightMatches: HighlightMatchesType = (text, query) => {
+  const needle = normalize(query.trim());
+  if (!needle || !text) {
+    return [{ text, match: false }];
+  }
+
+  const haystack = normalize(text);
+  const segments: HighlightSegment[] = [];
+  let start = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    if (index > start) {
+      segments.push({ text: text.slice(start, index), match: false });
+    }
+    segments.push({ text: text.slice(index, index + needle.length), match: true });
+    start = index + needle.length;
+    index = haystack.indexOf(needle, start);
+  }
+  if (start < text.length) {
+    segments.push({ text: text.slice(start), match: false });
+  }
+  return segments;
+};
+
+/**
+ * Returns everyone who sent one of the messages, for the sender filter.
+ *
+ * @param {Message[]} messages - The messages.
+ * @returns {string[]} The distinct senders, sorted by name.
+ */
+export const getMessageSenders: GetMessageSendersType = (messages) =>
+  Array.from(new Set(messages.map((message) => message.sender))).sort((first, second) =>
+    first.localeCompare(second),
+  );
@@ -0,0 +1,352 @@
+import { Platform, Share } from 'react-native';
+import { CoHostResponsibility, Message, ShowAlert } from '../../@types/types';
+import { MAX_SHARED_TEXT_LENGTH } from './chatAttachments';
+import { openAttachmentFile, writeTextFile } from './chatAttachmentFiles';
+import { formatMessageDay, formatMessageTime, getMessageTime } from './chatHistory';
+import { getMessageId } from './messageThreads';
+import { getMediasfuLogger } from '../utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('messages');
+
+export type ChatTranscriptFormat = 'text' | 'json' | 'html';
+
+export const CHAT_TRANSCRIPT_FORMATS: { format: ChatTranscriptFormat; label: string }[] = [
+  { format: 'text', label: 'Text' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' },
+];
+
+const TRANSCRIPT_FILE_TYPES: Record<ChatTranscriptFormat, { extension: string; mimeType: string }> = {
+  text: { extension: 'txt', mimeType: 'text/plain' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+export interface GetVisibleChatMessagesOptions {
+  messages: Message[];
+  member: string;
+  islevel: string;
+  coHost: string;
+  coHostResponsibility: CoHostResponsibility[];
+}
+
+export interface FormatChatTranscriptOptions {
+  messages: Message[];
+  format: ChatTranscriptFormat;
+  roomName: string;
+  member: string;
+  exportedAt?: number;
+}
+
+export interface ExportChatTranscriptOptions extends GetVisibleChatMessagesOptions {
+  format: ChatTranscriptFormat;
+  roomName: string;
+  showAlert?: ShowAlert;
+}
+
+// Export the type definition for the function
+export type GetVisibleChatMessagesType = (options: GetVisibleChatMessagesOptions) => Message[];
+export type FormatChatTranscriptType = (options: FormatChatTranscriptOptions) => string;
+export type ExportChatTranscriptType = (options: ExportChatTranscriptOptions) => Promise<void>;
+
+/**
+ * Returns the messages the member can see in the chat: every group message, and the direct
+ * messages they sent or received. The host, and a co-host with the `chat` responsibility, see
+ * all direct messages.
+ *
+ * @param {GetVisibleChatMessagesOptions} options - The messages and the member.
+ * @returns {Message[]} The visible messages, in their original order.
+ */
+export const getVisibleChatMessages: GetVisibleChatMessagesType = ({
+  messages,
+  member,
+  islevel,
+  coHost,
+  coHostResponsibility,
+}) => {
+  const chatValue = coHostResponsibility?.find((item) => item.name === 'chat')?.value;
+  const seesAllDirectMessages = islevel === '2' || (coHost === member && chatValue === true);
+
+  return messages.filter(
+    (message) =>
+      message.group ||
+      seesAllDirectMessages ||
+      message.sender === member ||
+      message.receivers.includes(member),
+  );
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const getMessageText = (message: Message) => {
+  if (message.deleted) {
+    return 'This message was deleted';
+  }
+  return message.attachment
+    ? `${message.message} [Attachment: ${message.attachment.name}]`.trim()
+    : message.message;
+};
+
+const getRecipientLabel = (message: Message) => {
+  if (message.group) {
+    return 'Everyone';
+  }
+  return message.receivers.length > 0 ? message.receivers.join(', ') : 'Host';
+};
+
+const getReactionSummary = (message: Message) =>
+  Object.entries(message.reactions ?? {})
+    .filter(([, members]) => members.length > 0)
+    .map(([emoji, members]) => `${emoji} ${members.length}`)
+    .join('  ');
+
+const groupByDay = (messages: Message[]) => {
+  const days: { label: string; messages: Message[] }[] = [];
+  messages.forEach((message) => {
+    const time = getMessageTime(message);
+    const label = time === null ? 'Earlier' : formatMessageDay(time);
+    const current = days[days.length - 1];
+    if (current && current.label === label) {
+      current.messages.push(message);
+    } else {
+      days.push({ label, messages: [message] });
+    }
+  });
+  return days;
+};
+
+const getSections = (messages: Message[]) =>
+  [
+    { title: 'Group messages', messages: messages.filter((message) => message.group) },
+    { title: 'Direct messages', messages: messages.filter((message) => !message.group) },
+  ].filter((section) => section.messages.length > 0);
+
+const formatTextTranscript = (messages: Message[], heading: string[]) => {
+  const lines = [...heading];
+  getSections(messages).forEach((section) => {
+    lines.push('', `== ${section.title} ==`);
+    groupByDay(section.messages).forEach((day) => {
+      lines.push('', `-- ${day.label} --`);
+      day.messages.forEach((message) => {
+        const recipient = message.group ? '' : ` -> ${getRecipientLabel(message)}`;
+        if (message.replyTo) {
+          lines.push(`    > ${message.replyTo.sender}: ${message.replyTo.message || 'Deleted message'}`);
+        }
+        lines.push(
+          `[${formatMessageTime(message.timestamp)}] ${message.sender}${recipient}: ${getMessageText(message)}`,
+        );
+        const reactions = getReactionSummary(message);
+        if (reactions) {
+          lines.push(`    ${reactions}`);
+        }
+      });
+    });
+  });
+  if (messages.length === 0) {
+    lines.push('', 'No messages.');
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const formatJsonTranscript = (
+  messages: Message[],
+  { roomName, member, exportedAt }: { roomName: string; member: string; exportedAt: number },
+) =>
+  JSON.stringify(
+    {
+      roomName,
+      exportedBy: member,
+      exportedAt: new Date(exportedAt).toISOString(),
+      messages: messages.map((message) => {
+        const time = getMessageTime(message);
+        return {
+          id: getMessageId(message),
+          sender: message.sender,
+          receivers: message.receivers,
+          group: message.group,
+          timestamp: time === null ? message.timestamp : new Date(time).toISOString(),
+          message: getMessageText(message),
+          ...(message.replyTo ? { replyTo: message.replyTo } : {}),
+          ...(message.reactions ? { reactions: message.reactions } : {}),
+          ...(message.deleted ? { deleted: true } : {}),
+        };
+      }),
+    },
+    null,
+    2,
+  );
+
+const formatHtmlTranscript = (messages: Message[], title: string, subtitle: string) => {
+  const body = getSections(messages)
+    .map((section) => {
+      const days = groupByDay(section.messages)
+        .map((day) => {
+          const items = day.messages
+            .map((message) => {
+              const recipient = message.group
+                ? ''
+                : ` <span class="to">&rarr; ${escapeHtml(getRecipientLabel(message))}</span>`;
+              const quote = message.replyTo
+                ? `<blockquote><b>${escapeHtml(message.replyTo.sender)}</b> ${escapeHtml(
+                    message.replyTo.message || 'Deleted message',
+                  )}</blockquote>`
+                : '';
+              const reactions = getReactionSummary(message);
+              return [
+                '<li>',
+                `<div class="meta"><b>${escapeHtml(message.sender)}</b>${recipient}`,
+                ` <time>${escapeHtml(formatMessageTime(message.timestamp))}</time></div>`,
+                quote,
+                `<p${message.deleted ? ' class="deleted"' : ''}>${escapeHtml(getMessageText(message))}</p>`,
+                reactions ? `<div class="reactions">${escapeHtml(reactions)}</div>` : '',
+                '</li>',
+              ].join('');
+            })
+            .join('\n');
+          return `<h3>${escapeHtml(day.label)}</h3>\n<ul>\n${items}\n</ul>`;
+        })
+        .join('\n');
+      return `<section>\n<h2>${escapeHtml(section.title)}</h2>\n${days}\n</section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; margin: 0 auto; max-width: 760px; padding: 24px; color: #0f172a; }
+h1 { font-size: 22px; margin-bottom: 4px; }
+h2 { font-size: 17px; border-bottom: 1px solid #e2e8f0; padding-bottom: 6px; margin-top: 32px; }
+h3 { font-size: 12px; color: #64748b; text-align: center; margin: 20px 0 8px; }
+ul { list-style: none; padding: 0; margin: 0; }
+li { padding: 8px 12px; margin-bottom: 6px; background: #f1f5f9; border-radius: 10px; }
+.subtitle, time, .to, .reactions { color: #64748b; font-size: 12px; }
+p { margin: 4px 0 0; white-space: pre-wrap; word-wrap: break-word; }
+.deleted { font-style: italic; color: #64748b; }
+blockquote { margin: 6px 0 0; padding-left: 8px; border-left: 3px solid #94a3b8; font-size: 12px; color: #475569; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="subtitle">${escapeHtml(subtitle)}</div>
+${body || '<p>No messages.</p>'}
+</body>
+</html>
+`;
+};
+
+/**
+ * Serializes chat messages into a transcript: plain text grouped by conversation and day,
+ * JSON for archiving, or a self-contained HTML page that opens in any browser.
+ *
+ * @param {FormatChatTranscriptOptions} options - The options for the transcript.
+ * @param {Message[]} options.messages - The messages to include, oldest first.
+ * @param {ChatTranscriptFormat} options.format - `'text'`, `'json'` or `'html'`.
+ * @param {string} options.roomName - The name of the room, shown in the heading.
+ * @param {string} options.member - The member exporting the transcript.
+ * @param {number} [options.exportedAt=Date.now()] - When the transcript was made.
+ * @returns {string} The transcript.
+ *
+ * @example
+ * ```typescript
+ * const html = formatChatTranscript({ messages, format: 'html', roomName, member });
+ * ```
+ */
+export const formatChatTranscript: FormatChatTranscriptType = ({
+  messages,
+  format,
+  roomName,
+  member,
+  exportedAt = Date.now(),
+}) => {
+  if (format === 'json') {
+    return formatJsonTranscript(messages, { roomName, member, exportedAt });
+  }
+
+  const title = `Chat transcript: ${roomName}`;
+  const subtitle = `Exported by ${member} on ${new Date(exportedAt).toLocaleString()}`;
+  if (format === 'html') {
+    return formatHtmlTranscript(messages, title, subtitle);
+  }
+  return formatTextTranscript(messages, [title, subtitle]);
+};
+
+/**
+ * Exports the group and direct messages the member can see and hands the transcript to another
+ * app, the same way received attachments are shared. The transcript is written to a file when
+ * `react-native-blob-util` is installed: iOS shares the file, and Android opens it in another app.
+ * Without it, transcripts are shared as text, up to the size Android can pass to another app.
+ *
+ * @param {ExportChatTranscriptOptions} options - The options for the export.
+ * @param {Message[]} options.messages - The messages in the room.
+ * @param {ChatTranscriptFormat} options.format - `'text'`, `'json'` or `'html'`.
+ * @param {string} options.roomName - The name of the room.
+ * @param {string} options.member - The member exporting the transcript.
+ * @param {string} options.islevel - The level of the member.
+ * @param {string} options.coHost - The co-host of the room.
+ * @param {CoHostResponsibility[]} options.coHostResponsibility - The co-host responsibilities.
+ * @param {ShowAlert} [options.showAlert] - Function to show alert messages.
+ * @returns {Promise<void>} A promise that resolves once the share sheet is closed.
+ *
+ * @example
+ * ```typescript
+ * await exportChatTranscript({
+ *   messages,
+ *   format: 'text',
+ *   roomName,
+ *   member,
+ *   islevel,
+ *   coHost,
+ *   coHostResponsibility,
+ *   showAlert,
+ * });
+ * ```
+ */
+export const exportChatTranscript: ExportChatTranscriptType = async ({
+  format,
+  roomName,
+  showAlert,
+  ...visibility
+}) => {
+  const messages = getVisibleChatMessages(visibility);
+  if (messages.length === 0) {
+    showAlert?.({ message: 'There are no messages to export', type: 'danger', duration: 3000 });
+    return;
+  }
+
+  const title = `Chat transcript: ${roomName}`;
+  const { extension, mimeType } = TRANSCRIPT_FILE_TYPES[format];
+  try {
+    const transcript = formatChatTranscript({ messages, format, roomName, member: visibility.member });
+    const path = await writeTextFile({ name: `chat-transcript-${roomName}.${extension}`, text: transcript });
+    if (path && Platform.OS === 'ios') {
+      await Share.share({ title, url: `file://${path}` });
+      return;
+    }
+    if (path) {
+      await openAttachmentFile(path, mimeType);
+      return;
+    }
+    if (transcript.length > MAX_SHARED_TEXT_LENGTH) {
+      showAlert?.({
+        message: 'This transcript is too large to share on this device.',
+        type: 'danger',
+        duration: 3000,
+      });
+      return;
+    }
+    await Share.share({ title, message: transcript });
+  } catch (error) {
+    logger.error('error exporting chat transcript', error);
+    showAlert?.({ message: 'Unable to export the chat transcript.', type: 'danger', duration: 3000 });
+  }
+};
@@ -0,0 +1,149 @@
+import { Message, MessageReactionData, MessageReplyReference } from '../../@types/types';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+
+export interface ApplyMessageReactionOptions {
+  messages: Message[];
+  data: MessageReactionData;
+}
+
+export interface SendMessageReactionOptions {
+  socket: MediasfuSocket;
+  roomName: string;
+  member: string;
+  message: Message;
+  emoji: string;
+}
+
+// Export the type definition for the function
+export type GetMessageIdType = (message: Message) => string;
+export type CreateReplyReferenceType = (message: Message, maxLength?: number) => MessageReplyReference;
+export type ApplyMessageReactionType = (options: ApplyMessageReactionOptions) => Message[];
+export type CountThreadRepliesType = (messages: Message[]) => Map<string, number>;
+export type SendMessageReactionType = (options: SendMessageReactionOptions) => MessageReactionData;
+
+export const DEFAULT_MESSAGE_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+
+/**
+ * Returns the ID of a message. Messages from clients that do not send IDs get one derived from
+ * their sender, timestamp and text, which is the same on every client.
+ *
+ * @param {Message} message - The message.
+ * @returns {string} The message ID.
+ */
+export const getMessageId: GetMessageIdType = (message) =>
+  message.id ?? message.clientId ?? `${message.sender}|${message.timestamp}|${message.message}`;
+
+/**
+ * Builds the `replyTo` reference sent with a reply, quoting the start of the original message.
+ *
+ * @param {Message} message - The message being replied to.
+ * @param {number} [maxLength=120] - The longest excerpt to quote.
+ * @returns {MessageReplyReference} The reference.
+ *
+ * @example
+ * ```typescript
+ * await sendMessage({ ...options, replyTo: createReplyReference(selectedMessage) });
+ * ```
+ */
+export const createReplyReference: CreateReplyReferenceType = (message, maxLength = 120) => ({
+  id: getMessageId(message),
+  sender: message.sender,
+  message:
+    message.message.length > maxLength
+      ? `${message.message.slice(0, maxLength - 1)}…`
+      : message.message,
+});
+
+/**
+ * Applies a reaction to the message list. Applying the same reaction twice has no further
+ * effect, so a local update can safely be followed by the server echo.
+ *
+ * @param {ApplyMessageReactionOptions} options - The options for applying the reaction.
+ * @param {Message[]} options.messages - The current messages.
+ * @param {MessageReactionData} options.data - The reaction.
+ * @returns {Message[]} The updated messages, or the same array when nothing changed.
+ *
+ * @example
+ * ```typescript
+ * socket.on('messageReaction', (data) => {
+ *   updateMessages(applyMessageReaction({ messages, data }));
+ * });
+ * ```
+ */
+export const applyMessageReaction: ApplyMessageReactionType = ({ messages, data }) => {
+  const index = messages.findIndex((message) => getMessageId(message) === data.messageId);
+  if (index === -1) {
+    return messages;
+  }
+
+  const target = messages[index];
+  const members = target.reactions?.[data.emoji] ?? [];
+  const hasReacted = members.includes(data.member);
+  if ((data.action === 'add') === hasReacted) {
+    return messages;
+  }
+
+  const nextMembers =
+    data.action === 'add'
+      ? [...members, data.member]
+      : members.filter((member) => member !== data.member);
+  const reactions = { ...target.reactions, [data.emoji]: nextMembers };
+  if (nextMembers.length === 0) {
+    delete reactions[data.emoji];
+  }
+
+  const nextMessages = [...messages];
+  nextMessages[index] = { ...target, reactions };
+  return nextMessages;
+};
+
+/**
+ * Counts the replies to each message, keyed by message ID.
+ *
+ * @param {Message[]} messages - The messages.
+ * @returns {Map<string, number>} The number of replies per message ID.
+ */
+export const countThreadReplies: CountThreadRepliesType = (messages) => {
+  const counts = new Map<string, number>();
+  messages.forEach((message) => {
+    if (message.replyTo) {
+      counts.set(message.replyTo.id, (counts.get(message.replyTo.id) ?? 0) + 1);
+    }
+  });
+  return counts;
+};
+
+/**
+ * Toggles the member's reaction on a message and sends it to the room. The server relays it to
+ * everyone in the room as `messageReaction`.
+ *
+ * @param {SendMessageReactionOptions} options - The options for the reaction.
+ * @param {MediasfuSocket} options.socket - The socket instance for communication.
+ * @param {string} options.roomName - The name of the room.
+ * @param {string} options.member - The member reacting.
+ * @param {Message} options.message - The message reacted to.
+ * @param {string} options.emoji - The reaction.
+ * @returns {MessageReactionData} The reaction that was sent, for applying locally.
+ *
+ * @example
+ * ```typescript
+ * const data = sendMessageReaction({ socket, roomName, member, message, emoji: '👍' });
+ * updateMessages(applyMessageReaction({ messages, data }));
+ * ```
+ */
+export const sendMessageReaction: SendMessageReactionType = ({
+  socket,
+  roomName,
+  member,
+  message,
+  emoji,
+}) => {
+  const data: MessageReactionData = {
+    messageId: getMessageId(message),
+    emoji,
+    member,
+    action: message.reactions?.[emoji]?.includes(member) ? 'remove' : 'add',
+  };
+  socket.emit('sendMessageReaction', { ...data, roomName });
+  return data;
+};
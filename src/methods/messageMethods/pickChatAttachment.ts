@@ -0,0 +1,136 @@
+import { Alert } from 'react-native';
+import { launchImageLibrary } from 'react-native-image-picker';
+import { ShowAlert } from '../../@types/types';
+import { checkAttachmentSize, PickedAttachment } from './chatAttachments';
+import { isChatFilePickingAvailable, pickChatFile } from './chatAttachmentFiles';
+import { generateClientMessageId } from './chatOutbox';
+import { getMediasfuLogger } from '../utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('messages');
+
+export type ChatAttachmentSource = 'photo' | 'file';
+
+export interface PickChatAttachmentOptions {
+  roomName: string;
+  source?: ChatAttachmentSource;
+  showAlert?: ShowAlert;
+}
+
+// Export the type definition for the function
+export type PickChatAttachmentType = (options: PickChatAttachmentOptions) => Promise<PickedAttachment | null>;
+
+const askForSource = () =>
+  new Promise<ChatAttachmentSource | null>((resolve) => {
+    Alert.alert(
+      'Attach',
+      undefined,
+      [
+        { text: 'Photo', onPress: () => resolve('photo') },
+        { text: 'File', onPress: () => resolve('file') },
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) },
+    );
+  });
+
+const pickFile = async ({ roomName, showAlert }: PickChatAttachmentOptions): Promise<PickedAttachment | null> => {
+  const file = await pickChatFile();
+  if (!file) {
+    return null;
+  }
+
+  const sizeError = checkAttachmentSize({ size: file.size, roomName });
+  if (sizeError) {
+    showAlert?.({ message: sizeError, type: 'danger', duration: 3000 });
+    return null;
+  }
+
+  const base64 = await file.readBase64();
+  const size = file.size || Math.ceil(base64.length * 0.75);
+  const readSizeError = checkAttachmentSize({ size, roomName });
+  if (readSizeError) {
+    showAlert?.({ message: readSizeError, type: 'danger', duration: 3000 });
+    return null;
+  }
+
+  return {
+    attachment: {
+      id: generateClientMessageId(),
+      name: file.name,
+      mimeType: file.mimeType,
+      size,
+      kind: file.mimeType.startsWith('image/') ? 'image' : 'file',
+    },
+    data: `data:${file.mimeType};base64,${base64}`,
+  };
+};
+
+/**
+ * Lets the user choose an image from the device, the same way the whiteboard uploads images,
+ * or any other file when `@react-native-documents/picker` and `react-native-blob-util` are
+ * installed, and reads it for sending in the chat.
+ *
+ * @param {PickChatAttachmentOptions} options - The options for picking the attachment.
+ * @param {string} options.roomName - The name of the room, which sets the size limit.
+ * @param {ChatAttachmentSource} [options.source] - Where to pick from; the user is asked when files can be picked and no source is given.
+ * @param {ShowAlert} [options.showAlert] - Function to show alert messages.
+ * @returns {Promise<PickedAttachment | null>} The attachment, or `null` when the user cancels or the file is too large.
+ *
+ * @example
+ * ```typescript
+ * const picked = await pickChatAttachment({ roomName, showAlert });
+ * ```
+ */
+export const pickChatAttachment: PickChatAttachmentType = async ({ roomName, source, showAlert }) => {
+  try {
+    const from = source ?? (isChatFilePickingAvailable() ? await askForSource() : 'photo');
+    if (!from) {
+      return null;
+    }
+    if (from === 'file') {
+      return await pickFile({ roomName, showAlert });
+    }
+
+    const result = await launchImageLibrary({
+      mediaType: 'photo',
+      selectionLimit: 1,
+      includeBase64: true,
+      quality: 0.8,
+      maxWidth: 1920,
+      maxHeight: 1920,
+    });
+
+    if (result.didCancel || !result.assets?.length) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    if (!asset.base64) {
+      showAlert?.({ message: 'Unable to read the selected file.', type: 'danger', duration: 3000 });
+      return null;
+    }
+
+    const size = asset.fileSize ?? Math.ceil(asset.base64.length * 0.75);
+    const sizeError = checkAttachmentSize({ size, roomName });
+    if (sizeError) {
+      showAlert?.({ message: sizeError, type: 'danger', duration: 3000 });
+      return null;
+    }
+
+    const mimeType = asset.type || 'image/jpeg';
+    return {
+      attachment: {
+        id: generateClientMessageId(),
+        name: asset.fileName || `image-${Date.now()}.jpg`,
+        mimeType,
+        size,
+        kind: mimeType.startsWith('image/') ? 'image' : 'file',
+      },
+      data: `data:${mimeType};base64,${asset.base64}`,
+    };
+  } catch (error) {
+    logger.error('error picking chat attachment', error);
+    showAlert?.({ message: 'Attachment selection failed.', type: 'danger', duration: 3000 });
+    return null;
+  }
+};
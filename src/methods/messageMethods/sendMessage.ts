@@ -1,5 +1,16 @@
-import { Socket } from 'socket.io-client';
-import { CoHostResponsibility, ShowAlert } from '../../@types/types';
+import { MediasfuSocket } from '../../sockets/socketEvents';
+import {
+  ChatModerationSettings,
+  CoHostResponsibility,
+  Message,
+  MessageAttachment,
+  MessageReplyReference,
+  ShowAlert,
+} from '../../@types/types';
+import { ChatOutbox, generateClientMessageId } from './chatOutbox';
+import { canModerateChat, filterBlockedWords, getSlowModeWait } from './chatModeration';
+import { findMentions } from './chatMentions';
+import { checkAttachmentSize, sendAttachmentChunks } from './chatAttachments';
 
 export interface SendMessageOptions {
   member: string;
@@ -14,11 +25,18 @@ export interface SendMessageOptions {
   receivers: string[];
   group: boolean;
   sender: string;
-  socket: Socket;
+  socket: MediasfuSocket;
+  outbox?: ChatOutbox;
+  replyTo?: MessageReplyReference;
+  chatModeration?: ChatModerationSettings | null;
+  messages?: Message[];
+  attachment?: MessageAttachment;
+  attachmentData?: string;
+  updateAttachmentData?: (attachmentId: string, data: string) => void;
 }
 
 // Export the type definition for the function
-export type SendMessageType = (options: SendMessageOptions) => Promise<void>;
+export type SendMessageType = (options: SendMessageOptions) => Promise<boolean>;
 
 /**
  * Sends a message to the specified room.
@@ -37,8 +55,16 @@ export type SendMessageType = (options: SendMessageOptions) => Promise<void>;
  * @param {boolean} options.group - Indicates if the message is for a group.
  * @param {string} options.sender - The sender of the message.
  * @param {Object} options.socket - The socket instance for communication.
+ * @param {MessageReplyReference} [options.replyTo] - The message this one replies to, quoted in the reply.
+ * @param {ChatOutbox} [options.outbox] - Queues the message and retries it after a reconnect instead of emitting it directly.
+ * @param {ChatModerationSettings} [options.chatModeration] - The room's blocked words and slow mode; the host and chat co-host are exempt from slow mode.
+ * @param {Message[]} [options.messages] - The messages in the room, used to enforce slow mode.
+ * @param {MessageAttachment} [options.attachment] - Image or file sent with the message; the message text may then be empty.
+ * @param {string} [options.attachmentData] - The attachment as a data URI, sent in chunks after the message.
+ * @param {Function} [options.updateAttachmentData] - Keeps the sender's copy of the attachment data.
  *
- * @returns {Promise<void>} A promise that resolves when the message is sent.
+ * @returns {Promise<boolean>} A promise that resolves to whether the message was sent (or queued in the outbox);
+ * `false` when it was refused, after the reason has been shown through `showAlert`.
  *
  * @throws Will throw an error if the message count limit is exceeded.
  * @throws Will throw an error if the message, sender, or receivers are not valid.
@@ -67,8 +93,14 @@ export const sendMessage = async ({
   roomName,
   socket,
   chatSetting,
-}: SendMessageOptions): Promise<void> => {
-  let chatValue = false;
+  outbox,
+  replyTo,
+  chatModeration,
+  messages = [],
+  attachment,
+  attachmentData,
+  updateAttachmentData,
+}: SendMessageOptions): Promise<boolean> => {
   const normalizedReceivers = (receivers ?? []).filter(
     (receiver): receiver is string => typeof receiver === 'string' && receiver.trim().length > 0,
   );
@@ -83,16 +115,16 @@ export const sendMessage = async ({
       type: 'danger',
       duration: 3000,
     });
-    return;
+    return false;
   }
 
-  if (!message || message === '') {
+  if ((!message || message === '') && !attachment) {
     showAlert?.({
       message: 'Message is not valid.',
       type: 'danger',
       duration: 3000,
     });
-    return;
+    return false;
   }
 
   if (normalizedReceivers.length < 1 && group === false && islevel === '2') {
@@ -101,34 +133,104 @@ export const sendMessage = async ({
       type: 'danger',
       duration: 3000,
     });
-    return;
+    return false;
   }
 
-  const messageObject = {
-    sender: sender ? sender : member,
-    receivers: normalizedReceivers,
-    message,
-    timestamp: new Date().toLocaleTimeString(),
-    group: group !== undefined && group !== null ? group : false,
-  };
+  const isModerator = canModerateChat({ member, islevel, coHost, coHostResponsibility });
 
-  try {
-    chatValue = coHostResponsibility.find((item) => item.name === 'chat')?.value ?? false;
-  } catch (error) {
-    console.error(error);
+  if (!isModerator && !chatSetting) {
+    showAlert?.({
+      message: 'You are not allowed to send a message in this event room',
+      type: 'danger',
+      duration: 3000,
+    });
+    return false;
   }
 
-  if (!(islevel === '2' || (coHost === member && chatValue === true)) && !chatSetting) {
+  const filtered = filterBlockedWords(message, chatModeration?.blockedWords ?? []);
+  if (filtered.matches.length > 0 && chatModeration?.blockedWordAction === 'block') {
     showAlert?.({
-      message: 'You are not allowed to send a message in this event room',
+      message: 'Your message contains words that are not allowed in this room.',
+      type: 'danger',
+      duration: 3000,
+    });
+    return false;
+  }
+
+  const slowModeWait = isModerator
+    ? 0
+    : getSlowModeWait({
+        messages,
+        member: sender ? sender : member,
+        slowModeSeconds: chatModeration?.slowModeSeconds ?? 0,
+      });
+  if (slowModeWait > 0) {
+    showAlert?.({
+      message: `Slow mode is on. You can send another message in ${Math.ceil(slowModeWait / 1000)}s.`,
       type: 'danger',
       duration: 3000,
     });
-    return;
+    return false;
+  }
+
+  if (attachment) {
+    const sizeError = checkAttachmentSize({ size: attachment.size, roomName });
+    if (sizeError || !attachmentData) {
+      showAlert?.({
+        message: sizeError ?? 'The attachment could not be read.',
+        type: 'danger',
+        duration: 3000,
+      });
+      return false;
+    }
+
+    // attachments are too large for the outbox, so they are only sent while connected
+    if (!socket?.connected) {
+      showAlert?.({
+        message: 'Attachments cannot be sent while reconnecting.',
+        type: 'danger',
+        duration: 3000,
+      });
+      return false;
+    }
+
+    updateAttachmentData?.(attachment.id, attachmentData);
   }
 
-  socket.emit('sendMessage', {
-    messageObject,
-    roomName,
-  });
+  const clientId = generateClientMessageId();
+  const mentions = findMentions(filtered.text);
+  const messageObject: Message = {
+    sender: sender ? sender : member,
+    receivers: normalizedReceivers,
+    message: filtered.text,
+    timestamp: Date.now(),
+    group: group !== undefined && group !== null ? group : false,
+    id: clientId,
+    clientId,
+    ...(replyTo ? { replyTo } : {}),
+    ...(mentions.length > 0 ? { mentions } : {}),
+    ...(attachment ? { attachment } : {}),
+  };
+
+  if (outbox) {
+    outbox.enqueue({ roomName, messageObject, socket });
+  } else {
+    socket.emit('sendMessage', {
+      messageObject,
+      roomName,
+    });
+  }
+
+  // the chunks follow the message, which tells receivers to expect them
+  if (attachment && attachmentData) {
+    sendAttachmentChunks({
+      socket,
+      roomName,
+      attachmentId: attachment.id,
+      data: attachmentData,
+      group: messageObject.group,
+      receivers: normalizedReceivers,
+    });
+  }
+  return true;
 };
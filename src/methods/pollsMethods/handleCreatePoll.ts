@@ -1,11 +1,20 @@
 import { Socket } from 'socket.io-client';
-import { ShowAlert } from '../../@types/types';
+import { PollResultsVisibility, ShowAlert } from '../../@types/types';
 import { handleCreatePoll as sharedHandleCreatePoll } from 'mediasfu-shared';
+import { isResponsePoll } from './pollResults';
+import { getPollWarnings } from './pollTimer';
+import { DEFAULT_QUIZ_POINTS } from './quizScoring';
 
 interface NewPoll {
   question: string;
   type: string;
   options: string[];
+  maxSelections?: number; // Multi-select polls: how many options each voter may pick.
+  duration?: number; // Closes the poll automatically after this many seconds.
+  warnings?: number[]; // Seconds left at which voters are warned; defaults to `DEFAULT_POLL_WARNINGS`.
+  quiz?: { name: string; correctOption: number; points?: number }; // Makes the poll a quiz question.
+  anonymous?: boolean; // Records votes without the voters' names.
+  resultsVisibility?: PollResultsVisibility; // Who sees the results; defaults to 'everyone'.
 }
 export interface HandleCreatePollOptions {
   poll: NewPoll;
@@ -17,10 +26,17 @@ export interface HandleCreatePollOptions {
 }
 
 // Export the type definition for the function
-export type HandleCreatePollType = (options: HandleCreatePollOptions) => Promise<void>;
+export type HandleCreatePollType = (options: HandleCreatePollOptions) => Promise<boolean>;
 
 /**
  * Handles the creation of a poll by emitting a "createPoll" event with the provided details.
+ * Multi-select and ranked-choice polls need at least two options, open-text polls none. A poll
+ * with a `duration` is timed by the server, which reports the time left with every update, so each
+ * client counts down by its own clock; the host's app ends the poll when time is up (`createPollTimer`).
+ * A quiz question must be a single-answer poll with its correct option among the options, and
+ * cannot be anonymous since its standings are by name. Its correct option is sent apart from the
+ * poll (`quizAnswer`): the server keeps it until the question ends, and stamps when it opened. Anonymous polls and polls whose results
+ * are not shown to everyone carry those settings, which voters and `pollUpdated` enforce.
  *
  * @param {HandleCreatePollOptions} options - The options for creating the poll.
  * @param {NewPoll} options.poll - The poll object containing the poll question, type, and options.
@@ -28,10 +44,12 @@ export type HandleCreatePollType = (options: HandleCreatePollOptions) => Promise
  * @param {string} options.roomName - The name of the room where the poll is created.
  * @param {Function} [options.showAlert] - Optional function to show alert messages.
  * @param {Function} options.updateIsPollModalVisible - Function to toggle the poll modal visibility.
+ * @returns {Promise<boolean>} Resolves once the server answers: `true` when the poll was created, `false` when it
+ * was not valid or the server refused it.
  *
  * @example
  * ```typescript
- * handleCreatePoll({
+ * const created = await handleCreatePoll({
  *   poll: { question: "Favorite color?", type: "singleChoice", options: ["Red", "Blue", "Green"] },
  *   socket: socketInstance,
  *   roomName: "roomA",
@@ -47,12 +65,106 @@ export const handleCreatePoll = async ({
   roomName,
   showAlert,
   updateIsPollModalVisible,
-}: HandleCreatePollOptions): Promise<void> => {
-  await sharedHandleCreatePoll({
-    poll,
-    socket,
-    roomName,
-    showAlert,
-    updateIsPollModalVisible,
-  } as any);
+}: HandleCreatePollOptions): Promise<boolean> => {
+  const resultsVisibility = poll.resultsVisibility ?? 'everyone';
+  if (isResponsePoll(poll) || (poll.duration ?? 0) > 0 || poll.quiz || poll.anonymous || resultsVisibility !== 'everyone') {
+    const kept =
+      poll.type === 'openText'
+        ? []
+        : poll.options
+            .map((option, index) => ({ option: option.trim(), index }))
+            .filter(({ option }) => option);
+    const options = kept.map(({ option }) => option);
+    if (!poll.question.trim() || (poll.type !== 'openText' && options.length < 2)) {
+      showAlert?.({
+        message: poll.question.trim() ? 'Please add at least two options.' : 'Please enter a question.',
+        type: 'danger',
+      });
+      return false;
+    }
+
+    if (poll.quiz && poll.anonymous) {
+      showAlert?.({ message: 'Quiz questions cannot be anonymous.', type: 'danger' });
+      return false;
+    }
+
+    let quiz = {};
+    let quizAnswer = {};
+    if (poll.quiz) {
+      const correctOption = kept.findIndex(({ index }) => index === poll.quiz!.correctOption);
+      if (isResponsePoll(poll) || correctOption === -1) {
+        showAlert?.({
+          message: isResponsePoll(poll)
+            ? 'Quiz questions need a single-answer poll type.'
+            : 'Please choose the correct answer.',
+          type: 'danger',
+        });
+        return false;
+      }
+      quiz = {
+        quiz: {
+          name: poll.quiz.name.trim() || 'Quiz',
+          points: poll.quiz.points ?? DEFAULT_QUIZ_POINTS,
+        },
+      };
+      quizAnswer = { quizAnswer: { correctOption } };
+    }
+
+    const maxSelections =
+      poll.type === 'multiSelect'
+        ? Math.min(Math.max(Math.floor(poll.maxSelections ?? options.length), 1), options.length)
+        : undefined;
+    const duration = Math.floor(poll.duration ?? 0);
+    const timing =
+      duration > 0
+        ? { duration, warnings: getPollWarnings(duration, poll.warnings) }
+        : {};
+    const visibility = {
+      anonymous: !!poll.anonymous,
+      resultsVisibility,
+      ...(resultsVisibility === 'afterReveal' ? { resultsRevealed: false } : {}),
+    };
+    return new Promise<boolean>((resolve) => {
+      socket.emit(
+        'createPoll',
+        {
+          roomName,
+          poll: { ...poll, options, ...(maxSelections ? { maxSelections } : {}), ...timing, ...quiz, ...visibility },
+          ...quizAnswer,
+        },
+        (response: { success: boolean; reason?: string }) => {
+          if (response.success) {
+            showAlert?.({ message: 'Poll created successfully', type: 'success' });
+            updateIsPollModalVisible(false);
+          } else {
+            showAlert?.({ message: response.reason ?? 'Unable to create the poll.', type: 'danger' });
+          }
+          resolve(!!response.success);
+        },
+      );
+    });
+  }
+
+  // the shared handler reports the server's answer by closing the modal or showing an error
+  return new Promise<boolean>((resolve) => {
+    Promise.resolve(
+      sharedHandleCreatePoll({
+        poll,
+        socket,
+        roomName,
+        showAlert: (alert: Parameters<ShowAlert>[0]) => {
+          showAlert?.(alert);
+          if (alert.type === 'danger') {
+            resolve(false);
+          }
+        },
+        updateIsPollModalVisible: (visible: boolean) => {
+          updateIsPollModalVisible(visible);
+          if (!visible) {
+            resolve(true);
+          }
+        },
+      } as any),
+    ).catch(() => resolve(false));
+  });
 };
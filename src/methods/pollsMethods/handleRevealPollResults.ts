@@ -0,0 +1,53 @@
+import { Socket } from 'socket.io-client';
+import { ShowAlert } from '../../@types/types';
+
+export interface HandleRevealPollResultsOptions {
+  pollId: string;
+  socket: Socket;
+  showAlert?: ShowAlert;
+  roomName: string;
+}
+
+// Export the type definition for the function
+export type HandleRevealPollResultsType = (options: HandleRevealPollResultsOptions) => Promise<void>;
+
+/**
+ * Reveals the results of a poll created with `resultsVisibility: 'afterReveal'` to everyone in the
+ * room by emitting a "revealPollResults" event. Members see the results once the updated poll
+ * arrives through `pollUpdated`.
+ *
+ * @param {HandleRevealPollResultsOptions} options - The options for revealing the results.
+ * @param {string} options.pollId - The ID of the poll.
+ * @param {Socket} options.socket - The socket instance to emit the event.
+ * @param {Function} [options.showAlert] - Optional function to display alerts.
+ * @param {string} options.roomName - The name of the room where the poll is being conducted.
+ *
+ * @example
+ * ```typescript
+ * handleRevealPollResults({
+ *   pollId: "poll123",
+ *   socket: socketInstance,
+ *   showAlert: (message) => console.log(message),
+ *   roomName: "roomA",
+ * });
+ * ```
+ */
+
+export const handleRevealPollResults = async ({
+  pollId,
+  socket,
+  showAlert,
+  roomName,
+}: HandleRevealPollResultsOptions): Promise<void> => {
+  socket.emit(
+    'revealPollResults',
+    { roomName, poll_id: pollId },
+    (response: { success: boolean; reason?: string }) => {
+      if (response.success) {
+        showAlert?.({ message: 'Poll results revealed', type: 'success' });
+      } else {
+        showAlert?.({ message: response.reason ?? 'Unable to reveal the results.', type: 'danger' });
+      }
+    },
+  );
+};
@@ -1,10 +1,15 @@
 import { Socket } from 'socket.io-client';
-import { ShowAlert } from '../../@types/types';
+import { Poll, PollResponse, ShowAlert } from '../../@types/types';
 import { handleVotePoll as sharedHandleVotePoll } from 'mediasfu-shared';
+import { isResponsePoll, validatePollResponse } from './pollResults';
+import { isPollExpired } from './pollTimer';
+import { rememberPollVoterToken } from './pollVisibility';
 
 export interface HandleVotePollOptions {
   pollId: string;
   optionIndex: number;
+  poll?: Poll | null; // The poll voted on; needed for multi-select, ranked-choice, open-text, timed and anonymous votes.
+  response?: PollResponse; // The choices, ranking or text of the vote.
   socket: Socket;
   showAlert?: ShowAlert;
   member: string;
@@ -16,11 +21,17 @@ export interface HandleVotePollOptions {
 export type HandleVotePollType = (options: HandleVotePollOptions) => Promise<void>;
 
 /**
- * Handles the voting process for a poll.
+ * Handles the voting process for a poll. Multi-select, ranked-choice and open-text polls send
+ * the whole `response`, which is validated first. Votes on a timed poll whose time is up are refused.
+ * The server times answers to quiz questions when it receives them, for the speed bonus. On anonymous
+ * polls the server records the vote under an opaque voter token instead of the member's name and
+ * returns the token, which is kept so the member can find their own vote (`getPollVoterKey`).
  *
  * @param {HandleVotePollOptions} options - The options for handling the vote.
  * @param {string} options.pollId - The ID of the poll.
  * @param {number} options.optionIndex - The index of the selected option.
+ * @param {Poll} [options.poll] - The poll voted on.
+ * @param {PollResponse} [options.response] - The choices, ranking or text of the vote.
  * @param {Socket} options.socket - The socket instance for communication.
  * @param {Function} [options.showAlert] - Optional function to show alerts.
  * @param {string} options.member - The member who is voting.
@@ -44,12 +55,52 @@ export type HandleVotePollType = (options: HandleVotePollOptions) => Promise<voi
 export const handleVotePoll = async ({
   pollId,
   optionIndex,
+  poll,
+  response,
   socket,
   showAlert,
   member,
   roomName,
   updateIsPollModalVisible,
 }: HandleVotePollOptions): Promise<void> => {
+  if (isPollExpired(poll)) {
+    showAlert?.({ message: 'Voting on this poll has closed.', type: 'danger' });
+    return;
+  }
+
+  if (poll && (isResponsePoll(poll) || poll.quiz || poll.anonymous)) {
+    const vote = response ?? (isResponsePoll(poll) ? {} : { choices: [optionIndex] });
+    const reason = validatePollResponse(poll, vote);
+    if (reason) {
+      showAlert?.({ message: reason, type: 'danger' });
+      return;
+    }
+
+    socket.emit(
+      'votePoll',
+      {
+        roomName,
+        poll_id: pollId,
+        member,
+        choice: vote.choices?.[0] ?? -1,
+        ...(vote.choices ? { choices: vote.choices } : {}),
+        ...(vote.text !== undefined ? { text: vote.text.trim() } : {}),
+      },
+      (ack: { success: boolean; reason?: string; voterToken?: string }) => {
+        if (ack.success) {
+          if (poll.anonymous && ack.voterToken) {
+            rememberPollVoterToken(pollId, ack.voterToken);
+          }
+          showAlert?.({ message: 'Vote submitted successfully', type: 'success' });
+          updateIsPollModalVisible(false);
+        } else {
+          showAlert?.({ message: ack.reason ?? 'Unable to submit your vote.', type: 'danger' });
+        }
+      },
+    );
+    return;
+  }
+
   await sharedHandleVotePoll({
     pollId,
     optionIndex,
@@ -0,0 +1,301 @@
+import { Share } from 'react-native';
+import { ShowAlert } from '../../@types/types';
+import { MediasfuStorage, resolveMediasfuStorage } from '../utils/storage/mediasfuStorage';
+import { getMediasfuLogger } from '../utils/logger/mediasfuLogger';
+import { HandleCreatePollOptions } from './handleCreatePoll';
+import { isResponsePoll, POLL_TYPES } from './pollResults';
+import { POLL_RESULTS_VISIBILITY } from './pollVisibility';
+
+const logger = getMediasfuLogger('polls');
+
+// Version written into exported poll sets.
+export const POLL_SET_VERSION = 1;
+
+export type PollDraftContent = HandleCreatePollOptions['poll'];
+
+export interface PollDraft extends PollDraftContent {
+  id: string;
+}
+
+export interface PollTemplate extends PollDraftContent {
+  id: string;
+  name: string;
+}
+
+export interface PollSet {
+  version: number;
+  polls: PollDraftContent[];
+}
+
+export interface CreatePollDraftStoreOptions {
+  storage?: MediasfuStorage | null;
+  keyPrefix?: string;
+  templatesKey?: string;
+}
+
+export interface PollDraftStore {
+  loadDrafts: (roomName: string) => Promise<PollDraft[]>;
+  saveDrafts: (roomName: string, drafts: PollDraft[]) => Promise<void>;
+  loadTemplates: () => Promise<PollTemplate[]>;
+  saveTemplates: (templates: PollTemplate[]) => Promise<void>;
+}
+
+export interface ExportPollSetOptions {
+  polls: PollDraftContent[];
+  roomName: string;
+  showAlert?: ShowAlert;
+}
+
+// Export the type definition for the function
+export type CreatePollDraftIdType = () => string;
+export type ValidatePollDraftType = (poll: PollDraftContent) => string | null;
+export type ToPollDraftContentType = (poll: PollDraftContent) => PollDraftContent;
+export type FormatPollSetType = (polls: PollDraftContent[]) => string;
+export type ParsePollSetType = (text: string) => PollDraftContent[] | null;
+export type CreatePollDraftStoreType = (options?: CreatePollDraftStoreOptions) => PollDraftStore;
+export type ExportPollSetType = (options: ExportPollSetOptions) => Promise<void>;
+
+/**
+ * Creates an id for a new poll draft or template.
+ *
+ * @returns {string} The id.
+ */
+export const createPollDraftId: CreatePollDraftIdType = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Checks that a poll can be launched as it is, so drafts that would be rejected at launch time are
+ * caught when they are saved.
+ *
+ * @param {PollDraftContent} poll - The poll.
+ * @returns {string | null} Why the poll cannot be launched, or `null` when it can.
+ *
+ * @example
+ * ```typescript
+ * validatePollDraft({ question: '', type: 'yesNo', options: ['Yes', 'No'] }); // 'Please enter a question.'
+ * ```
+ */
+export const validatePollDraft: ValidatePollDraftType = (poll) => {
+  if (!poll.question.trim()) {
+    return 'Please enter a question.';
+  }
+  if (!POLL_TYPES.some((type) => type.value === poll.type)) {
+    return 'Please select a poll type.';
+  }
+  const options = poll.options.filter((option) => option.trim());
+  if (poll.type !== 'openText' && options.length < 2) {
+    return 'Please add at least two options.';
+  }
+  if (poll.quiz && isResponsePoll(poll)) {
+    return 'Quiz questions need a single-answer poll type.';
+  }
+  if (poll.quiz && !poll.options[poll.quiz.correctOption]?.trim()) {
+    return 'Please choose the correct answer.';
+  }
+  if (poll.quiz && poll.anonymous) {
+    return 'Quiz questions cannot be anonymous.';
+  }
+  return null;
+};
+
+/**
+ * Keeps only the fields of a poll that `handleCreatePoll` reads, dropping ids, template names and
+ * anything else a draft or imported poll carries.
+ *
+ * @param {PollDraftContent} poll - The poll.
+ * @returns {PollDraftContent} The poll as it is launched.
+ */
+export const toPollDraftContent: ToPollDraftContentType = ({
+  question,
+  type,
+  options,
+  maxSelections,
+  duration,
+  warnings,
+  quiz,
+  anonymous,
+  resultsVisibility,
+}) => ({
+  question,
+  type,
+  options: type === 'openText' ? [] : Array.from(options, (option) => option ?? ''),
+  ...(maxSelections !== undefined ? { maxSelections } : {}),
+  ...(duration ? { duration } : {}),
+  ...(warnings ? { warnings } : {}),
+  ...(quiz ? { quiz } : {}),
+  ...(anonymous ? { anonymous } : {}),
+  ...(resultsVisibility && resultsVisibility !== 'everyone' ? { resultsVisibility } : {}),
+});
+
+/**
+ * Formats polls as a poll set, the JSON that `parsePollSet` reads back.
+ *
+ * @param {PollDraftContent[]} polls - The polls.
+ * @returns {string} The poll set as JSON.
+ */
+export const formatPollSet: FormatPollSetType = (polls) =>
+  JSON.stringify({ version: POLL_SET_VERSION, polls: polls.map(toPollDraftContent) } as PollSet, null, 2);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0);
+
+/**
+ * Reads a poll set exported by `formatPollSet`. A bare array of polls is accepted as well.
+ *
+ * @param {string} text - The JSON.
+ * @returns {PollDraftContent[] | null} The polls, or `null` when the text is not a poll set or any
+ * of its polls could not be launched.
+ *
+ * @example
+ * ```typescript
+ * const polls = parsePollSet('{"version":1,"polls":[{"question":"Ready?","type":"yesNo","options":["Yes","No"]}]}');
+ * ```
+ */
+export const parsePollSet: ParsePollSetType = (text) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as Partial<PollSet> | null)?.polls;
+  if (!Array.isArray(items) || items.length === 0) {
+    return null;
+  }
+
+  const polls: PollDraftContent[] = [];
+  for (const item of items) {
+    if (
+      !item ||
+      typeof item.question !== 'string' ||
+      typeof item.type !== 'string' ||
+      !isStringArray(item.options ?? []) ||
+      !isOptionalNumber(item.maxSelections) ||
+      !isOptionalNumber(item.duration) ||
+      (item.warnings !== undefined &&
+        !(Array.isArray(item.warnings) && item.warnings.every((value: unknown) => typeof value === 'number'))) ||
+      (item.quiz !== undefined &&
+        (typeof item.quiz?.name !== 'string' || typeof item.quiz?.correctOption !== 'number')) ||
+      (item.anonymous !== undefined && typeof item.anonymous !== 'boolean') ||
+      (item.resultsVisibility !== undefined &&
+        !POLL_RESULTS_VISIBILITY.some((option) => option.value === item.resultsVisibility))
+    ) {
+      return null;
+    }
+    const poll = toPollDraftContent({ ...item, options: item.options ?? [] });
+    if (validatePollDraft(poll)) {
+      return null;
+    }
+    polls.push(poll);
+  }
+  return polls;
+};
+
+const readList = async <T>(storage: MediasfuStorage | null | undefined, key: string): Promise<T[]> => {
+  const stored = await resolveMediasfuStorage(storage).getItem(key);
+  const list = stored ? JSON.parse(stored) : [];
+  return Array.isArray(list) ? list : [];
+};
+
+/**
+ * Creates the store for poll drafts and templates, backed by `MediasfuStorage`. Drafts are queued
+ * per room, so hosts can prepare a meeting's polls ahead of time; templates are shared by every room.
+ *
+ * @param {CreatePollDraftStoreOptions} [options] - The options for the store.
+ * @param {MediasfuStorage} [options.storage] - Where to keep the polls; the default MediaSFU storage when not set.
+ * @param {string} [options.keyPrefix='mediasfuPollDrafts:'] - Prefix of the per-room draft keys.
+ * @param {string} [options.templatesKey='mediasfuPollTemplates'] - Key of the templates.
+ * @returns {PollDraftStore} The store.
+ *
+ * @example
+ * ```typescript
+ * const pollDrafts = createPollDraftStore({ storage });
+ *
+ * const drafts = await pollDrafts.loadDrafts(roomName);
+ * await pollDrafts.saveDrafts(roomName, [...drafts, { ...newPoll, id: createPollDraftId() }]);
+ * ```
+ */
+export const createPollDraftStore: CreatePollDraftStoreType = ({
+  storage,
+  keyPrefix = 'mediasfuPollDrafts:',
+  templatesKey = 'mediasfuPollTemplates',
+} = {}) => {
+  const keyFor = (roomName: string) => `${keyPrefix}${roomName}`;
+
+  const loadDrafts: PollDraftStore['loadDrafts'] = async (roomName) => {
+    if (!roomName) {
+      return [];
+    }
+    try {
+      return await readList<PollDraft>(storage, keyFor(roomName));
+    } catch (error) {
+      logger.error('error loading poll drafts', error);
+      return [];
+    }
+  };
+
+  const saveDrafts: PollDraftStore['saveDrafts'] = async (roomName, drafts) => {
+    if (!roomName) {
+      return;
+    }
+    try {
+      if (drafts.length === 0) {
+        await resolveMediasfuStorage(storage).removeItem(keyFor(roomName));
+      } else {
+        await resolveMediasfuStorage(storage).setItem(keyFor(roomName), JSON.stringify(drafts));
+      }
+    } catch (error) {
+      logger.error('error saving poll drafts', error);
+    }
+  };
+
+  const loadTemplates: PollDraftStore['loadTemplates'] = async () => {
+    try {
+      return await readList<PollTemplate>(storage, templatesKey);
+    } catch (error) {
+      logger.error('error loading poll templates', error);
+      return [];
+    }
+  };
+
+  const saveTemplates: PollDraftStore['saveTemplates'] = async (templates) => {
+    try {
+      await resolveMediasfuStorage(storage).setItem(templatesKey, JSON.stringify(templates));
+    } catch (error) {
+      logger.error('error saving poll templates', error);
+    }
+  };
+
+  return { loadDrafts, saveDrafts, loadTemplates, saveTemplates };
+};
+
+/**
+ * Exports polls as a poll set through the share sheet, to be imported in another room or app.
+ *
+ * @param {ExportPollSetOptions} options - The options for the export.
+ * @param {PollDraftContent[]} options.polls - The polls.
+ * @param {string} options.roomName - The name of the room.
+ * @param {ShowAlert} [options.showAlert] - Function to show alert messages.
+ * @returns {Promise<void>} A promise that resolves once the share sheet is closed.
+ *
+ * @example
+ * ```typescript
+ * await exportPollSet({ polls: drafts, roomName, showAlert });
+ * ```
+ */
+export const exportPollSet: ExportPollSetType = async ({ polls, roomName, showAlert }) => {
+  if (polls.length === 0) {
+    showAlert?.({ message: 'There are no polls to export', type: 'danger', duration: 3000 });
+    return;
+  }
+
+  try {
+    await Share.share({ title: `Polls: ${roomName}`, message: formatPollSet(polls) });
+  } catch (error) {
+    logger.error('error exporting poll set', error);
+    showAlert?.({ message: 'Unable to export the polls.', type: 'danger', duration: 3000 });
+  }
+};
@@ -0,0 +1,231 @@
+import { Poll, PollResponse } from '../../@types/types';
+
+export const POLL_TYPES: { label: string; value: string }[] = [
+  { label: 'True / False', value: 'trueFalse' },
+  { label: 'Yes / No', value: 'yesNo' },
+  { label: 'Custom', value: 'custom' },
+  { label: 'Multiple choice (pick up to N)', value: 'multiSelect' },
+  { label: 'Ranked choice', value: 'rankedChoice' },
+  { label: 'Open text', value: 'openText' },
+];
+
+// Longest open-text answer, in characters.
+export const MAX_OPEN_TEXT_LENGTH = 280;
+
+export interface RankedChoiceRound {
+  counts: number[]; // Ballots for each option in this round; eliminated options count 0.
+  eliminated: number | null; // The option eliminated after this round, or `null` in the final round.
+}
+
+export interface RankedChoiceResult {
+  rounds: RankedChoiceRound[];
+  winner: number | null; // The winning option, or `null` when no ballot was cast or the last options tie.
+  ballots: number;
+}
+
+export interface WordCount {
+  word: string;
+  count: number;
+}
+
+// Export the type definition for the function
+export type GetPollOptionsForTypeType = (type: string) => string[];
+export type IsResponsePollType = (poll: Pick<Poll, 'type'> | null | undefined) => boolean;
+export type ValidatePollResponseType = (poll: Poll, response: PollResponse) => string | null;
+export type TallyPollVotesType = (poll: Poll) => number[];
+export type TallyRankedChoiceType = (poll: Poll) => RankedChoiceResult;
+export type SummarizeOpenTextType = (poll: Poll, limit?: number) => WordCount[];
+
+const RESPONSE_POLL_TYPES = ['multiSelect', 'rankedChoice', 'openText'];
+
+// Common words left out of the open-text summary.
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by for from has have i in is it its of on or so that the this to was we were ' +
+    'will with you your our they them not no yes can just very more most'
+  ).split(' '),
+);
+
+/**
+ * Returns the options a new poll of the given type starts with: fixed answers for true/false and
+ * yes/no polls, one blank option for polls with custom options, and none for open-text polls.
+ *
+ * @param {string} type - The poll type.
+ * @returns {string[]} The starting options.
+ */
+export const getPollOptionsForType: GetPollOptionsForTypeType = (type) => {
+  switch (type) {
+    case 'trueFalse':
+      return ['True', 'False'];
+    case 'yesNo':
+      return ['Yes', 'No'];
+    case 'custom':
+    case 'multiSelect':
+    case 'rankedChoice':
+      return [''];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Checks whether a poll collects full responses (several choices, a ranking or text) rather than
+ * one option index per voter.
+ *
+ * @param {Poll} poll - The poll.
+ * @returns {boolean} Whether votes carry a `PollResponse`.
+ */
+export const isResponsePoll: IsResponsePollType = (poll) => !!poll && RESPONSE_POLL_TYPES.includes(poll.type);
+
+/**
+ * Validates a vote before it is sent.
+ *
+ * @param {Poll} poll - The poll being voted on.
+ * @param {PollResponse} response - The vote.
+ * @returns {string | null} The reason the vote is not valid, or `null`.
+ *
+ * @example
+ * ```typescript
+ * validatePollResponse({ ...poll, type: 'multiSelect', maxSelections: 2 }, { choices: [0, 1, 2] });
+ * // 'Choose up to 2 options.'
+ * ```
+ */
+export const validatePollResponse: ValidatePollResponseType = (poll, response) => {
+  if (poll.type === 'openText') {
+    const text = response.text?.trim() ?? '';
+    if (!text) {
+      return 'Please enter an answer.';
+    }
+    return text.length > MAX_OPEN_TEXT_LENGTH
+      ? `Answers are limited to ${MAX_OPEN_TEXT_LENGTH} characters.`
+      : null;
+  }
+
+  const choices = response.choices ?? [];
+  if (choices.length === 0) {
+    return 'Please choose an option.';
+  }
+  if (
+    new Set(choices).size !== choices.length ||
+    choices.some((choice) => !Number.isInteger(choice) || choice < 0 || choice >= poll.options.length)
+  ) {
+    return 'Your vote is not valid.';
+  }
+  const maxSelections = poll.maxSelections ?? poll.options.length;
+  if (poll.type === 'multiSelect' && choices.length > maxSelections) {
+    return `Choose up to ${maxSelections} option${maxSelections === 1 ? '' : 's'}.`;
+  }
+  return null;
+};
+
+/**
+ * Counts the votes of each option from the poll's responses: every selection of a multi-select
+ * poll, and the first preference of each ranked-choice ballot. Other polls keep their `votes`.
+ *
+ * @param {Poll} poll - The poll.
+ * @returns {number[]} The votes of each option.
+ */
+export const tallyPollVotes: TallyPollVotesType = (poll) => {
+  if (!poll.responses || (poll.type !== 'multiSelect' && poll.type !== 'rankedChoice')) {
+    return poll.votes;
+  }
+
+  const votes = poll.options.map(() => 0);
+  Object.values(poll.responses).forEach((response) => {
+    const choices = response.choices ?? [];
+    (poll.type === 'rankedChoice' ? choices.slice(0, 1) : choices).forEach((choice) => {
+      if (choice >= 0 && choice < votes.length) {
+        votes[choice] += 1;
+      }
+    });
+  });
+  return votes;
+};
+
+/**
+ * Runs an instant-runoff count of a ranked-choice poll. Each round counts every ballot for its
+ * highest-ranked option still in the race; an option with a majority of those ballots wins,
+ * otherwise the option with the fewest is eliminated. Ties for last are broken by first
+ * preferences, then by option order.
+ *
+ * @param {Poll} poll - The ranked-choice poll.
+ * @returns {RankedChoiceResult} The rounds and the winner.
+ *
+ * @example
+ * ```typescript
+ * const { winner, rounds } = tallyRankedChoice(poll);
+ * ```
+ */
+export const tallyRankedChoice: TallyRankedChoiceType = (poll) => {
+  const ballots = Object.values(poll.responses ?? {})
+    .map((response) => response.choices ?? [])
+    .filter((choices) => choices.length > 0);
+  const firstPreferences = tallyPollVotes({ ...poll, type: 'rankedChoice' });
+  const remaining = new Set(poll.options.map((_, index) => index));
+  const rounds: RankedChoiceRound[] = [];
+
+  if (ballots.length === 0 || remaining.size === 0) {
+    return { rounds, winner: null, ballots: ballots.length };
+  }
+
+  while (remaining.size > 0) {
+    const counts = poll.options.map(() => 0);
+    let active = 0;
+    ballots.forEach((choices) => {
+      const choice = choices.find((option) => remaining.has(option));
+      if (choice !== undefined) {
+        counts[choice] += 1;
+        active += 1;
+      }
+    });
+
+    const leader = Array.from(remaining).reduce((best, option) => (counts[option] > counts[best] ? option : best));
+    if (counts[leader] * 2 > active || remaining.size === 1) {
+      rounds.push({ counts, eliminated: null });
+      return { rounds, winner: active > 0 ? leader : null, ballots: ballots.length };
+    }
+
+    const lowest = Math.min(...Array.from(remaining).map((option) => counts[option]));
+    const tied = Array.from(remaining).filter((option) => counts[option] === lowest);
+    if (tied.length === remaining.size) {
+      rounds.push({ counts, eliminated: null });
+      return { rounds, winner: null, ballots: ballots.length };
+    }
+
+    const eliminated = tied.reduce((loser, option) =>
+      firstPreferences[option] < firstPreferences[loser] ? option : loser,
+    );
+    rounds.push({ counts, eliminated });
+    remaining.delete(eliminated);
+  }
+
+  return { rounds, winner: null, ballots: ballots.length };
+};
+
+/**
+ * Summarizes the answers of an open-text poll as word counts for a word cloud. Words are
+ * lower-cased, and common words and words shorter than three letters are left out.
+ *
+ * @param {Poll} poll - The open-text poll.
+ * @param {number} [limit=30] - How many words to return.
+ * @returns {WordCount[]} The most frequent words, most frequent first.
+ */
+export const summarizeOpenText: SummarizeOpenTextType = (poll, limit = 30) => {
+  const counts = new Map<string, number>();
+  Object.values(poll.responses ?? {}).forEach((response) => {
+    // each answer counts a word once, so repeating a word does not weigh it more
+    const words = new Set(
+      (response.text ?? '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}']+/u)
+        .map((word) => word.replace(/^'+|'+$/g, ''))
+        .filter((word) => word.length > 2 && !STOP_WORDS.has(word)),
+    );
+    words.forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((first, second) => second.count - first.count || first.word.localeCompare(second.word))
+    .slice(0, limit);
+};
@@ -0,0 +1,222 @@
+import { Poll } from '../../@types/types';
+
+// Seconds left at which voters are warned that a timed poll is about to close.
+export const DEFAULT_POLL_WARNINGS = [60, 10];
+
+export const POLL_DURATIONS: { label: string; value: number }[] = [
+  { label: 'No time limit', value: 0 },
+  { label: '30 seconds', value: 30 },
+  { label: '1 minute', value: 60 },
+  { label: '2 minutes', value: 120 },
+  { label: '5 minutes', value: 300 },
+  { label: '10 minutes', value: 600 },
+];
+
+export interface CreatePollTimerOptions {
+  onWarning: (secondsLeft: number, poll: Poll) => void;
+  onExpire: (poll: Poll) => void;
+  tickMs?: number;
+}
+
+export interface GetLocalPollDeadlineOptions {
+  poll: Poll;
+  timeLeft?: number;
+  previous?: Poll | null;
+  started?: boolean;
+  now?: number;
+}
+
+export interface PollTimer {
+  sync: (poll: Poll | null | undefined) => void;
+  clear: () => void;
+}
+
+// Export the type definition for the function
+export type GetLocalPollDeadlineType = (options: GetLocalPollDeadlineOptions) => number | undefined;
+export type GetPollTimeRemainingType = (poll: Poll | null | undefined, now?: number) => number | null;
+export type IsPollExpiredType = (poll: Poll | null | undefined, now?: number) => boolean;
+export type FormatPollCountdownType = (seconds: number) => string;
+export type GetPollWarningsType = (duration: number, warnings?: number[]) => number[];
+export type ParsePollWarningsType = (text: string) => number[];
+export type CreatePollTimerType = (options: CreatePollTimerOptions) => PollTimer;
+
+/**
+ * Works out when an active timed poll closes by this device's clock. Deadlines are not shared
+ * between devices, whose clocks may disagree: the server reports the time left on the poll, which
+ * is counted from when the update arrives. Without it, the deadline already known for the poll is
+ * kept, and a poll that has just started closes `duration` seconds from now.
+ *
+ * @param {GetLocalPollDeadlineOptions} options - The options for the deadline.
+ * @param {Poll} options.poll - The poll from the update.
+ * @param {number} [options.timeLeft] - The milliseconds left, as reported by the server.
+ * @param {Poll} [options.previous] - The same poll as it was known before the update.
+ * @param {boolean} [options.started=false] - Whether the update announces the poll.
+ * @param {number} [options.now=Date.now()] - The current time.
+ * @returns {number | undefined} The deadline, or `undefined` for polls without a running time limit.
+ *
+ * @example
+ * ```typescript
+ * const endsAt = getLocalPollDeadline({ poll: data.poll, timeLeft: data.timeLeft, previous: poll });
+ * ```
+ */
+export const getLocalPollDeadline: GetLocalPollDeadlineType = ({
+  poll,
+  timeLeft,
+  previous,
+  started = false,
+  now = Date.now(),
+}) => {
+  if (poll.status !== 'active' || !poll.duration) {
+    return undefined;
+  }
+
+  const known = previous?.id === poll.id && typeof previous.endsAt === 'number' ? previous.endsAt : undefined;
+  if (typeof timeLeft === 'number') {
+    const endsAt = now + Math.max(0, timeLeft);
+    // keep the known deadline through small delivery delays, so the countdown does not jump
+    return known !== undefined && Math.abs(known - endsAt) < 1000 ? known : endsAt;
+  }
+  if (known !== undefined) {
+    return known;
+  }
+  return started ? now + poll.duration * 1000 : undefined;
+};
+
+/**
+ * Returns the seconds left before a timed poll closes.
+ *
+ * @param {Poll} poll - The poll.
+ * @param {number} [now=Date.now()] - The current time.
+ * @returns {number | null} The whole seconds left, never below 0, or `null` for polls without a time limit.
+ */
+export const getPollTimeRemaining: GetPollTimeRemainingType = (poll, now = Date.now()) => {
+  if (!poll || typeof poll.endsAt !== 'number') {
+    return null;
+  }
+  return Math.max(0, Math.ceil((poll.endsAt - now) / 1000));
+};
+
+/**
+ * Checks whether the time limit of a poll has passed. Polls without a time limit never expire.
+ *
+ * @param {Poll} poll - The poll.
+ * @param {number} [now=Date.now()] - The current time.
+ * @returns {boolean} Whether voting has closed.
+ */
+export const isPollExpired: IsPollExpiredType = (poll, now = Date.now()) =>
+  getPollTimeRemaining(poll, now) === 0;
+
+/**
+ * Formats the time left on a poll as a countdown, e.g. `'1:05'`.
+ *
+ * @param {number} seconds - The seconds left.
+ * @returns {string} The countdown.
+ */
+export const formatPollCountdown: FormatPollCountdownType = (seconds) => {
+  const safeSeconds = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(safeSeconds / 60)}:${String(safeSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Returns the warning thresholds that fit in a poll's duration.
+ *
+ * @param {number} duration - The duration of the poll, in seconds.
+ * @param {number[]} [warnings=DEFAULT_POLL_WARNINGS] - The seconds left at which to warn.
+ * @returns {number[]} The distinct thresholds shorter than the duration, largest first.
+ *
+ * @example
+ * ```typescript
+ * getPollWarnings(30); // [10]
+ * ```
+ */
+export const getPollWarnings: GetPollWarningsType = (duration, warnings = DEFAULT_POLL_WARNINGS) =>
+  Array.from(new Set(warnings.map((seconds) => Math.floor(seconds))))
+    .filter((seconds) => seconds > 0 && seconds < duration)
+    .sort((first, second) => second - first);
+
+/**
+ * Reads warning thresholds typed as a comma-separated list of seconds, e.g. `'60, 10'`.
+ *
+ * @param {string} text - The typed thresholds.
+ * @returns {number[]} The positive whole numbers in the text.
+ */
+export const parsePollWarnings: ParsePollWarningsType = (text) =>
+  text
+    .split(/[,\s]+/)
+    .map((value) => parseInt(value, 10))
+    .filter((value) => value > 0);
+
+/**
+ * Tracks the active timed poll: calls `onWarning` as each of the poll's warning thresholds is
+ * reached and `onExpire` once its time is up. Call `sync` whenever the current poll changes;
+ * thresholds that had already passed when a poll is first seen are skipped.
+ *
+ * The timer runs in the app, so it stops when the app is closed and may be paused while it is in
+ * the background. A poll ended from the host's `onExpire` therefore only closes on time while the
+ * host's app is open; otherwise voters' apps refuse votes once their countdown is over, and the poll
+ * stays open until the host ends it (or the server ends timed polls itself).
+ *
+ * @param {CreatePollTimerOptions} options - The options for the timer.
+ * @param {Function} options.onWarning - Called with the seconds left and the poll at each threshold.
+ * @param {Function} options.onExpire - Called with the poll when its time is up.
+ * @param {number} [options.tickMs=1000] - How often the time left is checked.
+ * @returns {PollTimer} The timer.
+ *
+ * @example
+ * ```typescript
+ * const pollTimer = createPollTimer({
+ *   onWarning: (seconds) => showAlert({ message: `The poll closes in ${seconds} seconds`, type: 'danger' }),
+ *   onExpire: (poll) => handleEndPoll({ pollId: poll.id, socket, roomName, updateIsPollModalVisible }),
+ * });
+ * pollTimer.sync(poll);
+ * ```
+ */
+export const createPollTimer: CreatePollTimerType = ({ onWarning, onExpire, tickMs = 1000 }) => {
+  let current: { key: string; interval: ReturnType<typeof setInterval> } | null = null;
+  let expiredKey: string | null = null;
+
+  const clear = () => {
+    if (current) {
+      clearInterval(current.interval);
+      current = null;
+    }
+  };
+
+  const sync: PollTimer['sync'] = (poll) => {
+    const remaining = getPollTimeRemaining(poll);
+    if (!poll || poll.status !== 'active' || remaining === null) {
+      clear();
+      return;
+    }
+
+    const key = `${poll.id}:${poll.endsAt}`;
+    if (current?.key === key || expiredKey === key) {
+      return;
+    }
+    clear();
+
+    const pending = getPollWarnings(poll.duration ?? Infinity, poll.warnings).filter(
+      (seconds) => seconds < remaining,
+    );
+    const check = () => {
+      const secondsLeft = getPollTimeRemaining(poll) ?? 0;
+      if (secondsLeft === 0) {
+        clear();
+        expiredKey = key;
+        onExpire(poll);
+        return;
+      }
+      while (pending.length > 0 && secondsLeft <= pending[0]) {
+        const threshold = pending.shift()!;
+        if (pending.length === 0 || secondsLeft > pending[0]) {
+          onWarning(threshold, poll);
+        }
+      }
+    };
+
+    current = { key, interval: setInterval(check, tickMs) };
+    check();
+  };
+
+  return { sync, clear };
+};
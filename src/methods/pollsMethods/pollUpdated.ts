@@ -1,5 +1,9 @@
 import { Poll, ShowAlert, PollUpdatedData } from '../../@types/types';
 import { pollUpdated as sharedPollUpdated } from 'mediasfu-shared';
+import { isResponsePoll, tallyPollVotes } from './pollResults';
+import { getQuizScore } from './quizScoring';
+import { redactPollResults } from './pollVisibility';
+import { getLocalPollDeadline } from './pollTimer';
 
 export interface PollUpdatedOptions {
   data: PollUpdatedData;
@@ -7,6 +11,7 @@ export interface PollUpdatedOptions {
   poll: Poll;
   member: string;
   islevel: string;
+  youAreCoHost?: boolean;
   showAlert?: ShowAlert;
   updatePolls: (polls: Poll[]) => void;
   updatePoll: (poll: Poll) => void;
@@ -17,7 +22,12 @@ export interface PollUpdatedOptions {
 export type PollUpdatedType = (options: PollUpdatedOptions) => Promise<void>;
 
 /**
- * Updates the poll state based on the provided data.
+ * Updates the poll state based on the provided data. The votes of multi-select and ranked-choice
+ * polls are counted again from their responses, so every client shows the same tally. When a
+ * quiz question ends, members who answered are told whether they were right and what they scored.
+ * Results the member may not see (`canViewPollResults`) are stripped before they are stored.
+ * Timed polls get a deadline by this device's clock, from the time left the server reports
+ * (`getLocalPollDeadline`).
  *
  * @param {Object} options - The options for updating the poll.
  * @param {any} options.data - The data containing poll information.
@@ -25,6 +35,7 @@ export type PollUpdatedType = (options: PollUpdatedOptions) => Promise<void>;
  * @param {any} options.poll - The current poll.
  * @param {string} options.member - The member identifier.
  * @param {string} options.islevel - The level of the member.
+ * @param {boolean} [options.youAreCoHost] - Whether the member is a co-host, who sees results kept to the hosts.
  * @param {Function} options.showAlert - Function to show alerts.
  * @param {Function} options.updatePolls - Function to update the list of polls.
  * @param {Function} options.updatePoll - Function to update the current poll.
@@ -48,5 +59,42 @@ export type PollUpdatedType = (options: PollUpdatedOptions) => Promise<void>;
  */
 
 export const pollUpdated = async (options: PollUpdatedOptions): Promise<void> => {
-  await sharedPollUpdated(options as any);
+  const { data, member, islevel, youAreCoHost } = options;
+  const withLocalDeadline = (poll: Poll): Poll => {
+    const endsAt = getLocalPollDeadline({
+      poll,
+      timeLeft: data.timeLeft,
+      previous: [options.poll, ...(options.polls ?? [])].find((known) => known?.id === poll.id),
+      started: data.status === 'started',
+    });
+    return endsAt === undefined ? poll : { ...poll, endsAt };
+  };
+  const toVisiblePoll = (poll: Poll) =>
+    redactPollResults({
+      poll: withLocalDeadline(isResponsePoll(poll) ? { ...poll, votes: tallyPollVotes(poll) } : poll),
+      member,
+      islevel,
+      youAreCoHost,
+    });
+
+  await sharedPollUpdated({
+    ...options,
+    data: {
+      ...data,
+      ...(data.polls ? { polls: data.polls.map(toVisiblePoll) } : {}),
+      ...(data.poll ? { poll: toVisiblePoll(data.poll) } : {}),
+    },
+  } as any);
+
+  const ended = data.status === 'ended' ? data.poll : undefined;
+  if (ended?.quiz?.correctOption !== undefined && ended.voters?.[options.member] !== undefined) {
+    const score = getQuizScore(ended, options.member);
+    options.showAlert?.({
+      message:
+        score > 0
+          ? `Correct! +${score} points`
+          : `The correct answer was ${ended.options[ended.quiz.correctOption]}`,
+      type: 'success',
+    });
+  }
 };
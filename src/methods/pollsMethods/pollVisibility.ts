@@ -0,0 +1,118 @@
+import { Poll, PollResultsVisibility } from '../../@types/types';
+
+export const POLL_RESULTS_VISIBILITY: { label: string; value: PollResultsVisibility }[] = [
+  { label: 'Everyone', value: 'everyone' },
+  { label: 'Everyone, once the host reveals them', value: 'afterReveal' },
+  { label: 'Host and co-hosts only', value: 'hostsOnly' },
+];
+
+export interface CanViewPollResultsOptions {
+  poll: Poll;
+  islevel: string;
+  youAreCoHost?: boolean;
+}
+
+export interface RedactPollResultsOptions extends CanViewPollResultsOptions {
+  member: string;
+}
+
+// Export the type definition for the function
+export type RememberPollVoterTokenType = (pollId: string, token: string) => void;
+export type GetPollVoterKeyType = (poll: Poll | null | undefined, member: string) => string | null;
+export type CanViewPollResultsType = (options: CanViewPollResultsOptions) => boolean;
+export type GetHiddenResultsMessageType = (poll: Poll) => string;
+export type RedactPollResultsType = (options: RedactPollResultsOptions) => Poll;
+
+// The voter tokens the server handed this client, by poll id.
+const voterTokens = new Map<string, string>();
+
+/**
+ * Keeps the voter token the server returned for a vote on an anonymous poll. The server records
+ * votes on anonymous polls under an opaque token it issues per poll and voter, and strips the
+ * voter's name; the token is the only way a client can find its own vote again.
+ *
+ * @param {string} pollId - The ID of the poll.
+ * @param {string} token - The voter token from the vote acknowledgement.
+ */
+export const rememberPollVoterToken: RememberPollVoterTokenType = (pollId, token) => {
+  voterTokens.set(pollId, token);
+};
+
+/**
+ * Returns the key a member's vote is recorded under: the member's name, or on anonymous polls the
+ * voter token the server handed back when the member voted.
+ *
+ * @param {Poll | null} poll - The poll.
+ * @param {string} member - The member.
+ * @returns {string | null} The key of the member's vote in `voters` and `responses`, or `null` on
+ * anonymous polls the member has not voted on from this client.
+ *
+ * @example
+ * ```typescript
+ * const key = getPollVoterKey(poll, member);
+ * const myVote = key ? poll.voters?.[key] : undefined;
+ * ```
+ */
+export const getPollVoterKey: GetPollVoterKeyType = (poll, member) =>
+  poll?.anonymous ? voterTokens.get(poll.id) ?? null : member;
+
+/**
+ * Checks whether a member may see a poll's results. The host and co-hosts always can; everyone
+ * else can unless the poll keeps its results to the hosts, or hides them until they are revealed.
+ *
+ * @param {CanViewPollResultsOptions} options - The poll and the member's role.
+ * @returns {boolean} Whether the results may be shown.
+ */
+export const canViewPollResults: CanViewPollResultsType = ({ poll, islevel, youAreCoHost = false }) => {
+  if (islevel === '2' || youAreCoHost) {
+    return true;
+  }
+  switch (poll.resultsVisibility) {
+    case 'hostsOnly':
+      return false;
+    case 'afterReveal':
+      return !!poll.resultsRevealed;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Returns what members who may not see a poll's results are shown instead.
+ *
+ * @param {Poll} poll - The poll.
+ * @returns {string} The message.
+ */
+export const getHiddenResultsMessage: GetHiddenResultsMessageType = (poll) =>
+  poll.resultsVisibility === 'hostsOnly'
+    ? 'Results are only visible to the host and co-hosts.'
+    : 'Results are hidden until the host reveals them.';
+
+/**
+ * Strips the results of a poll the member may not see: the tally is zeroed and only the member's
+ * own vote is kept. Polls the member may see are returned as they are.
+ *
+ * @param {RedactPollResultsOptions} options - The poll, the member and the member's role.
+ * @returns {Poll} The poll as the member may see it.
+ *
+ * @example
+ * ```typescript
+ * const visible = redactPollResults({ poll, member, islevel, youAreCoHost });
+ * ```
+ */
+export const redactPollResults: RedactPollResultsType = ({ poll, member, islevel, youAreCoHost }) => {
+  if (canViewPollResults({ poll, islevel, youAreCoHost })) {
+    return poll;
+  }
+
+  const key = getPollVoterKey(poll, member);
+  const ownVote = key ? poll.voters?.[key] : undefined;
+  const ownResponse = key ? poll.responses?.[key] : undefined;
+  return {
+    ...poll,
+    votes: (poll.votes ?? []).map(() => 0),
+    voters: key && ownVote !== undefined ? { [key]: ownVote } : {},
+    ...(poll.responses ? { responses: key && ownResponse ? { [key]: ownResponse } : {} } : {}),
+    ...(poll.answeredAt ? { answeredAt: {} } : {}),
+  };
+};
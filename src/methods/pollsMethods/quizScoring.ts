@@ -0,0 +1,182 @@
+import { Share } from 'react-native';
+import { Poll, ShowAlert } from '../../@types/types';
+import { getMediasfuLogger } from '../utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('polls');
+
+// Points for a correct answer given the moment the question opens.
+export const DEFAULT_QUIZ_POINTS = 1000;
+
+// Seconds over which the speed bonus runs out on quiz questions without a time limit.
+export const QUIZ_SPEED_WINDOW_SECONDS = 30;
+
+export interface QuizStanding {
+  rank: number;
+  member: string;
+  score: number;
+  correct: number;
+  answered: number;
+}
+
+export interface BuildQuizLeaderboardOptions {
+  polls: Poll[];
+  quizName: string;
+}
+
+export interface FormatQuizStandingsOptions {
+  standings: QuizStanding[];
+  quizName: string;
+  roomName: string;
+  questions: number;
+}
+
+export interface ExportQuizStandingsOptions {
+  polls: Poll[];
+  quizName: string;
+  roomName: string;
+  showAlert?: ShowAlert;
+}
+
+// Export the type definition for the function
+export type GetQuizScoreType = (poll: Poll, member: string) => number;
+export type GetQuizNameType = (polls: Poll[], poll?: Poll | null) => string | null;
+export type BuildQuizLeaderboardType = (options: BuildQuizLeaderboardOptions) => QuizStanding[];
+export type FormatQuizStandingsType = (options: FormatQuizStandingsOptions) => string;
+export type ExportQuizStandingsType = (options: ExportQuizStandingsOptions) => Promise<void>;
+
+/**
+ * Scores a member's answer to a quiz question. A correct answer earns between half and all of
+ * the question's points: all of them when answered the moment the question opened, falling to
+ * half at the end of the poll's time limit (or of `QUIZ_SPEED_WINDOW_SECONDS` without one).
+ *
+ * @param {Poll} poll - The quiz question.
+ * @param {string} member - The member.
+ * @returns {number} The points earned; 0 for wrong answers, no answer, questions still active (whose
+ * correct option is not known yet), or polls that are not quiz questions.
+ *
+ * @example
+ * ```typescript
+ * getQuizScore(poll, 'alice'); // 850
+ * ```
+ */
+export const getQuizScore: GetQuizScoreType = (poll, member) => {
+  const choice = poll.voters?.[member];
+  if (!poll.quiz || choice === undefined || choice !== poll.quiz.correctOption) {
+    return 0;
+  }
+
+  const points = poll.quiz.points ?? DEFAULT_QUIZ_POINTS;
+  const windowMs = (poll.duration ?? QUIZ_SPEED_WINDOW_SECONDS) * 1000;
+  const answeredAt = poll.answeredAt?.[member];
+  const elapsed = typeof answeredAt === 'number' ? answeredAt - poll.quiz.startedAt : windowMs;
+  const speed = 1 - Math.min(Math.max(elapsed / windowMs, 0), 1);
+  return Math.round(points * (0.5 + 0.5 * speed));
+};
+
+/**
+ * Returns the quiz the polls modal shows standings for: the quiz of the given poll, or else of
+ * the most recent quiz question.
+ *
+ * @param {Poll[]} polls - The polls of the session, oldest first.
+ * @param {Poll | null} [poll] - The current poll.
+ * @returns {string | null} The quiz name, or `null` when no quiz has been run.
+ */
+export const getQuizName: GetQuizNameType = (polls, poll) => {
+  if (poll?.quiz) {
+    return poll.quiz.name;
+  }
+  const latest = [...polls].reverse().find((item) => item.quiz);
+  return latest?.quiz?.name ?? null;
+};
+
+/**
+ * Adds up the scores of every question of a quiz into standings. Members with the same score
+ * share a rank and are listed by name.
+ *
+ * @param {BuildQuizLeaderboardOptions} options - The polls of the session and the quiz name.
+ * @returns {QuizStanding[]} The standings, highest score first.
+ */
+export const buildQuizLeaderboard: BuildQuizLeaderboardType = ({ polls, quizName }) => {
+  const totals = new Map<string, Omit<QuizStanding, 'rank'>>();
+  polls
+    .filter((poll) => poll.quiz?.name === quizName)
+    .forEach((poll) => {
+      Object.keys(poll.voters ?? {}).forEach((member) => {
+        const entry = totals.get(member) ?? { member, score: 0, correct: 0, answered: 0 };
+        const score = getQuizScore(poll, member);
+        entry.score += score;
+        entry.correct += score > 0 ? 1 : 0;
+        entry.answered += 1;
+        totals.set(member, entry);
+      });
+    });
+
+  const sorted = Array.from(totals.values()).sort(
+    (first, second) => second.score - first.score || first.member.localeCompare(second.member),
+  );
+  return sorted.map((entry, index) => ({
+    ...entry,
+    rank:
+      index > 0 && sorted[index - 1].score === entry.score
+        ? sorted.findIndex((other) => other.score === entry.score) + 1
+        : index + 1,
+  }));
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats quiz standings as CSV, for spreadsheets.
+ *
+ * @param {FormatQuizStandingsOptions} options - The standings, the quiz and the room.
+ * @returns {string} The standings as CSV, headed by the quiz name, room and number of questions.
+ */
+export const formatQuizStandings: FormatQuizStandingsType = ({ standings, quizName, roomName, questions }) =>
+  [
+    `# ${quizName} (${roomName}), ${questions} question${questions === 1 ? '' : 's'}`,
+    'Rank,Name,Points,Correct,Answered',
+    ...standings.map((standing) =>
+      [standing.rank, standing.member, standing.score, standing.correct, standing.answered].map(csvField).join(','),
+    ),
+  ].join('\n') + '\n';
+
+/**
+ * Exports the final standings of a quiz as CSV through the share sheet.
+ *
+ * @param {ExportQuizStandingsOptions} options - The options for the export.
+ * @param {Poll[]} options.polls - The polls of the session.
+ * @param {string} options.quizName - The quiz.
+ * @param {string} options.roomName - The name of the room.
+ * @param {ShowAlert} [options.showAlert] - Function to show alert messages.
+ * @returns {Promise<void>} A promise that resolves once the share sheet is closed.
+ *
+ * @example
+ * ```typescript
+ * await exportQuizStandings({ polls, quizName: 'Onboarding quiz', roomName, showAlert });
+ * ```
+ */
+export const exportQuizStandings: ExportQuizStandingsType = async ({ polls, quizName, roomName, showAlert }) => {
+  const standings = buildQuizLeaderboard({ polls, quizName });
+  if (standings.length === 0) {
+    showAlert?.({ message: 'Nobody has answered this quiz yet', type: 'danger', duration: 3000 });
+    return;
+  }
+
+  try {
+    await Share.share({
+      title: `Quiz standings: ${quizName}`,
+      message: formatQuizStandings({
+        standings,
+        quizName,
+        roomName,
+        questions: polls.filter((poll) => poll.quiz?.name === quizName).length,
+      }),
+    });
+  } catch (error) {
+    logger.error('error exporting quiz standings', error);
+    showAlert?.({ message: 'Unable to export the quiz standings.', type: 'danger', duration: 3000 });
+  }
+};
@@ -1,4 +1,7 @@
 import Sound from 'react-native-sound';
+import { getMediasfuLogger } from './logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('utils');
 
 export interface SoundPlayerOptions {
   soundUrl: string;
@@ -24,16 +27,16 @@ export const SoundPlayer = ({ soundUrl }: SoundPlayerOptions): void => {
   // Initialize the Sound instance with the URL
   const sound = new Sound(soundUrl, Sound.MAIN_BUNDLE, (error) => {
     if (error) {
-      console.error('Failed to load sound', error);
+      logger.error('Failed to load sound', error);
       return;
     }
 
     // Play the sound
     sound.play((success) => {
       if (success) {
-        console.log('Sound played successfully');
+        logger.debug('Sound played successfully');
       } else {
-        console.log('Sound playback failed');
+        logger.error('Sound playback failed');
       }
 
       // Release the sound resource
@@ -1,18 +1,29 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { Socket } from 'socket.io-client';
 import { PreJoinPageParameters } from '../../@types/types';
+import { MediasfuStorage, resolveMediasfuStorage } from './storage/mediasfuStorage';
+import { classifySocketError, SocketAuthErrorCode } from '../../sockets/socketAuth';
+import { createMediasfuError, emitMediasfuError } from './mediasfuError';
+import { getMediasfuLogger } from './logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('sockets');
 
 const MAX_ATTEMPTS = 10;
 const RATE_LIMIT_DURATION = 3 * 60 * 60 * 1000;
 
-const readStoredNumber = async (key: string): Promise<number> => {
-    const value = await AsyncStorage.getItem(key);
+const CONNECTION_ERROR_MESSAGES: Record<Exclude<SocketAuthErrorCode, 'INVALID_CREDENTIALS'>, string> = {
+    TOKEN_EXPIRED: 'Your session has expired. Please sign in again.',
+    NETWORK: 'Unable to reach the server. Check your connection and try again.',
+    UNKNOWN: 'Unable to connect. Please try again.',
+};
+
+const readStoredNumber = async (storage: MediasfuStorage, key: string): Promise<number> => {
+    const value = await storage.getItem(key);
     const parsed = parseInt((value ?? '0').toString(), 10);
     return Number.isNaN(parsed) ? 0 : parsed;
 };
 
-const writeStoredNumber = async (key: string, value: number): Promise<void> => {
-    await AsyncStorage.setItem(key, value.toString());
+const writeStoredNumber = async (storage: MediasfuStorage, key: string, value: number): Promise<void> => {
+    await storage.setItem(key, value.toString());
 };
 
 const hasConnectedSocketId = (socket: unknown): socket is Socket & { id: string } => {
@@ -42,33 +53,58 @@ export const checkLimitsAndMakeRequest = async ({
     validate?: boolean;
 }) => {
     const TIMEOUT_DURATION = 10000;
+    const storage = resolveMediasfuStorage(parameters.storage);
 
     try {
-        let unsuccessfulAttempts = await readStoredNumber('unsuccessfulAttempts');
-        const lastRequestTimestamp = await readStoredNumber('lastRequestTimestamp');
+        let unsuccessfulAttempts = await readStoredNumber(storage, 'unsuccessfulAttempts');
+        const lastRequestTimestamp = await readStoredNumber(storage, 'lastRequestTimestamp');
 
         if (
             unsuccessfulAttempts >= MAX_ATTEMPTS &&
             Date.now() - lastRequestTimestamp < RATE_LIMIT_DURATION
         ) {
+            emitMediasfuError({
+                onError: parameters.onError,
+                error: createMediasfuError({
+                    code: 'RATE_LIMITED',
+                    message: 'Too many unsuccessful attempts. Please try again later.',
+                    details: { retryAfterMs: RATE_LIMIT_DURATION },
+                }),
+            });
             parameters.showAlert?.({
                 message: 'Too many unsuccessful attempts. Please try again later.',
                 type: 'danger',
                 duration: 3000,
             });
-            await writeStoredNumber('lastRequestTimestamp', Date.now());
+            await writeStoredNumber(storage, 'lastRequestTimestamp', Date.now());
             return;
         }
 
         if (unsuccessfulAttempts >= MAX_ATTEMPTS) {
             unsuccessfulAttempts = 0;
-            await writeStoredNumber('unsuccessfulAttempts', unsuccessfulAttempts);
-            await writeStoredNumber('lastRequestTimestamp', Date.now());
+            await writeStoredNumber(storage, 'unsuccessfulAttempts', unsuccessfulAttempts);
+            await writeStoredNumber(storage, 'lastRequestTimestamp', Date.now());
         }
 
         parameters.updateIsLoadingModalVisible(true);
 
-        const socketPromise = parameters.connectSocket({ apiUserName, apiKey, apiToken, link });
+        // getToken may replace apiToken while connecting, and again whenever it expires
+        let usedToken = apiToken;
+        let connected = false;
+        const socketPromise = parameters.connectSocket({
+            apiUserName,
+            apiKey,
+            apiToken,
+            link,
+            getToken: parameters.getToken,
+            onTokenExpired: parameters.onTokenExpired,
+            onTokenChange: (token) => {
+                usedToken = token;
+                if (connected) {
+                    parameters.updateApiToken(token);
+                }
+            },
+        });
         const timeoutPromise = new Promise<never>((_, reject) =>
             setTimeout(() => reject(new Error('Request timed out')), TIMEOUT_DURATION),
         );
@@ -76,9 +112,10 @@ export const checkLimitsAndMakeRequest = async ({
         const socket = await Promise.race([socketPromise, timeoutPromise]);
 
         if (hasConnectedSocketId(socket)) {
+            connected = true;
             unsuccessfulAttempts = 0;
-            await writeStoredNumber('unsuccessfulAttempts', unsuccessfulAttempts);
-            await writeStoredNumber('lastRequestTimestamp', Date.now());
+            await writeStoredNumber(storage, 'unsuccessfulAttempts', unsuccessfulAttempts);
+            await writeStoredNumber(storage, 'lastRequestTimestamp', Date.now());
 
             if (validate) {
                 parameters.updateSocket(socket);
@@ -87,16 +124,23 @@ export const checkLimitsAndMakeRequest = async ({
             }
 
             parameters.updateApiUserName(apiUserName);
-            parameters.updateApiToken(apiToken);
+            parameters.updateApiToken(usedToken);
             parameters.updateLink(link);
             parameters.updateRoomName(apiUserName);
             parameters.updateMember(userName);
             if (validate) parameters.updateValidated(true);
         } else {
             unsuccessfulAttempts += 1;
-            await writeStoredNumber('unsuccessfulAttempts', unsuccessfulAttempts);
-            await writeStoredNumber('lastRequestTimestamp', Date.now());
+            await writeStoredNumber(storage, 'unsuccessfulAttempts', unsuccessfulAttempts);
+            await writeStoredNumber(storage, 'lastRequestTimestamp', Date.now());
             parameters.updateIsLoadingModalVisible(false);
+            emitMediasfuError({
+                onError: parameters.onError,
+                error: createMediasfuError({
+                    code: unsuccessfulAttempts >= MAX_ATTEMPTS ? 'RATE_LIMITED' : 'INVALID_CREDENTIALS',
+                    message: 'The room server did not accept the connection.',
+                }),
+            });
             parameters.showAlert?.({
                 message: unsuccessfulAttempts >= MAX_ATTEMPTS
                     ? 'Too many unsuccessful attempts. Please try again later.'
@@ -106,16 +150,31 @@ export const checkLimitsAndMakeRequest = async ({
             });
         }
     } catch (error) {
-        console.error('Error connecting to socket:', error);
+        logger.error('Error connecting to socket:', error);
+        emitMediasfuError({ onError: parameters.onError, error });
+
+        // only rejected credentials count towards the lockout, not an expired token or a network failure
+        const code = classifySocketError(error);
+        if (code !== 'INVALID_CREDENTIALS') {
+            parameters.showAlert?.({
+                message: CONNECTION_ERROR_MESSAGES[code],
+                type: 'danger',
+                duration: 3000,
+            });
+            parameters.updateIsLoadingModalVisible(false);
+            return;
+        }
+
+        const unsuccessfulAttempts = (await readStoredNumber(storage, 'unsuccessfulAttempts')) + 1;
+        await writeStoredNumber(storage, 'unsuccessfulAttempts', unsuccessfulAttempts);
+        await writeStoredNumber(storage, 'lastRequestTimestamp', Date.now());
         parameters.showAlert?.({
-            message: 'Unable to connect. Check your credentials and try again.',
+            message: unsuccessfulAttempts >= MAX_ATTEMPTS
+                ? 'Too many unsuccessful attempts. Please try again later.'
+                : 'Invalid credentials.',
             type: 'danger',
             duration: 3000,
         });
-
-        const unsuccessfulAttempts = (await readStoredNumber('unsuccessfulAttempts')) + 1;
-        await writeStoredNumber('unsuccessfulAttempts', unsuccessfulAttempts);
-        await writeStoredNumber('lastRequestTimestamp', Date.now());
         parameters.updateIsLoadingModalVisible(false);
     }
 };
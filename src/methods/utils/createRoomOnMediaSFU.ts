@@ -5,7 +5,7 @@ import type {
     CreateRoomOnMediaSFUType,
 } from 'mediasfu-shared';
 import { createRoomOnMediaSFU as createRoomOnMediaSFUShared } from 'mediasfu-shared';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDefaultMediasfuStorage } from './storage/mediasfuStorage';
 
 
 /**
@@ -20,6 +20,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
  * @param {string} options.apiUserName - The API username, used for authentication.
  * @param {string} options.apiKey - The API key, used for authentication.
  * @param {string} [options.localLink=""] - The local link for Community Edition users. If provided, it overrides the default API URL.
+ * @param {MediasfuStorage} [options.pendingRequestStorage] - Storage for the duplicate-request lock. Defaults to the default `MediasfuStorage`.
  *
  * @returns {Promise<{
 *   data: CreateJoinRoomResponse | CreateJoinRoomError | null;
@@ -64,16 +65,5 @@ export const createRoomOnMediaSFU: CreateRoomOnMediaSFUType = async (
   options: CreateRoomOnMediaSFUOptions,
 ) => createRoomOnMediaSFUShared({
   ...options,
-  pendingRequestStorage: {
-    getItem: async (key: string) => AsyncStorage.getItem(key),
-    setItem: async (key: string, value: string) => {
-      await AsyncStorage.setItem(key, value);
-    },
-    removeItem: async (key: string) => {
-      await AsyncStorage.removeItem(key);
-    },
-  },
+  pendingRequestStorage: options.pendingRequestStorage ?? getDefaultMediasfuStorage(),
 });
-
-
-
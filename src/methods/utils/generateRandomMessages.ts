@@ -51,7 +51,7 @@ export const generateRandomMessages = ({
 			sender,
 			receivers: [getRandomReceiver(sender)],
 			message: `Direct message from ${sender}`,
-			timestamp: new Date(Date.now() + timeIncrement).toLocaleTimeString(),
+			timestamp: Date.now() + timeIncrement,
 			group: false,
 		});
 
@@ -61,7 +61,7 @@ export const generateRandomMessages = ({
 				.map((participant) => participant.name)
 				.filter((name): name is string => !!name),
 			message: `Group message from ${sender}`,
-			timestamp: new Date(Date.now() + timeIncrement).toLocaleTimeString(),
+			timestamp: Date.now() + timeIncrement,
 			group: true,
 		});
 
@@ -0,0 +1,270 @@
+// Central logger used by MediaSFU instead of calling `console` directly.
+
+export type MediasfuLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type MediasfuLogNamespace =
+  | 'sockets'
+  | 'consumers'
+  | 'producers'
+  | 'recording'
+  | 'whiteboard'
+  | 'messages'
+  | 'room'
+  | 'ui'
+  | 'utils'
+  | (string & {});
+
+export interface MediasfuLogRecord {
+  level: Exclude<MediasfuLogLevel, 'silent'>;
+  namespace: MediasfuLogNamespace;
+  message: string;
+  data: unknown[]; // Redacted before it reaches a sink
+  timestamp: number;
+}
+
+export type MediasfuLogSink = (record: MediasfuLogRecord) => void;
+
+export interface MediasfuLoggerConfig {
+  level?: MediasfuLogLevel; // Minimum level written to the sinks; defaults to 'warn'
+  namespaces?: Partial<Record<MediasfuLogNamespace, MediasfuLogLevel>>; // Per-namespace overrides of `level`
+  sinks?: MediasfuLogSink[]; // Defaults to the console sink
+  redactKeys?: string[]; // Added to the default keys (apiKey, apiToken, secureCode, ...)
+}
+
+export interface MediasfuLogger {
+  namespace: MediasfuLogNamespace;
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+  isEnabled: (level: Exclude<MediasfuLogLevel, 'silent'>) => boolean;
+}
+
+// Export the type definition for the function
+export type CreateConsoleSinkType = () => MediasfuLogSink;
+export type ConfigureMediasfuLoggerType = (config?: MediasfuLoggerConfig | null) => void;
+export type GetMediasfuLoggerType = (namespace: MediasfuLogNamespace) => MediasfuLogger;
+export type RedactLogValueType = (value: unknown, keys?: string[]) => unknown;
+
+const LEVEL_PRIORITY: Record<MediasfuLogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+export const DEFAULT_REDACT_KEYS = [
+  'apiKey',
+  'apiToken',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'secureCode',
+  'password',
+  'secret',
+  'authorization',
+];
+
+const REDACTED = '[REDACTED]';
+const MAX_REDACT_DEPTH = 6;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const redactString = (value: string, keys: string[]) => {
+  // covers `apiKey=...` in query strings and `"apiKey":"..."` in serialized JSON
+  const pattern = new RegExp(
+    `(["']?(?:${keys.map(escapeRegExp).join('|')})["']?\\s*[:=]\\s*["']?)([^"'&\\s,;}]+)`,
+    'gi',
+  );
+  return value.replace(pattern, `$1${REDACTED}`);
+};
+
+/**
+ * Replaces secrets in a value before it is logged. Plain objects and arrays are copied with the
+ * values of matching keys (case-insensitive) replaced; strings have `key=value` and `"key":"value"`
+ * pairs replaced. Other objects, such as sockets and media streams, are passed through as they are.
+ *
+ * @param {unknown} value - The value to redact.
+ * @param {string[]} [keys=DEFAULT_REDACT_KEYS] - The keys whose values are secret.
+ * @returns {unknown} The redacted value.
+ *
+ * @example
+ * ```typescript
+ * redactLogValue({ apiUserName: 'user', apiKey: 'abc123' });
+ * // { apiUserName: 'user', apiKey: '[REDACTED]' }
+ * ```
+ */
+export const redactLogValue: RedactLogValueType = (value, keys = DEFAULT_REDACT_KEYS) => {
+  const lowerKeys = new Set(keys.map((key) => key.toLowerCase()));
+  const seen = new WeakSet<object>();
+
+  const redact = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') {
+      return redactString(current, keys);
+    }
+    if (current instanceof Error) {
+      const message = redactString(current.message, keys);
+      if (message === current.message) {
+        return current;
+      }
+      const copy = new Error(message);
+      copy.name = current.name;
+      copy.stack = current.stack && redactString(current.stack, keys);
+      return copy;
+    }
+    if (!Array.isArray(current) && !isPlainObject(current)) {
+      return current;
+    }
+    if (seen.has(current)) {
+      return '[Circular]';
+    }
+    if (depth >= MAX_REDACT_DEPTH) {
+      return Array.isArray(current) ? '[Array]' : '[Object]';
+    }
+
+    seen.add(current);
+    if (Array.isArray(current)) {
+      return current.map((item) => redact(item, depth + 1));
+    }
+    return Object.fromEntries(
+      Object.entries(current).map(([key, item]) => [
+        key,
+        lowerKeys.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1),
+      ]),
+    );
+  };
+
+  return redact(value, 0);
+};
+
+/**
+ * Creates the default sink, which writes records to the console prefixed with their namespace.
+ *
+ * @returns {MediasfuLogSink} The console sink.
+ */
+export const createConsoleSink: CreateConsoleSinkType = () => (record) => {
+  const prefix = `[MediaSFU:${record.namespace}] ${record.message}`;
+  if (record.level === 'error') {
+    console.error(prefix, ...record.data);
+  } else if (record.level === 'warn') {
+    console.warn(prefix, ...record.data);
+  } else {
+    console.log(prefix, ...record.data);
+  }
+};
+
+interface ResolvedLoggerConfig {
+  level: MediasfuLogLevel;
+  namespaces: Partial<Record<MediasfuLogNamespace, MediasfuLogLevel>>;
+  sinks: MediasfuLogSink[];
+  redactKeys: string[];
+}
+
+const createDefaultConfig = (): ResolvedLoggerConfig => ({
+  level: 'warn',
+  namespaces: {},
+  sinks: [createConsoleSink()],
+  redactKeys: DEFAULT_REDACT_KEYS,
+});
+
+let activeConfig: ResolvedLoggerConfig = createDefaultConfig();
+const loggers = new Map<MediasfuLogNamespace, MediasfuLogger>();
+
+/**
+ * Sets the levels, sinks and redacted keys used by every MediaSFU logger. The Mediasfu
+ * components call this with their `logging` prop.
+ *
+ * @param {MediasfuLoggerConfig | null} [config] - The configuration, or `null` to restore the defaults.
+ *
+ * @example
+ * ```typescript
+ * configureMediasfuLogger({
+ *   level: 'error',
+ *   namespaces: { sockets: 'debug' },
+ *   sinks: [createConsoleSink(), (record) => crashReporter.log(`${record.namespace}: ${record.message}`)],
+ *   redactKeys: ['roomName'],
+ * });
+ * ```
+ */
+export const configureMediasfuLogger: ConfigureMediasfuLoggerType = (config) => {
+  const defaults = createDefaultConfig();
+  activeConfig = {
+    level: config?.level ?? defaults.level,
+    namespaces: config?.namespaces ?? defaults.namespaces,
+    sinks: config?.sinks ?? defaults.sinks,
+    redactKeys: [...defaults.redactKeys, ...(config?.redactKeys ?? [])],
+  };
+};
+
+const isLevelEnabled = (namespace: MediasfuLogNamespace, level: MediasfuLogLevel) => {
+  const threshold = activeConfig.namespaces[namespace] ?? activeConfig.level;
+  return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[threshold];
+};
+
+const write = (
+  namespace: MediasfuLogNamespace,
+  level: MediasfuLogRecord['level'],
+  message: string,
+  data: unknown[],
+) => {
+  if (!isLevelEnabled(namespace, level)) {
+    return;
+  }
+
+  const { redactKeys, sinks } = activeConfig;
+  const record: MediasfuLogRecord = {
+    level,
+    namespace,
+    message: redactString(message, redactKeys),
+    data: data.map((item) => redactLogValue(item, redactKeys)),
+    timestamp: Date.now(),
+  };
+
+  for (const sink of sinks) {
+    try {
+      sink(record);
+    } catch {
+      // a failing sink must not break the caller, and there is nowhere left to report it
+    }
+  }
+};
+
+/**
+ * Returns the logger for a namespace. Levels and sinks are read when a message is logged, so
+ * module-level loggers follow later calls to `configureMediasfuLogger`.
+ *
+ * @param {MediasfuLogNamespace} namespace - The namespace, e.g. `'sockets'` or `'recording'`.
+ * @returns {MediasfuLogger} The logger.
+ *
+ * @example
+ * ```typescript
+ * const logger = getMediasfuLogger('consumers');
+ * logger.error('error consumerResume', error);
+ * ```
+ */
+export const getMediasfuLogger: GetMediasfuLoggerType = (namespace) => {
+  const existing = loggers.get(namespace);
+  if (existing) {
+    return existing;
+  }
+
+  const logger: MediasfuLogger = {
+    namespace,
+    debug: (message, ...data) => write(namespace, 'debug', message, data),
+    info: (message, ...data) => write(namespace, 'info', message, data),
+    warn: (message, ...data) => write(namespace, 'warn', message, data),
+    error: (message, ...data) => write(namespace, 'error', message, data),
+    isEnabled: (level) => isLevelEnabled(namespace, level),
+  };
+  loggers.set(namespace, logger);
+  return logger;
+};
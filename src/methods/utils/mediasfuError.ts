@@ -0,0 +1,259 @@
+// Typed errors with stable codes, reported to apps through the `onError` prop.
+
+import { getMediasfuLogger } from './logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('room');
+
+export type MediasfuErrorCode =
+  | 'PERMISSION_DENIED' // Camera or microphone access was refused
+  | 'NATIVE_MODULE_MISSING' // A native package is not linked into the app binary
+  | 'TRANSPORT_FAILED' // A media transport, producer or consumer could not be created
+  | 'ROOM_FULL' // The room has reached its participant capacity
+  | 'BANNED' // The participant was banned or suspended from the room
+  | 'RATE_LIMITED' // Too many attempts; try again later
+  | 'RECORDING_LIMIT' // A recording limit (duration, pauses or plan) was reached
+  | 'TOKEN_EXPIRED' // The API token has expired; refresh it and retry
+  | 'INVALID_CREDENTIALS' // The API username, key or token was rejected
+  | 'NETWORK' // The server could not be reached or the connection was lost
+  | 'UNKNOWN';
+
+export interface MediasfuError extends Error {
+  code: MediasfuErrorCode;
+  // Whether retrying the same action (after user input, a refresh or a delay) can succeed.
+  recoverable: boolean;
+  cause?: unknown;
+  details?: Record<string, unknown>;
+}
+
+export type MediasfuErrorHandler = (error: MediasfuError) => void;
+
+export interface CreateMediasfuErrorOptions {
+  code: MediasfuErrorCode;
+  message: string;
+  recoverable?: boolean;
+  cause?: unknown;
+  details?: Record<string, unknown>;
+}
+
+export interface EmitMediasfuErrorOptions {
+  onError?: MediasfuErrorHandler | null;
+  error: unknown;
+  details?: Record<string, unknown>;
+}
+
+export interface WithMediasfuErrorReportingOptions<Args extends unknown[], Result> {
+  fn: (...args: Args) => Promise<Result>;
+  code: MediasfuErrorCode;
+  onError?: MediasfuErrorHandler | null;
+  details?: Record<string, unknown>;
+}
+
+// Export the type definition for the function
+export type CreateMediasfuErrorType = (options: CreateMediasfuErrorOptions) => MediasfuError;
+export type ClassifyMediasfuErrorMessageType = (message: string) => MediasfuErrorCode;
+export type ToMediasfuErrorType = (error: unknown, details?: Record<string, unknown>) => MediasfuError;
+export type EmitMediasfuErrorType = (options: EmitMediasfuErrorOptions) => MediasfuError;
+export type WithMediasfuErrorReportingType = <Args extends unknown[], Result>(
+  options: WithMediasfuErrorReportingOptions<Args, Result>,
+) => (...args: Args) => Promise<Result>;
+
+const UNRECOVERABLE_CODES: MediasfuErrorCode[] = [
+  'NATIVE_MODULE_MISSING',
+  'BANNED',
+  'INVALID_CREDENTIALS',
+];
+
+// Checked in order; the first match wins.
+const MESSAGE_PATTERNS: [MediasfuErrorCode, RegExp][] = [
+  ['NATIVE_MODULE_MISSING', /native module|could not load .*package|NativeEventEmitter/i],
+  ['PERMISSION_DENIED', /permission|not allowed to access|NotAllowedError|access (was )?denied/i],
+  ['BANNED', /\bbanned\b|\bsuspended\b|removed from the (room|event)/i],
+  ['ROOM_FULL', /room is full|capacity|maximum (number of )?participants|too many participants/i],
+  ['RATE_LIMITED', /too many (unsuccessful )?(attempts|requests)|rate.?limit|try again later/i],
+  ['RECORDING_LIMIT', /record(ing)?.*(limit|maximum|exceeded|not allowed|no longer)|(limit|maximum).*record/i],
+  ['TOKEN_EXPIRED', /session has expired|token.*expired|jwt expired/i],
+  ['INVALID_CREDENTIALS', /invalid credentials|check your credentials|unauthori[sz]ed|invalid api/i],
+  ['TRANSPORT_FAILED', /transport|producer|consumer|\bdtls\b|\bice\b|mediasoup/i],
+  ['NETWORK', /network|timed? ?out|timeout|unable to connect|connection (lost|failed)|offline/i],
+];
+
+/**
+ * Creates a `MediasfuError`. Errors are plain `Error` instances with a stable `code`, so they
+ * survive being passed across bridges and crash reporters that only keep `name` and `message`.
+ *
+ * @param {CreateMediasfuErrorOptions} options - The options for the error.
+ * @param {MediasfuErrorCode} options.code - The stable error code.
+ * @param {string} options.message - A human readable message (English).
+ * @param {boolean} [options.recoverable] - Defaults to `false` for banned, invalid credentials and missing native modules.
+ * @param {unknown} [options.cause] - The underlying error.
+ * @param {Record<string, unknown>} [options.details] - Extra context, e.g. `{ reason: 'room is full' }`.
+ * @returns {MediasfuError} The error.
+ *
+ * @example
+ * ```typescript
+ * throw createMediasfuError({ code: 'ROOM_FULL', message: 'The room is full.' });
+ * ```
+ */
+export const createMediasfuError: CreateMediasfuErrorType = ({
+  code,
+  message,
+  recoverable = !UNRECOVERABLE_CODES.includes(code),
+  cause,
+  details,
+}) => {
+  const error = new Error(message) as MediasfuError;
+  error.name = 'MediaSFUError';
+  error.code = code;
+  error.recoverable = recoverable;
+  error.cause = cause;
+  error.details = details;
+  return error;
+};
+
+/**
+ * Checks whether a value is a MediaSFU error, optionally with a given code. Socket
+ * authentication and native capability errors are MediaSFU errors too.
+ *
+ * @example
+ * ```typescript
+ * if (isMediasfuError(error, 'PERMISSION_DENIED')) {
+ *   Linking.openSettings();
+ * }
+ * ```
+ */
+export const isMediasfuError = (
+  error: unknown,
+  code?: MediasfuErrorCode,
+): error is MediasfuError => {
+  if (!(error instanceof Error) || !error.name.startsWith('MediaSFU')) {
+    return false;
+  }
+
+  const errorCode = (error as Partial<MediasfuError>).code;
+  return typeof errorCode === 'string' && (code === undefined || errorCode === code);
+};
+
+/**
+ * Maps a server or error message to an error code.
+ *
+ * @param {string} message - The message, e.g. the `reason` returned when joining a room fails.
+ * @returns {MediasfuErrorCode} The matching code, or `'UNKNOWN'`.
+ *
+ * @example
+ * ```typescript
+ * classifyMediasfuErrorMessage('Room is full'); // 'ROOM_FULL'
+ * ```
+ */
+export const classifyMediasfuErrorMessage: ClassifyMediasfuErrorMessageType = (message) => {
+  const match = MESSAGE_PATTERNS.find(([, pattern]) => pattern.test(message));
+  return match ? match[0] : 'UNKNOWN';
+};
+
+/**
+ * Converts anything thrown or reported by MediaSFU into a `MediasfuError`. MediaSFU errors are
+ * returned as they are; other errors and strings are classified by their name and message.
+ *
+ * @param {unknown} error - The error or message.
+ * @param {Record<string, unknown>} [details] - Extra context to attach to converted errors.
+ * @returns {MediasfuError} The typed error.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await mediaDevices.getUserMedia({ video: true });
+ * } catch (error) {
+ *   onError(toMediasfuError(error)); // code: 'PERMISSION_DENIED'
+ * }
+ * ```
+ */
+export const toMediasfuError: ToMediasfuErrorType = (error, details) => {
+  if (isMediasfuError(error)) {
+    return error;
+  }
+
+  const name = error instanceof Error ? error.name : '';
+  const message =
+    error instanceof Error ? error.message : typeof error === 'string' ? error : String(error);
+  const code =
+    name === 'NotAllowedError' || name === 'SecurityError'
+      ? 'PERMISSION_DENIED'
+      : classifyMediasfuErrorMessage(`${name} ${message}`);
+
+  return createMediasfuError({
+    code,
+    message: message || 'An unknown error occurred.',
+    cause: error,
+    details,
+  });
+};
+
+/**
+ * Converts an error with `toMediasfuError` and passes it to `onError`. Exceptions thrown by the
+ * handler are logged and swallowed so a faulty handler cannot break the room.
+ *
+ * @param {EmitMediasfuErrorOptions} options - The options for emitting the error.
+ * @param {MediasfuErrorHandler} [options.onError] - The app's error handler.
+ * @param {unknown} options.error - The error or message to report.
+ * @param {Record<string, unknown>} [options.details] - Extra context to attach to converted errors.
+ * @returns {MediasfuError} The reported error.
+ *
+ * @example
+ * ```typescript
+ * emitMediasfuError({ onError, error: 'Too many unsuccessful attempts. Please try again later.' });
+ * ```
+ */
+export const emitMediasfuError: EmitMediasfuErrorType = ({ onError, error, details }) => {
+  const mediasfuError = toMediasfuError(error, details);
+  if (typeof onError !== 'function') {
+    return mediasfuError;
+  }
+
+  try {
+    onError(mediasfuError);
+  } catch (handlerError) {
+    logger.error('error onError handler', handlerError);
+  }
+  return mediasfuError;
+};
+
+/**
+ * Wraps an async MediaSFU method so a failure is reported to `onError` with the given code where
+ * it happens, then rethrown as that typed error. MediaSFU errors thrown by an inner wrapped method
+ * were reported already and are rethrown as they are.
+ *
+ * @param {WithMediasfuErrorReportingOptions} options - The options for the wrapper.
+ * @param {Function} options.fn - The method to wrap.
+ * @param {MediasfuErrorCode} options.code - The code failures of the method are reported with.
+ * @param {MediasfuErrorHandler} [options.onError] - The app's error handler.
+ * @param {Record<string, unknown>} [options.details] - Extra context, e.g. `{ action: 'createSendTransport' }`.
+ * @returns {Function} The wrapped method.
+ *
+ * @example
+ * ```typescript
+ * const reportedCreateSendTransport = withMediasfuErrorReporting({
+ *   fn: createSendTransport,
+ *   code: 'TRANSPORT_FAILED',
+ *   onError,
+ * });
+ * ```
+ */
+export const withMediasfuErrorReporting: WithMediasfuErrorReportingType =
+  ({ fn, code, onError, details }) =>
+  async (...args) => {
+    try {
+      return await fn(...args);
+    } catch (error) {
+      if (isMediasfuError(error)) {
+        throw error;
+      }
+      throw emitMediasfuError({
+        onError,
+        error: createMediasfuError({
+          code,
+          message: (error instanceof Error && error.message) || `${details?.action ?? 'The action'} failed.`,
+          cause: error,
+          details,
+        }),
+      });
+    }
+  };
@@ -1,16 +1,21 @@
+import type { MediasfuError } from './mediasfuError';
+
 export type NativeCapability = {
   moduleName: string;
   packageName: string;
   platform: string;
 };
 
-export function createNativeCapabilityError(capability: NativeCapability): Error {
+export function createNativeCapabilityError(capability: NativeCapability): MediasfuError {
   const error = new Error(
     `MediaSFU could not load ${capability.packageName}: the native module ${capability.moduleName} is not registered on ${capability.platform}. ` +
       'Rebuild the native app after installing the package. Expo apps must use a development build rather than Expo Go; bare React Native apps should refresh CocoaPods or Gradle dependencies before rebuilding. ' +
       'This is a native app setup issue, not a MediaSFU room or server error.',
-  );
+  ) as MediasfuError;
   error.name = 'MediaSFUNativeCapabilityError';
+  error.code = 'NATIVE_MODULE_MISSING';
+  error.recoverable = false;
+  error.details = { ...capability };
   return error;
 }
 
@@ -0,0 +1,108 @@
+import {
+  BreakoutRoomUpdatedData,
+  Message,
+  Participant,
+  Poll,
+  PollUpdatedData,
+} from '../../@types/types';
+import { getMediasfuLogger } from './logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('room');
+
+export interface MediasfuRoomEvents {
+  onParticipantJoined?: (event: { name: string }) => void;
+  onParticipantLeft?: (event: { name: string; participant: Participant }) => void;
+  onMessageReceived?: (event: { message: Message }) => void;
+  onPollUpdated?: (event: PollUpdatedData) => void;
+  onPollStarted?: (event: { poll: Poll }) => void;
+  onPollEnded?: (event: { poll: Poll }) => void;
+  onRecordingStateChanged?: (event: { state: string; reason?: string }) => void;
+  onRecordingStarted?: () => void;
+  onRecordingStopped?: (event: { reason?: string }) => void;
+  onBreakoutRoomsUpdated?: (event: BreakoutRoomUpdatedData) => void;
+  onBreakoutStarted?: (event: BreakoutRoomUpdatedData) => void;
+  onBreakoutEnded?: (event: BreakoutRoomUpdatedData) => void;
+  onMeetingEnded?: () => void;
+}
+
+export type MediasfuRoomEventName = keyof MediasfuRoomEvents;
+
+export type MediasfuRoomEventPayload<E extends MediasfuRoomEventName> = Parameters<
+  NonNullable<MediasfuRoomEvents[E]>
+>[0];
+
+export interface EmitRoomEventOptions<E extends MediasfuRoomEventName> {
+  events?: MediasfuRoomEvents | null;
+  event: E;
+  payload?: MediasfuRoomEventPayload<E>;
+}
+
+export interface DiffParticipantsOptions {
+  previous: Participant[];
+  next: Participant[];
+}
+
+export interface ParticipantsDiff {
+  joined: Participant[];
+  left: Participant[];
+}
+
+// Export the type definition for the function
+export type EmitRoomEventType = <E extends MediasfuRoomEventName>(options: EmitRoomEventOptions<E>) => void;
+export type DiffParticipantsType = (options: DiffParticipantsOptions) => ParticipantsDiff;
+
+/**
+ * Calls the lifecycle callback registered for `event`, if any.
+ *
+ * Errors thrown by the callback are logged and swallowed so that application code
+ * can never break the socket handler that raised the event.
+ *
+ * @param {EmitRoomEventOptions} options - The options for emitting the event.
+ * @param {MediasfuRoomEvents} [options.events] - The callbacks passed to the room component.
+ * @param {MediasfuRoomEventName} options.event - The callback to invoke.
+ * @param {any} [options.payload] - The payload for the callback.
+ *
+ * @example
+ * ```typescript
+ * emitRoomEvent({
+ *   events: { onParticipantJoined: ({ name }) => console.log(`${name} joined`) },
+ *   event: 'onParticipantJoined',
+ *   payload: { name: 'alice' },
+ * });
+ * ```
+ */
+export const emitRoomEvent: EmitRoomEventType = ({ events, event, payload }) => {
+  const handler = events?.[event] as ((payload?: unknown) => void) | undefined;
+  if (typeof handler !== 'function') {
+    return;
+  }
+
+  try {
+    handler(payload);
+  } catch (error) {
+    logger.error(`error ${event} handler`, error);
+  }
+};
+
+/**
+ * Compares two participant lists by name.
+ *
+ * @param {DiffParticipantsOptions} options - The options for the comparison.
+ * @param {Participant[]} options.previous - The participants before the update.
+ * @param {Participant[]} options.next - The participants after the update.
+ * @returns {ParticipantsDiff} The participants that joined and left.
+ *
+ * @example
+ * ```typescript
+ * const { left } = diffParticipants({ previous: participants, next: updatedParticipants });
+ * ```
+ */
+export const diffParticipants: DiffParticipantsType = ({ previous, next }) => {
+  const previousNames = new Set(previous.map((participant) => participant.name));
+  const nextNames = new Set(next.map((participant) => participant.name));
+
+  return {
+    joined: next.filter((participant) => !previousNames.has(participant.name)),
+    left: previous.filter((participant) => !nextNames.has(participant.name)),
+  };
+};
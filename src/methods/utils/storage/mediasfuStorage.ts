@@ -0,0 +1,151 @@
+// Key-value persistence used by MediaSFU for rate-limit counters and pending room requests.
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+
+export interface MediasfuStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export interface MemoryStorage extends MediasfuStorage {
+  clear: () => void;
+  snapshot: () => Record<string, string>;
+}
+
+export interface StorageCipher {
+  encrypt: (value: string) => string | Promise<string>;
+  decrypt: (value: string) => string | Promise<string>;
+}
+
+export interface CreateEncryptedStorageOptions {
+  storage: MediasfuStorage;
+  cipher: StorageCipher;
+}
+
+// Export the type definition for the function
+export type CreateAsyncStorageAdapterType = () => MediasfuStorage;
+export type CreateMemoryStorageType = (initialValues?: Record<string, string>) => MemoryStorage;
+export type CreateEncryptedStorageType = (options: CreateEncryptedStorageOptions) => MediasfuStorage;
+
+/**
+ * Creates a `MediasfuStorage` backed by `@react-native-async-storage/async-storage`.
+ *
+ * The package is only loaded on first use, so importing MediaSFU does not require the
+ * native module when the app provides its own storage.
+ *
+ * @returns {MediasfuStorage} The AsyncStorage adapter.
+ */
+export const createAsyncStorageAdapter: CreateAsyncStorageAdapterType = () => {
+  let asyncStorage: typeof AsyncStorageStatic | null = null;
+  const load = () => {
+    if (!asyncStorage) {
+      asyncStorage = require('@react-native-async-storage/async-storage').default as typeof AsyncStorageStatic;
+    }
+    return asyncStorage;
+  };
+
+  return {
+    getItem: async (key) => load().getItem(key),
+    setItem: async (key, value) => {
+      await load().setItem(key, value);
+    },
+    removeItem: async (key) => {
+      await load().removeItem(key);
+    },
+  };
+};
+
+/**
+ * Creates a `MediasfuStorage` that keeps values in memory for the lifetime of the app.
+ * Useful for tests and for apps that must not persist anything to disk.
+ *
+ * @param {Record<string, string>} [initialValues] - Values to start with.
+ * @returns {MemoryStorage} The in-memory storage.
+ *
+ * @example
+ * ```typescript
+ * const storage = createMemoryStorage({ unsuccessfulAttempts: '3' });
+ * await storage.getItem('unsuccessfulAttempts'); // '3'
+ * ```
+ */
+export const createMemoryStorage: CreateMemoryStorageType = (initialValues = {}) => {
+  const values = new Map<string, string>(Object.entries(initialValues));
+
+  return {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+    clear: () => values.clear(),
+    snapshot: () => Object.fromEntries(values),
+  };
+};
+
+/**
+ * Wraps another `MediasfuStorage` so values are encrypted before they are written and decrypted
+ * when read. The cipher is supplied by the app (for example backed by a Keychain/Keystore key).
+ *
+ * Values that fail to decrypt are treated as missing and removed.
+ *
+ * @param {CreateEncryptedStorageOptions} options - The options for the encrypted storage.
+ * @param {MediasfuStorage} options.storage - The storage that holds the encrypted values.
+ * @param {StorageCipher} options.cipher - Encrypts and decrypts values.
+ * @returns {MediasfuStorage} The encrypted storage.
+ *
+ * @example
+ * ```typescript
+ * const storage = createEncryptedStorage({
+ *   storage: createAsyncStorageAdapter(),
+ *   cipher: { encrypt: (value) => aes.encrypt(value, key), decrypt: (value) => aes.decrypt(value, key) },
+ * });
+ * ```
+ */
+export const createEncryptedStorage: CreateEncryptedStorageType = ({ storage, cipher }) => ({
+  getItem: async (key) => {
+    const encrypted = await storage.getItem(key);
+    if (encrypted === null) {
+      return null;
+    }
+
+    try {
+      return await cipher.decrypt(encrypted);
+    } catch {
+      await storage.removeItem(key).catch(() => {});
+      return null;
+    }
+  },
+  setItem: async (key, value) => {
+    await storage.setItem(key, await cipher.encrypt(value));
+  },
+  removeItem: async (key) => {
+    await storage.removeItem(key);
+  },
+});
+
+let defaultStorage: MediasfuStorage | null = null;
+
+/**
+ * Returns the storage used when none is passed to a component or method. Defaults to AsyncStorage.
+ */
+export const getDefaultMediasfuStorage = (): MediasfuStorage => {
+  if (!defaultStorage) {
+    defaultStorage = createAsyncStorageAdapter();
+  }
+  return defaultStorage;
+};
+
+/**
+ * Replaces the storage used when none is passed to a component or method, e.g. with an MMKV
+ * adapter at app start-up or with `createMemoryStorage()` in tests.
+ *
+ * @param {MediasfuStorage | null} storage - The new default, or `null` to restore AsyncStorage.
+ */
+export const setDefaultMediasfuStorage = (storage: MediasfuStorage | null): void => {
+  defaultStorage = storage;
+};
+
+export const resolveMediasfuStorage = (storage?: MediasfuStorage | null): MediasfuStorage =>
+  storage ?? getDefaultMediasfuStorage();
@@ -1,2 +1,56 @@
-export { receiveMessage } from 'mediasfu-shared';
-export type { ReceiveMessageOptions, ReceiveMessageType } from 'mediasfu-shared';
+import { receiveMessage as sharedReceiveMessage } from 'mediasfu-shared';
+import type { ReceiveMessageOptions as SharedReceiveMessageOptions } from 'mediasfu-shared';
+import { ChatModerationSettings, ShowAlert } from '../../@types/types';
+import { moderateIncomingMessage } from '../../methods/messageMethods/chatModeration';
+import { isMentioned } from '../../methods/messageMethods/chatMentions';
+
+export type ReceiveMessageOptions = SharedReceiveMessageOptions & {
+  chatModeration?: ChatModerationSettings | null;
+  showAlert?: ShowAlert;
+};
+
+// Export the type definition for the function
+export type ReceiveMessageType = (options: ReceiveMessageOptions) => Promise<void>;
+
+/**
+ * Adds a received message to the message list, masking the room's blocked words first. When the
+ * message mentions the member, they are alerted and the chat badge is shown, even with the chat closed.
+ *
+ * @param {ReceiveMessageOptions} options - The options for receiving the message.
+ * @param {Message} options.message - The received message.
+ * @param {ChatModerationSettings} [options.chatModeration] - The room's moderation settings; blocked words are masked.
+ * @param {ShowAlert} [options.showAlert] - Function to show the mention alert.
+ * @returns {Promise<void>} A promise that resolves when the message list has been updated.
+ *
+ * @example
+ * ```typescript
+ * socket.on('receiveMessage', async ({ message }) => {
+ *   await receiveMessage({
+ *     message,
+ *     messages,
+ *     participantsAll,
+ *     member,
+ *     eventType,
+ *     islevel,
+ *     coHost,
+ *     updateMessages,
+ *     updateShowMessagesBadge,
+ *     chatModeration,
+ *     showAlert,
+ *   });
+ * });
+ * ```
+ */
+export const receiveMessage: ReceiveMessageType = async ({ chatModeration, showAlert, ...options }) => {
+  const message = moderateIncomingMessage(options.message, chatModeration);
+  await sharedReceiveMessage({ ...options, message });
+
+  if (isMentioned(message, options.member)) {
+    showAlert?.({
+      message: `${message.sender} mentioned you: ${message.message}`,
+      type: 'success',
+      duration: 3000,
+    });
+    options.updateShowMessagesBadge?.(true);
+  }
+};
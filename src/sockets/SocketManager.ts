@@ -1,14 +1,29 @@
 // Socket manager for media socket.
 import { MeetingRoomParams, RecordingParams } from '../@types/types';
 import { Socket } from 'socket.io-client'; // Importing socket type
+import { MediasfuSocket } from './socketEvents';
+import {
+  classifySocketError,
+  createSocketAuthError,
+  GetTokenType,
+  OnTokenChangeType,
+  OnTokenExpiredType,
+  watchTokenExpiry,
+} from './socketAuth';
 import {
   connectSocket as sharedConnectSocket,
   connectLocalSocket as sharedConnectLocalSocket,
   disconnectSocket as sharedDisconnectSocket,
 } from 'mediasfu-shared';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('sockets');
+
+// Removes the token expiry listener connectSocket attached, by socket.
+const tokenWatchers = new WeakMap<Socket, () => void>();
 
 export interface ResponseLocalConnection {
-  socket?: Socket;
+  socket?: MediasfuSocket;
   data?: ResponseLocalConnectionData;
 }
 
@@ -31,16 +46,183 @@ export interface ConnectSocketOptions {
   apiKey?: string;
   apiToken?: string;
   link: string;
+  connectionStateMachine?: ConnectionStateMachine;
+  getToken?: GetTokenType;
+  onTokenExpired?: OnTokenExpiredType;
+  onTokenChange?: OnTokenChangeType;
 }
 
 export interface DisconnectSocketOptions {
   socket: Socket;
 }
 
+export interface StopWatchingTokenExpiryOptions {
+  socket: Socket;
+}
+
+export type ConnectionState =
+  | 'idle' // Not yet asked to join a room
+  | 'connecting' // Socket is opening or the room is being joined
+  | 'connected' // Joined and healthy
+  | 'degraded' // Joined but the socket reports errors
+  | 'reconnecting' // Socket dropped, the session is being resumed
+  | 'closed'; // Left, ended or gave up reconnecting
+
+export interface ConnectionStateChange {
+  state: ConnectionState;
+  previousState: ConnectionState;
+  reason?: string;
+  attempt?: number;
+  timestamp: number;
+}
+
+export type ConnectionStateListener = (change: ConnectionStateChange) => void;
+
+export interface ConnectionStateMachine {
+  getState: () => ConnectionState;
+  getLastChange: () => ConnectionStateChange | null;
+  transition: (state: ConnectionState, details?: { reason?: string; attempt?: number }) => boolean;
+  subscribe: (listener: ConnectionStateListener) => () => void;
+}
+
+export interface CreateConnectionStateMachineOptions {
+  initialState?: ConnectionState;
+  onChange?: ConnectionStateListener;
+}
+
+export interface WatchSocketConnectionOptions {
+  socket: Socket;
+  machine: ConnectionStateMachine;
+}
+
+export const connectionStateTransitions: Record<ConnectionState, ConnectionState[]> = {
+  idle: ['connecting', 'connected', 'closed'],
+  connecting: ['idle', 'connected', 'reconnecting', 'closed'],
+  connected: ['connecting', 'degraded', 'reconnecting', 'closed'],
+  degraded: ['connected', 'reconnecting', 'closed'],
+  reconnecting: ['reconnecting', 'connected', 'closed'],
+  closed: ['idle', 'connecting'],
+};
+
 // Export the type definition for the function
-export type ConnectSocketType = (options: ConnectSocketOptions) => Promise<Socket>;
+export type ConnectSocketType = (options: ConnectSocketOptions) => Promise<MediasfuSocket>;
 export type DisconnectSocketType = (options: DisconnectSocketOptions) => Promise<boolean>;
+export type StopWatchingTokenExpiryType = (options: StopWatchingTokenExpiryOptions) => void;
 export type ConnectLocalSocketType = (options: ConnectLocalSocketOptions) => Promise<ResponseLocalConnection>;
+export type CreateConnectionStateMachineType = (options?: CreateConnectionStateMachineOptions) => ConnectionStateMachine;
+export type WatchSocketConnectionType = (options: WatchSocketConnectionOptions) => () => void;
+
+/**
+ * Creates the connection state machine that tracks a room session through
+ * `idle → connecting → connected ⇄ degraded → reconnecting → closed`.
+ *
+ * Transitions not listed in `connectionStateTransitions` are ignored, so callers can report
+ * events freely without corrupting the state. Repeating the current state is a no-op except
+ * for `reconnecting`, which is re-emitted on every attempt.
+ *
+ * @param {CreateConnectionStateMachineOptions} [options] - The options for the machine.
+ * @param {ConnectionState} [options.initialState='idle'] - The starting state.
+ * @param {ConnectionStateListener} [options.onChange] - Listener registered at creation time.
+ * @returns {ConnectionStateMachine} The connection state machine.
+ *
+ * @example
+ * ```typescript
+ * const machine = createConnectionStateMachine();
+ * const unsubscribe = machine.subscribe(({ state, previousState }) => {
+ *   console.log(`Connection: ${previousState} -> ${state}`);
+ * });
+ * machine.transition('connecting');
+ * ```
+ */
+function createConnectionStateMachine({
+  initialState = 'idle',
+  onChange,
+}: CreateConnectionStateMachineOptions = {}): ConnectionStateMachine {
+  let state: ConnectionState = initialState;
+  let lastChange: ConnectionStateChange | null = null;
+  const listeners = new Set<ConnectionStateListener>();
+
+  if (onChange) {
+    listeners.add(onChange);
+  }
+
+  return {
+    getState: () => state,
+    getLastChange: () => lastChange,
+    transition: (next, details = {}) => {
+      if (next === state && next !== 'reconnecting') {
+        return false;
+      }
+      if (!connectionStateTransitions[state].includes(next)) {
+        return false;
+      }
+
+      lastChange = {
+        state: next,
+        previousState: state,
+        reason: details.reason,
+        attempt: details.attempt,
+        timestamp: Date.now(),
+      };
+      state = next;
+
+      listeners.forEach((listener) => {
+        try {
+          listener(lastChange!);
+        } catch (error) {
+          logger.error('error connection state listener', error);
+        }
+      });
+      return true;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Reports socket-level trouble (connection errors, socket.io retries) to a connection state machine
+ * as `degraded`, and moves it back to `connected` once the socket recovers.
+ *
+ * @param {WatchSocketConnectionOptions} options - The options for watching the socket.
+ * @param {Socket} options.socket - The socket to watch.
+ * @param {ConnectionStateMachine} options.machine - The machine to update.
+ * @returns {Function} A function that removes the listeners.
+ *
+ * @example
+ * ```typescript
+ * const stopWatching = watchSocketConnection({ socket, machine });
+ * // later
+ * stopWatching();
+ * ```
+ */
+function watchSocketConnection({ socket, machine }: WatchSocketConnectionOptions): () => void {
+  const onConnectError = (error: Error) => {
+    machine.transition('degraded', { reason: error?.message || 'connect_error' });
+  };
+  const onReconnectAttempt = (attempt: number) => {
+    machine.transition('degraded', { reason: 'reconnect_attempt', attempt });
+  };
+  const onConnect = () => {
+    if (machine.getState() === 'degraded') {
+      machine.transition('connected');
+    }
+  };
+
+  socket.on('connect_error', onConnectError);
+  socket.on('connect', onConnect);
+  socket.io?.on('reconnect_attempt', onReconnectAttempt);
+
+  return () => {
+    socket.off('connect_error', onConnectError);
+    socket.off('connect', onConnect);
+    socket.io?.off('reconnect_attempt', onReconnectAttempt);
+  };
+}
 
 
 /**
@@ -51,8 +233,18 @@ export type ConnectLocalSocketType = (options: ConnectLocalSocketOptions) => Pro
  * @param {string} [options.apiKey] - The API key (optional if apiToken is provided).
  * @param {string} [options.apiToken] - The API token (optional if apiKey is provided).
  * @param {string} options.link - The socket link.
+ * @param {ConnectionStateMachine} [options.connectionStateMachine] - Optional machine moved to `connecting`, or to `closed` when the
+ *   socket cannot be opened. It stays `connecting` until the room is joined: the caller moves it to `connected` on the join ack.
+ * @param {GetTokenType} [options.getToken] - Returns a fresh API token. Called before connecting, again when the
+ *   server reports the token as expired, and whenever the connected socket's token expires mid-session.
+ * @param {OnTokenExpiredType} [options.onTokenExpired] - Called whenever the token is found to be expired.
+ * @param {OnTokenChangeType} [options.onTokenChange] - Called with the token the socket was opened with, which
+ *   differs from `apiToken` when `getToken` is given, and with every token it is later refreshed with. Store it
+ *   instead of `apiToken`.
  *
- * @returns {Promise<Socket>} A promise that resolves to the connected socket.
+ * @returns {Promise<MediasfuSocket>} A promise that resolves to the connected socket, typed with the MediaSFU event maps.
+ * @throws {SocketAuthError} A `MediaSFUSocketAuthError` whose `code` is `TOKEN_EXPIRED`, `INVALID_CREDENTIALS`,
+ *   `NETWORK` or `UNKNOWN`.
  *
  * @example
  * ```typescript
@@ -71,15 +263,60 @@ export type ConnectLocalSocketType = (options: ConnectLocalSocketOptions) => Pro
  * ```
  */
 
-async function connectSocket(
-  { apiUserName, apiKey, apiToken, link }: ConnectSocketOptions,
-): Promise<Socket> {
-  return sharedConnectSocket({
-    apiUserName,
-    apiKey,
-    apiToken,
-    link,
-  } as any) as unknown as Promise<Socket>;
+async function connectSocket({
+  apiUserName,
+  apiKey,
+  apiToken,
+  link,
+  connectionStateMachine,
+  getToken,
+  onTokenExpired,
+  onTokenChange,
+}: ConnectSocketOptions): Promise<MediasfuSocket> {
+  connectionStateMachine?.transition('connecting');
+
+  let usedToken: string | undefined;
+  const open = (token?: string) => {
+    usedToken = token;
+    return sharedConnectSocket({
+      apiUserName,
+      apiKey,
+      apiToken: token,
+      link,
+    } as any) as unknown as Promise<MediasfuSocket>;
+  };
+
+  try {
+    let socket: MediasfuSocket;
+    try {
+      socket = await open(getToken ? await getToken() : apiToken);
+    } catch (error) {
+      if (!getToken || classifySocketError(error) !== 'TOKEN_EXPIRED') {
+        throw error;
+      }
+
+      // the token expired between issue and connect: refresh once and retry
+      onTokenExpired?.({
+        apiUserName,
+        link,
+        error: createSocketAuthError({ code: 'TOKEN_EXPIRED', message: (error as Error)?.message, cause: error }),
+      });
+      socket = await open(await getToken());
+    }
+
+    if (usedToken) {
+      onTokenChange?.(usedToken);
+    }
+    if (getToken) {
+      tokenWatchers.get(socket)?.();
+      tokenWatchers.set(socket, watchTokenExpiry({ socket, apiUserName, link, getToken, onTokenExpired, onTokenChange }));
+    }
+    return socket;
+  } catch (error) {
+    const message = (error as Error)?.message || String(error);
+    connectionStateMachine?.transition('closed', { reason: message });
+    throw createSocketAuthError({ code: classifySocketError(error), message, cause: error });
+  }
 }
 
 
@@ -130,7 +367,33 @@ async function connectLocalSocket({ link }: ConnectLocalSocketOptions): Promise<
  */
 
 async function disconnectSocket({ socket }: DisconnectSocketOptions): Promise<boolean> {
+  stopWatchingTokenExpiry({ socket });
   return sharedDisconnectSocket({ socket: socket as any });
 }
 
-export { connectSocket, disconnectSocket, connectLocalSocket };
+/**
+ * Removes the listener `connectSocket` attached to refresh an expired token, once the socket is
+ * no longer used. `disconnectSocket` does this itself.
+ *
+ * @param {StopWatchingTokenExpiryOptions} options - The options for the call.
+ * @param {Socket} options.socket - The socket opened by `connectSocket`.
+ *
+ * @example
+ * ```typescript
+ * stopWatchingTokenExpiry({ socket });
+ * socket.disconnect();
+ * ```
+ */
+function stopWatchingTokenExpiry({ socket }: StopWatchingTokenExpiryOptions): void {
+  tokenWatchers.get(socket)?.();
+  tokenWatchers.delete(socket);
+}
+
+export {
+  connectSocket,
+  disconnectSocket,
+  connectLocalSocket,
+  createConnectionStateMachine,
+  watchSocketConnection,
+  stopWatchingTokenExpiry,
+};
@@ -0,0 +1,206 @@
+// Reconnection helpers for the media socket.
+import { Socket } from 'socket.io-client';
+import { ConnectLocalSocketType, ConnectSocketType } from './SocketManager';
+import { ServerToClientEvents } from './socketEvents';
+import { classifySocketError, GetTokenType, OnTokenChangeType, OnTokenExpiredType } from './socketAuth';
+import { sleep } from '../methods/utils/sleep';
+
+export interface ReconnectionConfig {
+  enabled?: boolean; // Set to false to restore the legacy "disconnect and reset" behaviour
+  maxAttempts?: number; // Number of connection attempts before giving up
+  initialDelayMs?: number; // Delay before the first attempt
+  maxDelayMs?: number; // Upper bound for the backoff delay
+  backoffMultiplier?: number; // Growth factor applied on every attempt
+  jitter?: number; // Random spread (0 - 1) applied to each delay
+}
+
+export const defaultReconnectionConfig: Required<ReconnectionConfig> = {
+  enabled: true,
+  maxAttempts: 8,
+  initialDelayMs: 1000,
+  maxDelayMs: 15000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+};
+
+export interface GetReconnectDelayOptions {
+  attempt: number;
+  config?: ReconnectionConfig;
+  random?: () => number;
+}
+
+export interface IsTransientDisconnectOptions {
+  reason?: string;
+}
+
+export interface ReconnectSocketOptions {
+  apiUserName: string;
+  apiKey?: string;
+  apiToken?: string;
+  link: string;
+  connectSocket: ConnectSocketType;
+  localLink?: string; // Community Edition: reconnect to this server through connectLocalSocket instead
+  connectLocalSocket?: ConnectLocalSocketType;
+  getToken?: GetTokenType;
+  onTokenExpired?: OnTokenExpiredType;
+  onTokenChange?: OnTokenChangeType;
+  config?: ReconnectionConfig;
+  onAttempt?: (attempt: number, delayMs: number) => void;
+  shouldAbort?: () => boolean;
+}
+
+// Export the type definition for the function
+export type GetReconnectDelayType = (options: GetReconnectDelayOptions) => number;
+export type IsTransientDisconnectType = (options: IsTransientDisconnectOptions) => boolean;
+export type ReconnectSocketType = (options: ReconnectSocketOptions) => Promise<Socket | null>;
+
+// Disconnect reasons reported by socket.io that do not come from an intentional close.
+const TRANSIENT_DISCONNECT_REASONS = ['ping timeout', 'transport close', 'transport error'];
+
+// Recording events the components listen to on the alternate socket (the MediaSFU socket of a
+// Community Edition room, or the main socket otherwise); cleared before they are registered again.
+export const RECORDING_SOCKET_EVENTS: (keyof ServerToClientEvents)[] = [
+  'roomRecordParams',
+  'startRecords',
+  'reInitiateRecording',
+  'RecordingNotice',
+  'timeLeftRecording',
+  'stoppedRecording',
+];
+
+/**
+ * Computes the exponential backoff delay for a reconnection attempt.
+ *
+ * @param {GetReconnectDelayOptions} options - The options for computing the delay.
+ * @param {number} options.attempt - The 1-based attempt number.
+ * @param {ReconnectionConfig} [options.config] - Overrides for the default reconnection config.
+ * @param {Function} [options.random] - Random source used for jitter (defaults to `Math.random`).
+ * @returns {number} The delay in milliseconds before the attempt should run.
+ *
+ * @example
+ * ```typescript
+ * const delay = getReconnectDelay({ attempt: 3, config: { initialDelayMs: 500 } });
+ * console.log(delay); // ~2000ms
+ * ```
+ */
+export const getReconnectDelay = ({
+  attempt,
+  config = {},
+  random = Math.random,
+}: GetReconnectDelayOptions): number => {
+  const settings = { ...defaultReconnectionConfig, ...config };
+  const exponent = Math.max(0, attempt - 1);
+  const base = Math.min(
+    settings.initialDelayMs * Math.pow(settings.backoffMultiplier, exponent),
+    settings.maxDelayMs,
+  );
+  const spread = base * Math.min(Math.max(settings.jitter, 0), 1);
+
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+};
+
+/**
+ * Checks whether a socket disconnect reason is a network interruption worth recovering from.
+ *
+ * Server-initiated (`io server disconnect`) and client-initiated (`io client disconnect`)
+ * disconnects are treated as final.
+ *
+ * @param {IsTransientDisconnectOptions} options - The options for the check.
+ * @param {string} [options.reason] - The reason passed to the socket `disconnect` event.
+ * @returns {boolean} True if the session should try to reconnect.
+ *
+ * @example
+ * ```typescript
+ * socket.on('disconnect', (reason) => {
+ *   if (isTransientDisconnect({ reason })) {
+ *     // show "Reconnecting…" and start reconnectSocket
+ *   }
+ * });
+ * ```
+ */
+export const isTransientDisconnect = ({ reason }: IsTransientDisconnectOptions): boolean => {
+  return !!reason && TRANSIENT_DISCONNECT_REASONS.includes(reason);
+};
+
+/**
+ * Opens a fresh media socket, retrying with exponential backoff until it connects,
+ * the attempts are exhausted or the caller aborts. Rejected credentials end the retries
+ * early; an expired token is refreshed through `getToken` when one is given. The socket of every
+ * failed or aborted attempt is disconnected.
+ *
+ * @param {ReconnectSocketOptions} options - The options for reconnecting.
+ * @param {string} options.apiUserName - The API username.
+ * @param {string} [options.apiKey] - The API key (optional if apiToken is provided).
+ * @param {string} [options.apiToken] - The API token (optional if apiKey is provided).
+ * @param {string} options.link - The socket link.
+ * @param {ConnectSocketType} options.connectSocket - The function used to open the socket.
+ * @param {string} [options.localLink] - The Community Edition server to reconnect to instead of `link`.
+ * @param {ConnectLocalSocketType} [options.connectLocalSocket] - The function used to open the socket to `localLink`.
+ * @param {GetTokenType} [options.getToken] - Returns a fresh API token for every attempt.
+ * @param {OnTokenExpiredType} [options.onTokenExpired] - Called whenever the token is found to be expired.
+ * @param {OnTokenChangeType} [options.onTokenChange] - Called with the token the new socket was opened with.
+ * @param {ReconnectionConfig} [options.config] - Overrides for the default reconnection config.
+ * @param {Function} [options.onAttempt] - Called before every attempt with the attempt number and delay.
+ * @param {Function} [options.shouldAbort] - Returns true to stop retrying (e.g. the user left the room).
+ * @returns {Promise<Socket | null>} The connected socket, or null if reconnection failed.
+ *
+ * @example
+ * ```typescript
+ * const socket = await reconnectSocket({
+ *   apiUserName: 'user123',
+ *   apiToken: 'token',
+ *   link: 'https://mediasfu.com/socket',
+ *   connectSocket,
+ *   onAttempt: (attempt) => console.log('Reconnecting, attempt', attempt),
+ * });
+ * ```
+ */
+export const reconnectSocket = async ({
+  apiUserName,
+  apiKey,
+  apiToken,
+  link,
+  connectSocket,
+  localLink,
+  connectLocalSocket,
+  getToken,
+  onTokenExpired,
+  onTokenChange,
+  config = {},
+  onAttempt,
+  shouldAbort,
+}: ReconnectSocketOptions): Promise<Socket | null> => {
+  const settings = { ...defaultReconnectionConfig, ...config };
+
+  for (let attempt = 1; attempt <= settings.maxAttempts; attempt++) {
+    const delayMs = getReconnectDelay({ attempt, config: settings });
+    onAttempt?.(attempt, delayMs);
+    await sleep({ ms: delayMs });
+
+    if (shouldAbort?.()) {
+      return null;
+    }
+
+    try {
+      const socket =
+        localLink && connectLocalSocket
+          ? (await connectLocalSocket({ link: localLink })).socket
+          : await connectSocket({ apiUserName, apiKey, apiToken, link, getToken, onTokenExpired, onTokenChange });
+      if (socket && socket.id && !shouldAbort?.()) {
+        return socket;
+      }
+      // a socket that never got an id, or lost the race with shouldAbort, is not handed out
+      socket?.disconnect();
+      if (shouldAbort?.()) {
+        return null;
+      }
+    } catch (error) {
+      if (classifySocketError(error) === 'INVALID_CREDENTIALS') {
+        return null;
+      }
+      // try again after the next delay
+    }
+  }
+
+  return null;
+};
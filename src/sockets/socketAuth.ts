@@ -0,0 +1,173 @@
+// Token refresh and authentication error helpers for the media socket.
+import { Socket } from 'socket.io-client';
+import type { MediasfuError } from '../methods/utils/mediasfuError';
+import { getMediasfuLogger } from '../methods/utils/logger/mediasfuLogger';
+
+const logger = getMediasfuLogger('sockets');
+
+export type SocketAuthErrorCode =
+  | 'TOKEN_EXPIRED' // The token was valid but has expired; refresh it and retry
+  | 'INVALID_CREDENTIALS' // The API username, key or token was rejected
+  | 'NETWORK' // The server could not be reached or the request timed out
+  | 'UNKNOWN';
+
+export interface SocketAuthError extends MediasfuError {
+  code: SocketAuthErrorCode;
+}
+
+export type GetTokenType = () => string | Promise<string>;
+
+export interface TokenExpiredInfo {
+  apiUserName: string;
+  link: string;
+  error: SocketAuthError;
+}
+
+export type OnTokenExpiredType = (info: TokenExpiredInfo) => void;
+
+// Called with the token a socket was opened with, and with every token it is re-authenticated with.
+export type OnTokenChangeType = (apiToken: string) => void;
+
+export interface CreateSocketAuthErrorOptions {
+  code: SocketAuthErrorCode;
+  message: string;
+  cause?: unknown;
+}
+
+export interface WatchTokenExpiryOptions {
+  socket: Socket;
+  apiUserName: string;
+  link: string;
+  getToken: GetTokenType;
+  onTokenExpired?: OnTokenExpiredType;
+  onTokenChange?: OnTokenChangeType;
+}
+
+// Export the type definition for the function
+export type CreateSocketAuthErrorType = (options: CreateSocketAuthErrorOptions) => SocketAuthError;
+export type ClassifySocketErrorType = (error: unknown) => SocketAuthErrorCode;
+export type WatchTokenExpiryType = (options: WatchTokenExpiryOptions) => () => void;
+
+const TOKEN_EXPIRED_PATTERN = /expired|jwt expired|token.*(stale|no longer valid)/i;
+const INVALID_CREDENTIALS_PATTERN = /invalid|unauthori[sz]ed|forbidden|credential|not allowed|\b40[13]\b/i;
+const NETWORK_PATTERN = /timed? ?out|timeout|network|xhr poll error|websocket error|econnrefused|offline/i;
+
+export function createSocketAuthError({ code, message, cause }: CreateSocketAuthErrorOptions): SocketAuthError {
+  const error = new Error(message) as SocketAuthError;
+  error.name = 'MediaSFUSocketAuthError';
+  error.code = code;
+  error.recoverable = code !== 'INVALID_CREDENTIALS';
+  error.cause = cause;
+  return error;
+}
+
+export function isSocketAuthError(error: unknown): error is SocketAuthError {
+  return error instanceof Error && error.name === 'MediaSFUSocketAuthError';
+}
+
+/**
+ * Maps a connection failure to a stable code so callers can tell an expired token, which
+ * should be refreshed, from credentials that are actually wrong.
+ *
+ * @param {unknown} error - The error thrown while connecting, or the socket `connect_error`.
+ * @returns {SocketAuthErrorCode} The error code.
+ *
+ * @example
+ * ```typescript
+ * socket.on('connect_error', (error) => {
+ *   if (classifySocketError(error) === 'TOKEN_EXPIRED') {
+ *     // fetch a new token
+ *   }
+ * });
+ * ```
+ */
+export function classifySocketError(error: unknown): SocketAuthErrorCode {
+  if (isSocketAuthError(error)) {
+    return error.code;
+  }
+
+  const data = (error as { data?: { code?: string; reason?: string } })?.data;
+  const message = [
+    data?.code,
+    data?.reason,
+    error instanceof Error ? error.message : typeof error === 'string' ? error : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  if (TOKEN_EXPIRED_PATTERN.test(message)) {
+    return 'TOKEN_EXPIRED';
+  }
+  if (INVALID_CREDENTIALS_PATTERN.test(message)) {
+    return 'INVALID_CREDENTIALS';
+  }
+  if (NETWORK_PATTERN.test(message)) {
+    return 'NETWORK';
+  }
+  return 'UNKNOWN';
+}
+
+/**
+ * Keeps a connected socket authenticated when its token expires mid-session.
+ *
+ * When socket.io's own reconnection is rejected because the token expired, `onTokenExpired`
+ * is called, a fresh token is fetched with `getToken` and written to the socket's `auth` and
+ * handshake query so the next automatic retry uses it.
+ *
+ * @param {WatchTokenExpiryOptions} options - The options for watching the socket.
+ * @param {Socket} options.socket - The connected socket.
+ * @param {string} options.apiUserName - The API username the socket was opened with.
+ * @param {string} options.link - The socket link.
+ * @param {GetTokenType} options.getToken - Returns a fresh API token.
+ * @param {OnTokenExpiredType} [options.onTokenExpired] - Called whenever the token is found to be expired.
+ * @param {OnTokenChangeType} [options.onTokenChange] - Called with every refreshed token, so callers can keep it.
+ * @returns {Function} A function that removes the listener.
+ *
+ * @example
+ * ```typescript
+ * const stopWatching = watchTokenExpiry({ socket, apiUserName, link, getToken: fetchToken });
+ * ```
+ */
+export function watchTokenExpiry({
+  socket,
+  apiUserName,
+  link,
+  getToken,
+  onTokenExpired,
+  onTokenChange,
+}: WatchTokenExpiryOptions): () => void {
+  let refreshing = false;
+
+  const onConnectError = async (cause: Error) => {
+    if (refreshing || classifySocketError(cause) !== 'TOKEN_EXPIRED') {
+      return;
+    }
+
+    refreshing = true;
+    try {
+      onTokenExpired?.({
+        apiUserName,
+        link,
+        error: createSocketAuthError({ code: 'TOKEN_EXPIRED', message: cause.message, cause }),
+      });
+      const apiToken = await getToken();
+      if (socket.auth && typeof socket.auth === 'object') {
+        socket.auth = { ...socket.auth, apiToken };
+      }
+      const opts = socket.io?.opts as { query?: Record<string, unknown> } | undefined;
+      if (opts?.query && typeof opts.query === 'object') {
+        opts.query = { ...opts.query, apiToken };
+      }
+      onTokenChange?.(apiToken);
+    } catch (error) {
+      logger.error('error refreshing token', error);
+    } finally {
+      refreshing = false;
+    }
+  };
+
+  socket.on('connect_error', onConnectError);
+  return () => {
+    socket.off('connect_error', onConnectError);
+  };
+}
@@ -0,0 +1,321 @@
+// Typed event maps for the media socket.
+import { Socket } from 'socket.io-client';
+import { DtlsParameters } from 'mediasoup-client/lib/types';
+import {
+  AllMembersData,
+  AllMembersRestData,
+  AllWaitingRoomMembersData,
+  AttachmentChunk,
+  BanData,
+  BreakoutParticipant,
+  BreakoutRoomUpdatedData,
+  ChatModerationSettings,
+  ChatModerationUpdatedData,
+  ControlMediaHostData,
+  CreateJoinLocalRoomResponse,
+  CreateLocalRoomParameters,
+  HostRequestResponseData,
+  JoinLocalEventRoomParameters,
+  Message,
+  MessageDeletedData,
+  MessageReactionData,
+  MeetingTimeRemainingData,
+  ParticipantRequestedData,
+  Poll,
+  PollUpdatedData,
+  ProducerMediaClosedData,
+  ProducerMediaPausedData,
+  ProducerMediaResumedData,
+  ReceiveMessageData,
+  RecordingNoticeData,
+  RecordParams,
+  ScreenProducerIdData,
+  StoppedRecordingData,
+  TimeLeftRecordingData,
+  TypingEventData,
+  UpdateConsumingDomainsData,
+  UpdatedCoHostData,
+  UpdateMediaSettingsData,
+  UserWaitingData,
+  WhiteboardActionData,
+  WhiteboardUpdatedData,
+  WhiteboardUser,
+} from '../@types/types';
+import {
+  AddedAsPanelistData,
+  ControlMediaData,
+  PanelistFocusChangedData,
+  PanelistsUpdatedData,
+  RemovedFromPanelistsData,
+} from '../producers/socketReceiveMethods/panelistReceiveMethods';
+import {
+  PermissionConfigUpdatedData,
+  PermissionUpdatedData,
+} from '../producers/socketReceiveMethods/permissionReceiveMethods';
+import {
+  TranslationChannelsAvailableData,
+  TranslationConfigUpdatedData,
+  TranslationErrorData,
+  TranslationLanguageSetData,
+  TranslationMemberStateData,
+  TranslationProducerClosedData,
+  TranslationProducerReadyData,
+  TranslationRoomConfigData,
+  TranslationSpeakerOutputChangedData,
+  TranslationSubscribedData,
+  TranslationTranscriptData,
+  TranslationUnsubscribedData,
+} from '../producers/socketReceiveMethods/translationReceiveMethods';
+
+export interface SocketAckResponse {
+  success: boolean;
+  reason?: string;
+}
+
+export interface RecordingAckResponse extends SocketAckResponse {
+  recordState?: string;
+  pauseCount?: number;
+  timeDone?: number;
+}
+
+export interface ConnectionSuccessData {
+  socketId: string;
+  mode?: string;
+  [key: string]: any;
+}
+
+export interface TranslationSpeakerDisabledData {
+  speakerId: string;
+  speakerName?: string;
+}
+
+export interface SendMessagePayload {
+  messageObject: Message;
+  roomName: string;
+}
+
+export interface SendMessageReactionPayload extends MessageReactionData {
+  roomName: string;
+}
+
+export interface DeleteMessagePayload extends MessageDeletedData {
+  roomName: string;
+}
+
+export interface TypingPayload extends TypingEventData {
+  roomName: string;
+}
+
+export interface SendAttachmentChunkPayload extends AttachmentChunk {
+  roomName: string;
+  group: boolean;
+  receivers: string[];
+}
+
+export interface UpdateChatModerationPayload {
+  roomName: string;
+  settings: ChatModerationSettings;
+  updatedBy: string;
+}
+
+export interface ChatModerationAckResponse extends SocketAckResponse {
+  settings?: Partial<ChatModerationSettings>;
+}
+
+export interface BreakoutPayload {
+  breakoutRooms: BreakoutParticipant[][];
+  newParticipantAction: string;
+  roomName: string;
+}
+
+export interface UpdateHostBreakoutPayload {
+  prevRoom?: number;
+  newRoom: number;
+  roomName: string;
+}
+
+export interface CreatePollPayload {
+  roomName: string;
+  poll: Partial<Poll>;
+  quizAnswer?: { correctOption: number }; // Quiz questions: kept by the server until the question ends.
+}
+
+export interface VotePollPayload {
+  roomName: string;
+  poll_id: string;
+  member: string;
+  choice: number;
+  choices?: number[]; // Multi-select and ranked-choice polls.
+  text?: string; // Open-text polls.
+}
+
+export interface EndPollPayload {
+  roomName: string;
+  poll_id: string;
+}
+
+export interface UpdateWhiteboardPayload {
+  roomName: string;
+  whiteboardUsers: WhiteboardUser[];
+  status?: 'started' | 'ended';
+}
+
+export interface UpdateBoardActionPayload {
+  action: string;
+  payload?: any;
+}
+
+export interface RecordingPayload {
+  roomName: string;
+  member: string;
+}
+
+export interface TransportProducePayload {
+  kind: string;
+  rtpParameters: any;
+  appData: any;
+  islevel: string;
+  name: string;
+}
+
+export interface DisconnectUserPayload {
+  member: string;
+  roomName: string;
+  ban: boolean;
+}
+
+export interface SetMyLanguagePayload {
+  roomName: string;
+  language: string;
+  defaultOutputLanguage?: string | null;
+  enabled: boolean;
+  producerId?: string | null;
+}
+
+// Events the MediaSFU server sends to the client.
+export interface ServerToClientEvents {
+  'connection-success': (data: ConnectionSuccessData) => void;
+
+  // members and requests
+  allMembers: (data: AllMembersData) => void;
+  allMembersRest: (data: AllMembersRestData) => void;
+  userWaiting: (data: UserWaitingData) => void;
+  personJoined: (data: { name: string }) => void;
+  allWaitingRoomMembers: (data: AllWaitingRoomMembersData) => void;
+  ban: (data: BanData) => void;
+  updatedCoHost: (data: UpdatedCoHostData) => void;
+  participantRequested: (data: ParticipantRequestedData) => void;
+  hostRequestResponse: (data: HostRequestResponseData) => void;
+  disconnectUserSelf: () => void;
+
+  // media
+  screenProducerId: (data: ScreenProducerIdData) => void;
+  updateMediaSettings: (data: UpdateMediaSettingsData) => void;
+  'producer-media-paused': (data: ProducerMediaPausedData) => void;
+  'producer-media-resumed': (data: ProducerMediaResumedData) => void;
+  'producer-media-closed': (data: ProducerMediaClosedData) => void;
+  controlMediaHost: (data: ControlMediaHostData) => void;
+  updateConsumingDomains: (data: UpdateConsumingDomainsData) => void;
+
+  // panelists and permissions
+  panelistsUpdated: (data: PanelistsUpdatedData) => void;
+  panelistFocusChanged: (data: PanelistFocusChangedData) => void;
+  addedAsPanelist: (data: AddedAsPanelistData) => void;
+  removedFromPanelists: (data: RemovedFromPanelistsData) => void;
+  controlMedia: (data: ControlMediaData) => void;
+  permissionUpdated: (data: PermissionUpdatedData) => void;
+  permissionConfigUpdated: (data: PermissionConfigUpdatedData) => void;
+
+  // translation
+  'translation:roomConfig': (data: TranslationRoomConfigData) => void;
+  'translation:configUpdated': (data: TranslationConfigUpdatedData) => void;
+  'translation:languageSet': (data: TranslationLanguageSetData) => void;
+  'translation:subscribed': (data: TranslationSubscribedData) => void;
+  'translation:unsubscribed': (data: TranslationUnsubscribedData) => void;
+  'translation:producerReady': (data: TranslationProducerReadyData) => void;
+  'translation:producerClosed': (data: TranslationProducerClosedData) => void;
+  'translation:channelsAvailable': (data: TranslationChannelsAvailableData) => void;
+  'translation:memberState': (data: TranslationMemberStateData) => void;
+  'translation:error': (data: TranslationErrorData) => void;
+  'translation:transcript': (data: TranslationTranscriptData) => void;
+  'translation:speakerOutputChanged': (data: TranslationSpeakerOutputChangedData) => void;
+  'translation:speakerDisabled': (data: TranslationSpeakerDisabledData) => void;
+
+  // meeting
+  meetingEnded: () => void;
+  meetingTimeRemaining: (data: MeetingTimeRemainingData) => void;
+  meetingStillThere: () => void;
+
+  // chat, polls and breakout rooms
+  receiveMessage: (data: ReceiveMessageData) => void;
+  messageReaction: (data: MessageReactionData) => void;
+  messageDeleted: (data: MessageDeletedData) => void;
+  chatModerationUpdated: (data: ChatModerationUpdatedData) => void;
+  userTyping: (data: TypingEventData) => void;
+  attachmentChunk: (data: AttachmentChunk) => void;
+  pollUpdated: (data: PollUpdatedData) => void;
+  breakoutRoomUpdated: (data: BreakoutRoomUpdatedData) => void;
+
+  // whiteboard
+  whiteboardUpdated: (data: WhiteboardUpdatedData) => void;
+  whiteboardAction: (data: WhiteboardActionData) => void;
+
+  // recording
+  roomRecordParams: (data: { recordParams: RecordParams }) => void;
+  startRecords: () => void;
+  reInitiateRecording: () => void;
+  RecordingNotice: (data: RecordingNoticeData) => void;
+  timeLeftRecording: (data: TimeLeftRecordingData) => void;
+  stoppedRecording: (data: StoppedRecordingData) => void;
+}
+
+// Events the client sends to the MediaSFU server.
+export interface ClientToServerEvents {
+  // chat
+  sendMessage: (data: SendMessagePayload) => void;
+  sendMessageReaction: (data: SendMessageReactionPayload) => void;
+  deleteMessage: (data: DeleteMessagePayload) => void;
+  updateChatModeration: (data: UpdateChatModerationPayload) => void;
+  getChatModeration: (data: { roomName: string }, ack: (response: ChatModerationAckResponse) => void) => void;
+  typing: (data: TypingPayload) => void;
+  sendAttachmentChunk: (data: SendAttachmentChunkPayload) => void;
+
+  // breakout rooms
+  startBreakout: (data: BreakoutPayload, ack: (response: SocketAckResponse) => void) => void;
+  updateBreakout: (data: BreakoutPayload, ack: (response: SocketAckResponse) => void) => void;
+  stopBreakout: (data: { roomName: string }, ack: (response: SocketAckResponse) => void) => void;
+  updateHostBreakout: (data: UpdateHostBreakoutPayload, ack: (response?: SocketAckResponse) => void) => void;
+
+  // polls
+  createPoll: (data: CreatePollPayload, ack: (response: SocketAckResponse) => void) => void;
+  votePoll: (data: VotePollPayload, ack: (response: SocketAckResponse) => void) => void;
+  endPoll: (data: EndPollPayload, ack: (response: SocketAckResponse) => void) => void;
+
+  // whiteboard
+  updateWhiteboard: (data: UpdateWhiteboardPayload, ack: (response: SocketAckResponse) => void) => void;
+  updateBoardAction: (data: UpdateBoardActionPayload, ack: (response: SocketAckResponse) => void) => void;
+
+  // recording
+  startRecordIng: (data: RecordingPayload, ack: (response: RecordingAckResponse) => void) => void;
+  pauseRecord: (data: RecordingPayload, ack: (response: RecordingAckResponse) => void) => void;
+  resumeRecord: (data: RecordingPayload, ack: (response: RecordingAckResponse) => void) => void;
+  stopRecord: (data: RecordingPayload, ack: (response: RecordingAckResponse) => void) => void;
+
+  // local rooms and transports
+  createRoom: (data: CreateLocalRoomParameters, ack: (response: CreateJoinLocalRoomResponse) => void) => void;
+  joinEventRoom: (data: JoinLocalEventRoomParameters, ack: (response: CreateJoinLocalRoomResponse) => void) => void;
+  createWebRtcTransport: (
+    data: { consumer: boolean; islevel: string },
+    ack: (response: { params: any }) => void,
+  ) => void;
+  'transport-connect': (data: { dtlsParameters: DtlsParameters }) => void;
+  'transport-produce': (data: TransportProducePayload, ack: (response: { id: string }) => void) => void;
+  'consumer-close': (data: { serverConsumerId: string }, ack: () => void) => void;
+
+  // members and translation
+  disconnectUser: (data: DisconnectUserPayload) => void;
+  'translation:setMyLanguage': (data: SetMyLanguagePayload) => void;
+}
+
+// The media socket with the MediaSFU event maps applied.
+export type MediasfuSocket = Socket<ServerToClientEvents, ClientToServerEvents>;